@@ -131,6 +131,14 @@ jest.mock("@/lib/slaAggregation", () => ({
       mttrByType: {},
       mttrByPriority: {},
     },
+    detention: {
+      stops: 4,
+      detained: 1,
+      rate: 25,
+      avgDwellMinutes: 95,
+      totalDetentionHours: 1.5,
+      totalCharged: 450,
+    },
   })),
   getSLATrends: jest.fn(async () => [
     {
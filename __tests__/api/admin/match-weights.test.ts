@@ -0,0 +1,199 @@
+/**
+ * Match Weights API Tests
+ *
+ * Tests for:
+ * - GET/PUT /api/admin/settings/match-weights (platform weights)
+ * - GET/PUT/DELETE /api/shipper/match-weights (shipper override)
+ *
+ * Business rules tested:
+ * - Only admins edit platform weights; only shippers edit their override
+ * - Weights must be integers adding up to 100
+ * - Every save is a new version; the shipper override wins for its loads
+ */
+
+import {
+  createRequest,
+  parseResponse,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+} from "../../utils/routeTestUtils";
+import {
+  useAdminSession,
+  useShipperSession,
+  useCarrierSession,
+} from "./helpers";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+
+const {
+  GET: getPlatformWeights,
+  PUT: putPlatformWeights,
+} = require("@/app/api/admin/settings/match-weights/route");
+const {
+  GET: getShipperWeights,
+  PUT: putShipperWeights,
+  DELETE: deleteShipperWeights,
+} = require("@/app/api/shipper/match-weights/route");
+const { writeAuditLog } = require("@/lib/auditLog");
+
+const ADMIN_URL = "http://localhost:3000/api/admin/settings/match-weights";
+const SHIPPER_URL = "http://localhost:3000/api/shipper/match-weights";
+
+describe("Match Weights API", () => {
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  describe("platform weights", () => {
+    it("returns the built-in weights before any are saved", async () => {
+      useAdminSession();
+      const res = await getPlatformWeights(createRequest("GET", ADMIN_URL));
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.weights).toMatchObject({
+        route: 25,
+        time: 20,
+        capacity: 20,
+        deadhead: 25,
+        reliability: 10,
+        version: 0,
+        scope: "DEFAULT",
+      });
+      expect(body.history).toEqual([]);
+    });
+
+    it("rejects weights that do not add up to 100 → 400", async () => {
+      useAdminSession();
+      const res = await putPlatformWeights(
+        createRequest("PUT", ADMIN_URL, {
+          body: { route: 50, time: 30, capacity: 20, deadhead: 10 },
+        })
+      );
+      expect(res.status).toBe(400);
+    });
+
+    it("admin saves a new version and it is audited", async () => {
+      useAdminSession();
+      const res = await putPlatformWeights(
+        createRequest("PUT", ADMIN_URL, {
+          body: { route: 40, time: 30, capacity: 20, deadhead: 10 },
+        })
+      );
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.weights).toMatchObject({
+        route: 40,
+        version: 1,
+        scope: "PLATFORM",
+      });
+      expect(writeAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({ action: "MATCH_WEIGHTS_UPDATED" })
+      );
+    });
+
+    it("non-admins cannot read or change platform weights → 403", async () => {
+      useShipperSession();
+      expect(
+        (await getPlatformWeights(createRequest("GET", ADMIN_URL))).status
+      ).toBe(403);
+      const res = await putPlatformWeights(
+        createRequest("PUT", ADMIN_URL, {
+          body: { route: 25, time: 25, capacity: 25, deadhead: 25 },
+        })
+      );
+      expect(res.status).toBe(403);
+    });
+  });
+
+  describe("shipper override", () => {
+    it("shipper sees the platform weights without an override", async () => {
+      useShipperSession();
+      const res = await getShipperWeights(createRequest("GET", SHIPPER_URL));
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.hasOverride).toBe(false);
+      expect(body.weights).toEqual(body.platform);
+      expect(body.weights.version).toBe(1);
+    });
+
+    it("shipper saves an override weighting deadhead heavily", async () => {
+      useShipperSession();
+      const res = await putShipperWeights(
+        createRequest("PUT", SHIPPER_URL, {
+          body: { route: 20, time: 10, capacity: 10, deadhead: 60 },
+        })
+      );
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.weights).toMatchObject({
+        deadhead: 60,
+        version: 1,
+        scope: "SHIPPER",
+      });
+
+      const current = await parseResponse(
+        await getShipperWeights(createRequest("GET", SHIPPER_URL))
+      );
+      expect(current.hasOverride).toBe(true);
+      expect(current.weights.deadhead).toBe(60);
+      expect(current.platform.deadhead).toBe(10);
+      expect(current.history).toHaveLength(1);
+    });
+
+    it("carriers cannot set match weights → 403", async () => {
+      useCarrierSession();
+      const res = await putShipperWeights(
+        createRequest("PUT", SHIPPER_URL, {
+          body: { route: 25, time: 25, capacity: 25, deadhead: 25 },
+        })
+      );
+      expect(res.status).toBe(403);
+    });
+
+    it("removing the override restores platform weights; twice → 404", async () => {
+      useShipperSession();
+      const res = await deleteShipperWeights(
+        createRequest("DELETE", SHIPPER_URL)
+      );
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.weights).toMatchObject({ scope: "PLATFORM", version: 1 });
+
+      expect(
+        (await deleteShipperWeights(createRequest("DELETE", SHIPPER_URL)))
+          .status
+      ).toBe(404);
+    });
+  });
+});
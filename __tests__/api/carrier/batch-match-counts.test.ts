@@ -0,0 +1,149 @@
+// @jest-environment node
+/**
+ * Batch Match Counts API Tests
+ *
+ * Tests for:
+ * - POST /api/truck-postings/batch-match-counts (carrier load board)
+ * - POST /api/loads/batch-match-counts (shipper load board)
+ *
+ * Business rules tested:
+ * - Counts are read from the persisted match index
+ * - Only the caller's own postings or loads get counts
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockCors,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  SeedData,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockCors();
+mockRbac();
+mockApiErrors();
+mockLogger();
+
+const {
+  POST: postingCounts,
+} = require("@/app/api/truck-postings/batch-match-counts/route");
+const {
+  POST: loadCounts,
+} = require("@/app/api/loads/batch-match-counts/route");
+
+const carrierSession = createMockSession({
+  userId: "carrier-user-1",
+  role: "CARRIER",
+  organizationId: "carrier-org-1",
+  status: "ACTIVE",
+});
+
+const shipperSession = createMockSession({
+  userId: "shipper-user-1",
+  role: "SHIPPER",
+  organizationId: "shipper-org-1",
+  status: "ACTIVE",
+});
+
+describe("Batch Match Counts API", () => {
+  let seed: SeedData;
+
+  beforeAll(async () => {
+    seed = await seedTestData();
+
+    await db.load.create({
+      data: {
+        id: "bmc-load-2",
+        status: "POSTED",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        weight: 3000,
+        pickupDate: new Date(),
+        shipperId: seed.shipperOrg.id,
+        createdById: seed.shipperUser.id,
+      },
+    });
+
+    const entry = {
+      truckPostingId: seed.truckPosting.id,
+      isExactMatch: false,
+      dhOriginKm: 0,
+      matchReasons: [],
+      weightVersion: 1,
+    };
+    await db.matchIndexEntry.createMany({
+      data: [
+        { ...entry, loadId: seed.load.id, score: 82 },
+        { ...entry, loadId: "bmc-load-2", score: 64 },
+      ],
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  it("counts a posting's indexed loads", async () => {
+    setAuthSession(carrierSession);
+    const res = await postingCounts(
+      createRequest(
+        "POST",
+        "http://localhost:3000/api/truck-postings/batch-match-counts",
+        { body: { postingIds: [seed.truckPosting.id, "bmc-missing"] } }
+      )
+    );
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.counts).toEqual({
+      [seed.truckPosting.id]: 2,
+      "bmc-missing": 0,
+    });
+    expect(body.totalUniqueMatches).toBe(2);
+  });
+
+  it("counts a load's indexed postings", async () => {
+    setAuthSession(shipperSession);
+    const res = await loadCounts(
+      createRequest(
+        "POST",
+        "http://localhost:3000/api/loads/batch-match-counts",
+        { body: { loadIds: [seed.load.id, "bmc-load-2"] } }
+      )
+    );
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.counts).toEqual({ [seed.load.id]: 1, "bmc-load-2": 1 });
+  });
+
+  it("rejects an empty batch → 400", async () => {
+    setAuthSession(shipperSession);
+    const res = await loadCounts(
+      createRequest(
+        "POST",
+        "http://localhost:3000/api/loads/batch-match-counts",
+        { body: { loadIds: [] } }
+      )
+    );
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,385 @@
+// @jest-environment node
+/**
+ * Dock Appointment Scheduling Tests
+ *
+ * Tests for:
+ * - POST /api/facilities, GET /api/facilities/[id] (shipper facilities, slots)
+ * - GET/POST /api/loads/[id]/appointments (carrier books a slot)
+ * - PATCH/DELETE /api/loads/[id]/appointments/[appointmentId]
+ *
+ * Business rules tested:
+ * - Only the assigned carrier books; only the booking carrier changes it
+ * - Requested time must be a slot start; a full slot → 409
+ * - One booked appointment per load stop; a truck cannot be double-booked
+ * - Delivery must start after the pickup appointment ends
+ * - Rescheduling or cancelling frees the old slot
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+}));
+
+const { POST: createFacility } = require("@/app/api/facilities/route");
+const { GET: getFacility } = require("@/app/api/facilities/[id]/route");
+const {
+  GET: listAppointments,
+  POST: bookAppointment,
+} = require("@/app/api/loads/[id]/appointments/route");
+const {
+  PATCH: rescheduleAppointment,
+  DELETE: cancelAppointment,
+} = require("@/app/api/loads/[id]/appointments/[appointmentId]/route");
+const { validateLoadFacilities } = require("@/lib/dockAppointments");
+const { notifyOrganization } = require("@/lib/notifications");
+
+// A facility-local day two days out (facilities open every day)
+const DAY = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)
+  .toISOString()
+  .slice(0, 10);
+/** UTC ISO string of an HH:MM facility-local time on DAY (UTC+3) */
+function at(time: string) {
+  return new Date(`${DAY}T${time}:00+03:00`).toISOString();
+}
+
+describe("Dock Appointments", () => {
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+    status: "ACTIVE",
+  });
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+    status: "ACTIVE",
+  });
+  const otherCarrierSession = createMockSession({
+    userId: "other-carrier-user",
+    role: "CARRIER",
+    organizationId: "other-carrier-org",
+    status: "ACTIVE",
+  });
+
+  let pickupFacilityId: string;
+  let deliveryFacilityId: string;
+  let pickupAppointmentId: string;
+
+  function book(loadId: string, stopType: string, time: string) {
+    return callHandler(
+      bookAppointment,
+      createRequest(
+        "POST",
+        `http://localhost:3000/api/loads/${loadId}/appointments`,
+        { body: { stopType, startTime: at(time) } }
+      ),
+      { id: loadId }
+    );
+  }
+
+  function reschedule(loadId: string, appointmentId: string, time: string) {
+    return callHandler(
+      rescheduleAppointment,
+      createRequest(
+        "PATCH",
+        `http://localhost:3000/api/loads/${loadId}/appointments/${appointmentId}`,
+        { body: { startTime: at(time) } }
+      ),
+      { id: loadId, appointmentId }
+    );
+  }
+
+  async function facilitySlots(facilityId: string) {
+    setAuthSession(shipperSession);
+    const res = await callHandler(
+      getFacility,
+      createRequest(
+        "GET",
+        `http://localhost:3000/api/facilities/${facilityId}?date=${DAY}`
+      ),
+      { id: facilityId }
+    );
+    setAuthSession(carrierSession);
+    return (await parseResponse(res)).slots;
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+    await db.truck.create({
+      data: {
+        id: "appt-truck-2",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-APPT-2",
+        capacity: 10000,
+        isAvailable: true,
+        carrierId: "carrier-org-1",
+        createdById: "carrier-user-1",
+        approvalStatus: "APPROVED",
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    setAuthSession(carrierSession);
+  });
+
+  describe("facilities", () => {
+    function postFacility(body: Record<string, unknown>) {
+      return createFacility(
+        createRequest("POST", "http://localhost:3000/api/facilities", { body })
+      );
+    }
+
+    it("shipper creates facilities with dock capacity", async () => {
+      setAuthSession(shipperSession);
+      const everyDay = [0, 1, 2, 3, 4, 5, 6];
+
+      const pickupRes = await postFacility({
+        name: "Kality Warehouse",
+        city: "Addis Ababa",
+        dockCount: 1,
+        openTime: "08:00",
+        closeTime: "12:00",
+        operatingDays: everyDay,
+      });
+      expect(pickupRes.status).toBe(201);
+      pickupFacilityId = (await parseResponse(pickupRes)).facility.id;
+
+      const deliveryRes = await postFacility({
+        name: "Adama Distribution Center",
+        city: "Adama",
+        dockCount: 2,
+        openTime: "08:00",
+        closeTime: "18:00",
+        operatingDays: everyDay,
+      });
+      expect(deliveryRes.status).toBe(201);
+      deliveryFacilityId = (await parseResponse(deliveryRes)).facility.id;
+
+      for (const id of ["appt-load-1", "appt-load-2", "appt-load-3"]) {
+        await db.load.create({
+          data: {
+            id,
+            status: "ASSIGNED",
+            pickupCity: "Addis Ababa",
+            deliveryCity: "Adama",
+            pickupDate: new Date(`${DAY}T00:00:00Z`),
+            deliveryDate: new Date(`${DAY}T00:00:00Z`),
+            truckType: "DRY_VAN",
+            weight: 5000,
+            cargoDescription: "Packaged goods",
+            shipperId: "shipper-org-1",
+            createdById: "shipper-user-1",
+            assignedTruckId:
+              id === "appt-load-2" ? "appt-truck-2" : "test-truck-001",
+            pickupFacilityId,
+            deliveryFacilityId,
+          },
+        });
+      }
+    });
+
+    it("rejects hours that fit no slot → 400", async () => {
+      setAuthSession(shipperSession);
+      const res = await postFacility({
+        name: "Tiny Dock",
+        openTime: "08:00",
+        closeTime: "08:30",
+      });
+      expect(res.status).toBe(400);
+    });
+
+    it("carrier cannot create facilities → 403", async () => {
+      const res = await postFacility({
+        name: "Carrier Yard",
+        openTime: "08:00",
+        closeTime: "17:00",
+      });
+      expect(res.status).toBe(403);
+    });
+
+    it("loads may only link the shipper's own facilities", async () => {
+      expect(
+        await validateLoadFacilities("shipper-org-1", [pickupFacilityId, null])
+      ).toBeNull();
+      expect(
+        await validateLoadFacilities("other-shipper-org", [pickupFacilityId])
+      ).toBe("Facility not found");
+    });
+  });
+
+  describe("booking", () => {
+    it("assigned carrier sees the facility's free slots", async () => {
+      const res = await callHandler(
+        listAppointments,
+        createRequest(
+          "GET",
+          `http://localhost:3000/api/loads/appt-load-1/appointments?stopType=PICKUP&date=${DAY}`
+        ),
+        { id: "appt-load-1" }
+      );
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.facilities.pickup.id).toBe(pickupFacilityId);
+      expect(body.slots).toHaveLength(4);
+      expect(body.slots[0]).toMatchObject({
+        startTime: at("08:00"),
+        available: 1,
+      });
+    });
+
+    it("books a pickup slot and notifies the shipper", async () => {
+      const res = await book("appt-load-1", "PICKUP", "08:00");
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(201);
+      expect(body.appointment).toMatchObject({
+        stopType: "PICKUP",
+        status: "BOOKED",
+        carrierId: "carrier-org-1",
+        truckId: "test-truck-001",
+        endTime: at("09:00"),
+      });
+      pickupAppointmentId = body.appointment.id;
+
+      expect(notifyOrganization).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: "shipper-org-1",
+          type: "DOCK_APPOINTMENT_UPDATED",
+        })
+      );
+      expect((await facilitySlots(pickupFacilityId))[0].available).toBe(0);
+    });
+
+    it("full slot → 409", async () => {
+      const res = await book("appt-load-2", "PICKUP", "08:00");
+      expect(res.status).toBe(409);
+      expect((await parseResponse(res)).error).toBe("Slot is fully booked");
+    });
+
+    it("second pickup appointment for the same load → 409", async () => {
+      const res = await book("appt-load-1", "PICKUP", "10:00");
+      expect(res.status).toBe(409);
+    });
+
+    it("time that is not a slot start → 400", async () => {
+      const res = await book("appt-load-2", "PICKUP", "08:15");
+      expect(res.status).toBe(400);
+    });
+
+    it("delivery before the pickup appointment ends → 409", async () => {
+      const res = await book("appt-load-1", "DROPOFF", "08:00");
+      expect(res.status).toBe(409);
+      expect((await parseResponse(res)).error).toMatch(/after the pickup/);
+    });
+
+    it("books the delivery after pickup", async () => {
+      const res = await book("appt-load-1", "DROPOFF", "10:00");
+      expect(res.status).toBe(201);
+    });
+
+    it("same truck at an overlapping time → 409", async () => {
+      // appt-load-3 shares test-truck-001; the delivery dock still has room
+      const res = await book("appt-load-3", "DROPOFF", "10:00");
+      expect(res.status).toBe(409);
+      expect((await parseResponse(res)).error).toMatch(/Truck already/);
+    });
+
+    it("other carriers and the shipper cannot book → 404", async () => {
+      setAuthSession(otherCarrierSession);
+      expect((await book("appt-load-2", "PICKUP", "09:00")).status).toBe(404);
+      setAuthSession(shipperSession);
+      expect((await book("appt-load-2", "PICKUP", "09:00")).status).toBe(404);
+    });
+  });
+
+  describe("reschedule and cancel", () => {
+    it("reschedule into the delivery appointment → 409", async () => {
+      const res = await reschedule("appt-load-1", pickupAppointmentId, "10:00");
+      expect(res.status).toBe(409);
+    });
+
+    it("rescheduling frees the old slot", async () => {
+      const res = await reschedule("appt-load-1", pickupAppointmentId, "09:00");
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.appointment).toMatchObject({
+        startTime: at("09:00"),
+        rescheduleCount: 1,
+      });
+      expect((await book("appt-load-2", "PICKUP", "08:00")).status).toBe(201);
+    });
+
+    it("other carriers cannot change the appointment → 404", async () => {
+      setAuthSession(otherCarrierSession);
+      const res = await reschedule("appt-load-1", pickupAppointmentId, "11:00");
+      expect(res.status).toBe(404);
+    });
+
+    it("cancelling frees the dock; cancelling twice → 409", async () => {
+      const cancel = () =>
+        callHandler(
+          cancelAppointment,
+          createRequest(
+            "DELETE",
+            `http://localhost:3000/api/loads/appt-load-1/appointments/${pickupAppointmentId}`
+          ),
+          { id: "appt-load-1", appointmentId: pickupAppointmentId }
+        );
+
+      const res = await cancel();
+      expect(res.status).toBe(200);
+      expect((await parseResponse(res)).appointment.status).toBe("CANCELLED");
+      expect((await facilitySlots(pickupFacilityId))[1].available).toBe(1);
+
+      expect((await cancel()).status).toBe(409);
+    });
+  });
+});
@@ -218,8 +218,10 @@ describe("GPS Batch API", () => {
 
   afterAll(() => clearAllStores());
 
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks();
+    // Every test uploads a fresh track; overlapping ones would be filtered
+    await db.gpsPosition.deleteMany({ where: { truckId: "batch-truck-1" } });
   });
 
   describe("Auth & Role", () => {
@@ -362,20 +364,20 @@ describe("GPS Batch API", () => {
       setAuthSession(carrierSession);
       const positions = [
         {
-          latitude: 8.5,
-          longitude: 38.0,
+          latitude: 9.0,
+          longitude: 38.7,
           speed: 40,
           timestamp: new Date(Date.now() - 120000).toISOString(),
         },
         {
-          latitude: 9.5,
-          longitude: 39.0,
+          latitude: 9.01,
+          longitude: 38.71,
           speed: 60,
           timestamp: new Date(Date.now() - 60000).toISOString(),
         },
         {
-          latitude: 10.0,
-          longitude: 39.5,
+          latitude: 9.02,
+          longitude: 38.72,
           speed: 70,
           timestamp: new Date().toISOString(),
         },
@@ -388,8 +390,45 @@ describe("GPS Batch API", () => {
       const truck = await db.truck.findUnique({
         where: { id: "batch-truck-1" },
       });
-      expect(truck.currentLocationLat).toBe(10.0);
-      expect(truck.currentLocationLon).toBe(39.5);
+      expect(truck.currentLocationLat).toBe(9.02);
+      expect(truck.currentLocationLon).toBe(38.72);
+    });
+  });
+
+  describe("Position filtering", () => {
+    it("keeps rejected positions out of the track and the truck location", async () => {
+      setAuthSession(carrierSession);
+      const [first, second, third] = makePositions(3);
+      const positions = [
+        first,
+        // 55 km away a minute later
+        { ...second, latitude: 8.5 },
+        { ...third, accuracy: 2000 },
+        // Re-sent from the offline queue
+        first,
+      ];
+      const req = createRequest("POST", "http://localhost:3000/api/gps/batch", {
+        body: { truckId: "batch-truck-1", positions },
+      });
+      const res = await batchUpload(req);
+      const data = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(data.positionsRecorded).toBe(1);
+      expect(data.positionsRejected).toBe(3);
+      const rejected = await db.gpsRejectedPosition.findMany({
+        where: { truckId: "batch-truck-1" },
+      });
+      expect(rejected.map((r: { reason: string }) => r.reason).sort()).toEqual([
+        "DUPLICATE",
+        "LOW_ACCURACY",
+        "TELEPORT",
+      ]);
+
+      const truck = await db.truck.findUnique({
+        where: { id: "batch-truck-1" },
+      });
+      expect(truck.currentLocationLat).toBe(first.latitude);
     });
   });
 
@@ -460,4 +499,52 @@ describe("GPS Batch API", () => {
       expect(data.loadId).toBeNull();
     });
   });
+
+  describe("Route deviation", () => {
+    it("escalates a sustained deviation from the trip's planned route", async () => {
+      await db.trip.create({
+        data: {
+          id: "batch-trip-1",
+          status: "IN_TRANSIT",
+          loadId: "batch-intransit-load",
+          truckId: "batch-truck-1",
+          carrierId: "carrier-org-1",
+          shipperId: "shipper-org-1",
+          pickupCity: "Addis Ababa",
+          deliveryCity: "Adama",
+          // Straight Addis Ababa → Adama line
+          plannedRoute: [
+            [9.03, 38.74],
+            [8.54, 39.27],
+          ],
+        },
+      });
+
+      setAuthSession(carrierSession);
+      // ~23 km off the route for 20 minutes (default threshold: 15)
+      const positions = [21, 11, 1].map((minutesAgo, i) => ({
+        latitude: 8.93 + i * 0.005,
+        longitude: 39.15,
+        speed: 20,
+        timestamp: new Date(Date.now() - minutesAgo * 60000).toISOString(),
+      }));
+      const req = createRequest("POST", "http://localhost:3000/api/gps/batch", {
+        body: { truckId: "batch-truck-1", positions },
+      });
+      const res = await batchUpload(req);
+      expect(res.status).toBe(200);
+
+      const escalation = await db.loadEscalation.findFirst({
+        where: {
+          loadId: "batch-intransit-load",
+          escalationType: "ROUTE_DEVIATION",
+        },
+      });
+      expect(escalation).toMatchObject({ status: "OPEN", priority: "HIGH" });
+      const [deviation] = await db.routeDeviation.findMany({
+        where: { tripId: "batch-trip-1" },
+      });
+      expect(deviation.escalationId).toBe(escalation.id);
+    });
+  });
 });
@@ -10,6 +10,7 @@
  * - Truck must belong to carrier's organization
  * - If truck is IN_TRANSIT, position linked to load
  * - GPS position record only created when truck has gpsDeviceId
+ * - Impossible points are rejected and stored apart from the track
  * - WebSocket broadcast on position update (non-blocking)
  * - Carriers see own trucks, shippers see trucks on IN_TRANSIT loads, admin sees all
  */
@@ -468,6 +469,45 @@ describe("GPS Position API", () => {
       });
     });
 
+    describe("Position filtering", () => {
+      it("rejects an impossible jump and keeps the truck where it was", async () => {
+        setAuthSession(carrierSession);
+        const minutesAgo = (m: number) =>
+          new Date(Date.now() - m * 60000).toISOString();
+        const good = createRequest(
+          "POST",
+          "http://localhost:3000/api/gps/position",
+          { body: { ...validBody, timestamp: minutesAgo(2) } }
+        );
+        expect((await updatePosition(good)).status).toBe(200);
+
+        // 55 km away a minute later
+        const req = createRequest(
+          "POST",
+          "http://localhost:3000/api/gps/position",
+          { body: { ...validBody, latitude: 8.52, timestamp: minutesAgo(1) } }
+        );
+        const res = await updatePosition(req);
+        const data = await parseResponse(res);
+        expect(res.status).toBe(200);
+        expect(data.message).toBe("GPS position rejected");
+        expect(data.rejected).toEqual({ reason: "TELEPORT" });
+
+        const truck = await db.truck.findUnique({
+          where: { id: "gps-truck-1" },
+        });
+        expect(truck.currentLocationLat).toBe(9.02);
+        const rejected = await db.gpsRejectedPosition.findMany({
+          where: { truckId: "gps-truck-1" },
+        });
+        expect(rejected).toEqual([
+          expect.objectContaining({ reason: "TELEPORT" }),
+        ]);
+        // Only the accepted position is broadcast
+        expect(broadcastGpsPosition).toHaveBeenCalledTimes(1);
+      });
+    });
+
     describe("WebSocket", () => {
       it("broadcasts GPS position after update", async () => {
         setAuthSession(carrierSession);
@@ -0,0 +1,213 @@
+/**
+ * GPS Hardware Positions API Tests
+ *
+ * Tests for POST /api/gps/positions - GPS hardware devices post positions
+ * by IMEI
+ *
+ * Business rules:
+ * - Device must be registered and assigned to a truck
+ * - Position is recorded on the truck's active trip and adds trip distance
+ * - Impossible points are rejected and stored apart from the track
+ */
+
+import { db } from "@/lib/db";
+import {
+  createRequest,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockLoadUtils,
+} from "../../utils/routeTestUtils";
+
+// Setup mocks
+mockAuth();
+mockCsrf();
+jest.mock("@/lib/rateLimit", () => ({
+  checkRpsLimit: jest.fn(async () => ({
+    allowed: true,
+    limit: 100,
+    remaining: 99,
+  })),
+  checkRateLimit: jest.fn(async () => ({
+    allowed: true,
+    success: true,
+    limit: 100,
+    remaining: 99,
+    retryAfter: 0,
+    resetTime: Date.now() + 3600000,
+  })),
+  addRateLimitHeaders: jest.fn((res: unknown) => res),
+  withRpsLimit: jest.fn((_config: unknown, handler: unknown) => handler),
+  RPS_CONFIGS: {
+    marketplace: { endpoint: "loads", rps: 50, burst: 100 },
+    fleet: { endpoint: "trucks", rps: 30, burst: 60 },
+    dashboard: { endpoint: "dashboard", rps: 5, burst: 10 },
+    gps: { endpoint: "gps", rps: 100, burst: 20 },
+  },
+  RATE_LIMIT_TRUCK_POSTING: { maxRequests: 100, windowMs: 86400000 },
+}));
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockLoadUtils();
+
+jest.mock("@/lib/websocket-server", () => ({
+  broadcastGpsPosition: jest.fn(async () => {}),
+}));
+
+// Import handlers AFTER mocks
+const { POST: postPosition } = require("@/app/api/gps/positions/route");
+
+describe("GPS Hardware Positions API", () => {
+  const IMEI = "490154203237518";
+  const minutesAgo = (m: number) =>
+    new Date(Date.now() - m * 60000).toISOString();
+  const post = (body: Record<string, unknown>) =>
+    postPosition(
+      createRequest("POST", "http://localhost:3000/api/gps/positions", {
+        body: { imei: IMEI, ...body },
+      })
+    );
+
+  beforeAll(async () => {
+    await seedTestData();
+    await db.gpsDevice.create({
+      data: {
+        id: "hw-gps-device",
+        imei: IMEI,
+        truckId: "hw-truck-1",
+        status: "ACTIVE",
+      },
+    });
+    await db.truck.create({
+      data: {
+        id: "hw-truck-1",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-HW-01",
+        capacity: 10000,
+        carrierId: "carrier-org-1",
+        createdById: "carrier-user-1",
+        approvalStatus: "APPROVED",
+        gpsDeviceId: "hw-gps-device",
+      },
+    });
+    await db.load.create({
+      data: {
+        id: "hw-load-1",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        weight: 3000,
+        shipperId: "shipper-org-1",
+        createdById: "shipper-user-1",
+        assignedTruckId: "hw-truck-1",
+      },
+    });
+    await db.trip.create({
+      data: {
+        id: "hw-trip-1",
+        status: "IN_TRANSIT",
+        loadId: "hw-load-1",
+        truckId: "hw-truck-1",
+        carrierId: "carrier-org-1",
+        shipperId: "shipper-org-1",
+      },
+    });
+  });
+
+  afterAll(() => clearAllStores());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("unknown IMEI → 404", async () => {
+    const res = await post({
+      imei: "000000000000000",
+      latitude: 9.02,
+      longitude: 38.75,
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("records the position on the active trip and adds trip distance", async () => {
+    expect(
+      (
+        await post({
+          latitude: 9.03,
+          longitude: 38.75,
+          speed: 40,
+          timestamp: minutesAgo(6),
+        })
+      ).status
+    ).toBe(201);
+    const res = await post({
+      latitude: 9.02,
+      longitude: 38.75,
+      speed: 40,
+      timestamp: minutesAgo(5),
+    });
+    const data = await parseResponse(res);
+
+    expect(res.status).toBe(201);
+    expect(data.position).toMatchObject({
+      tripId: "hw-trip-1",
+      loadId: "hw-load-1",
+    });
+    const trip = await db.trip.findUnique({ where: { id: "hw-trip-1" } });
+    expect(Number(trip.actualDistanceKm)).toBeCloseTo(1.11, 1);
+  });
+
+  it("rejects an impossible jump and keeps the truck where it was", async () => {
+    // 55 km away a minute later
+    const res = await post({
+      latitude: 8.52,
+      longitude: 38.75,
+      speed: 40,
+      timestamp: minutesAgo(4),
+    });
+    const data = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(data).toEqual({
+      message: "GPS position rejected",
+      rejected: { reason: "TELEPORT" },
+    });
+    const rejected = await db.gpsRejectedPosition.findMany({
+      where: { truckId: "hw-truck-1" },
+    });
+    expect(rejected).toEqual([
+      expect.objectContaining({ reason: "TELEPORT", tripId: "hw-trip-1" }),
+    ]);
+    const truck = await db.truck.findUnique({ where: { id: "hw-truck-1" } });
+    expect(truck.currentLocationLat).toBe(9.02);
+    const trip = await db.trip.findUnique({ where: { id: "hw-trip-1" } });
+    expect(Number(trip.actualDistanceKm)).toBeCloseTo(1.11, 1);
+  });
+});
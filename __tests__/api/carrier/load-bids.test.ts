@@ -0,0 +1,401 @@
+/**
+ * Load Auction (Sealed Bid) Tests
+ *
+ * Tests for:
+ * - POST   /api/loads/[id]/bids                  (submit / revise)
+ * - GET    /api/loads/[id]/bids                  (sealed vs. ranked bid sheet)
+ * - DELETE /api/loads/[id]/bids/[bidId]          (withdraw)
+ * - POST   /api/loads/[id]/bids/[bidId]/award    (shipper award)
+ *
+ * Business rules:
+ * - One bid per carrier per load; resubmitting revises it
+ * - Bids are sealed until the bid deadline
+ * - Award creates a SHIPPER_APPROVED LoadRequest for the normal confirm path
+ * - Losing bidders are notified; a declined award frees the load for re-award
+ * - AUCTION loads reject plain load requests
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockStorage,
+  SeedData,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockStorage();
+
+jest.mock("@/lib/trustMetrics", () => ({
+  calculateTrustScore: jest.fn(async (orgId: string) =>
+    orgId === "carrier-org-1" ? 92 : 55
+  ),
+  getTrustBadgeLevel: jest.fn((score: number) =>
+    score >= 90 ? "PLATINUM" : "BRONZE"
+  ),
+}));
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+  zodErrorResponse: jest.fn((err: any) => {
+    const { NextResponse } = require("next/server");
+    return NextResponse.json(
+      { error: "Validation error", details: err.errors },
+      { status: 400 }
+    );
+  }),
+}));
+
+const {
+  GET: getBids,
+  POST: submitBid,
+} = require("@/app/api/loads/[id]/bids/route");
+const {
+  DELETE: withdrawBid,
+} = require("@/app/api/loads/[id]/bids/[bidId]/route");
+const {
+  POST: awardBid,
+} = require("@/app/api/loads/[id]/bids/[bidId]/award/route");
+const {
+  POST: confirmRequest,
+} = require("@/app/api/load-requests/[id]/confirm/route");
+const { POST: createLoadRequest } = require("@/app/api/load-requests/route");
+const { notifyOrganization } = require("@/lib/notifications");
+
+describe("Load Auctions", () => {
+  let seed: SeedData;
+  const loadId = "auction-load-1";
+
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+  });
+
+  const rivalSession = createMockSession({
+    userId: "auction-rival-user",
+    role: "CARRIER",
+    organizationId: "auction-rival-org",
+  });
+
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+  });
+
+  const otherShipperSession = createMockSession({
+    userId: "auction-other-shipper",
+    role: "SHIPPER",
+    organizationId: "auction-other-shipper-org",
+  });
+
+  function postBid(body: Record<string, unknown>) {
+    const req = createRequest(
+      "POST",
+      `http://localhost:3000/api/loads/${loadId}/bids`,
+      { body }
+    );
+    return callHandler(submitBid, req, { id: loadId });
+  }
+
+  function listBids() {
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/loads/${loadId}/bids`
+    );
+    return callHandler(getBids, req, { id: loadId });
+  }
+
+  function award(bidId: string) {
+    const req = createRequest(
+      "POST",
+      `http://localhost:3000/api/loads/${loadId}/bids/${bidId}/award`
+    );
+    return callHandler(awardBid, req, { id: loadId, bidId });
+  }
+
+  async function closeBidding() {
+    await db.load.update({
+      where: { id: loadId },
+      data: { bidDeadline: new Date(Date.now() - 60 * 1000) },
+    });
+  }
+
+  beforeAll(async () => {
+    seed = await seedTestData();
+
+    await db.organization.create({
+      data: {
+        id: "auction-rival-org",
+        name: "Rival Haulage",
+        type: "CARRIER_COMPANY",
+        contactEmail: "rival@test.com",
+        contactPhone: "+251911000111",
+      },
+    });
+    await db.truck.create({
+      data: {
+        id: "auction-rival-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-99999",
+        capacity: 10000,
+        carrierId: "auction-rival-org",
+        approvalStatus: "APPROVED",
+        insuranceStatus: "VALID",
+      },
+    });
+
+    await db.load.create({
+      data: {
+        id: loadId,
+        status: "POSTED",
+        bookMode: "AUCTION",
+        bidDeadline: new Date(Date.now() + 6 * 60 * 60 * 1000),
+        reserveRate: 40000,
+        auctionClosedAt: null,
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Dire Dawa",
+        pickupDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+        deliveryDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
+        truckType: "DRY_VAN",
+        weight: 5000,
+        cargoDescription: "Auctioned cargo",
+        shipperId: seed.shipperOrg.id,
+        createdById: seed.shipperUser.id,
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(carrierSession);
+  });
+
+  it("carrier submits a sealed bid → 201", async () => {
+    const res = await postBid({ truckId: seed.truck.id, amount: 45000 });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(201);
+    expect(body.bid.status).toBe("ACTIVE");
+    expect(body.bid.carrierId).toBe("carrier-org-1");
+  });
+
+  it("resubmitting revises the existing bid → 200", async () => {
+    const res = await postBid({ truckId: seed.truck.id, amount: 38000 });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.bid.amount).toBe(38000);
+    expect(body.bid.revisionCount).toBe(1);
+
+    const bids = await db.loadBid.findMany({
+      where: { loadId, carrierId: "carrier-org-1" },
+    });
+    expect(bids).toHaveLength(1);
+  });
+
+  it("rejects a bid with a truck the carrier does not own → 404", async () => {
+    const res = await postBid({ truckId: "auction-rival-truck", amount: 1 });
+    expect(res.status).toBe(404);
+  });
+
+  it("rival carrier can bid, withdraw and bid again", async () => {
+    setAuthSession(rivalSession);
+    const created = await parseResponse(
+      await postBid({ truckId: "auction-rival-truck", amount: 36000 })
+    );
+
+    const req = createRequest(
+      "DELETE",
+      `http://localhost:3000/api/loads/${loadId}/bids/${created.bid.id}`
+    );
+    const res = await callHandler(withdrawBid, req, {
+      id: loadId,
+      bidId: created.bid.id,
+    });
+    expect(res.status).toBe(200);
+
+    const rebid = await postBid({
+      truckId: "auction-rival-truck",
+      amount: 42000,
+    });
+    const body = await parseResponse(rebid);
+    expect(rebid.status).toBe(200);
+    expect(body.bid.status).toBe("ACTIVE");
+  });
+
+  it("carrier only sees its own bid", async () => {
+    const res = await listBids();
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.bid.carrierId).toBe("carrier-org-1");
+    expect(body.bids).toBeUndefined();
+  });
+
+  it("shipper only sees the bid count while bidding is open", async () => {
+    setAuthSession(shipperSession);
+    const res = await listBids();
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.sealed).toBe(true);
+    expect(body.bidCount).toBe(2);
+    expect(body.bids).toBeUndefined();
+  });
+
+  it("another shipper cannot see the bids → 404", async () => {
+    setAuthSession(otherShipperSession);
+    const res = await listBids();
+    expect(res.status).toBe(404);
+  });
+
+  it("shipper cannot award before the deadline → 409", async () => {
+    setAuthSession(shipperSession);
+    const bid = await db.loadBid.findFirst({
+      where: { loadId, carrierId: "carrier-org-1" },
+    });
+    const res = await award(bid.id);
+    expect(res.status).toBe(409);
+  });
+
+  it("auction loads reject plain load requests → 400", async () => {
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/load-requests",
+      { body: { loadId, truckId: seed.truck.id } }
+    );
+    const res = await callHandler(createLoadRequest, req);
+    expect(res.status).toBe(400);
+  });
+
+  it("bids are rejected after the deadline → 409", async () => {
+    await closeBidding();
+    const res = await postBid({ truckId: seed.truck.id, amount: 30000 });
+    expect(res.status).toBe(409);
+  });
+
+  it("shipper gets a ranked bid sheet with trust metrics after the deadline", async () => {
+    setAuthSession(shipperSession);
+    const res = await listBids();
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.sealed).toBe(false);
+    expect(body.bids.map((b: any) => [b.rank, b.carrierId])).toEqual([
+      [1, "carrier-org-1"],
+      [2, "auction-rival-org"],
+    ]);
+    expect(body.bids[0].trustScore).toBe(92);
+    expect(body.bids[0].trustBadge).toBe("PLATINUM");
+    expect(body.bids[1].withinReserve).toBe(false);
+  });
+
+  it("award creates a SHIPPER_APPROVED request and notifies losing bidders", async () => {
+    setAuthSession(shipperSession);
+    const bid = await db.loadBid.findFirst({
+      where: { loadId, carrierId: "carrier-org-1" },
+    });
+    const res = await award(bid.id);
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.bid.status).toBe("AWARDED");
+    expect(body.loadRequest.status).toBe("SHIPPER_APPROVED");
+    expect(body.loadRequest.proposedRate).toBe(38000);
+
+    const rival = await db.loadBid.findFirst({
+      where: { loadId, carrierId: "auction-rival-org" },
+    });
+    expect(rival.status).toBe("LOST");
+
+    const load = await db.load.findUnique({ where: { id: loadId } });
+    expect(load.status).toBe("OFFERED");
+
+    expect(notifyOrganization).toHaveBeenCalledWith(
+      expect.objectContaining({
+        organizationId: "auction-rival-org",
+        type: "BID_NOT_SELECTED",
+      })
+    );
+  });
+
+  it("a second award is blocked while the first awaits confirmation → 409", async () => {
+    setAuthSession(shipperSession);
+    const rival = await db.loadBid.findFirst({
+      where: { loadId, carrierId: "auction-rival-org" },
+    });
+    const res = await award(rival.id);
+    expect(res.status).toBe(409);
+  });
+
+  it("winner declining frees the load for the next bid", async () => {
+    const winning = await db.loadBid.findFirst({
+      where: { loadId, carrierId: "carrier-org-1" },
+    });
+    const declineReq = createRequest(
+      "POST",
+      `http://localhost:3000/api/load-requests/${winning.loadRequestId}/confirm`,
+      { body: { action: "DECLINE" } }
+    );
+    const declineRes = await callHandler(confirmRequest, declineReq, {
+      id: winning.loadRequestId,
+    });
+    expect(declineRes.status).toBe(200);
+
+    const declined = await db.loadBid.findUnique({ where: { id: winning.id } });
+    expect(declined.status).toBe("DECLINED");
+
+    setAuthSession(shipperSession);
+    const rival = await db.loadBid.findFirst({
+      where: { loadId, carrierId: "auction-rival-org" },
+    });
+    const res = await award(rival.id);
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.loadRequest.carrierId).toBe("auction-rival-org");
+  });
+});
@@ -0,0 +1,331 @@
+// @jest-environment node
+/**
+ * LTL Load Consolidation Tests
+ *
+ * Tests for booking several PARTIAL loads onto one truck through
+ * POST /api/loads/[id]/assign and POST /api/load-requests/[id]/confirm,
+ * the truck board (GET /api/truck-postings) and the per-load weight share.
+ *
+ * Business rules tested:
+ * - A second PARTIAL load joins the truck while capacity remains
+ * - Trips on the same truck run share a consolidationId
+ * - A PARTIAL load heavier than the remaining capacity → 409
+ * - A FULL load cannot join a truck already carrying PARTIAL loads → 409
+ * - A partly loaded truck stays on the truck board with the capacity left,
+ *   and stays available until it is full
+ * - Each load's share of the run is proportional to its weight, and the
+ *   shares of a run add up to 1
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockLoadStateMachine,
+  mockLoadUtils,
+  mockTrustMetrics,
+  mockBypassDetection,
+  mockStorage,
+  mockAssignmentConflicts,
+  mockServiceFeeCalculation,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockLoadStateMachine();
+mockLoadUtils();
+mockTrustMetrics();
+mockBypassDetection();
+mockStorage();
+mockAssignmentConflicts();
+mockServiceFeeCalculation();
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+  zodErrorResponse: jest.fn((err: any) => {
+    const { NextResponse } = require("next/server");
+    return NextResponse.json(
+      { error: "Validation error", details: err.errors },
+      { status: 400 }
+    );
+  }),
+}));
+
+// Import handlers AFTER mocks
+const { POST: assignLoad } = require("@/app/api/loads/[id]/assign/route");
+const {
+  POST: confirmLoadRequest,
+} = require("@/app/api/load-requests/[id]/confirm/route");
+const { GET: listTruckPostings } = require("@/app/api/truck-postings/route");
+const { getConsolidationShare } = require("@/lib/loadConsolidation");
+
+describe("LTL Load Consolidation", () => {
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    email: "carrier@test.com",
+    role: "CARRIER",
+    status: "ACTIVE",
+    organizationId: "carrier-org-1",
+  });
+
+  const truckId = "truck-ltl-001";
+
+  async function createLoad(
+    id: string,
+    weight: number,
+    fullPartial: "FULL" | "PARTIAL"
+  ) {
+    await db.load.create({
+      data: {
+        id,
+        status: "POSTED",
+        pickupCity: "Addis Ababa",
+        pickupDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
+        deliveryCity: "Adama",
+        deliveryDate: new Date(Date.now() + 6 * 24 * 60 * 60 * 1000),
+        truckType: "DRY_VAN",
+        weight,
+        fullPartial,
+        cargoDescription: `LTL cargo ${id}`,
+        shipperId: "shipper-org-1",
+        createdById: "shipper-user-1",
+        postedAt: new Date(),
+      },
+    });
+  }
+
+  function assign(loadId: string) {
+    const req = createRequest(
+      "POST",
+      `http://localhost:3000/api/loads/${loadId}/assign`,
+      { body: { truckId } }
+    );
+    return callHandler(assignLoad, req, { id: loadId });
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+
+    await db.truck.create({
+      data: {
+        id: truckId,
+        truckType: "DRY_VAN",
+        licensePlate: "LT-10001",
+        capacity: 20000,
+        isAvailable: true,
+        carrierId: "carrier-org-1",
+        createdById: "carrier-user-1",
+        approvalStatus: "APPROVED",
+      },
+    });
+
+    await db.truckPosting.create({
+      data: {
+        id: "posting-ltl-001",
+        truckId,
+        carrierId: "carrier-org-1",
+        originCityId: "city-addis",
+        originCityName: "Addis Ababa",
+        availableFrom: new Date(),
+        availableWeight: 20000,
+        status: "ACTIVE",
+        fullPartial: "PARTIAL",
+        contactName: "Test Carrier",
+        contactPhone: "+251911000002",
+      },
+    });
+
+    await createLoad("load-ltl-a", 8000, "PARTIAL");
+    await createLoad("load-ltl-b", 6000, "PARTIAL");
+    await createLoad("load-ltl-c", 7000, "PARTIAL");
+    await createLoad("load-ltl-full", 3000, "FULL");
+  });
+
+  beforeEach(() => {
+    setAuthSession(carrierSession);
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  it("first PARTIAL load books the idle truck → 200", async () => {
+    const res = await assign("load-ltl-a");
+    expect(res.status).toBe(200);
+  });
+
+  it("second PARTIAL load joins the same truck → 200", async () => {
+    const res = await assign("load-ltl-b");
+    expect(res.status).toBe(200);
+
+    const load = await db.load.findUnique({ where: { id: "load-ltl-b" } });
+    expect(load.assignedTruckId).toBe(truckId);
+  });
+
+  it("both trips share one consolidation run", async () => {
+    const tripA = await db.trip.findFirst({ where: { loadId: "load-ltl-a" } });
+    const tripB = await db.trip.findFirst({ where: { loadId: "load-ltl-b" } });
+
+    expect(tripA.consolidationId).toBe(tripA.id);
+    expect(tripB.consolidationId).toBe(tripA.id);
+  });
+
+  it("truck board lists the truck with the capacity it has left", async () => {
+    setAuthSession(
+      createMockSession({
+        userId: "shipper-user-1",
+        role: "SHIPPER",
+        status: "ACTIVE",
+        organizationId: "shipper-org-1",
+      })
+    );
+    const req = createRequest(
+      "GET",
+      "http://localhost:3000/api/truck-postings"
+    );
+    const res = await listTruckPostings(req);
+    expect(res.status).toBe(200);
+
+    const data = await parseResponse(res);
+    const posting = data.truckPostings.find(
+      (p: { id: string }) => p.id === "posting-ltl-001"
+    );
+    // 20000 kg truck carrying 8000 + 6000 kg
+    expect(posting.availableWeight).toBe(6000);
+    expect(posting.truck.trips).toBeUndefined();
+  });
+
+  it("PARTIAL load over the remaining capacity → 409", async () => {
+    // 20000 kg truck already carries 8000 + 6000 kg
+    const res = await assign("load-ltl-c");
+    expect(res.status).toBe(409);
+
+    const data = await parseResponse(res);
+    expect(data.error).toMatch(/remaining capacity/i);
+  });
+
+  it("FULL load cannot join a consolidated truck → 409", async () => {
+    const res = await assign("load-ltl-full");
+    expect(res.status).toBe(409);
+  });
+
+  it("confirming a request keeps a truck with room available", async () => {
+    await db.truck.create({
+      data: {
+        id: "truck-ltl-002",
+        truckType: "DRY_VAN",
+        licensePlate: "LT-10002",
+        capacity: 20000,
+        isAvailable: true,
+        carrierId: "carrier-org-1",
+        createdById: "carrier-user-1",
+        approvalStatus: "APPROVED",
+      },
+    });
+    await createLoad("load-ltl-d", 5000, "PARTIAL");
+    await db.loadRequest.create({
+      data: {
+        id: "lr-ltl-d",
+        loadId: "load-ltl-d",
+        truckId: "truck-ltl-002",
+        carrierId: "carrier-org-1",
+        shipperId: "shipper-org-1",
+        requestedById: "carrier-user-1",
+        expiresAt: new Date(Date.now() + 86400000),
+        status: "SHIPPER_APPROVED",
+      },
+    });
+
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/load-requests/lr-ltl-d/confirm",
+      { body: { action: "CONFIRM" } }
+    );
+    const res = await callHandler(confirmLoadRequest, req, { id: "lr-ltl-d" });
+    expect(res.status).toBe(200);
+
+    const truck = await db.truck.findUnique({
+      where: { id: "truck-ltl-002" },
+    });
+    expect(truck.isAvailable).toBe(true);
+  });
+
+  it("splits the run's share by weight", async () => {
+    const tripA = await db.trip.findFirst({ where: { loadId: "load-ltl-a" } });
+    const runId = tripA.consolidationId;
+
+    expect(await getConsolidationShare("load-ltl-a", runId)).toBeCloseTo(
+      8 / 14
+    );
+    expect(await getConsolidationShare("load-ltl-b", runId)).toBeCloseTo(
+      6 / 14
+    );
+    // Loads travelling alone carry the whole run
+    expect(await getConsolidationShare("load-ltl-c", null)).toBe(1);
+  });
+
+  it("shares still add up to 1 when a load joins after a delivery", async () => {
+    const tripA = await db.trip.findFirst({ where: { loadId: "load-ltl-a" } });
+    await db.trip.update({
+      where: { id: tripA.id },
+      data: { status: "DELIVERED" },
+    });
+    await db.load.update({
+      where: { id: "load-ltl-a" },
+      data: { status: "DELIVERED" },
+    });
+
+    // 8000 kg is off the truck, so 7000 kg fits next to load B's 6000 kg
+    const res = await assign("load-ltl-c");
+    expect(res.status).toBe(200);
+
+    const runId = tripA.consolidationId;
+    const shares = await Promise.all(
+      ["load-ltl-a", "load-ltl-b", "load-ltl-c"].map((loadId) =>
+        getConsolidationShare(loadId, runId)
+      )
+    );
+    // Load A keeps its share; B and C split the rest by weight
+    expect(shares[0]).toBeCloseTo(8 / 14);
+    expect(shares[1]).toBeCloseTo((6 / 14) * (6 / 13));
+    expect(shares[2]).toBeCloseTo((6 / 14) * (7 / 13));
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,258 @@
+// @jest-environment node
+/**
+ * Carrier Tour Planning API Tests
+ *
+ * Tests for:
+ * - GET /api/trucks/[id]/tours (plan chains of loads for a truck)
+ * - POST /api/load-requests/chain (request every load of a tour)
+ *
+ * Business rules tested:
+ * - Only the truck's carrier (or an admin) can plan its tours
+ * - Each load of a chain passes the POST /api/load-requests checks
+ * - Loads failing a check are reported, the rest are still requested
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockFoundationRules,
+  mockSms,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  SeedData,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockFoundationRules();
+mockSms();
+mockRbac();
+mockApiErrors();
+mockLogger();
+
+const { GET: getTours } = require("@/app/api/trucks/[id]/tours/route");
+const { POST: requestChain } = require("@/app/api/load-requests/chain/route");
+
+const CHAIN_URL = "http://localhost:3000/api/load-requests/chain";
+const DAY = 24 * 60 * 60 * 1000;
+
+const carrierSession = createMockSession({
+  userId: "carrier-user-1",
+  role: "CARRIER",
+  organizationId: "carrier-org-1",
+  status: "ACTIVE",
+});
+
+const otherCarrierSession = createMockSession({
+  userId: "chain-other-carrier-user",
+  role: "CARRIER",
+  organizationId: "chain-other-carrier-org",
+  status: "ACTIVE",
+});
+
+const shipperSession = createMockSession({
+  userId: "shipper-user-1",
+  role: "SHIPPER",
+  organizationId: "shipper-org-1",
+  status: "ACTIVE",
+});
+
+describe("Carrier Tour Planning API", () => {
+  let seed: SeedData;
+
+  beforeAll(async () => {
+    seed = await seedTestData();
+
+    const cities = [
+      {
+        id: "city-addis",
+        name: "Addis Ababa",
+        latitude: 9.03,
+        longitude: 38.74,
+      },
+      { id: "chain-adama", name: "Adama", latitude: 8.54, longitude: 39.27 },
+    ];
+    for (const city of cities) {
+      await db.ethiopianLocation.create({
+        data: { ...city, region: "Oromia", isActive: true },
+      });
+    }
+
+    const pickupDate = new Date(Date.now() + DAY);
+    const load = {
+      status: "POSTED",
+      shipperId: seed.shipperOrg.id,
+      createdById: seed.shipperUser.id,
+      truckType: "DRY_VAN",
+      weight: 5000,
+      pickupDate,
+      deliveryDate: new Date(pickupDate.getTime() + DAY),
+      postedAt: new Date(),
+    };
+    await db.load.create({
+      data: {
+        ...load,
+        id: "chain-load-out",
+        pickupCity: "Addis Ababa",
+        pickupLocationId: "city-addis",
+        deliveryCity: "Adama",
+        deliveryLocationId: "chain-adama",
+      },
+    });
+    await db.load.create({
+      data: {
+        ...load,
+        id: "chain-load-back",
+        pickupCity: "Adama",
+        pickupLocationId: "chain-adama",
+        deliveryCity: "Addis Ababa",
+        deliveryLocationId: "city-addis",
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  describe("GET /api/trucks/[id]/tours", () => {
+    it("plans a backhaul chain from the truck's posting", async () => {
+      setAuthSession(carrierSession);
+      const req = createRequest(
+        "GET",
+        `http://localhost:3000/api/trucks/${seed.truck.id}/tours?horizonDays=3`
+      );
+      const res = await callHandler(getTours, req, { id: seed.truck.id });
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.start.source).toBe("posting");
+      expect(
+        body.tours[0].legs.map((l: { loadId: string }) => l.loadId)
+      ).toEqual(["chain-load-out", "chain-load-back"]);
+      expect(body.tours[0].deadheadKm).toBe(0);
+    });
+
+    it("hides another carrier's truck → 404", async () => {
+      setAuthSession(otherCarrierSession);
+      const req = createRequest(
+        "GET",
+        `http://localhost:3000/api/trucks/${seed.truck.id}/tours`
+      );
+      const res = await callHandler(getTours, req, { id: seed.truck.id });
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects more than four loads per tour → 400", async () => {
+      setAuthSession(carrierSession);
+      const req = createRequest(
+        "GET",
+        `http://localhost:3000/api/trucks/${seed.truck.id}/tours?maxLoads=5`
+      );
+      const res = await callHandler(getTours, req, { id: seed.truck.id });
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/load-requests/chain", () => {
+    it("shippers cannot request loads → 403", async () => {
+      setAuthSession(shipperSession);
+      const res = await requestChain(
+        createRequest("POST", CHAIN_URL, {
+          body: {
+            truckId: seed.truck.id,
+            loadIds: ["chain-load-out", "chain-load-back"],
+          },
+        })
+      );
+      expect(res.status).toBe(403);
+    });
+
+    it("rejects a chain listing a load twice → 400", async () => {
+      setAuthSession(carrierSession);
+      const res = await requestChain(
+        createRequest("POST", CHAIN_URL, {
+          body: {
+            truckId: seed.truck.id,
+            loadIds: ["chain-load-out", "chain-load-out"],
+          },
+        })
+      );
+      expect(res.status).toBe(400);
+    });
+
+    it("requests every load of the chain and reports failures", async () => {
+      setAuthSession(carrierSession);
+      const res = await requestChain(
+        createRequest("POST", CHAIN_URL, {
+          body: {
+            truckId: seed.truck.id,
+            loadIds: ["chain-load-out", "chain-load-back", "chain-missing"],
+            notes: "Round trip",
+          },
+        })
+      );
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(201);
+      expect(
+        body.loadRequests.map((r: { loadId: string }) => r.loadId)
+      ).toEqual(["chain-load-out", "chain-load-back"]);
+      expect(body.loadRequests[0]).toMatchObject({
+        truckId: seed.truck.id,
+        carrierId: "carrier-org-1",
+        status: "PENDING",
+        notes: "Round trip",
+      });
+      expect(body.failed).toEqual([
+        { loadId: "chain-missing", error: "Load not found" },
+      ]);
+      expect(body.message).toBe("2 of 3 load requests sent to shippers");
+
+      // Nothing is assigned until each shipper approves
+      const load = await db.load.findUnique({
+        where: { id: "chain-load-back" },
+      });
+      expect(load?.status).toBe("SEARCHING");
+      expect(load?.assignedTruckId ?? null).toBeNull();
+    });
+
+    it("reports loads already requested with the truck", async () => {
+      setAuthSession(carrierSession);
+      const res = await requestChain(
+        createRequest("POST", CHAIN_URL, {
+          body: {
+            truckId: seed.truck.id,
+            loadIds: ["chain-load-out", "chain-load-back"],
+          },
+        })
+      );
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.loadRequests).toEqual([]);
+      expect(body.failed).toHaveLength(2);
+    });
+  });
+});
@@ -10,7 +10,8 @@
  *         (status param accepts comma-separated list)
  *
  * G-U5-3: Truck marketplace hides trucks on DELIVERED/EXCEPTION trips
- *   Part A — GET /api/truck-postings trips.none filter includes DELIVERED+EXCEPTION
+ *   Part A — GET /api/truck-postings excludes EXCEPTION trips and full trucks,
+ *            and drops trucks with no remaining capacity
  *   Part B — POST /api/truck-postings blocks new posting when truck has active trip
  *   Part C — matchingEngine findMatchingTrucksForLoad same filter
  *   Cross-domain — truck-requests and load-requests confirm same filter
@@ -38,7 +39,6 @@ import {
   mockGps,
   mockFoundationRules,
   mockSms,
-  mockMatchingEngine,
   mockDispatcherPermissions,
   mockRbac,
   mockApiErrors,
@@ -49,7 +49,6 @@ import {
   mockLoadStateMachine,
   mockServiceFee,
   SeedData,
-  createGpsDeviceForTruck,
 } from "../../utils/routeTestUtils";
 
 // matchingEngine is NOT mocked here so findMatchingTrucksForLoad runs real logic
@@ -539,29 +538,28 @@ describe("Marketplace Visibility (U5)", () => {
     });
   });
 
-  // ─── G-U5-3 Part A: trips.none filter includes DELIVERED+EXCEPTION ───────────
+  // ─── G-U5-3 Part A: trips.none filter and remaining capacity ─────────────────
 
   describe("G-U5-3A: GET /api/truck-postings trips.none filter", () => {
     beforeEach(() => {
       setAuthSession(shipperSession);
     });
 
-    it("MV-6: WHERE trips.none.status.in includes DELIVERED", async () => {
-      const findManySpy = jest.spyOn(db.truckPosting, "findMany");
-
+    it("MV-6: truck whose trip is DELIVERED (awaiting POD) is left off the board", async () => {
+      // The run's loads are still on the truck until POD, so the remaining
+      // capacity check (as in matching trucks) drops it from the response.
       const req = createRequest(
         "GET",
         "http://localhost:3000/api/truck-postings"
       );
-      await listTruckPostings(req);
-
-      expect(findManySpy).toHaveBeenCalled();
-      const noneFilter =
-        findManySpy.mock.calls[0][0]?.where?.truck?.trips?.none;
-      expect(noneFilter?.status?.in).toContain("DELIVERED");
+      const res = await listTruckPostings(req);
+      expect(res.status).toBe(200);
+      const data = await parseResponse(res);
+      const ids = data.postings.map((p: { id: string }) => p.id);
+      expect(ids).not.toContain("posting-u5-delivered");
     });
 
-    it("MV-7: WHERE trips.none.status.in includes EXCEPTION", async () => {
+    it("MV-7: WHERE trips.none excludes trucks on EXCEPTION trips", async () => {
       const findManySpy = jest.spyOn(db.truckPosting, "findMany");
 
       const req = createRequest(
@@ -573,10 +571,10 @@ describe("Marketplace Visibility (U5)", () => {
       expect(findManySpy).toHaveBeenCalled();
       const noneFilter =
         findManySpy.mock.calls[0][0]?.where?.truck?.trips?.none;
-      expect(noneFilter?.status?.in).toContain("EXCEPTION");
+      expect(noneFilter?.OR).toContainEqual({ status: "EXCEPTION" });
     });
 
-    it("MV-8: WHERE trips.none.status.in has all five active-trip statuses (ASSIGNED/PICKUP_PENDING/IN_TRANSIT/DELIVERED/EXCEPTION)", async () => {
+    it("MV-8: WHERE trips.none excludes trucks carrying a non-PARTIAL load (ASSIGNED/PICKUP_PENDING/IN_TRANSIT)", async () => {
       // Note: the in-memory mock resolves 'none' filters as pass-through (always true),
       // so response-content filtering cannot be verified at this level.
       // Instead we verify the exact WHERE clause sent to Prisma.
@@ -591,12 +589,13 @@ describe("Marketplace Visibility (U5)", () => {
       expect(findManySpy).toHaveBeenCalled();
       const noneFilter =
         findManySpy.mock.calls[0][0]?.where?.truck?.trips?.none;
-      const statusIn: string[] = noneFilter?.status?.in ?? [];
-      expect(statusIn).toContain("ASSIGNED");
-      expect(statusIn).toContain("PICKUP_PENDING");
-      expect(statusIn).toContain("IN_TRANSIT");
-      expect(statusIn).toContain("DELIVERED");
-      expect(statusIn).toContain("EXCEPTION");
+      const onBoard = noneFilter?.OR?.find(
+        (clause: { status?: { in?: string[] } }) => clause.status?.in
+      );
+      expect(onBoard?.status.in).toEqual(
+        expect.arrayContaining(["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"])
+      );
+      expect(onBoard?.load).toEqual({ fullPartial: { not: "PARTIAL" } });
     });
 
     it("MV-9: DELIVERED and EXCEPTION absent from trips.none before fix — regression guard", async () => {
@@ -62,8 +62,10 @@ mockGeo();
 
 // Custom matchingEngine mock with controllable return value
 const mockFindMatchingLoads = jest.fn(() => []);
+const mockFindNearMissLoads = jest.fn(() => []);
 jest.mock("@/lib/matchingEngine", () => ({
   findMatchingLoads: (...args: unknown[]) => mockFindMatchingLoads(...args),
+  findNearMissLoads: (...args: unknown[]) => mockFindNearMissLoads(...args),
 }));
 
 jest.mock("@/lib/validation", () => ({
@@ -311,6 +313,82 @@ describe("Matching Loads", () => {
       expect(data.matches[0].isExactMatch).toBe(true);
     });
 
+    it("match items carry the per-factor explanation", async () => {
+      const explanation = [
+        {
+          factor: "deadhead",
+          points: 25,
+          maxPoints: 25,
+          inputs: { dhOriginKm: 0, maxDhOriginKm: 200 },
+          summary: "0 km empty to pickup (full points up to 50 km)",
+        },
+      ];
+      mockFindMatchingLoads.mockReturnValue([
+        {
+          id: seed.load.id,
+          pickupCity: "Addis Ababa",
+          deliveryCity: "Dire Dawa",
+          matchScore: 92,
+          matchReasons: ["Same city pickup"],
+          matchExplanation: explanation,
+          isExactMatch: true,
+        },
+      ]);
+
+      const req = createRequest(
+        "GET",
+        `http://localhost:3000/api/truck-postings/${seed.truckPosting.id}/matching-loads`
+      );
+
+      const res = await callHandler(GET, req, { id: seed.truckPosting.id });
+      const data = await parseResponse(res);
+
+      expect(data.matches[0].matchExplanation).toEqual(explanation);
+    });
+
+    it("lists near misses without shipper details", async () => {
+      mockFindMatchingLoads.mockReturnValue([]);
+      mockFindNearMissLoads.mockReturnValueOnce([
+        {
+          id: "near-miss-load",
+          pickupCity: "Addis Ababa",
+          deliveryCity: "Adama",
+          pickupDate: null,
+          truckType: "TANKER",
+          weight: 8000,
+          shipperId: seed.shipperOrg.id,
+          shipperContactPhone: "+251911000000",
+          dhOriginKm: 0,
+          nearMissConstraint: "truckType",
+          nearMissReason:
+            "Incompatible truck type: DRY_VAN cannot carry TANKER loads",
+        },
+      ]);
+
+      const req = createRequest(
+        "GET",
+        `http://localhost:3000/api/truck-postings/${seed.truckPosting.id}/matching-loads`
+      );
+
+      const res = await callHandler(GET, req, { id: seed.truckPosting.id });
+      const data = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(data.nearMisses).toEqual([
+        {
+          loadId: "near-miss-load",
+          pickupCity: "Addis Ababa",
+          deliveryCity: "Adama",
+          pickupDate: null,
+          truckType: "TANKER",
+          weight: 8000,
+          dhOriginKm: 0,
+          constraint: "truckType",
+          reason: "Incompatible truck type: DRY_VAN cannot carry TANKER loads",
+        },
+      ]);
+    });
+
     it("DH distances are calculated", async () => {
       mockFindMatchingLoads.mockReturnValue([
         {
@@ -365,7 +443,8 @@ describe("Matching Loads", () => {
       expect(mockFindMatchingLoads).toHaveBeenCalledWith(
         expect.anything(),
         expect.anything(),
-        80
+        80,
+        expect.any(Function)
       );
     });
 
@@ -404,7 +483,8 @@ describe("Matching Loads", () => {
       expect(mockFindMatchingLoads).toHaveBeenCalledWith(
         expect.anything(),
         expect.anything(),
-        50
+        50,
+        expect.any(Function)
       );
     });
   });
@@ -0,0 +1,305 @@
+/**
+ * Rate Confirmation Tests
+ *
+ * Tests for:
+ * - POST /api/load-requests/[id]/confirm  (CONFIRM queues a rate confirmation)
+ * - POST /api/truck-requests/[id]/respond (APPROVE queues a rate confirmation)
+ * - generateRateConfirmation()            (PDF stored as a load Document)
+ *
+ * Business rules:
+ * - Every confirmed booking gets one RATE_CONFIRMATION document
+ * - The PDF carries the parties, TINs, truck, route, agreed rate and fees
+ * - Generation is idempotent and skips bookings that are not confirmed
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockLoadUtils,
+  mockStorage,
+  mockServiceFee,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockLoadUtils();
+mockStorage();
+mockServiceFee();
+
+jest.mock("@/lib/serviceFeeCalculation", () => ({
+  calculateServiceFee: jest.fn(async () => ({
+    corridorName: "Addis Ababa - Dire Dawa",
+    distanceKm: 453,
+    shipper: { finalFee: 1132.5 },
+    carrier: { finalFee: 906 },
+  })),
+}));
+
+const mockQueueRateConfirmation = jest.fn(async () => {});
+jest.mock("@/lib/rateConfirmation", () => ({
+  ...jest.requireActual("@/lib/rateConfirmation"),
+  queueRateConfirmation: (...args: unknown[]) =>
+    mockQueueRateConfirmation(...args),
+}));
+
+const {
+  POST: confirmLoadRequest,
+} = require("@/app/api/load-requests/[id]/confirm/route");
+const {
+  POST: respondTruckRequest,
+} = require("@/app/api/truck-requests/[id]/respond/route");
+const { generateRateConfirmation } = require("@/lib/rateConfirmation");
+const { uploadDocument } = require("@/lib/storage");
+
+describe("Rate Confirmation", () => {
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+    status: "ACTIVE",
+  });
+
+  async function createBookableLoad(id: string) {
+    return db.load.create({
+      data: {
+        id,
+        shipperId: "shipper-org-1",
+        status: "SEARCHING",
+        pickupCity: "Addis Ababa",
+        pickupAddress: "Merkato warehouse 4",
+        deliveryCity: "Dire Dawa",
+        pickupDate: new Date("2026-12-01T00:00:00Z"),
+        deliveryDate: new Date("2026-12-03T00:00:00Z"),
+        truckType: "DRY_VAN",
+        weight: 8000,
+        cargoDescription: "Coffee in jute bags",
+        fullPartial: "FULL",
+        currency: "ETB",
+        bookMode: "REQUEST",
+      },
+    });
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+    await db.organization.update({
+      where: { id: "shipper-org-1" },
+      data: { taxId: "0012345678" },
+    });
+    await db.organization.update({
+      where: { id: "carrier-org-1" },
+      data: { taxId: "0087654321" },
+    });
+    await db.truck.create({
+      data: {
+        id: "rc-truck-2",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-77777",
+        capacity: 10000,
+        isAvailable: true,
+        carrierId: "carrier-org-1",
+        approvalStatus: "APPROVED",
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(carrierSession);
+  });
+
+  it("carrier CONFIRM of a load request queues the rate confirmation", async () => {
+    await createBookableLoad("rc-load-1");
+    await db.loadRequest.create({
+      data: {
+        id: "rc-lr-1",
+        loadId: "rc-load-1",
+        truckId: "test-truck-001",
+        carrierId: "carrier-org-1",
+        shipperId: "shipper-org-1",
+        requestedById: "carrier-user-1",
+        proposedRate: 45000,
+        expiresAt: new Date(Date.now() + 86400000),
+        status: "SHIPPER_APPROVED",
+      },
+    });
+
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/load-requests/rc-lr-1/confirm",
+      { body: { action: "CONFIRM" } }
+    );
+    const res = await callHandler(confirmLoadRequest, req, { id: "rc-lr-1" });
+
+    expect(res.status).toBe(200);
+    expect(mockQueueRateConfirmation).toHaveBeenCalledWith({
+      loadId: "rc-load-1",
+      requestType: "LOAD_REQUEST",
+      requestId: "rc-lr-1",
+    });
+  });
+
+  it("carrier APPROVE of a truck request queues the rate confirmation", async () => {
+    await createBookableLoad("rc-load-2");
+    await db.truckRequest.create({
+      data: {
+        id: "rc-tr-1",
+        loadId: "rc-load-2",
+        truckId: "rc-truck-2",
+        shipperId: "shipper-org-1",
+        requestedById: "shipper-user-1",
+        carrierId: "carrier-org-1",
+        offeredRate: 38000,
+        status: "PENDING",
+        expiresAt: new Date(Date.now() + 86400000),
+      },
+    });
+
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/truck-requests/rc-tr-1/respond",
+      { body: { action: "APPROVE" } }
+    );
+    const res = await callHandler(respondTruckRequest, req, { id: "rc-tr-1" });
+
+    expect(res.status).toBe(200);
+    expect(mockQueueRateConfirmation).toHaveBeenCalledWith({
+      loadId: "rc-load-2",
+      requestType: "TRUCK_REQUEST",
+      requestId: "rc-tr-1",
+    });
+  });
+
+  it("generates the PDF and stores it as a RATE_CONFIRMATION document", async () => {
+    const document = await generateRateConfirmation({
+      loadId: "rc-load-1",
+      requestType: "LOAD_REQUEST",
+      requestId: "rc-lr-1",
+    });
+
+    expect(document).toMatchObject({
+      loadId: "rc-load-1",
+      type: "RATE_CONFIRMATION",
+      mimeType: "application/pdf",
+      fileUrl: "https://storage.test/doc-123.pdf",
+    });
+
+    const [file, folder, entityId] = (uploadDocument as jest.Mock).mock
+      .calls[0];
+    expect(folder).toBe("rate-confirmation");
+    expect(entityId).toBe("rc-load-1");
+    expect(file.type).toBe("application/pdf");
+
+    const pdf = (file.buffer as Buffer).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    for (const text of [
+      "Test Shipper",
+      "TIN: 0012345678",
+      "TIN: 0087654321",
+      "AA-12345",
+      "Pickup: Addis Ababa - Merkato warehouse 4",
+      "Agreed rate: ETB 45,000.00",
+      "Platform service fee \\(shipper\\): ETB 1,132.50",
+      "Platform service fee \\(carrier\\): ETB 906.00",
+    ]) {
+      expect(pdf).toContain(text);
+    }
+  });
+
+  it("does not create a second document for the same booking", async () => {
+    const job = {
+      loadId: "rc-load-1",
+      requestType: "LOAD_REQUEST",
+      requestId: "rc-lr-1",
+    };
+    const first = await generateRateConfirmation(job);
+    const second = await generateRateConfirmation(job);
+
+    expect(second.id).toBe(first.id);
+    expect(uploadDocument).not.toHaveBeenCalled();
+    expect(
+      await db.document.count({
+        where: { loadId: "rc-load-1", type: "RATE_CONFIRMATION" },
+      })
+    ).toBe(1);
+  });
+
+  it("uses the truck request's offered rate", async () => {
+    await generateRateConfirmation({
+      loadId: "rc-load-2",
+      requestType: "TRUCK_REQUEST",
+      requestId: "rc-tr-1",
+    });
+
+    const pdf = (uploadDocument as jest.Mock).mock.calls[0][0].buffer.toString(
+      "latin1"
+    );
+    expect(pdf).toContain("AA-77777");
+    expect(pdf).toContain("Agreed rate: ETB 38,000.00");
+  });
+
+  it("skips bookings that were not confirmed", async () => {
+    await createBookableLoad("rc-load-3");
+    await db.loadRequest.create({
+      data: {
+        id: "rc-lr-3",
+        loadId: "rc-load-3",
+        truckId: "test-truck-001",
+        carrierId: "carrier-org-1",
+        shipperId: "shipper-org-1",
+        requestedById: "carrier-user-1",
+        expiresAt: new Date(Date.now() + 86400000),
+        status: "CANCELLED",
+      },
+    });
+
+    const document = await generateRateConfirmation({
+      loadId: "rc-load-3",
+      requestType: "LOAD_REQUEST",
+      requestId: "rc-lr-3",
+    });
+
+    expect(document).toBeNull();
+    expect(uploadDocument).not.toHaveBeenCalled();
+  });
+});
@@ -193,15 +193,16 @@ describe("M21 — Trip In-Transit / Delivery Deep Audit", () => {
         "utf8"
       );
       // G-M21-2: The fix adds a trip lookup and sets tripId on created positions
-      expect(routeSource).toContain("activeTrip?.id");
-      expect(routeSource).toContain("tripId: activeTrip?.id || null");
+      // (one row per active trip on a consolidated truck)
+      expect(routeSource).toContain("getActiveTruckTrips(truckId)");
+      expect(routeSource).toContain("tripId: trip.id");
     });
 
     it("T-M21-2b: Batch GPS endpoint code sets tripId (structural check)", async () => {
       const fs = require("fs");
       const routeSource = fs.readFileSync("app/api/gps/batch/route.ts", "utf8");
-      expect(routeSource).toContain("activeTrip?.id");
-      expect(routeSource).toContain("tripId: activeTrip?.id || null");
+      expect(routeSource).toContain("getActiveTruckTrips(truckId)");
+      expect(routeSource).toContain("tripId: trip.id");
     });
 
     it("T-M21-2c: deductServiceFee uses OR fallback for GPS query", async () => {
@@ -0,0 +1,304 @@
+/**
+ * Trip Stop Execution Tests
+ *
+ * Tests for:
+ * - GET   /api/trips/[tripId]/stops
+ * - PATCH /api/trips/[tripId]/stops/[stopId]       (manual arrive/depart)
+ * - POST  /api/trips/[tripId]/stops/[stopId]/pod   (per-drop POD)
+ * - PATCH /api/trips/[tripId]                      (delivery)
+ *
+ * Business rules:
+ * - Stops are worked strictly in sequence
+ * - Departure requires a prior arrival; the final stop is closed by delivery
+ * - Per-drop POD is driver/admin only, DROPOFF stops only, after arrival
+ * - Per-drop POD does not complete the trip
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockStorage,
+  SeedData,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockStorage();
+
+const { GET: listStops } = require("@/app/api/trips/[tripId]/stops/route");
+const {
+  PATCH: updateStop,
+} = require("@/app/api/trips/[tripId]/stops/[stopId]/route");
+const {
+  POST: uploadStopPod,
+} = require("@/app/api/trips/[tripId]/stops/[stopId]/pod/route");
+const { PATCH: updateTrip } = require("@/app/api/trips/[tripId]/route");
+
+describe("Trip Stop Execution", () => {
+  let seed: SeedData;
+  const tripId = "multi-stop-trip-1";
+  const loadId = "multi-stop-load-1";
+
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+  });
+
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+  });
+
+  const driverSession = createMockSession({
+    userId: "stop-driver-1",
+    role: "DRIVER",
+    status: "ACTIVE",
+    organizationId: "carrier-org-1",
+  });
+
+  function patchStop(stopId: string, action: string) {
+    const req = createRequest(
+      "PATCH",
+      `http://localhost:3000/api/trips/${tripId}/stops/${stopId}`,
+      { body: { action } }
+    );
+    return callHandler(updateStop, req, { tripId, stopId });
+  }
+
+  function postStopPod(stopId: string) {
+    const req = createRequest(
+      "POST",
+      `http://localhost:3000/api/trips/${tripId}/stops/${stopId}/pod`,
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+    const buf = new ArrayBuffer(64);
+    const view = new Uint8Array(buf);
+    view[0] = 0xff;
+    view[1] = 0xd8;
+    (req as any).formData = jest.fn(async () => ({
+      get: jest.fn((key: string) =>
+        key === "file"
+          ? {
+              name: "drop.jpg",
+              type: "image/jpeg",
+              size: 1024,
+              arrayBuffer: async () => buf,
+            }
+          : null
+      ),
+    }));
+    return callHandler(uploadStopPod, req, { tripId, stopId });
+  }
+
+  beforeAll(async () => {
+    seed = await seedTestData();
+
+    await db.load.create({
+      data: {
+        id: loadId,
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Dire Dawa",
+        pickupDate: new Date(),
+        deliveryDate: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+        truckType: "DRY_VAN",
+        weight: 5000,
+        cargoDescription: "Multi-drop",
+        shipperId: seed.shipperOrg.id,
+        createdById: seed.shipperUser.id,
+        assignedTruckId: seed.truck.id,
+      },
+    });
+
+    await db.loadStop.createMany({
+      data: [
+        {
+          id: "stop-1",
+          loadId,
+          sequence: 1,
+          stopType: "PICKUP",
+          city: "Addis Ababa",
+        },
+        {
+          id: "stop-2",
+          loadId,
+          sequence: 2,
+          stopType: "DROPOFF",
+          city: "Adama",
+        },
+        {
+          id: "stop-3",
+          loadId,
+          sequence: 3,
+          stopType: "DROPOFF",
+          city: "Dire Dawa",
+        },
+      ],
+    });
+
+    await db.trip.create({
+      data: {
+        id: tripId,
+        loadId,
+        truckId: seed.truck.id,
+        carrierId: seed.carrierOrg.id,
+        shipperId: seed.shipperOrg.id,
+        driverId: "stop-driver-1",
+        status: "IN_TRANSIT",
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(carrierSession);
+  });
+
+  it("shipper can list stops with the next pending stop", async () => {
+    setAuthSession(shipperSession);
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/trips/${tripId}/stops`
+    );
+    const res = await callHandler(listStops, req, { tripId });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.count).toBe(3);
+    expect(body.nextStopId).toBe("stop-1");
+  });
+
+  it("shipper cannot update a stop → 404", async () => {
+    setAuthSession(shipperSession);
+    const res = await patchStop("stop-1", "ARRIVE");
+    expect(res.status).toBe(404);
+  });
+
+  it("rejects working a stop out of sequence → 409", async () => {
+    const res = await patchStop("stop-2", "ARRIVE");
+    expect(res.status).toBe(409);
+  });
+
+  it("rejects departing before arriving → 409", async () => {
+    const res = await patchStop("stop-1", "DEPART");
+    expect(res.status).toBe(409);
+  });
+
+  it("records arrival and departure in order", async () => {
+    expect((await patchStop("stop-1", "ARRIVE")).status).toBe(200);
+    const res = await patchStop("stop-1", "DEPART");
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.stop.departedAt).not.toBeNull();
+
+    const events = await db.loadEvent.findMany({ where: { loadId } });
+    expect(events.map((e: any) => e.eventType)).toEqual(
+      expect.arrayContaining(["STOP_ARRIVED", "STOP_DEPARTED"])
+    );
+  });
+
+  it("per-drop POD requires arrival at the stop → 400", async () => {
+    setAuthSession(driverSession);
+    const res = await postStopPod("stop-2");
+    expect(res.status).toBe(400);
+  });
+
+  it("per-drop POD is rejected for PICKUP stops → 400", async () => {
+    setAuthSession(driverSession);
+    const res = await postStopPod("stop-1");
+    expect(res.status).toBe(400);
+  });
+
+  it("carrier cannot upload a per-drop POD → 404", async () => {
+    await patchStop("stop-2", "ARRIVE");
+    const res = await postStopPod("stop-2");
+    expect(res.status).toBe(404);
+  });
+
+  it("driver uploads a per-drop POD without completing the trip", async () => {
+    setAuthSession(driverSession);
+    const res = await postStopPod("stop-2");
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.pod.stopId).toBe("stop-2");
+
+    const pods = await db.tripPod.findMany({ where: { stopId: "stop-2" } });
+    expect(pods).toHaveLength(1);
+    const trip = await db.trip.findUnique({ where: { id: tripId } });
+    expect(trip.status).toBe("IN_TRANSIT");
+  });
+
+  it("final stop cannot be departed manually → 400", async () => {
+    await patchStop("stop-2", "DEPART");
+    await patchStop("stop-3", "ARRIVE");
+    const res = await patchStop("stop-3", "DEPART");
+    expect(res.status).toBe(400);
+  });
+
+  it("delivery closes the final stop", async () => {
+    const req = createRequest(
+      "PATCH",
+      `http://localhost:3000/api/trips/${tripId}`,
+      { body: { status: "DELIVERED", receiverName: "Receiver" } }
+    );
+    const res = await callHandler(updateTrip, req, { tripId });
+    expect(res.status).toBe(200);
+
+    const final = await db.loadStop.findUnique({ where: { id: "stop-3" } });
+    expect(final.arrivedAt).toBeTruthy();
+    expect(final.departedAt).toBeTruthy();
+
+    const list = createRequest(
+      "GET",
+      `http://localhost:3000/api/trips/${tripId}/stops`
+    );
+    const body = await parseResponse(
+      await callHandler(listStops, list, { tripId })
+    );
+    expect(body.nextStopId).toBeNull();
+  });
+});
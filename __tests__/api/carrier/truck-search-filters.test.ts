@@ -440,7 +440,7 @@ describe("Truck Marketplace Search Filters (A7)", () => {
       setAuthSession(shipperSession);
     });
 
-    it("TS-5: WHERE trips.none.status.in includes PICKUP_PENDING", async () => {
+    it("TS-5: WHERE trips.none on-board statuses include PICKUP_PENDING", async () => {
       const findManySpy = jest.spyOn(db.truckPosting, "findMany");
 
       const req = createRequest(
@@ -453,12 +453,15 @@ describe("Truck Marketplace Search Filters (A7)", () => {
       const noneFilter =
         findManySpy.mock.calls[0][0]?.where?.truck?.trips?.none;
 
-      expect(noneFilter?.status?.in).toEqual(
+      const onBoard = noneFilter?.OR?.find(
+        (clause: { status?: { in?: string[] } }) => clause.status?.in
+      );
+      expect(onBoard?.status.in).toEqual(
         expect.arrayContaining(["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"])
       );
     });
 
-    it("TS-6: informational assignedLoad select covers PICKUP_PENDING", async () => {
+    it("TS-6: informational assignedLoads select covers PICKUP_PENDING", async () => {
       const findManySpy = jest.spyOn(db.truckPosting, "findMany");
 
       const req = createRequest(
@@ -470,9 +473,9 @@ describe("Truck Marketplace Search Filters (A7)", () => {
       expect(findManySpy).toHaveBeenCalled();
       const call = findManySpy.mock.calls[0][0];
       const assignedLoadWhere =
-        call?.include?.truck?.select?.assignedLoad?.where;
+        call?.include?.truck?.select?.assignedLoads?.where;
 
-      // The informational assignedLoad include also covers PICKUP_PENDING
+      // The informational assignedLoads include also covers PICKUP_PENDING
       expect(assignedLoadWhere?.status?.in).toContain("PICKUP_PENDING");
     });
   });
@@ -682,7 +685,7 @@ describe("Truck Marketplace Search Filters (A7)", () => {
         "GET",
         `http://localhost:3000/api/truck-postings/posting-a7-free/matching-loads`
       );
-      const res = await callHandler(getMatchingLoads, req, {
+      await callHandler(getMatchingLoads, req, {
         id: "posting-a7-free",
       });
 
@@ -18,6 +18,7 @@
  */
 
 import { db } from "@/lib/db";
+import { geohashOf } from "@/lib/geoIndex";
 import {
   createMockSession,
   setAuthSession,
@@ -664,6 +665,43 @@ describe("Carrier Truck Management", () => {
         expect(truck.carrierId).toBe("carrier-org-1");
       }
     });
+
+    it("should filter by radius around a point, closest first", async () => {
+      const located = [
+        { id: "near-truck-adama", lat: 8.54, lon: 39.27 },
+        { id: "near-truck-addis", lat: 9.04, lon: 38.75 },
+        { id: "near-truck-dire-dawa", lat: 9.6, lon: 41.85 },
+      ];
+      for (const t of located) {
+        await db.truck.create({
+          data: {
+            id: t.id,
+            truckType: "DRY_VAN",
+            licensePlate: t.id.toUpperCase(),
+            capacity: 10000,
+            carrierId: seed.carrierOrg.id,
+            currentLocationLat: t.lat,
+            currentLocationLon: t.lon,
+            currentLocationGeohash: geohashOf(t.lat, t.lon),
+          },
+        });
+      }
+
+      const req = createRequest(
+        "GET",
+        "http://localhost:3000/api/trucks?nearLat=9.03&nearLon=38.74&radiusKm=100"
+      );
+
+      const res = await listTrucks(req);
+      expect(res.status).toBe(200);
+
+      const data = await parseResponse(res);
+      expect(data.trucks.map((t: { id: string }) => t.id)).toEqual([
+        "near-truck-addis",
+        "near-truck-adama",
+      ]);
+      expect(data.pagination.total).toBe(2);
+    });
   });
 
   // ─── GET /api/trucks/[id] ─────────────────────────────────────────────────
@@ -0,0 +1,168 @@
+// @jest-environment node
+/**
+ * Dispatcher Assignment Plan API Tests
+ *
+ * Tests for:
+ * - GET /api/dispatcher/assignment-plan (build a plan)
+ * - POST /api/dispatcher/assignment-plan (send plan pairs as proposals)
+ *
+ * Business rules tested:
+ * - Only dispatchers and admins can plan (DISPATCHER_COORDINATION_ONLY)
+ * - Each planned pair becomes a PENDING proposal, never an assignment
+ * - Pairs failing proposal checks are reported, the rest are still sent
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  SeedData,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+
+const {
+  GET: getPlan,
+  POST: sendPlan,
+} = require("@/app/api/dispatcher/assignment-plan/route");
+
+const URL = "http://localhost:3000/api/dispatcher/assignment-plan";
+
+const dispatcherSession = createMockSession({
+  userId: "plan-dispatcher-1",
+  role: "DISPATCHER",
+  organizationId: "plan-dispatcher-org",
+  status: "ACTIVE",
+});
+
+const carrierSession = createMockSession({
+  userId: "carrier-user-1",
+  role: "CARRIER",
+  organizationId: "carrier-org-1",
+  status: "ACTIVE",
+});
+
+describe("Dispatcher Assignment Plan API", () => {
+  let seed: SeedData;
+
+  beforeAll(async () => {
+    seed = await seedTestData();
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  it("carriers cannot build plans → 403", async () => {
+    setAuthSession(carrierSession);
+    const res = await getPlan(createRequest("GET", URL));
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects a window that ends before it starts → 400", async () => {
+    setAuthSession(dispatcherSession);
+    const res = await getPlan(
+      createRequest(
+        "GET",
+        `${URL}?from=2026-11-10T00:00:00Z&to=2026-11-01T00:00:00Z`
+      )
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("dispatcher builds a plan for the pickup window", async () => {
+    setAuthSession(dispatcherSession);
+    const res = await getPlan(createRequest("GET", `${URL}?minScore=40`));
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.rule).toBe("DISPATCHER_COORDINATION_ONLY");
+    expect(body.plan.loadCount).toEqual(expect.any(Number));
+    expect(body.plan.truckCount).toEqual(expect.any(Number));
+    expect(body.plan.summary.assignedLoads).toBe(body.plan.assignments.length);
+  });
+
+  it("sends plan pairs as PENDING proposals and reports failures", async () => {
+    setAuthSession(dispatcherSession);
+    const res = await sendPlan(
+      createRequest("POST", URL, {
+        body: {
+          assignments: [
+            { loadId: seed.load.id, truckId: seed.truck.id },
+            { loadId: "plan-missing-load", truckId: "plan-missing-truck" },
+          ],
+          notes: "Weekly plan",
+        },
+      })
+    );
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(201);
+    expect(body.proposals).toHaveLength(1);
+    expect(body.proposals[0]).toMatchObject({
+      loadId: seed.load.id,
+      truckId: seed.truck.id,
+      status: "PENDING",
+      notes: "Weekly plan",
+    });
+    expect(body.failed).toEqual([
+      {
+        loadId: "plan-missing-load",
+        truckId: "plan-missing-truck",
+        error: "Load not found",
+      },
+    ]);
+
+    // Nothing is assigned until the carrier accepts
+    const load = await db.load.findUnique({ where: { id: seed.load.id } });
+    expect(load?.assignedTruckId ?? null).toBeNull();
+  });
+
+  it("rejects a plan using the same truck twice → 400", async () => {
+    setAuthSession(dispatcherSession);
+    const res = await sendPlan(
+      createRequest("POST", URL, {
+        body: {
+          assignments: [
+            { loadId: "plan-load-aaaa", truckId: seed.truck.id },
+            { loadId: "plan-load-bbbb", truckId: seed.truck.id },
+          ],
+        },
+      })
+    );
+    expect(res.status).toBe(400);
+  });
+});
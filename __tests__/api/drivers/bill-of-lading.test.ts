@@ -0,0 +1,346 @@
+/**
+ * Electronic Bill of Lading Tests
+ *
+ * Tests for:
+ * - POST /api/trips/[tripId]/bol       (generate from load data)
+ * - POST /api/trips/[tripId]/bol/sign  (shipper + driver signatures at pickup)
+ * - PATCH /api/trips/[tripId]          (IN_TRANSIT blocked without signed BOL)
+ * - PATCH /api/loads/[id]/status       (same guard on the load status path)
+ *
+ * Business rules:
+ * - The BOL snapshots cargo, weight, cases, insurance and special instructions
+ * - Each signature records the signer, time and GPS position
+ * - After both signatures the signed PDF is stored as a BOL load document
+ * - Shippers with requireSignedBol block pickup until the BOL is signed
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockServiceFee,
+  mockLoadStateMachine,
+  mockLoadUtils,
+  mockTrustMetrics,
+  mockBypassDetection,
+  mockStorage,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockServiceFee();
+mockLoadStateMachine();
+mockLoadUtils();
+mockTrustMetrics();
+mockBypassDetection();
+mockStorage();
+
+const {
+  POST: issueBol,
+  GET: getBol,
+} = require("@/app/api/trips/[tripId]/bol/route");
+const { POST: signBol } = require("@/app/api/trips/[tripId]/bol/sign/route");
+const { PATCH: updateTrip } = require("@/app/api/trips/[tripId]/route");
+const {
+  PATCH: updateLoadStatus,
+} = require("@/app/api/loads/[id]/status/route");
+const { uploadDocument } = require("@/lib/storage");
+
+describe("Electronic Bill of Lading", () => {
+  const driverSession = createMockSession({
+    userId: "bol-driver-1",
+    role: "DRIVER",
+    organizationId: "carrier-org-1",
+    status: "ACTIVE",
+  });
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+    status: "ACTIVE",
+  });
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+    status: "ACTIVE",
+  });
+
+  const strokes = [
+    [
+      [0.1, 0.5],
+      [0.4, 0.2],
+      [0.8, 0.7],
+    ],
+  ];
+
+  function sign(tripId: string, body: Record<string, unknown>) {
+    const req = createRequest(
+      "POST",
+      `http://localhost:3000/api/trips/${tripId}/bol/sign`,
+      { body }
+    );
+    return callHandler(signBol, req, { tripId });
+  }
+
+  function patchTrip(tripId: string, status: string) {
+    const req = createRequest(
+      "PATCH",
+      `http://localhost:3000/api/trips/${tripId}`,
+      { body: { status } }
+    );
+    return callHandler(updateTrip, req, { tripId });
+  }
+
+  async function createPickupTrip(id: string, loadId: string) {
+    await db.load.create({
+      data: {
+        id: loadId,
+        shipperId: "shipper-org-1",
+        status: "PICKUP_PENDING",
+        pickupCity: "Addis Ababa",
+        pickupAddress: "Merkato warehouse 4",
+        deliveryCity: "Dire Dawa",
+        truckType: "DRY_VAN",
+        weight: 8000,
+        cargoDescription: "Coffee in jute bags",
+        casesCount: 160,
+        isInsured: true,
+        insuranceProvider: "Nyala Insurance",
+        insurancePolicyNumber: "NY-4411",
+        insuranceCoverageAmount: 250000,
+        specialInstructions: "Keep dry",
+        assignedTruckId: "test-truck-001",
+        // Mock DB: reverse one-to-one (Trip→Load) resolved via tripId on load record
+        tripId: id,
+      },
+    });
+    await db.trip.create({
+      data: {
+        id,
+        loadId,
+        status: "PICKUP_PENDING",
+        truckId: "test-truck-001",
+        carrierId: "carrier-org-1",
+        shipperId: "shipper-org-1",
+        driverId: "bol-driver-1",
+      },
+    });
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+    await db.user.create({
+      data: {
+        id: "bol-driver-1",
+        email: "bol-driver@test.com",
+        passwordHash: "hashed_Test1234!",
+        firstName: "Abebe",
+        lastName: "Kebede",
+        phone: "+251911770001",
+        role: "DRIVER",
+        status: "ACTIVE",
+        organizationId: "carrier-org-1",
+      },
+    });
+    await db.organization.update({
+      where: { id: "shipper-org-1" },
+      data: { requireSignedBol: true },
+    });
+    await createPickupTrip("bol-trip-1", "bol-load-1");
+    await createPickupTrip("bol-trip-2", "bol-load-2");
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(driverSession);
+  });
+
+  it("generates the BOL from load data → 201, idempotent", async () => {
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/trips/bol-trip-1/bol"
+    );
+    const res = await callHandler(issueBol, req, { tripId: "bol-trip-1" });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(201);
+    expect(body.billOfLading).toMatchObject({
+      bolNumber: "BOL-L-TRIP-1",
+      status: "ISSUED",
+      loadId: "bol-load-1",
+      cargoDescription: "Coffee in jute bags",
+      casesCount: 160,
+      isInsured: true,
+      insurancePolicyNumber: "NY-4411",
+      specialInstructions: "Keep dry",
+    });
+
+    const again = await callHandler(issueBol, req, { tripId: "bol-trip-1" });
+    expect((await parseResponse(again)).billOfLading.id).toBe(
+      body.billOfLading.id
+    );
+  });
+
+  it("shipper can view the BOL but not generate one", async () => {
+    setAuthSession(shipperSession);
+    const getRes = await callHandler(
+      getBol,
+      createRequest("GET", "http://localhost:3000/api/trips/bol-trip-1/bol"),
+      { tripId: "bol-trip-1" }
+    );
+    const body = await parseResponse(getRes);
+    expect(getRes.status).toBe(200);
+    expect(body.requireSignedBol).toBe(true);
+    expect(body.billOfLading.bolNumber).toBe("BOL-L-TRIP-1");
+
+    const postRes = await callHandler(
+      issueBol,
+      createRequest("POST", "http://localhost:3000/api/trips/bol-trip-2/bol"),
+      { tripId: "bol-trip-2" }
+    );
+    expect(postRes.status).toBe(404);
+  });
+
+  it("rejects a signature without strokes or GPS → 400", async () => {
+    const res = await sign("bol-trip-1", {
+      party: "SHIPPER",
+      signerName: "Hana Tesfaye",
+      strokes: [],
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("blocks IN_TRANSIT while the required BOL is unsigned → 400", async () => {
+    const tripRes = await patchTrip("bol-trip-2", "IN_TRANSIT");
+    const tripBody = await parseResponse(tripRes);
+    expect(tripRes.status).toBe(400);
+    expect(tripBody.requiresSignedBol).toBe(true);
+
+    setAuthSession(carrierSession);
+    const req = createRequest(
+      "PATCH",
+      "http://localhost:3000/api/loads/bol-load-2/status",
+      { body: { status: "IN_TRANSIT" } }
+    );
+    const loadRes = await callHandler(updateLoadStatus, req, {
+      id: "bol-load-2",
+    });
+    expect(loadRes.status).toBe(400);
+    expect((await parseResponse(loadRes)).requiresSignedBol).toBe(true);
+    expect(
+      (await db.trip.findUnique({ where: { id: "bol-trip-2" } })).status
+    ).toBe("PICKUP_PENDING");
+  });
+
+  it("stores the signed PDF on the load after both signatures", async () => {
+    const shipperRes = await sign("bol-trip-1", {
+      party: "SHIPPER",
+      signerName: "Hana Tesfaye",
+      strokes,
+      latitude: 9.0301,
+      longitude: 38.7402,
+    });
+    const shipperBody = await parseResponse(shipperRes);
+    expect(shipperRes.status).toBe(200);
+    expect(shipperBody.billOfLading.status).toBe("ISSUED");
+    expect(uploadDocument).not.toHaveBeenCalled();
+
+    const driverRes = await sign("bol-trip-1", {
+      party: "DRIVER",
+      signerName: "Abebe Kebede",
+      strokes,
+      latitude: 9.0305,
+      longitude: 38.7409,
+    });
+    const { billOfLading } = await parseResponse(driverRes);
+
+    expect(driverRes.status).toBe(200);
+    expect(billOfLading).toMatchObject({
+      status: "SIGNED",
+      driverSignedById: "bol-driver-1",
+      fileUrl: "https://storage.test/doc-123.pdf",
+    });
+
+    const document = await db.document.findUnique({
+      where: { id: billOfLading.documentId },
+    });
+    expect(document).toMatchObject({
+      loadId: "bol-load-1",
+      type: "BOL",
+      mimeType: "application/pdf",
+    });
+
+    const [file, folder] = (uploadDocument as jest.Mock).mock.calls[0];
+    expect(folder).toBe("bol");
+    const pdf = (file.buffer as Buffer).toString("latin1");
+    for (const text of [
+      "BOL number: BOL-L-TRIP-1",
+      "Cases / pallets: 160",
+      "Nyala Insurance, policy NY-4411",
+      "Shipper: Hana Tesfaye",
+      "Driver: Abebe Kebede",
+      "GPS 9.03010, 38.74020",
+    ]) {
+      expect(pdf).toContain(text);
+    }
+    // Both signatures are drawn as paths inside their boxes
+    expect(pdf.match(/ re S/g)).toHaveLength(2);
+    expect(pdf).toMatch(/ m [\d. ]+ l [\d. ]+ l S/);
+  });
+
+  it("does not accept signatures once the BOL is signed → 409", async () => {
+    const res = await sign("bol-trip-1", {
+      party: "DRIVER",
+      signerName: "Abebe Kebede",
+      strokes,
+      latitude: 9.03,
+      longitude: 38.74,
+    });
+    expect(res.status).toBe(409);
+  });
+
+  it("allows IN_TRANSIT once the BOL is signed → 200", async () => {
+    const res = await patchTrip("bol-trip-1", "IN_TRANSIT");
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Carrier Network Tests
+ *
+ * Tests for:
+ * - POST   /api/carrier-networks       (invite a carrier, ask to join)
+ * - PATCH  /api/carrier-networks/[id]  (accept)
+ * - DELETE /api/carrier-networks/[id]  (remove)
+ * - GET    /api/loads                  (marketplace hides network loads)
+ * - GET    /api/trucks/[id]/nearby-loads and /api/loads/[id]/next-loads
+ *                                       (deadhead searches hide them too)
+ * - createLoadRequest()                (non-members cannot request them)
+ * - releaseNetworkLoads()              (NETWORK_FIRST loads go public)
+ *
+ * Business rules:
+ * - A membership is ACTIVE once both sides agree: the shipper invites and
+ *   the carrier accepts, or the carrier asks and the shipper approves
+ * - NETWORK_ONLY loads are only seen by the shipper's network carriers
+ * - NETWORK_FIRST loads are opened to every carrier after the network window
+ * - Loads tendered to a carrier never show in marketplace searches
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockStorage,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockStorage();
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  zodErrorResponse: jest.fn((err: any) => {
+    const { NextResponse } = require("next/server");
+    return NextResponse.json(
+      { error: "Validation error", details: err.errors },
+      { status: 400 }
+    );
+  }),
+}));
+
+const {
+  GET: listMemberships,
+  POST: addMember,
+} = require("@/app/api/carrier-networks/route");
+const {
+  PATCH: respondToMembership,
+  DELETE: removeMembership,
+} = require("@/app/api/carrier-networks/[id]/route");
+const { GET: listLoads } = require("@/app/api/loads/route");
+const {
+  GET: nearbyLoads,
+} = require("@/app/api/trucks/[id]/nearby-loads/route");
+const { GET: nextLoads } = require("@/app/api/loads/[id]/next-loads/route");
+const { geohashOf } = require("@/lib/geoIndex");
+const { createLoadRequest } = require("@/lib/loadRequests");
+const {
+  loadVisibilityData,
+  releaseNetworkLoads,
+  validateVisibilitySettings,
+} = require("@/lib/carrierNetworks");
+
+const HOUR = 60 * 60 * 1000;
+
+describe("Carrier Networks", () => {
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+  });
+
+  // carrier-org-1 (seeded) starts outside the network
+  const outsiderSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+  });
+
+  const memberSession = createMockSession({
+    userId: "cn-carrier-user",
+    role: "CARRIER",
+    organizationId: "cn-carrier-org",
+  });
+
+  const postedAt = new Date();
+  const loadBase = {
+    status: "POSTED",
+    pickupCity: "Addis Ababa",
+    deliveryCity: "Hawassa",
+    truckType: "DRY_VAN",
+    weight: 8000,
+    pickupDate: new Date(Date.now() + 48 * HOUR),
+    shipperId: "shipper-org-1",
+    createdById: "shipper-user-1",
+    postedAt,
+    originLat: 9.03,
+    originLon: 38.74,
+    originGeohash: geohashOf(9.03, 38.74),
+  };
+
+  function add(organizationId: string) {
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/carrier-networks",
+      { body: { organizationId } }
+    );
+    return callHandler(addMember, req);
+  }
+
+  function accept(id: string) {
+    const req = createRequest(
+      "PATCH",
+      `http://localhost:3000/api/carrier-networks/${id}`,
+      { body: { action: "ACCEPT" } }
+    );
+    return callHandler(respondToMembership, req, { id });
+  }
+
+  async function boardLoadIds() {
+    const req = createRequest("GET", "http://localhost:3000/api/loads");
+    const res = await listLoads(req);
+    expect(res.status).toBe(200);
+    const data = await parseResponse(res);
+    return data.loads.map((l: { id: string }) => l.id);
+  }
+
+  async function nearbyLoadIds(truckId: string) {
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/trucks/${truckId}/nearby-loads`
+    );
+    const res = await callHandler(nearbyLoads, req, { id: truckId });
+    expect(res.status).toBe(200);
+    const data = await parseResponse(res);
+    return data.loads.map((l: { loadId: string }) => l.loadId);
+  }
+
+  async function nextLoadIds(loadId: string) {
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/loads/${loadId}/next-loads`
+    );
+    const res = await callHandler(nextLoads, req, { id: loadId });
+    expect(res.status).toBe(200);
+    const data = await parseResponse(res);
+    return data.nextLoads.map((l: { loadId: string }) => l.loadId);
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+
+    await db.organization.create({
+      data: {
+        id: "cn-carrier-org",
+        name: "Network Carrier",
+        type: "CARRIER_COMPANY",
+        contactEmail: "cn-carrier@test.com",
+        contactPhone: "+251911000000",
+      },
+    });
+    await db.user.create({
+      data: {
+        id: "cn-carrier-user",
+        email: "cn-carrier@test.com",
+        passwordHash: "hashed_Test1234!",
+        firstName: "Network",
+        lastName: "Carrier",
+        phone: "+251911000000",
+        role: "CARRIER",
+        status: "ACTIVE",
+        organizationId: "cn-carrier-org",
+      },
+    });
+
+    await db.load.create({ data: { id: "cn-load-public", ...loadBase } });
+    await db.load.create({
+      data: {
+        id: "cn-load-private",
+        ...loadBase,
+        ...loadVisibilityData({ visibility: "NETWORK_ONLY" }, postedAt),
+      },
+    });
+    await db.load.create({
+      data: {
+        id: "cn-load-first",
+        ...loadBase,
+        ...loadVisibilityData(
+          { visibility: "NETWORK_FIRST", networkExclusiveHours: 4 },
+          postedAt
+        ),
+      },
+    });
+    await db.load.create({
+      data: {
+        id: "cn-load-tendered",
+        ...loadBase,
+        status: "OFFERED",
+        tenderRank: 1,
+      },
+    });
+
+    // Trucks in Addis Ababa, each hauling a load delivering there
+    await db.truck.update({
+      where: { id: "test-truck-001" },
+      data: { currentLocationLat: 9.02, currentLocationLon: 38.75 },
+    });
+    await db.truck.create({
+      data: {
+        id: "cn-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-3-13579",
+        capacity: 20000,
+        carrierId: "cn-carrier-org",
+        currentLocationLat: 9.02,
+        currentLocationLon: 38.75,
+      },
+    });
+    for (const [id, truckId] of [
+      ["cn-load-outsider-hauling", "test-truck-001"],
+      ["cn-load-member-hauling", "cn-truck"],
+    ]) {
+      await db.load.create({
+        data: {
+          id,
+          ...loadBase,
+          status: "IN_TRANSIT",
+          pickupCity: "Hawassa",
+          deliveryCity: "Addis Ababa",
+          deliveryDate: new Date(Date.now() + 24 * HOUR),
+          destinationLat: 9.02,
+          destinationLon: 38.75,
+          assignedTruckId: truckId,
+        },
+      });
+    }
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    setAuthSession(shipperSession);
+  });
+
+  describe("visibility settings", () => {
+    it("requires a network window for NETWORK_FIRST loads", () => {
+      expect(
+        validateVisibilitySettings({ visibility: "NETWORK_FIRST" })
+      ).not.toBeNull();
+      expect(
+        validateVisibilitySettings({
+          visibility: "NETWORK_FIRST",
+          networkExclusiveHours: 4,
+        })
+      ).toBeNull();
+    });
+
+    it("opens NETWORK_FIRST loads the window after posting", () => {
+      expect(
+        loadVisibilityData(
+          { visibility: "NETWORK_FIRST", networkExclusiveHours: 4 },
+          postedAt
+        )
+      ).toEqual({
+        visibility: "NETWORK_FIRST",
+        networkExclusiveHours: 4,
+        publicAt: new Date(postedAt.getTime() + 4 * HOUR),
+      });
+      expect(
+        loadVisibilityData({ visibility: "NETWORK_ONLY" }, postedAt).publicAt
+      ).toBeNull();
+    });
+  });
+
+  describe("memberships", () => {
+    let invitationId: string;
+
+    it("invites carrier organizations only", async () => {
+      const notCarrier = await add("shipper-org-1");
+      expect(notCarrier.status).toBe(404);
+
+      const res = await add("cn-carrier-org");
+      expect(res.status).toBe(201);
+      const { membership } = await parseResponse(res);
+      expect(membership).toMatchObject({
+        shipperId: "shipper-org-1",
+        carrierId: "cn-carrier-org",
+        status: "INVITED",
+      });
+      invitationId = membership.id;
+
+      const again = await add("cn-carrier-org");
+      expect(again.status).toBe(409);
+    });
+
+    it("lets only the invited carrier accept", async () => {
+      const ownInvite = await accept(invitationId);
+      expect(ownInvite.status).toBe(409);
+
+      setAuthSession(outsiderSession);
+      const outsider = await accept(invitationId);
+      expect(outsider.status).toBe(404);
+
+      setAuthSession(memberSession);
+      const res = await accept(invitationId);
+      expect(res.status).toBe(200);
+      const { membership } = await parseResponse(res);
+      expect(membership.status).toBe("ACTIVE");
+      expect(membership.joinedAt).toBeTruthy();
+    });
+
+    it("lists the network for each side", async () => {
+      const req = createRequest(
+        "GET",
+        "http://localhost:3000/api/carrier-networks?status=ACTIVE"
+      );
+      const res = await callHandler(listMemberships, req);
+      expect(res.status).toBe(200);
+      const { memberships } = await parseResponse(res);
+      expect(
+        memberships.map((m: { carrierId: string }) => m.carrierId)
+      ).toEqual(["cn-carrier-org"]);
+    });
+  });
+
+  describe("private load board", () => {
+    it("hides network loads from carriers outside the network", async () => {
+      setAuthSession(outsiderSession);
+      const ids = await boardLoadIds();
+      expect(ids).toContain("cn-load-public");
+      expect(ids).not.toContain("cn-load-private");
+      expect(ids).not.toContain("cn-load-first");
+    });
+
+    it("shows network loads to network carriers", async () => {
+      setAuthSession(memberSession);
+      const ids = await boardLoadIds();
+      expect(ids).toEqual(
+        expect.arrayContaining([
+          "cn-load-public",
+          "cn-load-private",
+          "cn-load-first",
+        ])
+      );
+    });
+
+    it("refuses load requests from carriers outside the network", async () => {
+      const result = await createLoadRequest(
+        {
+          loadId: "cn-load-private",
+          truckId: "test-truck-001",
+          expiresInHours: 24,
+        },
+        {
+          userId: "carrier-user-1",
+          organizationId: "carrier-org-1",
+          isAdmin: false,
+        }
+      );
+      expect(result).toMatchObject({ status: 404 });
+    });
+
+    it("shows network loads once a join request is approved", async () => {
+      setAuthSession(outsiderSession);
+      const request = await add("shipper-org-1");
+      expect(request.status).toBe(201);
+      const { membership } = await parseResponse(request);
+      expect(membership.status).toBe("REQUESTED");
+
+      setAuthSession(shipperSession);
+      const approved = await accept(membership.id);
+      expect(approved.status).toBe(200);
+
+      setAuthSession(outsiderSession);
+      expect(await boardLoadIds()).toContain("cn-load-private");
+
+      setAuthSession(shipperSession);
+      const req = createRequest(
+        "DELETE",
+        `http://localhost:3000/api/carrier-networks/${membership.id}`
+      );
+      const removed = await callHandler(removeMembership, req, {
+        id: membership.id,
+      });
+      expect(removed.status).toBe(200);
+
+      setAuthSession(outsiderSession);
+      expect(await boardLoadIds()).not.toContain("cn-load-private");
+    });
+  });
+
+  describe("deadhead load searches", () => {
+    it("hides network and tendered loads from carriers outside the network", async () => {
+      setAuthSession(outsiderSession);
+      for (const ids of [
+        await nearbyLoadIds("test-truck-001"),
+        await nextLoadIds("cn-load-outsider-hauling"),
+      ]) {
+        expect(ids).toContain("cn-load-public");
+        expect(ids).not.toContain("cn-load-private");
+        expect(ids).not.toContain("cn-load-first");
+        expect(ids).not.toContain("cn-load-tendered");
+      }
+    });
+
+    it("shows network loads to network carriers", async () => {
+      setAuthSession(memberSession);
+      for (const ids of [
+        await nearbyLoadIds("cn-truck"),
+        await nextLoadIds("cn-load-member-hauling"),
+      ]) {
+        expect(ids).toEqual(
+          expect.arrayContaining([
+            "cn-load-public",
+            "cn-load-private",
+            "cn-load-first",
+          ])
+        );
+        expect(ids).not.toContain("cn-load-tendered");
+      }
+    });
+  });
+
+  describe("releaseNetworkLoads", () => {
+    it("waits out the network window", async () => {
+      const result = await releaseNetworkLoads(new Date());
+      expect(result.released).toBe(0);
+    });
+
+    it("opens NETWORK_FIRST loads to every carrier", async () => {
+      const result = await releaseNetworkLoads(
+        new Date(postedAt.getTime() + 5 * HOUR)
+      );
+      expect(result).toEqual({ checked: 1, released: 1 });
+
+      const load = await db.load.findUnique({
+        where: { id: "cn-load-first" },
+      });
+      expect(load!.visibility).toBe("PUBLIC");
+      const events = await db.loadEvent.findMany({
+        where: { loadId: "cn-load-first" },
+      });
+      expect(events.map((e: { eventType: string }) => e.eventType)).toEqual([
+        "NETWORK_RELEASED",
+      ]);
+
+      setAuthSession(outsiderSession);
+      const ids = await boardLoadIds();
+      expect(ids).toContain("cn-load-first");
+      expect(ids).not.toContain("cn-load-private");
+    });
+  });
+});
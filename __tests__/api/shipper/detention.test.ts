@@ -0,0 +1,466 @@
+/**
+ * Detention and Layover Tests
+ *
+ * Tests for:
+ * - lib/detention.ts updateDwellSessions (geofence dwell → detention charge)
+ * - GET /api/loads/[id]/detention (both parties see sessions and charges)
+ * - POST /api/disputes with type DETENTION (charge held while disputed)
+ * - PATCH /api/disputes/[id] (resolution adjusts and posts the charge)
+ * - postDetentionCharges (DETENTION_CHARGE journal entry, shipper → carrier)
+ * - retryPendingDetentionCharges (charges held for a low shipper balance)
+ *
+ * Business rules:
+ * - Dwell beyond the free allowance is billed at the detention rate
+ * - Shipper terms override corridor terms; default free time is 2 hours
+ * - Charges post to the ledger on trip completion; disputed ones are held
+ * - Charges the shipper cannot cover stay PENDING, are notified and retried
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+
+// Real geofence math, controllable truck position
+jest.mock("@/lib/gpsTracking", () => ({
+  isWithinGeofence: jest.requireActual("@/lib/gpsTracking").isWithinGeofence,
+  getLoadLivePosition: jest.fn(async () => null),
+}));
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+}));
+
+const { getLoadLivePosition } = require("@/lib/gpsTracking");
+const {
+  calculateDetention,
+  getDetentionTerms,
+  updateDwellSessions,
+  postDetentionCharges,
+  retryPendingDetentionCharges,
+} = require("@/lib/detention");
+const {
+  createNotificationForRole,
+  notifyOrganization,
+} = require("@/lib/notifications");
+const { GET: getDetention } = require("@/app/api/loads/[id]/detention/route");
+const { POST: createDispute } = require("@/app/api/disputes/route");
+const { PATCH: updateDispute } = require("@/app/api/disputes/[id]/route");
+
+const HOUR = 60 * 60 * 1000;
+// Mekelle delivery site
+const DELIVERY = { latitude: 13.4967, longitude: 39.4753 };
+
+describe("Detention and Layover", () => {
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+    status: "ACTIVE",
+  });
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+    status: "ACTIVE",
+  });
+  const otherCarrierSession = createMockSession({
+    userId: "other-carrier-user",
+    role: "CARRIER",
+    organizationId: "other-carrier-org",
+    status: "ACTIVE",
+  });
+  const adminSession = createMockSession({
+    userId: "admin-user-1",
+    role: "ADMIN",
+    organizationId: "admin-org-1",
+    status: "ACTIVE",
+  });
+
+  const arrivedAt = new Date(Date.now() - 4 * HOUR);
+  let chargeId: string;
+
+  function positionAt(timestamp: Date, offsetLat = 0) {
+    (getLoadLivePosition as jest.Mock).mockResolvedValueOnce({
+      latitude: DELIVERY.latitude + offsetLat,
+      longitude: DELIVERY.longitude,
+      timestamp,
+    });
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+    await db.organization.update({
+      where: { id: "shipper-org-1" },
+      data: { detentionRatePerHour: 300 },
+    });
+    await db.load.create({
+      data: {
+        id: "det-load-1",
+        shipperId: "shipper-org-1",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Mekelle",
+        destinationLat: DELIVERY.latitude,
+        destinationLon: DELIVERY.longitude,
+        truckType: "DRY_VAN",
+        assignedTruckId: "test-truck-001",
+        trackingEnabled: true,
+        // Mock DB: reverse one-to-one (Trip→Load) resolved via tripId on load record
+        tripId: "det-trip-1",
+      },
+    });
+    await db.trip.create({
+      data: {
+        id: "det-trip-1",
+        loadId: "det-load-1",
+        status: "IN_TRANSIT",
+        truckId: "test-truck-001",
+        carrierId: "carrier-org-1",
+        shipperId: "shipper-org-1",
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    setAuthSession(shipperSession);
+  });
+
+  describe("terms and calculation", () => {
+    it("prefers shipper terms, then corridor, then the default", () => {
+      const corridor = { detentionFreeMinutes: 60, detentionRatePerHour: 200 };
+      expect(getDetentionTerms(null, corridor)).toEqual({
+        freeMinutes: 60,
+        ratePerHour: 200,
+      });
+      expect(
+        getDetentionTerms(
+          { detentionFreeMinutes: null, detentionRatePerHour: 300 },
+          corridor
+        )
+      ).toEqual({ freeMinutes: 60, ratePerHour: 300 });
+      expect(getDetentionTerms(null, null)).toEqual({
+        freeMinutes: 120,
+        ratePerHour: 0,
+      });
+    });
+
+    it("charges only dwell beyond free time", () => {
+      const entered = new Date("2026-05-04T08:00:00Z");
+      expect(
+        calculateDetention(entered, new Date("2026-05-04T11:30:00Z"), 120, 300)
+      ).toEqual({ dwellMinutes: 210, billableMinutes: 90, amount: 450 });
+      expect(
+        calculateDetention(entered, new Date("2026-05-04T09:00:00Z"), 120, 300)
+          .amount
+      ).toBe(0);
+    });
+  });
+
+  describe("dwell sessions", () => {
+    it("opens a session when the truck enters the delivery geofence", async () => {
+      positionAt(arrivedAt);
+      expect(await updateDwellSessions("det-load-1")).toBe(1);
+
+      // Still inside: nothing changes
+      positionAt(new Date(arrivedAt.getTime() + HOUR));
+      expect(await updateDwellSessions("det-load-1")).toBe(0);
+
+      const sessions = await db.dwellSession.findMany({
+        where: { loadId: "det-load-1" },
+      });
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0]).toMatchObject({
+        tripId: "det-trip-1",
+        stopType: "DROPOFF",
+        enteredAt: arrivedAt,
+        exitedAt: null,
+        freeMinutes: 120,
+      });
+    });
+
+    it("closes the session on exit and creates a detention charge", async () => {
+      // ~2.2 km north, outside the departure radius
+      positionAt(new Date(arrivedAt.getTime() + 3.5 * HOUR), 0.02);
+      expect(await updateDwellSessions("det-load-1")).toBe(1);
+
+      const [charge] = await db.detentionCharge.findMany({
+        where: { loadId: "det-load-1" },
+      });
+      expect(charge).toMatchObject({
+        shipperId: "shipper-org-1",
+        carrierId: "carrier-org-1",
+        dwellMinutes: 210,
+        billableMinutes: 90,
+        ratePerHour: 300,
+        amount: 450,
+        status: "PENDING",
+      });
+      chargeId = charge.id;
+    });
+
+    it("does not bill again when an overlapping run read the session open", async () => {
+      const [session] = await db.dwellSession.findMany({
+        where: { loadId: "det-load-1" },
+      });
+      jest
+        .spyOn(db.dwellSession, "findMany")
+        .mockResolvedValueOnce([{ ...session, exitedAt: null }]);
+      positionAt(new Date(arrivedAt.getTime() + 3.6 * HOUR), 0.02);
+
+      expect(await updateDwellSessions("det-load-1")).toBe(0);
+      const charges = await db.detentionCharge.findMany({
+        where: { loadId: "det-load-1" },
+      });
+      expect(charges).toHaveLength(1);
+    });
+  });
+
+  describe("GET /api/loads/[id]/detention", () => {
+    function getLoadDetention() {
+      const req = createRequest(
+        "GET",
+        "http://localhost:3000/api/loads/det-load-1/detention"
+      );
+      return callHandler(getDetention, req, { id: "det-load-1" });
+    }
+
+    it("shows sessions and charges to the shipper and carrier", async () => {
+      for (const session of [shipperSession, carrierSession]) {
+        setAuthSession(session);
+        const res = await getLoadDetention();
+        const body = await parseResponse(res);
+        expect(res.status).toBe(200);
+        expect(body.terms).toEqual({ freeMinutes: 120, ratePerHour: 300 });
+        expect(body.sessions).toHaveLength(1);
+        expect(body.charges[0].id).toBe(chargeId);
+      }
+    });
+
+    it("hides detention from unrelated carriers → 404", async () => {
+      setAuthSession(otherCarrierSession);
+      const res = await getLoadDetention();
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("disputes and posting", () => {
+    let disputeId: string;
+
+    it("shipper disputes the charge → DISPUTED, not posted", async () => {
+      const req = createRequest("POST", "http://localhost:3000/api/disputes", {
+        body: {
+          loadId: "det-load-1",
+          type: "DETENTION",
+          description: "Our dock was open; the driver arrived early",
+          detentionChargeId: chargeId,
+        },
+      });
+      const res = await createDispute(req);
+      const body = await parseResponse(res);
+
+      expect(res.status).toBe(200);
+      expect(body.dispute.detentionChargeId).toBe(chargeId);
+      disputeId = body.dispute.id;
+
+      const charge = await db.detentionCharge.findUnique({
+        where: { id: chargeId },
+      });
+      expect(charge.status).toBe("DISPUTED");
+
+      await db.load.update({
+        where: { id: "det-load-1" },
+        data: { status: "COMPLETED" },
+      });
+      expect(await postDetentionCharges("det-load-1")).toEqual({
+        postedCount: 0,
+        totalAmount: 0,
+      });
+    });
+
+    it("rejects a detention dispute without a charge → 400", async () => {
+      const req = createRequest("POST", "http://localhost:3000/api/disputes", {
+        body: {
+          loadId: "det-load-1",
+          type: "DETENTION",
+          description: "Detention should not apply here",
+        },
+      });
+      const res = await createDispute(req);
+      expect(res.status).toBe(400);
+    });
+
+    it("resolution adjusts the charge and posts it to the ledger", async () => {
+      setAuthSession(adminSession);
+      const patch = (body: Record<string, unknown>) =>
+        callHandler(
+          updateDispute,
+          createRequest(
+            "PATCH",
+            `http://localhost:3000/api/disputes/${disputeId}`,
+            { body }
+          ),
+          { id: disputeId }
+        );
+
+      expect((await patch({ status: "UNDER_REVIEW" })).status).toBe(200);
+      const res = await patch({
+        status: "RESOLVED",
+        resolution: "Half of the waiting time was caused by the carrier",
+        detentionAmount: 225,
+      });
+      expect(res.status).toBe(200);
+
+      const charge = await db.detentionCharge.findUnique({
+        where: { id: chargeId },
+      });
+      expect(charge).toMatchObject({ status: "POSTED", amount: 225 });
+
+      const entry = await db.journalEntry.findUnique({
+        where: { id: charge.journalEntryId },
+      });
+      expect(entry).toMatchObject({
+        transactionType: "DETENTION_CHARGE",
+        loadId: "det-load-1",
+      });
+
+      const [shipperWallet, carrierWallet] = await Promise.all([
+        db.financialAccount.findUnique({ where: { id: "wallet-shipper-1" } }),
+        db.financialAccount.findUnique({ where: { id: "wallet-carrier-1" } }),
+      ]);
+      expect(Number(shipperWallet.balance)).toBe(10000 - 225);
+      expect(Number(carrierWallet.balance)).toBe(5000 + 225);
+
+      // Idempotent
+      expect((await postDetentionCharges("det-load-1")).postedCount).toBe(0);
+    });
+  });
+
+  describe("pending charges", () => {
+    async function createCharge(id: string, amount: number) {
+      await db.dwellSession.create({
+        data: {
+          id: `${id}-session`,
+          loadId: "det-load-1",
+          tripId: "det-trip-1",
+          stopType: "PICKUP",
+          enteredAt: arrivedAt,
+          exitedAt: new Date(arrivedAt.getTime() + 3 * HOUR),
+          freeMinutes: 120,
+        },
+      });
+      await db.detentionCharge.create({
+        data: {
+          id,
+          dwellSessionId: `${id}-session`,
+          loadId: "det-load-1",
+          shipperId: "shipper-org-1",
+          carrierId: "carrier-org-1",
+          dwellMinutes: 180,
+          billableMinutes: 60,
+          ratePerHour: amount,
+          amount,
+          status: "PENDING",
+        },
+      });
+    }
+
+    async function shipperBalance() {
+      const wallet = await db.financialAccount.findUnique({
+        where: { id: "wallet-shipper-1" },
+      });
+      return Number(wallet.balance);
+    }
+
+    it("holds a charge the shipper cannot cover, notifies, and posts it after top-up", async () => {
+      await createCharge("det-charge-low", 20000);
+      const before = await shipperBalance();
+
+      expect(await postDetentionCharges("det-load-1")).toEqual({
+        postedCount: 0,
+        totalAmount: 0,
+      });
+      const held = await db.detentionCharge.findUnique({
+        where: { id: "det-charge-low" },
+      });
+      expect(held.status).toBe("PENDING");
+      expect(await shipperBalance()).toBe(before);
+      expect(notifyOrganization).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: "shipper-org-1",
+          type: "DETENTION_CHARGE_PENDING",
+        })
+      );
+      expect(createNotificationForRole).toHaveBeenCalledWith(
+        expect.objectContaining({
+          role: "ADMIN",
+          type: "DETENTION_CHARGE_PENDING",
+        })
+      );
+
+      await db.financialAccount.update({
+        where: { id: "wallet-shipper-1" },
+        data: { balance: before + 20000 },
+      });
+      expect(await retryPendingDetentionCharges()).toBe(1);
+
+      const posted = await db.detentionCharge.findUnique({
+        where: { id: "det-charge-low" },
+      });
+      expect(posted.status).toBe("POSTED");
+      expect(posted.journalEntryId).toBeTruthy();
+      expect(await shipperBalance()).toBe(before);
+    });
+
+    it("posts a charge once when two completions race", async () => {
+      await createCharge("det-charge-race", 100);
+      const before = await shipperBalance();
+
+      const results = await Promise.all([
+        postDetentionCharges("det-load-1"),
+        postDetentionCharges("det-load-1"),
+      ]);
+
+      expect(results.map((r) => r.postedCount).sort()).toEqual([0, 1]);
+      expect(await shipperBalance()).toBe(before - 100);
+    });
+  });
+});
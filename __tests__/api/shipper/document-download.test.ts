@@ -14,6 +14,8 @@
  * - DD-6: documentId from different load → 400
  * - DD-7: Admin downloads any document → 200
  * - DD-8: Unauthenticated → 401
+ * - DD-9: Document on the storage host → redirect
+ * - DD-10: Document URL outside storage → 400, no redirect
  *
  * Note: fs mocking doesn't work with Next.js/SWC Jest setup.
  * Auth-failure paths (401/403/400) return before reaching fs operations.
@@ -416,4 +418,62 @@ describe("Document Download — GET /api/loads/[id]/documents/[documentId]/downl
 
     expect(res.status).toBe(401);
   });
+
+  // DD-9: Generated document stored on the storage host → redirect
+  it("DD-9: document on the storage host → redirect", async () => {
+    await db.document.create({
+      data: {
+        id: "doc-dl-storage-001",
+        loadId,
+        fileName: "rate-confirmation.pdf",
+        fileUrl: "https://storage.test/docs/rate-confirmation.pdf",
+        mimeType: "application/pdf",
+        fileSize: 36,
+        uploadedById: "shipper-user-1",
+      },
+    });
+    setAuthSession(shipperSession);
+
+    const req = createRequest(
+      "GET",
+      `http://localhost/api/loads/${loadId}/documents/doc-dl-storage-001/download`
+    );
+    const res = await callHandler(downloadDocument, req, {
+      id: loadId,
+      documentId: "doc-dl-storage-001",
+    });
+
+    expect(res.status).toBe(307);
+    expect(res.headers.get("Location")).toBe(
+      "https://storage.test/docs/rate-confirmation.pdf"
+    );
+  });
+
+  // DD-10: fileUrl pointing anywhere else → 400 (no open redirect)
+  it("DD-10: document URL outside storage → 400", async () => {
+    await db.document.create({
+      data: {
+        id: "doc-dl-foreign-001",
+        loadId,
+        fileName: "invoice.pdf",
+        fileUrl: "https://evil.example/invoice.pdf",
+        mimeType: "application/pdf",
+        fileSize: 36,
+        uploadedById: "shipper-user-1",
+      },
+    });
+    setAuthSession(shipperSession);
+
+    const req = createRequest(
+      "GET",
+      `http://localhost/api/loads/${loadId}/documents/doc-dl-foreign-001/download`
+    );
+    const res = await callHandler(downloadDocument, req, {
+      id: loadId,
+      documentId: "doc-dl-foreign-001",
+    });
+
+    expect(res.status).toBe(400);
+    expect(res.headers.get("Location")).toBeNull();
+  });
 });
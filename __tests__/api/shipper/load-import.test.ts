@@ -0,0 +1,315 @@
+/**
+ * Bulk Load Import Tests
+ *
+ * Tests for:
+ * - POST /api/loads/import       (upload CSV)
+ * - GET  /api/loads/import/[id]  (status + per-row report)
+ *
+ * Business rules:
+ * - Dry runs validate every row without creating loads
+ * - Valid rows are created even when other rows fail; the report says which
+ * - Files missing required columns are rejected before anything is stored
+ * - Large files are queued; other organizations cannot see an import
+ * - Imported POSTED loads notify carriers like POST /api/loads
+ * - An import is processed once even if its job runs twice
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockStorage,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockStorage();
+
+const mockAddJob = jest.fn(async () => "job-1");
+jest.mock("@/lib/queue", () => ({
+  addJob: (...args: unknown[]) => mockAddJob(...args),
+}));
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+}));
+
+const { createNotificationForRole } = require("@/lib/notifications");
+const { runLoadImport } = require("@/lib/loadImport");
+const { POST: importLoads } = require("@/app/api/loads/import/route");
+const { GET: getImport } = require("@/app/api/loads/import/[id]/route");
+
+describe("Bulk Load Import", () => {
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+  });
+
+  const otherShipperSession = createMockSession({
+    userId: "import-other-shipper",
+    role: "SHIPPER",
+    organizationId: "import-other-shipper-org",
+  });
+
+  const header =
+    "pickupCity,pickupDate,deliveryCity,deliveryDate,truckType,weight,cargoDescription";
+  const validRow =
+    "Addis,2026-12-01,Adama,2026-12-02,dry_van,12000,Bagged cement";
+  const badRow = "Addis,2026-12-01,Atlantis,2026-12-02,dry_van,heavy,Steel";
+
+  function upload(
+    content: string,
+    fields: Record<string, string> = {},
+    name = "loads.csv"
+  ) {
+    const req = createRequest("POST", "http://localhost:3000/api/loads/import");
+    const file = {
+      name,
+      size: Buffer.byteLength(content),
+      arrayBuffer: async () => new Uint8Array(Buffer.from(content)).buffer,
+    };
+    (req as any).formData = jest.fn(async () => ({
+      get: (key: string) => (key === "file" ? file : (fields[key] ?? null)),
+    }));
+    return callHandler(importLoads, req);
+  }
+
+  function fetchImport(id: string) {
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/loads/import/${id}`
+    );
+    return callHandler(getImport, req, { id });
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+    for (const [name, latitude, longitude, aliases] of [
+      ["Addis Ababa", 9.03, 38.74, ["Addis"]],
+      ["Adama", 8.54, 39.27, ["Nazret"]],
+    ] as const) {
+      await db.ethiopianLocation.create({
+        data: {
+          name,
+          latitude,
+          longitude,
+          aliases: [...aliases],
+          isActive: true,
+        },
+      });
+    }
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(shipperSession);
+  });
+
+  it("dry run reports each row without creating loads → 200", async () => {
+    const before = await db.load.count({});
+    const res = await upload(`${header}\n${validRow}\n${badRow}\n`, {
+      dryRun: "true",
+    });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.import).toMatchObject({
+      status: "COMPLETED",
+      dryRun: true,
+      validCount: 1,
+      createdCount: 0,
+      errorCount: 1,
+    });
+    expect(body.import.rows).toBeUndefined();
+    expect(body.import.report[0]).toEqual({ row: 2, status: "VALID" });
+    expect(body.import.report[1].row).toBe(3);
+    expect(body.import.report[1].errors).toEqual(
+      expect.arrayContaining(['deliveryCity: Unknown city "Atlantis"'])
+    );
+    expect(await db.load.count({})).toBe(before);
+  });
+
+  it("creates the valid rows and reports the rest → 200", async () => {
+    const res = await upload(`${header}\n${validRow}\n${badRow}\n`);
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.import.createdCount).toBe(1);
+    expect(body.import.errorCount).toBe(1);
+
+    const created = body.import.report[0];
+    expect(created.status).toBe("CREATED");
+    const load = await db.load.findUnique({ where: { id: created.loadId } });
+    expect(load).toMatchObject({
+      shipperId: "shipper-org-1",
+      pickupCity: "Addis Ababa",
+      deliveryCity: "Adama",
+      truckType: "DRY_VAN",
+    });
+  });
+
+  it("missing required columns → 400 before anything is stored", async () => {
+    const before = await db.loadImport.count({});
+    const res = await upload("pickupCity,deliveryCity\nAddis,Adama\n");
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(400);
+    expect(body.missingColumns).toEqual(
+      expect.arrayContaining(["pickupDate", "weight"])
+    );
+    expect(await db.loadImport.count({})).toBe(before);
+  });
+
+  it("unsupported file type → 400", async () => {
+    const req = createRequest("POST", "http://localhost:3000/api/loads/import");
+    (req as any).formData = jest.fn(async () => ({
+      get: (key: string) =>
+        key === "file"
+          ? {
+              name: "loads.pdf",
+              size: 4,
+              arrayBuffer: async () =>
+                new Uint8Array(Buffer.from("%PDF")).buffer,
+            }
+          : null,
+    }));
+    const res = await callHandler(importLoads, req);
+    expect(res.status).toBe(400);
+  });
+
+  it("Excel workbooks → 400 asking for CSV", async () => {
+    const res = await upload("PK\u0003\u0004", {}, "loads.xlsx");
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(400);
+    expect(body.error).toContain(".csv");
+  });
+
+  it("POSTED rows notify carriers of the new load", async () => {
+    const res = await upload(
+      `${header},status,contactName,contactPhone\n${validRow},posted,Abebe Kebede,+251911000001\n`
+    );
+    const body = await parseResponse(res);
+
+    expect(body.import.createdCount).toBe(1);
+    expect(createNotificationForRole).toHaveBeenCalledWith(
+      expect.objectContaining({
+        role: "CARRIER",
+        type: "NEW_LOAD_POSTED",
+        metadata: expect.objectContaining({
+          loadId: body.import.report[0].loadId,
+        }),
+      })
+    );
+  });
+
+  it("processes an import once when its job runs twice", async () => {
+    const loadImport = await db.loadImport.create({
+      data: {
+        shipperId: "shipper-org-1",
+        createdById: "shipper-user-1",
+        status: "PENDING",
+        fileName: "loads.csv",
+        dryRun: false,
+        totalRows: 1,
+        rows: [
+          {
+            line: 2,
+            values: {
+              pickupCity: "Addis",
+              pickupDate: "2026-12-01",
+              deliveryCity: "Adama",
+              deliveryDate: "2026-12-02",
+              truckType: "dry_van",
+              weight: "12000",
+              cargoDescription: "Bagged cement",
+            },
+          },
+        ],
+      },
+    });
+    const before = await db.load.count({});
+
+    await Promise.all([
+      runLoadImport(loadImport.id),
+      runLoadImport(loadImport.id),
+    ]);
+
+    const done = await db.loadImport.findUnique({
+      where: { id: loadImport.id },
+    });
+    expect(done.createdCount).toBe(1);
+    expect(await db.load.count({})).toBe(before + 1);
+  });
+
+  it("large files are queued → 202", async () => {
+    const rows = Array.from({ length: 51 }, () => validRow).join("\n");
+    const res = await upload(`${header}\n${rows}\n`, { dryRun: "true" });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(202);
+    expect(body.import.status).toBe("PENDING");
+    expect(body.import.totalRows).toBe(51);
+    expect(mockAddJob).toHaveBeenCalledWith(
+      "bulk",
+      "load-import",
+      { importId: body.import.id },
+      { attempts: 1 }
+    );
+  });
+
+  it("GET returns the report to the owner and 404 to others", async () => {
+    const res = await upload(`${header}\n${validRow}\n`, { dryRun: "true" });
+    const { import: loadImport } = await parseResponse(res);
+
+    const ownRes = await fetchImport(loadImport.id);
+    const ownBody = await parseResponse(ownRes);
+    expect(ownRes.status).toBe(200);
+    expect(ownBody.import.report).toHaveLength(1);
+
+    setAuthSession(otherShipperSession);
+    const otherRes = await fetchImport(loadImport.id);
+    expect(otherRes.status).toBe(404);
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Recurring Load Schedule Tests
+ *
+ * Tests for:
+ * - POST  /api/load-schedules                 (create from template / source load)
+ * - GET   /api/load-schedules/[id]            (schedule + generated loads)
+ * - PATCH /api/load-schedules/[id]            (pause, edit future occurrences)
+ * - POST  /api/load-schedules/[id]/skip       (skip one occurrence)
+ * - generateScheduledLoads()                  (cron generation)
+ *
+ * Business rules:
+ * - Only shippers create schedules; other organizations get 404
+ * - Generation is idempotent and never runs ahead of leadDays
+ * - Template edits reach generated loads that are still drafts, prepared
+ *   like POST /api/loads
+ * - Posting needs contact details unless anonymous, on create and edit
+ * - Skipping cancels an unbooked generated load, but not a booked one
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockStorage,
+  SeedData,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockStorage();
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+  zodErrorResponse: jest.fn((err: any) => {
+    const { NextResponse } = require("next/server");
+    return NextResponse.json(
+      { error: "Validation error", details: err.errors },
+      { status: 400 }
+    );
+  }),
+}));
+
+const { createNotificationForRole } = require("@/lib/notifications");
+const { POST: createSchedule } = require("@/app/api/load-schedules/route");
+const {
+  GET: getSchedule,
+  PATCH: updateSchedule,
+} = require("@/app/api/load-schedules/[id]/route");
+const {
+  POST: skipOccurrence,
+} = require("@/app/api/load-schedules/[id]/skip/route");
+const { geohashOf } = require("@/lib/geoIndex");
+const {
+  generateScheduledLoads,
+  toUtcDay,
+  addDays,
+} = require("@/lib/loadSchedules");
+
+describe("Recurring Load Schedules", () => {
+  let seed: SeedData;
+  let scheduleId: string;
+
+  const today = toUtcDay(new Date());
+  const tomorrow = addDays(today, 1);
+  const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+  });
+
+  const otherShipperSession = createMockSession({
+    userId: "schedule-other-shipper",
+    role: "SHIPPER",
+    organizationId: "schedule-other-shipper-org",
+  });
+
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+  });
+
+  const template = {
+    pickupCity: "Adama",
+    deliveryCity: "Djibouti",
+    truckType: "DRY_VAN",
+    weight: 20000,
+    cargoDescription: "Bagged cement",
+  };
+
+  function create(body: Record<string, unknown>) {
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/load-schedules",
+      {
+        body,
+      }
+    );
+    return callHandler(createSchedule, req);
+  }
+
+  function patch(id: string, body: Record<string, unknown>) {
+    const req = createRequest(
+      "PATCH",
+      `http://localhost:3000/api/load-schedules/${id}`,
+      { body }
+    );
+    return callHandler(updateSchedule, req, { id });
+  }
+
+  function skip(id: string, date: string) {
+    const req = createRequest(
+      "POST",
+      `http://localhost:3000/api/load-schedules/${id}/skip`,
+      { body: { date } }
+    );
+    return callHandler(skipOccurrence, req, { id });
+  }
+
+  beforeAll(async () => {
+    seed = await seedTestData();
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(shipperSession);
+  });
+
+  it("shipper creates a schedule from a template → 201", async () => {
+    // Every other day from tomorrow; a 4-day lead covers two occurrences
+    const res = await create({
+      name: "Adama → Djibouti",
+      template,
+      frequency: "DAILY",
+      interval: 2,
+      startDate: isoDay(tomorrow),
+      deliveryOffsetDays: 2,
+      leadDays: 4,
+    });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(201);
+    expect(body.schedule.status).toBe("ACTIVE");
+    expect(body.schedule.postAs).toBe("DRAFT");
+    expect(body.schedule.shipperId).toBe("shipper-org-1");
+    scheduleId = body.schedule.id;
+  });
+
+  it("weekly schedules need days of the week → 400", async () => {
+    const res = await create({
+      name: "No days",
+      template,
+      frequency: "WEEKLY",
+      startDate: isoDay(tomorrow),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("carriers cannot create schedules → 403", async () => {
+    setAuthSession(carrierSession);
+    const res = await create({
+      name: "Carrier schedule",
+      template,
+      frequency: "DAILY",
+      startDate: isoDay(tomorrow),
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it("cannot copy another organization's load → 404", async () => {
+    setAuthSession(otherShipperSession);
+    const res = await create({
+      name: "Copied",
+      loadId: seed.load.id,
+      frequency: "DAILY",
+      startDate: isoDay(tomorrow),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("creates a schedule from an existing load", async () => {
+    const res = await create({
+      name: "Copied lane",
+      loadId: seed.load.id,
+      frequency: "WEEKLY",
+      daysOfWeek: [1, 4],
+      startDate: isoDay(tomorrow),
+    });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(201);
+    expect(body.schedule.template.pickupCity).toBe(seed.load.pickupCity);
+    expect(body.schedule.template.cargoDescription).toBe(
+      seed.load.cargoDescription
+    );
+
+    // Park it so it does not generate loads in the tests below
+    await db.loadSchedule.update({
+      where: { id: body.schedule.id },
+      data: { status: "PAUSED" },
+    });
+  });
+
+  it("generates loads within the lead window, once", async () => {
+    const first = await generateScheduledLoads();
+    expect(first.loadsCreated).toBe(2);
+
+    const loads = await db.load.findMany({ where: { scheduleId } });
+    expect(loads).toHaveLength(2);
+    expect(loads[0].status).toBe("DRAFT");
+    expect(loads[0].scheduledFor).toEqual(tomorrow);
+    expect(loads[0].pickupDate).toEqual(tomorrow);
+    expect(loads[0].deliveryDate).toEqual(addDays(tomorrow, 2));
+    expect(loads[1].pickupDate).toEqual(addDays(tomorrow, 2));
+
+    const second = await generateScheduledLoads();
+    expect(second.loadsCreated).toBe(0);
+  });
+
+  it("GET returns the schedule with its generated loads", async () => {
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/load-schedules/${scheduleId}`
+    );
+    const res = await callHandler(getSchedule, req, { id: scheduleId });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.schedule.id).toBe(scheduleId);
+    expect(body.loads).toHaveLength(2);
+  });
+
+  it("another shipper cannot see the schedule → 404", async () => {
+    setAuthSession(otherShipperSession);
+    const req = createRequest(
+      "GET",
+      `http://localhost:3000/api/load-schedules/${scheduleId}`
+    );
+    const res = await callHandler(getSchedule, req, { id: scheduleId });
+    expect(res.status).toBe(404);
+  });
+
+  it("template edits reach generated draft loads", async () => {
+    const res = await patch(scheduleId, {
+      template: {
+        ...template,
+        cargoDescription: "Bagged cement, 50kg",
+        originLat: 8.54,
+        originLon: 39.27,
+        destinationLat: 11.59,
+        destinationLon: 43.15,
+      },
+    });
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.loadsUpdated).toBe(2);
+
+    const loads = await db.load.findMany({ where: { scheduleId } });
+    expect(loads.map((l: any) => l.cargoDescription)).toEqual([
+      "Bagged cement, 50kg",
+      "Bagged cement, 50kg",
+    ]);
+    // Prepared like POST /api/loads: radius search sees the new location
+    expect(loads[0].originGeohash).toBe(geohashOf(8.54, 39.27));
+    expect(loads[0].destinationGeohash).toBe(geohashOf(11.59, 43.15));
+    expect(Number(loads[0].tripKm)).toBeGreaterThan(0);
+  });
+
+  it("posting without contact details → 400, like POST", async () => {
+    const res = await patch(scheduleId, { postAs: "POSTED" });
+    expect(res.status).toBe(400);
+
+    const schedule = await db.loadSchedule.findUnique({
+      where: { id: scheduleId },
+    });
+    expect(schedule.postAs).toBe("DRAFT");
+  });
+
+  it("paused schedules do not generate loads", async () => {
+    const res = await patch(scheduleId, { status: "PAUSED", leadDays: 10 });
+    expect(res.status).toBe(200);
+
+    const result = await generateScheduledLoads();
+    expect(result.loadsCreated).toBe(0);
+
+    await patch(scheduleId, { status: "ACTIVE", leadDays: 4 });
+  });
+
+  it("skipping a date that is not an occurrence → 400", async () => {
+    const res = await skip(scheduleId, isoDay(addDays(tomorrow, 1)));
+    expect(res.status).toBe(400);
+  });
+
+  it("skipping an occurrence cancels its unbooked load", async () => {
+    const res = await skip(scheduleId, isoDay(tomorrow));
+    const body = await parseResponse(res);
+
+    expect(res.status).toBe(200);
+    expect(body.cancelledLoadId).toBeTruthy();
+
+    const load = await db.load.findUnique({
+      where: { id: body.cancelledLoadId },
+    });
+    expect(load.status).toBe("CANCELLED");
+
+    const schedule = await db.loadSchedule.findUnique({
+      where: { id: scheduleId },
+    });
+    expect(schedule.skippedDates.map(isoDay)).toEqual([isoDay(tomorrow)]);
+  });
+
+  it("skipping an occurrence whose load is booked → 409", async () => {
+    const created = await parseResponse(
+      await create({
+        name: "Booked lane",
+        template,
+        frequency: "DAILY",
+        startDate: isoDay(tomorrow),
+        endDate: isoDay(tomorrow),
+      })
+    );
+    await generateScheduledLoads();
+
+    const load = await db.load.findFirst({
+      where: { scheduleId: created.schedule.id },
+    });
+    await db.load.update({
+      where: { id: load.id },
+      data: { status: "ASSIGNED", assignedTruckId: seed.truck.id },
+    });
+
+    const res = await skip(created.schedule.id, isoDay(tomorrow));
+    expect(res.status).toBe(409);
+
+    // A one-day schedule ends once its only occurrence is generated
+    const schedule = await db.loadSchedule.findUnique({
+      where: { id: created.schedule.id },
+    });
+    expect(schedule.status).toBe("ENDED");
+  });
+
+  it("posted occurrences are announced and estimated like POST /api/loads", async () => {
+    await db.corridor.create({
+      data: {
+        id: "schedule-corridor",
+        name: "Adama-Djibouti",
+        originRegion: "Adama",
+        destinationRegion: "Djibouti",
+        distanceKm: 780,
+        pricePerKm: 5,
+        shipperPricePerKm: 5,
+        carrierPricePerKm: 3,
+        direction: "ONE_WAY",
+        isActive: true,
+        createdById: "shipper-user-1",
+      },
+    });
+    const created = await parseResponse(
+      await create({
+        name: "Posted lane",
+        template: {
+          ...template,
+          shipperContactName: "Abebe Kebede",
+          shipperContactPhone: "+251911000001",
+        },
+        frequency: "DAILY",
+        startDate: isoDay(tomorrow),
+        endDate: isoDay(tomorrow),
+        postAs: "POSTED",
+      })
+    );
+    await generateScheduledLoads();
+
+    const load = await db.load.findFirst({
+      where: { scheduleId: created.schedule.id },
+    });
+    expect(load.status).toBe("POSTED");
+    expect(Number(load.estimatedTripKm)).toBe(780);
+    expect(createNotificationForRole).toHaveBeenCalledWith(
+      expect.objectContaining({
+        role: "CARRIER",
+        type: "NEW_LOAD_POSTED",
+        metadata: expect.objectContaining({ loadId: load.id }),
+      })
+    );
+  });
+});
@@ -0,0 +1,264 @@
+// @jest-environment node
+/**
+ * Multi-Stop Load Creation Tests
+ *
+ * Tests for:
+ * - POST /api/loads with `stops`        → 201, LoadStop rows in route order
+ * - GET  /api/loads/[id]                → load.stops ordered by sequence
+ * - POST /api/loads/[id]/duplicate      → stop plan copied, execution reset
+ *
+ * Business rules verified:
+ * - First stop must be PICKUP, last DROPOFF, at least 2 stops
+ * - Drops cannot exceed the weight on board
+ * - First/last stop coordinates mirror onto origin/destination
+ * - tripKm follows the stop route when not provided
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockServiceFee,
+  mockLoadStateMachine,
+  mockTrustMetrics,
+  mockBypassDetection,
+  mockStorage,
+  mockAssignmentConflicts,
+  mockServiceFeeCalculation,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockServiceFee();
+mockLoadStateMachine();
+mockTrustMetrics();
+mockBypassDetection();
+mockStorage();
+mockAssignmentConflicts();
+mockServiceFeeCalculation();
+
+jest.mock("@/lib/loadUtils", () => ({
+  calculateAge: jest.fn(() => 30),
+  canSeeContact: jest.fn(() => true),
+  maskCompany: jest.fn((isAnonymous: boolean, name: string) =>
+    isAnonymous ? "Anonymous Shipper" : name || "Unknown"
+  ),
+}));
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  sanitizeText: jest.fn((text: string) => text),
+  zodErrorResponse: jest.fn((err: any) => {
+    const { NextResponse } = require("next/server");
+    return NextResponse.json(
+      { error: "Validation error", details: err.errors },
+      { status: 400 }
+    );
+  }),
+}));
+
+const { POST: createLoad } = require("@/app/api/loads/route");
+const { GET: getLoad } = require("@/app/api/loads/[id]/route");
+const { POST: duplicateLoad } = require("@/app/api/loads/[id]/duplicate/route");
+
+const shipperSession = createMockSession({
+  userId: "shipper-user-1",
+  role: "SHIPPER",
+  organizationId: "shipper-org-1",
+  status: "ACTIVE",
+});
+
+const ADDIS = { latitude: 9.0054, longitude: 38.7636 };
+const ADAMA = { latitude: 8.54, longitude: 39.27 };
+const DIRE_DAWA = { latitude: 9.6009, longitude: 41.8502 };
+
+const baseLoadPayload = {
+  pickupCity: "Addis Ababa",
+  deliveryCity: "Dire Dawa",
+  pickupDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+  deliveryDate: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString(),
+  truckType: "DRY_VAN",
+  weight: 5000,
+  cargoDescription: "Multi-drop distribution run",
+  shipperContactName: "Test Shipper",
+  shipperContactPhone: "+251911000000",
+  status: "DRAFT",
+};
+
+const threeStops = [
+  { stopType: "PICKUP", city: "Addis Ababa", ...ADDIS, weight: 5000 },
+  {
+    stopType: "DROPOFF",
+    city: "Adama",
+    ...ADAMA,
+    weight: 2000,
+    contactName: "Adama Warehouse",
+  },
+  { stopType: "DROPOFF", city: "Dire Dawa", ...DIRE_DAWA, weight: 3000 },
+];
+
+async function createStopLoad(stops: unknown[], extra = {}) {
+  const req = createRequest("POST", "http://localhost/api/loads", {
+    body: { ...baseLoadPayload, ...extra, stops },
+  });
+  const response = await callHandler(createLoad, req);
+  return { response, body: await parseResponse(response) };
+}
+
+describe("Multi-Stop Load Creation", () => {
+  beforeAll(async () => {
+    await seedTestData();
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setAuthSession(shipperSession);
+  });
+
+  it("creates LoadStop rows in route order", async () => {
+    const { response, body } = await createStopLoad(threeStops);
+
+    expect(response.status).toBe(201);
+
+    const stops = await db.loadStop.findMany({
+      where: { loadId: body.load.id },
+    });
+    expect(stops.map((s: any) => [s.sequence, s.stopType, s.city])).toEqual([
+      [1, "PICKUP", "Addis Ababa"],
+      [2, "DROPOFF", "Adama"],
+      [3, "DROPOFF", "Dire Dawa"],
+    ]);
+    expect(stops[1].contactName).toBe("Adama Warehouse");
+  });
+
+  it("mirrors first/last stop coordinates onto the load", async () => {
+    const { body } = await createStopLoad(threeStops);
+
+    expect(Number(body.load.originLat)).toBeCloseTo(ADDIS.latitude);
+    expect(Number(body.load.destinationLon)).toBeCloseTo(DIRE_DAWA.longitude);
+  });
+
+  it("computes tripKm along the stops, not origin → destination", async () => {
+    const { body: viaAdama } = await createStopLoad(threeStops);
+    const { body: direct } = await createStopLoad([
+      threeStops[0],
+      { ...threeStops[2], weight: 5000 },
+    ]);
+
+    expect(viaAdama.load.tripKm).toBeGreaterThan(direct.load.tripKm);
+  });
+
+  it("returns 400 when the first stop is not a PICKUP", async () => {
+    const { response } = await createStopLoad([
+      { stopType: "DROPOFF", city: "Adama", ...ADAMA },
+      { stopType: "DROPOFF", city: "Dire Dawa", ...DIRE_DAWA },
+    ]);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("returns 400 when a drop exceeds the weight on board", async () => {
+    const { response } = await createStopLoad([
+      { stopType: "PICKUP", city: "Addis Ababa", ...ADDIS, weight: 1000 },
+      { stopType: "DROPOFF", city: "Adama", ...ADAMA, weight: 3000 },
+    ]);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("single-stop loads create no LoadStop rows", async () => {
+    const req = createRequest("POST", "http://localhost/api/loads", {
+      body: baseLoadPayload,
+    });
+    const response = await callHandler(createLoad, req);
+    const body = await parseResponse(response);
+
+    expect(response.status).toBe(201);
+    const stops = await db.loadStop.findMany({
+      where: { loadId: body.load.id },
+    });
+    expect(stops).toHaveLength(0);
+  });
+
+  it("GET /api/loads/[id] returns the stops", async () => {
+    const { body: created } = await createStopLoad(threeStops);
+
+    const req = createRequest(
+      "GET",
+      `http://localhost/api/loads/${created.load.id}`
+    );
+    const response = await callHandler(getLoad, req, { id: created.load.id });
+    const body = await parseResponse(response);
+
+    expect(response.status).toBe(200);
+    expect(body.load.stops.map((s: any) => s.city)).toEqual([
+      "Addis Ababa",
+      "Adama",
+      "Dire Dawa",
+    ]);
+  });
+
+  it("duplicate copies the stop plan without arrival timestamps", async () => {
+    const { body: created } = await createStopLoad(threeStops);
+    await db.loadStop.updateMany({
+      where: { loadId: created.load.id, sequence: 1 },
+      data: { arrivedAt: new Date(), departedAt: new Date() },
+    });
+
+    const req = createRequest(
+      "POST",
+      `http://localhost/api/loads/${created.load.id}/duplicate`
+    );
+    const response = await callHandler(duplicateLoad, req, {
+      id: created.load.id,
+    });
+    const body = await parseResponse(response);
+
+    expect(response.status).toBe(200);
+    const stops = await db.loadStop.findMany({
+      where: { loadId: body.load.id },
+    });
+    expect(stops).toHaveLength(3);
+    expect(stops[0].arrivedAt).toBeNull();
+    expect(stops[0].departedAt).toBeNull();
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Routing Guide Tests
+ *
+ * Tests for:
+ * - POST  /api/routing-guides        (create a lane's preferred carrier list)
+ * - PATCH /api/routing-guides/[id]   (pause, reorder carriers)
+ * - startTenderWaterfall()           (tender on posting)
+ * - POST  /api/truck-requests/[id]/respond (rejection moves on)
+ * - advanceDueTenders()              (expiry moves on, falls through)
+ *
+ * Business rules:
+ * - Only shippers create guides, one per lane, for carrier organizations
+ * - A posted load is tendered to carriers in order and stays off the public
+ *   board; carriers without a suitable truck are skipped
+ * - Rejection or expiry tenders the next carrier; after the last one the
+ *   load is POSTED
+ * - Every step shows on the load's event timeline
+ */
+
+import { db } from "@/lib/db";
+import {
+  createMockSession,
+  setAuthSession,
+  createRequest,
+  callHandler,
+  parseResponse,
+  seedTestData,
+  clearAllStores,
+  mockAuth,
+  mockCsrf,
+  mockRateLimit,
+  mockSecurity,
+  mockCache,
+  mockNotifications,
+  mockCors,
+  mockAuditLog,
+  mockGps,
+  mockFoundationRules,
+  mockSms,
+  mockMatchingEngine,
+  mockDispatcherPermissions,
+  mockRbac,
+  mockApiErrors,
+  mockLogger,
+  mockStorage,
+} from "../../utils/routeTestUtils";
+
+mockAuth();
+mockCsrf();
+mockRateLimit();
+mockSecurity();
+mockCache();
+mockNotifications();
+mockCors();
+mockAuditLog();
+mockGps();
+mockFoundationRules();
+mockSms();
+mockMatchingEngine();
+mockDispatcherPermissions();
+mockRbac();
+mockApiErrors();
+mockLogger();
+mockStorage();
+
+jest.mock("@/lib/validation", () => ({
+  ...jest.requireActual("@/lib/validation"),
+  zodErrorResponse: jest.fn((err: any) => {
+    const { NextResponse } = require("next/server");
+    return NextResponse.json(
+      { error: "Validation error", details: err.errors },
+      { status: 400 }
+    );
+  }),
+}));
+
+const { POST: createGuide } = require("@/app/api/routing-guides/route");
+const { PATCH: updateGuide } = require("@/app/api/routing-guides/[id]/route");
+const {
+  POST: respondToTruckRequest,
+} = require("@/app/api/truck-requests/[id]/respond/route");
+const {
+  advanceDueTenders,
+  startTenderWaterfall,
+} = require("@/lib/routingGuides");
+const { createLoadRequest } = require("@/lib/loadRequests");
+
+const MINUTE = 60 * 1000;
+
+describe("Routing Guides", () => {
+  const shipperSession = createMockSession({
+    userId: "shipper-user-1",
+    role: "SHIPPER",
+    organizationId: "shipper-org-1",
+  });
+
+  const carrierSession = createMockSession({
+    userId: "carrier-user-1",
+    role: "CARRIER",
+    organizationId: "carrier-org-1",
+  });
+
+  // carrier-org-1 (seeded) has an approved DRY_VAN truck
+  const lane = { pickupCity: "Adama", deliveryCity: "Djibouti" };
+  const carriers = [
+    { carrierId: "rg-no-truck-org", responseTimeoutMinutes: 30 },
+    { carrierId: "carrier-org-1", responseTimeoutMinutes: 60 },
+    { carrierId: "rg-carrier-org", responseTimeoutMinutes: 30 },
+  ];
+
+  function create(body: Record<string, unknown>) {
+    const req = createRequest(
+      "POST",
+      "http://localhost:3000/api/routing-guides",
+      { body }
+    );
+    return callHandler(createGuide, req);
+  }
+
+  beforeAll(async () => {
+    await seedTestData();
+
+    for (const id of ["rg-no-truck-org", "rg-carrier-org"]) {
+      await db.organization.create({
+        data: {
+          id,
+          name: id,
+          type: "CARRIER_COMPANY",
+          contactEmail: `${id}@test.com`,
+          contactPhone: "+251911000000",
+        },
+      });
+    }
+    await db.truck.create({
+      data: {
+        id: "rg-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "RG-001",
+        capacity: 20000,
+        isAvailable: true,
+        carrierId: "rg-carrier-org",
+        approvalStatus: "APPROVED",
+      },
+    });
+  });
+
+  afterAll(() => {
+    clearAllStores();
+  });
+
+  beforeEach(() => {
+    setAuthSession(shipperSession);
+  });
+
+  describe("POST /api/routing-guides", () => {
+    it("rejects non-shippers", async () => {
+      setAuthSession(carrierSession);
+      const res = await create({ ...lane, carriers });
+      expect(res.status).toBe(403);
+    });
+
+    it("rejects unknown or duplicate carriers", async () => {
+      const unknown = await create({
+        ...lane,
+        carriers: [{ carrierId: "shipper-org-1" }],
+      });
+      expect(unknown.status).toBe(400);
+
+      const duplicate = await create({
+        ...lane,
+        carriers: [carriers[1], carriers[1]],
+      });
+      expect(duplicate.status).toBe(400);
+    });
+
+    it("ranks carriers in list order, one guide per lane", async () => {
+      const res = await create({ ...lane, carriers });
+      expect(res.status).toBe(201);
+      const { guide } = await parseResponse(res);
+      expect(
+        guide.carriers.map((c: { carrierId: string; rank: number }) => [
+          c.carrierId,
+          c.rank,
+        ])
+      ).toEqual([
+        ["rg-no-truck-org", 1],
+        ["carrier-org-1", 2],
+        ["rg-carrier-org", 3],
+      ]);
+
+      const again = await create({ ...lane, carriers });
+      expect(again.status).toBe(409);
+    });
+  });
+
+  describe("tender waterfall", () => {
+    const loadId = "rg-load-1";
+    const postedAt = new Date();
+
+    beforeAll(async () => {
+      await db.load.create({
+        data: {
+          id: loadId,
+          status: "POSTED",
+          ...lane,
+          truckType: "DRY_VAN",
+          weight: 8000,
+          pickupDate: new Date(Date.now() + 2 * 24 * 60 * MINUTE),
+          shipperId: "shipper-org-1",
+          createdById: "shipper-user-1",
+          postedAt,
+        },
+      });
+    });
+
+    async function eventTypes() {
+      const events = await db.loadEvent.findMany({ where: { loadId } });
+      return events.map((e: { eventType: string }) => e.eventType);
+    }
+
+    async function currentTender() {
+      const load = await db.load.findUnique({ where: { id: loadId } });
+      const requests = await db.truckRequest.findMany({
+        where: { loadId, tenderRank: load!.tenderRank },
+      });
+      return { load: load!, request: requests[requests.length - 1] };
+    }
+
+    it("skips carriers without a truck and tenders the next", async () => {
+      expect(await startTenderWaterfall(loadId, postedAt)).toBe(true);
+
+      const { load, request } = await currentTender();
+      expect(load.status).toBe("OFFERED");
+      expect(load.tenderRank).toBe(2);
+      expect(request).toMatchObject({
+        carrierId: "carrier-org-1",
+        truckId: "test-truck-001",
+        status: "PENDING",
+        expiresAt: new Date(postedAt.getTime() + 60 * MINUTE),
+      });
+      expect(await eventTypes()).toEqual(["TENDER_SKIPPED", "TENDER_OFFERED"]);
+    });
+
+    it("keeps other carriers from requesting the load", async () => {
+      const result = await createLoadRequest(
+        { loadId, truckId: "rg-truck", expiresInHours: 24 },
+        {
+          userId: "carrier-user-1",
+          organizationId: "rg-carrier-org",
+          isAdmin: false,
+        }
+      );
+      expect(result).toMatchObject({ status: 409 });
+    });
+
+    it("tenders the next carrier when one rejects", async () => {
+      const { request } = await currentTender();
+      setAuthSession(carrierSession);
+      const req = createRequest(
+        "POST",
+        `http://localhost:3000/api/truck-requests/${request.id}/respond`,
+        { body: { action: "REJECT" } }
+      );
+      const res = await respondToTruckRequest(req, {
+        params: Promise.resolve({ id: request.id }),
+      });
+      expect(res.status).toBe(200);
+
+      const next = await currentTender();
+      expect(next.load).toMatchObject({ status: "OFFERED", tenderRank: 3 });
+      expect(next.request).toMatchObject({
+        carrierId: "rg-carrier-org",
+        truckId: "rg-truck",
+        status: "PENDING",
+      });
+    });
+
+    it("waits out the tender's response timeout", async () => {
+      const result = await advanceDueTenders(new Date());
+      expect(result.advanced).toBe(0);
+    });
+
+    it("posts the load to the board after the last carrier", async () => {
+      const { request } = await currentTender();
+      const result = await advanceDueTenders(
+        new Date(request.expiresAt.getTime() + MINUTE)
+      );
+      expect(result.advanced).toBe(1);
+
+      const expired = await db.truckRequest.findUnique({
+        where: { id: request.id },
+      });
+      expect(expired!.status).toBe("EXPIRED");
+
+      const load = await db.load.findUnique({ where: { id: loadId } });
+      expect(load).toMatchObject({ status: "POSTED", tenderRank: null });
+      expect(await eventTypes()).toEqual([
+        "TENDER_SKIPPED",
+        "TENDER_OFFERED",
+        "REQUEST_REJECTED",
+        "TENDER_OFFERED",
+        "TENDER_EXPIRED",
+        "TENDER_EXHAUSTED",
+      ]);
+    });
+  });
+
+  it("does not tender loads on a paused guide", async () => {
+    const guide = await db.routingGuide.findFirst({
+      where: { shipperId: "shipper-org-1" },
+    });
+    const req = createRequest(
+      "PATCH",
+      `http://localhost:3000/api/routing-guides/${guide!.id}`,
+      { body: { isActive: false } }
+    );
+    const res = await callHandler(updateGuide, req, { id: guide!.id });
+    expect(res.status).toBe(200);
+
+    await db.load.create({
+      data: {
+        id: "rg-load-2",
+        status: "POSTED",
+        ...lane,
+        truckType: "DRY_VAN",
+        shipperId: "shipper-org-1",
+        createdById: "shipper-user-1",
+      },
+    });
+    expect(await startTenderWaterfall("rg-load-2")).toBe(false);
+  });
+});
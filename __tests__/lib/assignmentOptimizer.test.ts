@@ -0,0 +1,179 @@
+/**
+ * Assignment Optimizer Tests
+ *
+ * Tests for lib/assignmentOptimizer.ts: the assignment solver against the
+ * one-load-at-a-time baseline, and plans built from posted loads and
+ * active truck postings.
+ */
+
+import { db } from "@/lib/db";
+import {
+  buildAssignmentPlan,
+  greedyAssignment,
+  solveAssignment,
+} from "@/lib/assignmentOptimizer";
+
+describe("solveAssignment", () => {
+  it("gives up a load's best truck when that pairs more loads", () => {
+    // Load 0 likes truck 0 best; load 1 can only take truck 0
+    const pairs = [
+      [
+        { value: 90, matchScore: 90 },
+        { value: 80, matchScore: 80 },
+      ],
+      [{ value: 85, matchScore: 85 }, null],
+    ];
+
+    expect(greedyAssignment(pairs)).toEqual([0, -1]);
+    expect(
+      solveAssignment(pairs.map((row) => row.map((p) => p?.value ?? null)))
+    ).toEqual([1, 0]);
+  });
+
+  it("maximises the total value, not each row's value", () => {
+    expect(
+      solveAssignment([
+        [10, 9, 1],
+        [9, 1, 1],
+        [1, 9, 5],
+      ])
+    ).toEqual([1, 0, 2]);
+  });
+
+  it("leaves rows unassigned when there are more rows than columns", () => {
+    expect(solveAssignment([[50], [70], [60]])).toEqual([-1, 0, -1]);
+  });
+
+  it("never picks infeasible pairs", () => {
+    expect(
+      solveAssignment([
+        [null, null],
+        [null, 40],
+      ])
+    ).toEqual([-1, 1]);
+    expect(solveAssignment([])).toEqual([]);
+  });
+});
+
+describe("buildAssignmentPlan", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const pickupDate = new Date(Date.now() + 2 * DAY);
+
+  beforeAll(async () => {
+    const cities = [
+      {
+        id: "opt-addis",
+        name: "Addis Ababa",
+        latitude: 9.03,
+        longitude: 38.74,
+      },
+      { id: "opt-adama", name: "Adama", latitude: 8.54, longitude: 39.27 },
+      { id: "opt-mojo", name: "Mojo", latitude: 8.59, longitude: 39.12 },
+    ];
+    for (const city of cities) {
+      await db.ethiopianLocation.create({
+        data: { ...city, region: "Oromia", isActive: true },
+      });
+    }
+
+    await db.organization.create({
+      data: {
+        id: "opt-carrier",
+        name: "Optimal Haulage",
+        type: "CARRIER_COMPANY",
+        isFlagged: false,
+        isVerified: true,
+        totalLoadsCompleted: 0,
+        totalLoadsCancelled: 0,
+      },
+    });
+
+    const load = {
+      status: "POSTED",
+      assignedTruckId: null,
+      shipperId: "opt-shipper",
+      pickupCity: "Addis Ababa",
+      pickupLocationId: "opt-addis",
+      deliveryCity: "Adama",
+      deliveryLocationId: "opt-adama",
+      truckType: "DRY_VAN",
+      isInsured: false,
+    };
+    await db.load.create({
+      data: { ...load, id: "opt-load-light", pickupDate, weight: 8000 },
+    });
+    // Only the local truck can carry this one
+    await db.load.create({
+      data: {
+        ...load,
+        id: "opt-load-heavy",
+        pickupDate: new Date(pickupDate.getTime() + DAY),
+        weight: 14000,
+      },
+    });
+
+    const trucks = [
+      { id: "opt-truck-local", city: "opt-addis", maxWeight: 15000 },
+      { id: "opt-truck-mojo", city: "opt-mojo", maxWeight: 10000 },
+    ];
+    for (const truck of trucks) {
+      await db.truck.create({
+        data: {
+          id: truck.id,
+          carrierId: "opt-carrier",
+          truckType: "DRY_VAN",
+          licensePlate: truck.id.toUpperCase(),
+          capacity: truck.maxWeight,
+          approvalStatus: "APPROVED",
+          isAvailable: true,
+          insuranceStatus: "VALID",
+        },
+      });
+      await db.truckPosting.create({
+        data: {
+          id: `${truck.id}-posting`,
+          truckId: truck.id,
+          carrierId: "opt-carrier",
+          originCityId: truck.city,
+          availableFrom: new Date(),
+          availableTo: null,
+          availableWeight: truck.maxWeight,
+          fullPartial: "FULL",
+          status: "ACTIVE",
+        },
+      });
+    }
+  });
+
+  it("pairs every load the greedy order would leave behind", async () => {
+    const plan = await buildAssignmentPlan({
+      from: new Date(),
+      to: new Date(Date.now() + 7 * DAY),
+      minScore: 50,
+    });
+
+    expect(plan.loadCount).toBe(2);
+    expect(plan.truckCount).toBe(2);
+    expect(plan.assignments.map((a) => [a.loadId, a.truckId]).sort()).toEqual([
+      ["opt-load-heavy", "opt-truck-local"],
+      ["opt-load-light", "opt-truck-mojo"],
+    ]);
+    expect(plan.unassignedLoadIds).toEqual([]);
+    expect(plan.summary.assignedLoads).toBe(2);
+    expect(plan.greedySummary.assignedLoads).toBe(1);
+
+    const mojo = plan.assignments.find((a) => a.truckId === "opt-truck-mojo");
+    expect(mojo?.deadheadKm).toBeGreaterThan(50);
+    expect(mojo?.carrierName).toBe("Optimal Haulage");
+  });
+
+  it("only plans loads picking up in the window", async () => {
+    const plan = await buildAssignmentPlan({
+      from: new Date(pickupDate.getTime() + DAY / 2),
+      to: new Date(Date.now() + 7 * DAY),
+      minScore: 50,
+    });
+
+    expect(plan.assignments.map((a) => a.loadId)).toEqual(["opt-load-heavy"]);
+  });
+});
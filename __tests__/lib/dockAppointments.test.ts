@@ -0,0 +1,170 @@
+/**
+ * Dock Appointment Slot Tests
+ *
+ * Tests for lib/dockAppointments.ts slot generation and for
+ * checkLatePickup (lib/exceptionDetection.ts) measuring lateness against a
+ * booked pickup appointment.
+ */
+
+import { db } from "@/lib/db";
+import {
+  findFacilitySlot,
+  getFacilitySlots,
+  toFacilityDay,
+  validateFacilityHours,
+} from "@/lib/dockAppointments";
+import { checkLatePickup } from "@/lib/exceptionDetection";
+
+const HOUR = 60 * 60 * 1000;
+
+// Mon–Sat, 08:00–12:00 East Africa Time, one-hour slots
+const facility = {
+  openTime: "08:00",
+  closeTime: "12:00",
+  slotMinutes: 60,
+  operatingDays: [1, 2, 3, 4, 5, 6],
+  utcOffsetMinutes: 180,
+};
+
+describe("dock appointment slots", () => {
+  it("splits opening hours into slots stored in UTC", () => {
+    // 2026-11-02 is a Monday
+    const slots = getFacilitySlots(facility, "2026-11-02");
+
+    expect(slots).toHaveLength(4);
+    expect(slots[0].startTime.toISOString()).toBe("2026-11-02T05:00:00.000Z");
+    expect(slots[3].endTime.toISOString()).toBe("2026-11-02T09:00:00.000Z");
+  });
+
+  it("drops a trailing partial slot", () => {
+    const slots = getFacilitySlots(
+      { ...facility, slotMinutes: 90 },
+      "2026-11-02"
+    );
+    expect(slots.map((slot) => slot.startTime.toISOString())).toEqual([
+      "2026-11-02T05:00:00.000Z",
+      "2026-11-02T06:30:00.000Z",
+    ]);
+  });
+
+  it("has no slots on closed days or invalid dates", () => {
+    // 2026-11-01 is a Sunday
+    expect(getFacilitySlots(facility, "2026-11-01")).toEqual([]);
+    expect(getFacilitySlots(facility, "not-a-date")).toEqual([]);
+  });
+
+  it("uses the facility local date near midnight UTC", () => {
+    // 22:30 UTC Sunday is 01:30 Monday in Addis Ababa
+    expect(toFacilityDay(new Date("2026-11-01T22:30:00Z"), 180)).toBe(
+      "2026-11-02"
+    );
+  });
+
+  it("only accepts exact slot starts", () => {
+    expect(
+      findFacilitySlot(facility, new Date("2026-11-02T06:00:00Z"))
+    ).toEqual({
+      startTime: new Date("2026-11-02T06:00:00Z"),
+      endTime: new Date("2026-11-02T07:00:00Z"),
+    });
+    expect(
+      findFacilitySlot(facility, new Date("2026-11-02T06:15:00Z"))
+    ).toBeNull();
+    expect(
+      findFacilitySlot(facility, new Date("2026-11-02T09:00:00Z"))
+    ).toBeNull();
+  });
+
+  it("validates opening hours", () => {
+    expect(validateFacilityHours(facility)).toBeNull();
+    expect(validateFacilityHours({ ...facility, closeTime: "07:00" })).toMatch(
+      /after opening/
+    );
+    expect(validateFacilityHours({ ...facility, closeTime: "08:30" })).toMatch(
+      /at least one slot/
+    );
+  });
+});
+
+describe("checkLatePickup with dock appointments", () => {
+  async function createAssignedLoad(id: string, pickupDate: Date) {
+    await db.load.create({
+      data: {
+        id,
+        status: "ASSIGNED",
+        pickupDate,
+        deliveryDate: new Date(pickupDate.getTime() + 24 * HOUR),
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        shipperId: "shipper-org-1",
+      },
+    });
+  }
+
+  async function bookPickup(loadId: string, startTime: Date) {
+    await db.dockAppointment.create({
+      data: {
+        loadId,
+        facilityId: "facility-1",
+        stopType: "PICKUP",
+        startTime,
+        endTime: new Date(startTime.getTime() + HOUR),
+        carrierId: "carrier-org-1",
+        bookedById: "carrier-user-1",
+      },
+    });
+  }
+
+  it("falls back to the pickup date without an appointment", async () => {
+    await createAssignedLoad("late-no-appt", new Date(Date.now() - 3 * HOUR));
+
+    const rule = await checkLatePickup("late-no-appt");
+    expect(rule).toMatchObject({ type: "LATE_PICKUP", priority: "MEDIUM" });
+    expect(rule?.title).toBe("Pickup is 3 hours late");
+  });
+
+  it("is not late before the booked slot ends, whatever the pickup date", async () => {
+    await createAssignedLoad(
+      "late-future-appt",
+      new Date(Date.now() - 72 * HOUR)
+    );
+    await bookPickup("late-future-appt", new Date(Date.now() - 30 * 60 * 1000));
+
+    expect(await checkLatePickup("late-future-appt")).toBeNull();
+  });
+
+  it("is late once the booked slot has passed", async () => {
+    await createAssignedLoad(
+      "late-missed-appt",
+      new Date(Date.now() + 24 * HOUR)
+    );
+    await bookPickup("late-missed-appt", new Date(Date.now() - 90 * 60 * 1000));
+
+    const rule = await checkLatePickup("late-missed-appt");
+    expect(rule).toMatchObject({ type: "LATE_PICKUP", priority: "MEDIUM" });
+    expect(rule?.title).toBe("Pickup is 1 hour late for dock appointment");
+  });
+
+  it("ignores cancelled appointments", async () => {
+    await createAssignedLoad(
+      "late-cancelled-appt",
+      new Date(Date.now() - 3 * HOUR)
+    );
+    await db.dockAppointment.create({
+      data: {
+        loadId: "late-cancelled-appt",
+        facilityId: "facility-1",
+        stopType: "PICKUP",
+        status: "CANCELLED",
+        startTime: new Date(Date.now() + HOUR),
+        endTime: new Date(Date.now() + 2 * HOUR),
+        carrierId: "carrier-org-1",
+        bookedById: "carrier-user-1",
+      },
+    });
+
+    expect((await checkLatePickup("late-cancelled-appt"))?.title).toBe(
+      "Pickup is 3 hours late"
+    );
+  });
+});
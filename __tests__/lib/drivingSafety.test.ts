@@ -0,0 +1,363 @@
+/**
+ * Driving Safety Tests
+ *
+ * Tests for lib/drivingSafety.ts: speed limits by road class, speeding,
+ * harsh acceleration/braking and long driving detected from trip GPS
+ * samples, ON_SAFETY_EVENT automation rules, and the driver and carrier
+ * scorecards.
+ */
+
+import { db } from "@/lib/db";
+import { executeAndRecordRuleActions } from "@/lib/automationActions";
+import {
+  analyzeDrivingSample,
+  analyzeDrivingSamples,
+  getCarrierScorecard,
+  getDriverScorecard,
+  getSpeedLimit,
+  scoreSafetyEvents,
+} from "@/lib/drivingSafety";
+
+jest.mock("@/lib/automationActions", () => ({
+  executeAndRecordRuleActions: jest.fn(async () => ({})),
+}));
+
+const MINUTE = 60 * 1000;
+
+const ADDIS = { latitude: 9.03, longitude: 38.74 };
+// Open road between Addis Ababa and Adama, outside every zone
+const OPEN_ROAD = { latitude: 8.8, longitude: 39.0 };
+
+// A day ago, so the scorecards' 30-day window covers every sample
+const t0 = new Date(Date.now() - 24 * 60 * MINUTE);
+const at = (minutes: number) => new Date(t0.getTime() + minutes * MINUTE);
+const atSeconds = (seconds: number) => new Date(t0.getTime() + seconds * 1000);
+
+async function createTrip(id: string, loadId: string) {
+  await db.load.create({
+    data: {
+      id: loadId,
+      status: "IN_TRANSIT",
+      pickupCity: "Addis Ababa",
+      deliveryCity: "Adama",
+      truckType: "DRY_VAN",
+      shipperId: "ds-shipper",
+    },
+  });
+  await db.trip.create({
+    data: {
+      id,
+      status: "IN_TRANSIT",
+      loadId,
+      truckId: "ds-truck",
+      carrierId: "ds-carrier",
+      shipperId: "ds-shipper",
+      driverId: "ds-driver",
+      startedAt: t0,
+      actualDistanceKm: 200,
+    },
+  });
+}
+
+function events(tripId: string) {
+  return db.safetyEvent.findMany({ where: { tripId } });
+}
+
+describe("driving safety", () => {
+  beforeAll(async () => {
+    await db.systemSettings.create({
+      data: {
+        id: "system",
+        speedLimitUrbanKmh: 40,
+        speedLimitRuralKmh: 70,
+        speedLimitExpresswayKmh: 80,
+        lastModifiedBy: "admin-1",
+      },
+    });
+    await db.speedLimitZone.create({
+      data: {
+        name: "Addis Ababa city",
+        roadClass: "URBAN",
+        latitude: ADDIS.latitude,
+        longitude: ADDIS.longitude,
+        radiusKm: 15,
+      },
+    });
+    await db.speedLimitZone.create({
+      data: {
+        name: "Bole school zone",
+        roadClass: "URBAN",
+        limitKmh: 30,
+        latitude: 9.0,
+        longitude: 38.78,
+        radiusKm: 1,
+      },
+    });
+    await db.user.create({
+      data: {
+        id: "ds-driver",
+        email: "ds-driver@test.com",
+        firstName: "Abebe",
+        lastName: "Kebede",
+        role: "DRIVER",
+        status: "ACTIVE",
+        organizationId: "ds-carrier",
+      },
+    });
+    await db.automationRule.create({
+      data: {
+        id: "ds-unsafe-driving",
+        name: "Unsafe Driving Detection",
+        ruleType: "SAFETY_BASED",
+        trigger: "ON_SAFETY_EVENT",
+        conditions: { safetySeverities: ["SEVERE"], safetyWindowHours: 24 },
+        actions: [
+          {
+            type: "CREATE_ESCALATION",
+            escalationType: "UNSAFE_DRIVING",
+            priority: "HIGH",
+          },
+        ],
+        createdBy: "admin-1",
+      },
+    });
+  });
+
+  describe("getSpeedLimit", () => {
+    it("uses the RURAL limit outside every zone", async () => {
+      await expect(
+        getSpeedLimit(OPEN_ROAD.latitude, OPEN_ROAD.longitude)
+      ).resolves.toEqual({ roadClass: "RURAL", limitKmh: 70 });
+    });
+
+    it("uses the zone's road class limit", async () => {
+      await expect(
+        getSpeedLimit(ADDIS.latitude, ADDIS.longitude)
+      ).resolves.toEqual({ roadClass: "URBAN", limitKmh: 40 });
+    });
+
+    it("prefers the smallest zone and its own limit", async () => {
+      await expect(getSpeedLimit(9.0, 38.78)).resolves.toEqual({
+        roadClass: "URBAN",
+        limitKmh: 30,
+      });
+    });
+  });
+
+  describe("speeding", () => {
+    beforeAll(() => createTrip("ds-trip-speed", "ds-load-speed"));
+
+    it("ignores speeds within the tolerance", async () => {
+      await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 74,
+        timestamp: at(0),
+      });
+      expect(await events("ds-trip-speed")).toHaveLength(0);
+    });
+
+    it("merges consecutive speeding samples into one event", async () => {
+      await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 80,
+        timestamp: at(1),
+      });
+      await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 90,
+        timestamp: at(2),
+      });
+
+      const [event] = await events("ds-trip-speed");
+      expect(event).toMatchObject({
+        type: "SPEEDING",
+        severity: "MODERATE",
+        roadClass: "RURAL",
+        driverId: "ds-driver",
+        carrierId: "ds-carrier",
+        loadId: "ds-load-speed",
+        startedAt: at(1),
+        endedAt: at(2),
+      });
+      expect(Number(event.value)).toBe(90);
+      expect(Number(event.limit)).toBe(70);
+      expect(executeAndRecordRuleActions).not.toHaveBeenCalled();
+    });
+
+    it("runs the safety rules when the event becomes severe", async () => {
+      await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 105,
+        timestamp: at(3),
+      });
+
+      const all = await events("ds-trip-speed");
+      expect(all).toHaveLength(1);
+      expect(all[0].severity).toBe("SEVERE");
+      expect(executeAndRecordRuleActions).toHaveBeenCalledWith(
+        "ds-load-speed",
+        expect.objectContaining({
+          ruleId: "ds-unsafe-driving",
+          matched: true,
+          actionsToExecute: [
+            expect.objectContaining({ escalationType: "UNSAFE_DRIVING" }),
+          ],
+        })
+      );
+    });
+
+    it("starts a new event after the truck slows down", async () => {
+      await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 60,
+        timestamp: at(4),
+      });
+      await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 82,
+        timestamp: at(5),
+      });
+      expect(await events("ds-trip-speed")).toHaveLength(2);
+    });
+
+    it("ignores samples older than the last one", async () => {
+      const result = await analyzeDrivingSample("ds-trip-speed", {
+        ...OPEN_ROAD,
+        speed: 120,
+        timestamp: at(1),
+      });
+      expect(result).toEqual([]);
+      expect(await events("ds-trip-speed")).toHaveLength(2);
+    });
+  });
+
+  describe("harsh acceleration and braking", () => {
+    beforeAll(() => createTrip("ds-trip-harsh", "ds-load-harsh"));
+
+    it("detects harsh braking and acceleration between close samples", async () => {
+      await analyzeDrivingSamples("ds-trip-harsh", [
+        { ...OPEN_ROAD, speed: 0, timestamp: atSeconds(15) },
+        { ...OPEN_ROAD, speed: 70, timestamp: atSeconds(10) },
+        { ...OPEN_ROAD, speed: 0, timestamp: atSeconds(5) },
+        { ...OPEN_ROAD, speed: 70, timestamp: atSeconds(0) },
+      ]);
+
+      const harsh = await events("ds-trip-harsh");
+      expect(harsh.map((e: { type: string }) => e.type).sort()).toEqual([
+        "HARSH_ACCELERATION",
+        "HARSH_BRAKING",
+        "HARSH_BRAKING",
+      ]);
+      const acceleration = harsh.find(
+        (e: { type: string }) => e.type === "HARSH_ACCELERATION"
+      );
+      // 0 → 70 km/h in 5 s = 3.89 m/s²
+      expect(Number(acceleration.value)).toBeCloseTo(3.89, 2);
+      expect(acceleration.severity).toBe("MODERATE");
+    });
+
+    it("ignores speed changes between samples far apart", async () => {
+      await analyzeDrivingSample("ds-trip-harsh", {
+        ...OPEN_ROAD,
+        speed: 65,
+        timestamp: atSeconds(75),
+      });
+      expect(await events("ds-trip-harsh")).toHaveLength(3);
+    });
+  });
+
+  describe("long driving", () => {
+    beforeAll(() => createTrip("ds-trip-long", "ds-load-long"));
+
+    async function drive(fromMinute: number, toMinute: number, speed = 60) {
+      for (let minute = fromMinute; minute <= toMinute; minute += 20) {
+        await analyzeDrivingSample("ds-trip-long", {
+          ...OPEN_ROAD,
+          speed,
+          timestamp: at(minute),
+        });
+      }
+    }
+
+    it("records driving past the limit without rest", async () => {
+      await drive(0, 240);
+      expect(await events("ds-trip-long")).toHaveLength(0);
+
+      await drive(260, 280);
+      const [event] = await events("ds-trip-long");
+      expect(event).toMatchObject({
+        type: "LONG_DRIVING",
+        severity: "MODERATE",
+        startedAt: at(0),
+        endedAt: at(280),
+      });
+      expect(Number(event.value)).toBe(280);
+      expect(Number(event.limit)).toBe(240);
+    });
+
+    it("starts a new stretch after a rest stop", async () => {
+      await drive(300, 340, 0);
+      await drive(360, 400);
+
+      const trip = await db.trip.findUnique({ where: { id: "ds-trip-long" } });
+      expect(trip!.drivingSinceAt).toEqual(at(360));
+      expect(trip!.stoppedSinceAt).toBeNull();
+      expect(await events("ds-trip-long")).toHaveLength(1);
+    });
+  });
+
+  describe("scorecards", () => {
+    it("scores penalty points per 100 km driven", () => {
+      const scorecard = scoreSafetyEvents(
+        [
+          { type: "SPEEDING", severity: "SEVERE" },
+          { type: "HARSH_BRAKING", severity: "MODERATE" },
+          { type: "SPEEDING", severity: "MINOR" },
+        ],
+        700
+      );
+      // 14 points over 700 km = 2 points per 100 km
+      expect(scorecard).toEqual({
+        score: 96,
+        distanceKm: 700,
+        events: 3,
+        severeEvents: 1,
+        byType: {
+          SPEEDING: 2,
+          HARSH_ACCELERATION: 0,
+          HARSH_BRAKING: 1,
+          LONG_DRIVING: 0,
+        },
+      });
+      expect(scoreSafetyEvents([], 0).score).toBe(100);
+    });
+
+    it("rolls up a driver's events", async () => {
+      const { scorecard, recentEvents } = await getDriverScorecard("ds-driver");
+      expect(scorecard).toMatchObject({
+        distanceKm: 600,
+        events: 6,
+        severeEvents: 1,
+        byType: {
+          SPEEDING: 2,
+          HARSH_ACCELERATION: 1,
+          HARSH_BRAKING: 2,
+          LONG_DRIVING: 1,
+        },
+      });
+      expect(recentEvents).toHaveLength(6);
+    });
+
+    it("rolls up the carrier fleet with one row per driver", async () => {
+      const result = await getCarrierScorecard("ds-carrier");
+      expect(result.scorecard.events).toBe(6);
+      expect(result.drivers).toEqual([
+        expect.objectContaining({
+          driverId: "ds-driver",
+          name: "Abebe Kebede",
+          events: 6,
+        }),
+      ]);
+    });
+  });
+});
@@ -7,6 +7,7 @@
 import {
   calculateDistanceKm,
   calculateDistanceMeters,
+  distanceToPathKm,
   haversineDistance,
 } from "@/lib/geo";
 
@@ -130,6 +131,40 @@ describe("lib/geo", () => {
     });
   });
 
+  describe("distanceToPathKm", () => {
+    // Addis Ababa → Adama → Dire Dawa
+    const path: [number, number][] = [
+      [9.03, 38.74],
+      [8.54, 39.27],
+      [9.6, 41.85],
+    ];
+
+    it("should return 0 for a point on the path", () => {
+      expect(distanceToPathKm(8.54, 39.27, path)).toBeCloseTo(0, 5);
+      // Halfway along the first segment
+      expect(distanceToPathKm(8.785, 39.005, path)).toBeLessThan(0.5);
+    });
+
+    it("should measure to the closest segment, not the closest vertex", () => {
+      // ~11km north of the Adama → Dire Dawa segment's midpoint
+      const distance = distanceToPathKm(9.17, 40.56, path);
+      expect(distance).toBeGreaterThan(8);
+      expect(distance).toBeLessThan(12);
+    });
+
+    it("should measure past the ends to the end points", () => {
+      const distance = distanceToPathKm(9.6, 42.0, path);
+      expect(distance).toBeCloseTo(
+        calculateDistanceKm(9.6, 42.0, 9.6, 41.85),
+        5
+      );
+    });
+
+    it("should return Infinity for an empty path", () => {
+      expect(distanceToPathKm(9.0, 38.75, [])).toBe(Infinity);
+    });
+  });
+
   describe("haversineDistance (alias)", () => {
     it("should be an alias for calculateDistanceKm", () => {
       const km = calculateDistanceKm(9.0054, 38.7636, 9.6009, 41.8502);
@@ -0,0 +1,120 @@
+/**
+ * Geospatial Index Tests
+ *
+ * Tests for lib/geoIndex.ts: geohash encoding, the range cover used for
+ * radius searches, and the geohash columns resolved for a new load.
+ */
+
+import { db } from "@/lib/db";
+import { calculateDistanceKm } from "@/lib/geo";
+import {
+  encodeGeohash,
+  geohashOf,
+  geohashRanges,
+  resolveLoadGeohashes,
+  withinRadius,
+} from "@/lib/geoIndex";
+
+const ADDIS = { lat: 9.03, lon: 38.74 };
+
+function inRanges(hash: string, lat: number, lon: number, radiusKm: number) {
+  return (geohashRanges(lat, lon, radiusKm) ?? []).some(
+    (range) => hash >= range.gte && (range.lt === undefined || hash < range.lt)
+  );
+}
+
+describe("encodeGeohash", () => {
+  it("encodes known coordinates", () => {
+    expect(encodeGeohash(57.64911, 10.40744)).toBe("u4pruyd");
+    expect(encodeGeohash(-25.38262, -49.26561, 5)).toBe("6gkzw");
+  });
+
+  it("returns null for missing or invalid coordinates", () => {
+    expect(geohashOf(null, 38.74)).toBeNull();
+    expect(geohashOf(91, 38.74)).toBeNull();
+    expect(geohashOf(ADDIS.lat, ADDIS.lon)).toHaveLength(7);
+  });
+});
+
+describe("geohashRanges", () => {
+  it.each([5, 50, 200, 300])("covers every point within %i km", (radiusKm) => {
+    for (let i = 0; i < 500; i++) {
+      const bearing = Math.random() * 2 * Math.PI;
+      const distanceKm = Math.random() * radiusKm * 0.999;
+      const lat = ADDIS.lat + (distanceKm / 111.32) * Math.cos(bearing);
+      const lon =
+        ADDIS.lon +
+        (distanceKm / (111.32 * Math.cos((lat * Math.PI) / 180))) *
+          Math.sin(bearing);
+      if (calculateDistanceKm(ADDIS.lat, ADDIS.lon, lat, lon) > radiusKm) {
+        continue;
+      }
+      expect(
+        inRanges(encodeGeohash(lat, lon), ADDIS.lat, ADDIS.lon, radiusKm)
+      ).toBe(true);
+    }
+  });
+
+  it("excludes points far outside the radius", () => {
+    // Dire Dawa is about 350 km from Addis Ababa
+    expect(inRanges(encodeGeohash(9.6, 41.85), ADDIS.lat, ADDIS.lon, 50)).toBe(
+      false
+    );
+  });
+
+  it("wraps across the antimeridian", () => {
+    expect(inRanges(encodeGeohash(0, -179.9), 0, 179.9, 50)).toBe(true);
+  });
+
+  it("gives up on radii too large for a cell cover", () => {
+    expect(geohashRanges(ADDIS.lat, ADDIS.lon, 20000)).toBeNull();
+    expect(withinRadius("originGeohash", ADDIS.lat, ADDIS.lon, 20000)).toEqual(
+      {}
+    );
+  });
+
+  it("keeps rows that have no geohash yet", () => {
+    const filter = withinRadius("originGeohash", ADDIS.lat, ADDIS.lon, 100);
+    expect(filter.OR).toContainEqual({ originGeohash: null });
+  });
+});
+
+describe("resolveLoadGeohashes", () => {
+  beforeAll(async () => {
+    await db.ethiopianLocation.create({
+      data: {
+        id: "geo-adama",
+        name: "Adama",
+        latitude: 8.54,
+        longitude: 39.27,
+        region: "Oromia",
+        isActive: true,
+      },
+    });
+  });
+
+  it("prefers coordinates and falls back to the city", async () => {
+    const geohashes = await resolveLoadGeohashes({
+      originLat: ADDIS.lat,
+      originLon: ADDIS.lon,
+      pickupCity: "Adama",
+      deliveryCity: "Adama",
+    });
+
+    expect(geohashes).toEqual({
+      originGeohash: encodeGeohash(ADDIS.lat, ADDIS.lon),
+      destinationGeohash: encodeGeohash(8.54, 39.27),
+    });
+  });
+
+  it("leaves an unknown city without a geohash", async () => {
+    const geohashes = await resolveLoadGeohashes({
+      pickupCity: "Nowhere",
+      deliveryCity: null,
+    });
+    expect(geohashes).toEqual({
+      originGeohash: null,
+      destinationGeohash: null,
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * GPS Filter Tests
+ *
+ * Tests for lib/gpsFilter.ts: rejecting low-accuracy, impossible-speed,
+ * teleporting and duplicate positions, holding parked-truck jitter at the
+ * previous position, and summing Trip.actualDistanceKm from accepted
+ * positions only, through lib/gpsIngestion.ts, on every load consolidated
+ * on the truck.
+ */
+
+import { db } from "@/lib/db";
+import { calculateDistanceKm } from "@/lib/geo";
+import {
+  filterPositions,
+  filterTruckPositions,
+  updateTripDistance,
+} from "@/lib/gpsFilter";
+import { ingestGpsData } from "@/lib/gpsIngestion";
+
+jest.mock("@/lib/routeDeviation", () => ({
+  checkRouteDeviation: jest.fn(async () => null),
+}));
+jest.mock("@/lib/drivingSafety", () => ({
+  analyzeDrivingSample: jest.fn(async () => []),
+}));
+
+const { checkRouteDeviation } = require("@/lib/routeDeviation");
+const { analyzeDrivingSample } = require("@/lib/drivingSafety");
+
+const MINUTE = 60 * 1000;
+const t0 = new Date("2026-06-01T08:00:00Z");
+const at = (minutes: number) => new Date(t0.getTime() + minutes * MINUTE);
+
+// Heading south from Addis Ababa: 0.01° of latitude is about 1.1 km
+const point = (minutes: number, latitude: number, extra = {}) => ({
+  latitude,
+  longitude: 38.74,
+  timestamp: at(minutes),
+  ...extra,
+});
+const km = (from: number, to: number) =>
+  calculateDistanceKm(from, 38.74, to, 38.74);
+
+describe("filterPositions", () => {
+  it("accepts a plausible track, oldest first", () => {
+    const { accepted, rejected } = filterPositions(
+      [point(2, 9.01, { speed: 60 }), point(1, 9.02, { speed: 60 })],
+      [point(0, 9.03)]
+    );
+    expect(rejected).toEqual([]);
+    expect(accepted.map((p) => p.latitude)).toEqual([9.02, 9.01]);
+  });
+
+  it("rejects poor accuracy and impossible reported speeds", () => {
+    const { accepted, rejected } = filterPositions(
+      [
+        point(1, 9.02, { accuracy: 1500 }),
+        point(2, 9.01, { speed: 240 }),
+        point(3, 9.0, { accuracy: 12, speed: 60 }),
+      ],
+      [point(0, 9.03)]
+    );
+    expect(rejected.map((r) => r.reason)).toEqual([
+      "LOW_ACCURACY",
+      "IMPOSSIBLE_SPEED",
+    ]);
+    expect(accepted.map((p) => p.latitude)).toEqual([9.0]);
+  });
+
+  it("rejects a teleport and checks the next point against the last good one", () => {
+    const { accepted, rejected } = filterPositions(
+      [
+        point(1, 9.02, { speed: 60 }),
+        // 55 km away a minute later
+        point(2, 8.52, { speed: 60 }),
+        point(3, 9.0, { speed: 60 }),
+      ],
+      [point(0, 9.03)]
+    );
+    expect(rejected).toEqual([
+      { position: point(2, 8.52, { speed: 60 }), reason: "TELEPORT" },
+    ]);
+    expect(accepted.map((p) => p.latitude)).toEqual([9.02, 9.0]);
+  });
+
+  it("does not compare against positions before the reference window", () => {
+    const { accepted } = filterPositions([point(30, 8.52)], [point(0, 9.03)]);
+    expect(accepted).toHaveLength(1);
+  });
+
+  it("rejects timestamps already stored or earlier in the batch", () => {
+    const { accepted, rejected } = filterPositions(
+      [point(0, 9.03), point(1, 9.02), point(1, 9.02)],
+      [point(0, 9.03)]
+    );
+    expect(rejected.map((r) => r.reason)).toEqual(["DUPLICATE", "DUPLICATE"]);
+    expect(accepted.map((p) => p.timestamp)).toEqual([at(1)]);
+  });
+
+  it("checks late positions against the stored position before them", () => {
+    const { accepted, rejected } = filterPositions(
+      [point(1, 9.02), point(3, 8.52)],
+      [point(0, 9.03), point(2, 9.01), point(4, 8.99)]
+    );
+    expect(accepted.map((p) => p.latitude)).toEqual([9.02]);
+    expect(rejected.map((r) => r.reason)).toEqual(["TELEPORT"]);
+  });
+
+  it("holds parked-truck jitter at the previous position", () => {
+    const { accepted } = filterPositions(
+      [
+        point(1, 9.0301, { speed: 0 }),
+        point(2, 9.0299, { speed: 1 }),
+        // Pulling away
+        point(3, 9.0301, { speed: 20 }),
+      ],
+      [point(0, 9.03)]
+    );
+    expect(accepted.map((p) => p.latitude)).toEqual([9.03, 9.03, 9.0301]);
+  });
+});
+
+describe("GPS filtering at ingestion", () => {
+  beforeAll(async () => {
+    await db.truck.create({
+      data: {
+        id: "gf-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-3-24680",
+        capacity: 20000,
+        carrierId: "gf-carrier",
+      },
+    });
+    await db.gpsDevice.create({
+      data: { id: "gf-device", imei: "356307042441013", truckId: "gf-truck" },
+    });
+    await db.load.create({
+      data: {
+        id: "gf-load",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        shipperId: "gf-shipper",
+        assignedTruckId: "gf-truck",
+        trackingEnabled: true,
+      },
+    });
+    await db.trip.create({
+      data: {
+        id: "gf-trip",
+        status: "IN_TRANSIT",
+        loadId: "gf-load",
+        truckId: "gf-truck",
+        carrierId: "gf-carrier",
+        shipperId: "gf-shipper",
+      },
+    });
+  });
+
+  it("stores accepted positions, keeps rejected ones and sums trip distance", async () => {
+    const track = [
+      point(0, 9.03, { speed: 50 }),
+      point(1, 9.02, { speed: 60 }),
+      point(2, 8.52, { speed: 60 }),
+      point(3, 9.01, { speed: 60, accuracy: 900 }),
+      point(4, 9.0, { speed: 60 }),
+    ];
+    for (const position of track) {
+      await ingestGpsData("356307042441013", position);
+    }
+
+    const stored = await db.gpsPosition.findMany({
+      where: { truckId: "gf-truck" },
+    });
+    expect(
+      stored.map((p: { latitude: unknown }) => Number(p.latitude))
+    ).toEqual([9.03, 9.02, 9.0]);
+    const rejected = await db.gpsRejectedPosition.findMany({
+      where: { truckId: "gf-truck" },
+    });
+    expect(rejected).toEqual([
+      expect.objectContaining({ reason: "TELEPORT", tripId: "gf-trip" }),
+      expect.objectContaining({ reason: "LOW_ACCURACY", loadId: "gf-load" }),
+    ]);
+
+    const trip = await db.trip.findUnique({ where: { id: "gf-trip" } });
+    expect(Number(trip.actualDistanceKm)).toBeCloseTo(km(9.03, 9.0), 6);
+    expect(trip.distanceSampleAt).toEqual(at(4));
+
+    const truck = await db.truck.findUnique({ where: { id: "gf-truck" } });
+    expect(truck.gpsStatus).toBe("ACTIVE");
+  });
+
+  it("filters against the truck's stored positions", async () => {
+    const { accepted, rejected } = await filterTruckPositions("gf-truck", [
+      point(4, 9.0),
+      point(5, 8.99),
+    ]);
+    expect(rejected.map((r) => r.reason)).toEqual(["DUPLICATE"]);
+    expect(accepted.map((p) => p.latitude)).toEqual([8.99]);
+  });
+
+  it("recomputes trip distance when an older position arrives", async () => {
+    await db.trip.update({
+      where: { id: "gf-trip" },
+      data: { actualDistanceKm: 999 },
+    });
+    await updateTripDistance("gf-trip", [point(1, 9.02)]);
+
+    const trip = await db.trip.findUnique({ where: { id: "gf-trip" } });
+    expect(Number(trip.actualDistanceKm)).toBeCloseTo(km(9.03, 9.0), 6);
+    expect(trip.distanceSampleAt).toEqual(at(4));
+  });
+
+  it("records positions on every load consolidated on the truck", async () => {
+    await db.load.create({
+      data: {
+        id: "gf-load-2",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Dire Dawa",
+        truckType: "DRY_VAN",
+        fullPartial: "PARTIAL",
+        shipperId: "gf-shipper-2",
+        assignedTruckId: "gf-truck",
+        trackingEnabled: true,
+      },
+    });
+    await db.trip.create({
+      data: {
+        id: "gf-trip-2",
+        status: "IN_TRANSIT",
+        loadId: "gf-load-2",
+        truckId: "gf-truck",
+        carrierId: "gf-carrier",
+        shipperId: "gf-shipper-2",
+      },
+    });
+
+    await ingestGpsData("356307042441013", point(6, 8.98, { speed: 60 }));
+
+    const stored = await db.gpsPosition.findMany({
+      where: { truckId: "gf-truck" },
+    });
+    expect(
+      stored
+        .filter((p: { timestamp: Date }) => p.timestamp.getTime() === +at(6))
+        .map((p: { tripId: string }) => p.tripId)
+        .sort()
+    ).toEqual(["gf-trip", "gf-trip-2"]);
+    const second = await db.trip.findUnique({ where: { id: "gf-trip-2" } });
+    expect(second.distanceSampleAt).toEqual(at(6));
+    expect(checkRouteDeviation).toHaveBeenCalledWith(
+      "gf-trip-2",
+      8.98,
+      38.74,
+      at(6)
+    );
+    expect(analyzeDrivingSample).toHaveBeenCalledWith(
+      "gf-trip-2",
+      expect.objectContaining({ speed: 60 })
+    );
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * GT06 Protocol Tests
+ *
+ * Tests for lib/gpsProtocols/gt06.ts (Concox GT06 framing, CRC-ITU and
+ * decoding) and the lib/gpsTcpServer.ts GT06 listener, replaying captured
+ * tracker frames over TCP: logins, heartbeats, locations and alarms that
+ * raise escalations (lib/gpsDeviceAlarms.ts).
+ */
+
+import net from "net";
+import { db } from "@/lib/db";
+import { encodeGt06Packet, gt06Decoder } from "@/lib/gpsProtocols/gt06";
+import { GpsProtocolError } from "@/lib/gpsProtocols/types";
+import { createGpsTcpServer } from "@/lib/gpsTcpServer";
+import {
+  createNotificationForRole,
+  notifyOrganization,
+} from "@/lib/notifications";
+import {
+  closeServer,
+  listenOnFreePort,
+  openReplaySession,
+} from "../utils/gpsReplay";
+
+jest.mock("@/lib/notifications", () => ({
+  ...jest.requireActual("@/lib/notifications"),
+  createNotificationForRole: jest.fn(async () => undefined),
+  notifyOrganization: jest.fn(async () => undefined),
+}));
+
+// Login example from the Concox GT06 protocol document and its answer
+const DOC_LOGIN = "78780D01012345678901234500018CDD0D0A";
+const DOC_LOGIN_ACK = "787805010001D9DC0D0A";
+
+// GT06N 868120145233604 on a truck in Addis Ababa
+const LOGIN = "78780D010868120145233604000169700D0A";
+const LOCATION =
+  "78781F121A0601080500CA00F80430042806A037145A027C0112340000AB0002DA540D0A";
+const HEARTBEAT = "78780A1346040400020003A12B0D0A";
+const SOS_ALARM =
+  "787825161A0601080600CA00F7BDE004284CF00014B409027C0112340000AB46040401020004D7330D0A";
+// Main power cut while the tracker had no fix
+const POWER_CUT_ALARM =
+  "787825161A0601080700C0000000000000000000040009027C0112340000AB4604040202000556250D0A";
+// Shock alarm (not escalated) south and west of the equator/meridian
+const SHOCK_ALARM =
+  "787825161A0601080800CA0023280003F34AA00C182D09027C0112340000AB46040403020006A52F0D0A";
+
+const frame = (hex: string) => Buffer.from(hex, "hex");
+describe("GT06 decoding", () => {
+  it("decodes the documented login and answers it", () => {
+    const message = gt06Decoder.decode(frame(DOC_LOGIN));
+    expect(message).toEqual({
+      type: "login",
+      imei: "123456789012345",
+      protocol: 0x01,
+      serial: 1,
+    });
+    expect(gt06Decoder.ack(message, true)).toEqual(frame(DOC_LOGIN_ACK));
+    expect(gt06Decoder.ack(message, false)).toBeNull();
+  });
+
+  it("decodes location packets without answering them", () => {
+    const message = gt06Decoder.decode(frame(LOCATION));
+    expect(message).toEqual({
+      type: "position",
+      positions: [
+        {
+          latitude: 9.03,
+          longitude: 38.74,
+          speed: 55,
+          heading: 90,
+          timestamp: new Date("2026-06-01T08:05:00Z"),
+        },
+      ],
+      protocol: 0x12,
+      serial: 2,
+    });
+    expect(gt06Decoder.ack(message, true)).toBeNull();
+  });
+
+  it("reads the hemisphere from the course/status word", () => {
+    const message = gt06Decoder.decode(frame(SHOCK_ALARM));
+    expect(message).toMatchObject({
+      type: "position",
+      positions: [{ latitude: -1.28, longitude: -36.82, speed: 12 }],
+    });
+  });
+
+  it("decodes SOS and power cut alarms", () => {
+    expect(gt06Decoder.decode(frame(SOS_ALARM))).toMatchObject({
+      type: "alarm",
+      alarm: "SOS",
+      position: { latitude: 9.02, longitude: 38.75 },
+    });
+    expect(gt06Decoder.decode(frame(POWER_CUT_ALARM))).toMatchObject({
+      type: "alarm",
+      alarm: "POWER_CUT",
+      position: null,
+    });
+    expect(gt06Decoder.ack(gt06Decoder.decode(frame(SOS_ALARM)), true)).toEqual(
+      encodeGt06Packet(0x16, 4)
+    );
+  });
+
+  it("answers heartbeats", () => {
+    const message = gt06Decoder.decode(frame(HEARTBEAT));
+    expect(message).toMatchObject({ type: "heartbeat", serial: 3 });
+    expect(gt06Decoder.ack(message, true)).toEqual(encodeGt06Packet(0x13, 3));
+  });
+
+  it("frames short packets and waits for the rest", () => {
+    expect(gt06Decoder.frame(frame(LOCATION + HEARTBEAT))).toBe(36);
+    expect(gt06Decoder.frame(frame(LOCATION).subarray(0, 20))).toBeNull();
+  });
+
+  it("reports a CRC mismatch", () => {
+    const corrupted = frame(LOCATION);
+    corrupted[10] ^= 0xff;
+    expect(gt06Decoder.decode(corrupted)).toMatchObject({
+      type: "invalid",
+      reason: "CRC mismatch",
+    });
+  });
+
+  it("rejects data that is not GT06", () => {
+    expect(() => gt06Decoder.frame(frame("000F3335"))).toThrow(
+      GpsProtocolError
+    );
+  });
+});
+
+describe("GT06 TCP server replay", () => {
+  let server: net.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    await db.truck.create({
+      data: {
+        id: "gt-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-3-54321",
+        capacity: 20000,
+        carrierId: "gt-carrier",
+      },
+    });
+    // The device → truck link is the reverse relation Truck.gpsDevice
+    await db.gpsDevice.create({
+      data: { id: "gt-device", imei: "868120145233604", truckId: "gt-truck" },
+    });
+    await db.load.create({
+      data: {
+        id: "gt-load",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        shipperId: "gt-shipper",
+        assignedTruckId: "gt-truck",
+        trackingEnabled: true,
+      },
+    });
+
+    server = createGpsTcpServer(gt06Decoder);
+    port = await listenOnFreePort(server);
+  });
+
+  afterAll(() => closeServer(server));
+
+  function positions() {
+    return db.gpsPosition.findMany({ where: { deviceId: "gt-device" } });
+  }
+
+  function escalations() {
+    return db.loadEscalation.findMany({ where: { loadId: "gt-load" } });
+  }
+
+  it("drops a connection that sends data before logging in", async () => {
+    const session = await openReplaySession(port);
+    await session.send(LOCATION);
+    await session.closed;
+    expect(await positions()).toHaveLength(0);
+  });
+
+  it("closes the connection for an unknown device without answering", async () => {
+    const session = await openReplaySession(port);
+    await session.send(DOC_LOGIN);
+    await session.closed;
+  });
+
+  it("accepts the login and stores locations", async () => {
+    const session = await openReplaySession(port);
+    await session.send(LOGIN);
+    expect(await session.read(10)).toEqual(encodeGt06Packet(0x01, 1));
+
+    await session.send(LOCATION, 9);
+    // Location packets are not answered; the heartbeat answer orders them
+    await session.send(HEARTBEAT);
+    expect(await session.read(10)).toEqual(encodeGt06Packet(0x13, 3));
+    session.close();
+
+    const [position] = await positions();
+    expect(position).toMatchObject({
+      truckId: "gt-truck",
+      loadId: "gt-load",
+      source: "ELD_HARDWARE",
+      timestamp: new Date("2026-06-01T08:05:00Z"),
+    });
+    expect(Number(position.latitude)).toBe(9.03);
+
+    const truck = await db.truck.findUnique({ where: { id: "gt-truck" } });
+    expect(truck).toMatchObject({ gpsStatus: "ACTIVE", gpsProvider: "Concox" });
+    expect(truck!.gpsLastSeenAt).toBeInstanceOf(Date);
+  });
+
+  it("escalates SOS alarms once per open escalation", async () => {
+    const session = await openReplaySession(port);
+    await session.send(LOGIN);
+    await session.read(10);
+
+    await session.send(SOS_ALARM);
+    expect(await session.read(10)).toEqual(encodeGt06Packet(0x16, 4));
+    await session.send(SOS_ALARM);
+    await session.read(10);
+    session.close();
+
+    const [escalation] = await escalations();
+    expect(escalation).toMatchObject({
+      escalationType: "DEVICE_ALARM",
+      priority: "CRITICAL",
+      status: "OPEN",
+      createdBy: "SYSTEM",
+    });
+    expect(escalation.description).toContain("AA-3-54321");
+    expect(await escalations()).toHaveLength(1);
+    // The resent alarm's position is a duplicate
+    expect(await positions()).toHaveLength(2);
+
+    expect(createNotificationForRole).toHaveBeenCalledWith(
+      expect.objectContaining({ role: "DISPATCHER", type: "DEVICE_ALARM" })
+    );
+    expect(notifyOrganization).toHaveBeenCalledWith(
+      expect.objectContaining({ organizationId: "gt-carrier" })
+    );
+  });
+
+  it("escalates a power cut reported without a fix", async () => {
+    const session = await openReplaySession(port);
+    await session.send(LOGIN + POWER_CUT_ALARM + SHOCK_ALARM);
+    // Login, power cut and shock alarm answers
+    await session.read(30);
+    session.close();
+
+    const powerCut = (await escalations()).find(
+      (e: { priority: string }) => e.priority === "HIGH"
+    );
+    expect(powerCut).toMatchObject({
+      escalationType: "DEVICE_ALARM",
+      title: "Truck tracker lost main power",
+    });
+    // The shock alarm is not escalated, and its position across the
+    // equator two minutes later is filtered out
+    expect(await escalations()).toHaveLength(2);
+    expect(await positions()).toHaveLength(2);
+    expect(
+      await db.gpsRejectedPosition.findMany({ where: { truckId: "gt-truck" } })
+    ).toEqual([
+      expect.objectContaining({ reason: "DUPLICATE" }),
+      expect.objectContaining({ reason: "TELEPORT" }),
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Lane Rate Index Tests
+ *
+ * Tests for lib/laneRateIndex.ts: lane keys, percentiles, rebuilding the
+ * monthly index from booked rates, and the pooled lane summary with trend
+ */
+
+import { db } from "@/lib/db";
+import {
+  getLane,
+  percentile,
+  startOfMonth,
+  rebuildLaneRateIndex,
+  getLaneRateSummary,
+} from "@/lib/laneRateIndex";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+describe("lib/laneRateIndex", () => {
+  describe("getLane", () => {
+    const base = {
+      corridorId: null,
+      pickupCity: "Addis Ababa",
+      deliveryCity: "Djibouti",
+    };
+
+    it("prefers the corridor", () => {
+      expect(
+        getLane({
+          ...base,
+          corridorId: "corr-1",
+          corridor: { originRegion: "Addis Ababa", destinationRegion: "Afar" },
+        })
+      ).toEqual({
+        laneKey: "corridor:corr-1",
+        corridorId: "corr-1",
+        originRegion: "Addis Ababa",
+        destinationRegion: "Afar",
+      });
+    });
+
+    it("falls back to location regions, then cities", () => {
+      expect(
+        getLane({
+          ...base,
+          pickupLocation: { region: "Addis Ababa" },
+          deliveryLocation: { region: "Dire Dawa" },
+        })?.laneKey
+      ).toBe("region:Addis Ababa>Dire Dawa");
+      expect(getLane(base)?.laneKey).toBe("region:Addis Ababa>Djibouti");
+    });
+
+    it("returns null without an origin or destination", () => {
+      expect(getLane({ ...base, deliveryCity: null })).toBeNull();
+    });
+  });
+
+  describe("percentile", () => {
+    it("interpolates between ranks", () => {
+      const sorted = [10, 20, 30, 40, 50];
+      expect(percentile(sorted, 50)).toBe(30);
+      expect(percentile(sorted, 25)).toBe(20);
+      expect(percentile(sorted, 90)).toBe(46);
+      expect(percentile([], 50)).toBe(0);
+    });
+  });
+
+  describe("startOfMonth", () => {
+    it("shifts across year boundaries", () => {
+      expect(startOfMonth(day("2026-01-20"), -2)).toEqual(day("2025-11-01"));
+    });
+  });
+
+  describe("rebuild and summary", () => {
+    const now = day("2026-06-15");
+    const lane = {
+      laneKey: "region:Addis Ababa>Mekelle",
+      corridorId: null,
+      originRegion: "Addis Ababa",
+      destinationRegion: "Mekelle",
+    };
+
+    let seq = 0;
+    async function book(
+      model: "loadRequest" | "truckRequest" | "matchProposal",
+      rate: number,
+      bookedAt: Date,
+      truckType = "DRY_VAN"
+    ) {
+      seq++;
+      const loadId = `lri-load-${seq}`;
+      await db.load.create({
+        data: {
+          id: loadId,
+          shipperId: "shipper-org-1",
+          status: "ASSIGNED",
+          pickupCity: "Addis Ababa",
+          deliveryCity: "Mekelle",
+          truckType,
+          estimatedTripKm: 780,
+        },
+      });
+      const data = { id: `lri-${model}-${seq}`, loadId, respondedAt: bookedAt };
+      if (model === "loadRequest") {
+        await db.loadRequest.create({
+          data: {
+            ...data,
+            status: "APPROVED",
+            proposedRate: rate,
+            confirmedAt: bookedAt,
+          },
+        });
+      } else if (model === "truckRequest") {
+        await db.truckRequest.create({
+          data: { ...data, status: "APPROVED", offeredRate: rate },
+        });
+      } else {
+        await db.matchProposal.create({
+          data: { ...data, status: "ACCEPTED", proposedRate: rate },
+        });
+      }
+    }
+
+    beforeAll(async () => {
+      // Previous period (Jan-Mar): median 40,000
+      for (const rate of [38000, 40000, 42000]) {
+        await book("loadRequest", rate, day("2026-02-10"));
+      }
+      // Recent period (Apr-Jun) from all three booking paths
+      await book("loadRequest", 44000, day("2026-04-05"));
+      await book("loadRequest", 46000, day("2026-04-20"));
+      await book("truckRequest", 48000, day("2026-05-02"));
+      await book("truckRequest", 50000, day("2026-05-18"));
+      await book("matchProposal", 52000, day("2026-06-03"));
+      // Other truck type, not pooled with DRY_VAN
+      await book("matchProposal", 90000, day("2026-06-04"), "REFRIGERATED");
+      // Pending request is not a booking
+      await db.loadRequest.create({
+        data: {
+          id: "lri-pending",
+          loadId: "lri-load-1",
+          status: "PENDING",
+          proposedRate: 10000,
+        },
+      });
+    });
+
+    it("aggregates booked rates per lane, truck type and month", async () => {
+      const result = await rebuildLaneRateIndex(now);
+      expect(result).toEqual({ rowCount: 5, sampleCount: 9 });
+
+      const rows = await db.laneRateIndex.findMany({
+        where: { laneKey: lane.laneKey, truckType: "DRY_VAN" },
+      });
+      const february = rows.find(
+        (r: { month: Date }) =>
+          r.month.getTime() === day("2026-02-01").getTime()
+      );
+      expect(february).toMatchObject({
+        sampleSize: 3,
+        p50: 40000,
+        p10: 38400,
+        mean: 40000,
+        medianRatePerKm: 51.28,
+      });
+    });
+
+    it("replaces previous rows on rebuild", async () => {
+      await rebuildLaneRateIndex(now);
+      expect(await db.laneRateIndex.count({})).toBe(5);
+    });
+
+    it("pools recent months and reports the trend", async () => {
+      const summary = await getLaneRateSummary(lane, "DRY_VAN", now);
+
+      expect(summary).toMatchObject({
+        sampleSize: 5,
+        lookbackMonths: 3,
+        // Sample-weighted monthly medians: (45k×2 + 49k×2 + 52k) / 5
+        p50: 48000,
+        trend: { direction: "UP", changePct: 20 },
+      });
+      expect(summary?.history).toHaveLength(4);
+    });
+
+    it("returns null when the lane is too thin", async () => {
+      expect(await getLaneRateSummary(lane, "REFRIGERATED", now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Load Auction Tests
+ *
+ * Tests for lib/loadAuctions.ts pure helpers (auction settings, open check,
+ * bid sheet ranking)
+ */
+
+import {
+  validateAuctionSettings,
+  isAuctionOpen,
+  rankBids,
+} from "@/lib/loadAuctions";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("lib/loadAuctions", () => {
+  describe("validateAuctionSettings", () => {
+    const pickupDate = new Date(Date.now() + 72 * HOUR).toISOString();
+
+    it("ignores non-auction loads", () => {
+      expect(validateAuctionSettings({ bookMode: "REQUEST" })).toBeNull();
+    });
+
+    it("accepts a future deadline before pickup", () => {
+      expect(
+        validateAuctionSettings({
+          bookMode: "AUCTION",
+          bidDeadline: new Date(Date.now() + 24 * HOUR).toISOString(),
+          pickupDate,
+        })
+      ).toBeNull();
+    });
+
+    it("requires a deadline", () => {
+      expect(validateAuctionSettings({ bookMode: "AUCTION" })).toMatch(
+        /require/
+      );
+    });
+
+    it("rejects a deadline in the past", () => {
+      expect(
+        validateAuctionSettings({
+          bookMode: "AUCTION",
+          bidDeadline: new Date(Date.now() - HOUR).toISOString(),
+          pickupDate,
+        })
+      ).toMatch(/future/);
+    });
+
+    it("rejects a deadline after pickup", () => {
+      expect(
+        validateAuctionSettings({
+          bookMode: "AUCTION",
+          bidDeadline: new Date(Date.now() + 96 * HOUR).toISOString(),
+          pickupDate,
+        })
+      ).toMatch(/pickup/);
+    });
+  });
+
+  describe("isAuctionOpen", () => {
+    it("is open before the deadline only", () => {
+      const now = new Date();
+      const load = {
+        bookMode: "AUCTION",
+        bidDeadline: new Date(now.getTime() + HOUR),
+      };
+      expect(isAuctionOpen(load, now)).toBe(true);
+      expect(isAuctionOpen(load, new Date(now.getTime() + 2 * HOUR))).toBe(
+        false
+      );
+    });
+
+    it("is never open for non-auction loads", () => {
+      expect(
+        isAuctionOpen({
+          bookMode: "REQUEST",
+          bidDeadline: new Date(Date.now() + HOUR),
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("rankBids", () => {
+    const t0 = new Date("2026-05-01T08:00:00Z");
+    const t1 = new Date("2026-05-01T09:00:00Z");
+
+    it("ranks the lowest amount first", () => {
+      const ranked = rankBids(
+        [
+          { id: "a", amount: 50000, trustScore: 90, updatedAt: t0 },
+          { id: "b", amount: 42000, trustScore: 40, updatedAt: t0 },
+        ],
+        null
+      );
+      expect(ranked.map((b) => [b.id, b.rank])).toEqual([
+        ["b", 1],
+        ["a", 2],
+      ]);
+    });
+
+    it("breaks ties on trust score, then on earliest bid", () => {
+      const ranked = rankBids(
+        [
+          { id: "late", amount: 42000, trustScore: 80, updatedAt: t1 },
+          { id: "low-trust", amount: 42000, trustScore: 50, updatedAt: t0 },
+          { id: "early", amount: 42000, trustScore: 80, updatedAt: t0 },
+        ],
+        null
+      );
+      expect(ranked.map((b) => b.id)).toEqual(["early", "late", "low-trust"]);
+    });
+
+    it("flags bids above the reserve rate", () => {
+      const ranked = rankBids(
+        [
+          { id: "a", amount: 39000, trustScore: 0, updatedAt: t0 },
+          { id: "b", amount: 41000, trustScore: 0, updatedAt: t0 },
+        ],
+        40000
+      );
+      expect(ranked.map((b) => b.withinReserve)).toEqual([true, false]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Load Consolidation Tests
+ *
+ * Tests for lib/loadConsolidation.ts pure helpers (remaining truck capacity,
+ * whether another PARTIAL load fits, keeping the truck on the board)
+ */
+
+import {
+  getRemainingCapacity,
+  checkConsolidationFit,
+  hasConsolidationCapacity,
+  toTruckAssignments,
+  TruckAssignment,
+} from "@/lib/loadConsolidation";
+
+describe("lib/loadConsolidation", () => {
+  const truck = { capacity: 20000, volume: 60 };
+
+  const partialOnBoard: TruckAssignment = {
+    status: "ASSIGNED",
+    tripId: "trip-1",
+    weight: 8000,
+    volume: 20,
+    fullPartial: "PARTIAL",
+  };
+
+  describe("getRemainingCapacity", () => {
+    it("returns the whole truck when it is idle", () => {
+      expect(getRemainingCapacity(truck, [])).toEqual({
+        weightKg: 20000,
+        volumeM3: 60,
+      });
+    });
+
+    it("subtracts the PARTIAL loads already on board", () => {
+      expect(
+        getRemainingCapacity(truck, [
+          partialOnBoard,
+          { ...partialOnBoard, status: "IN_TRANSIT", weight: 5000 },
+        ])
+      ).toEqual({ weightKg: 7000, volumeM3: 20 });
+    });
+
+    it("has no room next to a FULL load", () => {
+      expect(
+        getRemainingCapacity(truck, [
+          { ...partialOnBoard, fullPartial: "FULL" },
+        ])
+      ).toBeNull();
+    });
+
+    it("has no room while a trip is in EXCEPTION", () => {
+      expect(
+        getRemainingCapacity(truck, [
+          partialOnBoard,
+          { ...partialOnBoard, status: "EXCEPTION" },
+        ])
+      ).toBeNull();
+    });
+
+    it("ignores delivered loads but needs one still on board", () => {
+      const delivered = { ...partialOnBoard, status: "DELIVERED" };
+      expect(getRemainingCapacity(truck, [delivered])).toBeNull();
+      expect(getRemainingCapacity(truck, [delivered, partialOnBoard])).toEqual({
+        weightKg: 12000,
+        volumeM3: 40,
+      });
+    });
+
+    it("treats trips without a known status as busy", () => {
+      expect(
+        getRemainingCapacity(truck, toTruckAssignments([{ id: "trip-1" }]))
+      ).toBeNull();
+    });
+  });
+
+  describe("checkConsolidationFit", () => {
+    it("lets a FULL load take an idle truck and fills it", () => {
+      const fit = checkConsolidationFit(truck, [], {
+        weight: 8000,
+        fullPartial: "FULL",
+      });
+      expect(fit).toEqual({
+        ok: true,
+        remaining: { weightKg: 0, volumeM3: 0 },
+      });
+      expect(hasConsolidationCapacity(fit)).toBe(false);
+    });
+
+    it("adds a PARTIAL load that fits and keeps the truck on the board", () => {
+      const fit = checkConsolidationFit(truck, [partialOnBoard], {
+        weight: 6000,
+        volume: 15,
+        fullPartial: "PARTIAL",
+      });
+      expect(fit).toEqual({
+        ok: true,
+        remaining: { weightKg: 6000, volumeM3: 25 },
+      });
+      expect(hasConsolidationCapacity(fit)).toBe(true);
+    });
+
+    it("rejects a FULL load on a truck already carrying a PARTIAL one", () => {
+      expect(
+        checkConsolidationFit(truck, [partialOnBoard], {
+          weight: 1000,
+          fullPartial: "FULL",
+        })
+      ).toEqual({ ok: false, reason: "TRUCK_BUSY" });
+    });
+
+    it("rejects a PARTIAL load heavier than the remaining capacity", () => {
+      expect(
+        checkConsolidationFit(truck, [partialOnBoard], {
+          weight: 12001,
+          fullPartial: "PARTIAL",
+        })
+      ).toEqual({ ok: false, reason: "TRUCK_CAPACITY_EXCEEDED" });
+    });
+
+    it("rejects a PARTIAL load bulkier than the remaining volume", () => {
+      expect(
+        checkConsolidationFit(truck, [partialOnBoard], {
+          weight: 1000,
+          volume: 41,
+          fullPartial: "PARTIAL",
+        })
+      ).toEqual({ ok: false, reason: "TRUCK_CAPACITY_EXCEEDED" });
+    });
+
+    it("takes the truck off the board once almost full", () => {
+      const fit = checkConsolidationFit(truck, [partialOnBoard], {
+        weight: 11800,
+        fullPartial: "PARTIAL",
+      });
+      expect(fit.ok).toBe(true);
+      expect(hasConsolidationCapacity(fit)).toBe(false);
+    });
+  });
+});
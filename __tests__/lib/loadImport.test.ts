@@ -0,0 +1,130 @@
+/**
+ * Load Import Tests
+ *
+ * Tests for lib/spreadsheet.ts (CSV reading) and the pure parts of
+ * lib/loadImport.ts (header mapping, row validation, city resolution)
+ */
+
+import { isCsvFileName, parseCsv } from "@/lib/spreadsheet";
+import {
+  CityIndex,
+  parseLoadImportSheet,
+  validateLoadImportRow,
+} from "@/lib/loadImport";
+
+describe("lib/spreadsheet", () => {
+  describe("parseCsv", () => {
+    it("handles quoted fields, escaped quotes and CRLF", () => {
+      expect(
+        parseCsv('name,notes\r\n"Cement, bagged","say ""hi"""\r\n')
+      ).toEqual([
+        ["name", "notes"],
+        ["Cement, bagged", 'say "hi"'],
+      ]);
+    });
+
+    it("keeps blank rows so line numbers match the file", () => {
+      expect(parseCsv("a,b\n\n1,2\n")).toEqual([["a", "b"], [""], ["1", "2"]]);
+    });
+
+    it("detects semicolon separators and strips the BOM", () => {
+      expect(parseCsv("\uFEFFa;b\n1;2")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+  });
+
+  it("accepts .csv and .txt uploads only", () => {
+    expect(isCsvFileName("Loads.CSV")).toBe(true);
+    expect(isCsvFileName("loads.txt")).toBe(true);
+    expect(isCsvFileName("loads.xlsx")).toBe(false);
+    expect(isCsvFileName("loads.pdf")).toBe(false);
+  });
+});
+
+describe("lib/loadImport", () => {
+  const cities: CityIndex = new Map([
+    ["addis ababa", { name: "Addis Ababa", latitude: 9.03, longitude: 38.74 }],
+    ["addis", { name: "Addis Ababa", latitude: 9.03, longitude: 38.74 }],
+    ["adama", { name: "Adama", latitude: 8.54, longitude: 39.27 }],
+  ]);
+
+  const header = [
+    "Pickup City",
+    "pickup_date",
+    "Destination",
+    "deliveryDate",
+    "Truck Type",
+    "Weight (tonnes)",
+    "Cargo",
+    "Color",
+  ];
+
+  describe("parseLoadImportSheet", () => {
+    it("maps headers by name or alias and reports the rest", () => {
+      const { rows, missingColumns, ignoredColumns } = parseLoadImportSheet([
+        header,
+        ["Addis", "2026-12-01", "Adama", "2026-12-02", "dry_van", "12000"],
+        [""],
+        ["Adama"],
+      ]);
+
+      expect(missingColumns).toEqual(["weight"]);
+      expect(ignoredColumns).toEqual(["Weight (tonnes)", "Color"]);
+      expect(rows.map((row) => row.line)).toEqual([2, 4]);
+      expect(rows[0].values).toMatchObject({
+        pickupCity: "Addis",
+        deliveryCity: "Adama",
+        truckType: "dry_van",
+      });
+    });
+  });
+
+  describe("validateLoadImportRow", () => {
+    const values = {
+      pickupCity: "addis",
+      pickupDate: "2026-12-01",
+      deliveryCity: "Adama",
+      deliveryDate: "2026-12-02",
+      truckType: "dry_van",
+      weight: "12000",
+      cargoDescription: "Bagged cement",
+    };
+
+    it("resolves city aliases and coerces values", () => {
+      const { data, errors } = validateLoadImportRow(
+        { line: 2, values },
+        cities
+      );
+
+      expect(errors).toEqual([]);
+      expect(data).toMatchObject({
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        weight: 12000,
+        originLat: 9.03,
+        destinationLon: 39.27,
+      });
+    });
+
+    it("reports every problem with its field", () => {
+      const { data, errors } = validateLoadImportRow(
+        {
+          line: 3,
+          values: { ...values, deliveryCity: "Atlantis", weight: "heavy" },
+        },
+        cities
+      );
+
+      expect(data).toBeUndefined();
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^weight:/),
+          'deliveryCity: Unknown city "Atlantis"',
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Load Schedule Tests
+ *
+ * Tests for lib/loadSchedules.ts pure helpers (recurrence rule validation,
+ * occurrence dates, building a load from a template)
+ */
+
+import {
+  getOccurrenceDates,
+  isOccurrenceDate,
+  validateScheduleRule,
+  buildLoadFromTemplate,
+  loadTemplateSchema,
+  ScheduleRule,
+} from "@/lib/loadSchedules";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+const isoDays = (dates: Date[]) =>
+  dates.map((d) => d.toISOString().slice(0, 10));
+
+describe("lib/loadSchedules", () => {
+  // 2026-05-04 is a Monday
+  const mondayThursday: ScheduleRule = {
+    frequency: "WEEKLY",
+    interval: 1,
+    daysOfWeek: [1, 4],
+    startDate: day("2026-05-04"),
+    endDate: null,
+  };
+
+  describe("validateScheduleRule", () => {
+    it("accepts a weekly rule with days", () => {
+      expect(validateScheduleRule(mondayThursday)).toBeNull();
+    });
+
+    it("requires days of the week for weekly rules", () => {
+      expect(
+        validateScheduleRule({ ...mondayThursday, daysOfWeek: [] })
+      ).toMatch(/day of the week/);
+    });
+
+    it("rejects an end date before the start date", () => {
+      expect(
+        validateScheduleRule({
+          ...mondayThursday,
+          endDate: day("2026-05-01"),
+        })
+      ).toMatch(/End date/);
+    });
+  });
+
+  describe("getOccurrenceDates", () => {
+    it("returns Mondays and Thursdays in the window", () => {
+      expect(
+        isoDays(
+          getOccurrenceDates(
+            mondayThursday,
+            day("2026-05-01"),
+            day("2026-05-17")
+          )
+        )
+      ).toEqual(["2026-05-04", "2026-05-07", "2026-05-11", "2026-05-14"]);
+    });
+
+    it("repeats every other week with interval 2", () => {
+      expect(
+        isoDays(
+          getOccurrenceDates(
+            { ...mondayThursday, interval: 2 },
+            day("2026-05-04"),
+            day("2026-05-24")
+          )
+        )
+      ).toEqual(["2026-05-04", "2026-05-07", "2026-05-18", "2026-05-21"]);
+    });
+
+    it("repeats every N days for daily rules", () => {
+      expect(
+        isoDays(
+          getOccurrenceDates(
+            {
+              frequency: "DAILY",
+              interval: 3,
+              daysOfWeek: [],
+              startDate: day("2026-05-04"),
+              endDate: null,
+            },
+            day("2026-05-05"),
+            day("2026-05-13")
+          )
+        )
+      ).toEqual(["2026-05-07", "2026-05-10", "2026-05-13"]);
+    });
+
+    it("leaves out skipped dates and stops at the end date", () => {
+      expect(
+        isoDays(
+          getOccurrenceDates(
+            {
+              ...mondayThursday,
+              endDate: day("2026-05-11"),
+              skippedDates: [day("2026-05-07")],
+            },
+            day("2026-05-01"),
+            day("2026-05-31")
+          )
+        )
+      ).toEqual(["2026-05-04", "2026-05-11"]);
+    });
+  });
+
+  describe("isOccurrenceDate", () => {
+    it("ignores skips when checking membership", () => {
+      const rule = { ...mondayThursday, skippedDates: [day("2026-05-07")] };
+      expect(isOccurrenceDate(rule, day("2026-05-07"))).toBe(true);
+      expect(isOccurrenceDate(rule, day("2026-05-08"))).toBe(false);
+    });
+  });
+
+  describe("buildLoadFromTemplate", () => {
+    it("shifts pickup and delivery to the occurrence", () => {
+      const template = loadTemplateSchema.parse({
+        pickupCity: "Adama",
+        deliveryCity: "Djibouti",
+        truckType: "DRY_VAN",
+        weight: 20000,
+        cargoDescription: "Bagged cement",
+        stops: [
+          { stopType: "PICKUP", city: "Adama" },
+          { stopType: "DROPOFF", city: "Djibouti" },
+        ],
+      });
+
+      const input = buildLoadFromTemplate(
+        template,
+        day("2026-05-07"),
+        2,
+        "POSTED"
+      );
+
+      expect(new Date(input.pickupDate)).toEqual(day("2026-05-07"));
+      expect(new Date(input.deliveryDate)).toEqual(day("2026-05-09"));
+      expect(input.status).toBe("POSTED");
+      expect(input.stops).toHaveLength(2);
+    });
+  });
+
+  describe("loadTemplateSchema", () => {
+    it("takes the load create fields without dates, status or auctions", () => {
+      const result = loadTemplateSchema.safeParse({
+        pickupCity: "Adama",
+        deliveryCity: "Djibouti",
+        truckType: "DRY_VAN",
+        weight: 20000,
+        cargoDescription: "Bagged cement",
+        pickupDate: "2026-05-07",
+        status: "POSTED",
+        bookMode: "AUCTION",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.path[0])).toEqual([
+        "bookMode",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Multi-Stop Load Tests
+ *
+ * Tests for lib/loadStops.ts helpers, multi-stop trip progress
+ * (calculateMultiStopProgress in lib/tripProgress.ts) and stop geofence
+ * events (checkGeofenceEvents in lib/gpsTracking.ts)
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { checkGeofenceEvents } from "@/lib/gpsTracking";
+import {
+  loadStopsSchema,
+  validateStopWeights,
+  getNextPendingStop,
+  calculateStopLegsKm,
+  calculateStopRouteKm,
+  buildStopRows,
+  completeFinalStop,
+  StopPoint,
+} from "@/lib/loadStops";
+import { calculateMultiStopProgress } from "@/lib/tripProgress";
+
+// Addis Ababa → Adama → Dire Dawa (roughly on one line, west to east)
+const ADDIS = { latitude: 9.0054, longitude: 38.7636 };
+const ADAMA = { latitude: 8.54, longitude: 39.27 };
+const DIRE_DAWA = { latitude: 9.6009, longitude: 41.8502 };
+
+function stop(
+  sequence: number,
+  coords: { latitude: number; longitude: number },
+  overrides: Partial<StopPoint> = {}
+): StopPoint {
+  return {
+    id: `stop-${sequence}`,
+    sequence,
+    stopType: sequence === 1 ? "PICKUP" : "DROPOFF",
+    arrivedAt: null,
+    departedAt: null,
+    ...coords,
+    ...overrides,
+  };
+}
+
+describe("lib/loadStops", () => {
+  describe("loadStopsSchema", () => {
+    it("accepts PICKUP first and DROPOFF last", () => {
+      const result = loadStopsSchema.safeParse([
+        { stopType: "PICKUP", city: "Addis Ababa" },
+        { stopType: "DROPOFF", city: "Adama" },
+        { stopType: "DROPOFF", city: "Dire Dawa" },
+      ]);
+      expect(result.success).toBe(true);
+    });
+
+    it("rejects a single stop", () => {
+      const result = loadStopsSchema.safeParse([
+        { stopType: "PICKUP", city: "Addis Ababa" },
+      ]);
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects a sequence that does not start with a PICKUP", () => {
+      const result = loadStopsSchema.safeParse([
+        { stopType: "DROPOFF", city: "Adama" },
+        { stopType: "DROPOFF", city: "Dire Dawa" },
+      ]);
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects a sequence that does not end with a DROPOFF", () => {
+      const result = loadStopsSchema.safeParse([
+        { stopType: "PICKUP", city: "Addis Ababa" },
+        { stopType: "PICKUP", city: "Adama" },
+      ]);
+      expect(result.success).toBe(false);
+    });
+
+    it("rejects an appointment window that ends before it starts", () => {
+      const result = loadStopsSchema.safeParse([
+        {
+          stopType: "PICKUP",
+          city: "Addis Ababa",
+          appointmentStart: "2026-05-02T10:00:00Z",
+          appointmentEnd: "2026-05-02T08:00:00Z",
+        },
+        { stopType: "DROPOFF", city: "Adama" },
+      ]);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("validateStopWeights", () => {
+    it("accepts drops that add up to the pickup", () => {
+      expect(
+        validateStopWeights(
+          [
+            { stopType: "PICKUP", weight: 5000 },
+            { stopType: "DROPOFF", weight: 2000 },
+            { stopType: "DROPOFF", weight: 3000 },
+          ],
+          5000
+        )
+      ).toBeNull();
+    });
+
+    it("ignores stops without a weight", () => {
+      expect(
+        validateStopWeights(
+          [{ stopType: "PICKUP" }, { stopType: "DROPOFF" }],
+          5000
+        )
+      ).toBeNull();
+    });
+
+    it("rejects dropping more than is on board", () => {
+      expect(
+        validateStopWeights(
+          [
+            { stopType: "PICKUP", weight: 1000 },
+            { stopType: "DROPOFF", weight: 2000 },
+          ],
+          5000
+        )
+      ).toMatch(/Stop 2/);
+    });
+
+    it("rejects pickups heavier than the load", () => {
+      expect(
+        validateStopWeights(
+          [
+            { stopType: "PICKUP", weight: 4000 },
+            { stopType: "PICKUP", weight: 2000 },
+            { stopType: "DROPOFF", weight: 6000 },
+          ],
+          5000
+        )
+      ).toMatch(/exceeds/);
+    });
+  });
+
+  describe("buildStopRows", () => {
+    it("assigns 1-based sequence in array order", () => {
+      const rows = buildStopRows("load-1", [
+        { stopType: "PICKUP", city: "Addis Ababa" },
+        { stopType: "DROPOFF", city: "Adama", weight: 1200 },
+      ]);
+      expect(rows.map((r) => r.sequence)).toEqual([1, 2]);
+      expect(rows[1]).toMatchObject({
+        loadId: "load-1",
+        city: "Adama",
+        weight: 1200,
+        cityId: null,
+      });
+    });
+  });
+
+  describe("getNextPendingStop", () => {
+    it("returns the first stop not yet departed, in sequence order", () => {
+      const stops = [
+        stop(3, DIRE_DAWA),
+        stop(1, ADDIS, { arrivedAt: new Date(), departedAt: new Date() }),
+        stop(2, ADAMA, { arrivedAt: new Date() }),
+      ];
+      expect(getNextPendingStop(stops)?.sequence).toBe(2);
+    });
+
+    it("returns null when every stop is departed", () => {
+      const done = { arrivedAt: new Date(), departedAt: new Date() };
+      expect(
+        getNextPendingStop([stop(1, ADDIS, done), stop(2, ADAMA, done)])
+      ).toBeNull();
+    });
+  });
+
+  describe("calculateStopLegsKm", () => {
+    it("returns one leg per consecutive pair", () => {
+      const legs = calculateStopLegsKm([
+        stop(1, ADDIS),
+        stop(2, ADAMA),
+        stop(3, DIRE_DAWA),
+      ]);
+      expect(legs).toHaveLength(2);
+      expect(legs[0]).toBeGreaterThan(70);
+      expect(legs[0]).toBeLessThan(90);
+    });
+
+    it("counts legs with missing coordinates as 0", () => {
+      const legs = calculateStopLegsKm([
+        stop(1, ADDIS),
+        { ...stop(2, ADAMA), latitude: null, longitude: null },
+      ]);
+      expect(legs).toEqual([0]);
+    });
+
+    it("route length is the sum of the legs", () => {
+      const stops = [stop(1, ADDIS), stop(2, ADAMA), stop(3, DIRE_DAWA)];
+      const legs = calculateStopLegsKm(stops);
+      expect(calculateStopRouteKm(stops)).toBeCloseTo(legs[0] + legs[1]);
+    });
+  });
+});
+
+describe("calculateMultiStopProgress", () => {
+  const now = new Date();
+
+  it("reports 0% before leaving the first stop", () => {
+    const progress = calculateMultiStopProgress(
+      [stop(1, ADDIS), stop(2, ADAMA), stop(3, DIRE_DAWA)],
+      { ...ADDIS, timestamp: now },
+      0
+    );
+    expect(progress.progressPercent).toBe(0);
+    expect(progress.nextStopSequence).toBe(1);
+    expect(progress.completedStops).toBe(0);
+  });
+
+  it("credits completed legs once the truck is at the second stop", () => {
+    const stops = [
+      stop(1, ADDIS, { arrivedAt: now, departedAt: now }),
+      stop(2, ADAMA),
+      stop(3, DIRE_DAWA),
+    ];
+    const legs = calculateStopLegsKm(stops);
+    const progress = calculateMultiStopProgress(
+      stops,
+      { ...ADAMA, timestamp: now },
+      0
+    );
+    expect(progress.progressPercent).toBe(
+      Math.round((legs[0] / (legs[0] + legs[1])) * 100)
+    );
+    expect(progress.nextStopSequence).toBe(2);
+    expect(progress.isNearDestination).toBe(false);
+  });
+
+  it("scales remaining km to the planned distance", () => {
+    const stops = [
+      stop(1, ADDIS, { arrivedAt: now, departedAt: now }),
+      stop(2, ADAMA, { arrivedAt: now, departedAt: now }),
+      stop(3, DIRE_DAWA),
+    ];
+    const progress = calculateMultiStopProgress(
+      stops,
+      { ...DIRE_DAWA, timestamp: now },
+      500
+    );
+    expect(progress.progressPercent).toBe(100);
+    expect(progress.totalDistanceKm).toBe(500);
+    expect(progress.remainingKm).toBe(0);
+    expect(progress.isNearDestination).toBe(true);
+    expect(progress.enteredDestGeofence).toBe(true);
+    expect(progress.completedStops).toBe(2);
+  });
+});
+
+describe("stop execution", () => {
+  const loadId = "stop-exec-load";
+
+  beforeAll(async () => {
+    await db.truck.create({
+      data: { id: "stop-exec-truck", truckType: "DRY_VAN", capacity: 20000 },
+    });
+    await db.load.create({
+      data: {
+        id: loadId,
+        status: "PICKUP_PENDING",
+        trackingEnabled: true,
+        assignedTruckId: "stop-exec-truck",
+      },
+    });
+    await db.loadStop.createMany({
+      data: [ADDIS, ADAMA, DIRE_DAWA].map((coords, index) => ({
+        id: `stop-exec-${index + 1}`,
+        loadId,
+        sequence: index + 1,
+        stopType: index === 0 ? "PICKUP" : "DROPOFF",
+        city: "City",
+        ...coords,
+      })),
+    });
+  });
+
+  it("reports arrival at the first stop as a pickup arrival", async () => {
+    await db.gpsPosition.create({
+      data: {
+        truckId: "stop-exec-truck",
+        latitude: new Prisma.Decimal(ADDIS.latitude),
+        longitude: new Prisma.Decimal(ADDIS.longitude),
+        timestamp: new Date(),
+      },
+    });
+
+    // Reads report the arrival without recording it
+    const reported = await checkGeofenceEvents(loadId);
+    expect(reported).toEqual([
+      expect.objectContaining({
+        event: "ARRIVED_AT_PICKUP",
+        stopId: "stop-exec-1",
+      }),
+    ]);
+    const unchanged = await db.loadStop.findUnique({
+      where: { id: "stop-exec-1" },
+    });
+    expect(unchanged.arrivedAt).toBeNull();
+
+    const alerts = await checkGeofenceEvents(loadId, { record: true });
+    expect(alerts).toEqual([
+      expect.objectContaining({
+        event: "ARRIVED_AT_PICKUP",
+        stopId: "stop-exec-1",
+        stopSequence: 1,
+      }),
+    ]);
+    const first = await db.loadStop.findUnique({
+      where: { id: "stop-exec-1" },
+    });
+    expect(first.arrivedAt).not.toBeNull();
+  });
+
+  it("closes the final stop on delivery", async () => {
+    const arrivedAt = new Date("2026-06-01T08:00:00Z");
+    const deliveredAt = new Date("2026-06-01T09:00:00Z");
+    await db.loadStop.update({
+      where: { id: "stop-exec-3" },
+      data: { arrivedAt },
+    });
+
+    await completeFinalStop(loadId, deliveredAt);
+    const final = await db.loadStop.findUnique({
+      where: { id: "stop-exec-3" },
+    });
+    expect(final.arrivedAt).toEqual(arrivedAt);
+    expect(final.departedAt).toEqual(deliveredAt);
+
+    // Only the final stop, and only once
+    await completeFinalStop(loadId, new Date());
+    const again = await db.loadStop.findUnique({
+      where: { id: "stop-exec-3" },
+    });
+    expect(again.departedAt).toEqual(deliveredAt);
+    const second = await db.loadStop.findUnique({
+      where: { id: "stop-exec-2" },
+    });
+    expect(second.departedAt).toBeNull();
+  });
+
+  it("records the final stop's arrival when the geofence missed it", async () => {
+    await db.loadStop.update({
+      where: { id: "stop-exec-3" },
+      data: { arrivedAt: null, departedAt: null },
+    });
+    const deliveredAt = new Date("2026-06-02T09:00:00Z");
+
+    await completeFinalStop(loadId, deliveredAt);
+    const final = await db.loadStop.findUnique({
+      where: { id: "stop-exec-3" },
+    });
+    expect(final.arrivedAt).toEqual(deliveredAt);
+    expect(final.departedAt).toEqual(deliveredAt);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Match Index Tests
+ *
+ * Tests for lib/matchIndex.ts: storing load ↔ posting matches when either
+ * side is refreshed, dropping entries when a load or posting closes, and
+ * the cron sweep of stale entries.
+ */
+
+import { db } from "@/lib/db";
+import {
+  MATCH_INDEX_MIN_SCORE,
+  refreshLoadMatches,
+  refreshPostingMatches,
+  refreshTruckMatches,
+  removeStaleMatches,
+} from "@/lib/matchIndex";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function entriesFor(loadId: string) {
+  return db.matchIndexEntry.findMany({ where: { loadId } });
+}
+
+describe("matchIndex", () => {
+  beforeAll(async () => {
+    const cities = [
+      { id: "mi-addis", name: "Addis Ababa", latitude: 9.03, longitude: 38.74 },
+      { id: "mi-adama", name: "Adama", latitude: 8.54, longitude: 39.27 },
+    ];
+    for (const city of cities) {
+      await db.ethiopianLocation.create({
+        data: { ...city, region: "Oromia", isActive: true },
+      });
+    }
+
+    await db.truck.create({
+      data: {
+        id: "mi-truck",
+        carrierId: "mi-carrier",
+        truckType: "DRY_VAN",
+        licensePlate: "MI-1",
+        capacity: 10000,
+        approvalStatus: "APPROVED",
+        isAvailable: true,
+      },
+    });
+    await db.truckPosting.create({
+      data: {
+        id: "mi-posting",
+        truckId: "mi-truck",
+        carrierId: "mi-carrier",
+        originCityId: "mi-addis",
+        destinationCityId: "mi-adama",
+        availableFrom: new Date(),
+        fullPartial: "FULL",
+        status: "ACTIVE",
+      },
+    });
+
+    await db.load.create({
+      data: {
+        id: "mi-load",
+        status: "POSTED",
+        shipperId: "mi-shipper",
+        truckType: "DRY_VAN",
+        weight: 5000,
+        fullPartial: "FULL",
+        pickupCity: "Addis Ababa",
+        pickupLocationId: "mi-addis",
+        deliveryCity: "Adama",
+        deliveryLocationId: "mi-adama",
+        pickupDate: new Date(Date.now() + DAY),
+        deliveryDate: new Date(Date.now() + 2 * DAY),
+      },
+    });
+  });
+
+  it("stores a load's matches with open postings", async () => {
+    expect(await refreshLoadMatches("mi-load")).toBe(1);
+
+    const [entry] = await entriesFor("mi-load");
+    expect(entry).toMatchObject({
+      loadId: "mi-load",
+      truckPostingId: "mi-posting",
+    });
+    expect(entry.score).toBeGreaterThanOrEqual(MATCH_INDEX_MIN_SCORE);
+    expect(entry.dhOriginKm).toBe(0);
+  });
+
+  it("replaces a posting's entries instead of adding duplicates", async () => {
+    const [before] = await entriesFor("mi-load");
+
+    expect(await refreshPostingMatches("mi-posting")).toBe(1);
+    const entries = await entriesFor("mi-load");
+    expect(entries).toHaveLength(1);
+    expect(entries[0].score).toBe(before.score);
+  });
+
+  it("drops the entries of a load that is no longer open", async () => {
+    await db.load.update({
+      where: { id: "mi-load" },
+      data: { status: "ASSIGNED" },
+    });
+
+    expect(await refreshLoadMatches("mi-load")).toBe(0);
+    expect(await entriesFor("mi-load")).toHaveLength(0);
+
+    await db.load.update({
+      where: { id: "mi-load" },
+      data: { status: "POSTED" },
+    });
+    await refreshTruckMatches("mi-truck");
+    expect(await entriesFor("mi-load")).toHaveLength(1);
+  });
+
+  it("sweeps entries of postings that expired without a refresh", async () => {
+    await db.truckPosting.update({
+      where: { id: "mi-posting" },
+      data: { status: "EXPIRED" },
+    });
+
+    expect(await removeStaleMatches()).toEqual({ removedCount: 1 });
+    expect(await entriesFor("mi-load")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Match Reliability Tests
+ *
+ * Tests for lib/matchReliability.ts (carrier trust, insurance and GPS health
+ * rated for a load) and for the in-memory matching engine ranking and
+ * filtering trucks with it.
+ */
+
+import { db } from "@/lib/db";
+import {
+  getTruckReliability,
+  needsCargoCoverage,
+  TruckReliability,
+} from "@/lib/matchReliability";
+import { findMatchingTrucks } from "@/lib/matchingEngine";
+import { DEFAULT_MATCH_WEIGHTS } from "@/lib/matchWeights";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const noHistory = {
+  completionRate: null,
+  cancellationRate: null,
+  disputeRate: null,
+  isVerified: false,
+  totalLoadsCompleted: 0,
+  totalLoadsCancelled: 0,
+  averageRating: null,
+  totalRatings: 0,
+  isFlagged: false,
+};
+
+describe("getTruckReliability", () => {
+  beforeAll(async () => {
+    await db.organization.create({
+      data: {
+        id: "rel-carrier-proven",
+        name: "Proven Haulage",
+        type: "CARRIER_COMPANY",
+        ...noHistory,
+        completionRate: 90,
+        cancellationRate: 10,
+        disputeRate: 0,
+        isVerified: true,
+        totalLoadsCompleted: 18,
+        totalLoadsCancelled: 2,
+        averageRating: 4.5,
+        totalRatings: 10,
+      },
+    });
+    await db.organization.create({
+      data: {
+        id: "rel-carrier-new",
+        name: "New Haulage",
+        type: "CARRIER_COMPANY",
+        ...noHistory,
+      },
+    });
+    await db.organization.create({
+      data: {
+        id: "rel-carrier-flagged",
+        name: "Flagged Haulage",
+        type: "CARRIER_COMPANY",
+        ...noHistory,
+        isFlagged: true,
+      },
+    });
+
+    // Cargo policy on one truck, liability only on the other
+    await db.truckDocument.create({
+      data: {
+        truckId: "rel-truck-cargo",
+        type: "INSURANCE",
+        verificationStatus: "APPROVED",
+        coverageType: "CARGO",
+        coverageAmount: 2_000_000,
+        expiresAt: new Date(Date.now() + 90 * DAY),
+        deletedAt: null,
+      },
+    });
+    await db.truckDocument.create({
+      data: {
+        truckId: "rel-truck-liability",
+        type: "INSURANCE",
+        verificationStatus: "APPROVED",
+        coverageType: "LIABILITY",
+        coverageAmount: 2_000_000,
+        expiresAt: new Date(Date.now() + 90 * DAY),
+        deletedAt: null,
+      },
+    });
+  });
+
+  const healthyTruck = {
+    insuranceStatus: "VALID",
+    gpsStatus: "ACTIVE" as const,
+    gpsLastSeenAt: new Date(),
+  };
+
+  it("combines trust, insurance and GPS health", async () => {
+    const reliability = await getTruckReliability([
+      {
+        truckId: "rel-truck-cargo",
+        carrierId: "rel-carrier-proven",
+        ...healthyTruck,
+      },
+      {
+        truckId: "rel-truck-new",
+        carrierId: "rel-carrier-new",
+        insuranceStatus: "MISSING",
+        gpsStatus: null,
+        gpsLastSeenAt: null,
+      },
+    ]);
+
+    // Trust 92.5 * 50% + insurance 100 * 30% + GPS 100 * 20%
+    expect(reliability.get("rel-truck-cargo")).toEqual({
+      score: 96,
+      trustScore: 92.5,
+      flagged: false,
+      insured: true,
+      gpsActive: true,
+      cargoCoverage: null,
+    });
+    // Neutral trust for a carrier with no loads yet, nothing else
+    expect(reliability.get("rel-truck-new")).toMatchObject({
+      score: 25,
+      trustScore: 50,
+      insured: false,
+      gpsActive: false,
+    });
+  });
+
+  it("rates flagged carriers 0", async () => {
+    const reliability = await getTruckReliability([
+      {
+        truckId: "rel-truck-flagged",
+        carrierId: "rel-carrier-flagged",
+        ...healthyTruck,
+      },
+    ]);
+    expect(reliability.get("rel-truck-flagged")).toMatchObject({
+      score: 0,
+      flagged: true,
+    });
+  });
+
+  it("treats GPS as inactive once the device goes quiet", async () => {
+    const reliability = await getTruckReliability([
+      {
+        truckId: "rel-truck-quiet",
+        carrierId: "rel-carrier-proven",
+        ...healthyTruck,
+        gpsLastSeenAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      },
+    ]);
+    expect(reliability.get("rel-truck-quiet")).toMatchObject({
+      score: 82,
+      gpsActive: false,
+    });
+  });
+
+  it("prefers trucks with cargo cover for insured loads", async () => {
+    const load = { isInsured: true, insuranceCoverageAmount: 500_000 };
+    const reliability = await getTruckReliability(
+      [
+        {
+          truckId: "rel-truck-cargo",
+          carrierId: "rel-carrier-proven",
+          ...healthyTruck,
+        },
+        {
+          truckId: "rel-truck-liability",
+          carrierId: "rel-carrier-proven",
+          ...healthyTruck,
+        },
+      ],
+      load
+    );
+
+    expect(reliability.get("rel-truck-cargo")).toMatchObject({
+      score: 96,
+      cargoCoverage: true,
+    });
+    // Insurance rating capped at 40 without cargo cover
+    expect(reliability.get("rel-truck-liability")).toMatchObject({
+      score: 78,
+      cargoCoverage: false,
+    });
+  });
+
+  it("requires cargo cover for insured or high-value loads only", () => {
+    expect(
+      needsCargoCoverage({ isInsured: false, insuranceCoverageAmount: null })
+    ).toBe(false);
+    expect(
+      needsCargoCoverage({ isInsured: true, insuranceCoverageAmount: null })
+    ).toBe(true);
+    expect(
+      needsCargoCoverage({
+        isInsured: false,
+        insuranceCoverageAmount: 1_500_000,
+      })
+    ).toBe(true);
+  });
+});
+
+describe("in-memory matching with reliability", () => {
+  const pickupDate = new Date("2026-11-02T06:00:00Z");
+  const load = {
+    pickupCity: "Addis Ababa",
+    pickupCityLat: 9.03,
+    pickupCityLon: 38.74,
+    deliveryCity: "Adama",
+    deliveryCityLat: 8.54,
+    deliveryCityLon: 39.27,
+    pickupDate,
+    truckType: "DRY_VAN",
+    weight: 5000,
+  };
+  const truck = {
+    currentCity: "Addis Ababa",
+    currentCityLat: 9.03,
+    currentCityLon: 38.74,
+    availableDate: pickupDate,
+    truckType: "DRY_VAN",
+    maxWeight: 10000,
+  };
+  const reliable: TruckReliability = {
+    score: 96,
+    trustScore: 92.5,
+    flagged: false,
+    insured: true,
+    gpsActive: true,
+    cargoCoverage: null,
+  };
+  const unreliable: TruckReliability = {
+    score: 10,
+    trustScore: 20,
+    flagged: false,
+    insured: false,
+    gpsActive: false,
+    cargoCoverage: null,
+  };
+
+  const trucks = [
+    { ...truck, id: "unreliable", reliability: unreliable },
+    { ...truck, id: "reliable", reliability: reliable },
+    { ...truck, id: "unrated" },
+  ];
+
+  it("ranks otherwise equal trucks by reliability", () => {
+    const matches = findMatchingTrucks(load, trucks);
+
+    expect(matches.map((m) => m.id)).toEqual([
+      "reliable",
+      "unrated",
+      "unreliable",
+    ]);
+    expect(matches[0].matchReasons).toContain("Highly reliable carrier");
+    expect(matches[2].matchReasons).toContain("Low carrier reliability");
+  });
+
+  it("ignores reliability when its weight is 0", () => {
+    const matches = findMatchingTrucks(load, trucks, 50, () => ({
+      ...DEFAULT_MATCH_WEIGHTS,
+      deadhead: 35,
+      reliability: 0,
+    }));
+
+    expect(new Set(matches.map((m) => m.matchScore)).size).toBe(1);
+  });
+
+  it("keeps only insured or GPS-active trucks when asked", () => {
+    const weightsFor = () => DEFAULT_MATCH_WEIGHTS;
+
+    expect(
+      findMatchingTrucks(load, trucks, 0, weightsFor, {
+        insuredOnly: true,
+      }).map((m) => m.id)
+    ).toEqual(["reliable"]);
+    expect(
+      findMatchingTrucks(load, trucks, 0, weightsFor, {
+        gpsActiveOnly: true,
+      }).map((m) => m.id)
+    ).toEqual(["reliable"]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Match Weight Tests
+ *
+ * Tests for lib/matchWeights.ts (versioned platform and shipper weights) and
+ * for the in-memory matching engine scoring with them.
+ */
+
+import { db } from "@/lib/db";
+import {
+  clearShipperMatchWeights,
+  DEFAULT_MATCH_WEIGHTS,
+  getMatchWeights,
+  getMatchWeightsFor,
+  matchWeightsSchema,
+  saveMatchWeights,
+} from "@/lib/matchWeights";
+import { findMatchingTrucks } from "@/lib/matchingEngine";
+
+describe("match weight profiles", () => {
+  it("uses the built-in weights until an admin saves some", async () => {
+    expect(await getMatchWeights()).toEqual(DEFAULT_MATCH_WEIGHTS);
+    expect(await getMatchWeights("weights-shipper-a")).toEqual(
+      DEFAULT_MATCH_WEIGHTS
+    );
+  });
+
+  it("saving adds a new platform version and retires the old one", async () => {
+    const first = await saveMatchWeights(
+      null,
+      { route: 40, time: 30, capacity: 20, deadhead: 10, reliability: 0 },
+      "admin-1"
+    );
+    const second = await saveMatchWeights(
+      null,
+      { route: 25, time: 25, capacity: 25, deadhead: 25, reliability: 0 },
+      "admin-1"
+    );
+
+    expect(first).toMatchObject({ version: 1, scope: "PLATFORM" });
+    expect(second).toMatchObject({ version: 2, route: 25, scope: "PLATFORM" });
+    expect(await getMatchWeights()).toEqual(second);
+
+    const retired = await db.matchWeightProfile.findUnique({
+      where: { id: first.profileId! },
+    });
+    expect(retired?.isActive).toBe(false);
+  });
+
+  it("resolves shipper overrides per load, platform weights otherwise", async () => {
+    const override = await saveMatchWeights(
+      "weights-shipper-a",
+      { route: 20, time: 10, capacity: 10, deadhead: 60, reliability: 0 },
+      "shipper-user-a"
+    );
+    expect(override).toMatchObject({ version: 1, scope: "SHIPPER" });
+
+    const weightsFor = await getMatchWeightsFor([
+      "weights-shipper-a",
+      "weights-shipper-b",
+    ]);
+    expect(weightsFor("weights-shipper-a")).toEqual(override);
+    expect(weightsFor("weights-shipper-b")).toMatchObject({
+      version: 2,
+      scope: "PLATFORM",
+    });
+    expect(weightsFor(null).scope).toBe("PLATFORM");
+  });
+
+  it("clearing an override falls back to the platform weights", async () => {
+    expect(await clearShipperMatchWeights("weights-shipper-a")).toBe(true);
+    expect((await getMatchWeights("weights-shipper-a")).scope).toBe("PLATFORM");
+    expect(await clearShipperMatchWeights("weights-shipper-a")).toBe(false);
+  });
+
+  it("requires integer weights that add up to 100", () => {
+    expect(
+      matchWeightsSchema.safeParse({
+        route: 30,
+        time: 30,
+        capacity: 30,
+        deadhead: 30,
+      }).success
+    ).toBe(false);
+    expect(
+      matchWeightsSchema.safeParse({
+        route: 30.5,
+        time: 19.5,
+        capacity: 20,
+        deadhead: 30,
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe("in-memory matching with weights", () => {
+  const pickupDate = new Date("2026-11-02T06:00:00Z");
+  const load = {
+    pickupCity: "Addis Ababa",
+    pickupCityLat: 9.03,
+    pickupCityLon: 38.74,
+    deliveryCity: "Adama",
+    deliveryCityLat: 8.54,
+    deliveryCityLon: 39.27,
+    pickupDate,
+    truckType: "DRY_VAN",
+    weight: 8000,
+    shipperId: "weights-shipper-c",
+  };
+  // In the pickup city but free five days late
+  const localLateTruck = {
+    id: "local-late",
+    currentCity: "Addis Ababa",
+    currentCityLat: 9.03,
+    currentCityLon: 38.74,
+    availableDate: new Date(pickupDate.getTime() + 5 * 24 * 60 * 60 * 1000),
+    truckType: "DRY_VAN",
+    maxWeight: 10000,
+  };
+  // ~65km away but free on time
+  const nearbyOnTimeTruck = {
+    id: "nearby-on-time",
+    currentCity: "Mojo",
+    currentCityLat: 8.59,
+    currentCityLon: 39.12,
+    availableDate: pickupDate,
+    truckType: "DRY_VAN",
+    maxWeight: 10000,
+  };
+
+  it("scores with the built-in weights by default", () => {
+    const matches = findMatchingTrucks(load, [
+      localLateTruck,
+      nearbyOnTimeTruck,
+    ]);
+
+    expect(matches.map((m) => [m.id, m.matchScore])).toEqual([
+      ["local-late", 84],
+      ["nearby-on-time", 77],
+    ]);
+    expect(matches[0]).toMatchObject({
+      weightProfileId: null,
+      weightVersion: 0,
+    });
+  });
+
+  it("ranks by the load shipper's weights and records their version", async () => {
+    const override = await saveMatchWeights(
+      "weights-shipper-c",
+      { route: 10, time: 60, capacity: 10, deadhead: 20, reliability: 0 },
+      "shipper-user-c"
+    );
+    const weightsFor = await getMatchWeightsFor([load.shipperId]);
+
+    const matches = findMatchingTrucks(
+      load,
+      [localLateTruck, nearbyOnTimeTruck],
+      50,
+      weightsFor
+    );
+
+    expect(matches.map((m) => [m.id, m.matchScore])).toEqual([
+      ["nearby-on-time", 92],
+      ["local-late", 56],
+    ]);
+    expect(matches[0]).toMatchObject({
+      weightProfileId: override.profileId,
+      weightVersion: 1,
+    });
+  });
+});
@@ -4,7 +4,11 @@
  * Tests for truck/load matching algorithm (in-memory functions)
  */
 
-import { findMatchingLoads, findMatchingTrucks } from "@/lib/matchingEngine";
+import {
+  findMatchingLoads,
+  findMatchingTrucks,
+  findNearMissLoads,
+} from "@/lib/matchingEngine";
 
 describe("lib/matchingEngine", () => {
   // Sample data
@@ -582,6 +586,110 @@ describe("lib/matchingEngine", () => {
     });
   });
 
+  // ============================================================================
+  // Match explanation
+  // ============================================================================
+  describe("match explanation", () => {
+    it("explains each factor with points, inputs and a summary", () => {
+      const [match] = findMatchingLoads(sampleTrucks[0], [sampleLoads[0]], 0);
+      const factors = Object.fromEntries(
+        match.matchExplanation.map((f) => [f.factor, f])
+      );
+
+      expect(Object.keys(factors)).toEqual([
+        "route",
+        "deadhead",
+        "capacity",
+        "time",
+        "truckType",
+      ]);
+      expect(factors.deadhead.points).toBe(factors.deadhead.maxPoints);
+      expect(factors.deadhead.inputs.dhOriginKm).toBe(0);
+      expect(factors.capacity.inputs).toEqual({
+        loadWeightKg: 15000,
+        truckMaxWeightKg: 20000,
+      });
+      expect(factors.capacity.summary).toBe(
+        "Load uses 75% of the truck's 20,000 kg capacity"
+      );
+      expect(factors.truckType).toMatchObject({ points: 5, maxPoints: 5 });
+
+      // Factor points add up to the score, which is capped at 100
+      const total = match.matchExplanation.reduce(
+        (sum, f) => sum + f.points,
+        0
+      );
+      expect(Math.min(100, Math.round(total))).toBe(match.matchScore);
+    });
+
+    it("explains trucks ranked for a load", () => {
+      const [match] = findMatchingTrucks(sampleLoads[0], [sampleTrucks[0]], 0);
+      const maxTotal = match.matchExplanation.reduce(
+        (sum, f) => sum + f.maxPoints,
+        0
+      );
+      expect(Math.round(maxTotal)).toBe(105); // 100 + exact type bonus
+    });
+  });
+
+  // ============================================================================
+  // findNearMissLoads - Loads filtered out by one hard constraint
+  // ============================================================================
+  describe("findNearMissLoads", () => {
+    const heavyLoad = {
+      ...sampleLoads[0],
+      id: "load-heavy",
+      weight: 25000,
+    };
+    const coldFarLoad = {
+      ...sampleLoads[2],
+      id: "load-cold-far",
+      truckType: "REFRIGERATED",
+    };
+
+    it("lists loads failing one hard filter with the reason", () => {
+      const nearMisses = findNearMissLoads(sampleTrucks[0], [
+        ...sampleLoads,
+        heavyLoad,
+      ]);
+
+      expect(
+        nearMisses.map((m) => [m.id, m.nearMissConstraint, m.nearMissReason])
+      ).toEqual([
+        [
+          "load-4",
+          "truckType",
+          "Incompatible truck type: DRY_VAN cannot carry REFRIGERATED loads",
+        ],
+        [
+          "load-heavy",
+          "capacity",
+          "Insufficient capacity: 20000kg < 25000kg needed",
+        ],
+        ["load-3", "deadhead", expect.stringContaining("DH-O too far")],
+      ]);
+      expect(nearMisses[2].dhOriginKm).toBeGreaterThan(200);
+    });
+
+    it("skips loads failing several filters, far away or without coordinates", () => {
+      const nearMisses = findNearMissLoads(sampleTrucks[3], [
+        coldFarLoad,
+        { ...heavyLoad, pickupCityLat: null, pickupCityLon: null },
+        sampleLoads[0], // ~560km from Djibouti
+      ]);
+      expect(nearMisses).toEqual([]);
+    });
+
+    it("respects the limit", () => {
+      const nearMisses = findNearMissLoads(
+        sampleTrucks[0],
+        [...sampleLoads, heavyLoad],
+        1
+      );
+      expect(nearMisses.map((m) => m.id)).toEqual(["load-4"]);
+    });
+  });
+
   // ============================================================================
   // Score calculation
   // ============================================================================
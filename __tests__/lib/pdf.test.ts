@@ -0,0 +1,66 @@
+/**
+ * PDF Writer Tests
+ *
+ * Tests for lib/pdf.ts (document structure, escaping, wrapping, page
+ * breaks and signature drawing)
+ */
+
+import { renderTextPdf } from "@/lib/pdf";
+
+describe("lib/pdf", () => {
+  const render = (...args: Parameters<typeof renderTextPdf>) =>
+    renderTextPdf(...args).toString("latin1");
+
+  it("writes a valid cross-reference table", () => {
+    const pdf = render([{ text: "Hello", bold: true }]);
+
+    const startxref = parseInt(pdf.match(/startxref\n(\d+)/)![1], 10);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+
+    // Every xref entry points at the start of its object
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) =>
+      parseInt(m[1], 10)
+    );
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+    expect(pdf).toContain("/F2 10 Tf");
+  });
+
+  it("escapes PDF string delimiters and replaces non-Latin-1 text", () => {
+    const pdf = render([{ text: "Fee (carrier) \\ ጭነት" }]);
+    expect(pdf).toContain("(Fee \\(carrier\\) \\\\ ???) Tj");
+  });
+
+  it("wraps long lines and breaks pages", () => {
+    const pdf = render([
+      { text: "word ".repeat(60).trim() },
+      ...Array.from({ length: 80 }, (_, i) => ({ text: `Line ${i}` })),
+    ]);
+
+    expect(pdf).toContain("/Count 2");
+    expect(pdf.match(/ Tj /g)!.length).toBeGreaterThan(81);
+  });
+
+  it("draws signature strokes inside a box below the line", () => {
+    const pdf = render([
+      {
+        text: "Shipper: Hana",
+        signature: [
+          [
+            [0, 0],
+            [1, 1],
+          ],
+          [[0.5, 0.5]],
+        ],
+      },
+    ]);
+
+    // Box at the left margin; y grows downwards on the pad, upwards in PDF
+    const [, bottom] = pdf.match(/50 ([\d.]+) 200 60 re S/)!;
+    const top = (parseFloat(bottom) + 60).toFixed(2);
+    expect(pdf).toContain(`50.00 ${top} m 250.00 ${bottom} l S`);
+    // A single tap still leaves a dot
+    expect(pdf).toMatch(/150\.00 ([\d.]+) m 150\.00 \1 l S/);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Queclink Protocol Tests
+ *
+ * Tests for lib/gpsProtocols/queclink.ts (@Track ASCII reports) and the
+ * lib/gpsTcpServer.ts Queclink listener, replaying captured tracker reports
+ * over TCP: positions, buffered reports, heartbeats and alarms that raise
+ * escalations (lib/gpsDeviceAlarms.ts).
+ */
+
+import net from "net";
+import { db } from "@/lib/db";
+import { queclinkDecoder } from "@/lib/gpsProtocols/queclink";
+import { GpsProtocolError } from "@/lib/gpsProtocols/types";
+import { createGpsTcpServer } from "@/lib/gpsTcpServer";
+import { createNotificationForRole } from "@/lib/notifications";
+import {
+  closeServer,
+  listenOnFreePort,
+  openReplaySession,
+} from "../utils/gpsReplay";
+
+jest.mock("@/lib/notifications", () => ({
+  ...jest.requireActual("@/lib/notifications"),
+  createNotificationForRole: jest.fn(async () => undefined),
+  notifyOrganization: jest.fn(async () => undefined),
+}));
+
+// GV300 862170013895931 on a truck leaving Addis Ababa
+const FIXED_REPORT =
+  "+RESP:GTFRI,300400,862170013895931,gv300,,10,2,1,45.5,90,2355.0,38.740000,9.030000,20260601081000,0636,0001,1234,00ABCD,00,1,50.0,92,2350.0,38.745000,9.028000,20260601081030,0636,0001,1234,00ABCD,00,2000.0,12345:12:34,,,80,210100,,,,20260601081035,0A1B$";
+const BUFFERED_REPORT =
+  "+BUFF:GTFRI,300400,862170013895931,gv300,,10,1,1,30.0,88,2360.0,38.735000,9.031000,20260601080900,0636,0001,1234,00ABCD,00,1990.0,12345:10:02,,,80,210100,,,,20260601081040,0A1C$";
+const SPEED_ALARM =
+  "+RESP:GTSPD,300400,862170013895931,gv300,,10,1,1,95.0,180,2340.0,38.760000,9.010000,20260601081200,0636,0001,1234,00ABCD,00,2001.0,12345:13:01,,,80,210100,,,,20260601081201,0A1D$";
+// Main power disconnected while the tracker had no fix
+const POWER_CUT =
+  "+RESP:GTMPF,300400,862170013895931,gv300,0,0.0,0,0.0,0.000000,0.000000,20260601081300,0636,0001,1234,00ABCD,00,20260601081301,0A1E$";
+const HEARTBEAT =
+  "+ACK:GTHBD,300400,862170013895931,gv300,20260601081400,0A1F$";
+// Reply to a configuration command: nothing to process or answer
+const COMMAND_ACK =
+  "+ACK:GTFRI,300400,862170013895931,gv300,0004,20260601081500,0A20$";
+
+const ascii = (report: string) => Buffer.from(report, "ascii");
+const decode = (report: string) => queclinkDecoder.decode(ascii(report));
+
+describe("Queclink @Track decoding", () => {
+  it("decodes every point of a fixed report, oldest first", () => {
+    expect(decode(FIXED_REPORT)).toEqual({
+      type: "position",
+      imei: "862170013895931",
+      prefix: "+RESP",
+      version: "300400",
+      count: "0A1B",
+      positions: [
+        {
+          latitude: 9.03,
+          longitude: 38.74,
+          speed: 45.5,
+          heading: 90,
+          altitude: 2355,
+          timestamp: new Date("2026-06-01T08:10:00Z"),
+        },
+        {
+          latitude: 9.028,
+          longitude: 38.745,
+          speed: 50,
+          heading: 92,
+          altitude: 2350,
+          timestamp: new Date("2026-06-01T08:10:30Z"),
+        },
+      ],
+    });
+  });
+
+  it("answers live and buffered reports with their count number", () => {
+    expect(queclinkDecoder.ack(decode(FIXED_REPORT), true)).toEqual(
+      Buffer.from("+SACK:0A1B$")
+    );
+    expect(queclinkDecoder.ack(decode(BUFFERED_REPORT), true)).toEqual(
+      Buffer.from("+SACK:0A1C$")
+    );
+    expect(queclinkDecoder.ack(decode(FIXED_REPORT), false)).toBeNull();
+  });
+
+  it("decodes alarms with and without a fix", () => {
+    expect(decode(SPEED_ALARM)).toMatchObject({
+      type: "alarm",
+      alarm: "OVERSPEED",
+      position: { latitude: 9.01, longitude: 38.76, speed: 95 },
+    });
+    expect(decode(POWER_CUT)).toMatchObject({
+      type: "alarm",
+      alarm: "POWER_CUT",
+      position: null,
+    });
+  });
+
+  it("answers heartbeats with the protocol version", () => {
+    const message = decode(HEARTBEAT);
+    expect(message).toMatchObject({ type: "heartbeat" });
+    expect(queclinkDecoder.ack(message, true)).toEqual(
+      Buffer.from("+SACK:GTHBD,300400,0A1F$")
+    );
+  });
+
+  it("ignores command replies", () => {
+    const message = decode(COMMAND_ACK);
+    expect(message).toMatchObject({ type: "other" });
+    expect(queclinkDecoder.ack(message, true)).toBeNull();
+  });
+
+  it("frames reports on the terminating $", () => {
+    const buffer = Buffer.from(`\r\n${HEARTBEAT}${FIXED_REPORT}`);
+    expect(queclinkDecoder.frame(buffer)).toBe(HEARTBEAT.length + 2);
+    expect(queclinkDecoder.frame(Buffer.from(FIXED_REPORT.slice(0, 50)))).toBe(
+      null
+    );
+    expect(() => queclinkDecoder.frame(Buffer.from("GET / HTTP/1.1"))).toThrow(
+      GpsProtocolError
+    );
+  });
+});
+
+describe("Queclink TCP server replay", () => {
+  let server: net.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    await db.truck.create({
+      data: {
+        id: "ql-truck",
+        truckType: "FLATBED",
+        licensePlate: "AA-3-67890",
+        capacity: 30000,
+        carrierId: "ql-carrier",
+      },
+    });
+    // The device → truck link is the reverse relation Truck.gpsDevice
+    await db.gpsDevice.create({
+      data: { id: "ql-device", imei: "862170013895931", truckId: "ql-truck" },
+    });
+    await db.load.create({
+      data: {
+        id: "ql-load",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Dire Dawa",
+        truckType: "FLATBED",
+        shipperId: "ql-shipper",
+        assignedTruckId: "ql-truck",
+        trackingEnabled: true,
+      },
+    });
+
+    server = createGpsTcpServer(queclinkDecoder);
+    port = await listenOnFreePort(server);
+  });
+
+  afterAll(() => closeServer(server));
+
+  function positions() {
+    return db.gpsPosition.findMany({ where: { deviceId: "ql-device" } });
+  }
+
+  it("rejects reports from an unknown device", async () => {
+    const session = await openReplaySession(port);
+    await session.send(
+      ascii(FIXED_REPORT.replace("862170013895931", "862170019999999"))
+    );
+    await session.closed;
+    expect(await positions()).toHaveLength(0);
+  });
+
+  it("stores live and buffered reports and acknowledges them", async () => {
+    const session = await openReplaySession(port);
+    await session.send(ascii(FIXED_REPORT), 64);
+    expect((await session.read(11)).toString()).toBe("+SACK:0A1B$");
+    await session.send(ascii(BUFFERED_REPORT + HEARTBEAT));
+    expect((await session.read(11 + 24)).toString()).toBe(
+      "+SACK:0A1C$+SACK:GTHBD,300400,0A1F$"
+    );
+    session.close();
+
+    const stored = await positions();
+    expect(stored).toHaveLength(3);
+    expect(stored[0]).toMatchObject({
+      truckId: "ql-truck",
+      loadId: "ql-load",
+      source: "ELD_HARDWARE",
+    });
+
+    const truck = await db.truck.findUnique({ where: { id: "ql-truck" } });
+    expect(truck).toMatchObject({
+      gpsStatus: "ACTIVE",
+      gpsProvider: "Queclink",
+    });
+  });
+
+  it("escalates overspeed as unsafe driving and power cuts as device alarms", async () => {
+    const session = await openReplaySession(port);
+    await session.send(ascii(SPEED_ALARM + POWER_CUT));
+    expect((await session.read(22)).toString()).toBe("+SACK:0A1D$+SACK:0A1E$");
+    session.close();
+
+    const escalations = await db.loadEscalation.findMany({
+      where: { loadId: "ql-load" },
+    });
+    expect(
+      escalations
+        .map((e: { escalationType: string; priority: string }) => [
+          e.escalationType,
+          e.priority,
+        ])
+        .sort()
+    ).toEqual([
+      ["DEVICE_ALARM", "HIGH"],
+      ["UNSAFE_DRIVING", "MEDIUM"],
+    ]);
+    expect(createNotificationForRole).toHaveBeenCalledWith(
+      expect.objectContaining({ role: "DISPATCHER", type: "UNSAFE_DRIVING" })
+    );
+    expect(await positions()).toHaveLength(4);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Route Deviation Tests
+ *
+ * Tests for lib/routeDeviation.ts: storing a trip's planned route when it
+ * starts, checking ingested GPS positions against the route corridor, and
+ * escalating deviations that last the configured time.
+ */
+
+import { db } from "@/lib/db";
+import { decodePolyline, getPlannedRoute } from "@/lib/googleRoutes";
+import { ingestGpsData } from "@/lib/gpsIngestion";
+import {
+  createNotificationForRole,
+  notifyOrganization,
+} from "@/lib/notifications";
+import { checkRouteDeviation, storePlannedRoute } from "@/lib/routeDeviation";
+
+jest.mock("@/lib/notifications", () => ({
+  ...jest.requireActual("@/lib/notifications"),
+  createNotificationForRole: jest.fn(async () => undefined),
+  notifyOrganization: jest.fn(async () => undefined),
+}));
+
+const MINUTE = 60 * 1000;
+
+const ADDIS = { lat: 9.03, lng: 38.74 };
+const ADAMA = { lat: 8.54, lng: 39.27 };
+// ~1 km and ~23 km off the straight Addis → Adama line
+const NEAR_ROUTE = { lat: 8.8, lng: 39.005 };
+const OFF_ROUTE = { lat: 8.93, lng: 39.15 };
+
+describe("getPlannedRoute", () => {
+  it("decodes Google encoded polylines", () => {
+    expect(decodePolyline("_p~iF~ps|U_ulLnnqC_mqNvxq`@")).toEqual([
+      [38.5, -120.2],
+      [40.7, -120.95],
+      [43.252, -126.453],
+    ]);
+  });
+
+  it("falls back to a straight line without an API key", async () => {
+    await expect(getPlannedRoute(ADDIS, ADAMA)).resolves.toEqual({
+      points: [
+        [ADDIS.lat, ADDIS.lng],
+        [ADAMA.lat, ADAMA.lng],
+      ],
+      source: "straight_line",
+    });
+  });
+});
+
+describe("route deviation detection", () => {
+  const t0 = new Date("2026-06-01T08:00:00Z");
+  const at = (minutes: number) => new Date(t0.getTime() + minutes * MINUTE);
+
+  const savedKeys = {
+    routes: process.env.GOOGLE_ROUTES_API_KEY,
+    maps: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY,
+  };
+
+  beforeAll(async () => {
+    delete process.env.GOOGLE_ROUTES_API_KEY;
+    delete process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+
+    await db.systemSettings.create({
+      data: {
+        id: "system",
+        routeDeviationCorridorKm: 5,
+        routeDeviationMinMinutes: 10,
+        lastModifiedBy: "admin-1",
+      },
+    });
+    await db.truck.create({
+      data: {
+        id: "rd-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "RD-001",
+        capacity: 20000,
+        carrierId: "rd-carrier",
+      },
+    });
+    // The device → truck link is the reverse relation Truck.gpsDevice
+    await db.gpsDevice.create({
+      data: { id: "rd-device", imei: "359000000000001", truckId: "rd-truck" },
+    });
+    await db.load.create({
+      data: {
+        id: "rd-load",
+        status: "IN_TRANSIT",
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        shipperId: "rd-shipper",
+        assignedTruckId: "rd-truck",
+        trackingEnabled: true,
+      },
+    });
+    await db.trip.create({
+      data: {
+        id: "rd-trip",
+        status: "IN_TRANSIT",
+        loadId: "rd-load",
+        truckId: "rd-truck",
+        carrierId: "rd-carrier",
+        shipperId: "rd-shipper",
+        pickupCity: "Addis Ababa",
+        pickupLat: ADDIS.lat,
+        pickupLng: ADDIS.lng,
+        deliveryCity: "Adama",
+        deliveryLat: ADAMA.lat,
+        deliveryLng: ADAMA.lng,
+      },
+    });
+  });
+
+  afterAll(() => {
+    process.env.GOOGLE_ROUTES_API_KEY = savedKeys.routes;
+    process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY = savedKeys.maps;
+  });
+
+  async function deviations() {
+    return db.routeDeviation.findMany({ where: { tripId: "rd-trip" } });
+  }
+
+  async function escalations() {
+    return db.loadEscalation.findMany({
+      where: { loadId: "rd-load", escalationType: "ROUTE_DEVIATION" },
+    });
+  }
+
+  it("stores the planned route when the trip starts", async () => {
+    expect(await storePlannedRoute("rd-trip")).toBe(true);
+
+    const trip = await db.trip.findUnique({ where: { id: "rd-trip" } });
+    expect(trip).toMatchObject({
+      plannedRoute: [
+        [ADDIS.lat, ADDIS.lng],
+        [ADAMA.lat, ADAMA.lng],
+      ],
+      plannedRouteSource: "straight_line",
+    });
+  });
+
+  it("ignores positions inside the corridor", async () => {
+    const result = await checkRouteDeviation(
+      "rd-trip",
+      NEAR_ROUTE.lat,
+      NEAR_ROUTE.lng,
+      at(0)
+    );
+    expect(result?.offRoute).toBe(false);
+    expect(result?.distanceKm).toBeLessThan(5);
+    expect(await deviations()).toHaveLength(0);
+  });
+
+  it("opens a deviation for an ingested position off the route", async () => {
+    await ingestGpsData("359000000000001", {
+      latitude: OFF_ROUTE.lat,
+      longitude: OFF_ROUTE.lng,
+      timestamp: at(1),
+    });
+
+    const positions = await db.gpsPosition.findMany({
+      where: { truckId: "rd-truck" },
+    });
+    expect(positions[positions.length - 1]).toMatchObject({
+      loadId: "rd-load",
+      tripId: "rd-trip",
+    });
+
+    const [deviation] = await deviations();
+    expect(deviation).toMatchObject({
+      loadId: "rd-load",
+      startedAt: at(1),
+      endedAt: null,
+      escalationId: null,
+    });
+    expect(Number(deviation.maxDistanceKm)).toBeGreaterThan(5);
+    expect(await escalations()).toHaveLength(0);
+  });
+
+  it("escalates once the deviation is sustained", async () => {
+    const early = await checkRouteDeviation(
+      "rd-trip",
+      OFF_ROUTE.lat,
+      OFF_ROUTE.lng,
+      at(8)
+    );
+    expect(early).toMatchObject({ offRoute: true });
+    expect(early?.escalationId).toBeUndefined();
+
+    const sustained = await checkRouteDeviation(
+      "rd-trip",
+      OFF_ROUTE.lat,
+      OFF_ROUTE.lng,
+      at(11)
+    );
+    expect(sustained?.escalationId).toBeDefined();
+
+    const [escalation] = await escalations();
+    expect(escalation).toMatchObject({
+      id: sustained!.escalationId,
+      priority: "HIGH",
+      status: "OPEN",
+      createdBy: "SYSTEM",
+    });
+    const [deviation] = await deviations();
+    expect(deviation.escalationId).toBe(escalation.id);
+
+    const events = await db.loadEvent.findMany({
+      where: { loadId: "rd-load" },
+    });
+    expect(events.map((e: { eventType: string }) => e.eventType)).toContain(
+      "ESCALATION_AUTO_CREATED"
+    );
+    expect(createNotificationForRole).toHaveBeenCalledWith(
+      expect.objectContaining({ role: "DISPATCHER", type: "ROUTE_DEVIATION" })
+    );
+    expect(notifyOrganization).toHaveBeenCalledWith(
+      expect.objectContaining({ organizationId: "rd-shipper" })
+    );
+    expect(notifyOrganization).toHaveBeenCalledWith(
+      expect.objectContaining({ organizationId: "rd-carrier" })
+    );
+
+    const later = await checkRouteDeviation(
+      "rd-trip",
+      OFF_ROUTE.lat,
+      OFF_ROUTE.lng,
+      at(12)
+    );
+    expect(later?.escalationId).toBeUndefined();
+    expect(await escalations()).toHaveLength(1);
+  });
+
+  it("closes the deviation when the truck is back on route", async () => {
+    await checkRouteDeviation(
+      "rd-trip",
+      NEAR_ROUTE.lat,
+      NEAR_ROUTE.lng,
+      at(20)
+    );
+    const [deviation] = await deviations();
+    expect(deviation.endedAt).toEqual(at(20));
+  });
+
+  it("links later deviations to the open escalation", async () => {
+    await checkRouteDeviation("rd-trip", OFF_ROUTE.lat, OFF_ROUTE.lng, at(30));
+    const result = await checkRouteDeviation(
+      "rd-trip",
+      OFF_ROUTE.lat,
+      OFF_ROUTE.lng,
+      at(45)
+    );
+
+    const [escalation] = await escalations();
+    expect(result?.escalationId).toBe(escalation.id);
+    expect(await escalations()).toHaveLength(1);
+    expect(await deviations()).toHaveLength(2);
+  });
+
+  it("only checks trips in transit", async () => {
+    await db.trip.update({
+      where: { id: "rd-trip" },
+      data: { status: "DELIVERED" },
+    });
+    expect(
+      await checkRouteDeviation("rd-trip", OFF_ROUTE.lat, OFF_ROUTE.lng, at(60))
+    ).toBeNull();
+  });
+});
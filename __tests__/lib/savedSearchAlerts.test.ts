@@ -0,0 +1,326 @@
+/**
+ * Saved Search Alert Tests
+ *
+ * Tests for lib/savedSearchAlerts.ts: quiet hours and digest frequency,
+ * match deduplication across monitor runs, delivery over SMS and email,
+ * and one-click load requests from an alert link, through
+ * /api/saved-search-alerts/[token]/request-load.
+ */
+
+import { NextRequest } from "next/server";
+import { db } from "@/lib/db";
+import { sendSms } from "@/lib/sms";
+import { sendEmailToUser } from "@/lib/emailService";
+import { createNotification } from "@/lib/notifications";
+import { createLoadRequest } from "@/lib/loadRequests";
+import {
+  findAlertRequest,
+  isAlertDue,
+  isInQuietHours,
+  requestAlertLoad,
+  runSavedSearchMonitor,
+} from "@/lib/savedSearchAlerts";
+
+jest.mock("@/lib/sms", () => ({
+  sendSms: jest.fn(async () => ({ success: true })),
+}));
+
+jest.mock("@/lib/emailService", () => ({
+  ...jest.requireActual("@/lib/emailService"),
+  sendEmailToUser: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/lib/notifications", () => ({
+  ...jest.requireActual("@/lib/notifications"),
+  createNotification: jest.fn(async () => undefined),
+}));
+
+jest.mock("@/lib/loadRequests", () => ({
+  ...jest.requireActual("@/lib/loadRequests"),
+  createLoadRequest: jest.fn(async () => ({ loadRequest: { id: "lr-1" } })),
+}));
+
+const {
+  GET: showRequestPage,
+  POST: requestFromLink,
+} = require("@/app/api/saved-search-alerts/[token]/request-load/route");
+
+const HOUR = 60 * 60 * 1000;
+
+/** `hour`:00 East Africa Time (UTC+3) on a fixed day */
+function eat(hour: number): Date {
+  return new Date(Date.UTC(2026, 9, 19, hour - 3));
+}
+
+const settings = {
+  alertFrequency: "INSTANT" as const,
+  lastAlertedAt: null,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+describe("isInQuietHours", () => {
+  it("holds alerts inside a same-day window", () => {
+    const search = { ...settings, quietHoursStart: 12, quietHoursEnd: 14 };
+    expect(isInQuietHours(search, eat(12))).toBe(true);
+    expect(isInQuietHours(search, eat(14))).toBe(false);
+  });
+
+  it("wraps a window across midnight", () => {
+    const search = { ...settings, quietHoursStart: 22, quietHoursEnd: 6 };
+    expect(isInQuietHours(search, eat(23))).toBe(true);
+    expect(isInQuietHours(search, eat(5))).toBe(true);
+    expect(isInQuietHours(search, eat(6))).toBe(false);
+    expect(isInQuietHours(search, eat(21))).toBe(false);
+  });
+
+  it("has no quiet hours unless both ends are set", () => {
+    expect(isInQuietHours({ ...settings, quietHoursStart: 0 }, eat(1))).toBe(
+      false
+    );
+  });
+});
+
+describe("isAlertDue", () => {
+  it("waits out the frequency interval since the last alert", () => {
+    const now = eat(12);
+    const lastAlertedAt = new Date(now.getTime() - 30 * 60 * 1000);
+
+    expect(
+      isAlertDue({ ...settings, alertFrequency: "INSTANT", lastAlertedAt }, now)
+    ).toBe(true);
+    expect(
+      isAlertDue({ ...settings, alertFrequency: "HOURLY", lastAlertedAt }, now)
+    ).toBe(false);
+    expect(
+      isAlertDue(
+        {
+          ...settings,
+          alertFrequency: "DAILY",
+          lastAlertedAt: new Date(now.getTime() - 23 * HOUR),
+        },
+        now
+      )
+    ).toBe(false);
+  });
+
+  it("is never due during quiet hours", () => {
+    expect(
+      isAlertDue({ ...settings, quietHoursStart: 0, quietHoursEnd: 23 }, eat(8))
+    ).toBe(false);
+  });
+});
+
+describe("runSavedSearchMonitor", () => {
+  const now = eat(12);
+
+  beforeAll(async () => {
+    await db.user.create({
+      data: {
+        id: "ssa-carrier",
+        email: "ssa-carrier@test.com",
+        phone: "+251911000001",
+        role: "CARRIER",
+        status: "ACTIVE",
+        organizationId: "ssa-org",
+      },
+    });
+    await db.load.create({
+      data: {
+        id: "ssa-load-1",
+        status: "POSTED",
+        postedAt: new Date(now.getTime() - 10 * 60 * 1000),
+        pickupCity: "Addis Ababa",
+        deliveryCity: "Adama",
+        truckType: "DRY_VAN",
+        weight: 8000,
+        pickupDate: new Date(now.getTime() + 24 * HOUR),
+      },
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  async function createSearch(id: string, data: Record<string, unknown>) {
+    return db.savedSearch.create({
+      data: {
+        id,
+        name: id,
+        type: "LOADS",
+        criteria: { pickupCity: "Addis Ababa" },
+        alertsEnabled: true,
+        userId: "ssa-carrier",
+        ...data,
+      },
+    });
+  }
+
+  async function clearSearch(id: string) {
+    await db.savedSearch.delete({ where: { id } });
+    await db.savedSearchMatch.deleteMany({ where: { savedSearchId: id } });
+  }
+
+  it("sends an SMS with a request link and never repeats a load", async () => {
+    await createSearch("ssa-sms", { alertChannel: "SMS" });
+
+    const first = await runSavedSearchMonitor(now);
+    expect(first).toMatchObject({ matchesRecorded: 1, loadAlertsSent: 1 });
+    expect(sendSms).toHaveBeenCalledWith(
+      "+251911000001",
+      expect.stringContaining("/api/saved-search-alerts/")
+    );
+
+    const second = await runSavedSearchMonitor(
+      new Date(now.getTime() + 5 * 60 * 1000)
+    );
+    expect(second).toMatchObject({ matchesRecorded: 0, loadAlertsSent: 0 });
+    expect(sendSms).toHaveBeenCalledTimes(1);
+
+    await clearSearch("ssa-sms");
+  });
+
+  it("queues matches for an hourly email digest that is not due", async () => {
+    await createSearch("ssa-email", {
+      alertChannel: "EMAIL",
+      alertFrequency: "HOURLY",
+      lastAlertedAt: new Date(now.getTime() - 20 * 60 * 1000),
+    });
+
+    const queued = await runSavedSearchMonitor(now);
+    expect(queued).toMatchObject({ matchesRecorded: 1, loadAlertsSent: 0 });
+    expect(sendEmailToUser).not.toHaveBeenCalled();
+
+    const sent = await runSavedSearchMonitor(
+      new Date(now.getTime() + 45 * 60 * 1000)
+    );
+    expect(sent.loadAlertsSent).toBe(1);
+    expect(sendEmailToUser).toHaveBeenCalledWith(
+      "ssa-carrier",
+      "SAVED_SEARCH_DIGEST",
+      expect.objectContaining({
+        searchName: "ssa-email",
+        matches: [
+          expect.objectContaining({
+            title: "Addis Ababa → Adama",
+            requestUrl: expect.stringContaining("/request-load"),
+          }),
+        ],
+      })
+    );
+    expect(createNotification).not.toHaveBeenCalled();
+
+    await clearSearch("ssa-email");
+  });
+
+  it("holds alerts during quiet hours", async () => {
+    await createSearch("ssa-quiet", { quietHoursStart: 11, quietHoursEnd: 13 });
+
+    const result = await runSavedSearchMonitor(now);
+    expect(result).toMatchObject({ matchesRecorded: 1, loadAlertsSent: 0 });
+    expect(createNotification).not.toHaveBeenCalled();
+
+    await clearSearch("ssa-quiet");
+  });
+
+  describe("requestAlertLoad", () => {
+    beforeAll(async () => {
+      await db.truck.create({
+        data: {
+          id: "ssa-truck",
+          truckType: "DRY_VAN",
+          carrierId: "ssa-org",
+        },
+      });
+      await db.truckPosting.create({
+        data: {
+          id: "ssa-posting",
+          truckId: "ssa-truck",
+          carrierId: "ssa-org",
+          status: "ACTIVE",
+        },
+      });
+      await createSearch("ssa-request", {});
+      await runSavedSearchMonitor(now);
+    });
+
+    it("requests the load with a posted truck, once", async () => {
+      const [match] = await db.savedSearchMatch.findMany({
+        where: { savedSearchId: "ssa-request" },
+      });
+      expect(match.requestTokenExpiresAt!.getTime()).toBeGreaterThan(
+        Date.now()
+      );
+      const request = await findAlertRequest(match.requestToken!);
+
+      expect(await requestAlertLoad(request!)).toEqual({
+        loadRequest: { id: "lr-1" },
+      });
+      expect(createLoadRequest).toHaveBeenCalledWith(
+        expect.objectContaining({
+          loadId: "ssa-load-1",
+          truckId: "ssa-truck",
+        }),
+        expect.objectContaining({ userId: "ssa-carrier" })
+      );
+
+      const reused = await findAlertRequest(match.requestToken!);
+      expect(await requestAlertLoad(reused!)).toMatchObject({ status: 409 });
+    });
+
+    it("rejects an unknown link", async () => {
+      expect(await findAlertRequest("not-a-token")).toBeNull();
+    });
+
+    it("rejects an expired link", async () => {
+      await db.savedSearchMatch.create({
+        data: {
+          savedSearchId: "ssa-request",
+          loadId: "ssa-load-1",
+          requestToken: "ssa-expired-token",
+          requestTokenExpiresAt: new Date(Date.now() - HOUR),
+        },
+      });
+      const request = await findAlertRequest("ssa-expired-token");
+      expect(await requestAlertLoad(request!)).toMatchObject({ status: 410 });
+
+      const url =
+        "http://localhost:3000/api/saved-search-alerts/ssa-expired-token/request-load";
+      const res = await showRequestPage(new NextRequest(url), {
+        params: Promise.resolve({ token: "ssa-expired-token" }),
+      });
+      expect(res.status).toBe(410);
+    });
+
+    it("requests nothing until the confirmation page is submitted", async () => {
+      await db.savedSearchMatch.create({
+        data: {
+          savedSearchId: "ssa-request",
+          loadId: "ssa-load-1",
+          requestToken: "ssa-link-token",
+          requestTokenExpiresAt: new Date(Date.now() + HOUR),
+        },
+      });
+      const url =
+        "http://localhost:3000/api/saved-search-alerts/ssa-link-token/request-load";
+      const context = { params: Promise.resolve({ token: "ssa-link-token" }) };
+
+      const page = await showRequestPage(new NextRequest(url), context);
+      expect(page.status).toBe(200);
+      expect(page.headers.get("Content-Type")).toContain("text/html");
+      const html = await page.text();
+      expect(html).toContain("Addis Ababa → Adama");
+      expect(html).toContain('<form method="POST">');
+      expect(createLoadRequest).not.toHaveBeenCalled();
+
+      const res = await requestFromLink(
+        new NextRequest(url, { method: "POST" }),
+        context
+      );
+      expect(res.status).toBe(303);
+      expect(res.headers.get("Location")).toContain("/carrier/requests");
+      expect(createLoadRequest).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -333,6 +333,74 @@ describe("lib/serviceFeeManagement", () => {
       expect(result.carrierFee).toBe(360); // 120 * 3
     });
 
+    it("should bill a consolidated load its own distance, not a weight share", async () => {
+      const mockCorridor = {
+        id: "corridor-1",
+        distanceKm: 300,
+        shipperPricePerKm: 5,
+        carrierPricePerKm: 3,
+        pricePerKm: 5,
+      };
+
+      mockDb.load.findUnique.mockResolvedValue({
+        id: "load-ltl",
+        shipperId: "shipper-1",
+        corridorId: "corridor-1",
+        corridor: mockCorridor,
+        shipperFeeStatus: "PENDING",
+        carrierFeeStatus: "PENDING",
+        actualTripKm: 120, // GPS distance of this load's own trip
+        assignedTruck: {
+          carrierId: "carrier-1",
+          carrier: { id: "carrier-1", name: "Test Carrier" },
+        },
+        shipper: { id: "shipper-1", name: "Test Shipper" },
+        trip: { consolidationId: "run-1" },
+      });
+      // A quarter of the run's weight
+      mockDb.trip.findFirst.mockResolvedValue({ consolidationShare: 0.25 });
+
+      mockDb.financialAccount.findFirst
+        .mockResolvedValueOnce({ id: "shipper-wallet", balance: 1000 })
+        .mockResolvedValueOnce({ id: "carrier-wallet", balance: 1000 })
+        .mockResolvedValueOnce({ id: "platform-account" });
+
+      const journalCreate = jest.fn().mockResolvedValue({ id: "journal-1" });
+      mockDb.$transaction.mockImplementation(
+        async (fn: (tx: unknown) => Promise<unknown>) =>
+          fn({
+            financialAccount: {
+              findUnique: jest.fn().mockResolvedValue({ balance: 1000 }),
+              update: jest.fn().mockResolvedValue({ balance: 400 }),
+            },
+            journalEntry: { create: journalCreate },
+            load: {
+              findUnique: jest.fn().mockResolvedValue({
+                shipperFeeStatus: "PENDING",
+                carrierFeeStatus: "PENDING",
+              }),
+              update: jest.fn().mockResolvedValue({}),
+            },
+          })
+      );
+
+      const result = await deductServiceFee("load-ltl");
+
+      expect(result.shipperFee).toBe(600); // 120 * 5
+      expect(result.carrierFee).toBe(360); // 120 * 3
+      // The share is reported, not applied
+      expect(journalCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            metadata: expect.objectContaining({
+              distanceKm: 120,
+              consolidationShare: 0.25,
+            }),
+          }),
+        })
+      );
+    });
+
     it("should handle insufficient shipper balance", async () => {
       const mockCorridor = {
         id: "corridor-1",
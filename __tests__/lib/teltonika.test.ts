@@ -0,0 +1,263 @@
+/**
+ * Teltonika Protocol Tests
+ *
+ * Tests for lib/gpsProtocols/teltonika.ts (Codec 8 / 8E decoding and CRC)
+ * and the lib/gpsTcpServer.ts Teltonika listener, replaying captured tracker
+ * frames over TCP.
+ */
+
+import net from "net";
+import { db } from "@/lib/db";
+import {
+  crc16Ibm,
+  readAvlFrame,
+  readImeiHandshake,
+  teltonikaDecoder,
+  toGpsPosition,
+} from "@/lib/gpsProtocols/teltonika";
+import { GpsProtocolError } from "@/lib/gpsProtocols/types";
+import { createGpsTcpServer } from "@/lib/gpsTcpServer";
+import {
+  closeServer,
+  listenOnFreePort,
+  openReplaySession,
+} from "../utils/gpsReplay";
+
+// IMEI handshake for 356307042441013
+const HANDSHAKE = "000F333536333037303432343431303133";
+
+// Sample frames from the Teltonika protocol documentation (no GPS fix)
+const CODEC8_SAMPLE =
+  "000000000000003608010000016B40D8EA30010000000000000000000000000000000105021503010101425E0F01F10000601A014E0000000000000000010000C7CF";
+const CODEC8_TWO_RECORDS =
+  "000000000000004308020000016B40D57B480100000000000000000000000000000001010101000000000000016B40D5C198010000000000000000000000000000000101010101000000020000252C";
+const CODEC8E_SAMPLE =
+  "000000000000004A8E010000016B412CEE000100000000000000000000000000000000010005000100010100010011001D00010010015E2C880002000B000000003544C87A000E000000001DD7E06A00000100002994";
+
+// FMB920 in Addis Ababa: two Codec 8E records with a fix, 30 s apart
+const CODEC8E_ADDIS =
+  "000000000000005D8E020000019E8232600000171741400561DE600933005A0C003E00000002000100EF010001004232000000000000000000019E8232D53000171830720561D98D092400870B004600000002000100EF010001004232000000000000000200008430";
+// Same device on Codec 8: a record without a fix, then a parked record
+const CODEC8_ADDIS =
+  "000000000000004908020000019E82334A6000000000000000000000000000000000000201EF010142320000000000019E8233BF90001718F6C00561E24809100078090000000201EF010142320000000200001A5F";
+
+const frame = (hex: string) => Buffer.from(hex, "hex");
+
+describe("Teltonika Codec 8 / 8E decoding", () => {
+  it("computes the CRC-16/IBM of the data field", () => {
+    const data = frame(CODEC8_SAMPLE).subarray(8, -4);
+    expect(crc16Ibm(data)).toBe(0xc7cf);
+  });
+
+  it("reads the IMEI handshake", () => {
+    expect(readImeiHandshake(frame(HANDSHAKE))).toEqual({
+      imei: "356307042441013",
+      byteLength: 17,
+    });
+    expect(readImeiHandshake(frame(HANDSHAKE).subarray(0, 10))).toBeNull();
+    expect(() => readImeiHandshake(frame("0003414243"))).toThrow(
+      GpsProtocolError
+    );
+  });
+
+  it("decodes Codec 8 IO elements of every size", () => {
+    const result = readAvlFrame(frame(CODEC8_SAMPLE));
+    expect(result).toMatchObject({ status: "ok", byteLength: 66 });
+    if (result.status !== "ok") return;
+
+    const [record] = result.packet.records;
+    expect(record.timestamp).toEqual(new Date("2019-06-10T10:04:46Z"));
+    expect(record.eventIoId).toBe(1);
+    expect(record.io).toEqual({
+      1: 1,
+      21: 3,
+      66: 24079,
+      241: 24602,
+      78: BigInt(0),
+    });
+  });
+
+  it("decodes multiple records per packet", () => {
+    const result = readAvlFrame(frame(CODEC8_TWO_RECORDS));
+    expect(result.status === "ok" && result.packet.records).toHaveLength(2);
+  });
+
+  it("decodes Codec 8 Extended 2-byte IO IDs", () => {
+    const result = readAvlFrame(frame(CODEC8E_SAMPLE));
+    expect(result).toMatchObject({ status: "ok", packet: { codecId: 0x8e } });
+    if (result.status !== "ok") return;
+    expect(result.packet.records[0].io).toMatchObject({
+      16: 22949000,
+      11: BigInt(893700218),
+      14: BigInt(500686954),
+    });
+  });
+
+  it("maps records with a fix to GPS positions", () => {
+    const result = readAvlFrame(frame(CODEC8E_ADDIS));
+    if (result.status !== "ok") throw new Error(result.status);
+
+    expect(result.packet.records.map(toGpsPosition)).toEqual([
+      {
+        latitude: 9.03,
+        longitude: 38.74,
+        speed: 62,
+        heading: 90,
+        altitude: 2355,
+        timestamp: new Date("2026-06-01T08:00:00Z"),
+      },
+      {
+        latitude: 9.0298765,
+        longitude: 38.7461234,
+        speed: 70,
+        heading: 135,
+        altitude: 2340,
+        timestamp: new Date("2026-06-01T08:00:30Z"),
+      },
+    ]);
+  });
+
+  it("drops records without a fix", () => {
+    const result = readAvlFrame(frame(CODEC8_SAMPLE));
+    if (result.status !== "ok") throw new Error(result.status);
+    expect(toGpsPosition(result.packet.records[0])).toBeNull();
+  });
+
+  it("waits for the rest of a partial packet", () => {
+    expect(readAvlFrame(frame(CODEC8_SAMPLE).subarray(0, 40))).toEqual({
+      status: "incomplete",
+    });
+  });
+
+  it("reports a CRC mismatch", () => {
+    const corrupted = frame(CODEC8_SAMPLE);
+    corrupted[20] ^= 0xff;
+    expect(readAvlFrame(corrupted)).toEqual({
+      status: "crc_mismatch",
+      byteLength: 66,
+    });
+  });
+
+  it("rejects packets without the zero preamble", () => {
+    expect(() => readAvlFrame(frame(HANDSHAKE + "0000000000"))).toThrow(
+      GpsProtocolError
+    );
+  });
+});
+
+describe("Teltonika TCP server replay", () => {
+  let server: net.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    await db.truck.create({
+      data: {
+        id: "tt-truck",
+        truckType: "DRY_VAN",
+        licensePlate: "AA-3-12345",
+        capacity: 20000,
+        carrierId: "tt-carrier",
+      },
+    });
+    // The device → truck link is the reverse relation Truck.gpsDevice
+    await db.gpsDevice.create({
+      data: { id: "tt-device", imei: "356307042441013", truckId: "tt-truck" },
+    });
+
+    server = createGpsTcpServer(teltonikaDecoder);
+    port = await listenOnFreePort(server);
+  });
+
+  afterAll(() => closeServer(server));
+
+  function positions() {
+    return db.gpsPosition.findMany({ where: { deviceId: "tt-device" } });
+  }
+
+  it("rejects an unknown IMEI and closes the connection", async () => {
+    const session = await openReplaySession(port);
+    await session.send("000F333536333037303432343439393939");
+
+    expect(await session.read(1)).toEqual(Buffer.from([0x00]));
+    await session.closed;
+  });
+
+  it("ingests records and ACKs the record count", async () => {
+    const session = await openReplaySession(port);
+    await session.send(HANDSHAKE);
+    expect(await session.read(1)).toEqual(Buffer.from([0x01]));
+
+    await session.send(CODEC8E_ADDIS);
+    expect(await session.read(4)).toEqual(frame("00000002"));
+    session.close();
+
+    const stored = await positions();
+    expect(stored).toHaveLength(2);
+    expect(stored[0]).toMatchObject({
+      truckId: "tt-truck",
+      source: "ELD_HARDWARE",
+      timestamp: new Date("2026-06-01T08:00:00Z"),
+    });
+    expect(Number(stored[0].latitude)).toBe(9.03);
+    expect(Number(stored[1].speed)).toBe(70);
+
+    const device = await db.gpsDevice.findUnique({
+      where: { id: "tt-device" },
+    });
+    expect(device!.lastSeenAt).toBeInstanceOf(Date);
+  });
+
+  it("reassembles packets split across TCP segments", async () => {
+    const session = await openReplaySession(port);
+    await session.send(HANDSHAKE, 5);
+    expect(await session.read(1)).toEqual(Buffer.from([0x01]));
+
+    // Both records are ACKed; only the one with a fix is stored
+    await session.send(CODEC8_ADDIS, 7);
+    expect(await session.read(4)).toEqual(frame("00000002"));
+    session.close();
+
+    expect(await positions()).toHaveLength(3);
+  });
+
+  it("ACKs back-to-back packets from one write in order", async () => {
+    const session = await openReplaySession(port);
+    await session.send(HANDSHAKE + CODEC8_SAMPLE + CODEC8_TWO_RECORDS);
+
+    expect(await session.read(9)).toEqual(
+      frame("01" + "00000001" + "00000002")
+    );
+    session.close();
+
+    // Documentation samples have no fix
+    expect(await positions()).toHaveLength(3);
+  });
+
+  it("ACKs 0 for a corrupted packet so the device resends it", async () => {
+    const corrupted = frame(CODEC8E_ADDIS);
+    corrupted[30] ^= 0xff;
+
+    const session = await openReplaySession(port);
+    await session.send(HANDSHAKE);
+    await session.read(1);
+
+    await session.send(corrupted);
+    expect(await session.read(4)).toEqual(frame("00000000"));
+
+    await session.send(CODEC8E_ADDIS);
+    expect(await session.read(4)).toEqual(frame("00000002"));
+    session.close();
+
+    // The first test stored these records already; duplicates are dropped
+    expect(await positions()).toHaveLength(3);
+  });
+
+  it("drops the connection on data that is not a Teltonika packet", async () => {
+    const session = await openReplaySession(port);
+    await session.send(HANDSHAKE);
+    await session.read(1);
+
+    await session.send("474554202F20485454502F312E310D0A0D0A");
+    await session.closed;
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Tour Planner Tests
+ *
+ * Tests for lib/tourPlanner.ts: fitting loads into pickup and delivery
+ * dock windows, chaining loads from a start position, and tours planned
+ * from a truck's posting and open loads.
+ */
+
+import { db } from "@/lib/db";
+import {
+  dockWindow,
+  planTours,
+  scheduleLoad,
+  searchTours,
+  TourCandidate,
+} from "@/lib/tourPlanner";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const ADDIS = { lat: 9.03, lng: 38.74 };
+const ADAMA = { lat: 8.54, lng: 39.27 };
+const DIRE_DAWA = { lat: 9.6, lng: 41.85 };
+
+/** Local `hour`:00 `days` from today */
+function at(days: number, hour: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return new Date(date.getTime() + days * DAY + hour * HOUR);
+}
+
+function candidate(
+  id: string,
+  origin: typeof ADDIS,
+  destination: typeof ADDIS,
+  overrides: Partial<TourCandidate> = {}
+): TourCandidate {
+  return {
+    id,
+    pickupCity: null,
+    deliveryCity: null,
+    origin,
+    destination,
+    tripKm: null,
+    weight: 5000,
+    pickupDate: at(1, 0),
+    pickupDockHours: null,
+    deliveryDate: at(1, 0),
+    deliveryDockHours: null,
+    ...overrides,
+  };
+}
+
+describe("scheduleLoad", () => {
+  const load = {
+    pickupDate: at(1, 0),
+    pickupDockHours: "8:00 AM - 5:00 PM",
+    deliveryDate: at(1, 0),
+    deliveryDockHours: "8:00 AM - 8:00 PM",
+  };
+
+  it("parses dock hours into a window on the load's date", () => {
+    expect(dockWindow(load.pickupDate, load.pickupDockHours)).toEqual({
+      opensAt: at(1, 8),
+      closesAt: at(1, 17),
+    });
+    expect(dockWindow(load.pickupDate, null)).toEqual({
+      opensAt: at(1, 0),
+      closesAt: at(2, 0),
+    });
+  });
+
+  it("waits for the pickup dock to open", () => {
+    const schedule = scheduleLoad(at(1, 5), 60, 120, load);
+    expect(schedule).toEqual({
+      pickupAt: at(1, 8),
+      deliverAt: at(1, 12), // 2h loading + 2h driving
+      freeAt: at(1, 14),
+    });
+  });
+
+  it("rejects a load whose pickup dock closes before the truck arrives", () => {
+    expect(scheduleLoad(at(1, 15), 180, 60, load)).toBeNull();
+  });
+
+  it("rejects a load the truck cannot deliver before the dock closes", () => {
+    expect(scheduleLoad(at(1, 10), 0, 9 * 60, load)).toBeNull();
+  });
+
+  it("delivers ahead of the delivery date during dock hours", () => {
+    const schedule = scheduleLoad(at(1, 8), 0, 9 * 60, {
+      ...load,
+      deliveryDate: at(3, 0),
+    });
+    // Arrives 19:00, dock open until 20:00
+    expect(schedule?.deliverAt).toEqual(at(1, 19));
+
+    const late = scheduleLoad(at(1, 12), 0, 9 * 60, {
+      ...load,
+      deliveryDate: at(3, 0),
+    });
+    // Arrives 23:00 after closing, unloads when the dock opens
+    expect(late?.deliverAt).toEqual(at(2, 8));
+  });
+
+  it("adds a rest break to long legs", () => {
+    const schedule = scheduleLoad(at(1, 8), 0, 11 * 60, {
+      ...load,
+      deliveryDate: at(2, 0),
+      deliveryDockHours: null,
+    });
+    // 2h loading + 11h driving + 10h rest
+    expect(schedule?.deliverAt).toEqual(at(2, 7));
+  });
+});
+
+describe("searchTours", () => {
+  const options = { maxLoads: 3, maxDeadheadKm: 200, limit: 10 };
+
+  it("chains a backhaul after the outbound load", async () => {
+    const tours = await searchTours(
+      { position: ADDIS, availableAt: at(1, 6) },
+      [
+        candidate("tour-out", ADDIS, ADAMA),
+        candidate("tour-back", ADAMA, ADDIS),
+        // Picks up in Addis but needs a long empty leg from Adama first
+        candidate("tour-far", DIRE_DAWA, ADDIS),
+      ],
+      options
+    );
+
+    expect(tours[0].legs.map((l) => l.loadId)).toEqual([
+      "tour-out",
+      "tour-back",
+    ]);
+    expect(tours[0].deadheadKm).toBe(0);
+    expect(tours[0].loadedKm).toBeGreaterThan(150);
+    expect(tours[0].loadedShare).toBe(100);
+    expect(tours[0].legs[1].pickupAt.getTime()).toBeGreaterThan(
+      tours[0].legs[0].deliverAt.getTime()
+    );
+    expect(tours.some((t) => t.legs.some((l) => l.loadId === "tour-far"))).toBe(
+      false
+    );
+  });
+
+  it("skips a backhaul whose pickup window has closed", async () => {
+    const tours = await searchTours(
+      { position: ADDIS, availableAt: at(1, 6) },
+      [
+        candidate("tour-out", ADDIS, ADAMA),
+        candidate("tour-back", ADAMA, ADDIS, {
+          pickupDockHours: "8:00 AM - 9:00 AM",
+        }),
+      ],
+      options
+    );
+
+    // Only the reverse order still fits: backhaul first, outbound after
+    expect(tours.map((t) => t.legs.map((l) => l.loadId))).toEqual([
+      ["tour-back", "tour-out"],
+    ]);
+  });
+
+  it("never chains more than maxLoads loads", async () => {
+    const tours = await searchTours(
+      { position: ADDIS, availableAt: at(1, 0) },
+      [
+        candidate("tour-1", ADDIS, ADAMA),
+        candidate("tour-2", ADAMA, ADDIS),
+        candidate("tour-3", ADDIS, ADAMA, { pickupDate: at(2, 0) }),
+        candidate("tour-4", ADAMA, ADDIS, {
+          pickupDate: at(2, 0),
+          deliveryDate: at(3, 0),
+        }),
+      ],
+      { ...options, maxLoads: 2 }
+    );
+
+    expect(tours.length).toBeGreaterThan(0);
+    expect(tours.every((t) => t.legs.length === 2)).toBe(true);
+  });
+});
+
+describe("planTours", () => {
+  beforeAll(async () => {
+    const cities = [
+      { id: "tour-addis", name: "Addis Ababa", ...ADDIS },
+      { id: "tour-adama", name: "Adama", ...ADAMA },
+    ];
+    for (const city of cities) {
+      await db.ethiopianLocation.create({
+        data: {
+          id: city.id,
+          name: city.name,
+          latitude: city.lat,
+          longitude: city.lng,
+          region: "Oromia",
+          isActive: true,
+        },
+      });
+    }
+
+    await db.truck.create({
+      data: {
+        id: "tour-truck",
+        carrierId: "tour-carrier",
+        truckType: "DRY_VAN",
+        licensePlate: "TOUR-1",
+        capacity: 10000,
+        approvalStatus: "APPROVED",
+        isAvailable: true,
+      },
+    });
+    await db.truckPosting.create({
+      data: {
+        id: "tour-posting",
+        truckId: "tour-truck",
+        carrierId: "tour-carrier",
+        originCityId: "tour-addis",
+        availableFrom: new Date(),
+        status: "ACTIVE",
+      },
+    });
+
+    const load = {
+      status: "POSTED",
+      assignedTruckId: null,
+      shipperId: "tour-shipper",
+      truckType: "DRY_VAN",
+      weight: 8000,
+      pickupDate: at(1, 0),
+      deliveryDate: at(1, 0),
+    };
+    await db.load.create({
+      data: {
+        ...load,
+        id: "tour-load-out",
+        pickupCity: "Addis Ababa",
+        pickupLocationId: "tour-addis",
+        deliveryCity: "Adama",
+        deliveryLocationId: "tour-adama",
+      },
+    });
+    await db.load.create({
+      data: {
+        ...load,
+        id: "tour-load-back",
+        pickupCity: "Adama",
+        pickupLocationId: "tour-adama",
+        deliveryCity: "Addis Ababa",
+        deliveryLocationId: "tour-addis",
+      },
+    });
+    // Too heavy for the truck
+    await db.load.create({
+      data: {
+        ...load,
+        id: "tour-load-heavy",
+        weight: 20000,
+        pickupCity: "Adama",
+        pickupLocationId: "tour-adama",
+        deliveryCity: "Addis Ababa",
+        deliveryLocationId: "tour-addis",
+      },
+    });
+  });
+
+  it("plans from the posting origin when the truck has no location", async () => {
+    const result = await planTours("tour-truck", {
+      horizonDays: 3,
+      maxLoads: 3,
+      maxDeadheadKm: 200,
+      limit: 10,
+    });
+
+    if ("error" in result) throw new Error(result.error);
+    expect(result.plan.start.source).toBe("posting");
+    expect(result.plan.candidateCount).toBe(2);
+    expect(result.plan.tours[0].legs.map((l) => l.loadId)).toEqual([
+      "tour-load-out",
+      "tour-load-back",
+    ]);
+  });
+
+  it("reports an unknown truck", async () => {
+    const result = await planTours("tour-missing", {
+      horizonDays: 3,
+      maxLoads: 3,
+      maxDeadheadKm: 200,
+      limit: 10,
+    });
+    expect(result).toEqual({ error: "Truck not found", status: 404 });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * GPS Tracker Packet Replay Harness
+ *
+ * Replays captured tracker frames (hex strings) against a GPS TCP server
+ * listening on an ephemeral localhost port, the way a device would: over
+ * one connection, optionally split into small TCP segments, reading the
+ * server's ACK bytes back.
+ */
+
+import net from "net";
+
+const READ_TIMEOUT_MS = 2000;
+
+export interface ReplaySession {
+  /**
+   * Send a frame (hex string or raw bytes), split into segments of at most
+   * `segmentSize` bytes
+   */
+  send(frame: string | Buffer, segmentSize?: number): Promise<void>;
+  /** Wait for exactly `length` response bytes */
+  read(length: number): Promise<Buffer>;
+  /** Resolves when the server closes the connection */
+  closed: Promise<void>;
+  close(): void;
+}
+
+/**
+ * Start the server on a free localhost port
+ */
+export async function listenOnFreePort(server: net.Server): Promise<number> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return (server.address() as net.AddressInfo).port;
+}
+
+export async function closeServer(server: net.Server): Promise<void> {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+/**
+ * Open a device connection to the server
+ */
+export async function openReplaySession(port: number): Promise<ReplaySession> {
+  const socket = net.connect(port, "127.0.0.1");
+  await new Promise<void>((resolve, reject) => {
+    socket.once("connect", resolve);
+    socket.once("error", reject);
+  });
+
+  let received = Buffer.alloc(0);
+  let onData: (() => void) | null = null;
+  socket.on("data", (chunk) => {
+    received = Buffer.concat([received, chunk]);
+    onData?.();
+  });
+  const closed = new Promise<void>((resolve) => socket.once("close", resolve));
+
+  return {
+    async send(frame, segmentSize) {
+      const bytes =
+        typeof frame === "string" ? Buffer.from(frame, "hex") : frame;
+      const size = segmentSize ?? bytes.length;
+      for (let offset = 0; offset < bytes.length; offset += size) {
+        await new Promise<void>((resolve) =>
+          socket.write(bytes.subarray(offset, offset + size), () => resolve())
+        );
+        // Give the server a tick so each segment arrives as its own chunk
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+    },
+
+    read(length) {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          onData = null;
+          reject(
+            new Error(
+              `Timed out waiting for ${length} bytes (got ${received.length})`
+            )
+          );
+        }, READ_TIMEOUT_MS);
+        const check = () => {
+          if (received.length < length) return;
+          clearTimeout(timer);
+          onData = null;
+          const response = received.subarray(0, length);
+          received = received.subarray(length);
+          resolve(response);
+        };
+        onData = check;
+        check();
+      });
+    },
+
+    closed,
+
+    close() {
+      socket.destroy();
+    },
+  };
+}
@@ -318,6 +318,9 @@ export function mockNotifications() {
       TRIP_DELIVERED: "TRIP_DELIVERED",
       EXCEPTION_RESOLVED: "EXCEPTION_RESOLVED",
       EXCEPTION_CREATED: "EXCEPTION_CREATED",
+      ROUTE_DEVIATION: "ROUTE_DEVIATION",
+      UNSAFE_DRIVING: "UNSAFE_DRIVING",
+      DEVICE_ALARM: "DEVICE_ALARM",
       SYSTEM: "SYSTEM",
       MATCH_PROPOSAL: "MATCH_PROPOSAL",
       MATCH_PROPOSAL_ACCEPTED: "MATCH_PROPOSAL_ACCEPTED",
@@ -327,6 +330,7 @@ export function mockNotifications() {
       DELIVERY_CONFIRMED: "DELIVERY_CONFIRMED",
       SETTLEMENT_COMPLETE: "SETTLEMENT_COMPLETE",
       PARTIAL_FEE_COLLECTION: "PARTIAL_FEE_COLLECTION",
+      DETENTION_CHARGE_PENDING: "DETENTION_CHARGE_PENDING",
       SERVICE_FEE_DEDUCTED: "SERVICE_FEE_DEDUCTED",
       SERVICE_FEE_REFUNDED: "SERVICE_FEE_REFUNDED",
       TRUCK_APPROVED: "TRUCK_APPROVED",
@@ -341,6 +345,11 @@ export function mockNotifications() {
       LOW_BALANCE_WARNING: "LOW_BALANCE_WARNING",
       GPS_NO_DATA: "GPS_NO_DATA",
       SERVICE_FEE_FAILED: "SERVICE_FEE_FAILED",
+      AUCTION_CLOSED: "AUCTION_CLOSED",
+      BID_AWARDED: "BID_AWARDED",
+      BID_NOT_SELECTED: "BID_NOT_SELECTED",
+      DOCK_APPOINTMENT_UPDATED: "DOCK_APPOINTMENT_UPDATED",
+      CARRIER_NETWORK_UPDATED: "CARRIER_NETWORK_UPDATED",
     },
   }));
 }
@@ -409,6 +418,7 @@ export function mockGps() {
     canAccessTracking: jest.fn(async () => true),
     checkGeofenceEvents: jest.fn(async () => []),
     getLoadLivePosition: jest.fn(async () => null),
+    isWithinGeofence: jest.fn(() => false),
     isTrackingActive: jest.fn(async () => true),
     generateTrackingUrl: jest.fn((loadId: string) => `tracking-${loadId}`),
   }));
@@ -637,6 +647,9 @@ export function mockStorage() {
     fileExists: jest.fn(async () => true),
     getStorageProvider: jest.fn(() => "local"),
     isCDNEnabled: jest.fn(() => false),
+    isStorageUrl: jest.fn((url: string) =>
+      url.startsWith("https://storage.test/")
+    ),
   }));
 }
 
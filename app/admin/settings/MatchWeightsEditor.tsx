@@ -0,0 +1,237 @@
+"use client";
+
+/**
+ * Match Weights Editor
+ *
+ * Platform match score weights on the admin Matching tab. Saving creates a
+ * new weight version (lib/matchWeights.ts); shippers with an override keep
+ * their own weights.
+ */
+
+import { useEffect, useState } from "react";
+import { getCSRFToken } from "@/lib/csrfFetch";
+
+interface MatchWeights {
+  route: number;
+  time: number;
+  capacity: number;
+  deadhead: number;
+  reliability: number;
+}
+
+interface WeightVersion extends MatchWeights {
+  profileId: string | null;
+  version: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+const FACTORS: Array<{
+  key: keyof MatchWeights;
+  label: string;
+  helperText: string;
+}> = [
+  {
+    key: "route",
+    label: "Route",
+    helperText: "Origin/destination alignment",
+  },
+  {
+    key: "deadhead",
+    label: "Deadhead",
+    helperText: "Empty distance to pickup",
+  },
+  {
+    key: "capacity",
+    label: "Capacity",
+    helperText: "Weight and truck type fit",
+  },
+  { key: "time", label: "Time", helperText: "Availability vs pickup date" },
+  {
+    key: "reliability",
+    label: "Reliability",
+    helperText: "Carrier trust, insurance and GPS health",
+  },
+];
+
+export default function MatchWeightsEditor() {
+  const [weights, setWeights] = useState<MatchWeights | null>(null);
+  const [saved, setSaved] = useState<MatchWeights | null>(null);
+  const [version, setVersion] = useState(0);
+  const [history, setHistory] = useState<WeightVersion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const loadWeights = async () => {
+    try {
+      const response = await fetch("/api/admin/settings/match-weights");
+      if (!response.ok) throw new Error("Failed to load match weights");
+      const data = await response.json();
+      const { route, time, capacity, deadhead, reliability } = data.weights;
+      setWeights({ route, time, capacity, deadhead, reliability });
+      setSaved({ route, time, capacity, deadhead, reliability });
+      setVersion(data.weights.version);
+      setHistory(data.history);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to load match weights"
+      );
+    }
+  };
+
+  useEffect(() => {
+    loadWeights();
+  }, []);
+
+  if (!weights) {
+    return errorMessage ? (
+      <p className="text-sm text-red-700">{errorMessage}</p>
+    ) : (
+      <p className="text-sm text-gray-500">Loading match weights...</p>
+    );
+  }
+
+  const total =
+    weights.route +
+    weights.time +
+    weights.capacity +
+    weights.deadhead +
+    weights.reliability;
+  const hasChanges = JSON.stringify(weights) !== JSON.stringify(saved);
+
+  const handleSave = async () => {
+    if (total !== 100) {
+      setErrorMessage("Weights must add up to 100");
+      return;
+    }
+
+    setIsSaving(true);
+    setErrorMessage("");
+    setMessage("");
+
+    try {
+      const csrfToken = await getCSRFToken();
+      const response = await fetch("/api/admin/settings/match-weights", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        body: JSON.stringify(weights),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to save match weights");
+      }
+
+      await loadWeights();
+      setMessage("Match weights saved");
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to save match weights"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="mb-4 text-lg font-medium text-gray-900">
+          Match Score Weights
+        </h3>
+        <p className="mb-6 text-sm text-gray-600">
+          Share of the 100-point match score each factor can earn. Applies to
+          both load and truck matching; shippers may set their own weights for
+          their loads. Current version: {version === 0 ? "built-in" : version}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-5">
+        {FACTORS.map(({ key, label, helperText }) => (
+          <div key={key}>
+            <label className="mb-2 block text-sm font-medium text-gray-700">
+              {label}
+            </label>
+            <input
+              type="number"
+              value={weights[key]}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (!isNaN(value)) setWeights({ ...weights, [key]: value });
+              }}
+              min={0}
+              max={100}
+              className="w-full rounded-lg border border-gray-300 px-4 py-2 focus:border-transparent focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">{helperText}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p
+          className={`text-sm ${total === 100 ? "text-gray-600" : "font-medium text-red-700"}`}
+        >
+          Total: {total} / 100
+        </p>
+        <div className="flex items-center gap-3">
+          {message && <span className="text-sm text-green-700">{message}</span>}
+          {errorMessage && (
+            <span className="text-sm text-red-700">{errorMessage}</span>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!hasChanges || isSaving || total !== 100}
+            className="rounded-lg bg-blue-600 px-6 py-2 font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Weights"}
+          </button>
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="border-t border-gray-200 pt-4">
+          <h4 className="mb-3 text-sm font-medium text-gray-700">
+            Saved Versions
+          </h4>
+          <table className="w-full text-left text-sm text-gray-600">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="py-1">Version</th>
+                <th className="py-1">Route</th>
+                <th className="py-1">Deadhead</th>
+                <th className="py-1">Capacity</th>
+                <th className="py-1">Time</th>
+                <th className="py-1">Reliability</th>
+                <th className="py-1">Saved</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((entry) => (
+                <tr key={entry.version}>
+                  <td className="py-1">
+                    v{entry.version}
+                    {entry.isActive && " (active)"}
+                  </td>
+                  <td className="py-1">{entry.route}</td>
+                  <td className="py-1">{entry.deadhead}</td>
+                  <td className="py-1">{entry.capacity}</td>
+                  <td className="py-1">{entry.time}</td>
+                  <td className="py-1">{entry.reliability}</td>
+                  <td className="py-1">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,7 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { getCSRFToken } from "@/lib/csrfFetch";
+import MatchWeightsEditor from "./MatchWeightsEditor";
 
 interface SystemSettings {
   id: string;
@@ -41,6 +42,15 @@ interface SystemSettings {
   requireEmailVerification: boolean;
   requirePhoneVerification: boolean;
 
+  // Route Deviation Detection
+  routeDeviationCorridorKm: number;
+  routeDeviationMinMinutes: number;
+
+  // Driving Safety speed limits
+  speedLimitUrbanKmh: number;
+  speedLimitRuralKmh: number;
+  speedLimitExpresswayKmh: number;
+
   // Metadata
   lastModifiedBy: string;
   lastModifiedAt: string;
@@ -340,6 +350,10 @@ export default function SystemSettingsClient({
                   (Minimum &lt; Good &lt; Excellent)
                 </p>
               </div>
+
+              <div className="border-t border-gray-200 pt-6">
+                <MatchWeightsEditor />
+              </div>
             </div>
           )}
 
@@ -578,6 +592,80 @@ export default function SystemSettingsClient({
                     />
                   </div>
                 </div>
+
+                <div className="border-t border-gray-200 pt-4">
+                  <h4 className="mb-3 text-sm font-medium text-gray-700">
+                    Route Deviation Detection
+                  </h4>
+                  <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                    <NumberInput
+                      label="Route Corridor Width"
+                      value={settings.routeDeviationCorridorKm}
+                      onChange={(val) =>
+                        handleNumberChange("routeDeviationCorridorKm", val)
+                      }
+                      helperText="Max distance a truck may stray from the planned route"
+                      min={1}
+                      max={100}
+                      suffix="km"
+                    />
+
+                    <NumberInput
+                      label="Time Off Route"
+                      value={settings.routeDeviationMinMinutes}
+                      onChange={(val) =>
+                        handleNumberChange("routeDeviationMinMinutes", val)
+                      }
+                      helperText="Minutes outside the corridor before escalating"
+                      min={1}
+                      max={240}
+                      suffix="min"
+                    />
+                  </div>
+                </div>
+
+                <div className="border-t border-gray-200 pt-4">
+                  <h4 className="mb-3 text-sm font-medium text-gray-700">
+                    Driving Safety Speed Limits
+                  </h4>
+                  <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+                    <NumberInput
+                      label="Urban Roads"
+                      value={settings.speedLimitUrbanKmh}
+                      onChange={(val) =>
+                        handleNumberChange("speedLimitUrbanKmh", val)
+                      }
+                      helperText="Inside URBAN speed limit zones"
+                      min={10}
+                      max={150}
+                      suffix="km/h"
+                    />
+
+                    <NumberInput
+                      label="Rural Roads"
+                      value={settings.speedLimitRuralKmh}
+                      onChange={(val) =>
+                        handleNumberChange("speedLimitRuralKmh", val)
+                      }
+                      helperText="Outside every speed limit zone"
+                      min={10}
+                      max={150}
+                      suffix="km/h"
+                    />
+
+                    <NumberInput
+                      label="Expressways"
+                      value={settings.speedLimitExpresswayKmh}
+                      onChange={(val) =>
+                        handleNumberChange("speedLimitExpresswayKmh", val)
+                      }
+                      helperText="Inside EXPRESSWAY speed limit zones"
+                      min={10}
+                      max={150}
+                      suffix="km/h"
+                    />
+                  </div>
+                </div>
               </div>
             </div>
           )}
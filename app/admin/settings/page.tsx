@@ -41,6 +41,15 @@ interface SystemSettings {
   requireEmailVerification: boolean;
   requirePhoneVerification: boolean;
 
+  // Route Deviation Detection
+  routeDeviationCorridorKm: number;
+  routeDeviationMinMinutes: number;
+
+  // Driving Safety speed limits
+  speedLimitUrbanKmh: number;
+  speedLimitRuralKmh: number;
+  speedLimitExpresswayKmh: number;
+
   // Metadata
   lastModifiedBy: string;
   lastModifiedAt: string;
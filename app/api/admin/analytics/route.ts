@@ -218,6 +218,7 @@ export async function GET(request: NextRequest) {
           mttrByType: slaMetrics.exceptions.mttrByType,
           mttrByPriority: slaMetrics.exceptions.mttrByPriority,
         },
+        detention: slaMetrics.detention,
       },
     });
   } catch (error) {
@@ -73,6 +73,9 @@ const updateCorridorSchema = z.object({
   carrierPricePerKm: z.number().min(0).max(100).optional(),
   carrierPromoFlag: z.boolean().optional(),
   carrierPromoPct: z.number().min(0).max(100).nullable().optional(),
+  // Detention terms
+  detentionFreeMinutes: z.number().int().min(0).max(1440).nullable().optional(),
+  detentionRatePerHour: z.number().min(0).nullable().optional(),
 });
 
 /**
@@ -170,6 +173,12 @@ export async function GET(
         carrierPromoPct: corridor.carrierPromoPct
           ? Number(corridor.carrierPromoPct)
           : null,
+        // Detention terms
+        detentionFreeMinutes: corridor.detentionFreeMinutes,
+        detentionRatePerHour:
+          corridor.detentionRatePerHour != null
+            ? Number(corridor.detentionRatePerHour)
+            : null,
         createdAt: corridor.createdAt,
         updatedAt: corridor.updatedAt,
         createdBy: corridor.createdBy,
@@ -330,6 +339,16 @@ export async function PATCH(
           : null;
     }
 
+    if (validatedData.detentionFreeMinutes !== undefined) {
+      updateData.detentionFreeMinutes = validatedData.detentionFreeMinutes;
+    }
+    if (validatedData.detentionRatePerHour !== undefined) {
+      updateData.detentionRatePerHour =
+        validatedData.detentionRatePerHour !== null
+          ? new Decimal(validatedData.detentionRatePerHour)
+          : null;
+    }
+
     const corridor = await db.corridor.update({
       where: { id },
       data: updateData,
@@ -366,6 +385,12 @@ export async function PATCH(
         carrierPromoPct: corridor.carrierPromoPct
           ? Number(corridor.carrierPromoPct)
           : null,
+        // Detention terms
+        detentionFreeMinutes: corridor.detentionFreeMinutes,
+        detentionRatePerHour:
+          corridor.detentionRatePerHour != null
+            ? Number(corridor.detentionRatePerHour)
+            : null,
         // Fee previews for both parties
         serviceFeePreview: calculateDualPartyFeePreview(
           Number(corridor.distanceKm),
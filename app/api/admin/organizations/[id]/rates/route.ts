@@ -8,8 +8,11 @@ export const dynamic = "force-dynamic";
  *   Organization.shipperRatePerKm, carrierRatePerKm
  *   Organization.shipperPromoFlag, shipperPromoPct
  *   Organization.carrierPromoFlag, carrierPromoPct
+ *   Organization.detentionFreeMinutes, detentionRatePerHour
  *
  * These override the corridor rate in deductServiceFee() at fee collection time.
+ * Detention terms override the corridor's for the shipper's loads
+ * (lib/detention.ts).
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -30,6 +33,8 @@ const orgRatesSchema = z.object({
   shipperPromoPct: pctSchema.optional(),
   carrierPromoFlag: z.boolean().optional(),
   carrierPromoPct: pctSchema.optional(),
+  detentionFreeMinutes: z.number().int().min(0).max(1440).nullable().optional(),
+  detentionRatePerHour: rateSchema.optional(),
 });
 
 /**
@@ -81,6 +86,10 @@ export async function PATCH(
       updateData.carrierPromoFlag = data.carrierPromoFlag;
     if (data.carrierPromoPct !== undefined)
       updateData.carrierPromoPct = data.carrierPromoPct;
+    if (data.detentionFreeMinutes !== undefined)
+      updateData.detentionFreeMinutes = data.detentionFreeMinutes;
+    if (data.detentionRatePerHour !== undefined)
+      updateData.detentionRatePerHour = data.detentionRatePerHour;
 
     const updated = await db.organization.update({
       where: { id: orgId },
@@ -94,6 +103,8 @@ export async function PATCH(
         shipperPromoPct: true,
         carrierPromoFlag: true,
         carrierPromoPct: true,
+        detentionFreeMinutes: true,
+        detentionRatePerHour: true,
       },
     });
 
@@ -116,6 +127,11 @@ export async function PATCH(
         carrierPromoPct: updated.carrierPromoPct
           ? Number(updated.carrierPromoPct)
           : null,
+        detentionFreeMinutes: updated.detentionFreeMinutes,
+        detentionRatePerHour:
+          updated.detentionRatePerHour != null
+            ? Number(updated.detentionRatePerHour)
+            : null,
       },
     });
   } catch (error) {
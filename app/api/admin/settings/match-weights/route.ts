@@ -0,0 +1,110 @@
+export const dynamic = "force-dynamic";
+/**
+ * Match Weights API
+ *
+ * GET /api/admin/settings/match-weights - Platform match score weights and
+ *     their saved versions
+ * PUT /api/admin/settings/match-weights - Save a new platform weight version
+ *
+ * Shippers may override these weights for their own loads via
+ * /api/shipper/match-weights (see lib/matchWeights.ts). Saving re-scores the
+ * match index in the background (lib/matchIndex.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { handleApiError } from "@/lib/apiErrors";
+import { writeAuditLog, AuditEventType, AuditSeverity } from "@/lib/auditLog";
+import { logger } from "@/lib/logger";
+import { rebuildMatchIndex } from "@/lib/matchIndex";
+import {
+  getMatchWeightHistory,
+  getMatchWeights,
+  matchWeightsSchema,
+  saveMatchWeights,
+} from "@/lib/matchWeights";
+
+function isAdmin(role: string) {
+  return role === "ADMIN" || role === "SUPER_ADMIN";
+}
+
+/**
+ * GET /api/admin/settings/match-weights
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireActiveUser();
+    if (!isAdmin(session.role)) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const [weights, history] = await Promise.all([
+      getMatchWeights(),
+      getMatchWeightHistory(null),
+    ]);
+
+    return NextResponse.json({ weights, history });
+  } catch (error) {
+    return handleApiError(error, "Get match weights error");
+  }
+}
+
+/**
+ * PUT /api/admin/settings/match-weights
+ *
+ * Body: route, time, capacity, deadhead, reliability (integers summing to
+ * 100; reliability defaults to 0)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    if (!isAdmin(session.role)) {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = matchWeightsSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const weights = await saveMatchWeights(null, parsed.data, session.userId);
+
+    await writeAuditLog({
+      eventType: AuditEventType.ADMIN_ACTION,
+      severity: AuditSeverity.INFO,
+      userId: session.userId,
+      resource: "match_weights",
+      resourceId: weights.profileId ?? "platform",
+      action: "MATCH_WEIGHTS_UPDATED",
+      result: "SUCCESS",
+      message: `Platform match weights updated to version ${weights.version}`,
+      metadata: { ...parsed.data, version: weights.version },
+      timestamp: new Date(),
+    });
+
+    // Every stored score moves: rebuild without holding up the response
+    rebuildMatchIndex().catch((error) =>
+      logger.error("Match index rebuild failed", error)
+    );
+
+    return NextResponse.json({
+      weights,
+      message: "Match weights saved",
+    });
+  } catch (error) {
+    return handleApiError(error, "Update match weights error");
+  }
+}
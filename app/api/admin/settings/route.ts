@@ -43,6 +43,15 @@ const settingsSchema = z.object({
   platformMaintenanceMessage: z.string().max(500).optional(),
   requireEmailVerification: z.boolean().optional(),
   requirePhoneVerification: z.boolean().optional(),
+
+  // Route Deviation Detection
+  routeDeviationCorridorKm: z.number().int().min(1).max(100).optional(),
+  routeDeviationMinMinutes: z.number().int().min(1).max(240).optional(),
+
+  // Driving Safety speed limits
+  speedLimitUrbanKmh: z.number().int().min(10).max(150).optional(),
+  speedLimitRuralKmh: z.number().int().min(10).max(150).optional(),
+  speedLimitExpresswayKmh: z.number().int().min(10).max(150).optional(),
 });
 
 /**
@@ -102,6 +111,15 @@ export async function GET(request: NextRequest) {
           requireEmailVerification: false,
           requirePhoneVerification: false,
 
+          // Route Deviation defaults
+          routeDeviationCorridorKm: 5,
+          routeDeviationMinMinutes: 15,
+
+          // Driving Safety defaults
+          speedLimitUrbanKmh: 40,
+          speedLimitRuralKmh: 70,
+          speedLimitExpresswayKmh: 80,
+
           // Metadata
           lastModifiedBy: session.userId,
         },
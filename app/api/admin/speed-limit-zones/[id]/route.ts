@@ -0,0 +1,107 @@
+export const dynamic = "force-dynamic";
+/**
+ * Single Speed Limit Zone API
+ *
+ * PATCH  /api/admin/speed-limit-zones/[id] - Update a zone
+ * DELETE /api/admin/speed-limit-zones/[id] - Delete a zone
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { zodErrorResponse } from "@/lib/validation";
+import { handleApiError } from "@/lib/apiErrors";
+
+const updateZoneSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  roadClass: z.enum(["URBAN", "RURAL", "EXPRESSWAY"]).optional(),
+  limitKmh: z.number().int().min(10).max(150).nullable().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  radiusKm: z.number().positive().max(500).optional(),
+  isActive: z.boolean().optional(),
+});
+
+async function requireAdmin() {
+  const session = await requireAuth();
+  if (session.role !== "ADMIN" && session.role !== "SUPER_ADMIN") {
+    return NextResponse.json(
+      { error: "Admin access required" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+/**
+ * PATCH /api/admin/speed-limit-zones/[id]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const forbidden = await requireAdmin();
+    if (forbidden) return forbidden;
+
+    const { id } = await params;
+    const body = await request.json();
+    const parsed = updateZoneSchema.safeParse(body);
+    if (!parsed.success) {
+      return zodErrorResponse(parsed.error);
+    }
+
+    const existing = await db.speedLimitZone.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Speed limit zone not found" },
+        { status: 404 }
+      );
+    }
+
+    const zone = await db.speedLimitZone.update({
+      where: { id },
+      data: parsed.data,
+    });
+
+    return NextResponse.json({ zone });
+  } catch (error) {
+    return handleApiError(error, "Update speed limit zone error");
+  }
+}
+
+/**
+ * DELETE /api/admin/speed-limit-zones/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const forbidden = await requireAdmin();
+    if (forbidden) return forbidden;
+
+    const { id } = await params;
+    const existing = await db.speedLimitZone.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Speed limit zone not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.speedLimitZone.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "Delete speed limit zone error");
+  }
+}
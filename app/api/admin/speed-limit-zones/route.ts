@@ -0,0 +1,82 @@
+export const dynamic = "force-dynamic";
+/**
+ * Speed Limit Zone Management API
+ *
+ * GET  /api/admin/speed-limit-zones - List zones
+ * POST /api/admin/speed-limit-zones - Create a zone
+ *
+ * A zone gives an area its road class (URBAN, RURAL, EXPRESSWAY) for
+ * speeding detection (lib/drivingSafety.ts), and may override the class
+ * speed limit from the system settings.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { zodErrorResponse } from "@/lib/validation";
+import { handleApiError } from "@/lib/apiErrors";
+
+const createZoneSchema = z.object({
+  name: z.string().min(1).max(100),
+  roadClass: z.enum(["URBAN", "RURAL", "EXPRESSWAY"]),
+  limitKmh: z.number().int().min(10).max(150).nullable().optional(),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  radiusKm: z.number().positive().max(500),
+  isActive: z.boolean().optional().default(true),
+});
+
+/**
+ * GET /api/admin/speed-limit-zones
+ */
+export async function GET() {
+  try {
+    const session = await requireAuth();
+    if (session.role !== "ADMIN" && session.role !== "SUPER_ADMIN") {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const zones = await db.speedLimitZone.findMany({
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ zones });
+  } catch (error) {
+    return handleApiError(error, "List speed limit zones error");
+  }
+}
+
+/**
+ * POST /api/admin/speed-limit-zones
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireAuth();
+    if (session.role !== "ADMIN" && session.role !== "SUPER_ADMIN") {
+      return NextResponse.json(
+        { error: "Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = createZoneSchema.safeParse(body);
+    if (!parsed.success) {
+      return zodErrorResponse(parsed.error);
+    }
+
+    const zone = await db.speedLimitZone.create({ data: parsed.data });
+
+    return NextResponse.json({ zone }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "Create speed limit zone error");
+  }
+}
@@ -15,7 +15,13 @@ import { Prisma } from "@prisma/client";
 const createRuleSchema = z.object({
   name: z.string().min(1).max(255),
   description: z.string().optional(),
-  ruleType: z.enum(["TIME_BASED", "GPS_BASED", "THRESHOLD_BASED", "CUSTOM"]),
+  ruleType: z.enum([
+    "TIME_BASED",
+    "GPS_BASED",
+    "THRESHOLD_BASED",
+    "CUSTOM",
+    "SAFETY_BASED",
+  ]),
   trigger: z.enum([
     "ON_LOAD_CREATED",
     "ON_LOAD_ASSIGNED",
@@ -24,6 +30,7 @@ const createRuleSchema = z.object({
     "ON_STATUS_CHANGE",
     "ON_SCHEDULE",
     "ON_MANUAL",
+    "ON_SAFETY_EVENT",
   ]),
   conditions: z.record(z.string(), z.any()), // JSON object
   actions: z.array(z.record(z.string(), z.any())), // Array of action objects
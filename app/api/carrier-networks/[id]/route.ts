@@ -0,0 +1,127 @@
+export const dynamic = "force-dynamic";
+/**
+ * Individual Carrier Network Membership API
+ *
+ * PATCH  /api/carrier-networks/[id] - Accept an invitation (carrier) or
+ *                                     approve a join request (shipper)
+ * DELETE /api/carrier-networks/[id] - Remove a carrier, decline, or leave
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import {
+  acceptNetworkMember,
+  NetworkMembershipResult,
+  removeNetworkMember,
+  toNetworkParty,
+} from "@/lib/carrierNetworks";
+
+const respondSchema = z.object({
+  action: z.literal("ACCEPT"),
+});
+
+async function checkWriteLimit(request: NextRequest) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "carrier-network-write",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+function toResponse(result: NetworkMembershipResult) {
+  if ("error" in result) {
+    return NextResponse.json(
+      { error: result.error },
+      { status: result.status }
+    );
+  }
+  return NextResponse.json({ membership: result.membership });
+}
+
+/**
+ * PATCH /api/carrier-networks/[id]
+ *
+ * Body: { action: "ACCEPT" }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+    const party = toNetworkParty(session);
+    if (!party) {
+      return NextResponse.json(
+        { error: "Network membership not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = respondSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    return toResponse(await acceptNetworkMember(id, party));
+  } catch (error) {
+    return handleApiError(error, "Error updating carrier network");
+  }
+}
+
+/**
+ * DELETE /api/carrier-networks/[id]
+ *
+ * The carrier stops seeing the shipper's network loads at once; requests it
+ * already made are kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+    const party = toNetworkParty(session);
+    if (!party) {
+      return NextResponse.json(
+        { error: "Network membership not found" },
+        { status: 404 }
+      );
+    }
+
+    return toResponse(await removeNetworkMember(id, party));
+  } catch (error) {
+    return handleApiError(error, "Error updating carrier network");
+  }
+}
@@ -0,0 +1,127 @@
+export const dynamic = "force-dynamic";
+/**
+ * Carrier Networks API
+ *
+ * GET  /api/carrier-networks - Shipper: its network's carriers; carrier: the
+ *                              networks it is in or was invited to
+ * POST /api/carrier-networks - Shipper: invite a carrier; carrier: ask to
+ *                              join a shipper's network
+ *
+ * Network members see the shipper's NETWORK_ONLY and NETWORK_FIRST loads
+ * (see lib/carrierNetworks.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import {
+  addNetworkMember,
+  addNetworkMemberSchema,
+  toNetworkParty,
+} from "@/lib/carrierNetworks";
+
+const organizationSelect = { select: { id: true, name: true, type: true } };
+
+/**
+ * GET /api/carrier-networks
+ *
+ * Query: status (INVITED | REQUESTED | ACTIVE)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireActiveUser();
+    const party = toNetworkParty(session);
+    if (!party) {
+      return NextResponse.json(
+        { error: "Only shippers and carriers have carrier networks" },
+        { status: 403 }
+      );
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    const isShipper = party.role === "SHIPPER";
+    const memberships = await db.carrierNetworkMember.findMany({
+      where: {
+        [isShipper ? "shipperId" : "carrierId"]: party.organizationId,
+        ...(status === "INVITED" ||
+        status === "REQUESTED" ||
+        status === "ACTIVE"
+          ? { status }
+          : {}),
+      },
+      include: isShipper
+        ? { carrier: organizationSelect }
+        : { shipper: organizationSelect },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ memberships });
+  } catch (error) {
+    return handleApiError(error, "Error fetching carrier network");
+  }
+}
+
+/**
+ * POST /api/carrier-networks
+ *
+ * Body: organizationId — the carrier to invite, or the shipper to join.
+ * Answering the other side's pending invitation or request makes the
+ * membership ACTIVE at once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "carrier-networks",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const party = toNetworkParty(session);
+    if (!party) {
+      return NextResponse.json(
+        { error: "Only shippers and carriers have carrier networks" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = addNetworkMemberSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const result = await addNetworkMember(party, parsed.data.organizationId);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(
+      { membership: result.membership },
+      { status: result.membership.status === "ACTIVE" ? 200 : 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, "Error updating carrier network");
+  }
+}
@@ -0,0 +1,53 @@
+export const dynamic = "force-dynamic";
+/**
+ * Carrier Safety Scorecard API
+ *
+ * GET /api/carrier/safety?days=30
+ *
+ * Safety score of the carrier's fleet and of each of its drivers, from the
+ * speeding, harsh driving and long driving events detected on their trips.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireActiveUser } from "@/lib/auth";
+import { handleApiError } from "@/lib/apiErrors";
+import { getCarrierScorecard } from "@/lib/drivingSafety";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireActiveUser();
+
+    if (
+      session.role !== "CARRIER" &&
+      session.role !== "ADMIN" &&
+      session.role !== "SUPER_ADMIN"
+    ) {
+      return NextResponse.json(
+        { error: "Unauthorized - Carrier access required" },
+        { status: 403 }
+      );
+    }
+
+    // Admins can look at any carrier
+    const { searchParams } = new URL(request.url);
+    const carrierId =
+      session.role === "CARRIER"
+        ? session.organizationId
+        : searchParams.get("carrierId") || session.organizationId;
+    if (!carrierId) {
+      return NextResponse.json(
+        { error: "No organization found" },
+        { status: 400 }
+      );
+    }
+
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get("days") || "30") || 30, 1),
+      365
+    );
+
+    return NextResponse.json(await getCarrierScorecard(carrierId, days));
+  } catch (error) {
+    return handleApiError(error, "Get carrier safety scorecard error");
+  }
+}
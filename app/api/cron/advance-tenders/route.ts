@@ -0,0 +1,56 @@
+export const dynamic = "force-dynamic";
+/**
+ * Cron Job: Advance Routing Guide Tenders
+ *
+ * Run every 5 minutes to move loads on to the next preferred carrier when
+ * a routing guide tender has passed its response timeout or was withdrawn.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { advanceDueTenders } from "@/lib/routingGuides";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        {
+          error: !cronSecret
+            ? "Server misconfigured - CRON_SECRET required"
+            : "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await advanceDueTenders();
+
+    return NextResponse.json({
+      success: true,
+      checkedCount: result.checked,
+      advancedCount: result.advanced,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in advance-tenders cron:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to advance tenders",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    name: "advance-tenders",
+    description:
+      "Moves routing guide tenders past their response timeout on to the next preferred carrier",
+    schedule: "*/5 * * * *", // Every 5 minutes
+    lastRun: null,
+  });
+}
@@ -32,6 +32,7 @@ export async function POST(request: NextRequest) {
       success: result.success,
       settledCount: result.settledCount || 0,
       totalFound: result.totalFound || 0,
+      detentionPostedCount: result.detentionPostedCount || 0,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
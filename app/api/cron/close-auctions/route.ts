@@ -0,0 +1,55 @@
+export const dynamic = "force-dynamic";
+/**
+ * Cron Job: Close Load Auctions
+ *
+ * Run every 15 minutes to close AUCTION loads whose bid deadline has passed
+ * and notify shippers that their bid sheet is ready.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { closeDueAuctions } from "@/lib/loadAuctions";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        {
+          error: !cronSecret
+            ? "Server misconfigured - CRON_SECRET required"
+            : "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await closeDueAuctions();
+
+    return NextResponse.json({
+      success: true,
+      closedCount: result.closedCount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in close-auctions cron:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to close auctions",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    name: "close-auctions",
+    description:
+      "Closes auction loads past their bid deadline and notifies shippers that bids are ready",
+    schedule: "*/15 * * * *", // Every 15 minutes
+    lastRun: null,
+  });
+}
@@ -3,11 +3,13 @@ export const dynamic = "force-dynamic";
  * Cron Job: Expire Old Loads
  * Sprint 2 - Story 2.5: Load Expiration Automation
  *
- * Run daily to expire loads that haven't been assigned after 7 days
+ * Run daily to expire loads that haven't been assigned after 7 days, then
+ * drop match index entries of loads and postings that are no longer open
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { expireOldLoads } from "@/lib/loadAutomation";
+import { removeStaleMatches } from "@/lib/matchIndex";
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,10 +29,12 @@ export async function POST(request: NextRequest) {
 
     // Run expiration
     const result = await expireOldLoads();
+    const { removedCount } = await removeStaleMatches();
 
     return NextResponse.json({
       success: result.success,
       expiredCount: result.expiredCount || 0,
+      removedMatches: removedCount,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -49,7 +53,7 @@ export async function GET() {
   return NextResponse.json({
     name: "expire-loads",
     description:
-      "Expires loads that have been posted for more than 7 days without assignment",
+      "Expires loads that have been posted for more than 7 days without assignment and removes their stale match index entries",
     schedule: "0 2 * * *", // Daily at 2 AM
     lastRun: null,
   });
@@ -5,6 +5,7 @@ export const dynamic = "force-dynamic";
  * Run daily to:
  * 1. Expire truck postings that have passed availableTo or expiresAt
  * 2. Expire pending load/truck requests that have passed expiresAt
+ * 3. Remove match index entries of postings and loads no longer open
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -12,6 +13,7 @@ import {
   expireOldTruckPostings,
   expireOldRequests,
 } from "@/lib/truckPostingAutomation";
+import { removeStaleMatches } from "@/lib/matchIndex";
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,6 +29,7 @@ export async function POST(request: NextRequest) {
       expireOldTruckPostings(),
       expireOldRequests(),
     ]);
+    const { removedCount } = await removeStaleMatches();
 
     return NextResponse.json({
       success: postingsResult.success && requestsResult.success,
@@ -41,6 +44,9 @@ export async function POST(request: NextRequest) {
         truckRequestsExpired: requestsResult.truckRequestsExpired,
         error: requestsResult.error,
       },
+      matchIndex: {
+        removedCount,
+      },
     });
   } catch (error) {
     console.error("Error in expire-postings cron:", error);
@@ -65,6 +71,7 @@ export async function GET() {
       "Expire ACTIVE truck postings where expiresAt < now",
       "Expire PENDING load requests where expiresAt < now",
       "Expire PENDING truck requests where expiresAt < now",
+      "Remove match index entries of non-ACTIVE postings and closed loads",
     ],
     lastRun: null,
   });
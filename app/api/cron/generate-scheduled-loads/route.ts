@@ -0,0 +1,56 @@
+export const dynamic = "force-dynamic";
+/**
+ * Cron Job: Generate Scheduled Loads
+ *
+ * Run hourly to create loads for recurring load schedules whose next
+ * occurrences fall inside their lead-time window.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { generateScheduledLoads } from "@/lib/loadSchedules";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        {
+          error: !cronSecret
+            ? "Server misconfigured - CRON_SECRET required"
+            : "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await generateScheduledLoads();
+
+    return NextResponse.json({
+      success: true,
+      schedulesProcessed: result.schedulesProcessed,
+      loadsCreated: result.loadsCreated,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in generate-scheduled-loads cron:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to generate scheduled loads",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    name: "generate-scheduled-loads",
+    description:
+      "Creates loads from recurring load schedules ahead of each pickup date",
+    schedule: "0 * * * *", // Every hour
+    lastRun: null,
+  });
+}
@@ -0,0 +1,56 @@
+export const dynamic = "force-dynamic";
+/**
+ * Cron Job: Rebuild Lane Rate Index
+ *
+ * Run daily to recompute monthly booked-rate percentiles per lane and truck
+ * type, used by reference pricing.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rebuildLaneRateIndex } from "@/lib/laneRateIndex";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        {
+          error: !cronSecret
+            ? "Server misconfigured - CRON_SECRET required"
+            : "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await rebuildLaneRateIndex();
+
+    return NextResponse.json({
+      success: true,
+      rowCount: result.rowCount,
+      sampleCount: result.sampleCount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in lane-rate-index cron:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to rebuild lane rate index",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    name: "lane-rate-index",
+    description:
+      "Rebuilds booked-rate percentiles per lane, truck type and month for reference pricing",
+    schedule: "30 0 * * *", // Daily at 00:30
+    lastRun: null,
+  });
+}
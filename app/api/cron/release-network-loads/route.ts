@@ -0,0 +1,57 @@
+export const dynamic = "force-dynamic";
+/**
+ * Cron Job: Release Network Loads
+ *
+ * Run every 15 minutes to open NETWORK_FIRST loads to every carrier once
+ * their network window has passed, so they are matched and alerted beyond
+ * the shipper's carrier network.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { releaseNetworkLoads } from "@/lib/carrierNetworks";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        {
+          error: !cronSecret
+            ? "Server misconfigured - CRON_SECRET required"
+            : "Unauthorized",
+        },
+        { status: 401 }
+      );
+    }
+
+    const result = await releaseNetworkLoads();
+
+    return NextResponse.json({
+      success: true,
+      checkedCount: result.checked,
+      releasedCount: result.released,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in release-network-loads cron:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to release network loads",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    name: "release-network-loads",
+    description:
+      "Opens network-first loads to every carrier once their network window has passed",
+    schedule: "*/15 * * * *", // Every 15 minutes
+    lastRun: null,
+  });
+}
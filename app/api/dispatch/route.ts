@@ -6,8 +6,13 @@ import { handleApiError } from "@/lib/apiErrors";
 import { requirePermission, Permission } from "@/lib/rbac";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import { z } from "zod";
 import { zodErrorResponse } from "@/lib/validation";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+} from "@/lib/loadConsolidation";
 
 const dispatchSchema = z.object({
   loadId: z.string(),
@@ -122,48 +127,26 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check if truck is already assigned to another load (unique constraint on assignedTruckId)
-    const existingAssignment = await db.load.findFirst({
-      where: {
-        assignedTruckId: truckId,
-      },
-      select: {
-        id: true,
-        status: true,
-        pickupCity: true,
-        deliveryCity: true,
-      },
-    });
-
-    if (existingAssignment) {
-      // If the existing load is completed/delivered/cancelled, unassign it first
-      const inactiveStatuses = [
-        "DELIVERED",
-        "COMPLETED",
-        "CANCELLED",
-        "EXPIRED",
-      ];
-      if (!inactiveStatuses.includes(existingAssignment.status)) {
-        return NextResponse.json(
-          {
-            error: `This truck is already assigned to an active load (${existingAssignment.pickupCity} → ${existingAssignment.deliveryCity})`,
-            existingLoadId: existingAssignment.id,
-            existingLoadStatus: existingAssignment.status,
-          },
-          { status: 400 }
-        );
-      }
+    // Check if truck is already on an active load (PARTIAL loads may share
+    // the truck while capacity remains)
+    const { fit } = await checkTruckCanTakeLoad(truckId, load);
+    if (!fit.ok) {
+      return NextResponse.json(
+        { error: consolidationErrorMessage(fit.reason) },
+        { status: 400 }
+      );
     }
 
     // TD-001 FIX: Wrap all mutations in a transaction for atomicity
     const updatedLoad = await db.$transaction(async (tx) => {
-      // Clear old assignment if exists
-      if (existingAssignment) {
-        await tx.load.update({
-          where: { id: existingAssignment.id },
-          data: { assignedTruckId: null },
-        });
-      }
+      // Unassign truck from any completed loads
+      await tx.load.updateMany({
+        where: {
+          assignedTruckId: truckId,
+          status: { in: ["COMPLETED", "CANCELLED", "EXPIRED"] },
+        },
+        data: { assignedTruckId: null },
+      });
 
       // Assign truck to load
       const updated = await tx.load.update({
@@ -194,7 +177,9 @@ export async function POST(request: NextRequest) {
 
     // TD-005 FIX: Invalidate cache after assignment
     await CacheInvalidation.load(loadId, load.shipperId);
+    await refreshLoadMatches(loadId);
     await CacheInvalidation.truck(truckId, truck.carrierId);
+    await refreshTruckMatches(truckId);
 
     return NextResponse.json({
       message: "Load dispatched successfully",
@@ -212,16 +197,6 @@ export async function POST(request: NextRequest) {
       meta?: { target?: string[] };
     };
     if (prismaError?.code === "P2002") {
-      const field = prismaError?.meta?.target?.[0] || "field";
-      if (field === "assignedTruckId") {
-        return NextResponse.json(
-          {
-            error:
-              "This truck is already assigned to another load. Please refresh and try again.",
-          },
-          { status: 409 }
-        );
-      }
       return NextResponse.json(
         { error: "A conflict occurred. Please refresh and try again." },
         { status: 409 }
@@ -0,0 +1,200 @@
+export const dynamic = "force-dynamic";
+/**
+ * Dispatcher Assignment Plan API
+ *
+ * GET  /api/dispatcher/assignment-plan - Best overall pairing of open loads
+ *      and active truck postings (lib/assignmentOptimizer.ts)
+ *      Query: region, from, to (pickup window), minScore
+ * POST /api/dispatcher/assignment-plan - Send reviewed pairs from a plan to
+ *      carriers as match proposals
+ *
+ * Foundation Rule: DISPATCHER_COORDINATION_ONLY
+ * - A plan assigns nothing; each pair becomes a proposal the carrier approves
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { UserRole } from "@prisma/client";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS, RpsConfig } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { canProposeMatch } from "@/lib/dispatcherPermissions";
+import { RULE_DISPATCHER_COORDINATION_ONLY } from "@/lib/foundation-rules";
+import {
+  assignmentPlanQuerySchema,
+  buildAssignmentPlan,
+} from "@/lib/assignmentOptimizer";
+import { createMatchProposal } from "@/lib/matchProposals";
+
+const MAX_PLAN_PROPOSALS = 100;
+
+const planProposalsSchema = z.object({
+  assignments: z
+    .array(
+      z.object({
+        loadId: z.string().min(10),
+        truckId: z.string().min(10),
+        proposedRate: z.number().positive().optional(),
+      })
+    )
+    .min(1)
+    .max(MAX_PLAN_PROPOSALS),
+  notes: z.string().max(500).optional(),
+  expiresInHours: z.number().min(1).max(72).default(24),
+});
+
+type SessionLike = {
+  role: string;
+  organizationId?: string | null;
+  userId: string;
+};
+
+function forbidden(session: SessionLike) {
+  if (
+    canProposeMatch({
+      role: session.role as UserRole,
+      organizationId: session.organizationId,
+      userId: session.userId,
+    })
+  ) {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      error: "You do not have permission to plan match proposals",
+      rule: RULE_DISPATCHER_COORDINATION_ONLY.id,
+      hint: "Only dispatchers and admins can propose matches",
+    },
+    { status: 403 }
+  );
+}
+
+async function checkLimit(request: NextRequest, config: RpsConfig) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "dispatcher-assignment-plan",
+    ip,
+    config.rps,
+    config.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/dispatcher/assignment-plan
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await checkLimit(request, RPS_CONFIGS.dashboard);
+    if (limited) return limited;
+
+    const session = await requireActiveUser();
+    const denied = forbidden(session);
+    if (denied) return denied;
+
+    const { searchParams } = new URL(request.url);
+    const parsed = assignmentPlanQuerySchema.safeParse({
+      region: searchParams.get("region") || undefined,
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+      minScore: searchParams.get("minScore") || undefined,
+    });
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const plan = await buildAssignmentPlan(parsed.data);
+
+    return NextResponse.json({
+      plan,
+      rule: RULE_DISPATCHER_COORDINATION_ONLY.id,
+    });
+  } catch (error) {
+    return handleApiError(error, "Build assignment plan error");
+  }
+}
+
+/**
+ * POST /api/dispatcher/assignment-plan
+ *
+ * Body: assignments [{ loadId, truckId, proposedRate? }], notes?,
+ * expiresInHours (default 24)
+ *
+ * Each pair goes through the same checks as POST /api/match-proposals;
+ * pairs that fail are reported and the rest are still proposed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await checkLimit(request, RPS_CONFIGS.write);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const denied = forbidden(session);
+    if (denied) return denied;
+
+    const body = await request.json();
+    const parsed = planProposalsSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const { assignments, notes, expiresInHours } = parsed.data;
+    const loadIds = new Set(assignments.map((a) => a.loadId));
+    const truckIds = new Set(assignments.map((a) => a.truckId));
+    if (
+      loadIds.size !== assignments.length ||
+      truckIds.size !== assignments.length
+    ) {
+      return NextResponse.json(
+        { error: "Each load and truck can appear only once in a plan" },
+        { status: 400 }
+      );
+    }
+
+    const proposals = [];
+    const failed = [];
+    // One at a time so a large plan does not flood the database
+    for (const assignment of assignments) {
+      const result = await createMatchProposal(
+        { ...assignment, notes, expiresInHours },
+        session.userId
+      );
+      if ("error" in result) {
+        failed.push({
+          loadId: assignment.loadId,
+          truckId: assignment.truckId,
+          error: result.error,
+        });
+      } else {
+        proposals.push(result.proposal);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        proposals,
+        failed,
+        message: `${proposals.length} match proposal${proposals.length === 1 ? "" : "s"} sent. Awaiting carrier approval.`,
+        rule: RULE_DISPATCHER_COORDINATION_ONLY.id,
+      },
+      { status: proposals.length > 0 ? 201 : 200 }
+    );
+  } catch (error) {
+    return handleApiError(error, "Create assignment plan proposals error");
+  }
+}
@@ -18,10 +18,14 @@ import {
   createNotification,
   NotificationType,
 } from "@/lib/notifications";
+import { resolveDetentionDispute } from "@/lib/detention";
 
 const updateDisputeSchema = z.object({
   status: z.enum(["OPEN", "UNDER_REVIEW", "RESOLVED", "CLOSED"]).optional(),
   resolution: z.string().optional(),
+  // DETENTION disputes: final charge amount on resolution (0 = waive,
+  // omitted = keep the original amount)
+  detentionAmount: z.number().min(0).optional(),
 });
 
 // H19 FIX: Valid dispute status transitions
@@ -120,7 +124,8 @@ export async function PATCH(
 
     const { id: disputeId } = await params;
     const body = await request.json();
-    const validatedData = updateDisputeSchema.parse(body);
+    const { detentionAmount, ...validatedData } =
+      updateDisputeSchema.parse(body);
 
     const dispute = await db.dispute.findUnique({
       where: { id: disputeId },
@@ -180,6 +185,13 @@ export async function PATCH(
       },
     });
 
+    if (
+      dispute.detentionChargeId &&
+      (validatedData.status === "RESOLVED" || validatedData.status === "CLOSED")
+    ) {
+      await resolveDetentionDispute(dispute.detentionChargeId, detentionAmount);
+    }
+
     // Notify both parties (creator + disputed org) when status actually
     // changed. Fire-and-forget. The creator gets a personal notification;
     // the disputed org gets an org-wide notification.
@@ -31,6 +31,7 @@ const createDisputeSchema = z.object({
     "DAMAGE",
     "LATE_DELIVERY",
     "QUALITY_ISSUE",
+    "DETENTION",
     "OTHER",
   ]),
   description: z
@@ -38,6 +39,8 @@ const createDisputeSchema = z.object({
     .min(10, "Description must be at least 10 characters")
     .max(5000),
   evidence: z.string().max(5000).optional(),
+  // DETENTION disputes name the charge they contest
+  detentionChargeId: z.string().max(50).optional(),
 });
 
 /**
@@ -138,6 +141,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Detention disputes hold the charge until an admin resolves them
+    let detentionChargeId: string | undefined;
+    if (validatedData.type === "DETENTION") {
+      const charge = validatedData.detentionChargeId
+        ? await db.detentionCharge.findUnique({
+            where: { id: validatedData.detentionChargeId },
+            select: { id: true, loadId: true, status: true },
+          })
+        : null;
+      if (!charge || charge.loadId !== validatedData.loadId) {
+        return NextResponse.json(
+          { error: "Detention charge not found for this load" },
+          { status: 400 }
+        );
+      }
+      if (charge.status !== "PENDING") {
+        return NextResponse.json(
+          {
+            error: `Cannot dispute a detention charge in ${charge.status} status`,
+          },
+          { status: 400 }
+        );
+      }
+      detentionChargeId = charge.id;
+    }
+
     // Create dispute
     const dispute = await db.dispute.create({
       data: {
@@ -148,6 +177,7 @@ export async function POST(request: NextRequest) {
         description: validatedData.description,
         evidenceUrls: validatedData.evidence ? [validatedData.evidence] : [],
         status: "OPEN",
+        detentionChargeId,
       },
       include: {
         load: {
@@ -168,6 +198,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    if (detentionChargeId) {
+      await db.detentionCharge.update({
+        where: { id: detentionChargeId },
+        data: { status: "DISPUTED" },
+      });
+    }
+
     // Invalidate load cache after dispute creation
     await CacheInvalidation.load(validatedData.loadId);
 
@@ -0,0 +1,51 @@
+export const dynamic = "force-dynamic";
+/**
+ * Driver Safety Scorecard API
+ *
+ * GET /api/drivers/[id]/safety?days=30 — the driver's safety score and
+ * latest safety events (carrier-in-same-org, the driver themselves, or an
+ * admin)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { handleApiError } from "@/lib/apiErrors";
+import { getDriverScorecard } from "@/lib/drivingSafety";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireActiveUser();
+    const { id } = await params;
+
+    const driver = await db.user.findUnique({
+      where: { id },
+      select: { id: true, role: true, organizationId: true },
+    });
+
+    const allowed =
+      driver?.role === "DRIVER" &&
+      ((session.role === "DRIVER" && session.userId === driver.id) ||
+        (session.role === "CARRIER" &&
+          !!session.organizationId &&
+          driver.organizationId === session.organizationId) ||
+        session.role === "ADMIN" ||
+        session.role === "SUPER_ADMIN");
+    if (!allowed) {
+      return NextResponse.json({ error: "Driver not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get("days") || "30") || 30, 1),
+      365
+    );
+
+    return NextResponse.json(await getDriverScorecard(id, days));
+  } catch (error) {
+    return handleApiError(error, "Get driver safety scorecard error");
+  }
+}
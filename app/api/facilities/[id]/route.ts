@@ -0,0 +1,205 @@
+export const dynamic = "force-dynamic";
+/**
+ * Individual Facility API
+ *
+ * GET    /api/facilities/[id] - Facility, with slot availability for ?date=
+ * PATCH  /api/facilities/[id] - Edit details, docks or hours
+ * DELETE /api/facilities/[id] - Deactivate (no new bookings; existing
+ *                               appointments are kept)
+ *
+ * Hour and slot changes only affect new bookings; appointments already
+ * booked keep their times.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { sanitizeText } from "@/lib/validation";
+import {
+  getFacilityAvailability,
+  updateFacilitySchema,
+  validateFacilityHours,
+} from "@/lib/dockAppointments";
+
+type SessionLike = {
+  role: string;
+  organizationId?: string | null;
+};
+
+/**
+ * Load a facility the caller may manage (owning shipper or admin).
+ * Returns null otherwise so callers answer 404 without leaking existence.
+ */
+async function findManagedFacility(id: string, session: SessionLike) {
+  const facility = await db.facility.findUnique({ where: { id } });
+  if (!facility) return null;
+
+  const isOwner =
+    session.role === "SHIPPER" &&
+    session.organizationId === facility.organizationId;
+  const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+  return isOwner || isAdmin ? facility : null;
+}
+
+async function checkWriteLimit(request: NextRequest) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "facility-write",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/facilities/[id]
+ *
+ * Query: date? (YYYY-MM-DD, facility local) - include that day's slots
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const facility = await findManagedFacility(id, session);
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 }
+      );
+    }
+
+    const date = request.nextUrl.searchParams.get("date");
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: "date must be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      facility,
+      ...(date && {
+        date,
+        slots: await getFacilityAvailability(facility, date),
+      }),
+    });
+  } catch (error) {
+    return handleApiError(error, "Error fetching facility");
+  }
+}
+
+/**
+ * PATCH /api/facilities/[id]
+ *
+ * Body: any facility field, or isActive
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const facility = await findManagedFacility(id, session);
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateFacilitySchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const data = parsed.data;
+
+    const hoursError = validateFacilityHours({
+      openTime: data.openTime ?? facility.openTime,
+      closeTime: data.closeTime ?? facility.closeTime,
+      slotMinutes: data.slotMinutes ?? facility.slotMinutes,
+    });
+    if (hoursError) {
+      return NextResponse.json({ error: hoursError }, { status: 400 });
+    }
+
+    const updated = await db.facility.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.name && { name: sanitizeText(data.name, 200) }),
+        ...(data.address && { address: sanitizeText(data.address, 500) }),
+      },
+    });
+
+    return NextResponse.json({ facility: updated });
+  } catch (error) {
+    return handleApiError(error, "Error updating facility");
+  }
+}
+
+/**
+ * DELETE /api/facilities/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const facility = await findManagedFacility(id, session);
+    if (!facility) {
+      return NextResponse.json(
+        { error: "Facility not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await db.facility.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return NextResponse.json({
+      facility: updated,
+      message: "Facility deactivated",
+    });
+  } catch (error) {
+    return handleApiError(error, "Error deactivating facility");
+  }
+}
@@ -0,0 +1,116 @@
+export const dynamic = "force-dynamic";
+/**
+ * Facilities API
+ *
+ * GET  /api/facilities - List the shipper organization's facilities
+ * POST /api/facilities - Create a facility with dock capacity and slot hours
+ *
+ * Loads link their pickup/delivery to a facility; carriers then book dock
+ * appointments via /api/loads/[id]/appointments (see lib/dockAppointments.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { sanitizeText } from "@/lib/validation";
+import { facilitySchema, validateFacilityHours } from "@/lib/dockAppointments";
+
+/**
+ * GET /api/facilities
+ *
+ * Query: includeInactive? (true)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireActiveUser();
+
+    if (session.role !== "SHIPPER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only shippers can view facilities" },
+        { status: 403 }
+      );
+    }
+
+    const includeInactive =
+      request.nextUrl.searchParams.get("includeInactive") === "true";
+    const facilities = await db.facility.findMany({
+      where: {
+        organizationId: session.organizationId,
+        ...(includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ facilities });
+  } catch (error) {
+    return handleApiError(error, "Error fetching facilities");
+  }
+}
+
+/**
+ * POST /api/facilities
+ *
+ * Body: name, address?, city?, latitude?, longitude?, dockCount, openTime,
+ * closeTime, slotMinutes, operatingDays, utcOffsetMinutes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "facilities",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+
+    if (session.role !== "SHIPPER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only shippers can create facilities" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = facilitySchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const data = parsed.data;
+
+    const hoursError = validateFacilityHours(data);
+    if (hoursError) {
+      return NextResponse.json({ error: hoursError }, { status: 400 });
+    }
+
+    const facility = await db.facility.create({
+      data: {
+        ...data,
+        name: sanitizeText(data.name, 200),
+        address: data.address ? sanitizeText(data.address, 500) : undefined,
+        organizationId: session.organizationId,
+      },
+    });
+
+    return NextResponse.json({ facility }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "Error creating facility");
+  }
+}
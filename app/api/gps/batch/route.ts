@@ -21,6 +21,15 @@ import { withRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { zodErrorResponse } from "@/lib/validation";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { handleApiError } from "@/lib/apiErrors";
+import { analyzeDrivingSamples } from "@/lib/drivingSafety";
+import { geohashOf } from "@/lib/geoIndex";
+import { checkRouteDeviation } from "@/lib/routeDeviation";
+import {
+  filterTruckPositions,
+  storeRejectedPositions,
+  updateTripDistance,
+} from "@/lib/gpsFilter";
+import { getActiveTruckTrips } from "@/lib/gpsIngestion";
 
 const positionSchema = z.object({
   latitude: z.number().min(-90).max(90),
@@ -144,40 +153,65 @@ async function postHandler(request: NextRequest) {
       select: { id: true },
     });
 
-    // G-M21-2: Find active trip for tripId linkage (batch GPS was missing tripId)
-    const activeTrip = await db.trip.findFirst({
-      where: {
-        truckId: truckId,
-        status: { in: ["PICKUP_PENDING", "IN_TRANSIT", "DELIVERED"] },
-      },
-      select: { id: true },
-    });
+    // G-M21-2: Find active trips for tripId linkage (batch GPS was missing
+    // tripId) — a consolidated truck carries several loads, one trip each
+    const activeTrips = await getActiveTruckTrips(truckId);
+    const links =
+      activeTrips.length > 0
+        ? activeTrips.map((trip) => ({ loadId: trip.loadId, tripId: trip.id }))
+        : [{ loadId: activeLoad?.id || null, tripId: null }];
 
-    // Sort positions by timestamp (oldest first)
-    const sortedPositions = [...positions].sort(
-      (a, b) =>
-        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    // Drop impossible points, duplicates and park jitter (lib/gpsFilter.ts);
+    // accepted positions come back sorted by timestamp (oldest first)
+    const { accepted: sortedPositions, rejected } = await filterTruckPositions(
+      truckId,
+      positions.map((pos) => ({ ...pos, timestamp: new Date(pos.timestamp) }))
     );
+    for (const link of links) {
+      await storeRejectedPositions(rejected, {
+        truckId,
+        deviceId: truck.gpsDeviceId,
+        ...link,
+        source: "ELD_HARDWARE",
+      });
+    }
+
+    if (sortedPositions.length === 0) {
+      await db.truck.update({
+        where: { id: truckId },
+        data: { gpsLastSeenAt: new Date(), gpsStatus: "ACTIVE" },
+      });
+      return NextResponse.json({
+        success: true,
+        message: `0 GPS positions recorded, ${rejected.length} rejected`,
+        truckId: truckId,
+        loadId: activeLoad?.id || null,
+        positionsRecorded: 0,
+        positionsRejected: rejected.length,
+        latestPosition: null,
+      });
+    }
 
     // Create GPS position records
     // Task 3C: batch endpoint is CARRIER-only (drivers use /api/trips/[id]/gps)
     // and always backed by a registered GPS device, so tag every row as
     // ELD_HARDWARE with no driver attribution.
-    const createData = sortedPositions.map((pos) => ({
-      truckId: truckId,
-      deviceId: truck.gpsDeviceId!,
-      source: "ELD_HARDWARE",
-      driverId: null,
-      latitude: pos.latitude,
-      longitude: pos.longitude,
-      speed: pos.speed,
-      heading: pos.heading,
-      altitude: pos.altitude,
-      accuracy: pos.accuracy,
-      timestamp: new Date(pos.timestamp),
-      loadId: activeLoad?.id || null,
-      tripId: activeTrip?.id || null,
-    }));
+    const createData = links.flatMap((link) =>
+      sortedPositions.map((pos) => ({
+        truckId: truckId,
+        deviceId: truck.gpsDeviceId!,
+        source: "ELD_HARDWARE",
+        driverId: null,
+        latitude: pos.latitude,
+        longitude: pos.longitude,
+        speed: pos.speed,
+        heading: pos.heading,
+        altitude: pos.altitude,
+        accuracy: pos.accuracy,
+        timestamp: pos.timestamp,
+        ...link,
+      }))
+    );
 
     // HIGH FIX #1: Wrap GPS batch + truck update in transaction for atomicity
     const latestPosition = sortedPositions[sortedPositions.length - 1];
@@ -192,13 +226,47 @@ async function postHandler(request: NextRequest) {
         data: {
           currentLocationLat: latestPosition.latitude,
           currentLocationLon: latestPosition.longitude,
-          locationUpdatedAt: new Date(latestPosition.timestamp),
+          currentLocationGeohash: geohashOf(
+            latestPosition.latitude,
+            latestPosition.longitude
+          ),
+          locationUpdatedAt: latestPosition.timestamp,
           gpsLastSeenAt: new Date(),
           gpsStatus: "ACTIVE",
         },
       });
     });
 
+    // Trip distance, route deviation, speeding / harsh driving / long
+    // driving (best-effort). Deviation is checked oldest first so a
+    // sustained deviation within one batch is escalated
+    for (const trip of activeTrips) {
+      await updateTripDistance(trip.id, sortedPositions).catch((error) =>
+        console.error("Trip distance update error:", error)
+      );
+      for (const pos of sortedPositions) {
+        await checkRouteDeviation(
+          trip.id,
+          pos.latitude,
+          pos.longitude,
+          pos.timestamp
+        ).catch((error) =>
+          console.error("Route deviation check error:", error)
+        );
+      }
+      await analyzeDrivingSamples(
+        trip.id,
+        sortedPositions.map((pos) => ({
+          latitude: pos.latitude,
+          longitude: pos.longitude,
+          speed: pos.speed,
+          timestamp: pos.timestamp,
+        }))
+      ).catch((error) =>
+        console.error("Driving safety analysis error:", error)
+      );
+    }
+
     // Broadcast the latest position via WebSocket
     await broadcastGpsPosition(
       truckId,
@@ -211,20 +279,21 @@ async function postHandler(request: NextRequest) {
         lng: latestPosition.longitude,
         speed: latestPosition.speed,
         heading: latestPosition.heading,
-        timestamp: latestPosition.timestamp,
+        timestamp: latestPosition.timestamp.toISOString(),
       }
     );
 
     return NextResponse.json({
       success: true,
-      message: `${positions.length} GPS positions recorded`,
+      message: `${sortedPositions.length} GPS positions recorded`,
       truckId: truckId,
       loadId: activeLoad?.id || null,
-      positionsRecorded: positions.length,
+      positionsRecorded: sortedPositions.length,
+      positionsRejected: rejected.length,
       latestPosition: {
         lat: latestPosition.latitude,
         lng: latestPosition.longitude,
-        timestamp: latestPosition.timestamp,
+        timestamp: latestPosition.timestamp.toISOString(),
       },
     });
   } catch (error) {
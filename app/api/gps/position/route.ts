@@ -8,6 +8,7 @@ export const dynamic = "force-dynamic";
  * - Only carriers can update GPS positions
  * - Truck must belong to carrier's organization
  * - If truck is on an active trip (IN_TRANSIT), position is linked to load
+ * - Impossible points, duplicates and park jitter are rejected (lib/gpsFilter.ts)
  *
  * MAP + GPS Implementation - Phase 2
  */
@@ -22,6 +23,15 @@ import { withRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { zodErrorResponse } from "@/lib/validation";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { handleApiError } from "@/lib/apiErrors";
+import { analyzeDrivingSample } from "@/lib/drivingSafety";
+import { geohashOf } from "@/lib/geoIndex";
+import { checkRouteDeviation } from "@/lib/routeDeviation";
+import { getActiveTruckTrips } from "@/lib/gpsIngestion";
+import {
+  filterTruckPositions,
+  storeRejectedPositions,
+  updateTripDistance,
+} from "@/lib/gpsFilter";
 import { Prisma } from "@prisma/client";
 
 const gpsUpdateSchema = z.object({
@@ -100,15 +110,40 @@ async function postHandler(request: NextRequest) {
       select: { id: true },
     });
 
-    // G-M27-1: Find active trip for tripId linkage
-    // (M21-2 applied to batch only — applying here for consistency)
-    const activeTrip = await db.trip.findFirst({
-      where: {
+    // G-M27-1: Find active trips for tripId linkage — a consolidated truck
+    // carries several loads, and the position is recorded on each trip
+    const activeTrips = await getActiveTruckTrips(data.truckId);
+    const timestamp = data.timestamp ? new Date(data.timestamp) : new Date();
+    const links =
+      activeTrips.length > 0
+        ? activeTrips.map((trip) => ({ loadId: trip.loadId, tripId: trip.id }))
+        : [{ loadId: activeLoad?.id || null, tripId: null }];
+
+    // Drop impossible points, duplicates and park jitter (lib/gpsFilter.ts)
+    // before they move the truck or add trip distance
+    const { accepted, rejected } = await filterTruckPositions(data.truckId, [
+      { ...data, timestamp },
+    ]);
+    if (rejected.length > 0) {
+      for (const link of links) {
+        await storeRejectedPositions(rejected, {
+          truckId: data.truckId,
+          deviceId: truck.gpsDeviceId,
+          ...link,
+        });
+      }
+      await db.truck.update({
+        where: { id: data.truckId },
+        data: { gpsLastSeenAt: new Date(), gpsStatus: "ACTIVE" },
+      });
+      return NextResponse.json({
+        success: true,
+        message: "GPS position rejected",
         truckId: data.truckId,
-        status: { in: ["PICKUP_PENDING", "IN_TRANSIT", "DELIVERED"] },
-      },
-      select: { id: true },
-    });
+        rejected: { reason: rejected[0].reason },
+      });
+    }
+    const { latitude, longitude } = accepted[0];
 
     // HIGH FIX #2: Wrap truck update + GPS position in transaction for atomicity
     const positionRecord = await db.$transaction(async (tx) => {
@@ -116,37 +151,59 @@ async function postHandler(request: NextRequest) {
       await tx.truck.update({
         where: { id: data.truckId },
         data: {
-          currentLocationLat: data.latitude,
-          currentLocationLon: data.longitude,
+          currentLocationLat: latitude,
+          currentLocationLon: longitude,
+          currentLocationGeohash: geohashOf(latitude, longitude),
           locationUpdatedAt: new Date(),
           gpsLastSeenAt: new Date(),
           gpsStatus: "ACTIVE",
         },
       });
 
-      // Create GPS position record if device exists
-      if (truck.gpsDeviceId) {
-        return await tx.gpsPosition.create({
+      // Create GPS position records if device exists
+      if (!truck.gpsDeviceId) return null;
+
+      let first: { id: string } | null = null;
+      for (const link of links) {
+        const position = await tx.gpsPosition.create({
           data: {
             truckId: data.truckId,
             deviceId: truck.gpsDeviceId,
-            latitude: data.latitude,
-            longitude: data.longitude,
+            latitude,
+            longitude,
             speed: data.speed,
             heading: data.heading,
             altitude: data.altitude,
             accuracy: data.accuracy,
-            timestamp: data.timestamp ? new Date(data.timestamp) : new Date(),
-            loadId: activeLoad?.id || null,
-            tripId: activeTrip?.id || null,
+            timestamp,
+            ...link,
           },
           select: { id: true },
         });
+        first ??= position;
       }
-
-      return null;
+      return first;
     });
 
+    // Trip distance, route deviation, speeding / harsh driving / long
+    // driving (best-effort)
+    for (const trip of activeTrips) {
+      await updateTripDistance(trip.id, accepted).catch((error) =>
+        console.error("Trip distance update error:", error)
+      );
+      await checkRouteDeviation(trip.id, latitude, longitude, timestamp).catch(
+        (error) => console.error("Route deviation check error:", error)
+      );
+      await analyzeDrivingSample(trip.id, {
+        latitude,
+        longitude,
+        speed: data.speed,
+        timestamp,
+      }).catch((error) =>
+        console.error("Driving safety analysis error:", error)
+      );
+    }
+
     // Broadcast GPS position update via WebSocket (Phase 3)
     try {
       await broadcastGpsPosition(
@@ -156,8 +213,8 @@ async function postHandler(request: NextRequest) {
         {
           truckId: data.truckId,
           loadId: activeLoad?.id,
-          lat: data.latitude,
-          lng: data.longitude,
+          lat: latitude,
+          lng: longitude,
           speed: data.speed,
           heading: data.heading,
           timestamp: data.timestamp || new Date().toISOString(),
@@ -174,8 +231,8 @@ async function postHandler(request: NextRequest) {
       truckId: data.truckId,
       loadId: activeLoad?.id || null,
       position: {
-        lat: data.latitude,
-        lng: data.longitude,
+        lat: latitude,
+        lng: longitude,
         timestamp: data.timestamp || new Date().toISOString(),
       },
       positionId: positionRecord?.id,
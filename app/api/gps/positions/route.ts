@@ -10,6 +10,15 @@ import {
   RPS_CONFIGS,
 } from "@/lib/rateLimit";
 import { handleApiError } from "@/lib/apiErrors";
+import { analyzeDrivingSample } from "@/lib/drivingSafety";
+import { geohashOf } from "@/lib/geoIndex";
+import { checkRouteDeviation } from "@/lib/routeDeviation";
+import { getActiveTruckTrips } from "@/lib/gpsIngestion";
+import {
+  filterTruckPositions,
+  storeRejectedPositions,
+  updateTripDistance,
+} from "@/lib/gpsFilter";
 import { Prisma } from "@prisma/client";
 
 // GET /api/gps/positions - Get latest GPS positions
@@ -163,6 +172,7 @@ export const GET = withRpsLimit(RPS_CONFIGS.gps, getHandler);
  * - Device must be assigned to a truck (truck relation required)
  * - Rate limiting: 12 requests/hour per IMEI + 100 RPS burst limit
  * - Invalid IMEI returns 404 (doesn't reveal whether device exists)
+ * - Impossible points, duplicates and park jitter are rejected (lib/gpsFilter.ts)
  *
  * For user-authenticated GPS updates, use /api/gps/position (requires session)
  */
@@ -251,32 +261,59 @@ async function postHandler(request: NextRequest) {
       select: { id: true },
     });
 
-    // G-M21-2: Find active trip for tripId linkage (hardware GPS was missing tripId)
-    const activeTrip = await db.trip.findFirst({
-      where: {
-        truckId,
-        status: { in: ["PICKUP_PENDING", "IN_TRANSIT", "DELIVERED"] },
-      },
-      select: { id: true },
-    });
+    // G-M21-2: Find active trips for tripId linkage (hardware GPS was missing
+    // tripId) — a consolidated truck carries several loads, one trip each
+    const activeTrips = await getActiveTruckTrips(truckId);
+    const links =
+      activeTrips.length > 0
+        ? activeTrips.map((trip) => ({ loadId: trip.loadId, tripId: trip.id }))
+        : [{ loadId: activeLoad?.id || null, tripId: null }];
 
-    // TD-003 FIX: Wrap all GPS position updates in a transaction for atomicity
-    const position = await db.$transaction(async (tx) => {
-      // Create GPS position
-      const pos = await tx.gpsPosition.create({
-        data: {
-          deviceId: device.id,
+    // Drop impossible points, duplicates and park jitter (lib/gpsFilter.ts)
+    // before they move the truck or add trip distance
+    const { accepted, rejected } = await filterTruckPositions(truckId, [
+      { latitude, longitude, speed, timestamp: positionTimestamp },
+    ]);
+    if (rejected.length > 0) {
+      for (const link of links) {
+        await storeRejectedPositions(rejected, {
           truckId,
-          latitude,
-          longitude,
-          speed: speed || null,
-          heading: heading || null,
-          altitude: altitude || null,
-          timestamp: positionTimestamp,
-          loadId: activeLoad?.id || null,
-          tripId: activeTrip?.id || null,
-        },
+          deviceId: device.id,
+          ...link,
+        });
+      }
+      await db.gpsDevice.update({
+        where: { id: device.id },
+        data: { lastSeenAt: new Date() },
+      });
+      return NextResponse.json({
+        message: "GPS position rejected",
+        rejected: { reason: rejected[0].reason },
       });
+    }
+    // Jitter is held at the previous position
+    const [point] = accepted;
+
+    // TD-003 FIX: Wrap all GPS position updates in a transaction for atomicity
+    const position = await db.$transaction(async (tx) => {
+      // Create a GPS position per trip; the first is returned
+      let pos: Awaited<ReturnType<typeof tx.gpsPosition.create>> | null = null;
+      for (const link of links) {
+        const created = await tx.gpsPosition.create({
+          data: {
+            deviceId: device.id,
+            truckId,
+            latitude: point.latitude,
+            longitude: point.longitude,
+            speed: speed || null,
+            heading: heading || null,
+            altitude: altitude || null,
+            timestamp: positionTimestamp,
+            ...link,
+          },
+        });
+        pos ??= created;
+      }
 
       // Update device last seen
       await tx.gpsDevice.update({
@@ -288,8 +325,9 @@ async function postHandler(request: NextRequest) {
       await tx.truck.update({
         where: { id: truckId },
         data: {
-          currentLocationLat: latitude,
-          currentLocationLon: longitude,
+          currentLocationLat: point.latitude,
+          currentLocationLon: point.longitude,
+          currentLocationGeohash: geohashOf(point.latitude, point.longitude),
           locationUpdatedAt: positionTimestamp,
           gpsLastSeenAt: new Date(),
           gpsStatus: "ACTIVE",
@@ -299,12 +337,34 @@ async function postHandler(request: NextRequest) {
       return pos;
     });
 
+    // Trip distance, route deviation, speeding / harsh driving / long
+    // driving (best-effort)
+    for (const trip of activeTrips) {
+      await updateTripDistance(trip.id, accepted).catch((error) =>
+        console.error("Trip distance update error:", error)
+      );
+      await checkRouteDeviation(
+        trip.id,
+        point.latitude,
+        point.longitude,
+        positionTimestamp
+      ).catch((error) => console.error("Route deviation check error:", error));
+      await analyzeDrivingSample(trip.id, {
+        latitude: point.latitude,
+        longitude: point.longitude,
+        speed,
+        timestamp: positionTimestamp,
+      }).catch((error) =>
+        console.error("Driving safety analysis error:", error)
+      );
+    }
+
     // Broadcast the position via WebSocket for real-time updates
     await broadcastGpsPosition(truckId, activeLoad?.id || null, carrierId, {
       truckId,
       loadId: activeLoad?.id,
-      lat: latitude,
-      lng: longitude,
+      lat: point.latitude,
+      lng: point.longitude,
       speed: speed || undefined,
       heading: heading || undefined,
       timestamp: positionTimestamp.toISOString(),
@@ -24,8 +24,16 @@ import {
 import { enableTrackingForLoad } from "@/lib/gpsTracking";
 import crypto from "crypto";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
+import { queueRateConfirmation } from "@/lib/rateConfirmation";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import {
+  checkTruckCanTakeLoad,
+  hasConsolidationCapacity,
+  linkConsolidatedTrip,
+} from "@/lib/loadConsolidation";
+import { resetStopExecution } from "@/lib/loadStops";
 
 const ConfirmSchema = z.object({
   action: z.enum(["CONFIRM", "DECLINE"]),
@@ -229,6 +237,9 @@ export async function POST(
               destinationLon: true,
               tripKm: true,
               estimatedTripKm: true,
+              weight: true,
+              volume: true,
+              fullPartial: true,
             },
           });
 
@@ -241,31 +252,28 @@ export async function POST(
             throw new Error(`LOAD_NOT_AVAILABLE:${freshLoad.status}`);
           }
 
-          // Check truck has no active trip
-          const activeTripCount = await tx.trip.count({
-            where: {
-              truckId: loadRequest.truckId,
-              status: {
-                in: [
-                  "ASSIGNED",
-                  "PICKUP_PENDING",
-                  "IN_TRANSIT",
-                  "DELIVERED",
-                  "EXCEPTION",
-                ],
-              },
-            },
-          });
-          if (activeTripCount > 0) {
-            throw new Error("TRUCK_BUSY_TRIP");
+          // Check truck has no active trip, or room for this PARTIAL load
+          const { fit, assignments } = await checkTruckCanTakeLoad(
+            loadRequest.truckId,
+            freshLoad,
+            tx
+          );
+          if (!fit.ok) {
+            throw new Error(
+              fit.reason === "TRUCK_CAPACITY_EXCEEDED"
+                ? "TRUCK_CAPACITY_EXCEEDED"
+                : "TRUCK_BUSY_TRIP"
+            );
           }
+          const truckFull = !hasConsolidationCapacity(fit);
 
-          // Unassign truck from completed loads
+          // Unassign truck from completed loads (DELIVERED loads may still
+          // share a consolidated run and keep their truck for fee settlement)
           await tx.load.updateMany({
             where: {
               assignedTruckId: loadRequest.truckId,
               status: {
-                in: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+                in: ["COMPLETED", "CANCELLED", "EXPIRED"],
               },
             },
             data: { assignedTruckId: null },
@@ -320,6 +328,10 @@ export async function POST(
               trackingEnabled: true,
             },
           });
+          await linkConsolidatedTrip(tx, assignments, trip.id);
+
+          // Multi-stop: a new trip starts with no stop arrivals
+          await resetStopExecution(loadRequest.loadId, tx);
 
           // Create load event
           await tx.loadEvent.create({
@@ -345,14 +357,16 @@ export async function POST(
             },
             select: { carrierId: true },
           });
-          const pendingLoadReqsForTruck = await tx.loadRequest.findMany({
-            where: {
-              truckId: loadRequest.truckId,
-              id: { not: requestId },
-              status: { in: ["PENDING", "SHIPPER_APPROVED"] },
-            },
-            select: { carrierId: true },
-          });
+          const pendingLoadReqsForTruck = truckFull
+            ? await tx.loadRequest.findMany({
+                where: {
+                  truckId: loadRequest.truckId,
+                  id: { not: requestId },
+                  status: { in: ["PENDING", "SHIPPER_APPROVED"] },
+                },
+                select: { carrierId: true },
+              })
+            : [];
           const pendingLoadReqsToCancel = [
             ...pendingLoadReqsForLoad,
             ...pendingLoadReqsForTruck,
@@ -377,14 +391,17 @@ export async function POST(
           });
 
           // G-A9-5: Cancel ALL other PENDING/SHIPPER_APPROVED load requests for same truck (cross-load)
-          await tx.loadRequest.updateMany({
-            where: {
-              truckId: loadRequest.truckId,
-              id: { not: requestId },
-              status: { in: ["PENDING", "SHIPPER_APPROVED"] },
-            },
-            data: { status: "CANCELLED" },
-          });
+          // LTL: a truck with capacity left keeps taking requests for PARTIAL loads
+          if (truckFull) {
+            await tx.loadRequest.updateMany({
+              where: {
+                truckId: loadRequest.truckId,
+                id: { not: requestId },
+                status: { in: ["PENDING", "SHIPPER_APPROVED"] },
+              },
+              data: { status: "CANCELLED" },
+            });
+          }
 
           // Cancel pending truck requests for same load
           await tx.truckRequest.updateMany({
@@ -398,17 +415,21 @@ export async function POST(
             data: { status: "CANCELLED" },
           });
 
-          // Mark truck posting MATCHED
-          await tx.truckPosting.updateMany({
-            where: { truckId: loadRequest.truckId, status: "ACTIVE" },
-            data: { status: "MATCHED", updatedAt: new Date() },
-          });
+          // Mark truck posting MATCHED (stays ACTIVE while capacity remains)
+          if (truckFull) {
+            await tx.truckPosting.updateMany({
+              where: { truckId: loadRequest.truckId, status: "ACTIVE" },
+              data: { status: "MATCHED", updatedAt: new Date() },
+            });
+          }
 
-          // Mark truck as unavailable
-          await tx.truck.update({
-            where: { id: loadRequest.truckId },
-            data: { isAvailable: false },
-          });
+          // Mark truck as unavailable once it has no room for another load
+          if (truckFull) {
+            await tx.truck.update({
+              where: { id: loadRequest.truckId },
+              data: { isAvailable: false },
+            });
+          }
 
           return {
             request: updatedRequest,
@@ -424,10 +445,12 @@ export async function POST(
           loadRequest.loadId,
           loadRequest.load.shipperId
         );
+        await refreshLoadMatches(loadRequest.loadId);
         await CacheInvalidation.truck(
           loadRequest.truckId,
           loadRequest.truck.carrierId
         );
+        await refreshTruckMatches(loadRequest.truckId);
 
         // Non-critical: Notify parties whose competing requests were cancelled (fire-and-forget)
         Promise.all([
@@ -481,6 +504,15 @@ export async function POST(
             );
         }
 
+        // Non-critical: Rate confirmation PDF, generated on the pdf queue (fire-and-forget)
+        queueRateConfirmation({
+          loadId: loadRequest.loadId,
+          requestType: "LOAD_REQUEST",
+          requestId,
+        }).catch((err) =>
+          console.error("Failed to queue rate confirmation:", err)
+        );
+
         // Non-critical: Notify Shipper users (fire-and-forget)
         db.user
           .findMany({
@@ -552,6 +584,15 @@ export async function POST(
             { status: 409 }
           );
         }
+        if (msg === "TRUCK_CAPACITY_EXCEEDED") {
+          return NextResponse.json(
+            {
+              error:
+                "Truck does not have enough remaining capacity for this load",
+            },
+            { status: 409 }
+          );
+        }
         throw error;
       }
     } else {
@@ -563,6 +604,12 @@ export async function POST(
           data: { status: "CANCELLED" },
         });
 
+        // Auction award declined: the shipper may award another bid
+        await tx.loadBid.updateMany({
+          where: { loadRequestId: requestId, status: "AWARDED" },
+          data: { status: "DECLINED" },
+        });
+
         await tx.loadEvent.create({
           data: {
             loadId: loadRequest.loadId,
@@ -601,6 +648,7 @@ export async function POST(
         loadRequest.loadId,
         loadRequest.load.shipperId
       );
+      await refreshLoadMatches(loadRequest.loadId);
 
       // Non-critical: Notify Shipper users (fire-and-forget)
       // G-M19-2: Use NotificationType enum instead of raw string
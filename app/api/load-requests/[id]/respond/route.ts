@@ -17,8 +17,13 @@ import { requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { createNotification, NotificationType } from "@/lib/notifications";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+} from "@/lib/loadConsolidation";
 
 // Validation schema for load request response
 const LoadRequestResponseSchema = z.object({
@@ -80,6 +85,9 @@ export async function POST(
             shipperId: true,
             pickupCity: true,
             deliveryCity: true,
+            weight: true,
+            volume: true,
+            fullPartial: true,
           },
         },
         truck: {
@@ -190,27 +198,15 @@ export async function POST(
         );
       }
 
-      // G-M18-3: Guard — truck must not be on an active trip
-      const activeTripCount = await db.trip.count({
-        where: {
-          truckId: loadRequest.truck.id,
-          status: {
-            in: [
-              "ASSIGNED",
-              "PICKUP_PENDING",
-              "IN_TRANSIT",
-              "DELIVERED",
-              "EXCEPTION",
-            ],
-          },
-        },
-      });
-      if (activeTripCount > 0) {
+      // G-M18-3: Guard — truck must not be on an active trip, unless the
+      // load is PARTIAL and fits the truck's remaining capacity
+      const { fit } = await checkTruckCanTakeLoad(
+        loadRequest.truck.id,
+        loadRequest.load
+      );
+      if (!fit.ok) {
         return NextResponse.json(
-          {
-            error:
-              "Truck is currently on an active trip and cannot be approved for booking",
-          },
+          { error: consolidationErrorMessage(fit.reason) },
           { status: 409 }
         );
       }
@@ -300,6 +296,7 @@ export async function POST(
           loadRequest.loadId,
           loadRequest.load.shipperId
         );
+        await refreshLoadMatches(loadRequest.loadId);
 
         // Non-critical: Notify carrier users (fire-and-forget)
         db.user
@@ -393,6 +390,7 @@ export async function POST(
         loadRequest.loadId,
         loadRequest.load?.shipperId
       );
+      await refreshLoadMatches(loadRequest.loadId);
 
       // Non-critical: Notify carrier users (fire-and-forget, outside transaction)
       const carrierUsers = await db.user.findMany({
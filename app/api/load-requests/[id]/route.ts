@@ -11,6 +11,7 @@ import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 
 /**
@@ -214,6 +215,7 @@ export async function DELETE(
     }
 
     await CacheInvalidation.load(loadRequest.loadId);
+    await refreshLoadMatches(loadRequest.loadId);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,128 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Request Chain API
+ *
+ * POST /api/load-requests/chain - Request every load of a planned tour
+ *      (GET /api/trucks/[id]/tours) with one truck in one action
+ *
+ * Each load goes through the same checks as POST /api/load-requests and
+ * each shipper approves their load separately.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { checkWalletGate } from "@/lib/walletGate";
+import { createLoadRequest } from "@/lib/loadRequests";
+import { MAX_TOUR_LOADS } from "@/lib/tourPlanner";
+
+const LoadRequestChainSchema = z.object({
+  truckId: z.string().min(1, "Truck ID is required"),
+  loadIds: z.array(z.string().min(1)).min(1).max(MAX_TOUR_LOADS),
+  notes: z.string().max(500).optional(),
+  expiresInHours: z.number().min(1).max(72).default(24),
+});
+
+/**
+ * POST /api/load-requests/chain
+ *
+ * Body: truckId, loadIds (in tour order), notes?, expiresInHours (default 24)
+ *
+ * Loads that fail a check are reported; the rest are still requested.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-requests",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+    if (!isAdmin && session.role !== "CARRIER") {
+      return NextResponse.json(
+        { error: "Only carriers can request loads" },
+        { status: 403 }
+      );
+    }
+
+    if (!isAdmin && !session.organizationId) {
+      return NextResponse.json(
+        { error: "Carrier must belong to an organization" },
+        { status: 400 }
+      );
+    }
+
+    // A4: Block load request if carrier is below minimum balance (Blueprint §8)
+    const gateError = await checkWalletGate({
+      userId: session.userId,
+      role: session.role,
+      organizationId: session.organizationId,
+    });
+    if (gateError) return gateError;
+
+    const body = await request.json();
+    const parsed = LoadRequestChainSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const { truckId, loadIds, notes, expiresInHours } = parsed.data;
+    if (new Set(loadIds).size !== loadIds.length) {
+      return NextResponse.json(
+        { error: "Each load can appear only once in a chain" },
+        { status: 400 }
+      );
+    }
+
+    const loadRequests = [];
+    const failed = [];
+    // In tour order, one at a time
+    for (const loadId of loadIds) {
+      const result = await createLoadRequest(
+        { loadId, truckId, notes, expiresInHours },
+        {
+          userId: session.userId,
+          organizationId: session.organizationId,
+          isAdmin,
+        }
+      );
+      if ("error" in result) {
+        failed.push({ loadId, error: result.error });
+      } else {
+        loadRequests.push(result.loadRequest);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        loadRequests,
+        failed,
+        message: `${loadRequests.length} of ${loadIds.length} load request${loadIds.length === 1 ? "" : "s"} sent to shippers`,
+      },
+      { status: loadRequests.length > 0 ? 201 : 200 }
+    );
+  } catch (error) {
+    return handleApiError(error, "Error creating load request chain");
+  }
+}
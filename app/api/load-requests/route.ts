@@ -16,12 +16,11 @@ import { db } from "@/lib/db";
 import { z } from "zod";
 import { requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
-import { createNotification, NotificationType } from "@/lib/notifications";
 import { Prisma } from "@prisma/client";
 import { handleApiError } from "@/lib/apiErrors";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
-import { CacheInvalidation } from "@/lib/cache";
 import { checkWalletGate } from "@/lib/walletGate";
+import { createLoadRequest } from "@/lib/loadRequests";
 
 // Validation schema for load request
 // Note: No proposedRate field - price negotiation happens outside platform
@@ -105,272 +104,21 @@ export async function POST(request: NextRequest) {
       return zodErrorResponse(validationResult.error);
     }
 
-    const data = validationResult.data;
-
-    // Get the load
-    const load = await db.load.findUnique({
-      where: { id: data.loadId },
-      include: {
-        shipper: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
-    });
-
-    if (!load) {
-      return NextResponse.json({ error: "Load not found" }, { status: 404 });
-    }
-
-    // Check load status - must be available
-    const availableStatuses = ["POSTED", "SEARCHING", "OFFERED"];
-    if (!availableStatuses.includes(load.status)) {
-      return NextResponse.json(
-        { error: `Load is not available (status: ${load.status})` },
-        { status: 400 }
-      );
-    }
-
-    // Check if load is already assigned
-    if (load.assignedTruckId) {
-      return NextResponse.json(
-        { error: "Load is already assigned to a truck" },
-        { status: 400 }
-      );
-    }
-
-    // Get the truck
-    const truck = await db.truck.findUnique({
-      where: { id: data.truckId },
-      include: {
-        carrier: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        // G-A7-6: Fetch active trips to block requests for busy trucks.
-        // G-A7-3: PICKUP_PENDING included — truck heading to pickup is already committed.
-        // Uses trips (hasMany) rather than assignedLoad (one-to-one) for proper filtering.
-        trips: {
-          where: {
-            status: {
-              in: [
-                "ASSIGNED",
-                "PICKUP_PENDING",
-                "IN_TRANSIT",
-                "DELIVERED",
-                "EXCEPTION",
-              ],
-            },
-          },
-          select: { id: true },
-          take: 1,
-        },
-      },
-    });
-
-    if (!truck) {
-      return NextResponse.json({ error: "Truck not found" }, { status: 404 });
-    }
-
-    // BUG-2 FIX: Admins act on behalf of the truck's carrier org.
-    // For carriers, enforce that they own the truck.
-    const effectiveCarrierId = isAdmin
-      ? truck.carrierId
-      : session.organizationId!;
-
-    if (!isAdmin && truck.carrierId !== session.organizationId) {
-      return NextResponse.json({ error: "Truck not found" }, { status: 404 });
-    }
-
-    // Verify truck is approved
-    if (truck.approvalStatus !== "APPROVED") {
-      return NextResponse.json(
-        { error: "Truck must be approved before requesting loads" },
-        { status: 400 }
-      );
-    }
-
-    // Truck insurance must be valid (blueprint §4)
-    if (
-      truck.insuranceStatus !== "VALID" &&
-      truck.insuranceStatus !== "EXPIRING"
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            "Truck insurance has expired or is missing. Renew insurance before requesting loads.",
-        },
-        { status: 400 }
-      );
-    }
-
-    // G-A7-6: Reject requests for trucks already on an active trip.
-    if (truck.trips.length > 0) {
-      return NextResponse.json(
-        {
-          error:
-            "Truck is currently on an active trip and cannot be used for load requests",
-        },
-        { status: 409 }
-      );
-    }
-
-    // Check if truck has an active posting
-    const activePosting = await db.truckPosting.findFirst({
-      where: {
-        truckId: data.truckId,
-        status: "ACTIVE",
-      },
-    });
-
-    if (!activePosting) {
-      return NextResponse.json(
-        { error: "Truck must have an active posting to request loads" },
-        { status: 400 }
-      );
-    }
-
-    // Check for existing pending request for same load-truck pair
-    const existingRequest = await db.loadRequest.findFirst({
-      where: {
-        loadId: data.loadId,
-        truckId: data.truckId,
-        status: "PENDING",
-      },
+    const result = await createLoadRequest(validationResult.data, {
+      userId: session.userId,
+      organizationId: session.organizationId,
+      isAdmin,
     });
-
-    if (existingRequest) {
+    if ("error" in result) {
       return NextResponse.json(
-        {
-          error:
-            "A pending request already exists for this load-truck combination",
-        },
-        { status: 409 }
+        { error: result.error },
+        { status: result.status }
       );
     }
 
-    // Calculate expiration time
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + data.expiresInHours);
-
-    // Create the load request
-    // G-M14-3: Partial unique index enforces one PENDING per (loadId, truckId)
-    let loadRequest;
-    try {
-      loadRequest = await db.loadRequest.create({
-        data: {
-          loadId: data.loadId,
-          truckId: data.truckId,
-          carrierId: effectiveCarrierId,
-          requestedById: session.userId,
-          shipperId: load.shipperId!,
-          notes: data.notes,
-          // No proposedRate - price negotiation happens outside platform
-          expiresAt,
-        },
-        include: {
-          load: {
-            select: {
-              id: true,
-              pickupCity: true,
-              deliveryCity: true,
-              truckType: true,
-            },
-          },
-          truck: {
-            select: {
-              id: true,
-              licensePlate: true,
-              truckType: true,
-            },
-          },
-          carrier: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-          shipper: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-      });
-    } catch (error) {
-      if (
-        error instanceof Prisma.PrismaClientKnownRequestError &&
-        error.code === "P2002"
-      ) {
-        return NextResponse.json(
-          { error: "A pending request already exists for this load and truck" },
-          { status: 409 }
-        );
-      }
-      throw error;
-    }
-
-    // Create load event
-    await db.loadEvent.create({
-      data: {
-        loadId: data.loadId,
-        eventType: "LOAD_REQUESTED",
-        description: `Carrier ${truck.carrier.name} requested this load with truck ${truck.licensePlate}`,
-        userId: session.userId,
-        metadata: {
-          loadRequestId: loadRequest.id,
-          truckId: data.truckId,
-          carrierId: effectiveCarrierId,
-        },
-      },
-    });
-
-    // G-A9-3: Transition load POSTED → SEARCHING ("active carrier search in progress")
-    if (load.status === "POSTED") {
-      await db.load.update({
-        where: { id: data.loadId },
-        data: { status: "SEARCHING" },
-      });
-    }
-
-    // Notify shipper users
-    const shipperUsers = await db.user.findMany({
-      where: {
-        organizationId: load.shipperId!,
-        status: "ACTIVE",
-      },
-      select: { id: true },
-    });
-
-    // Fire-and-forget: notification failure must not return 500 after committed request
-    Promise.all(
-      shipperUsers.map((user) =>
-        createNotification({
-          userId: user.id,
-          type: NotificationType.LOAD_REQUEST_RECEIVED,
-          title: "New Load Request",
-          message: `${truck.carrier.name} wants to haul your load from ${load.pickupCity} to ${load.deliveryCity}`,
-          metadata: {
-            loadRequestId: loadRequest.id,
-            loadId: data.loadId,
-            truckId: data.truckId,
-            carrierName: truck.carrier.name,
-          },
-        })
-      )
-    ).catch((err) => console.error("Load request notification failed:", err));
-
-    // Invalidate load cache after request creation
-    await CacheInvalidation.load(data.loadId);
-
     return NextResponse.json(
       {
-        loadRequest,
+        loadRequest: result.loadRequest,
         message: "Load request sent to shipper",
       },
       { status: 201 }
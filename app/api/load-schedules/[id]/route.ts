@@ -0,0 +1,308 @@
+export const dynamic = "force-dynamic";
+/**
+ * Individual Load Schedule API
+ *
+ * GET    /api/load-schedules/[id] - Schedule with its generated loads
+ * PATCH  /api/load-schedules/[id] - Edit template / rule, pause or resume
+ * DELETE /api/load-schedules/[id] - End the schedule (generated loads are kept)
+ *
+ * Template edits also apply to generated loads that are still DRAFT or
+ * UNPOSTED and have not reached their pickup date, prepared like POST
+ * /api/loads and with their matches refreshed. Rule edits only apply to
+ * occurrences that have not been generated yet.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { CacheInvalidation } from "@/lib/cache";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { buildStopRows } from "@/lib/loadStops";
+import { loadVisibilityData } from "@/lib/carrierNetworks";
+import { refreshLoadMatches } from "@/lib/matchIndex";
+import {
+  SCHEDULE_EDITABLE_STATUSES,
+  loadTemplateSchema,
+  prepareTemplate,
+  templateLoadData,
+  toUtcDay,
+  updateLoadScheduleSchema,
+  validateScheduleRule,
+  validateTemplateContact,
+} from "@/lib/loadSchedules";
+
+type SessionLike = {
+  role: string;
+  organizationId?: string | null;
+};
+
+/**
+ * Load a schedule the caller may manage (owning shipper or admin).
+ * Returns null otherwise so callers answer 404 without leaking existence.
+ */
+async function findManagedSchedule(id: string, session: SessionLike) {
+  const schedule = await db.loadSchedule.findUnique({ where: { id } });
+  if (!schedule) return null;
+
+  const isOwner =
+    session.role === "SHIPPER" && session.organizationId === schedule.shipperId;
+  const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+  return isOwner || isAdmin ? schedule : null;
+}
+
+async function checkWriteLimit(request: NextRequest) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "load-schedule-write",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/load-schedules/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const schedule = await findManagedSchedule(id, session);
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Load schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const loads = await db.load.findMany({
+      where: { scheduleId: id },
+      select: {
+        id: true,
+        status: true,
+        scheduledFor: true,
+        pickupDate: true,
+        deliveryDate: true,
+        pickupCity: true,
+        deliveryCity: true,
+        assignedTruckId: true,
+        createdAt: true,
+      },
+      orderBy: { scheduledFor: "asc" },
+    });
+
+    return NextResponse.json({ schedule, loads });
+  } catch (error) {
+    return handleApiError(error, "Error fetching load schedule");
+  }
+}
+
+/**
+ * PATCH /api/load-schedules/[id]
+ *
+ * Body: any of name, status (ACTIVE | PAUSED), template, frequency,
+ * interval, daysOfWeek, endDate, deliveryOffsetDays, leadDays, postAs
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const schedule = await findManagedSchedule(id, session);
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Load schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (schedule.status === "ENDED") {
+      return NextResponse.json(
+        { error: "Ended schedules cannot be edited" },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateLoadScheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const { template: templateInput, endDate, ...fields } = parsed.data;
+
+    const rule = {
+      frequency: fields.frequency ?? schedule.frequency,
+      interval: fields.interval ?? schedule.interval,
+      daysOfWeek: fields.daysOfWeek ?? schedule.daysOfWeek,
+      startDate: schedule.startDate,
+      endDate:
+        endDate === undefined
+          ? schedule.endDate
+          : endDate
+            ? toUtcDay(new Date(endDate))
+            : null,
+    };
+    const ruleError = validateScheduleRule(rule);
+    if (ruleError) {
+      return NextResponse.json({ error: ruleError }, { status: 400 });
+    }
+
+    // Same contact rule as POST when the template or postAs changes
+    if (templateInput || fields.postAs) {
+      const current =
+        templateInput ?? loadTemplateSchema.safeParse(schedule.template).data;
+      const contactError = current
+        ? validateTemplateContact(current, fields.postAs ?? schedule.postAs)
+        : null;
+      if (contactError) {
+        return NextResponse.json({ error: contactError }, { status: 400 });
+      }
+    }
+
+    const template = templateInput
+      ? await prepareTemplate(templateInput)
+      : undefined;
+    const loadData = template ? await templateLoadData(template) : undefined;
+
+    const { updated, loadIds } = await db.$transaction(async (tx) => {
+      const updated = await tx.loadSchedule.update({
+        where: { id },
+        data: {
+          ...fields,
+          endDate: rule.endDate,
+          ...(template && { template }),
+        },
+      });
+
+      // Push template edits to generated loads that have not gone out yet
+      let loadIds: string[] = [];
+      if (template && loadData) {
+        const futureLoads = await tx.load.findMany({
+          where: {
+            scheduleId: id,
+            status: { in: SCHEDULE_EDITABLE_STATUSES },
+            assignedTruckId: null,
+            scheduledFor: { gt: new Date() },
+          },
+          select: { id: true, postedAt: true },
+        });
+        loadIds = futureLoads.map((load) => load.id);
+
+        if (loadIds.length > 0) {
+          for (const load of futureLoads) {
+            await tx.load.update({
+              where: { id: load.id },
+              data: {
+                ...loadData,
+                ...loadVisibilityData(loadData, load.postedAt),
+              },
+            });
+          }
+
+          await tx.loadStop.deleteMany({ where: { loadId: { in: loadIds } } });
+          const stops = template.stops;
+          if (stops) {
+            await tx.loadStop.createMany({
+              data: loadIds.flatMap((loadId) => buildStopRows(loadId, stops)),
+            });
+          }
+
+          await tx.loadEvent.createMany({
+            data: loadIds.map((loadId) => ({
+              loadId,
+              eventType: "EDITED",
+              description: `Load updated from schedule "${updated.name}"`,
+              userId: session.userId,
+              metadata: { scheduleId: id },
+            })),
+          });
+        }
+      }
+
+      return { updated, loadIds };
+    });
+
+    if (loadIds.length > 0) {
+      for (const loadId of loadIds) {
+        await refreshLoadMatches(loadId);
+      }
+      await CacheInvalidation.allListings();
+    }
+
+    return NextResponse.json({
+      schedule: updated,
+      loadsUpdated: loadIds.length,
+    });
+  } catch (error) {
+    return handleApiError(error, "Error updating load schedule");
+  }
+}
+
+/**
+ * DELETE /api/load-schedules/[id]
+ *
+ * Ends the schedule. Loads it already generated are left as they are and
+ * keep their link to the schedule for reporting.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const schedule = await findManagedSchedule(id, session);
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Load schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const updated = await db.loadSchedule.update({
+      where: { id },
+      data: { status: "ENDED" },
+    });
+
+    return NextResponse.json({
+      schedule: updated,
+      message: "Load schedule ended",
+    });
+  } catch (error) {
+    return handleApiError(error, "Error ending load schedule");
+  }
+}
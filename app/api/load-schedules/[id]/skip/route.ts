@@ -0,0 +1,183 @@
+export const dynamic = "force-dynamic";
+/**
+ * Skip One Schedule Occurrence
+ *
+ * POST /api/load-schedules/[id]/skip
+ *
+ * Body: { date: "YYYY-MM-DD" }
+ *
+ * Adds the occurrence to the schedule's skipped dates so it is never
+ * generated. If its load was already generated and is still unbooked
+ * (DRAFT / UNPOSTED / POSTED, no truck assigned) the load is cancelled and
+ * any pending carrier requests on it are rejected. Loads already matched or
+ * booked must be handled through the normal load cancellation flow.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches } from "@/lib/matchIndex";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import {
+  SCHEDULE_SKIPPABLE_STATUSES,
+  getScheduleRule,
+  isOccurrenceDate,
+  toUtcDay,
+} from "@/lib/loadSchedules";
+
+const skipOccurrenceSchema = z.object({
+  date: z
+    .string()
+    .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date"),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-schedule-skip",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const schedule = await db.loadSchedule.findUnique({ where: { id } });
+    const isOwner =
+      session.role === "SHIPPER" &&
+      session.organizationId === schedule?.shipperId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    if (!schedule || (!isOwner && !isAdmin)) {
+      return NextResponse.json(
+        { error: "Load schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = skipOccurrenceSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const date = toUtcDay(new Date(parsed.data.date));
+    if (!isOccurrenceDate(getScheduleRule(schedule), date)) {
+      return NextResponse.json(
+        { error: "Date is not an occurrence of this schedule" },
+        { status: 400 }
+      );
+    }
+    if (date < toUtcDay(new Date())) {
+      return NextResponse.json(
+        { error: "Past occurrences cannot be skipped" },
+        { status: 400 }
+      );
+    }
+
+    const alreadySkipped = schedule.skippedDates.some(
+      (skipped) => toUtcDay(skipped).getTime() === date.getTime()
+    );
+
+    const generatedLoad = await db.load.findFirst({
+      where: { scheduleId: id, scheduledFor: date },
+      select: { id: true, status: true, assignedTruckId: true },
+    });
+    const cancelLoad =
+      generatedLoad && generatedLoad.status !== "CANCELLED"
+        ? generatedLoad
+        : null;
+
+    if (
+      cancelLoad &&
+      (!SCHEDULE_SKIPPABLE_STATUSES.includes(cancelLoad.status) ||
+        cancelLoad.assignedTruckId)
+    ) {
+      return NextResponse.json(
+        {
+          error: `The load for this date is already in progress (status: ${cancelLoad.status}). Cancel it from the load page instead.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const updated = await db.$transaction(async (tx) => {
+      const updated = alreadySkipped
+        ? schedule
+        : await tx.loadSchedule.update({
+            where: { id },
+            data: { skippedDates: [...schedule.skippedDates, date] },
+          });
+
+      if (cancelLoad) {
+        const responseData = {
+          status: "REJECTED" as const,
+          responseNotes: "Scheduled occurrence was skipped by shipper",
+          respondedAt: new Date(),
+        };
+        await tx.loadRequest.updateMany({
+          where: { loadId: cancelLoad.id, status: "PENDING" },
+          data: responseData,
+        });
+        await tx.truckRequest.updateMany({
+          where: { loadId: cancelLoad.id, status: "PENDING" },
+          data: responseData,
+        });
+        await tx.matchProposal.updateMany({
+          where: { loadId: cancelLoad.id, status: "PENDING" },
+          data: { status: "REJECTED", respondedAt: new Date() },
+        });
+
+        await tx.load.update({
+          where: { id: cancelLoad.id },
+          data: { status: "CANCELLED" },
+        });
+        await tx.loadEvent.create({
+          data: {
+            loadId: cancelLoad.id,
+            eventType: "CANCELLED",
+            description: `Scheduled occurrence skipped (schedule "${schedule.name}")`,
+            userId: session.userId,
+            metadata: { scheduleId: id, scheduledFor: date.toISOString() },
+          },
+        });
+      }
+
+      return updated;
+    });
+
+    if (cancelLoad) {
+      await CacheInvalidation.load(cancelLoad.id, schedule.shipperId);
+      await refreshLoadMatches(cancelLoad.id);
+    }
+
+    return NextResponse.json({
+      schedule: updated,
+      cancelledLoadId: cancelLoad?.id ?? null,
+      message: "Occurrence skipped",
+    });
+  } catch (error) {
+    return handleApiError(error, "Error skipping schedule occurrence");
+  }
+}
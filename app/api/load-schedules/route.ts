@@ -0,0 +1,168 @@
+export const dynamic = "force-dynamic";
+/**
+ * Recurring Load Schedules API
+ *
+ * GET  /api/load-schedules - List the shipper organization's schedules
+ * POST /api/load-schedules - Create a schedule from a template or an existing load
+ *
+ * Generated loads are created ahead of pickup by the generate-scheduled-loads
+ * cron (see lib/loadSchedules.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { requirePermission, Permission } from "@/lib/rbac";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import {
+  createLoadScheduleSchema,
+  loadTemplateSchema,
+  prepareTemplate,
+  templateFromLoad,
+  toUtcDay,
+  validateScheduleRule,
+  validateTemplateContact,
+} from "@/lib/loadSchedules";
+
+/**
+ * GET /api/load-schedules
+ *
+ * Query: status? (ACTIVE | PAUSED | ENDED)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireActiveUser();
+
+    if (session.role !== "SHIPPER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only shippers can view load schedules" },
+        { status: 403 }
+      );
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    const schedules = await db.loadSchedule.findMany({
+      where: {
+        shipperId: session.organizationId,
+        ...(status === "ACTIVE" || status === "PAUSED" || status === "ENDED"
+          ? { status }
+          : {}),
+      },
+      include: { _count: { select: { loads: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ schedules });
+  } catch (error) {
+    return handleApiError(error, "Error fetching load schedules");
+  }
+}
+
+/**
+ * POST /api/load-schedules
+ *
+ * Body: name, recurrence rule (frequency, interval, daysOfWeek, startDate,
+ * endDate?, deliveryOffsetDays, leadDays, postAs) and either `template`
+ * (load fields without dates) or `loadId` to copy an existing load.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-schedules",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    await requireActiveUser();
+    const session = await requirePermission(Permission.CREATE_LOAD);
+
+    if (session.role !== "SHIPPER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only shippers can create load schedules" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = createLoadScheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const data = parsed.data;
+
+    const rule = {
+      frequency: data.frequency,
+      interval: data.interval,
+      daysOfWeek: data.daysOfWeek,
+      startDate: toUtcDay(new Date(data.startDate)),
+      endDate: data.endDate ? toUtcDay(new Date(data.endDate)) : null,
+    };
+    const ruleError = validateScheduleRule(rule);
+    if (ruleError) {
+      return NextResponse.json({ error: ruleError }, { status: 400 });
+    }
+
+    let template = data.template;
+    if (data.loadId) {
+      const sourceLoad = await db.load.findUnique({
+        where: { id: data.loadId },
+        include: { stops: true },
+      });
+      if (!sourceLoad || sourceLoad.shipperId !== session.organizationId) {
+        return NextResponse.json({ error: "Load not found" }, { status: 404 });
+      }
+
+      const copied = loadTemplateSchema.safeParse(templateFromLoad(sourceLoad));
+      if (!copied.success) {
+        const { zodErrorResponse } = await import("@/lib/validation");
+        return zodErrorResponse(copied.error);
+      }
+      template = copied.data;
+    }
+    if (!template) {
+      return NextResponse.json(
+        { error: "Provide either a template or a source loadId" },
+        { status: 400 }
+      );
+    }
+
+    const contactError = validateTemplateContact(template, data.postAs);
+    if (contactError) {
+      return NextResponse.json({ error: contactError }, { status: 400 });
+    }
+
+    const schedule = await db.loadSchedule.create({
+      data: {
+        name: data.name,
+        shipperId: session.organizationId,
+        createdById: session.userId,
+        template: await prepareTemplate(template),
+        ...rule,
+        deliveryOffsetDays: data.deliveryOffsetDays,
+        leadDays: data.leadDays,
+        postAs: data.postAs,
+      },
+    });
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "Error creating load schedule");
+  }
+}
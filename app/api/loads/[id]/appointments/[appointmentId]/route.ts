@@ -0,0 +1,211 @@
+export const dynamic = "force-dynamic";
+/**
+ * Individual Dock Appointment API
+ *
+ * PATCH  /api/loads/[id]/appointments/[appointmentId] - Move to another slot
+ * DELETE /api/loads/[id]/appointments/[appointmentId] - Cancel, freeing the dock
+ *
+ * Only the booking carrier (or an admin) may change an appointment, and only
+ * while the stop is still ahead of the truck.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { LoadStatus, StopType } from "@prisma/client";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { CacheInvalidation } from "@/lib/cache";
+import {
+  APPOINTMENT_BOOKABLE_STATUSES,
+  cancelDockAppointment,
+  notifyAppointmentChange,
+  rescheduleDockAppointment,
+} from "@/lib/dockAppointments";
+
+const rescheduleSchema = z.object({
+  startTime: z.string().datetime({ offset: true }),
+});
+
+type SessionLike = {
+  role: string;
+  organizationId?: string | null;
+};
+
+/**
+ * Load an appointment of the load that the caller may change (booking
+ * carrier or admin). Returns null otherwise so callers answer 404.
+ */
+async function findManagedAppointment(
+  loadId: string,
+  appointmentId: string,
+  session: SessionLike
+) {
+  const appointment = await db.dockAppointment.findUnique({
+    where: { id: appointmentId },
+    include: {
+      facility: true,
+      load: { select: { id: true, status: true, shipperId: true } },
+    },
+  });
+  if (!appointment || appointment.loadId !== loadId) return null;
+
+  const isCarrier =
+    session.role === "CARRIER" &&
+    session.organizationId === appointment.carrierId;
+  const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+  return isCarrier || isAdmin ? appointment : null;
+}
+
+async function checkWriteLimit(request: NextRequest) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "dock-appointments",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+function statusError(stopType: StopType, loadStatus: LoadStatus) {
+  if (APPOINTMENT_BOOKABLE_STATUSES[stopType].includes(loadStatus)) {
+    return null;
+  }
+  return NextResponse.json(
+    {
+      error: `Cannot change a ${stopType === "PICKUP" ? "pickup" : "delivery"} appointment for a load in ${loadStatus} status`,
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * PATCH /api/loads/[id]/appointments/[appointmentId]
+ *
+ * Body: startTime (ISO datetime of a slot start at the same facility)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; appointmentId: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const { id, appointmentId } = await params;
+
+    const appointment = await findManagedAppointment(
+      id,
+      appointmentId,
+      session
+    );
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Appointment not found" },
+        { status: 404 }
+      );
+    }
+
+    const blocked = statusError(appointment.stopType, appointment.load.status);
+    if (blocked) return blocked;
+
+    const body = await request.json();
+    const parsed = rescheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const result = await rescheduleDockAppointment(
+      appointment,
+      new Date(parsed.data.startTime),
+      session.userId
+    );
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await CacheInvalidation.load(id, appointment.load.shipperId);
+    notifyAppointmentChange(
+      appointment.load,
+      result.appointment,
+      "rescheduled"
+    );
+
+    return NextResponse.json({ appointment: result.appointment });
+  } catch (error) {
+    return handleApiError(error, "Reschedule dock appointment error");
+  }
+}
+
+/**
+ * DELETE /api/loads/[id]/appointments/[appointmentId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; appointmentId: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const { id, appointmentId } = await params;
+
+    const appointment = await findManagedAppointment(
+      id,
+      appointmentId,
+      session
+    );
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Appointment not found" },
+        { status: 404 }
+      );
+    }
+
+    const blocked = statusError(appointment.stopType, appointment.load.status);
+    if (blocked) return blocked;
+
+    const result = await cancelDockAppointment(appointment, session.userId);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await CacheInvalidation.load(id, appointment.load.shipperId);
+    notifyAppointmentChange(appointment.load, result.appointment, "cancelled");
+
+    return NextResponse.json({
+      appointment: result.appointment,
+      message: "Appointment cancelled",
+    });
+  } catch (error) {
+    return handleApiError(error, "Cancel dock appointment error");
+  }
+}
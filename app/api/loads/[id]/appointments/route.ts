@@ -0,0 +1,219 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Dock Appointments API
+ *
+ * GET  /api/loads/[id]/appointments - Booked appointments and the load's
+ *      facilities; with ?stopType=PICKUP|DROPOFF&date=YYYY-MM-DD also that
+ *      facility's slot availability for the day
+ * POST /api/loads/[id]/appointments - Book a slot (assigned carrier or admin)
+ *
+ * Reschedule / cancel: /api/loads/[id]/appointments/[appointmentId]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { CacheInvalidation } from "@/lib/cache";
+import {
+  APPOINTMENT_BOOKABLE_STATUSES,
+  bookDockAppointment,
+  getFacilityAvailability,
+  notifyAppointmentChange,
+} from "@/lib/dockAppointments";
+
+const bookAppointmentSchema = z.object({
+  stopType: z.enum(["PICKUP", "DROPOFF"]),
+  startTime: z.string().datetime({ offset: true }),
+});
+
+/**
+ * GET /api/loads/[id]/appointments
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireActiveUser();
+    const { id } = await params;
+
+    const load = await db.load.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        shipperId: true,
+        assignedTruck: { select: { carrierId: true } },
+        pickupFacility: true,
+        deliveryFacility: true,
+      },
+    });
+
+    const hasAccess =
+      load &&
+      (session.role === "ADMIN" ||
+        session.role === "SUPER_ADMIN" ||
+        (session.role === "SHIPPER" &&
+          session.organizationId === load.shipperId) ||
+        (session.role === "CARRIER" &&
+          session.organizationId === load.assignedTruck?.carrierId));
+
+    if (!load || !hasAccess) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const appointments = await db.dockAppointment.findMany({
+      where: { loadId: id },
+      orderBy: { startTime: "asc" },
+    });
+
+    const { searchParams } = request.nextUrl;
+    const stopType = searchParams.get("stopType");
+    const date = searchParams.get("date");
+    let slots;
+    if (stopType && date) {
+      if (
+        (stopType !== "PICKUP" && stopType !== "DROPOFF") ||
+        !/^\d{4}-\d{2}-\d{2}$/.test(date)
+      ) {
+        return NextResponse.json(
+          { error: "stopType must be PICKUP or DROPOFF and date YYYY-MM-DD" },
+          { status: 400 }
+        );
+      }
+      const facility =
+        stopType === "PICKUP" ? load.pickupFacility : load.deliveryFacility;
+      slots = facility ? await getFacilityAvailability(facility, date) : [];
+    }
+
+    return NextResponse.json({
+      appointments,
+      facilities: {
+        pickup: load.pickupFacility,
+        delivery: load.deliveryFacility,
+      },
+      ...(slots && { slots }),
+    });
+  } catch (error) {
+    return handleApiError(error, "Get dock appointments error");
+  }
+}
+
+/**
+ * POST /api/loads/[id]/appointments
+ *
+ * Body: stopType (PICKUP | DROPOFF), startTime (ISO datetime of a slot start)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "dock-appointments",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const { id } = await params;
+
+    const body = await request.json();
+    const parsed = bookAppointmentSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const { stopType, startTime } = parsed.data;
+
+    const load = await db.load.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        shipperId: true,
+        assignedTruckId: true,
+        assignedTruck: { select: { carrierId: true } },
+        pickupFacility: true,
+        deliveryFacility: true,
+      },
+    });
+
+    const carrierId = load?.assignedTruck?.carrierId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isCarrier =
+      session.role === "CARRIER" &&
+      !!carrierId &&
+      session.organizationId === carrierId;
+
+    if (!load || (!isAdmin && !isCarrier)) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    if (
+      !carrierId ||
+      !APPOINTMENT_BOOKABLE_STATUSES[stopType].includes(load.status)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Cannot book a ${stopType === "PICKUP" ? "pickup" : "delivery"} appointment for a load in ${load.status} status`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const facility =
+      stopType === "PICKUP" ? load.pickupFacility : load.deliveryFacility;
+    if (!facility) {
+      return NextResponse.json(
+        {
+          error: `Load has no ${stopType === "PICKUP" ? "pickup" : "delivery"} facility with dock appointments`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await bookDockAppointment({
+      facility,
+      loadId: id,
+      stopType,
+      startTime: new Date(startTime),
+      carrierId,
+      truckId: load.assignedTruckId,
+      userId: session.userId,
+    });
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await CacheInvalidation.load(id, load.shipperId);
+    notifyAppointmentChange(load, result.appointment, "booked");
+
+    return NextResponse.json(
+      { appointment: result.appointment },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, "Book dock appointment error");
+  }
+}
@@ -11,10 +11,17 @@ import { validateStateTransition, LoadStatus } from "@/lib/loadStateMachine";
 import { checkAssignmentConflicts } from "@/lib/assignmentConflictDetection"; // Sprint 4
 // P0-005 FIX: Import CacheInvalidation for post-assignment cache clearing
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import crypto from "crypto";
 import { zodErrorResponse } from "@/lib/validation";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { handleApiError } from "@/lib/apiErrors";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+  linkConsolidatedTrip,
+} from "@/lib/loadConsolidation";
+import { resetStopExecution } from "@/lib/loadStops";
 
 const assignLoadSchema = z.object({
   truckId: z.string(),
@@ -201,6 +208,9 @@ export async function POST(
             destinationLon: true,
             tripKm: true,
             estimatedTripKm: true,
+            weight: true,
+            volume: true,
+            fullPartial: true,
           },
         });
 
@@ -219,33 +229,42 @@ export async function POST(
         }
 
         // Check truck is not already busy with an active load
-        const truckBusy = await tx.load.findFirst({
-          where: {
-            assignedTruckId: truckId,
-            status: {
-              in: [
-                "ASSIGNED",
-                "PICKUP_PENDING",
-                "IN_TRANSIT",
-                "DELIVERED",
-                "EXCEPTION",
-              ],
+        // (LTL: PARTIAL loads may share the truck while capacity remains)
+        const { fit, assignments } = await checkTruckCanTakeLoad(
+          truckId,
+          freshLoad,
+          tx
+        );
+        if (!fit.ok) {
+          if (fit.reason === "TRUCK_CAPACITY_EXCEEDED") {
+            throw new Error("TRUCK_CAPACITY_EXCEEDED");
+          }
+          const truckBusy = await tx.load.findFirst({
+            where: {
+              assignedTruckId: truckId,
+              status: {
+                in: [
+                  "ASSIGNED",
+                  "PICKUP_PENDING",
+                  "IN_TRANSIT",
+                  "DELIVERED",
+                  "EXCEPTION",
+                ],
+              },
             },
-          },
-          select: { id: true, pickupCity: true, deliveryCity: true },
-        });
-
-        if (truckBusy) {
+            select: { id: true, pickupCity: true, deliveryCity: true },
+          });
           throw new Error(
-            `TRUCK_ALREADY_BUSY:${truckBusy.pickupCity}:${truckBusy.deliveryCity}`
+            `TRUCK_ALREADY_BUSY:${truckBusy?.pickupCity ?? "?"}:${truckBusy?.deliveryCity ?? "?"}`
           );
         }
 
-        // Unassign truck from any completed loads (cleanup)
+        // Unassign truck from any completed loads (cleanup; DELIVERED loads
+        // may still share a consolidated run and keep their truck)
         await tx.load.updateMany({
           where: {
             assignedTruckId: truckId,
-            status: { in: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"] },
+            status: { in: ["COMPLETED", "CANCELLED", "EXPIRED"] },
           },
           data: { assignedTruckId: null },
         });
@@ -289,6 +308,10 @@ export async function POST(
             trackingEnabled: true,
           },
         });
+        await linkConsolidatedTrip(tx, assignments, trip.id);
+
+        // Multi-stop: a new trip starts with no stop arrivals
+        await resetStopExecution(loadId, tx);
 
         // Create assignment event inside transaction
         await tx.loadEvent.create({
@@ -355,12 +378,20 @@ export async function POST(
           { status: 409 }
         );
       }
+      if (errorMessage === "TRUCK_CAPACITY_EXCEEDED") {
+        return NextResponse.json(
+          { error: consolidationErrorMessage("TRUCK_CAPACITY_EXCEEDED") },
+          { status: 409 }
+        );
+      }
       throw error; // Re-throw for generic error handling
     }
 
     // P0-005 FIX: Cache invalidation after transaction commits (fire-and-forget)
     await CacheInvalidation.load(loadId, load.shipperId);
+    await refreshLoadMatches(loadId);
     await CacheInvalidation.truck(truckId, truck.carrierId);
+    await refreshTruckMatches(truckId);
 
     // SERVICE FEE NOTE: Wallet balances were validated before assignment.
     // Actual fee deduction happens on trip completion (deductServiceFee).
@@ -558,8 +589,10 @@ export async function DELETE(
 
     // P1-003 FIX: Cache invalidation after unassignment
     await CacheInvalidation.load(loadId, load.shipperId);
+    await refreshLoadMatches(loadId);
     if (previousTruckId && previousTruck?.carrierId) {
       await CacheInvalidation.truck(previousTruckId, previousTruck.carrierId);
+      await refreshTruckMatches(previousTruckId);
     }
 
     return NextResponse.json({
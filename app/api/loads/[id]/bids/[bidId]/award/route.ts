@@ -0,0 +1,337 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Bid Award API
+ *
+ * POST /api/loads/[id]/bids/[bidId]/award
+ *   Shipper awards an auction load to one bid after the bid deadline.
+ *
+ * The award is a shipper approval: it creates a SHIPPER_APPROVED LoadRequest
+ * at the bid amount, and the winning carrier finalises the booking through
+ * POST /api/load-requests/[id]/confirm like any other approved request.
+ * Remaining active bids are marked LOST and their carriers notified.
+ *
+ * If the winner declines (or lets the confirmation window lapse), its bid
+ * becomes DECLINED and the shipper may award another (LOST) bid.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import {
+  createNotification,
+  notifyOrganization,
+  NotificationType,
+} from "@/lib/notifications";
+import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches } from "@/lib/matchIndex";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import {
+  AUCTION_BOOKABLE_STATUSES,
+  AWARD_CONFIRMATION_HOURS,
+  isAuctionOpen,
+} from "@/lib/loadAuctions";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+} from "@/lib/loadConsolidation";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; bidId: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-bid-award",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id: loadId, bidId } = await params;
+    const session = await requireActiveUser();
+
+    const bid = await db.loadBid.findUnique({
+      where: { id: bidId },
+      include: {
+        load: {
+          select: {
+            id: true,
+            status: true,
+            shipperId: true,
+            assignedTruckId: true,
+            bookMode: true,
+            bidDeadline: true,
+            pickupCity: true,
+            deliveryCity: true,
+            weight: true,
+            volume: true,
+            fullPartial: true,
+          },
+        },
+        truck: {
+          select: {
+            id: true,
+            licensePlate: true,
+            carrierId: true,
+            approvalStatus: true,
+          },
+        },
+        carrier: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!bid || bid.loadId !== loadId) {
+      return NextResponse.json({ error: "Bid not found" }, { status: 404 });
+    }
+
+    // Shipper owner or admin only
+    // Dispatchers intentionally excluded — blueprint §5: dispatchers have NO accept/reject authority
+    const isShipperOwner =
+      session.role === "SHIPPER" &&
+      session.organizationId === bid.load.shipperId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+    if (!isShipperOwner && !isAdmin) {
+      return NextResponse.json({ error: "Bid not found" }, { status: 404 });
+    }
+
+    if (isAuctionOpen(bid.load)) {
+      return NextResponse.json(
+        { error: "Bids can only be awarded after the bid deadline" },
+        { status: 409 }
+      );
+    }
+
+    if (bid.status !== "ACTIVE" && bid.status !== "LOST") {
+      return NextResponse.json(
+        { error: `Bid cannot be awarded (status: ${bid.status})` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !AUCTION_BOOKABLE_STATUSES.includes(bid.load.status) ||
+      bid.load.assignedTruckId
+    ) {
+      return NextResponse.json(
+        {
+          error: `Load is no longer available for booking (status: ${bid.load.status})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (bid.truck.approvalStatus !== "APPROVED") {
+      return NextResponse.json(
+        { error: "Cannot proceed — truck is no longer approved" },
+        { status: 400 }
+      );
+    }
+
+    const { fit } = await checkTruckCanTakeLoad(bid.truckId, bid.load);
+    if (!fit.ok) {
+      return NextResponse.json(
+        { error: consolidationErrorMessage(fit.reason) },
+        { status: 409 }
+      );
+    }
+
+    // Wallet gate — shipper must meet minimum balance (blueprint §8), same as respond APPROVE
+    if (!isAdmin) {
+      const shipperAccount = await db.financialAccount.findFirst({
+        where: { organizationId: bid.load.shipperId, isActive: true },
+        select: { balance: true, minimumBalance: true },
+      });
+      if (
+        shipperAccount &&
+        shipperAccount.balance < shipperAccount.minimumBalance
+      ) {
+        return NextResponse.json(
+          { error: "Insufficient wallet balance for marketplace access" },
+          { status: 402 }
+        );
+      }
+    }
+
+    try {
+      const result = await db.$transaction(async (tx) => {
+        // Race guard: only one award per load at a time. An award the
+        // winner let lapse without confirming frees the load for the next bid.
+        const previousAward = await tx.loadBid.findFirst({
+          where: { loadId, status: "AWARDED" },
+          include: {
+            loadRequest: {
+              select: { id: true, status: true, expiresAt: true },
+            },
+          },
+        });
+        if (previousAward) {
+          const pending = previousAward.loadRequest;
+          if (
+            pending?.status === "SHIPPER_APPROVED" &&
+            pending.expiresAt > new Date()
+          ) {
+            throw new Error("ALREADY_AWARDED");
+          }
+          if (pending?.status === "SHIPPER_APPROVED") {
+            await tx.loadRequest.update({
+              where: { id: pending.id },
+              data: { status: "EXPIRED" },
+            });
+          }
+          await tx.loadBid.update({
+            where: { id: previousAward.id },
+            data: { status: "DECLINED" },
+          });
+        }
+
+        const fresh = await tx.loadBid.findUnique({
+          where: { id: bidId },
+          select: { status: true },
+        });
+        if (!fresh || (fresh.status !== "ACTIVE" && fresh.status !== "LOST")) {
+          throw new Error("BID_ALREADY_PROCESSED");
+        }
+
+        const expiresAt = new Date();
+        expiresAt.setHours(expiresAt.getHours() + AWARD_CONFIRMATION_HOURS);
+
+        const loadRequest = await tx.loadRequest.create({
+          data: {
+            loadId,
+            truckId: bid.truckId,
+            carrierId: bid.carrierId,
+            requestedById: bid.submittedById,
+            shipperId: bid.load.shipperId,
+            notes: bid.notes,
+            proposedRate: bid.amount,
+            status: "SHIPPER_APPROVED",
+            respondedAt: new Date(),
+            respondedById: session.userId,
+            expiresAt,
+          },
+        });
+
+        const awardedBid = await tx.loadBid.update({
+          where: { id: bidId },
+          data: {
+            status: "AWARDED",
+            awardedAt: new Date(),
+            loadRequestId: loadRequest.id,
+          },
+        });
+
+        // Capture losing carriers before marking their bids LOST
+        const losingBids = await tx.loadBid.findMany({
+          where: { loadId, id: { not: bidId }, status: "ACTIVE" },
+          select: { carrierId: true },
+        });
+        await tx.loadBid.updateMany({
+          where: { loadId, id: { not: bidId }, status: "ACTIVE" },
+          data: { status: "LOST" },
+        });
+
+        // Load is on offer to the winner until it confirms or declines
+        await tx.load.update({
+          where: { id: loadId },
+          data: { status: "OFFERED" },
+        });
+
+        await tx.loadEvent.create({
+          data: {
+            loadId,
+            eventType: "BID_AWARDED",
+            description: `Load awarded to ${bid.carrier.name} (${bid.truck.licensePlate}) — awaiting carrier confirmation`,
+            userId: session.userId,
+            metadata: {
+              bidId,
+              loadRequestId: loadRequest.id,
+              carrierId: bid.carrierId,
+              amount: Number(bid.amount),
+            },
+          },
+        });
+
+        return { bid: awardedBid, loadRequest, losingBids };
+      });
+
+      await CacheInvalidation.load(loadId, bid.load.shipperId);
+      await refreshLoadMatches(loadId);
+
+      // Non-critical: Notify the winning carrier (fire-and-forget)
+      db.user
+        .findMany({
+          where: { organizationId: bid.carrierId, status: "ACTIVE" },
+          select: { id: true },
+        })
+        .then(async (users) => {
+          for (const u of users) {
+            await createNotification({
+              userId: u.id,
+              type: NotificationType.BID_AWARDED,
+              title: "Your Bid Won",
+              message: `Your bid for the load from ${bid.load.pickupCity} to ${bid.load.deliveryCity} was accepted. Please confirm to finalise the booking.`,
+              metadata: {
+                bidId,
+                loadRequestId: result.loadRequest.id,
+                loadId,
+                truckId: bid.truckId,
+              },
+            });
+          }
+        })
+        .catch((err) => console.error("Failed to notify carrier:", err));
+
+      // Non-critical: Notify losing bidders (fire-and-forget)
+      Promise.all(
+        result.losingBids.map(({ carrierId }) =>
+          notifyOrganization({
+            organizationId: carrierId,
+            type: NotificationType.BID_NOT_SELECTED,
+            title: "Bid Not Selected",
+            message: `Your bid for the load from ${bid.load.pickupCity} to ${bid.load.deliveryCity} was not selected.`,
+            metadata: { loadId },
+          })
+        )
+      ).catch((err) => console.error("Losing bid notifications failed:", err));
+
+      return NextResponse.json({
+        bid: result.bid,
+        loadRequest: result.loadRequest,
+        message: "Bid awarded. Carrier notified to confirm booking.",
+      });
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : "";
+      if (msg === "ALREADY_AWARDED") {
+        return NextResponse.json(
+          { error: "Another bid has already been awarded for this load" },
+          { status: 409 }
+        );
+      }
+      if (msg === "BID_ALREADY_PROCESSED") {
+        return NextResponse.json(
+          { error: "Bid has already been processed" },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+  } catch (error) {
+    return handleApiError(error, "Error awarding load bid");
+  }
+}
@@ -0,0 +1,96 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Bid Withdrawal API
+ *
+ * DELETE /api/loads/[id]/bids/[bidId]
+ *   Withdraw a bid before the bid deadline (bidding carrier only).
+ *   The row is kept as WITHDRAWN; bidding again reactivates it.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { isAuctionOpen } from "@/lib/loadAuctions";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; bidId: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-bids",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id: loadId, bidId } = await params;
+    const session = await requireActiveUser();
+
+    const bid = await db.loadBid.findUnique({
+      where: { id: bidId },
+      include: {
+        load: { select: { bookMode: true, bidDeadline: true } },
+      },
+    });
+
+    // 404 for other carriers' bids — avoids leaking who is bidding
+    if (
+      !bid ||
+      bid.loadId !== loadId ||
+      session.role !== "CARRIER" ||
+      bid.carrierId !== session.organizationId
+    ) {
+      return NextResponse.json({ error: "Bid not found" }, { status: 404 });
+    }
+
+    if (bid.status !== "ACTIVE") {
+      return NextResponse.json(
+        { error: `Bid cannot be withdrawn (status: ${bid.status})` },
+        { status: 400 }
+      );
+    }
+
+    if (!isAuctionOpen(bid.load)) {
+      return NextResponse.json(
+        { error: "Bids cannot be withdrawn after the bid deadline" },
+        { status: 409 }
+      );
+    }
+
+    const updated = await db.loadBid.update({
+      where: { id: bidId },
+      data: { status: "WITHDRAWN" },
+    });
+
+    await db.loadEvent.create({
+      data: {
+        loadId,
+        eventType: "BID_WITHDRAWN",
+        description: "Carrier withdrew its bid",
+        userId: session.userId,
+        metadata: { bidId, carrierId: bid.carrierId },
+      },
+    });
+
+    return NextResponse.json({ bid: updated, message: "Bid withdrawn" });
+  } catch (error) {
+    return handleApiError(error, "Error withdrawing load bid");
+  }
+}
@@ -0,0 +1,347 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Bids API
+ *
+ * Sealed carrier bids on AUCTION loads.
+ *
+ * GET  /api/loads/[id]/bids
+ *   - Carrier: own bid only
+ *   - Shipper owner / Admin: bid count while sealed, ranked bid sheet
+ *     (with carrier trust metrics) once the bid deadline has passed
+ *
+ * POST /api/loads/[id]/bids
+ *   Submit a bid (CARRIER only). Submitting again before the deadline
+ *   revises the carrier's existing bid.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { checkWalletGate } from "@/lib/walletGate";
+import { sanitizeText } from "@/lib/validation";
+import {
+  AUCTION_BOOKABLE_STATUSES,
+  getBidSheet,
+  isAuctionOpen,
+} from "@/lib/loadAuctions";
+import {
+  activeTripLoadsArgs,
+  checkConsolidationFit,
+  consolidationErrorMessage,
+  toTruckAssignments,
+} from "@/lib/loadConsolidation";
+import { isLoadVisibleToCarrier } from "@/lib/carrierNetworks";
+
+const LoadBidSchema = z.object({
+  truckId: z.string().min(1, "Truck ID is required"),
+  amount: z.number().positive().max(10000000),
+  notes: z.string().max(500).optional(),
+});
+
+/**
+ * GET /api/loads/[id]/bids
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: loadId } = await params;
+    const session = await requireActiveUser();
+
+    const load = await db.load.findUnique({
+      where: { id: loadId },
+      select: {
+        id: true,
+        shipperId: true,
+        bookMode: true,
+        bidDeadline: true,
+        reserveRate: true,
+        auctionClosedAt: true,
+      },
+    });
+
+    if (!load || load.bookMode !== "AUCTION") {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isShipperOwner =
+      session.role === "SHIPPER" && session.organizationId === load.shipperId;
+    const biddingOpen = isAuctionOpen(load);
+
+    if (session.role === "CARRIER" && session.organizationId) {
+      const bid = await db.loadBid.findFirst({
+        where: { loadId, carrierId: session.organizationId },
+        include: {
+          truck: { select: { id: true, licensePlate: true } },
+        },
+      });
+
+      return NextResponse.json({
+        bidDeadline: load.bidDeadline,
+        biddingOpen,
+        bid,
+      });
+    }
+
+    if (!isShipperOwner && !isAdmin) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    // Sealed: the shipper only learns how many carriers are bidding
+    if (biddingOpen) {
+      const bidCount = await db.loadBid.count({
+        where: { loadId, status: "ACTIVE" },
+      });
+
+      return NextResponse.json({
+        bidDeadline: load.bidDeadline,
+        biddingOpen,
+        sealed: true,
+        bidCount,
+      });
+    }
+
+    const bids = await getBidSheet(loadId, load.reserveRate);
+
+    return NextResponse.json({
+      bidDeadline: load.bidDeadline,
+      biddingOpen,
+      sealed: false,
+      auctionClosedAt: load.auctionClosedAt,
+      reserveRate: load.reserveRate,
+      bidCount: bids.length,
+      bids,
+    });
+  } catch (error) {
+    return handleApiError(error, "Error fetching load bids");
+  }
+}
+
+/**
+ * POST /api/loads/[id]/bids
+ *
+ * Request body: LoadBidSchema
+ *
+ * Returns: The carrier's bid (201 on first submission, 200 on revision)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-bids",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id: loadId } = await params;
+    const session = await requireActiveUser();
+
+    if (session.role !== "CARRIER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only carriers can bid on loads" },
+        { status: 403 }
+      );
+    }
+    const carrierId = session.organizationId;
+
+    // Blueprint §8: carriers below minimum balance cannot take marketplace actions
+    const gateError = await checkWalletGate({
+      userId: session.userId,
+      role: session.role,
+      organizationId: carrierId,
+    });
+    if (gateError) return gateError;
+
+    const body = await request.json();
+    const validationResult = LoadBidSchema.safeParse(body);
+    if (!validationResult.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(validationResult.error);
+    }
+    const data = validationResult.data;
+
+    const load = await db.load.findUnique({
+      where: { id: loadId },
+      select: {
+        id: true,
+        status: true,
+        shipperId: true,
+        assignedTruckId: true,
+        bookMode: true,
+        bidDeadline: true,
+        weight: true,
+        volume: true,
+        fullPartial: true,
+        visibility: true,
+        publicAt: true,
+      },
+    });
+
+    // Private load board: network loads only for the shipper's network
+    if (
+      !load ||
+      load.bookMode !== "AUCTION" ||
+      !(await isLoadVisibleToCarrier(load, carrierId))
+    ) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    if (
+      !AUCTION_BOOKABLE_STATUSES.includes(load.status) ||
+      load.assignedTruckId
+    ) {
+      return NextResponse.json(
+        { error: `Load is not available (status: ${load.status})` },
+        { status: 400 }
+      );
+    }
+
+    if (!isAuctionOpen(load)) {
+      return NextResponse.json(
+        { error: "Bidding on this load has closed" },
+        { status: 409 }
+      );
+    }
+
+    const truck = await db.truck.findUnique({
+      where: { id: data.truckId },
+      select: {
+        id: true,
+        carrierId: true,
+        approvalStatus: true,
+        insuranceStatus: true,
+        capacity: true,
+        volume: true,
+        trips: activeTripLoadsArgs,
+      },
+    });
+
+    if (!truck || truck.carrierId !== carrierId) {
+      return NextResponse.json({ error: "Truck not found" }, { status: 404 });
+    }
+
+    if (truck.approvalStatus !== "APPROVED") {
+      return NextResponse.json(
+        { error: "Truck must be approved before bidding on loads" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      truck.insuranceStatus !== "VALID" &&
+      truck.insuranceStatus !== "EXPIRING"
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Truck insurance has expired or is missing. Renew insurance before bidding on loads.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const fit = checkConsolidationFit(
+      truck,
+      toTruckAssignments(truck.trips),
+      load
+    );
+    if (!fit.ok) {
+      return NextResponse.json(
+        { error: consolidationErrorMessage(fit.reason) },
+        { status: 409 }
+      );
+    }
+
+    const notes = data.notes ? sanitizeText(data.notes, 500) : null;
+
+    // One bid per carrier per load — resubmitting revises it
+    const existingBid = await db.loadBid.findFirst({
+      where: { loadId, carrierId },
+    });
+
+    let bid;
+    if (existingBid) {
+      bid = await db.loadBid.update({
+        where: { id: existingBid.id },
+        data: {
+          truckId: data.truckId,
+          amount: data.amount,
+          notes,
+          status: "ACTIVE",
+          submittedById: session.userId,
+          revisionCount: existingBid.revisionCount + 1,
+        },
+      });
+    } else {
+      try {
+        bid = await db.loadBid.create({
+          data: {
+            loadId,
+            truckId: data.truckId,
+            carrierId,
+            submittedById: session.userId,
+            amount: data.amount,
+            notes,
+          },
+        });
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          return NextResponse.json(
+            { error: "A bid from your organization already exists" },
+            { status: 409 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Amount stays out of the event log until bids are unsealed
+    await db.loadEvent.create({
+      data: {
+        loadId,
+        eventType: existingBid ? "BID_REVISED" : "BID_SUBMITTED",
+        description: existingBid
+          ? "Carrier revised its bid"
+          : "Carrier submitted a bid",
+        userId: session.userId,
+        metadata: { bidId: bid.id, carrierId },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        bid,
+        message: existingBid ? "Bid revised" : "Bid submitted",
+      },
+      { status: existingBid ? 200 : 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, "Error submitting load bid");
+  }
+}
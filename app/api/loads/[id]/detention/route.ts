@@ -0,0 +1,83 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Detention API
+ *
+ * GET /api/loads/[id]/detention - Dwell sessions and detention charges
+ *
+ * Dwell sessions are recorded from GPS geofences (lib/detention.ts).
+ * Either party disputes a charge via POST /api/disputes with type DETENTION.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { handleApiError } from "@/lib/apiErrors";
+import { getDetentionTerms } from "@/lib/detention";
+
+/**
+ * GET /api/loads/[id]/detention
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await requireActiveUser();
+    const { id } = await params;
+
+    const load = await db.load.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        shipperId: true,
+        assignedTruck: { select: { carrierId: true } },
+        shipper: {
+          select: { detentionFreeMinutes: true, detentionRatePerHour: true },
+        },
+        corridor: {
+          select: { detentionFreeMinutes: true, detentionRatePerHour: true },
+        },
+      },
+    });
+
+    if (!load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const [sessions, charges] = await Promise.all([
+      db.dwellSession.findMany({
+        where: { loadId: id },
+        orderBy: { enteredAt: "asc" },
+      }),
+      db.detentionCharge.findMany({
+        where: { loadId: id },
+        include: { dispute: { select: { id: true, status: true } } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    // Check access - shipper, carrier (assigned or charged), or admin
+    const carrierIds = new Set([
+      load.assignedTruck?.carrierId,
+      ...charges.map((charge) => charge.carrierId),
+    ]);
+    const hasAccess =
+      session.role === "ADMIN" ||
+      session.role === "SUPER_ADMIN" ||
+      (session.role === "SHIPPER" &&
+        session.organizationId === load.shipperId) ||
+      (session.role === "CARRIER" && carrierIds.has(session.organizationId));
+
+    if (!hasAccess) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      terms: getDetentionTerms(load.shipper, load.corridor),
+      sessions,
+      charges,
+    });
+  } catch (error) {
+    return handleApiError(error, "Get detention error");
+  }
+}
@@ -16,6 +16,7 @@ import { readFile } from "fs/promises";
 import { join, resolve } from "path";
 import { existsSync } from "fs";
 import { handleApiError } from "@/lib/apiErrors";
+import { isStorageUrl } from "@/lib/storage";
 
 /**
  * GET /api/loads/[id]/documents/[documentId]/download
@@ -81,6 +82,20 @@ export async function GET(
       );
     }
 
+    // Generated documents (e.g. rate confirmations) are stored through
+    // lib/storage.ts and may live on S3 / Cloudinary instead of local disk.
+    // Only redirect to our own storage hosts, never to an arbitrary URL
+    if (document.fileUrl.startsWith("https://")) {
+      if (!isStorageUrl(document.fileUrl)) {
+        console.error("Document URL outside storage:", document.fileUrl);
+        return NextResponse.json(
+          { error: "Invalid file location" },
+          { status: 400 }
+        );
+      }
+      return NextResponse.redirect(document.fileUrl);
+    }
+
     // H3 FIX: Path traversal prevention
     // Validate fileUrl doesn't contain path traversal sequences
     if (document.fileUrl.includes("..") || document.fileUrl.includes("\\")) {
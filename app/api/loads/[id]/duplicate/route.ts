@@ -15,6 +15,7 @@ import { requireActiveUser } from "@/lib/auth";
 import { requirePermission, Permission } from "@/lib/rbac";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches } from "@/lib/matchIndex";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { handleApiError } from "@/lib/apiErrors";
 
@@ -71,6 +72,11 @@ export async function POST(
     // Find original load
     const originalLoad = await db.load.findUnique({
       where: { id },
+      include: {
+        stops: {
+          orderBy: { sequence: "asc" },
+        },
+      },
     });
 
     if (!originalLoad) {
@@ -108,6 +114,9 @@ export async function POST(
         deliveryAddress: originalLoad.deliveryAddress,
         deliveryDockHours: originalLoad.deliveryDockHours,
         deliveryDate: originalLoad.deliveryDate,
+        // Facilities carry over; dock appointments are booked per load
+        pickupFacilityId: originalLoad.pickupFacilityId,
+        deliveryFacilityId: originalLoad.deliveryFacilityId,
         tripKm: originalLoad.tripKm,
         dhToOriginKm: originalLoad.dhToOriginKm,
         dhAfterDeliveryKm: originalLoad.dhAfterDeliveryKm,
@@ -115,6 +124,8 @@ export async function POST(
         originLon: originalLoad.originLon,
         destinationLat: originalLoad.destinationLat,
         destinationLon: originalLoad.destinationLon,
+        originGeohash: originalLoad.originGeohash,
+        destinationGeohash: originalLoad.destinationGeohash,
         truckType: originalLoad.truckType,
         weight: originalLoad.weight,
         volume: originalLoad.volume,
@@ -127,6 +138,8 @@ export async function POST(
         casesCount: originalLoad.casesCount,
         currency: originalLoad.currency,
         bookMode: originalLoad.bookMode,
+        // Auction deadline is not copied — the shipper sets a new one before posting
+        reserveRate: originalLoad.reserveRate,
         isAnonymous: originalLoad.isAnonymous,
         shipperContactName: originalLoad.shipperContactName,
         shipperContactPhone: originalLoad.shipperContactPhone,
@@ -156,6 +169,29 @@ export async function POST(
       },
     });
 
+    // Copy the stop sequence (plan only, not arrival/departure progress)
+    if (originalLoad.stops.length > 0) {
+      await db.loadStop.createMany({
+        data: originalLoad.stops.map((stop) => ({
+          loadId: duplicateLoad.id,
+          sequence: stop.sequence,
+          stopType: stop.stopType,
+          city: stop.city,
+          cityId: stop.cityId,
+          address: stop.address,
+          latitude: stop.latitude,
+          longitude: stop.longitude,
+          dockHours: stop.dockHours,
+          appointmentStart: stop.appointmentStart,
+          appointmentEnd: stop.appointmentEnd,
+          weight: stop.weight,
+          contactName: stop.contactName,
+          contactPhone: stop.contactPhone,
+          notes: stop.notes,
+        })),
+      });
+    }
+
     // Create load event
     await db.loadEvent.create({
       data: {
@@ -171,6 +207,7 @@ export async function POST(
 
     // TD-009 FIX: Invalidate cache after duplicate creation
     await CacheInvalidation.load(duplicateLoad.id, session.organizationId!);
+    await refreshLoadMatches(duplicateLoad.id);
 
     return NextResponse.json({
       message: "Load duplicated successfully",
@@ -32,6 +32,8 @@ const createEscalationSchema = z.object({
     "DOCUMENTATION",
     "PAYMENT_DISPUTE",
     "BYPASS_DETECTED",
+    "UNSAFE_DRIVING",
+    "DEVICE_ALARM",
     "OTHER",
   ]),
   priority: z
@@ -5,14 +5,34 @@ export const dynamic = "force-dynamic";
  * GET /api/loads/[id]/matching-trucks
  * Find trucks that match a specific load
  *
+ * PARTIAL loads are also matched against trucks already carrying other
+ * PARTIAL loads, using the capacity they have left (lib/loadConsolidation.ts)
+ *
+ * Trucks are rated on carrier reliability (lib/matchReliability.ts).
+ * Query: insuredOnly=true / gpsActiveOnly=true keep only insured or
+ * GPS-active trucks.
+ *
  * Sprint 15 - Story 15.8: Match Calculation
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
-import { findMatchingTrucks } from "@/lib/matchingEngine";
+import {
+  findMatchingTrucks,
+  MATCH_SEARCH_RADIUS_KM,
+} from "@/lib/matchingEngine";
+import { withinRadius } from "@/lib/geoIndex";
+import { getMatchWeightsFor } from "@/lib/matchWeights";
+import { getTruckReliability } from "@/lib/matchReliability";
 import { handleApiError } from "@/lib/apiErrors";
+import {
+  COMMITTED_TRIP_STATUSES,
+  activeTripLoadsArgs,
+  getRemainingCapacity,
+  toTruckAssignments,
+} from "@/lib/loadConsolidation";
+import { TripStatus } from "@prisma/client";
 
 /**
  * GET /api/loads/[id]/matching-trucks
@@ -33,6 +53,10 @@ export async function GET(
       Math.max(parseInt(searchParams.get("limit") || "50"), 1),
       100
     );
+    const filters = {
+      insuredOnly: searchParams.get("insuredOnly") === "true",
+      gpsActiveOnly: searchParams.get("gpsActiveOnly") === "true",
+    };
 
     // Fetch the load with assignedTruckId for carrier authorization check
     const load = await db.load.findUnique({
@@ -46,8 +70,11 @@ export async function GET(
         pickupDate: true,
         truckType: true,
         weight: true,
+        volume: true,
         lengthM: true,
         fullPartial: true,
+        isInsured: true,
+        insuranceCoverageAmount: true,
         pickupLocation: { select: { latitude: true, longitude: true } },
         deliveryLocation: { select: { latitude: true, longitude: true } },
       },
@@ -85,23 +112,27 @@ export async function GET(
       );
     }
 
+    // PARTIAL loads may join a truck that is already on a trip; whether it
+    // has room is checked below once its trip loads are known
+    const busyTripStatuses: TripStatus[] =
+      load.fullPartial === "PARTIAL" ? ["EXCEPTION"] : COMMITTED_TRIP_STATUSES;
+
     // Fetch active truck postings: APPROVED trucks not on active trips (blueprint §3+§4)
-    const trucks = await db.truckPosting.findMany({
+    const postings = await db.truckPosting.findMany({
       where: {
         status: "ACTIVE",
+        ...(load.pickupLocation &&
+          withinRadius(
+            "originGeohash",
+            Number(load.pickupLocation.latitude),
+            Number(load.pickupLocation.longitude),
+            MATCH_SEARCH_RADIUS_KM
+          )),
         truck: {
           approvalStatus: "APPROVED",
           trips: {
             none: {
-              status: {
-                in: [
-                  "ASSIGNED",
-                  "PICKUP_PENDING",
-                  "IN_TRANSIT",
-                  "DELIVERED",
-                  "EXCEPTION",
-                ],
-              },
+              status: { in: busyTripStatuses },
             },
           },
         },
@@ -137,12 +168,54 @@ export async function GET(
             lengthM: true,
             licensePlate: true,
             insuranceStatus: true,
+            gpsStatus: true,
+            gpsLastSeenAt: true,
+            volume: true,
+            trips: activeTripLoadsArgs,
           },
         },
       },
       take: 500, // Limit initial fetch
     });
 
+    // Keep trucks with room for this load, capped at what they have left
+    const loadVolume = load.volume ? Number(load.volume) : 0;
+    const trucks = postings.flatMap((posting) => {
+      const { trips = [], ...truck } = posting.truck ?? {};
+      const remaining = getRemainingCapacity(truck, toTruckAssignments(trips));
+      if (!remaining) return [];
+      if (remaining.volumeM3 !== null && loadVolume > remaining.volumeM3) {
+        return [];
+      }
+
+      const availableWeight =
+        trips.length > 0
+          ? Math.min(
+              Number(posting.availableWeight ?? remaining.weightKg),
+              remaining.weightKg
+            )
+          : posting.availableWeight;
+      // Other shippers' loads on the truck are not part of the response
+      return [{ ...posting, availableWeight, truck: posting.truck && truck }];
+    });
+
+    const reliabilityByTruck = await getTruckReliability(
+      trucks.flatMap((posting) =>
+        posting.truck
+          ? [
+              {
+                truckId: posting.truck.id,
+                carrierId: posting.carrierId,
+                insuranceStatus: posting.truck.insuranceStatus,
+                gpsStatus: posting.truck.gpsStatus,
+                gpsLastSeenAt: posting.truck.gpsLastSeenAt,
+              },
+            ]
+          : []
+      ),
+      load
+    );
+
     // Calculate matches
     const loadCriteria = {
       pickupCity: load.pickupCity,
@@ -164,6 +237,7 @@ export async function GET(
       weight: load.weight ? Number(load.weight) : null,
       lengthM: load.lengthM ? Number(load.lengthM) : null,
       fullPartial: load.fullPartial,
+      shipperId: load.shipperId,
     };
 
     const trucksCriteria = trucks.map((truck) => ({
@@ -191,6 +265,9 @@ export async function GET(
       averageRating: truck.carrier?.averageRating
         ? Number(truck.carrier.averageRating)
         : null,
+      reliability: truck.truck
+        ? (reliabilityByTruck.get(truck.truck.id) ?? null)
+        : null,
       contactName: truck.contactName,
       contactPhone: truck.contactPhone,
       createdAt: truck.createdAt,
@@ -201,7 +278,9 @@ export async function GET(
     const allMatches = findMatchingTrucks(
       loadCriteria,
       trucksCriteria,
-      minScore
+      minScore,
+      await getMatchWeightsFor([load.shipperId]),
+      filters
     );
 
     const totalMatches = allMatches.length;
@@ -10,6 +10,7 @@ import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import {
   createNotification,
   createNotificationForRole,
@@ -543,6 +544,9 @@ export async function PUT(
           completionErr
         );
       }
+      if (associatedTrip.truckId) {
+        await refreshTruckMatches(associatedTrip.truckId);
+      }
 
       // G-N3-7: Notify all active shipper users that trip is COMPLETED after POD verify
       if (load.shipperId) {
@@ -6,21 +6,22 @@ export const dynamic = "force-dynamic";
  *
  * Returns market reference rates (TriHaul, Broker Spot) for a load
  * Sprint 14 - DAT-Style UI Transformation
+ *
+ * Rates come from the lane rate index (booked rates on the load's lane and
+ * truck type, see lib/laneRateIndex.ts). The distance heuristic is only
+ * used when the lane has too few recent bookings.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireAuth } from "@/lib/auth";
 import { handleApiError } from "@/lib/apiErrors";
+import { getLane, getLaneRateSummary } from "@/lib/laneRateIndex";
 
 /**
- * Calculate reference pricing based on route and load characteristics
+ * Heuristic reference pricing based on route and load characteristics
  *
- * This is a simplified algorithm. In production, this would:
- * - Query historical data for similar routes
- * - Factor in seasonality, demand/supply
- * - Use machine learning models
- * - Integrate with DAT RateView or similar services
+ * Fallback for lanes without enough booking history in the lane rate index.
  */
 // FIX: Use proper interface instead of any
 interface LoadForPricing {
@@ -131,6 +132,12 @@ export async function GET(
         requiresRefrigeration: true,
         isFragile: true,
         currency: true,
+        corridorId: true,
+        corridor: { select: { originRegion: true, destinationRegion: true } },
+        pickupLocation: { select: { region: true } },
+        deliveryLocation: { select: { region: true } },
+        pickupCity: true,
+        deliveryCity: true,
       },
     });
 
@@ -150,13 +157,23 @@ export async function GET(
       );
     }
 
-    // Calculate reference pricing
-    const pricing = calculateReferencePricing(load);
+    // Booked market rates on the lane, heuristic when the lane is too thin
+    const lane = getLane(load);
+    const market =
+      lane && load.truckType
+        ? await getLaneRateSummary(lane, load.truckType)
+        : null;
+
+    const pricing = market
+      ? { trihaulRate: market.p50, brokerSpotRate: market.p75 }
+      : calculateReferencePricing(load);
 
     return NextResponse.json({
       loadId: id,
       currency: load.currency || "ETB",
       ...pricing,
+      source: market ? "LANE_INDEX" : "HEURISTIC",
+      market,
       metadata: {
         tripKm: load.tripKm,
         truckType: load.truckType,
@@ -14,6 +14,15 @@ import { validateStateTransition, LoadStatus } from "@/lib/loadStateMachine";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 // CRITICAL FIX: Import CacheInvalidation for load mutations
 import { CacheInvalidation } from "@/lib/cache";
+import { resolveLoadGeohashes } from "@/lib/geoIndex";
+import { refreshLoadMatches } from "@/lib/matchIndex";
+import { startTenderWaterfall } from "@/lib/routingGuides";
+import {
+  isLoadVisibleToCarrier,
+  loadVisibilityData,
+  loadVisibilityFields,
+  validateVisibilitySettings,
+} from "@/lib/carrierNetworks";
 import { handleApiError } from "@/lib/apiErrors";
 import { sanitizeText } from "@/lib/validation";
 // CRITICAL FIX: Import notification helper for status change notifications
@@ -21,6 +30,9 @@ import { createNotification } from "@/lib/notifications";
 import { logger } from "@/lib/logger";
 import { refundServiceFee } from "@/lib/serviceFeeManagement";
 import { TRUCK_TYPE_VALUES } from "@/lib/constants/truckTypes";
+import { validateAuctionSettings } from "@/lib/loadAuctions";
+import { validateLoadFacilities } from "@/lib/dockAppointments";
+import { storePlannedRoute } from "@/lib/routeDeviation";
 
 /**
  * Helper function to apply RPS rate limiting
@@ -88,7 +100,13 @@ const updateLoadSchema = z
     cargoDescription: z.string().max(2000).optional().nullable(),
     specialInstructions: z.string().max(2000).optional().nullable(),
     safetyNotes: z.string().max(1000).optional().nullable(),
-    bookMode: z.enum(["REQUEST", "INSTANT"]).optional(),
+    bookMode: z.enum(["REQUEST", "INSTANT", "AUCTION"]).optional(),
+    bidDeadline: z.string().optional().nullable(),
+    reserveRate: z.number().positive().max(10000000).optional().nullable(),
+    visibility: loadVisibilityFields.visibility.optional(),
+    networkExclusiveHours: loadVisibilityFields.networkExclusiveHours
+      .optional()
+      .nullable(),
     // Parity with the CREATE schema in app/api/loads/route.ts (commit 04a704d).
     // The CREATE route already enforces the Ethiopian phone format; the
     // UPDATE route was accepting any string up to 20 chars, which let
@@ -115,6 +133,8 @@ const updateLoadSchema = z
     hasAlerts: z.boolean().optional(),
     groupId: z.string().max(50).optional().nullable(),
     corridorId: z.string().optional().nullable(),
+    pickupFacilityId: z.string().max(50).optional().nullable(),
+    deliveryFacilityId: z.string().max(50).optional().nullable(),
   })
   .refine(
     (data) => {
@@ -203,6 +223,11 @@ export async function GET(
           },
         },
         documents: true,
+        stops: {
+          orderBy: {
+            sequence: "asc",
+          },
+        },
         events: {
           orderBy: {
             createdAt: "desc",
@@ -227,7 +252,11 @@ export async function GET(
     const isAdmin = user.role === "ADMIN" || user.role === "SUPER_ADMIN";
     // POSTED loads are on the public loadboard — carriers can view them
     // Shippers can only see their OWN loads (not other shippers' loads, even if POSTED)
-    const isPublicLoad = load.status === "POSTED" && user.role !== "SHIPPER";
+    // Private load board: network loads only for the shipper's network
+    const isPublicLoad =
+      load.status === "POSTED" &&
+      user.role !== "SHIPPER" &&
+      (await isLoadVisibleToCarrier(load, user.organizationId));
 
     if (
       !isShipper &&
@@ -290,6 +319,8 @@ export async function GET(
       // Contact info - only include if authorized
       shipperContactName: userCanSeeContact ? load.shipperContactName : null,
       shipperContactPhone: userCanSeeContact ? load.shipperContactPhone : null,
+      // Auction reserve stays private to the shipper so it can't anchor bids
+      reserveRate: isShipper || isAdmin ? load.reserveRate : null,
       // G-M17-5: Carrier's pending request for this load
       myPendingRequest,
     };
@@ -329,6 +360,18 @@ export async function PATCH(
         tripKm: true,
         estimatedTripKm: true,
         shipperFeeStatus: true,
+        pickupDate: true,
+        bookMode: true,
+        bidDeadline: true,
+        postedAt: true,
+        visibility: true,
+        networkExclusiveHours: true,
+        pickupCity: true,
+        deliveryCity: true,
+        originLat: true,
+        originLon: true,
+        destinationLat: true,
+        destinationLon: true,
         // Include carrier info for trust metrics
         assignedTruck: {
           select: {
@@ -453,6 +496,14 @@ export async function PATCH(
         2000
       );
 
+    const facilityError = await validateLoadFacilities(existingLoad.shipperId, [
+      validatedData.pickupFacilityId,
+      validatedData.deliveryFacilityId,
+    ]);
+    if (facilityError) {
+      return NextResponse.json({ error: facilityError }, { status: 400 });
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const additionalData: Record<string, any> = {};
 
@@ -461,6 +512,57 @@ export async function PATCH(
       additionalData.postedAt = new Date();
     }
 
+    // AUCTION: re-check the bid deadline whenever the auction settings change
+    // or the load goes (back) on the marketplace
+    const bookMode = validatedData.bookMode ?? existingLoad.bookMode;
+    if (
+      bookMode === "AUCTION" &&
+      (validatedData.bookMode !== undefined ||
+        validatedData.bidDeadline !== undefined ||
+        validatedData.pickupDate !== undefined ||
+        additionalData.postedAt)
+    ) {
+      const auctionError = validateAuctionSettings({
+        bookMode,
+        bidDeadline:
+          validatedData.bidDeadline !== undefined
+            ? validatedData.bidDeadline
+            : existingLoad.bidDeadline,
+        pickupDate: validatedData.pickupDate ?? existingLoad.pickupDate,
+      });
+      if (auctionError) {
+        return NextResponse.json({ error: auctionError }, { status: 400 });
+      }
+      // A re-posted auction is open again until its new deadline
+      additionalData.auctionClosedAt = null;
+    }
+
+    // Private load board: the network window runs from (re-)posting
+    if (
+      validatedData.visibility !== undefined ||
+      validatedData.networkExclusiveHours !== undefined ||
+      additionalData.postedAt
+    ) {
+      const visibilitySettings = {
+        visibility: validatedData.visibility ?? existingLoad.visibility,
+        networkExclusiveHours:
+          validatedData.networkExclusiveHours !== undefined
+            ? validatedData.networkExclusiveHours
+            : existingLoad.networkExclusiveHours,
+      };
+      const visibilityError = validateVisibilitySettings(visibilitySettings);
+      if (visibilityError) {
+        return NextResponse.json({ error: visibilityError }, { status: 400 });
+      }
+      Object.assign(
+        additionalData,
+        loadVisibilityData(
+          visibilitySettings,
+          additionalData.postedAt ?? existingLoad.postedAt
+        )
+      );
+    }
+
     // Sync tripKm and estimatedTripKm for backward compatibility
     if (
       validatedData.tripKm !== undefined &&
@@ -474,6 +576,21 @@ export async function PATCH(
       additionalData.tripKm = validatedData.estimatedTripKm;
     }
 
+    // Re-index the load for radius search when its cities change
+    if (validatedData.pickupCity || validatedData.deliveryCity) {
+      Object.assign(
+        additionalData,
+        await resolveLoadGeohashes({
+          originLat: existingLoad.originLat,
+          originLon: existingLoad.originLon,
+          pickupCity: validatedData.pickupCity ?? existingLoad.pickupCity,
+          destinationLat: existingLoad.destinationLat,
+          destinationLon: existingLoad.destinationLon,
+          deliveryCity: validatedData.deliveryCity ?? existingLoad.deliveryCity,
+        })
+      );
+    }
+
     // Validate state transition if status is changing
     if (validatedData.status && validatedData.status !== existingLoad.status) {
       const stateValidation = validateStateTransition(
@@ -520,9 +637,15 @@ export async function PATCH(
         dateConvertedData.deliveryDate = d;
       }
     }
+    if (typeof validatedData.bidDeadline === "string") {
+      const d = new Date(validatedData.bidDeadline);
+      if (!isNaN(d.getTime())) {
+        dateConvertedData.bidDeadline = d;
+      }
+    }
 
     // HIGH FIX #7: Wrap Load update + Trip sync in transaction for atomicity
-    const { load } = await db.$transaction(async (tx) => {
+    const { load, startedTripId } = await db.$transaction(async (tx) => {
       const load = await tx.load.update({
         where: { id },
         data: {
@@ -534,6 +657,7 @@ export async function PATCH(
 
       // Sync Trip status when Load status changes
       let tripSynced = false;
+      let startedTripId: string | null = null;
       if (validatedData.status) {
         const tripStatusMap: Record<string, string> = {
           ASSIGNED: "ASSIGNED",
@@ -560,6 +684,7 @@ export async function PATCH(
             // Set appropriate timestamps based on status transition
             if (validatedData.status === "PICKUP_PENDING" && !trip.startedAt) {
               tripUpdateData.startedAt = new Date();
+              startedTripId = trip.id;
             }
             if (validatedData.status === "IN_TRANSIT" && !trip.pickedUpAt) {
               tripUpdateData.pickedUpAt = new Date();
@@ -587,9 +712,16 @@ export async function PATCH(
         }
       }
 
-      return { load, tripSynced };
+      return { load, tripSynced, startedTripId };
     });
 
+    // Planned route for deviation detection, fetched off the request path
+    if (startedTripId) {
+      storePlannedRoute(startedTripId).catch((err) =>
+        console.error("Failed to store planned route:", err)
+      );
+    }
+
     // Log truck unassignment if it happened
     const terminalStatuses = ["COMPLETED", "CANCELLED", "EXPIRED"];
     if (
@@ -662,6 +794,10 @@ export async function PATCH(
 
     // CRITICAL FIX: Invalidate cache after load update
     await CacheInvalidation.load(id, existingLoad.shipperId);
+    await refreshLoadMatches(id);
+    if (validatedData.status === "POSTED" && existingLoad.status !== "POSTED") {
+      await startTenderWaterfall(id);
+    }
 
     // CRITICAL FIX: Send notifications for status changes
     if (validatedData.status && validatedData.status !== existingLoad.status) {
@@ -825,6 +961,7 @@ export async function DELETE(
 
     // CRITICAL FIX: Invalidate cache after load deletion
     await CacheInvalidation.load(id, load.shipperId);
+    await refreshLoadMatches(id);
 
     // P1-007 FIX: Notify affected carriers about rejected requests (fire-and-forget)
     const notificationPromises: Promise<unknown>[] = [];
@@ -18,6 +18,11 @@ import { TripStatus, Prisma } from "@prisma/client"; // P0-001 FIX: Import TripS
 import { deductServiceFee, refundServiceFee } from "@/lib/serviceFeeManagement"; // Service Fee Implementation
 // CRITICAL FIX: Import CacheInvalidation for status changes
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
+import { storePlannedRoute } from "@/lib/routeDeviation";
+import { startTenderWaterfall } from "@/lib/routingGuides";
+import { loadVisibilityData } from "@/lib/carrierNetworks";
+import { completeFinalStop } from "@/lib/loadStops";
 // CRITICAL FIX: Import notification helper for status change notifications
 import {
   notifyLoadStakeholders,
@@ -35,6 +40,7 @@ import {
 import { checkSuspiciousCancellation } from "@/lib/bypassDetection";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { handleApiError } from "@/lib/apiErrors";
+import { isSignedBolRequired } from "@/lib/billOfLading";
 
 const updateStatusSchema = z
   .object({
@@ -113,6 +119,8 @@ export async function PATCH(
         status: true,
         shipperId: true,
         assignedTruckId: true,
+        visibility: true,
+        networkExclusiveHours: true,
         assignedTruck: {
           select: {
             carrierId: true,
@@ -133,6 +141,8 @@ export async function PATCH(
             truckId: true,
             carrierId: true,
             driverId: true,
+            shipperId: true,
+            pickedUpAt: true,
           },
         },
         pickupCity: true,
@@ -227,6 +237,22 @@ export async function PATCH(
       } // end else (non-dispatcher)
     }
 
+    // eBOL: shippers can require a signed bill of lading before pickup
+    if (
+      newStatus === "IN_TRANSIT" &&
+      load.trip &&
+      !load.trip.pickedUpAt &&
+      (await isSignedBolRequired(load.trip))
+    ) {
+      return NextResponse.json(
+        {
+          error: "The shipper requires a signed bill of lading before pickup",
+          requiresSignedBol: true,
+        },
+        { status: 400 }
+      );
+    }
+
     // Determine if truck should be unassigned (terminal states)
     const terminalStatuses = ["COMPLETED", "CANCELLED", "EXPIRED"];
     const shouldUnassignTruck =
@@ -313,6 +339,10 @@ export async function PATCH(
         data: {
           status: newStatus,
           updatedAt: new Date(),
+          // Private load board: the network window restarts on re-posting
+          ...(newStatus === "POSTED" &&
+            load.status !== "POSTED" &&
+            loadVisibilityData(load, new Date())),
           // Unassign truck when load reaches terminal state
           ...(shouldUnassignTruck && {
             assignedTruckId: null,
@@ -388,6 +418,11 @@ export async function PATCH(
         tripUpdated = true;
       }
 
+      // Multi-stop: delivery completes the final stop
+      if (newStatus === "DELIVERED") {
+        await completeFinalStop(loadId, new Date(), tx);
+      }
+
       // Log truck unassignment if it happened (inside transaction)
       if (shouldUnassignTruck) {
         await tx.loadEvent.create({
@@ -532,6 +567,17 @@ export async function PATCH(
 
     // CRITICAL FIX: Invalidate cache after status change
     await CacheInvalidation.load(loadId, load.shipperId);
+    await refreshLoadMatches(loadId);
+    if (load.trip?.truckId) {
+      await refreshTruckMatches(load.trip.truckId);
+    }
+
+    // Planned route for deviation detection, fetched off the request path
+    if (tripUpdated && newStatus === "PICKUP_PENDING" && load.trip) {
+      storePlannedRoute(load.trip.id).catch((err) =>
+        console.error("Failed to store planned route:", err)
+      );
+    }
 
     // CRITICAL FIX: Create LoadEvent for status change audit trail
     await db.loadEvent.create({
@@ -549,6 +595,11 @@ export async function PATCH(
       },
     });
 
+    // Routing guide: a re-posted load goes to preferred carriers first
+    if (newStatus === "POSTED" && load.status !== "POSTED") {
+      await startTenderWaterfall(loadId);
+    }
+
     // CRITICAL FIX: Trigger notifications to relevant parties (shipper + carrier)
     await notifyLoadStakeholders(
       loadId,
@@ -37,7 +37,8 @@ export async function GET(
       return NextResponse.json({ error: "Load not found" }, { status: 404 });
     }
 
-    // Check for geofence events
+    // Report geofence events; stop arrivals are recorded by the GPS
+    // monitoring cron, never by a page view
     const events = await checkGeofenceEvents(loadId);
 
     return NextResponse.json({
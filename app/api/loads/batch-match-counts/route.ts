@@ -3,7 +3,8 @@ export const dynamic = "force-dynamic";
  * Batch Match Counts API
  *
  * Returns match counts for multiple loads in a single request.
- * Replaces N+1 individual fetches on the shipper loadboard.
+ * Replaces N+1 individual fetches on the shipper loadboard. Counts are read
+ * from the match index (lib/matchIndex.ts).
  *
  * POST /api/loads/batch-match-counts
  * Body: { loadIds: string[] }
@@ -14,7 +15,6 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { z } from "zod";
-import { findMatchingTrucks } from "@/lib/matchingEngine";
 import { handleApiError } from "@/lib/apiErrors";
 
 const batchSchema = z.object({
@@ -46,74 +46,37 @@ export async function POST(request: NextRequest) {
           ? { shipperId: session.organizationId }
           : {}),
       },
-      select: {
-        id: true,
-        pickupCity: true,
-        deliveryCity: true,
-        pickupDate: true,
-        truckType: true,
-        weight: true,
-        lengthM: true,
-        fullPartial: true,
-        pickupLocation: { select: { latitude: true, longitude: true } },
-        deliveryLocation: { select: { latitude: true, longitude: true } },
-      },
+      select: { id: true },
     });
 
-    // Fetch all active truck postings — only APPROVED trucks (blueprint §4)
-    const trucks = await db.truckPosting.findMany({
+    // Read precomputed matches with ACTIVE postings — only APPROVED trucks
+    // that are not on a trip (blueprint §4)
+    const entries = await db.matchIndexEntry.findMany({
       where: {
-        status: "ACTIVE",
-        truck: {
-          approvalStatus: "APPROVED",
-          trips: {
-            none: {
-              status: {
-                in: [
-                  "ASSIGNED",
-                  "PICKUP_PENDING",
-                  "IN_TRANSIT",
-                  "DELIVERED",
-                  "EXCEPTION",
-                ],
+        loadId: { in: loads.map((l) => l.id) },
+        truckPosting: {
+          status: "ACTIVE",
+          truck: {
+            approvalStatus: "APPROVED",
+            trips: {
+              none: {
+                status: {
+                  in: [
+                    "ASSIGNED",
+                    "PICKUP_PENDING",
+                    "IN_TRANSIT",
+                    "DELIVERED",
+                    "EXCEPTION",
+                  ],
+                },
               },
             },
           },
         },
       },
-      include: {
-        originCity: {
-          select: { name: true, latitude: true, longitude: true },
-        },
-        destinationCity: {
-          select: { name: true, latitude: true, longitude: true },
-        },
-        truck: {
-          select: { truckType: true, capacity: true, lengthM: true },
-        },
-      },
-      take: 500,
+      select: { loadId: true },
     });
 
-    const trucksCriteria = trucks.map((t) => ({
-      id: t.id,
-      currentCity: t.originCity?.name || "",
-      currentCityLat: t.originCity ? Number(t.originCity.latitude) : null,
-      currentCityLon: t.originCity ? Number(t.originCity.longitude) : null,
-      destinationCity: t.destinationCity?.name || null,
-      destinationCityLat: t.destinationCity
-        ? Number(t.destinationCity.latitude)
-        : null,
-      destinationCityLon: t.destinationCity
-        ? Number(t.destinationCity.longitude)
-        : null,
-      truckType: t.truck?.truckType || "",
-      maxWeight: t.availableWeight ? Number(t.availableWeight) : null,
-      lengthM: t.availableLength ? Number(t.availableLength) : null,
-      fullPartial: t.fullPartial,
-      availableDate: t.availableFrom,
-    }));
-
     // Calculate match count per load
     const counts: Record<string, number> = {};
 
@@ -122,33 +85,8 @@ export async function POST(request: NextRequest) {
       counts[id] = 0;
     }
 
-    for (const load of loads) {
-      if (!load.pickupCity || !load.deliveryCity || !load.truckType) continue;
-
-      const loadCriteria = {
-        pickupCity: load.pickupCity,
-        pickupCityLat: load.pickupLocation
-          ? Number(load.pickupLocation.latitude)
-          : null,
-        pickupCityLon: load.pickupLocation
-          ? Number(load.pickupLocation.longitude)
-          : null,
-        deliveryCity: load.deliveryCity,
-        deliveryCityLat: load.deliveryLocation
-          ? Number(load.deliveryLocation.latitude)
-          : null,
-        deliveryCityLon: load.deliveryLocation
-          ? Number(load.deliveryLocation.longitude)
-          : null,
-        pickupDate: load.pickupDate,
-        truckType: load.truckType,
-        weight: load.weight ? Number(load.weight) : null,
-        lengthM: load.lengthM ? Number(load.lengthM) : null,
-        fullPartial: load.fullPartial,
-      };
-
-      const matches = findMatchingTrucks(loadCriteria, trucksCriteria, 50);
-      counts[load.id] = matches.length;
+    for (const entry of entries) {
+      counts[entry.loadId] += 1;
     }
 
     return NextResponse.json({ counts });
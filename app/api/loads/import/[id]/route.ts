@@ -0,0 +1,40 @@
+export const dynamic = "force-dynamic";
+/**
+ * Load Import Status API
+ *
+ * GET /api/loads/import/[id] - Import status with its per-row report
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { handleApiError } from "@/lib/apiErrors";
+import { toLoadImportResponse } from "@/lib/loadImport";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const loadImport = await db.loadImport.findUnique({ where: { id } });
+
+    const isOwner =
+      !!loadImport && loadImport.shipperId === session.organizationId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    if (!loadImport || (!isOwner && !isAdmin)) {
+      return NextResponse.json(
+        { error: "Load import not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      import: toLoadImportResponse(loadImport, { includeReport: true }),
+    });
+  } catch (error) {
+    return handleApiError(error, "Error fetching load import");
+  }
+}
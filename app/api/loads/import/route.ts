@@ -0,0 +1,200 @@
+export const dynamic = "force-dynamic";
+/**
+ * Bulk Load Import API
+ *
+ * POST /api/loads/import - Upload a CSV sheet of loads
+ * GET  /api/loads/import - Recent imports for the caller's organization
+ *
+ * Form data:
+ * - file: .csv, header row first (see lib/loadImport.ts for columns)
+ * - dryRun: "true" to validate without creating loads
+ *
+ * Files up to LOAD_IMPORT_SYNC_ROW_LIMIT rows are processed inline and
+ * answered with the per-row report (200). Larger files are queued on the
+ * bulk queue (202); poll GET /api/loads/import/[id] for the report.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { requirePermission, Permission } from "@/lib/rbac";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkWalletGate } from "@/lib/walletGate";
+import { addJob } from "@/lib/queue";
+import { isCsvFileName, parseCsv } from "@/lib/spreadsheet";
+import {
+  LOAD_IMPORT_MAX_FILE_BYTES,
+  LOAD_IMPORT_MAX_ROWS,
+  LOAD_IMPORT_SYNC_ROW_LIMIT,
+  parseLoadImportSheet,
+  runLoadImport,
+  toLoadImportResponse,
+} from "@/lib/loadImport";
+
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "load-import",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    await requirePermission(Permission.CREATE_LOAD);
+
+    // §8: Wallet gate — same rule as creating loads one at a time
+    const walletBlock = await checkWalletGate(session);
+    if (walletBlock) return walletBlock;
+
+    const user = await db.user.findUnique({
+      where: { id: session.userId },
+      select: { organizationId: true },
+    });
+    if (!user?.organizationId) {
+      return NextResponse.json(
+        { error: "You must belong to an organization to create loads" },
+        { status: 400 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const dryRunValue = formData.get("dryRun");
+    const dryRun = dryRunValue === "true" || dryRunValue === "1";
+
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    if (file.size > LOAD_IMPORT_MAX_FILE_BYTES) {
+      return NextResponse.json(
+        {
+          error: `File too large. Maximum size is ${LOAD_IMPORT_MAX_FILE_BYTES / (1024 * 1024)}MB`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isCsvFileName(file.name)) {
+      return NextResponse.json(
+        {
+          error:
+            "Unsupported file type. Upload a .csv file (in Excel, save the sheet as CSV UTF-8)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const sheet = parseCsv(
+      Buffer.from(await file.arrayBuffer()).toString("utf8")
+    );
+
+    const { rows, missingColumns, ignoredColumns } =
+      parseLoadImportSheet(sheet);
+    if (missingColumns.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Missing required columns: ${missingColumns.join(", ")}`,
+          missingColumns,
+        },
+        { status: 400 }
+      );
+    }
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "The file has no data rows" },
+        { status: 400 }
+      );
+    }
+    if (rows.length > LOAD_IMPORT_MAX_ROWS) {
+      return NextResponse.json(
+        {
+          error: `Too many rows (${rows.length}). Split the file into batches of ${LOAD_IMPORT_MAX_ROWS} or fewer`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const loadImport = await db.loadImport.create({
+      data: {
+        shipperId: user.organizationId,
+        createdById: session.userId,
+        fileName: file.name.slice(0, 255),
+        dryRun,
+        rows: JSON.parse(JSON.stringify(rows)),
+        totalRows: rows.length,
+      },
+    });
+
+    if (rows.length > LOAD_IMPORT_SYNC_ROW_LIMIT) {
+      // No automatic retries: a retry could create the same loads twice
+      await addJob(
+        "bulk",
+        "load-import",
+        { importId: loadImport.id },
+        { attempts: 1 }
+      );
+      return NextResponse.json(
+        {
+          import: toLoadImportResponse(loadImport, { includeReport: false }),
+          ignoredColumns,
+          message: "Import queued. Check back for the row report.",
+        },
+        { status: 202 }
+      );
+    }
+
+    await runLoadImport(loadImport.id);
+    const completed = await db.loadImport.findUnique({
+      where: { id: loadImport.id },
+    });
+
+    return NextResponse.json({
+      import: completed
+        ? toLoadImportResponse(completed, { includeReport: true })
+        : null,
+      ignoredColumns,
+    });
+  } catch (error) {
+    return handleApiError(error, "Load import error");
+  }
+}
+
+export async function GET() {
+  try {
+    const session = await requireActiveUser();
+
+    if (!session.organizationId) {
+      return NextResponse.json({ imports: [] });
+    }
+
+    const imports = await db.loadImport.findMany({
+      where: { shipperId: session.organizationId },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    });
+
+    return NextResponse.json({
+      imports: imports.map((loadImport) =>
+        toLoadImportResponse(loadImport, { includeReport: false })
+      ),
+    });
+  } catch (error) {
+    return handleApiError(error, "Error fetching load imports");
+  }
+}
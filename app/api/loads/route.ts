@@ -5,126 +5,20 @@ import { requireAuth, requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { requirePermission, Permission } from "@/lib/rbac";
 import { createNotification, NotificationType } from "@/lib/notifications";
-import { z } from "zod";
 import { calculateAge, maskCompany } from "@/lib/loadUtils";
 import { LoadCache, CacheInvalidation } from "@/lib/cache";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { handleApiError } from "@/lib/apiErrors";
-import { sanitizeText } from "@/lib/validation";
 import { calculateDistanceKm } from "@/lib/geo";
+import { withinRadius } from "@/lib/geoIndex";
 import { checkWalletGate } from "@/lib/walletGate";
-import { TRUCK_TYPE_VALUES } from "@/lib/constants/truckTypes";
-
-const createLoadSchema = z
-  .object({
-    // Location & Schedule
-    pickupCity: z.string().min(2).max(200),
-    pickupAddress: z.string().max(500).optional(),
-    pickupDockHours: z.string().max(100).optional(), // Changed to single field (string)
-    pickupDate: z.string(),
-    appointmentRequired: z.boolean().default(false),
-    deliveryCity: z.string().min(2).max(200),
-    deliveryAddress: z.string().max(500).optional(),
-    deliveryDockHours: z.string().max(100).optional(), // Changed to single field (string)
-    deliveryDate: z.string(),
-
-    // Estimated route distance (display only).
-    // Calculated server-side from city coordinates.
-    // Actual GPS distance is used for fee calculation
-    // at trip completion — not this field.
-    tripKm: z.number().positive().optional(),
-    dhToOriginKm: z.number().positive().optional(),
-    dhAfterDeliveryKm: z.number().positive().optional(),
-    originLat: z.number().min(-90).max(90).optional(),
-    originLon: z.number().min(-180).max(180).optional(),
-    destinationLat: z.number().min(-90).max(90).optional(),
-    destinationLon: z.number().min(-180).max(180).optional(),
-
-    // Load Details
-    truckType: z.enum(TRUCK_TYPE_VALUES),
-    weight: z.number().positive().max(50000),
-    volume: z.number().positive().optional(),
-    cargoDescription: z.string().min(5).max(2000),
-    isFullLoad: z.boolean().default(true), // Keep for backward compatibility
-    fullPartial: z.enum(["FULL", "PARTIAL"]).default("FULL"), // [NEW]
-    isFragile: z.boolean().default(false),
-    requiresRefrigeration: z.boolean().default(false),
-
-    // Insurance
-    isInsured: z.boolean().default(false),
-    insuranceProvider: z.string().max(200).optional(),
-    insurancePolicyNumber: z.string().max(100).optional(),
-    insuranceCoverageAmount: z.number().positive().optional(),
-
-    lengthM: z.number().positive().optional(),
-    casesCount: z.number().int().positive().optional(),
-
-    // Pricing is negotiated off-platform
-    bookMode: z.enum(["REQUEST", "INSTANT"]).default("REQUEST"), // [NEW]
-
-    dtpReference: z.string().max(100).optional(),
-    factorRating: z.string().max(100).optional(),
-
-    // Privacy & Safety
-    isAnonymous: z.boolean().default(false),
-    shipperContactName: z
-      .string()
-      .min(2, "Contact name required (min 2 chars)")
-      .max(100)
-      .optional(),
-    shipperContactPhone: z
-      .string()
-      .min(10, "Phone must be at least 10 digits")
-      .max(20)
-      .regex(
-        /^(\+251|0)\d{9,}$/,
-        "Enter valid Ethiopian phone: +251... or 09..."
-      )
-      .optional(),
-    safetyNotes: z.string().max(1000).optional(),
-    specialInstructions: z.string().max(2000).optional(),
-
-    // Status
-    status: z.enum(["DRAFT", "POSTED"]).default("DRAFT"),
-  })
-  .refine(
-    (data) => {
-      const pickup = new Date(data.pickupDate);
-      const delivery = new Date(data.deliveryDate);
-      return pickup <= delivery;
-    },
-    {
-      message: "Pickup date must be on or before delivery date",
-      path: ["deliveryDate"],
-    }
-  )
-  .refine(
-    (data) => {
-      // G-M13-3: Pickup date cannot be in the past
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      return new Date(data.pickupDate) >= today;
-    },
-    {
-      message: "Pickup date cannot be in the past",
-      path: ["pickupDate"],
-    }
-  )
-  .refine(
-    (data) => {
-      // Contact info required when POSTING to marketplace (not DRAFT) and not anonymous
-      // DRAFT loads are incomplete by design — contact added before posting
-      if (data.status === "POSTED" && !data.isAnonymous) {
-        return !!data.shipperContactName && !!data.shipperContactPhone;
-      }
-      return true;
-    },
-    {
-      message:
-        "Contact name and phone are required when posting to marketplace (unless anonymous)",
-      path: ["shipperContactName"],
-    }
-  );
+import {
+  createLoadSchema,
+  createLoadFromInput,
+  announceCreatedLoad,
+} from "@/lib/loadCreation";
+import { validateLoadFacilities } from "@/lib/dockAppointments";
+import { getNetworkShipperIds, visibleLoadsWhere } from "@/lib/carrierNetworks";
 
 // POST /api/loads - Create load
 export async function POST(request: NextRequest) {
@@ -182,124 +76,23 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createLoadSchema.parse(body);
 
-    // Sanitize user-provided text fields
-    const sanitized = {
-      ...validatedData,
-      cargoDescription: sanitizeText(validatedData.cargoDescription, 2000),
-      pickupAddress: validatedData.pickupAddress
-        ? sanitizeText(validatedData.pickupAddress, 500)
-        : undefined,
-      deliveryAddress: validatedData.deliveryAddress
-        ? sanitizeText(validatedData.deliveryAddress, 500)
-        : undefined,
-      safetyNotes: validatedData.safetyNotes
-        ? sanitizeText(validatedData.safetyNotes, 1000)
-        : undefined,
-      specialInstructions: validatedData.specialInstructions
-        ? sanitizeText(validatedData.specialInstructions, 2000)
-        : undefined,
-    };
-
-    // G-M13-1: Server-side tripKm calculation when coordinates provided but tripKm missing
-    let computedTripKm = sanitized.tripKm;
-    if (
-      computedTripKm == null &&
-      sanitized.originLat != null &&
-      sanitized.originLon != null &&
-      sanitized.destinationLat != null &&
-      sanitized.destinationLon != null
-    ) {
-      computedTripKm = Math.round(
-        calculateDistanceKm(
-          sanitized.originLat,
-          sanitized.originLon,
-          sanitized.destinationLat,
-          sanitized.destinationLon
-        )
-      );
-    }
-
-    // Pricing is negotiated off-platform - platform only charges service fees
-    const load = await db.load.create({
-      data: {
-        ...sanitized,
-        tripKm: computedTripKm, // G-M13-1: use server-calculated tripKm if computed
-        pickupDate: new Date(sanitized.pickupDate),
-        deliveryDate: new Date(sanitized.deliveryDate),
-        postedAt: sanitized.status === "POSTED" ? new Date() : null,
-        shipperId: user.organizationId,
-        createdById: session.userId,
-      },
-      include: {
-        shipper: {
-          select: {
-            id: true,
-            name: true,
-            type: true,
-            isVerified: true,
-          },
-        },
-      },
-    });
-
-    // P3: Populate estimatedTripKm from corridor if not already set.
-    // This ensures Trip creation picks up corridor distance via the existing
-    // `estimatedDistanceKm: freshLoad.tripKm || freshLoad.estimatedTripKm` pattern.
-    if (!load.estimatedTripKm && !computedTripKm) {
-      const pickupCity = sanitized.pickupCity;
-      const deliveryCity = sanitized.deliveryCity;
-      if (pickupCity && deliveryCity) {
-        const { findMatchingCorridor } =
-          await import("@/lib/serviceFeeCalculation");
-        const match = await findMatchingCorridor(pickupCity, deliveryCity);
-        if (match && match.corridor.distanceKm > 0) {
-          await db.load.update({
-            where: { id: load.id },
-            data: { estimatedTripKm: match.corridor.distanceKm },
-          });
-        }
-      }
+    const facilityError = await validateLoadFacilities(user.organizationId, [
+      validatedData.pickupFacilityId,
+      validatedData.deliveryFacilityId,
+    ]);
+    if (facilityError) {
+      return NextResponse.json({ error: facilityError }, { status: 400 });
     }
 
-    // Create load event
-    await db.loadEvent.create({
-      data: {
-        loadId: load.id,
-        eventType: validatedData.status === "POSTED" ? "POSTED" : "CREATED",
-        description:
-          validatedData.status === "POSTED"
-            ? "Load posted to marketplace"
-            : "Load created as draft",
-        userId: session.userId,
-      },
+    const load = await createLoadFromInput(validatedData, {
+      shipperId: user.organizationId,
+      userId: session.userId,
     });
 
     // PHASE 4: Invalidate load list caches when new load is created
     await CacheInvalidation.allListings();
-
-    // PHASE 4: Send push notification to carriers when load is posted
-    if (validatedData.status === "POSTED") {
-      // Notify carriers about new load asynchronously (fire-and-forget)
-      import("@/lib/notifications")
-        .then(({ createNotificationForRole }) => {
-          createNotificationForRole({
-            role: "CARRIER",
-            type: "NEW_LOAD_POSTED",
-            title: "New Load Available",
-            message: `New ${validatedData.truckType} load: ${validatedData.pickupCity} → ${validatedData.deliveryCity}`,
-            metadata: {
-              loadId: load.id,
-              pickupCity: validatedData.pickupCity,
-              deliveryCity: validatedData.deliveryCity,
-              truckType: validatedData.truckType,
-              weight: validatedData.weight,
-            },
-          }).catch((err) => console.error("Failed to notify carriers:", err));
-        })
-        .catch((err) =>
-          console.error("Failed to load notifications module:", err)
-        );
-    }
+    // PHASE 4: Matches, routing guide tender and carrier notification
+    await announceCreatedLoad(load, validatedData);
 
     return NextResponse.json({ load }, { status: 201 });
   } catch (error) {
@@ -588,6 +381,13 @@ export async function GET(request: NextRequest) {
     } else {
       // Blueprint: "ASSIGNED+ loads hidden" — POSTED, SEARCHING, OFFERED all visible
       where.status = { in: ["POSTED", "SEARCHING", "OFFERED"] };
+      // Loads out to routing guide carriers are not on the public board yet
+      where.tenderRank = null;
+      // Private load board: network loads only for the shipper's network
+      Object.assign(
+        where,
+        visibleLoadsWhere(await getNetworkShipperIds(user?.organizationId))
+      );
     }
 
     // Allow status filter for authenticated views (myLoads, myTrips, dispatcher)
@@ -635,7 +435,12 @@ export async function GET(request: NextRequest) {
       where.fullPartial = fullPartial;
     }
 
-    if (bookMode && (bookMode === "REQUEST" || bookMode === "INSTANT")) {
+    if (
+      bookMode &&
+      (bookMode === "REQUEST" ||
+        bookMode === "INSTANT" ||
+        bookMode === "AUCTION")
+    ) {
       where.bookMode = bookMode;
     }
 
@@ -724,6 +529,7 @@ export async function GET(request: NextRequest) {
       shipperServiceFee: true,
       currency: true,
       bookMode: true, // [NEW]
+      bidDeadline: true,
       // SPRINT 8: Market pricing (dtpReference, factorRating) removed per TRD
       // Privacy & Safety
       isAnonymous: true,
@@ -771,8 +577,17 @@ export async function GET(request: NextRequest) {
     let total: number;
 
     if (needsGeoFilter) {
-      // Fetch larger batch for in-memory geo filtering
+      // The geohash index narrows the batch to loads near the requested
+      // points; exact distances are then checked in memory.
       // Loads missing required coordinates are excluded from geo-filtered results
+      where.AND = [
+        ...(hasDHOFilter
+          ? [withinRadius("originGeohash", carrierLat!, carrierLon!, dhOMaxKm!)]
+          : []),
+        ...(hasDHDFilter
+          ? [withinRadius("destinationGeohash", destLat!, destLon!, dhDMaxKm!)]
+          : []),
+      ];
       const allDbLoads = await db.load.findMany({
         where,
         select: loadSelect,
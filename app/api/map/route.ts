@@ -125,9 +125,11 @@ export async function GET(request: NextRequest) {
         truckWhere.postings = { some: { status: "ACTIVE" } };
       } else if (isShipper) {
         // Shipper: Only trucks assigned to their loads (in transit)
-        truckWhere.assignedLoad = {
-          shipperId: user.organizationId,
-          status: { in: ["ASSIGNED", "IN_TRANSIT"] },
+        truckWhere.assignedLoads = {
+          some: {
+            shipperId: user.organizationId,
+            status: { in: ["ASSIGNED", "IN_TRANSIT"] },
+          },
         };
       }
       // Admin: No filter
@@ -161,19 +163,27 @@ export async function GET(request: NextRequest) {
             },
             take: 1,
           },
-          assignedLoad: {
+          // A consolidated truck carries several loads; shippers only see their own
+          assignedLoads: {
+            where: isShipper
+              ? { shipperId: user.organizationId ?? undefined }
+              : undefined,
             select: {
               id: true,
               status: true,
               pickupCity: true,
               deliveryCity: true,
             },
+            orderBy: { assignedAt: "desc" },
+            take: 1,
           },
         },
         take: 500, // Limit for performance
       });
 
       for (const truck of trucks) {
+        const assignedLoad = truck.assignedLoads[0];
+
         // Get location from GPS or posting origin
         let lat = truck.currentLocationLat
           ? Number(truck.currentLocationLat)
@@ -209,14 +219,14 @@ export async function GET(request: NextRequest) {
             subtitle: truck.truckType,
             // loadStatus is the actual LoadStatus enum (null if no assigned load)
             // truckAvailability is a display-only field for map rendering
-            loadStatus: truck.assignedLoad?.status || null,
+            loadStatus: assignedLoad?.status || null,
             truckAvailability: truck.isAvailable ? "available" : "busy",
             metadata: {
               truckType: truck.truckType,
               carrier: truck.carrier?.name,
               gpsStatus: truck.gpsStatus,
-              hasActiveLoad: !!truck.assignedLoad,
-              loadId: truck.assignedLoad?.id,
+              hasActiveLoad: !!assignedLoad,
+              loadId: assignedLoad?.id,
             },
           });
         }
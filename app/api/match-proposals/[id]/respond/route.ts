@@ -21,6 +21,7 @@ import { UserRole } from "@prisma/client";
 import { enableTrackingForLoad } from "@/lib/gpsTracking";
 // P0-007 FIX: Import CacheInvalidation for post-acceptance cache clearing
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import crypto from "crypto";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import {
@@ -29,6 +30,13 @@ import {
   NotificationType,
 } from "@/lib/notifications";
 import { handleApiError } from "@/lib/apiErrors";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+  hasConsolidationCapacity,
+  linkConsolidatedTrip,
+} from "@/lib/loadConsolidation";
+import { resetStopExecution } from "@/lib/loadStops";
 
 // Validation schema for proposal response
 const ProposalResponseSchema = z.object({
@@ -264,6 +272,9 @@ export async function POST(
               destinationLon: true,
               tripKm: true,
               estimatedTripKm: true,
+              weight: true,
+              volume: true,
+              fullPartial: true,
             },
           });
 
@@ -282,33 +293,43 @@ export async function POST(
           }
 
           // Check if truck is already assigned to another active load
-          const existingAssignment = await tx.load.findFirst({
-            where: {
-              assignedTruckId: proposal.truckId,
-              status: {
-                notIn: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+          // (LTL: PARTIAL loads may share the truck while capacity remains)
+          const { fit, assignments } = await checkTruckCanTakeLoad(
+            proposal.truckId,
+            freshLoad,
+            tx
+          );
+          if (!fit.ok) {
+            if (fit.reason === "TRUCK_CAPACITY_EXCEEDED") {
+              throw new Error("TRUCK_CAPACITY_EXCEEDED");
+            }
+            const existingAssignment = await tx.load.findFirst({
+              where: {
+                assignedTruckId: proposal.truckId,
+                status: {
+                  notIn: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+                },
               },
-            },
-            select: {
-              id: true,
-              pickupCity: true,
-              deliveryCity: true,
-              status: true,
-            },
-          });
-
-          if (existingAssignment) {
+              select: {
+                id: true,
+                pickupCity: true,
+                deliveryCity: true,
+                status: true,
+              },
+            });
             throw new Error(
-              `TRUCK_BUSY:${existingAssignment.pickupCity}:${existingAssignment.deliveryCity}`
+              `TRUCK_BUSY:${existingAssignment?.pickupCity ?? "?"}:${existingAssignment?.deliveryCity ?? "?"}`
             );
           }
+          const truckFull = !hasConsolidationCapacity(fit);
 
-          // Unassign truck from any completed loads (cleanup)
+          // Unassign truck from any completed loads (cleanup; DELIVERED loads
+          // may still share a consolidated run and keep their truck)
           await tx.load.updateMany({
             where: {
               assignedTruckId: proposal.truckId,
               status: {
-                in: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+                in: ["COMPLETED", "CANCELLED", "EXPIRED"],
               },
             },
             data: { assignedTruckId: null },
@@ -365,6 +386,10 @@ export async function POST(
               trackingEnabled: true,
             },
           });
+          await linkConsolidatedTrip(tx, assignments, trip.id);
+
+          // Multi-stop: a new trip starts with no stop arrivals
+          await resetStopExecution(proposal.loadId, tx);
 
           // Create load event inside transaction
           await tx.loadEvent.create({
@@ -421,15 +446,20 @@ export async function POST(
           });
 
           // Mark truck posting as MATCHED so it disappears from loadboard
-          await tx.truckPosting.updateMany({
-            where: { truckId: proposal.truckId, status: "ACTIVE" },
-            data: { status: "MATCHED", updatedAt: new Date() },
-          });
-          // Mark truck as unavailable
-          await tx.truck.update({
-            where: { id: proposal.truckId },
-            data: { isAvailable: false },
-          });
+          // (stays ACTIVE while capacity remains for PARTIAL loads)
+          if (truckFull) {
+            await tx.truckPosting.updateMany({
+              where: { truckId: proposal.truckId, status: "ACTIVE" },
+              data: { status: "MATCHED", updatedAt: new Date() },
+            });
+          }
+          // Mark truck as unavailable once it has no room for another load
+          if (truckFull) {
+            await tx.truck.update({
+              where: { id: proposal.truckId },
+              data: { isAvailable: false },
+            });
+          }
 
           return {
             proposal: updatedProposal,
@@ -482,12 +512,20 @@ export async function POST(
             { status: 400 }
           );
         }
+        if (errorMessage === "TRUCK_CAPACITY_EXCEEDED") {
+          return NextResponse.json(
+            { error: consolidationErrorMessage("TRUCK_CAPACITY_EXCEEDED") },
+            { status: 409 }
+          );
+        }
         throw error;
       }
 
       // P0-007 FIX: Cache invalidation after transaction commits
       await CacheInvalidation.load(proposal.loadId, proposal.load.shipperId);
+      await refreshLoadMatches(proposal.loadId);
       await CacheInvalidation.truck(proposal.truckId, proposal.truck.carrierId);
+      await refreshTruckMatches(proposal.truckId);
 
       // Non-critical: Notify parties whose competing requests were cancelled (fire-and-forget)
       Promise.all([
@@ -619,6 +657,7 @@ export async function POST(
 
       // H3 FIX: Cache invalidation on reject (accept path already has it)
       await CacheInvalidation.load(proposal.loadId, proposal.load.shipperId);
+      await refreshLoadMatches(proposal.loadId);
 
       // Fix 1a: Notify dispatcher of rejection
       createNotification({
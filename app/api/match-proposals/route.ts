@@ -19,10 +19,9 @@ import { requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { canProposeMatch } from "@/lib/dispatcherPermissions";
 import { RULE_DISPATCHER_COORDINATION_ONLY } from "@/lib/foundation-rules";
-import { createNotification } from "@/lib/notifications";
+import { createMatchProposal } from "@/lib/matchProposals";
 import { zodErrorResponse } from "@/lib/validation";
 import { handleApiError } from "@/lib/apiErrors";
-import { CacheInvalidation } from "@/lib/cache";
 
 // Validation schema for match proposal
 const MatchProposalSchema = z.object({
@@ -83,243 +82,17 @@ export async function POST(request: NextRequest) {
       return zodErrorResponse(validationResult.error);
     }
 
-    const data = validationResult.data;
-
-    // Validate load exists and is in a proposable state
-    const load = await db.load.findUnique({
-      where: { id: data.loadId },
-      select: {
-        id: true,
-        status: true,
-        shipperId: true,
-        assignedTruckId: true,
-      },
-    });
-
-    if (!load) {
-      return NextResponse.json({ error: "Load not found" }, { status: 404 });
-    }
-
-    // Only allow proposals for loads that are not yet assigned
-    const proposableStatuses = ["POSTED", "SEARCHING", "OFFERED"];
-    if (!proposableStatuses.includes(load.status)) {
-      return NextResponse.json(
-        {
-          error: `Cannot propose match for load with status ${load.status}`,
-          hint: "Load must be in POSTED, SEARCHING, or OFFERED status",
-        },
-        { status: 400 }
-      );
-    }
-
-    if (load.assignedTruckId) {
-      return NextResponse.json(
-        { error: "Load is already assigned to a truck" },
-        { status: 400 }
-      );
-    }
-
-    // Validate truck exists and is available
-    const truck = await db.truck.findUnique({
-      where: { id: data.truckId },
-      select: {
-        id: true,
-        carrierId: true,
-        isAvailable: true,
-        licensePlate: true,
-        approvalStatus: true,
-        insuranceStatus: true,
-      },
-    });
-
-    if (!truck) {
-      return NextResponse.json({ error: "Truck not found" }, { status: 404 });
-    }
-
-    // Only approved trucks can be proposed for matches
-    if (truck.approvalStatus !== "APPROVED") {
-      return NextResponse.json(
-        { error: "Only approved trucks can be proposed for matches" },
-        { status: 400 }
-      );
-    }
-
-    // Truck must be available
-    if (!truck.isAvailable) {
-      return NextResponse.json(
-        { error: "Truck is not currently available" },
-        { status: 400 }
-      );
-    }
-
-    // §8 Wallet gate — carrier being proposed to must meet minimum balance ("cannot be requested" if below)
-    const carrierWallet = await db.financialAccount.findFirst({
-      where: { organizationId: truck.carrierId, isActive: true },
-      select: { balance: true, minimumBalance: true },
-    });
-    if (carrierWallet && carrierWallet.balance < carrierWallet.minimumBalance) {
-      return NextResponse.json(
-        {
-          error:
-            "Carrier's wallet balance is below minimum for marketplace activity",
-        },
-        { status: 402 }
-      );
-    }
-
-    // Insurance gate — truck must have valid insurance to be proposed
-    if (!["VALID", "EXPIRING"].includes(truck.insuranceStatus ?? "MISSING")) {
-      return NextResponse.json(
-        {
-          error:
-            "Truck insurance has expired or is missing. Cannot propose match.",
-        },
-        { status: 400 }
-      );
-    }
-
-    // G-M17-4: Reject proposals for trucks already on an active trip
-    const activeTripCount = await db.trip.count({
-      where: {
-        truckId: data.truckId,
-        status: {
-          in: [
-            "ASSIGNED",
-            "PICKUP_PENDING",
-            "IN_TRANSIT",
-            "DELIVERED",
-            "EXCEPTION",
-          ],
-        },
-      },
-    });
-    if (activeTripCount > 0) {
-      return NextResponse.json(
-        { error: "Truck is currently on an active trip" },
-        { status: 409 }
-      );
-    }
-
-    // Check if there's already a pending proposal for this load-truck pair
-    const existingProposal = await db.matchProposal.findFirst({
-      where: {
-        loadId: data.loadId,
-        truckId: data.truckId,
-        status: "PENDING",
-      },
-    });
-
-    if (existingProposal) {
-      // H10 FIX: Don't leak proposal ID in error response
-      return NextResponse.json(
-        { error: "A pending proposal already exists for this load-truck pair" },
-        { status: 409 }
-      );
-    }
-
-    // Calculate expiration time
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + data.expiresInHours);
-
-    // Create the proposal
-    // G-M14-3: Partial unique index enforces one PENDING per (loadId, truckId)
-    let proposal;
-    try {
-      proposal = await db.matchProposal.create({
-        data: {
-          loadId: data.loadId,
-          truckId: data.truckId,
-          carrierId: truck.carrierId,
-          proposedById: session.userId,
-          notes: data.notes,
-          proposedRate: data.proposedRate,
-          expiresAt,
-          status: "PENDING",
-        },
-        include: {
-          load: {
-            select: {
-              pickupCity: true,
-              deliveryCity: true,
-              pickupDate: true,
-              weight: true,
-              truckType: true,
-            },
-          },
-          truck: {
-            select: {
-              licensePlate: true,
-              truckType: true,
-              capacity: true,
-            },
-          },
-          carrier: {
-            select: {
-              name: true,
-            },
-          },
-        },
-      });
-    } catch (error) {
-      if (
-        error instanceof Prisma.PrismaClientKnownRequestError &&
-        error.code === "P2002"
-      ) {
-        return NextResponse.json(
-          { error: "A pending request already exists for this load and truck" },
-          { status: 409 }
-        );
-      }
-      throw error;
-    }
-
-    // Notify carrier users about the proposal
-    const carrierUsers = await db.user.findMany({
-      where: { organizationId: truck.carrierId, status: "ACTIVE" },
-      select: { id: true },
-    });
-
-    await Promise.all(
-      carrierUsers.map((user) =>
-        createNotification({
-          userId: user.id,
-          type: "MATCH_PROPOSAL",
-          title: "New Load Match Proposal",
-          message: `A dispatcher has proposed truck ${proposal.truck.licensePlate} for a load from ${proposal.load.pickupCity} to ${proposal.load.deliveryCity}`,
-          metadata: {
-            proposalId: proposal.id,
-            loadId: proposal.loadId,
-            truckId: proposal.truckId,
-          },
-        })
-      )
+    const result = await createMatchProposal(
+      validationResult.data,
+      session.userId
     );
-
-    // Notify shipper org too — dispatcher proposed a match for their load
-    if (load.shipperId) {
-      const shipperUsers = await db.user.findMany({
-        where: { organizationId: load.shipperId, status: "ACTIVE" },
-        select: { id: true },
-      });
-      await Promise.all(
-        shipperUsers.map((u) =>
-          createNotification({
-            userId: u.id,
-            type: "MATCH_PROPOSAL",
-            title: "Truck Matched to Your Load",
-            message: `A dispatcher has matched truck ${proposal.truck.licensePlate} to your load from ${proposal.load.pickupCity} to ${proposal.load.deliveryCity}`,
-            metadata: {
-              proposalId: proposal.id,
-              loadId: proposal.loadId,
-              truckId: proposal.truckId,
-            },
-          })
-        )
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error, ...(result.hint && { hint: result.hint }) },
+        { status: result.status }
       );
     }
-
-    // Fix 8b: Cache invalidation after match proposal creation
-    await CacheInvalidation.load(data.loadId);
+    const { proposal } = result;
 
     return NextResponse.json(
       {
@@ -28,6 +28,7 @@ const updateOrganizationSchema = z.object({
     .optional()
     .transform((v) => (v === "" ? undefined : v)),
   allowNameDisplay: z.boolean().optional(), // Phase 2: Privacy setting
+  requireSignedBol: z.boolean().optional(), // eBOL: signed BOL required before pickup
 });
 
 // GET /api/organizations/[id]
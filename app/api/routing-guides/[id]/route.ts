@@ -0,0 +1,194 @@
+export const dynamic = "force-dynamic";
+/**
+ * Individual Routing Guide API
+ *
+ * GET    /api/routing-guides/[id] - Guide with its carriers in tender order
+ * PATCH  /api/routing-guides/[id] - Pause / resume, or replace the carrier list
+ * DELETE /api/routing-guides/[id] - Delete the guide
+ *
+ * Edits apply to the next tender step; loads already out to a carrier keep
+ * their pending tender.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import {
+  guideCarrierRows,
+  routingGuideInclude,
+  updateRoutingGuideSchema,
+  validateGuideCarriers,
+} from "@/lib/routingGuides";
+
+type SessionLike = {
+  role: string;
+  organizationId?: string | null;
+};
+
+/**
+ * Load a guide the caller may manage (owning shipper or admin).
+ * Returns null otherwise so callers answer 404 without leaking existence.
+ */
+async function findManagedGuide(id: string, session: SessionLike) {
+  const guide = await db.routingGuide.findUnique({
+    where: { id },
+    include: routingGuideInclude,
+  });
+  if (!guide) return null;
+
+  const isOwner =
+    session.role === "SHIPPER" && session.organizationId === guide.shipperId;
+  const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+  return isOwner || isAdmin ? guide : null;
+}
+
+async function checkWriteLimit(request: NextRequest) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "routing-guide-write",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/routing-guides/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const guide = await findManagedGuide(id, session);
+    if (!guide) {
+      return NextResponse.json(
+        { error: "Routing guide not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ guide });
+  } catch (error) {
+    return handleApiError(error, "Error fetching routing guide");
+  }
+}
+
+/**
+ * PATCH /api/routing-guides/[id]
+ *
+ * Body: isActive?, carriers? (the full list in tender order)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const guide = await findManagedGuide(id, session);
+    if (!guide) {
+      return NextResponse.json(
+        { error: "Routing guide not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = updateRoutingGuideSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const { carriers, isActive } = parsed.data;
+
+    if (carriers) {
+      const carrierError = await validateGuideCarriers(carriers);
+      if (carrierError) {
+        return NextResponse.json({ error: carrierError }, { status: 400 });
+      }
+    }
+
+    const updated = await db.$transaction(async (tx) => {
+      if (isActive !== undefined) {
+        await tx.routingGuide.update({ where: { id }, data: { isActive } });
+      }
+      if (carriers) {
+        await tx.routingGuideCarrier.deleteMany({
+          where: { routingGuideId: id },
+        });
+        await tx.routingGuideCarrier.createMany({
+          data: guideCarrierRows(id, carriers),
+        });
+      }
+      return tx.routingGuide.findUnique({
+        where: { id },
+        include: routingGuideInclude,
+      });
+    });
+
+    return NextResponse.json({ guide: updated });
+  } catch (error) {
+    return handleApiError(error, "Error updating routing guide");
+  }
+}
+
+/**
+ * DELETE /api/routing-guides/[id]
+ *
+ * Loads out to a carrier keep their pending tender; when it ends they go
+ * to the public board.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    const session = await requireActiveUser();
+
+    const guide = await findManagedGuide(id, session);
+    if (!guide) {
+      return NextResponse.json(
+        { error: "Routing guide not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.routingGuide.delete({ where: { id } });
+
+    return NextResponse.json({ message: "Routing guide deleted" });
+  } catch (error) {
+    return handleApiError(error, "Error deleting routing guide");
+  }
+}
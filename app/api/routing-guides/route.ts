@@ -0,0 +1,139 @@
+export const dynamic = "force-dynamic";
+/**
+ * Routing Guides API
+ *
+ * GET  /api/routing-guides - List the shipper organization's routing guides
+ * POST /api/routing-guides - Create a routing guide for a lane
+ *
+ * Loads posted on a guide's lane are tendered to its carriers in order
+ * before they reach the public board (see lib/routingGuides.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { requirePermission, Permission } from "@/lib/rbac";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import {
+  guideCarrierRows,
+  routingGuideInclude,
+  routingGuideSchema,
+  validateGuideCarriers,
+} from "@/lib/routingGuides";
+
+/**
+ * GET /api/routing-guides
+ */
+export async function GET() {
+  try {
+    const session = await requireActiveUser();
+
+    if (session.role !== "SHIPPER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only shippers can view routing guides" },
+        { status: 403 }
+      );
+    }
+
+    const guides = await db.routingGuide.findMany({
+      where: { shipperId: session.organizationId },
+      include: routingGuideInclude,
+      orderBy: [{ pickupCity: "asc" }, { deliveryCity: "asc" }],
+    });
+
+    return NextResponse.json({ guides });
+  } catch (error) {
+    return handleApiError(error, "Error fetching routing guides");
+  }
+}
+
+/**
+ * POST /api/routing-guides
+ *
+ * Body: pickupCity, deliveryCity, isActive?, and carriers in tender order,
+ * each { carrierId, responseTimeoutMinutes }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "routing-guides",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    await requireActiveUser();
+    const session = await requirePermission(Permission.CREATE_LOAD);
+
+    if (session.role !== "SHIPPER" || !session.organizationId) {
+      return NextResponse.json(
+        { error: "Only shippers can create routing guides" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = routingGuideSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+    const { carriers, ...data } = parsed.data;
+
+    const carrierError = await validateGuideCarriers(carriers);
+    if (carrierError) {
+      return NextResponse.json({ error: carrierError }, { status: 400 });
+    }
+
+    const existing = await db.routingGuide.findFirst({
+      where: {
+        shipperId: session.organizationId,
+        pickupCity: data.pickupCity,
+        deliveryCity: data.deliveryCity,
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        {
+          error: "A routing guide already exists for this lane",
+          routingGuideId: existing.id,
+        },
+        { status: 409 }
+      );
+    }
+
+    const shipperId = session.organizationId;
+    const guide = await db.$transaction(async (tx) => {
+      const created = await tx.routingGuide.create({
+        data: { ...data, shipperId, createdById: session.userId },
+      });
+      await tx.routingGuideCarrier.createMany({
+        data: guideCarrierRows(created.id, carriers),
+      });
+      return tx.routingGuide.findUnique({
+        where: { id: created.id },
+        include: routingGuideInclude,
+      });
+    });
+
+    return NextResponse.json({ guide }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "Error creating routing guide");
+  }
+}
@@ -0,0 +1,188 @@
+export const dynamic = "force-dynamic";
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError } from "@/lib/apiErrors";
+import { escapeHtml } from "@/lib/email";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { checkWalletGate } from "@/lib/walletGate";
+import {
+  findAlertRequest,
+  isAlertRequestExpired,
+  requestAlertLoad,
+} from "@/lib/savedSearchAlerts";
+
+/**
+ * /api/saved-search-alerts/[token]/request-load
+ *
+ * One-click load request from a saved search alert (email digest or SMS).
+ *
+ * Security Model:
+ * - This endpoint is PUBLIC - the link is opened from an email or SMS,
+ *   often without a session
+ * - The token is the security token: random (48 hex chars), issued for one
+ *   load and one search owner, usable once and until it expires
+ * - GET only shows a confirmation page, so link scanners and previews
+ *   opening the link request nothing; the request is made on POST
+ * - The owner must still be an ACTIVE carrier and pass the wallet gate
+ * - Rate limited like other write endpoints
+ */
+
+type AlertRequest = NonNullable<Awaited<ReturnType<typeof findAlertRequest>>>;
+
+/**
+ * Rate limit, then look up the link and check it can still be used
+ *
+ * @returns The link's match, or the response refusing it
+ */
+async function checkAlertRequest(
+  request: NextRequest,
+  token: string
+): Promise<{ match: AlertRequest } | { response: NextResponse }> {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "saved-search-alerts",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return {
+      response: NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      ),
+    };
+  }
+
+  const match = await findAlertRequest(token);
+  if (!match) {
+    return {
+      response: NextResponse.json(
+        { error: "This link is invalid" },
+        { status: 404 }
+      ),
+    };
+  }
+  if (isAlertRequestExpired(match)) {
+    return {
+      response: NextResponse.json(
+        { error: "This link has expired" },
+        { status: 410 }
+      ),
+    };
+  }
+
+  const user = match.savedSearch.user;
+  if (user.status !== "ACTIVE" || user.role !== "CARRIER") {
+    return {
+      response: NextResponse.json(
+        { error: "Only active carriers can request loads" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  const gateError = await checkWalletGate({
+    userId: user.id,
+    role: user.role,
+    organizationId: user.organizationId,
+  });
+  if (gateError) return { response: gateError };
+
+  return { match };
+}
+
+/**
+ * GET - Confirmation page with a button that POSTs the request
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const checked = await checkAlertRequest(request, token);
+    if ("response" in checked) return checked.response;
+
+    const { match } = checked;
+    if (match.requestedAt) {
+      return NextResponse.json(
+        { error: "This load was already requested" },
+        { status: 409 }
+      );
+    }
+    if (!match.load) {
+      return NextResponse.json({ error: "Load not found" }, { status: 404 });
+    }
+
+    const load = match.load;
+    const route = `${escapeHtml(load.pickupCity)} → ${escapeHtml(load.deliveryCity)}`;
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Request load</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 40px auto; padding: 0 16px;">
+  <h2>Request this load?</h2>
+  <p><strong>${route}</strong></p>
+  <p>${escapeHtml(load.truckType)} · pickup ${load.pickupDate.toISOString().slice(0, 10)}</p>
+  <form method="POST">
+    <button type="submit" style="background: #2563eb; color: white; border: 0; padding: 12px 24px; border-radius: 6px; font-size: 16px;">Request load</button>
+  </form>
+</body>
+</html>`;
+
+    return new NextResponse(html, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Error showing alert load request");
+  }
+}
+
+/**
+ * POST - Request the load
+ *
+ * Redirects to the carrier's requests on success, or to the load page when
+ * no posted truck fits so the carrier can pick one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const checked = await checkAlertRequest(request, token);
+    if ("response" in checked) return checked.response;
+
+    const { match } = checked;
+    const result = await requestAlertLoad(match);
+    if ("error" in result) {
+      if (result.status === 422 && match.loadId) {
+        return NextResponse.redirect(
+          new URL(`/carrier/loads/${match.loadId}`, request.url),
+          303
+        );
+      }
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.redirect(
+      new URL("/carrier/requests", request.url),
+      303
+    );
+  } catch (error) {
+    return handleApiError(error, "Error requesting load from alert");
+  }
+}
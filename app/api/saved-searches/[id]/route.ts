@@ -22,6 +22,11 @@ const updateSavedSearchSchema = z.object({
   // Allow toggling alerts on/off after creation. Was missing — only way
   // to disable alerts was to delete and recreate the search.
   alertsEnabled: z.boolean().optional(),
+  // Alert delivery (lib/savedSearchAlerts.ts); quiet hours in East Africa Time
+  alertChannel: z.enum(["PUSH", "SMS", "EMAIL"]).optional(),
+  alertFrequency: z.enum(["INSTANT", "HOURLY", "DAILY"]).optional(),
+  quietHoursStart: z.number().int().min(0).max(23).nullable().optional(),
+  quietHoursEnd: z.number().int().min(0).max(23).nullable().optional(),
 });
 
 /**
@@ -32,7 +37,12 @@ const updateSavedSearchSchema = z.object({
  * Body:
  * {
  *   name?: string,
- *   criteria?: object
+ *   criteria?: object,
+ *   alertsEnabled?: boolean,
+ *   alertChannel?: "PUSH" | "SMS" | "EMAIL",
+ *   alertFrequency?: "INSTANT" | "HOURLY" | "DAILY",
+ *   quietHoursStart?: number | null,
+ *   quietHoursEnd?: number | null
  * }
  *
  * Returns:
@@ -80,10 +90,10 @@ export async function PUT(
       return zodErrorResponse(result.error);
     }
 
-    const { name, criteria } = result.data;
+    const { name, criteria, ...alertSettings } = result.data;
 
     // Build update data
-    const updateData: Prisma.SavedSearchUpdateInput = {};
+    const updateData: Prisma.SavedSearchUpdateInput = { ...alertSettings };
     if (name !== undefined) updateData.name = name;
     if (criteria !== undefined) updateData.criteria = criteria;
 
@@ -21,6 +21,11 @@ const createSavedSearchSchema = z.object({
   }),
   criteria: z.record(z.string(), z.any()).optional(),
   alertsEnabled: z.boolean().optional().default(false),
+  // Alert delivery (lib/savedSearchAlerts.ts); quiet hours in East Africa Time
+  alertChannel: z.enum(["PUSH", "SMS", "EMAIL"]).optional(),
+  alertFrequency: z.enum(["INSTANT", "HOURLY", "DAILY"]).optional(),
+  quietHoursStart: z.number().int().min(0).max(23).nullable().optional(),
+  quietHoursEnd: z.number().int().min(0).max(23).nullable().optional(),
 });
 
 /**
@@ -79,7 +84,7 @@ export async function POST(request: NextRequest) {
       return zodErrorResponse(result.error);
     }
 
-    const { name, type, criteria, alertsEnabled } = result.data;
+    const { name, type, criteria, ...alertSettings } = result.data;
 
     // Create saved search
     const search = await db.savedSearch.create({
@@ -87,7 +92,7 @@ export async function POST(request: NextRequest) {
         name,
         type,
         criteria: criteria || {},
-        alertsEnabled,
+        ...alertSettings,
         userId: user.userId,
       },
     });
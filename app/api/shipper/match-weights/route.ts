@@ -0,0 +1,167 @@
+export const dynamic = "force-dynamic";
+/**
+ * Shipper Match Weights API
+ *
+ * GET    /api/shipper/match-weights - Weights applied to the shipper's loads,
+ *        the platform default and the shipper's saved versions
+ * PUT    /api/shipper/match-weights - Save a new override version
+ * DELETE /api/shipper/match-weights - Drop the override (back to platform
+ *        weights; saved versions are kept)
+ *
+ * The override changes how trucks are ranked for this shipper's loads in
+ * every matching path (lib/matchWeights.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { refreshShipperMatches } from "@/lib/matchIndex";
+import {
+  clearShipperMatchWeights,
+  getMatchWeightHistory,
+  getMatchWeights,
+  matchWeightsSchema,
+  saveMatchWeights,
+} from "@/lib/matchWeights";
+
+type SessionLike = {
+  role: string;
+  organizationId?: string | null;
+};
+
+/**
+ * The caller's shipper organization, or null when the caller is not a
+ * shipper with an organization.
+ */
+function shipperOrgId(session: SessionLike) {
+  return session.role === "SHIPPER" && session.organizationId
+    ? session.organizationId
+    : null;
+}
+
+function shipperOnly() {
+  return NextResponse.json(
+    { error: "Only shippers can manage match weights" },
+    { status: 403 }
+  );
+}
+
+async function checkWriteLimit(request: NextRequest) {
+  const ip =
+    request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip") ||
+    "unknown";
+  const rpsResult = await checkRpsLimit(
+    "shipper-match-weights",
+    ip,
+    RPS_CONFIGS.write.rps,
+    RPS_CONFIGS.write.burst
+  );
+  if (!rpsResult.allowed) {
+    return NextResponse.json(
+      { error: "Rate limit exceeded. Please slow down." },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+/**
+ * GET /api/shipper/match-weights
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireActiveUser();
+    const organizationId = shipperOrgId(session);
+    if (!organizationId) return shipperOnly();
+
+    const [weights, platform, history] = await Promise.all([
+      getMatchWeights(organizationId),
+      getMatchWeights(),
+      getMatchWeightHistory(organizationId),
+    ]);
+
+    return NextResponse.json({
+      weights,
+      platform,
+      hasOverride: weights.scope === "SHIPPER",
+      history,
+    });
+  } catch (error) {
+    return handleApiError(error, "Get shipper match weights error");
+  }
+}
+
+/**
+ * PUT /api/shipper/match-weights
+ *
+ * Body: route, time, capacity, deadhead, reliability (integers summing to
+ * 100; reliability defaults to 0)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const organizationId = shipperOrgId(session);
+    if (!organizationId) return shipperOnly();
+
+    const body = await request.json();
+    const parsed = matchWeightsSchema.safeParse(body);
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const weights = await saveMatchWeights(
+      organizationId,
+      parsed.data,
+      session.userId
+    );
+    await refreshShipperMatches(organizationId);
+
+    return NextResponse.json({ weights, message: "Match weights saved" });
+  } catch (error) {
+    return handleApiError(error, "Update shipper match weights error");
+  }
+}
+
+/**
+ * DELETE /api/shipper/match-weights
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const limited = await checkWriteLimit(request);
+    if (limited) return limited;
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const session = await requireActiveUser();
+    const organizationId = shipperOrgId(session);
+    if (!organizationId) return shipperOnly();
+
+    const cleared = await clearShipperMatchWeights(organizationId);
+    if (!cleared) {
+      return NextResponse.json(
+        { error: "No match weight override to remove" },
+        { status: 404 }
+      );
+    }
+    await refreshShipperMatches(organizationId);
+
+    return NextResponse.json({
+      weights: await getMatchWeights(organizationId),
+      message: "Match weight override removed",
+    });
+  } catch (error) {
+    return handleApiError(error, "Remove shipper match weights error");
+  }
+}
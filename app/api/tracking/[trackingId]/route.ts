@@ -72,6 +72,22 @@ export async function GET(
         destinationLon: true,
         trackingEnabled: true,
         trackingStartedAt: true,
+        // Public view: route order and timing only, no stop contacts
+        stops: {
+          orderBy: { sequence: "asc" },
+          select: {
+            id: true,
+            sequence: true,
+            stopType: true,
+            city: true,
+            latitude: true,
+            longitude: true,
+            appointmentStart: true,
+            appointmentEnd: true,
+            arrivedAt: true,
+            departedAt: true,
+          },
+        },
         shipper: {
           select: {
             name: true,
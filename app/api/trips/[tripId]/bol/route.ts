@@ -0,0 +1,144 @@
+export const dynamic = "force-dynamic";
+/**
+ * Trip Bill of Lading API
+ *
+ * GET  /api/trips/[tripId]/bol - Get the trip's electronic BOL
+ * POST /api/trips/[tripId]/bol - Generate the BOL from load data
+ *
+ * The BOL is signed at pickup via POST /api/trips/[tripId]/bol/sign.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { issueBillOfLading } from "@/lib/billOfLading";
+
+const tripSelect = {
+  id: true,
+  loadId: true,
+  status: true,
+  carrierId: true,
+  shipperId: true,
+  driverId: true,
+} as const;
+
+/**
+ * GET /api/trips/[tripId]/bol
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId } = await params;
+    const session = await requireActiveUser();
+
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: tripSelect,
+    });
+
+    if (!trip) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const isCarrier =
+      session.role === "CARRIER" && session.organizationId === trip.carrierId;
+    const isShipper =
+      session.role === "SHIPPER" && session.organizationId === trip.shipperId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isDispatcher = session.role === "DISPATCHER";
+    const isDriver =
+      session.role === "DRIVER" && trip.driverId === session.userId;
+
+    if (!isCarrier && !isShipper && !isAdmin && !isDispatcher && !isDriver) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const [billOfLading, shipper] = await Promise.all([
+      db.billOfLading.findUnique({ where: { tripId } }),
+      db.organization.findUnique({
+        where: { id: trip.shipperId },
+        select: { requireSignedBol: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      billOfLading,
+      requireSignedBol: shipper?.requireSignedBol ?? false,
+    });
+  } catch (error) {
+    return handleApiError(error, "Get bill of lading error");
+  }
+}
+
+/**
+ * POST /api/trips/[tripId]/bol
+ *
+ * Generate the BOL from the load's cargo, weight, cases, insurance and
+ * special instructions. Idempotent: returns the existing BOL if present.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "trip-bol",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { tripId } = await params;
+    const session = await requireActiveUser();
+
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: tripSelect,
+    });
+
+    if (!trip || !trip.loadId) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const isCarrier =
+      session.role === "CARRIER" && session.organizationId === trip.carrierId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isDriver =
+      session.role === "DRIVER" && trip.driverId === session.userId;
+
+    if (!isCarrier && !isAdmin && !isDriver) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    if (trip.status !== "ASSIGNED" && trip.status !== "PICKUP_PENDING") {
+      return NextResponse.json(
+        { error: "A bill of lading can only be generated before pickup" },
+        { status: 400 }
+      );
+    }
+
+    const billOfLading = await issueBillOfLading(trip.id, session.userId);
+
+    return NextResponse.json({ billOfLading }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "Generate bill of lading error");
+  }
+}
@@ -0,0 +1,154 @@
+export const dynamic = "force-dynamic";
+/**
+ * Trip Bill of Lading Signature API
+ *
+ * POST /api/trips/[tripId]/bol/sign - Capture a pickup signature
+ *
+ * The driver app collects the shipper's and the driver's signatures on
+ * the same device, each with the device's GPS position. After the second
+ * signature the signed PDF is stored on the load (see lib/billOfLading.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { z } from "zod";
+import { CacheInvalidation } from "@/lib/cache";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { signBillOfLading } from "@/lib/billOfLading";
+
+const pointSchema = z.tuple([
+  z.number().min(0).max(1),
+  z.number().min(0).max(1),
+]);
+
+const signBolSchema = z.object({
+  party: z.enum(["SHIPPER", "DRIVER"]),
+  signerName: z.string().trim().min(1).max(100),
+  // Normalized strokes from the signature pad
+  strokes: z.array(z.array(pointSchema).min(1).max(1000)).min(1).max(100),
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+/**
+ * POST /api/trips/[tripId]/bol/sign
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "trip-bol-sign",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { tripId } = await params;
+    const session = await requireActiveUser();
+
+    const body = await request.json();
+    const parseResult = signBolSchema.safeParse(body);
+    if (!parseResult.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parseResult.error);
+    }
+    const data = parseResult.data;
+
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        loadId: true,
+        status: true,
+        carrierId: true,
+        shipperId: true,
+        driverId: true,
+      },
+    });
+
+    if (!trip || !trip.loadId) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const isCarrier =
+      session.role === "CARRIER" && session.organizationId === trip.carrierId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isDriver =
+      session.role === "DRIVER" && trip.driverId === session.userId;
+
+    if (!isCarrier && !isAdmin && !isDriver) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    if (trip.status !== "ASSIGNED" && trip.status !== "PICKUP_PENDING") {
+      return NextResponse.json(
+        { error: "The bill of lading can only be signed at pickup" },
+        { status: 400 }
+      );
+    }
+
+    const bol = await db.billOfLading.findUnique({ where: { tripId } });
+    if (!bol) {
+      return NextResponse.json(
+        { error: "Generate the bill of lading before signing" },
+        { status: 404 }
+      );
+    }
+    if (bol.status === "SIGNED") {
+      return NextResponse.json(
+        { error: "Bill of lading is already signed" },
+        { status: 409 }
+      );
+    }
+
+    const billOfLading = await signBillOfLading(bol, {
+      ...data,
+      signedById: session.userId,
+    });
+
+    await db.loadEvent.create({
+      data: {
+        loadId: trip.loadId,
+        eventType:
+          billOfLading.status === "SIGNED" ? "BOL_SIGNED" : "BOL_SIGNATURE",
+        description:
+          billOfLading.status === "SIGNED"
+            ? `Bill of lading ${bol.bolNumber} signed by shipper and driver`
+            : `${data.party === "SHIPPER" ? "Shipper" : "Driver"} signed bill of lading ${bol.bolNumber}`,
+        userId: session.userId,
+        metadata: {
+          tripId,
+          party: data.party,
+          latitude: data.latitude,
+          longitude: data.longitude,
+        },
+      },
+    });
+
+    if (billOfLading.status === "SIGNED") {
+      await CacheInvalidation.trip(tripId, trip.carrierId, trip.shipperId);
+    }
+
+    return NextResponse.json({ billOfLading });
+  } catch (error) {
+    return handleApiError(error, "Sign bill of lading error");
+  }
+}
@@ -18,6 +18,7 @@ import {
 } from "@/lib/notifications";
 import { z } from "zod";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { Prisma } from "@prisma/client";
@@ -311,6 +312,8 @@ export async function POST(
     // Cache invalidation after transaction commits
     await CacheInvalidation.trip(tripId, trip.carrierId, trip.shipperId);
     await CacheInvalidation.load(tripLoadId, trip.shipperId);
+    await refreshLoadMatches(tripLoadId);
+    await refreshTruckMatches(trip.truckId);
 
     // Refund service fee if fees were already deducted before this cancellation.
     // refundServiceFee() owns its own $transaction — must run outside this route's tx.
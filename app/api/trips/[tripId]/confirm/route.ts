@@ -20,6 +20,7 @@ import {
   NotificationType,
 } from "@/lib/notifications";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import { z } from "zod";
 import { zodErrorResponse } from "@/lib/validation";
 import { handleApiError } from "@/lib/apiErrors";
@@ -345,6 +346,7 @@ export async function POST(
       trip.shipperId || ""
     );
     await CacheInvalidation.load(tripLoadId, trip.shipperId || "");
+    await refreshTruckMatches(trip.truckId);
 
     // G-N3-8: Notify ALL active carrier org users that delivery has been confirmed (not just first)
     if (trip.carrier?.id) {
@@ -23,6 +23,14 @@ import {
   RPS_CONFIGS,
 } from "@/lib/rateLimit";
 import { handleApiError } from "@/lib/apiErrors";
+import { analyzeDrivingSample } from "@/lib/drivingSafety";
+import { geohashOf } from "@/lib/geoIndex";
+import { checkRouteDeviation } from "@/lib/routeDeviation";
+import {
+  filterTruckPositions,
+  storeRejectedPositions,
+  updateTripDistance,
+} from "@/lib/gpsFilter";
 
 const gpsUpdateSchema = z.object({
   latitude: z.number().min(-90).max(90),
@@ -170,6 +178,27 @@ async function postHandler(
       session.role === "DRIVER" ? session.userId : null;
     const isDriverCaller = session.role === "DRIVER";
 
+    // Phone GPS jumps: drop impossible points and park jitter
+    // (lib/gpsFilter.ts) before they move the truck or add trip distance
+    const { accepted, rejected } = await filterTruckPositions(trip.truckId, [
+      { ...validatedData, timestamp: now },
+    ]);
+    if (rejected.length > 0) {
+      await storeRejectedPositions(rejected, {
+        truckId: trip.truckId,
+        deviceId: isDriverCaller ? null : trip.truck.gpsDeviceId,
+        loadId: trip.loadId,
+        tripId,
+        source: gpsSource,
+        driverId: gpsDriverId,
+      });
+      return NextResponse.json({
+        message: "GPS position rejected",
+        rejected: { reason: rejected[0].reason },
+      });
+    }
+    const { latitude, longitude } = accepted[0];
+
     // TD-002 FIX: Wrap all GPS updates in a transaction for atomicity
     const gpsPosition = await db.$transaction(async (tx) => {
       // Determine the deviceId for this position.
@@ -208,8 +237,8 @@ async function postHandler(
           deviceId: deviceId,
           source: gpsSource,
           driverId: gpsDriverId,
-          latitude: new Prisma.Decimal(validatedData.latitude),
-          longitude: new Prisma.Decimal(validatedData.longitude),
+          latitude: new Prisma.Decimal(latitude),
+          longitude: new Prisma.Decimal(longitude),
           speed: validatedData.speed
             ? new Prisma.Decimal(validatedData.speed)
             : null,
@@ -230,8 +259,8 @@ async function postHandler(
       await tx.trip.update({
         where: { id: tripId },
         data: {
-          currentLat: new Prisma.Decimal(validatedData.latitude),
-          currentLng: new Prisma.Decimal(validatedData.longitude),
+          currentLat: new Prisma.Decimal(latitude),
+          currentLng: new Prisma.Decimal(longitude),
           currentLocationUpdatedAt: now,
         },
       });
@@ -241,8 +270,9 @@ async function postHandler(
       await tx.truck.update({
         where: { id: trip.truckId },
         data: {
-          currentLocationLat: new Prisma.Decimal(validatedData.latitude),
-          currentLocationLon: new Prisma.Decimal(validatedData.longitude),
+          currentLocationLat: new Prisma.Decimal(latitude),
+          currentLocationLon: new Prisma.Decimal(longitude),
+          currentLocationGeohash: geohashOf(latitude, longitude),
           locationUpdatedAt: now,
           gpsLastSeenAt: now,
           gpsStatus: "ACTIVE",
@@ -264,12 +294,28 @@ async function postHandler(
       return position;
     });
 
+    // Trip distance, route deviation, speeding / harsh driving / long
+    // driving (best-effort)
+    await updateTripDistance(tripId, accepted).catch((error) =>
+      console.error("Trip distance update error:", error)
+    );
+    await checkRouteDeviation(tripId, latitude, longitude, now).catch((error) =>
+      console.error("Route deviation check error:", error)
+    );
+    await analyzeDrivingSample(tripId, {
+      latitude,
+      longitude,
+      speed: validatedData.speed,
+      timestamp: now,
+      driverId: gpsDriverId,
+    }).catch((error) => console.error("Driving safety analysis error:", error));
+
     return NextResponse.json({
       message: "GPS position updated",
       position: {
         id: gpsPosition.id,
-        latitude: validatedData.latitude,
-        longitude: validatedData.longitude,
+        latitude,
+        longitude,
         speed: validatedData.speed,
         heading: validatedData.heading,
         timestamp: now.toISOString(),
@@ -13,6 +13,7 @@ import { requireActiveUser } from "@/lib/auth";
 import { calculateDistanceKm } from "@/lib/geo";
 import { handleApiError } from "@/lib/apiErrors";
 import { roundToDecimals, roundDistance1 } from "@/lib/rounding";
+import { parsePlannedRoute } from "@/lib/routeDeviation";
 
 /**
  * GET /api/trips/[tripId]/history
@@ -175,6 +176,19 @@ export async function GET(
       }
     }
 
+    // Stretches driven outside the planned route corridor
+    const deviations = await db.routeDeviation.findMany({
+      where: { tripId },
+      select: {
+        id: true,
+        startedAt: true,
+        endedAt: true,
+        maxDistanceKm: true,
+        escalationId: true,
+      },
+      orderBy: { startedAt: "asc" },
+    });
+
     // Calculate trip duration
     let durationMinutes: number | null = null;
     if (trip.startedAt && (trip.completedAt || trip.deliveredAt)) {
@@ -225,6 +239,16 @@ export async function GET(
       route,
       // Also include 'positions' for mobile app compatibility
       positions: route,
+      plannedRoute: (parsePlannedRoute(trip.plannedRoute) ?? []).map(
+        ([latitude, longitude]) => ({ latitude, longitude })
+      ),
+      deviations: deviations.map((d) => ({
+        id: d.id,
+        startedAt: d.startedAt.toISOString(),
+        endedAt: d.endedAt?.toISOString() || null,
+        maxDistanceKm: roundDistance1(Number(d.maxDistanceKm)),
+        escalationId: d.escalationId,
+      })),
     });
   } catch (error) {
     return handleApiError(error, "Get trip history error");
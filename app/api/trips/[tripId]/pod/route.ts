@@ -12,6 +12,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import {
   createNotification,
@@ -392,6 +393,7 @@ export async function POST(
     // Cache invalidation
     await CacheInvalidation.load(tripLoadId, trip.load?.shipperId);
     await CacheInvalidation.trip(tripId, trip.carrierId, trip.shipperId);
+    await refreshTruckMatches(trip.truckId);
 
     // Notify shipper: POD submitted + trip completed
     const shipperUsers = trip.shipper?.users ?? [];
@@ -501,6 +503,7 @@ export async function GET(
         notes: true,
         uploadedAt: true,
         uploadedBy: true,
+        stopId: true,
       },
     });
 
@@ -20,6 +20,7 @@ import {
 import { z } from "zod";
 // P1-002 FIX: Import CacheInvalidation for post-update cache clearing
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 import { refundServiceFee, deductServiceFee } from "@/lib/serviceFeeManagement";
 import {
@@ -30,6 +31,9 @@ import {
 } from "@/lib/notifications";
 import { writeAuditLog, AuditEventType, AuditSeverity } from "@/lib/auditLog";
 import { incrementCompletedLoads } from "@/lib/trustMetrics";
+import { isSignedBolRequired } from "@/lib/billOfLading";
+import { storePlannedRoute } from "@/lib/routeDeviation";
+import { completeFinalStop } from "@/lib/loadStops";
 
 const updateTripSchema = z.object({
   status: z
@@ -387,6 +391,21 @@ export async function PATCH(
         }
       }
 
+      // eBOL: shippers can require a signed bill of lading before pickup
+      if (
+        validatedData.status === "IN_TRANSIT" &&
+        !trip.pickedUpAt &&
+        (await isSignedBolRequired(trip))
+      ) {
+        return NextResponse.json(
+          {
+            error: "The shipper requires a signed bill of lading before pickup",
+            requiresSignedBol: true,
+          },
+          { status: 400 }
+        );
+      }
+
       updateData.status = validatedData.status;
 
       // Set timestamps based on status
@@ -581,6 +600,11 @@ export async function PATCH(
           }
         }
 
+        // Multi-stop: delivery completes the final stop
+        if (validatedData.status === "DELIVERED") {
+          await completeFinalStop(tripLoadId, new Date(), tx);
+        }
+
         // Create load event inside transaction
         await tx.loadEvent.create({
           data: {
@@ -718,7 +742,9 @@ export async function PATCH(
     await CacheInvalidation.trip(tripId, trip.carrierId, trip.shipperId);
     if (loadSynced) {
       await CacheInvalidation.load(tripLoadId, trip.shipperId);
+      await refreshLoadMatches(tripLoadId);
     }
+    await refreshTruckMatches(trip.truckId);
 
     // G-AD12-2: Audit log for admin-only trip status overrides
     const isAdminAction =
@@ -747,6 +773,13 @@ export async function PATCH(
       }).catch((err) => console.error("Audit log failed:", err));
     }
 
+    // Planned route for deviation detection, fetched off the request path
+    if (validatedData.status === "PICKUP_PENDING") {
+      storePlannedRoute(tripId).catch((err) =>
+        console.error("Failed to store planned route:", err)
+      );
+    }
+
     // G-N3-1: PICKUP_PENDING → notify all active shipper users (carrier en route to pickup)
     if (validatedData.status === "PICKUP_PENDING") {
       notifyOrganization({
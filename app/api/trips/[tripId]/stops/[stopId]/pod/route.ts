@@ -0,0 +1,238 @@
+export const dynamic = "force-dynamic";
+/**
+ * Per-Stop POD API
+ *
+ * POST /api/trips/[tripId]/stops/[stopId]/pod - Upload POD for one drop
+ *
+ * Multi-stop loads collect a signed delivery document at each DROPOFF.
+ * Unlike POST /api/trips/[tripId]/pod this does not complete the trip;
+ * the final trip POD is still uploaded once the trip is DELIVERED.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { CacheInvalidation } from "@/lib/cache";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { createNotification, NotificationType } from "@/lib/notifications";
+import { uploadPOD } from "@/lib/storage";
+import { checkRateLimit } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+
+/**
+ * POST /api/trips/[tripId]/stops/[stopId]/pod
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string; stopId: string }> }
+) {
+  try {
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { tripId, stopId } = await params;
+    const session = await requireActiveUser();
+
+    // Shares the trip POD budget: 10 per hour per trip
+    const rateResult = await checkRateLimit(
+      {
+        name: "pod-upload",
+        limit: 10,
+        windowMs: 60 * 60 * 1000,
+        message: "Too many POD uploads",
+      },
+      `pod:${tripId}`
+    );
+    if (!rateResult.allowed) {
+      return NextResponse.json(
+        { error: "Too many POD uploads. Try again later." },
+        { status: 429 }
+      );
+    }
+
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        loadId: true,
+        status: true,
+        carrierId: true,
+        shipperId: true,
+        driverId: true,
+        shipper: {
+          select: {
+            users: {
+              where: { status: "ACTIVE" },
+              select: { id: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!trip) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    // POD upload is driver-only (+ admin override), same as the trip POD
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isDriver =
+      session.role === "DRIVER" && trip.driverId === session.userId;
+
+    if (!isAdmin && !isDriver) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const stop = await db.loadStop.findUnique({ where: { id: stopId } });
+    if (!stop || stop.loadId !== trip.loadId) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    if (stop.stopType !== "DROPOFF") {
+      return NextResponse.json(
+        { error: "POD can only be uploaded for drop-off stops" },
+        { status: 400 }
+      );
+    }
+
+    if (trip.status !== "IN_TRANSIT" && trip.status !== "DELIVERED") {
+      return NextResponse.json(
+        { error: "Trip must be IN_TRANSIT or DELIVERED to upload a stop POD" },
+        { status: 400 }
+      );
+    }
+
+    if (!stop.arrivedAt) {
+      return NextResponse.json(
+        { error: "Arrival at this stop has not been recorded" },
+        { status: 400 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const formData: any = await request.formData();
+    const file = formData.get("file") as File | null;
+    const notes = formData.get("notes") as string | null;
+
+    if (!file) {
+      return NextResponse.json(
+        { error: "POD document file is required" },
+        { status: 400 }
+      );
+    }
+
+    const allowedTypes = [
+      "image/jpeg",
+      "image/png",
+      "image/jpg",
+      "application/pdf",
+    ];
+
+    if (!allowedTypes.includes(file.type)) {
+      return NextResponse.json(
+        { error: "File must be an image (JPEG, PNG) or PDF" },
+        { status: 400 }
+      );
+    }
+
+    // Server-side magic byte validation to prevent MIME type spoofing
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const magicBytes = buffer.subarray(0, 4);
+    const isJpeg = magicBytes[0] === 0xff && magicBytes[1] === 0xd8;
+    const isPng =
+      magicBytes[0] === 0x89 &&
+      magicBytes[1] === 0x50 &&
+      magicBytes[2] === 0x4e &&
+      magicBytes[3] === 0x47;
+    const isPdf = magicBytes.toString("ascii").startsWith("%PDF");
+    if (!isJpeg && !isPng && !isPdf) {
+      return NextResponse.json(
+        {
+          error: "File content does not match an allowed type (JPEG, PNG, PDF)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const maxSize = 10 * 1024 * 1024;
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: "File size must be less than 10MB" },
+        { status: 400 }
+      );
+    }
+
+    const fileType = file.type.startsWith("image/") ? "IMAGE" : "PDF";
+
+    const uploadResult = await uploadPOD(file, tripId);
+    if (!uploadResult.success) {
+      console.error("Stop POD upload failed:", uploadResult.error);
+      return NextResponse.json(
+        { error: "Failed to upload POD file. Please try again." },
+        { status: 500 }
+      );
+    }
+
+    const tripPod = await db.$transaction(async (tx) => {
+      const tripPod = await tx.tripPod.create({
+        data: {
+          tripId,
+          stopId: stop.id,
+          fileUrl: uploadResult.url!,
+          fileName: file.name,
+          fileType,
+          fileSize: file.size,
+          mimeType: file.type,
+          notes: notes || null,
+          uploadedBy: session.userId,
+        },
+      });
+
+      await tx.loadEvent.create({
+        data: {
+          loadId: stop.loadId,
+          eventType: "STOP_POD_SUBMITTED",
+          description: `Proof of Delivery uploaded for stop ${stop.sequence} (${stop.city})`,
+          userId: session.userId,
+          metadata: {
+            tripId,
+            stopId: stop.id,
+            tripPodId: tripPod.id,
+            fileName: file.name,
+            fileType,
+          },
+        },
+      });
+
+      return tripPod;
+    });
+
+    await CacheInvalidation.trip(tripId, trip.carrierId, trip.shipperId);
+
+    for (const u of trip.shipper?.users ?? []) {
+      createNotification({
+        userId: u.id,
+        type: NotificationType.POD_SUBMITTED,
+        title: `POD Uploaded: Stop ${stop.sequence}`,
+        message: `Proof of Delivery has been uploaded for stop ${stop.sequence} (${stop.city}).`,
+        metadata: { tripId, loadId: stop.loadId, stopId: stop.id },
+      }).catch((err) =>
+        console.error("Failed to notify shipper of stop POD:", err)
+      );
+    }
+
+    return NextResponse.json({
+      message: "Stop POD uploaded successfully",
+      pod: {
+        id: tripPod.id,
+        stopId: stop.id,
+        fileUrl: tripPod.fileUrl,
+        fileName: tripPod.fileName,
+        fileType: tripPod.fileType,
+        uploadedAt: tripPod.uploadedAt,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "Upload stop POD error");
+  }
+}
@@ -0,0 +1,161 @@
+export const dynamic = "force-dynamic";
+/**
+ * Trip Stop Status API
+ *
+ * PATCH /api/trips/[tripId]/stops/[stopId] - Record arrival or departure
+ *
+ * Manual fallback for the GPS stop geofence (lib/gpsTracking.ts) when a
+ * truck has no signal at the dock. Stops must be worked in sequence.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { validateCSRFWithMobile } from "@/lib/csrf";
+import { z } from "zod";
+import { CacheInvalidation } from "@/lib/cache";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import {
+  getNextPendingStop,
+  getOrderedStops,
+  recordStopArrival,
+  recordStopDeparture,
+} from "@/lib/loadStops";
+
+const updateStopSchema = z.object({
+  action: z.enum(["ARRIVE", "DEPART"]),
+});
+
+/**
+ * PATCH /api/trips/[tripId]/stops/[stopId]
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string; stopId: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "trip-stop-update",
+      ip,
+      RPS_CONFIGS.write.rps,
+      RPS_CONFIGS.write.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const csrfError = await validateCSRFWithMobile(request);
+    if (csrfError) return csrfError;
+
+    const { tripId, stopId } = await params;
+    const session = await requireActiveUser();
+
+    const body = await request.json();
+    const { action } = updateStopSchema.parse(body);
+
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        loadId: true,
+        status: true,
+        carrierId: true,
+        shipperId: true,
+        driverId: true,
+      },
+    });
+
+    if (!trip || !trip.loadId) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const isCarrier =
+      session.role === "CARRIER" && session.organizationId === trip.carrierId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isDriver =
+      session.role === "DRIVER" && trip.driverId === session.userId;
+
+    if (!isCarrier && !isAdmin && !isDriver) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    if (trip.status !== "PICKUP_PENDING" && trip.status !== "IN_TRANSIT") {
+      return NextResponse.json(
+        { error: "Stops can only be updated on an active trip" },
+        { status: 400 }
+      );
+    }
+
+    const stops = await getOrderedStops(trip.loadId);
+    const stop = stops.find((s) => s.id === stopId);
+    if (!stop) {
+      return NextResponse.json({ error: "Stop not found" }, { status: 404 });
+    }
+
+    if (getNextPendingStop(stops)?.id !== stop.id) {
+      return NextResponse.json(
+        { error: "Stops must be completed in sequence" },
+        { status: 409 }
+      );
+    }
+
+    const isFinalStop = stop.sequence === stops[stops.length - 1].sequence;
+    const now = new Date();
+
+    if (action === "ARRIVE") {
+      if (!(await recordStopArrival(stop.id, now))) {
+        return NextResponse.json(
+          { error: "Arrival already recorded for this stop" },
+          { status: 409 }
+        );
+      }
+    } else {
+      if (isFinalStop) {
+        return NextResponse.json(
+          { error: "Mark the trip DELIVERED to complete the final stop" },
+          { status: 400 }
+        );
+      }
+      if (!(await recordStopDeparture(stop.id, now))) {
+        return NextResponse.json(
+          { error: "Arrive at this stop before departing" },
+          { status: 409 }
+        );
+      }
+    }
+
+    await db.loadEvent.create({
+      data: {
+        loadId: trip.loadId,
+        eventType: action === "ARRIVE" ? "STOP_ARRIVED" : "STOP_DEPARTED",
+        description: `${action === "ARRIVE" ? "Arrived at" : "Departed"} stop ${stop.sequence} (${stop.city})`,
+        userId: session.userId,
+        metadata: {
+          tripId,
+          stopId: stop.id,
+          sequence: stop.sequence,
+          source: "manual",
+        },
+      },
+    });
+
+    await CacheInvalidation.trip(tripId, trip.carrierId, trip.shipperId);
+
+    const updated = await db.loadStop.findUnique({ where: { id: stop.id } });
+
+    return NextResponse.json({
+      message: action === "ARRIVE" ? "Arrival recorded" : "Departure recorded",
+      stop: updated,
+    });
+  } catch (error) {
+    return handleApiError(error, "Update trip stop error");
+  }
+}
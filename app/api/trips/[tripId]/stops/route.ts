@@ -0,0 +1,87 @@
+export const dynamic = "force-dynamic";
+/**
+ * Trip Stops API
+ *
+ * GET /api/trips/[tripId]/stops - Stop sequence of a multi-stop trip
+ *
+ * Returns the load's stops in route order with arrival/departure times
+ * and any per-drop POD documents.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { handleApiError } from "@/lib/apiErrors";
+import { getNextPendingStop } from "@/lib/loadStops";
+
+/**
+ * GET /api/trips/[tripId]/stops
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tripId: string }> }
+) {
+  try {
+    const { tripId } = await params;
+    const session = await requireActiveUser();
+
+    const trip = await db.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        loadId: true,
+        status: true,
+        carrierId: true,
+        shipperId: true,
+        driverId: true,
+      },
+    });
+
+    if (!trip) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const isCarrier =
+      session.role === "CARRIER" && session.organizationId === trip.carrierId;
+    const isShipper =
+      session.role === "SHIPPER" && session.organizationId === trip.shipperId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+    const isDispatcher = session.role === "DISPATCHER";
+    const isDriver =
+      session.role === "DRIVER" && trip.driverId === session.userId;
+
+    if (!isCarrier && !isShipper && !isAdmin && !isDispatcher && !isDriver) {
+      return NextResponse.json({ error: "Trip not found" }, { status: 404 });
+    }
+
+    const stops = trip.loadId
+      ? await db.loadStop.findMany({
+          where: { loadId: trip.loadId },
+          orderBy: { sequence: "asc" },
+          include: {
+            pods: {
+              where: { tripId },
+              orderBy: { uploadedAt: "desc" },
+              select: {
+                id: true,
+                fileUrl: true,
+                fileName: true,
+                fileType: true,
+                uploadedAt: true,
+              },
+            },
+          },
+        })
+      : [];
+
+    return NextResponse.json({
+      tripId,
+      tripStatus: trip.status,
+      stops,
+      nextStopId: getNextPendingStop(stops)?.id ?? null,
+      count: stops.length,
+    });
+  } catch (error) {
+    return handleApiError(error, "Get trip stops error");
+  }
+}
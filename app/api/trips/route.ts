@@ -15,8 +15,10 @@ import { validateCSRFWithMobile } from "@/lib/csrf";
 import { TripStatus, Prisma } from "@prisma/client";
 import { z } from "zod";
 import { CacheInvalidation, CacheTTL, cache } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
 import { zodErrorResponse } from "@/lib/validation";
 import { handleApiError } from "@/lib/apiErrors";
+import { resetStopExecution } from "@/lib/loadStops";
 
 const createTripSchema = z.object({
   loadId: z.string().max(50),
@@ -313,6 +315,9 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      // Multi-stop: a new trip starts with no stop arrivals
+      await resetStopExecution(validatedData.loadId, tx);
+
       await tx.loadEvent.create({
         data: {
           loadId: validatedData.loadId,
@@ -347,6 +352,8 @@ export async function POST(request: NextRequest) {
     // PHASE 4: Invalidate trip and load caches when new trip is created
     await CacheInvalidation.trip(trip.id, truck.carrierId, load.shipperId);
     await CacheInvalidation.allListings();
+    await refreshLoadMatches(load.id);
+    await refreshTruckMatches(validatedData.truckId);
 
     return NextResponse.json(
       {
@@ -12,6 +12,7 @@ import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 
 export async function POST(
@@ -135,6 +136,7 @@ export async function POST(
       duplicatePosting.truckId,
       originalPosting.carrierId
     );
+    await refreshTruckMatches(duplicatePosting.truckId);
 
     return NextResponse.json(duplicatePosting, { status: 201 });
   } catch (error: unknown) {
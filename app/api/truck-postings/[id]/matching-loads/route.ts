@@ -6,17 +6,35 @@ export const dynamic = "force-dynamic";
  *
  * Finds matching loads for a truck posting using the matching engine.
  * Calculates DH-O (deadhead to origin) and DH-D (deadhead after delivery) using Haversine formula.
+ * A truck already carrying PARTIAL loads is only matched with PARTIAL loads
+ * that fit in its remaining capacity (lib/loadConsolidation.ts).
+ * Each match explains its score factor by factor, and loads that just miss
+ * a hard filter are listed as near misses with the reason.
  *
  * Sprint 8 - Story 8.4: Truck/Load Matching Algorithm
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireActiveUser } from "@/lib/auth";
-import { findMatchingLoads } from "@/lib/matchingEngine";
+import {
+  findMatchingLoads,
+  findNearMissLoads,
+  MATCH_SEARCH_RADIUS_KM,
+} from "@/lib/matchingEngine";
+import { withinRadius } from "@/lib/geoIndex";
+import { getNetworkShipperIds, visibleLoadsWhere } from "@/lib/carrierNetworks";
+import { getMatchWeightsFor } from "@/lib/matchWeights";
 import { db } from "@/lib/db";
 import { calculateDistanceKm } from "@/lib/geo";
 import { handleApiError } from "@/lib/apiErrors";
 import { checkWalletGate } from "@/lib/walletGate";
+import {
+  activeTripLoadsArgs,
+  getRemainingCapacity,
+  toTruckAssignments,
+} from "@/lib/loadConsolidation";
+
+const MAX_NEAR_MISSES = 10;
 
 // Use centralized haversine from lib/geo.ts (rounds result for this use case)
 function haversineDistance(
@@ -39,7 +57,8 @@ function haversineDistance(
  *
  * Returns:
  * {
- *   matches: LoadMatch[]
+ *   matches: LoadMatch[],      // Each with a per-factor matchExplanation
+ *   nearMisses: NearMiss[]     // Loads failing one hard filter, with reason
  * }
  */
 export async function GET(
@@ -83,7 +102,9 @@ export async function GET(
           select: {
             truckType: true,
             capacity: true,
+            volume: true,
             lengthM: true,
+            trips: activeTripLoadsArgs,
           },
         },
       },
@@ -171,10 +192,43 @@ export async function GET(
       100
     );
 
+    // Trucks already on a trip can only add PARTIAL loads that still fit
+    const activeTrips = truckPosting.truck?.trips ?? [];
+    const remaining =
+      activeTrips.length > 0
+        ? getRemainingCapacity(
+            truckPosting.truck ?? {},
+            toTruckAssignments(activeTrips)
+          )
+        : null;
+    if (activeTrips.length > 0 && !remaining) {
+      return NextResponse.json({
+        truckPostingId: id,
+        totalMatches: 0,
+        matches: [],
+        nearMisses: [],
+      });
+    }
+
     // G-A7-7: Include SEARCHING and OFFERED loads (Round A6 consistency).
+    // Loads out to routing guide carriers and other shippers' network loads
+    // are not the carrier's to match.
+    const networkShipperIds = await getNetworkShipperIds(
+      truckPosting.carrierId
+    );
     const loads = await db.load.findMany({
       where: {
         status: { in: ["POSTED", "SEARCHING", "OFFERED"] },
+        tenderRank: null,
+        AND: [visibleLoadsWhere(networkShipperIds)],
+        ...(remaining && { fullPartial: "PARTIAL" }),
+        ...(truckPosting.originCity &&
+          withinRadius(
+            "originGeohash",
+            Number(truckPosting.originCity.latitude),
+            Number(truckPosting.originCity.longitude),
+            MATCH_SEARCH_RADIUS_KM
+          )),
       },
       select: {
         id: true,
@@ -185,6 +239,7 @@ export async function GET(
         deliveryDate: true,
         truckType: true,
         weight: true,
+        volume: true,
         lengthM: true,
         fullPartial: true,
         cargoDescription: true,
@@ -228,9 +283,14 @@ export async function GET(
         : null,
       availableDate: truckPosting.availableFrom,
       truckType: truckPosting.truck?.truckType || "",
-      maxWeight: truckPosting.availableWeight
-        ? Number(truckPosting.availableWeight)
-        : null,
+      maxWeight: remaining
+        ? Math.min(
+            Number(truckPosting.availableWeight ?? remaining.weightKg),
+            remaining.weightKg
+          )
+        : truckPosting.availableWeight
+          ? Number(truckPosting.availableWeight)
+          : null,
       lengthM: truckPosting.availableLength
         ? Number(truckPosting.availableLength)
         : null,
@@ -240,6 +300,11 @@ export async function GET(
     // Prepare loads criteria (filter out loads with missing required fields)
     const loadsCriteria = loads
       .filter((load) => load.pickupCity && load.deliveryCity && load.truckType)
+      .filter(
+        (load) =>
+          remaining?.volumeM3 == null ||
+          Number(load.volume ?? 0) <= remaining.volumeM3
+      )
       .map((load) => {
         const pickupCoords = getCityCoords(load.pickupCity);
         const deliveryCoords = getCityCoords(load.deliveryCity);
@@ -256,6 +321,7 @@ export async function GET(
           weight: load.weight ? Number(load.weight) : null,
           lengthM: load.lengthM ? Number(load.lengthM) : null,
           fullPartial: load.fullPartial,
+          shipperId: load.shipperId,
           shipper: load.shipper,
           isAnonymous: load.isAnonymous,
           shipperContactName: load.shipperContactName,
@@ -291,12 +357,17 @@ export async function GET(
       ? Number(truckPosting.preferredDhAfterDeliveryKm)
       : null;
 
+    const weightsFor = await getMatchWeightsFor(
+      loadsCriteria.map((load) => load.shipperId)
+    );
+
     // Find matching loads and calculate distances
     // FIX: Remove any - type inferred from findMatchingLoads return type
     const matchedLoads = findMatchingLoads(
       truckCriteria,
       loadsCriteria,
-      minScore
+      minScore,
+      weightsFor
     )
       .slice(0, limit)
       .map((load) => {
@@ -346,7 +417,10 @@ export async function GET(
           },
           matchScore: load.matchScore,
           matchReasons: load.matchReasons,
+          matchExplanation: load.matchExplanation,
           isExactMatch: load.isExactMatch,
+          weightProfileId: load.weightProfileId,
+          weightVersion: load.weightVersion,
           // Also include at top level for easy access
           dhToOriginKm,
           dhAfterDeliveryKm,
@@ -411,10 +485,28 @@ export async function GET(
       };
     });
 
+    // Near misses carry no shipper details: the carrier cannot book them
+    const nearMisses = findNearMissLoads(
+      truckCriteria,
+      loadsCriteria,
+      MAX_NEAR_MISSES
+    ).map((load) => ({
+      loadId: load.id,
+      pickupCity: load.pickupCity,
+      deliveryCity: load.deliveryCity,
+      pickupDate: load.pickupDate,
+      truckType: load.truckType,
+      weight: load.weight,
+      dhOriginKm: load.dhOriginKm,
+      constraint: load.nearMissConstraint,
+      reason: load.nearMissReason,
+    }));
+
     return NextResponse.json({
       truckPostingId: id,
       totalMatches: maskedMatches.length,
       matches: maskedMatches,
+      nearMisses,
     });
   } catch (error) {
     return handleApiError(error, "Error finding matching loads");
@@ -26,6 +26,8 @@ import { hasElevatedPermissions } from "@/lib/dispatcherPermissions";
 import { UserRole } from "@prisma/client";
 // P1-001-B FIX: Import CacheInvalidation for update/delete operations
 import { CacheInvalidation } from "@/lib/cache";
+import { geohashOf } from "@/lib/geoIndex";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 import { phoneSchema } from "@/lib/validation";
 
@@ -281,10 +283,11 @@ export async function PATCH(
     }
 
     // Validate city IDs if provided
+    let originGeohash: string | null = null;
     if (data.originCityId) {
       const originCity = await db.ethiopianLocation.findUnique({
         where: { id: data.originCityId },
-        select: { id: true },
+        select: { id: true, latitude: true, longitude: true },
       });
       if (!originCity) {
         return NextResponse.json(
@@ -292,6 +295,7 @@ export async function PATCH(
           { status: 400 }
         );
       }
+      originGeohash = geohashOf(originCity.latitude, originCity.longitude);
     }
     if (data.destinationCityId) {
       const destCity = await db.ethiopianLocation.findUnique({
@@ -336,7 +340,10 @@ export async function PATCH(
       // Update postedAt when posting (changing to ACTIVE)
       ...(isReactivation && { postedAt: new Date() }),
       // Additional fields from frontend
-      ...(data.originCityId && { originCityId: data.originCityId }),
+      ...(data.originCityId && {
+        originCityId: data.originCityId,
+        originGeohash,
+      }),
       ...(data.destinationCityId !== undefined && {
         destinationCityId: data.destinationCityId,
       }),
@@ -421,6 +428,7 @@ export async function PATCH(
       updated.carrierId,
       updated.carrierId
     );
+    await refreshTruckMatches(updated.truckId);
 
     return NextResponse.json(updated);
   } catch (error) {
@@ -541,6 +549,7 @@ export async function DELETE(
       cancelled.carrierId,
       cancelled.carrierId
     );
+    await refreshTruckMatches(cancelled.truckId);
 
     return NextResponse.json({
       message: "Truck posting cancelled successfully",
@@ -3,7 +3,8 @@ export const dynamic = "force-dynamic";
  * Batch Match Counts for Truck Postings
  *
  * Returns match counts for multiple truck postings in a single request.
- * Replaces N+1 individual fetches on the carrier loadboard.
+ * Replaces N+1 individual fetches on the carrier loadboard. Counts are read
+ * from the match index (lib/matchIndex.ts).
  *
  * POST /api/truck-postings/batch-match-counts
  * Body: { postingIds: string[] }
@@ -14,7 +15,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { z } from "zod";
-import { findMatchingLoads } from "@/lib/matchingEngine";
+import { MATCHABLE_LOAD_STATUSES } from "@/lib/matchIndex";
 import { handleApiError } from "@/lib/apiErrors";
 
 const batchSchema = z.object({
@@ -36,7 +37,7 @@ export async function POST(request: NextRequest) {
 
     const { postingIds } = parsed.data;
 
-    // Fetch all requested truck postings
+    // Only the caller's ACTIVE postings get counts
     const postings = await db.truckPosting.findMany({
       where: {
         id: { in: postingIds },
@@ -48,75 +49,19 @@ export async function POST(request: NextRequest) {
             }
           : {}),
       },
-      include: {
-        originCity: {
-          select: { name: true, latitude: true, longitude: true },
-        },
-        destinationCity: {
-          select: { name: true, latitude: true, longitude: true },
-        },
-        truck: {
-          select: { truckType: true, capacity: true, lengthM: true },
-        },
-      },
+      select: { id: true },
     });
 
-    // Fetch all available loads once (shared across all postings)
-    const loads = await db.load.findMany({
+    // Read precomputed matches with loads that are still open
+    const entries = await db.matchIndexEntry.findMany({
       where: {
-        status: { in: ["POSTED", "SEARCHING", "OFFERED"] },
-      },
-      select: {
-        id: true,
-        pickupCity: true,
-        deliveryCity: true,
-        pickupDate: true,
-        truckType: true,
-        weight: true,
-        lengthM: true,
-        fullPartial: true,
-        pickupCityId: true,
-        deliveryCityId: true,
+        truckPostingId: { in: postings.map((p) => p.id) },
+        load: { status: { in: [...MATCHABLE_LOAD_STATUSES] } },
       },
-      take: 500,
+      select: { truckPostingId: true, loadId: true },
     });
 
-    // Get city coordinates for loads
-    const cityIds = new Set<string>();
-    for (const load of loads) {
-      if (load.pickupCityId) cityIds.add(load.pickupCityId);
-      if (load.deliveryCityId) cityIds.add(load.deliveryCityId);
-    }
-    const cities = await db.ethiopianLocation.findMany({
-      where: { id: { in: Array.from(cityIds) } },
-      select: { id: true, name: true, latitude: true, longitude: true },
-    });
-    const cityMap = new Map(cities.map((c) => [c.id, c]));
-
-    const loadsCriteria = loads
-      .filter((l) => l.pickupCity && l.deliveryCity && l.truckType)
-      .map((l) => {
-        const pickup = l.pickupCityId ? cityMap.get(l.pickupCityId) : null;
-        const delivery = l.deliveryCityId
-          ? cityMap.get(l.deliveryCityId)
-          : null;
-        return {
-          id: l.id,
-          pickupCity: l.pickupCity!,
-          pickupCityLat: pickup ? Number(pickup.latitude) : null,
-          pickupCityLon: pickup ? Number(pickup.longitude) : null,
-          deliveryCity: l.deliveryCity!,
-          deliveryCityLat: delivery ? Number(delivery.latitude) : null,
-          deliveryCityLon: delivery ? Number(delivery.longitude) : null,
-          pickupDate: l.pickupDate,
-          truckType: l.truckType,
-          weight: l.weight ? Number(l.weight) : null,
-          lengthM: l.lengthM ? Number(l.lengthM) : null,
-          fullPartial: l.fullPartial,
-        };
-      });
-
-    // Calculate match count per posting + collect unique load IDs
+    // Match count per posting + unique load IDs
     const counts: Record<string, number> = {};
     const allMatchedIds = new Set<string>();
 
@@ -124,39 +69,9 @@ export async function POST(request: NextRequest) {
       counts[id] = 0;
     }
 
-    for (const posting of postings) {
-      const truckCriteria = {
-        id: posting.id,
-        currentCity: posting.originCity?.name || "",
-        currentCityLat: posting.originCity
-          ? Number(posting.originCity.latitude)
-          : null,
-        currentCityLon: posting.originCity
-          ? Number(posting.originCity.longitude)
-          : null,
-        destinationCity: posting.destinationCity?.name || null,
-        destinationCityLat: posting.destinationCity
-          ? Number(posting.destinationCity.latitude)
-          : null,
-        destinationCityLon: posting.destinationCity
-          ? Number(posting.destinationCity.longitude)
-          : null,
-        truckType: posting.truck?.truckType || "",
-        maxWeight: posting.availableWeight
-          ? Number(posting.availableWeight)
-          : null,
-        lengthM: posting.availableLength
-          ? Number(posting.availableLength)
-          : null,
-        fullPartial: posting.fullPartial,
-        availableDate: posting.availableFrom,
-      };
-
-      const matches = findMatchingLoads(truckCriteria, loadsCriteria, 50);
-      counts[posting.id] = matches.length;
-      for (const m of matches) {
-        if (m.id) allMatchedIds.add(m.id);
-      }
+    for (const entry of entries) {
+      counts[entry.truckPostingId] += 1;
+      allMatchedIds.add(entry.loadId);
     }
 
     return NextResponse.json({
@@ -3,9 +3,9 @@ export const dynamic = "force-dynamic";
  * Batch Matching Loads for Truck Postings
  *
  * Returns deduplicated matching loads across multiple truck postings in a
- * single request. Fetches loads from DB **once** and runs the matching
- * engine for each posting — replaces the N+1 pattern where the client
- * called GET /api/truck-postings/[id]/matching-loads per truck.
+ * single request. Matches are read from the match index
+ * (lib/matchIndex.ts) — replaces the N+1 pattern where the client called
+ * GET /api/truck-postings/[id]/matching-loads per truck.
  *
  * POST /api/truck-postings/batch-matching-loads
  * Body: { postingIds: string[], limit?: number }
@@ -16,7 +16,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { requireActiveUser } from "@/lib/auth";
 import { z } from "zod";
-import { findMatchingLoads } from "@/lib/matchingEngine";
+import { MATCHABLE_LOAD_STATUSES } from "@/lib/matchIndex";
 import { calculateDistanceKm } from "@/lib/geo";
 import { handleApiError } from "@/lib/apiErrors";
 import { checkWalletGate } from "@/lib/walletGate";
@@ -84,41 +84,45 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ totalMatches: 0, matches: [] });
     }
 
-    // ── 2. Fetch loads ONCE (shared across all postings) ────────────
-    const loads = await db.load.findMany({
+    // ── 2. Read precomputed matches with loads that are still open ──
+    const entries = await db.matchIndexEntry.findMany({
       where: {
-        status: { in: ["POSTED", "SEARCHING", "OFFERED"] },
+        truckPostingId: { in: postings.map((p) => p.id) },
+        load: { status: { in: [...MATCHABLE_LOAD_STATUSES] } },
       },
-      select: {
-        id: true,
-        status: true,
-        pickupCity: true,
-        deliveryCity: true,
-        pickupDate: true,
-        deliveryDate: true,
-        truckType: true,
-        weight: true,
-        lengthM: true,
-        fullPartial: true,
-        cargoDescription: true,
-        isAnonymous: true,
-        shipperContactName: true,
-        shipperContactPhone: true,
-        currency: true,
-        createdAt: true,
-        postedAt: true,
-        shipperId: true,
-        shipper: {
+      include: {
+        load: {
           select: {
             id: true,
-            name: true,
-            isVerified: true,
-            contactPhone: true,
-            contactEmail: true,
+            status: true,
+            pickupCity: true,
+            deliveryCity: true,
+            pickupDate: true,
+            deliveryDate: true,
+            truckType: true,
+            weight: true,
+            lengthM: true,
+            fullPartial: true,
+            cargoDescription: true,
+            isAnonymous: true,
+            shipperContactName: true,
+            shipperContactPhone: true,
+            currency: true,
+            createdAt: true,
+            postedAt: true,
+            shipperId: true,
+            shipper: {
+              select: {
+                id: true,
+                name: true,
+                isVerified: true,
+                contactPhone: true,
+                contactEmail: true,
+              },
+            },
           },
         },
       },
-      take: 500,
     });
 
     // ── 3. Build city coordinate map ────────────────────────────────
@@ -151,78 +155,32 @@ export async function POST(request: NextRequest) {
       return null;
     };
 
-    // ── 4. Build load criteria (once) ───────────────────────────────
-    const loadsCriteria = loads
-      .filter((l) => l.pickupCity && l.deliveryCity && l.truckType)
-      .map((l) => {
-        const pickupCoords = getCityCoords(l.pickupCity);
-        const deliveryCoords = getCityCoords(l.deliveryCity);
-        return {
-          id: l.id,
-          pickupCity: l.pickupCity!,
-          pickupCityLat: pickupCoords?.lat ?? null,
-          pickupCityLon: pickupCoords?.lon ?? null,
-          deliveryCity: l.deliveryCity!,
-          deliveryCityLat: deliveryCoords?.lat ?? null,
-          deliveryCityLon: deliveryCoords?.lon ?? null,
-          pickupDate: l.pickupDate,
-          truckType: l.truckType,
-          weight: l.weight ? Number(l.weight) : null,
-          lengthM: l.lengthM ? Number(l.lengthM) : null,
-          fullPartial: l.fullPartial,
-          shipper: l.shipper,
-          isAnonymous: l.isAnonymous,
-          shipperContactName: l.shipperContactName,
-          shipperContactPhone: l.shipperContactPhone,
-          currency: l.currency,
-          createdAt: l.createdAt,
-          status: l.status,
-        };
-      });
-
-    // ── 5. Run matching for each posting, deduplicate by load ID ────
+    // ── 4. Deduplicate by load ID, keeping the highest score ────────
+    const postingById = new Map(postings.map((p) => [p.id, p]));
     const matchMap = new Map<
       string,
       {
-        load: (typeof loads)[0];
+        load: (typeof entries)[0]["load"];
         matchScore: number;
         matchReasons: string[];
         isExactMatch: boolean;
         dhOriginKm: number;
+        weightProfileId: string | null;
+        weightVersion: number;
         dhToOriginKm: number;
         dhAfterDeliveryKm: number;
         withinDhLimits: boolean;
       }
     >();
 
-    for (const posting of postings) {
-      const truckCriteria = {
-        id: posting.id,
-        currentCity: posting.originCity?.name || "",
-        currentCityLat: posting.originCity
-          ? Number(posting.originCity.latitude)
-          : null,
-        currentCityLon: posting.originCity
-          ? Number(posting.originCity.longitude)
-          : null,
-        destinationCity: posting.destinationCity?.name || null,
-        destinationCityLat: posting.destinationCity
-          ? Number(posting.destinationCity.latitude)
-          : null,
-        destinationCityLon: posting.destinationCity
-          ? Number(posting.destinationCity.longitude)
-          : null,
-        truckType: posting.truck?.truckType || "",
-        maxWeight: posting.availableWeight
-          ? Number(posting.availableWeight)
-          : null,
-        lengthM: posting.availableLength
-          ? Number(posting.availableLength)
-          : null,
-        fullPartial: posting.fullPartial,
-        availableDate: posting.availableFrom,
-      };
+    for (const entry of entries) {
+      const existing = matchMap.get(entry.loadId);
+      if (existing && existing.matchScore >= entry.score) continue;
 
+      const posting = postingById.get(entry.truckPostingId);
+      if (!posting) continue;
+
+      // ── 5. DH-O / DH-D against the posting's declared limits ──────
       const truckOriginCoords =
         posting.originCity?.latitude && posting.originCity?.longitude
           ? {
@@ -245,55 +203,46 @@ export async function POST(request: NextRequest) {
         ? Number(posting.preferredDhAfterDeliveryKm)
         : null;
 
-      const matched = findMatchingLoads(truckCriteria, loadsCriteria, 50);
-
-      for (const m of matched) {
-        // Deduplicate: keep the highest-scoring match per load
-        const existing = matchMap.get(m.id);
-        if (existing && existing.matchScore >= m.matchScore) continue;
+      const pickupCoords = getCityCoords(entry.load.pickupCity);
+      const deliveryCoords = getCityCoords(entry.load.deliveryCity);
 
-        const fullLoad = loads.find((l) => l.id === m.id);
-        if (!fullLoad) continue;
-
-        const pickupCoords = getCityCoords(m.pickupCity);
-        const deliveryCoords = getCityCoords(m.deliveryCity);
-
-        let dhToOriginKm = 0;
-        if (truckOriginCoords && pickupCoords) {
-          dhToOriginKm = haversineDistance(
-            truckOriginCoords.lat,
-            truckOriginCoords.lon,
-            pickupCoords.lat,
-            pickupCoords.lon
-          );
-        }
+      let dhToOriginKm = 0;
+      if (truckOriginCoords && pickupCoords) {
+        dhToOriginKm = haversineDistance(
+          truckOriginCoords.lat,
+          truckOriginCoords.lon,
+          pickupCoords.lat,
+          pickupCoords.lon
+        );
+      }
 
-        let dhAfterDeliveryKm = 0;
-        if (truckDestCoords && deliveryCoords) {
-          dhAfterDeliveryKm = haversineDistance(
-            deliveryCoords.lat,
-            deliveryCoords.lon,
-            truckDestCoords.lat,
-            truckDestCoords.lon
-          );
-        }
+      let dhAfterDeliveryKm = 0;
+      if (truckDestCoords && deliveryCoords) {
+        dhAfterDeliveryKm = haversineDistance(
+          deliveryCoords.lat,
+          deliveryCoords.lon,
+          truckDestCoords.lat,
+          truckDestCoords.lon
+        );
+      }
 
-        const withinDhOLimit =
-          declaredDhO === null || dhToOriginKm <= declaredDhO;
-        const withinDhDLimit =
-          declaredDhD === null || dhAfterDeliveryKm <= declaredDhD;
+      const withinDhOLimit =
+        declaredDhO === null || dhToOriginKm <= declaredDhO;
+      const withinDhDLimit =
+        declaredDhD === null || dhAfterDeliveryKm <= declaredDhD;
 
-        matchMap.set(m.id, {
-          load: fullLoad,
-          matchScore: m.matchScore,
-          matchReasons: m.matchReasons,
-          isExactMatch: m.isExactMatch,
-          dhOriginKm: m.dhOriginKm,
-          dhToOriginKm,
-          dhAfterDeliveryKm,
-          withinDhLimits: withinDhOLimit && withinDhDLimit,
-        });
-      }
+      matchMap.set(entry.loadId, {
+        load: entry.load,
+        matchScore: entry.score,
+        matchReasons: entry.matchReasons,
+        isExactMatch: entry.isExactMatch,
+        dhOriginKm: entry.dhOriginKm,
+        weightProfileId: entry.weightProfileId,
+        weightVersion: entry.weightVersion,
+        dhToOriginKm,
+        dhAfterDeliveryKm,
+        withinDhLimits: withinDhOLimit && withinDhDLimit,
+      });
     }
 
     // ── 6. Sort and limit ───────────────────────────────────────────
@@ -353,6 +302,8 @@ export async function POST(request: NextRequest) {
         matchScore: match.matchScore,
         matchReasons: match.matchReasons,
         isExactMatch: match.isExactMatch,
+        weightProfileId: match.weightProfileId,
+        weightVersion: match.weightVersion,
         dhToOriginKm: match.dhToOriginKm,
         dhAfterDeliveryKm: match.dhAfterDeliveryKm,
         withinDhLimits: match.withinDhLimits,
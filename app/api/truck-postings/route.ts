@@ -36,6 +36,7 @@ import {
 import { checkRateLimit, RATE_LIMIT_TRUCK_POSTING } from "@/lib/rateLimit";
 import { validateCSRFWithMobile } from "@/lib/csrf";
 import { findMatchingLoads } from "@/lib/matchingEngine";
+import { getMatchWeightsFor } from "@/lib/matchWeights";
 import { hasElevatedPermissions } from "@/lib/dispatcherPermissions";
 import { UserRole } from "@prisma/client";
 import {
@@ -44,10 +45,21 @@ import {
 } from "@/lib/foundation-rules";
 // P1-001 FIX: Import CacheInvalidation for post-creation cache clearing
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
+import {
+  getNetworkShipperIdsByCarrier,
+  isLoadVisible,
+} from "@/lib/carrierNetworks";
 import { handleApiError } from "@/lib/apiErrors";
 import { calculateDistanceKm } from "@/lib/geo";
+import { geohashOf } from "@/lib/geoIndex";
 import { createNotification, NotificationType } from "@/lib/notifications";
 import { checkWalletGate } from "@/lib/walletGate";
+import {
+  activeTripLoadsArgs,
+  getRemainingCapacity,
+  toTruckAssignments,
+} from "@/lib/loadConsolidation";
 
 // Validation schema for truck posting
 const TruckPostingSchema = z.object({
@@ -212,7 +224,7 @@ export async function POST(request: NextRequest) {
         // Validate origin location exists
         db.ethiopianLocation.findUnique({
           where: { id: data.originCityId },
-          select: { isActive: true },
+          select: { isActive: true, latitude: true, longitude: true },
         }),
         // Validate destination location if provided
         data.destinationCityId
@@ -379,6 +391,9 @@ export async function POST(request: NextRequest) {
           carrierId,
           createdById: session.userId,
           originCityId: data.originCityId,
+          originGeohash: originExists
+            ? geohashOf(originExists.latitude, originExists.longitude)
+            : null,
           destinationCityId: data.destinationCityId || null,
           availableFrom: new Date(data.availableFrom),
           availableTo: data.availableTo ? new Date(data.availableTo) : null,
@@ -425,6 +440,7 @@ export async function POST(request: NextRequest) {
     // P1-001 FIX: Cache invalidation after posting creation
     // Ensures new postings appear immediately in searches and matching
     await CacheInvalidation.truck(data.truckId, carrierId);
+    await refreshTruckMatches(data.truckId);
 
     const response = NextResponse.json(posting, { status: 201 });
 
@@ -663,9 +679,10 @@ export async function GET(request: NextRequest) {
       where.createdAt = { gte: cutoff };
     }
 
-    // G-A7-2 + G-A7-3: Exclude trucks on active trips at query level (not just response).
+    // G-A7-2 + G-A7-3: Exclude trucks that cannot take another load at query level.
     // PICKUP_PENDING is included because a truck heading to pickup is already committed.
-    // Uses the Trip relation (hasMany, supports 'none') rather than assignedLoad (one-to-one).
+    // LTL consolidation: a truck carrying only PARTIAL loads stays listed with the
+    // capacity it has left (see the getRemainingCapacity pass below).
     // Merged with truckType filter to avoid silently overwriting where.truck.
     where.truck = {
       ...(truckType ? { truckType } : {}),
@@ -678,15 +695,13 @@ export async function GET(request: NextRequest) {
       ...(companyVerified === "true" ? { carrier: { isVerified: true } } : {}),
       trips: {
         none: {
-          status: {
-            in: [
-              "ASSIGNED",
-              "PICKUP_PENDING",
-              "IN_TRANSIT",
-              "DELIVERED",
-              "EXCEPTION",
-            ],
-          },
+          OR: [
+            { status: "EXCEPTION" },
+            {
+              status: { in: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"] },
+              load: { fullPartial: { not: "PARTIAL" } },
+            },
+          ],
         },
       },
     };
@@ -713,12 +728,14 @@ export async function GET(request: NextRequest) {
                 truckType: true,
                 capacity: true,
                 lengthM: true,
+                volume: true,
                 approvalStatus: true,
+                trips: activeTripLoadsArgs,
                 // H6 FIX: GPS/IMEI fields removed from public response - sensitive operational data
                 // Use /api/carrier/trucks for authenticated access to GPS info
                 // Check if truck has an active load (boolean only — no tracking URLs or route info)
                 // G-A7-3: PICKUP_PENDING included — truck heading to pickup is already committed.
-                assignedLoad: {
+                assignedLoads: {
                   where: {
                     status: {
                       in: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"],
@@ -776,6 +793,24 @@ export async function GET(request: NextRequest) {
           : Promise.resolve(null),
       ]);
 
+    // Keep trucks with room for another load, capped at what they have left
+    // (same rule as GET /api/loads/[id]/matching-trucks)
+    const postingsWithRoom = postings.flatMap((posting) => {
+      const { trips, ...truck } = posting.truck;
+      const remaining = getRemainingCapacity(truck, toTruckAssignments(trips));
+      if (!remaining) return [];
+
+      const availableWeight =
+        trips.length > 0
+          ? Math.min(
+              Number(posting.availableWeight ?? remaining.weightKg),
+              remaining.weightKg
+            )
+          : posting.availableWeight;
+      // Other shippers' loads on the truck are not part of the response
+      return [{ ...posting, availableWeight, truck }];
+    });
+
     // A18: DH-O/DH-D post-filter — only applied when both origin and destination are provided.
     // Blueprint v1.2: load's pickup must fall within truck DH-O radius AND
     // load's delivery must fall within truck DH-D radius.
@@ -798,13 +833,13 @@ export async function GET(request: NextRequest) {
 
     // G-A18-2+G-A18-6: reduce instead of filter so DH distances are available in response
     type PostingTuple = {
-      posting: (typeof postings)[number];
+      posting: (typeof postingsWithRoom)[number];
       dhO: number | null;
       dhD: number | null;
     };
     const filteredWithDistances: PostingTuple[] =
       loadOriginCoords && loadDestCoords
-        ? postings.reduce<PostingTuple[]>((acc, posting) => {
+        ? postingsWithRoom.reduce<PostingTuple[]>((acc, posting) => {
             const truckOriginLat = posting.originCity?.latitude
               ? Number(posting.originCity.latitude)
               : null;
@@ -860,7 +895,11 @@ export async function GET(request: NextRequest) {
             }
             return acc;
           }, [])
-        : postings.map((posting) => ({ posting, dhO: null, dhD: null }));
+        : postingsWithRoom.map((posting) => ({
+            posting,
+            dhO: null,
+            dhD: null,
+          }));
 
     // G-M15-1: When DH filter is active, paginate the filtered results.
     // filteredWithDistances contains ALL matching records (up to 500);
@@ -911,6 +950,9 @@ export async function GET(request: NextRequest) {
           weight: true,
           lengthM: true,
           fullPartial: true,
+          shipperId: true,
+          visibility: true,
+          publicAt: true,
         },
         take: 1000,
         orderBy: { createdAt: "desc" }, // Most recent loads first
@@ -929,7 +971,17 @@ export async function GET(request: NextRequest) {
           weight: load.weight ? Number(load.weight) : null,
           lengthM: load.lengthM ? Number(load.lengthM) : null,
           fullPartial: load.fullPartial,
+          shipperId: load.shipperId,
+          visibility: load.visibility,
+          publicAt: load.publicAt,
         }));
+      const weightsFor = await getMatchWeightsFor(
+        loadsCriteria.map((load) => load.shipperId)
+      );
+      // Private load board: count only loads each posting's carrier may see
+      const networkByCarrier = await getNetworkShipperIdsByCarrier([
+        ...new Set(transformedPostings.map((posting) => posting.carrierId)),
+      ]);
 
       // Limit match count calculation to first 50 postings to prevent O(n*m) performance issues
       postingsWithMatchCount = transformedPostings.map((posting, index) => {
@@ -948,7 +1000,15 @@ export async function GET(request: NextRequest) {
           fullPartial: posting.fullPartial,
         };
 
-        const matches = findMatchingLoads(truckCriteria, loadsCriteria, 50);
+        const networkShipperIds = networkByCarrier.get(posting.carrierId);
+        const matches = findMatchingLoads(
+          truckCriteria,
+          loadsCriteria.filter((load) =>
+            isLoadVisible(load, networkShipperIds ?? [])
+          ),
+          50,
+          weightsFor
+        );
 
         return {
           ...posting,
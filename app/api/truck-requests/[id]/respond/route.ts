@@ -28,8 +28,18 @@ import {
 import crypto from "crypto";
 // P0-003 FIX: Import CacheInvalidation for post-approval cache clearing
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches, refreshTruckMatches } from "@/lib/matchIndex";
+import { advanceTender } from "@/lib/routingGuides";
 import { handleApiError } from "@/lib/apiErrors";
+import { queueRateConfirmation } from "@/lib/rateConfirmation";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+  hasConsolidationCapacity,
+  linkConsolidatedTrip,
+} from "@/lib/loadConsolidation";
+import { resetStopExecution } from "@/lib/loadStops";
 
 // Validation schema for request response
 const RequestResponseSchema = z.object({
@@ -254,6 +264,9 @@ export async function POST(
               destinationLon: true,
               tripKm: true,
               estimatedTripKm: true,
+              weight: true,
+              volume: true,
+              fullPartial: true,
             },
           });
 
@@ -272,33 +285,43 @@ export async function POST(
           }
 
           // Check if truck is already assigned to another active load
-          const existingAssignment = await tx.load.findFirst({
-            where: {
-              assignedTruckId: truckRequest.truckId,
-              status: {
-                notIn: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+          // (LTL: PARTIAL loads may share the truck while capacity remains)
+          const { fit, assignments } = await checkTruckCanTakeLoad(
+            truckRequest.truckId,
+            freshLoad,
+            tx
+          );
+          if (!fit.ok) {
+            if (fit.reason === "TRUCK_CAPACITY_EXCEEDED") {
+              throw new Error("TRUCK_CAPACITY_EXCEEDED");
+            }
+            const existingAssignment = await tx.load.findFirst({
+              where: {
+                assignedTruckId: truckRequest.truckId,
+                status: {
+                  notIn: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+                },
               },
-            },
-            select: {
-              id: true,
-              pickupCity: true,
-              deliveryCity: true,
-              status: true,
-            },
-          });
-
-          if (existingAssignment) {
+              select: {
+                id: true,
+                pickupCity: true,
+                deliveryCity: true,
+                status: true,
+              },
+            });
             throw new Error(
-              `TRUCK_BUSY:${existingAssignment.pickupCity}:${existingAssignment.deliveryCity}`
+              `TRUCK_BUSY:${existingAssignment?.pickupCity ?? "?"}:${existingAssignment?.deliveryCity ?? "?"}`
             );
           }
+          const truckFull = !hasConsolidationCapacity(fit);
 
-          // Unassign truck from any completed loads
+          // Unassign truck from any completed loads (DELIVERED loads may still
+          // share a consolidated run and keep their truck for fee settlement)
           await tx.load.updateMany({
             where: {
               assignedTruckId: truckRequest.truckId,
               status: {
-                in: ["DELIVERED", "COMPLETED", "CANCELLED", "EXPIRED"],
+                in: ["COMPLETED", "CANCELLED", "EXPIRED"],
               },
             },
             data: { assignedTruckId: null },
@@ -322,6 +345,7 @@ export async function POST(
               assignedTruckId: truckRequest.truckId,
               assignedAt: new Date(),
               status: "ASSIGNED",
+              tenderRank: null,
             },
           });
 
@@ -361,6 +385,10 @@ export async function POST(
               trackingEnabled: true,
             },
           });
+          await linkConsolidatedTrip(tx, assignments, trip.id);
+
+          // Multi-stop: a new trip starts with no stop arrivals
+          await resetStopExecution(truckRequest.loadId, tx);
 
           // Create load event
           await tx.loadEvent.create({
@@ -387,14 +415,16 @@ export async function POST(
             },
             select: { shipperId: true },
           });
-          const pendingTruckReqsForTruck = await tx.truckRequest.findMany({
-            where: {
-              truckId: truckRequest.truckId,
-              id: { not: requestId },
-              status: "PENDING",
-            },
-            select: { shipperId: true },
-          });
+          const pendingTruckReqsForTruck = truckFull
+            ? await tx.truckRequest.findMany({
+                where: {
+                  truckId: truckRequest.truckId,
+                  id: { not: requestId },
+                  status: "PENDING",
+                },
+                select: { shipperId: true },
+              })
+            : [];
           const pendingTruckReqsToCancel = [
             ...pendingTruckReqsForLoad,
             ...pendingTruckReqsForTruck,
@@ -437,27 +467,34 @@ export async function POST(
           });
 
           // Mark truck posting as MATCHED so it disappears from loadboard
-          await tx.truckPosting.updateMany({
-            where: { truckId: truckRequest.truckId, status: "ACTIVE" },
-            data: { status: "MATCHED", updatedAt: new Date() },
-          });
-          // Mark truck as unavailable
-          await tx.truck.update({
-            where: { id: truckRequest.truckId },
-            data: { isAvailable: false },
-          });
+          // (stays ACTIVE while capacity remains for PARTIAL loads)
+          if (truckFull) {
+            await tx.truckPosting.updateMany({
+              where: { truckId: truckRequest.truckId, status: "ACTIVE" },
+              data: { status: "MATCHED", updatedAt: new Date() },
+            });
+          }
+          // Mark truck as unavailable once it has no room for another load
+          if (truckFull) {
+            await tx.truck.update({
+              where: { id: truckRequest.truckId },
+              data: { isAvailable: false },
+            });
+          }
 
           // G-A8-2: Cancel all other pending truck requests for the same truck
           // (different shippers targeting this truck for different loads).
           // The truck is now committed — those requests can never be approved.
-          await tx.truckRequest.updateMany({
-            where: {
-              truckId: truckRequest.truckId,
-              id: { not: requestId },
-              status: "PENDING",
-            },
-            data: { status: "CANCELLED" },
-          });
+          if (truckFull) {
+            await tx.truckRequest.updateMany({
+              where: {
+                truckId: truckRequest.truckId,
+                id: { not: requestId },
+                status: "PENDING",
+              },
+              data: { status: "CANCELLED" },
+            });
+          }
 
           return {
             request: updatedRequest,
@@ -476,10 +513,12 @@ export async function POST(
           truckRequest.loadId,
           truckRequest.load.shipperId
         );
+        await refreshLoadMatches(truckRequest.loadId);
         await CacheInvalidation.truck(
           truckRequest.truckId,
           truckRequest.truck.carrierId
         );
+        await refreshTruckMatches(truckRequest.truckId);
 
         // Non-critical: Notify parties whose competing requests were cancelled (fire-and-forget)
         Promise.all([
@@ -533,6 +572,15 @@ export async function POST(
             );
         }
 
+        // Non-critical: Rate confirmation PDF, generated on the pdf queue (fire-and-forget)
+        queueRateConfirmation({
+          loadId: truckRequest.loadId,
+          requestType: "TRUCK_REQUEST",
+          requestId,
+        }).catch((err) =>
+          console.error("Failed to queue rate confirmation:", err)
+        );
+
         // Non-critical: Send notification (fire-and-forget)
         if (truckRequest.shipper?.id) {
           notifyTruckRequestResponse({
@@ -592,6 +640,12 @@ export async function POST(
             { status: 400 }
           );
         }
+        if (errorMessage === "TRUCK_CAPACITY_EXCEEDED") {
+          return NextResponse.json(
+            { error: consolidationErrorMessage("TRUCK_CAPACITY_EXCEEDED") },
+            { status: 409 }
+          );
+        }
         throw error; // Re-throw for generic error handling
       }
     } else {
@@ -625,6 +679,7 @@ export async function POST(
         // The load was set to OFFERED when the first truck request was created (G-A8-3).
         // If this rejection leaves zero pending requests, the load is effectively back in
         // the open market and should appear as POSTED on the loadboard.
+        // Routing guide tenders move on to the next carrier instead (below).
         const remainingPending = await tx.truckRequest.count({
           where: {
             loadId: truckRequest.loadId,
@@ -632,7 +687,11 @@ export async function POST(
             status: "PENDING",
           },
         });
-        if (remainingPending === 0 && truckRequest.load.status === "OFFERED") {
+        if (
+          remainingPending === 0 &&
+          truckRequest.load.status === "OFFERED" &&
+          truckRequest.tenderRank == null
+        ) {
           await tx.load.update({
             where: { id: truckRequest.loadId },
             data: { status: "POSTED" },
@@ -647,6 +706,12 @@ export async function POST(
         truckRequest.loadId,
         truckRequest.load?.shipperId
       );
+      await refreshLoadMatches(truckRequest.loadId);
+
+      // Routing guide tender: offer the load to the next preferred carrier
+      if (truckRequest.tenderRank != null) {
+        await advanceTender(truckRequest.loadId);
+      }
 
       // Non-critical: Send notification to shipper (fire-and-forget, outside transaction)
       if (truckRequest.shipper?.id) {
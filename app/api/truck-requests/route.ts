@@ -31,6 +31,12 @@ import { handleApiError } from "@/lib/apiErrors";
 import { CacheInvalidation } from "@/lib/cache";
 import { checkWalletGate } from "@/lib/walletGate";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import {
+  activeTripLoadsArgs,
+  checkConsolidationFit,
+  consolidationErrorMessage,
+  toTruckAssignments,
+} from "@/lib/loadConsolidation";
 
 // Validation schema for truck request
 // Note: No offeredRate field - price negotiation happens outside platform
@@ -113,6 +119,9 @@ export async function POST(request: NextRequest) {
         status: true,
         shipperId: true,
         assignedTruckId: true,
+        weight: true,
+        volume: true,
+        fullPartial: true,
         shipper: {
           select: {
             name: true,
@@ -171,6 +180,8 @@ export async function POST(request: NextRequest) {
         licensePlate: true,
         approvalStatus: true,
         insuranceStatus: true,
+        capacity: true,
+        volume: true,
         postings: {
           where: { status: "ACTIVE" },
           select: { id: true },
@@ -178,22 +189,9 @@ export async function POST(request: NextRequest) {
         },
         // G-A7-5: Fetch active trips to reject requests for busy trucks.
         // G-A7-3: PICKUP_PENDING included — truck heading to pickup is already committed.
-        // Uses trips (hasMany) rather than assignedLoad (one-to-one) for proper filtering.
-        trips: {
-          where: {
-            status: {
-              in: [
-                "ASSIGNED",
-                "PICKUP_PENDING",
-                "IN_TRANSIT",
-                "DELIVERED",
-                "EXCEPTION",
-              ],
-            },
-          },
-          select: { id: true },
-          take: 1,
-        },
+        // Uses trips (hasMany) rather than assignedLoads so trip status drives the check.
+        // LTL: trip load sizes decide whether a PARTIAL load still fits.
+        trips: activeTripLoadsArgs,
       },
     });
 
@@ -234,12 +232,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // G-A7-5: Reject requests for trucks already on an active trip.
-    if (truck.trips.length > 0) {
+    // G-A7-5: Reject requests for trucks already on an active trip,
+    // unless the load is PARTIAL and fits the truck's remaining capacity.
+    const fit = checkConsolidationFit(
+      truck,
+      toTruckAssignments(truck.trips),
+      load
+    );
+    if (!fit.ok) {
       return NextResponse.json(
-        {
-          error: "Truck is currently on an active trip and cannot be requested",
-        },
+        { error: consolidationErrorMessage(fit.reason) },
         { status: 409 }
       );
     }
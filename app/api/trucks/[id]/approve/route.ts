@@ -19,6 +19,7 @@ import { createNotification, NotificationType } from "@/lib/notifications";
 import { UserRole } from "@prisma/client";
 // P1-001-B FIX: Import CacheInvalidation for approval status changes
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import { sendEmail, createEmailHTML } from "@/lib/email";
 // CSRF FIX: Add CSRF validation
 import { validateCSRFWithMobile } from "@/lib/csrf";
@@ -234,6 +235,7 @@ export async function POST(
         updatedTruck.carrierId,
         updatedTruck.carrierId
       );
+      await refreshTruckMatches(updatedTruck.id);
 
       // G-A2-6: Audit log for truck approval
       await writeAuditLog({
@@ -419,6 +421,7 @@ export async function POST(
         updatedTruck.carrierId,
         updatedTruck.carrierId
       );
+      await refreshTruckMatches(updatedTruck.id);
 
       // G-A2-6: Audit log for truck rejection
       await writeAuditLog({
@@ -11,6 +11,7 @@ import { validateCSRFWithMobile } from "@/lib/csrf";
 import { z } from "zod";
 import { getTruckCurrentLocation } from "@/lib/deadheadOptimization";
 import { handleApiError } from "@/lib/apiErrors";
+import { geohashOf } from "@/lib/geoIndex";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { CacheInvalidation } from "@/lib/cache";
 
@@ -86,6 +87,7 @@ export async function PATCH(
       data: {
         currentLocationLat: latitude,
         currentLocationLon: longitude,
+        currentLocationGeohash: geohashOf(latitude, longitude),
         currentCity: currentCity || undefined,
         currentRegion: currentRegion || undefined,
         locationUpdatedAt: new Date(),
@@ -9,6 +9,7 @@ import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { TripStatus, Prisma } from "@prisma/client";
 // P1-001-B FIX: Import CacheInvalidation for update/delete operations
 import { CacheInvalidation } from "@/lib/cache";
+import { refreshTruckMatches } from "@/lib/matchIndex";
 import { logger } from "@/lib/logger";
 import { createNotification, NotificationType } from "@/lib/notifications";
 import { TRUCK_TYPE_VALUES } from "@/lib/constants/truckTypes";
@@ -285,6 +286,7 @@ export async function PATCH(
       updatedTruck.carrierId,
       updatedTruck.carrierId
     );
+    await refreshTruckMatches(updatedTruck.id);
 
     return NextResponse.json(updatedTruck);
   } catch (error) {
@@ -430,6 +432,7 @@ export async function DELETE(
 
     // P1-001-B FIX: Invalidate cache after truck deletion to remove stale data
     await CacheInvalidation.truck(truck.id, truck.carrierId, truck.carrierId);
+    await refreshTruckMatches(truck.id);
 
     return NextResponse.json({
       success: true,
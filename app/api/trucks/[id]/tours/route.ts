@@ -0,0 +1,93 @@
+export const dynamic = "force-dynamic";
+/**
+ * Truck Tour Planner API
+ *
+ * GET /api/trucks/[id]/tours - Chains of 2-4 open loads the truck can haul
+ *     back to back from its current location (lib/tourPlanner.ts)
+ *     Query: horizonDays (1-7, default 3), maxLoads (2-4, default 3),
+ *     maxDeadheadKm (per empty leg, default 200), limit (default 10)
+ *
+ * Request a tour's loads with POST /api/load-requests/chain.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { requireActiveUser } from "@/lib/auth";
+import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
+import { handleApiError } from "@/lib/apiErrors";
+import { checkWalletGate } from "@/lib/walletGate";
+import { planTours, tourQuerySchema } from "@/lib/tourPlanner";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "unknown";
+    const rpsResult = await checkRpsLimit(
+      "truck-tours",
+      ip,
+      RPS_CONFIGS.dashboard.rps,
+      RPS_CONFIGS.dashboard.burst
+    );
+    if (!rpsResult.allowed) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please slow down." },
+        { status: 429 }
+      );
+    }
+
+    const session = await requireActiveUser();
+
+    // A4: Block marketplace search if wallet below minimum (Blueprint §8)
+    const gateError = await checkWalletGate({
+      userId: session.userId,
+      role: session.role,
+      organizationId: session.organizationId,
+    });
+    if (gateError) return gateError;
+
+    const { id: truckId } = await params;
+
+    const truck = await db.truck.findUnique({
+      where: { id: truckId },
+      select: { id: true, carrierId: true },
+    });
+
+    // Only the truck's carrier or an admin can plan its tours
+    const isOwner =
+      session.role === "CARRIER" && session.organizationId === truck?.carrierId;
+    const isAdmin = session.role === "ADMIN" || session.role === "SUPER_ADMIN";
+
+    if (!truck || (!isOwner && !isAdmin)) {
+      return NextResponse.json({ error: "Truck not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = tourQuerySchema.safeParse({
+      horizonDays: searchParams.get("horizonDays") || undefined,
+      maxLoads: searchParams.get("maxLoads") || undefined,
+      maxDeadheadKm: searchParams.get("maxDeadheadKm") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+    if (!parsed.success) {
+      const { zodErrorResponse } = await import("@/lib/validation");
+      return zodErrorResponse(parsed.error);
+    }
+
+    const result = await planTours(truckId, parsed.data);
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.plan);
+  } catch (error) {
+    return handleApiError(error, "Truck tour planning error");
+  }
+}
@@ -16,6 +16,8 @@ import { TruckCache, CacheInvalidation } from "@/lib/cache";
 import { checkRpsLimit, RPS_CONFIGS } from "@/lib/rateLimit";
 import { Prisma } from "@prisma/client";
 import { handleApiError } from "@/lib/apiErrors";
+import { calculateDistanceKm } from "@/lib/geo";
+import { withinRadius } from "@/lib/geoIndex";
 import { sanitizeText, zodErrorResponse, phoneSchema } from "@/lib/validation";
 import { checkWalletGate } from "@/lib/walletGate";
 import { TRUCK_TYPE_VALUES } from "@/lib/constants/truckTypes";
@@ -266,6 +268,19 @@ export async function GET(request: NextRequest) {
     const approvalStatus = searchParams.get("approvalStatus"); // Sprint 18: Filter by approval status
     const hasActivePosting = searchParams.get("hasActivePosting"); // Filter by active posting status
 
+    // Radius search on current location: nearLat, nearLon, radiusKm (1-2000)
+    const nearLat = parseFloat(searchParams.get("nearLat") || "");
+    const nearLon = parseFloat(searchParams.get("nearLon") || "");
+    const radiusKmRaw = parseFloat(searchParams.get("radiusKm") || "");
+    const radiusKm =
+      Number.isFinite(nearLat) &&
+      Number.isFinite(nearLon) &&
+      Math.abs(nearLat) <= 90 &&
+      Math.abs(nearLon) <= 180 &&
+      Number.isFinite(radiusKmRaw)
+        ? Math.min(Math.max(radiusKmRaw, 1), 2000)
+        : undefined;
+
     // PHASE 4: Build cache key from filter parameters
     const cacheFilters = {
       page,
@@ -276,6 +291,9 @@ export async function GET(request: NextRequest) {
       carrierId,
       approvalStatus,
       hasActivePosting,
+      nearLat: radiusKm !== undefined ? nearLat : undefined,
+      nearLon: radiusKm !== undefined ? nearLon : undefined,
+      radiusKm,
       role: session.role,
       orgId: session.organizationId,
     };
@@ -390,62 +408,96 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    const [trucks, total] = await Promise.all([
-      db.truck.findMany({
-        where,
-        include: {
-          carrier: {
-            select: {
-              id: true,
-              name: true,
-              isVerified: true,
-            },
-          },
-          gpsDevice: {
-            select: {
-              id: true,
-              imei: true,
-              status: true,
-              lastSeenAt: true,
-            },
-          },
-          // §7 V1-V3: Include postings (all recent statuses) + active trips for dispatcher badges
-          postings: {
-            where: { status: { in: ["ACTIVE", "MATCHED", "EXPIRED"] } },
-            select: {
-              id: true,
-              status: true,
-              originCityId: true,
-              availableFrom: true,
-            },
-            orderBy: { createdAt: "desc" as const },
-            take: 1,
-          },
-          trips: {
-            where: {
-              status: {
-                in: [
-                  "ASSIGNED",
-                  "PICKUP_PENDING",
-                  "IN_TRANSIT",
-                  "DELIVERED",
-                  "EXCEPTION",
-                ],
-              },
-            },
-            select: { id: true, status: true },
-            orderBy: { createdAt: "desc" as const },
-            take: 1,
-          },
+    const truckInclude = {
+      carrier: {
+        select: {
+          id: true,
+          name: true,
+          isVerified: true,
         },
-        skip: (page - 1) * limit,
-        take: limit,
-        orderBy: {
-          createdAt: "desc",
+      },
+      gpsDevice: {
+        select: {
+          id: true,
+          imei: true,
+          status: true,
+          lastSeenAt: true,
         },
-      }),
-      db.truck.count({ where }),
-    ]);
+      },
+      // §7 V1-V3: Include postings (all recent statuses) + active trips for dispatcher badges
+      postings: {
+        where: { status: { in: ["ACTIVE", "MATCHED", "EXPIRED"] } },
+        select: {
+          id: true,
+          status: true,
+          originCityId: true,
+          availableFrom: true,
+        },
+        orderBy: { createdAt: "desc" as const },
+        take: 1,
+      },
+      trips: {
+        where: {
+          status: {
+            in: [
+              "ASSIGNED",
+              "PICKUP_PENDING",
+              "IN_TRANSIT",
+              "DELIVERED",
+              "EXCEPTION",
+            ],
+          },
+        },
+        select: { id: true, status: true },
+        orderBy: { createdAt: "desc" as const },
+        take: 1,
+      },
+    } satisfies Prisma.TruckInclude;
+
+    let trucks: Prisma.TruckGetPayload<{ include: typeof truckInclude }>[];
+    let total: number;
+
+    if (radiusKm !== undefined) {
+      // The geohash index narrows to trucks near the point; exact distances
+      // are then checked in memory, closest first
+      Object.assign(
+        where,
+        withinRadius("currentLocationGeohash", nearLat, nearLon, radiusKm)
+      );
+      where.currentLocationLat = { not: null };
+      const nearby = (
+        await db.truck.findMany({ where, include: truckInclude, take: 500 })
+      )
+        .filter((truck) => truck.currentLocationLat != null)
+        .map((truck) => ({
+          truck,
+          distanceKm: calculateDistanceKm(
+            nearLat,
+            nearLon,
+            Number(truck.currentLocationLat),
+            Number(truck.currentLocationLon)
+          ),
+        }))
+        .filter((t) => t.distanceKm <= radiusKm)
+        .sort((a, b) => a.distanceKm - b.distanceKm);
+      total = nearby.length;
+      trucks = nearby
+        .slice((page - 1) * limit, page * limit)
+        .map((t) => t.truck);
+    } else {
+      [trucks, total] = await Promise.all([
+        db.truck.findMany({
+          where,
+          include: truckInclude,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: {
+            createdAt: "desc",
+          },
+        }),
+        db.truck.count({ where }),
+      ]);
+    }
 
     // Add hasActivePosting flag and strip sensitive GPS data for non-owners
     const isCarrierRole = session.role === "CARRIER";
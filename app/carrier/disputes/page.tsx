@@ -35,6 +35,7 @@ const TYPE_LABELS: Record<string, string> = {
   DAMAGE: "Damage",
   LATE_DELIVERY: "Late Delivery",
   QUALITY_ISSUE: "Quality Issue",
+  DETENTION: "Detention",
   OTHER: "Other",
 };
 
@@ -49,9 +49,37 @@ interface LoadMatch {
   };
   matchScore: number;
   matchReasons: string[];
+  matchExplanation?: MatchFactorExplanation[];
   distance: number;
 }
 
+interface MatchFactorExplanation {
+  factor: string;
+  points: number;
+  maxPoints: number;
+  summary: string;
+}
+
+interface NearMiss {
+  loadId: string;
+  pickupCity: string;
+  deliveryCity: string;
+  pickupDate: string | null;
+  truckType: string;
+  weight: number | null;
+  dhOriginKm: number;
+  reason: string;
+}
+
+const FACTOR_LABELS: Record<string, string> = {
+  route: "Route",
+  time: "Timing",
+  capacity: "Capacity",
+  deadhead: "Empty miles",
+  reliability: "Reliability",
+  truckType: "Truck type",
+};
+
 function formatDate(dateString: string): string {
   const date = new Date(dateString);
   return new Intl.DateTimeFormat("en-US", {
@@ -83,6 +111,7 @@ export default function LoadMatchesClient({
 }) {
   const [selectedPosting, setSelectedPosting] = useState<string>("");
   const [matches, setMatches] = useState<LoadMatch[]>([]);
+  const [nearMisses, setNearMisses] = useState<NearMiss[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [minScore, setMinScore] = useState(40);
@@ -93,6 +122,7 @@ export default function LoadMatchesClient({
   const fetchMatches = async (postingId: string) => {
     setIsLoading(true);
     setMatches([]);
+    setNearMisses([]);
     setError(null);
 
     try {
@@ -109,6 +139,7 @@ export default function LoadMatchesClient({
       } else if (response.ok) {
         const data = await response.json();
         setMatches(data.matches || []);
+        setNearMisses(data.nearMisses || []);
       } else {
         console.error("Failed to fetch matches");
         setError("Failed to load matching loads. Please try again.");
@@ -130,6 +161,7 @@ export default function LoadMatchesClient({
       fetchMatches(postingId);
     } else {
       setMatches([]);
+      setNearMisses([]);
     }
   };
 
@@ -374,6 +406,33 @@ export default function LoadMatchesClient({
                         </div>
                       )}
 
+                      {/* Score Breakdown */}
+                      {match.matchExplanation &&
+                        match.matchExplanation.length > 0 && (
+                          <div className="mb-4">
+                            <div className="mb-2 text-xs text-gray-500">
+                              Score breakdown:
+                            </div>
+                            <ul className="space-y-1 text-sm">
+                              {match.matchExplanation.map((factor) => (
+                                <li
+                                  key={factor.factor}
+                                  className="flex gap-3 text-gray-700"
+                                >
+                                  <span className="w-32 flex-shrink-0 font-medium">
+                                    {FACTOR_LABELS[factor.factor] ??
+                                      factor.factor}{" "}
+                                    {factor.points}/{factor.maxPoints}
+                                  </span>
+                                  <span className="text-gray-600">
+                                    {factor.summary}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
                       {/* Contact Info */}
                       {match.load.shipperContactName &&
                         match.load.shipperContactPhone && (
@@ -431,6 +490,44 @@ export default function LoadMatchesClient({
             </div>
           )}
 
+          {/* Near Misses */}
+          {!isLoading && !error && selectedPosting && nearMisses.length > 0 && (
+            <div className="overflow-hidden rounded-lg bg-white shadow">
+              <div className="border-b border-gray-200 px-6 py-4">
+                <h2 className="text-xl font-semibold text-gray-900">
+                  Near Misses ({nearMisses.length})
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Loads left out by a single requirement this truck does not
+                  meet
+                </p>
+              </div>
+              <ul className="divide-y divide-gray-200">
+                {nearMisses.map((miss) => (
+                  <li
+                    key={miss.loadId}
+                    className="flex flex-wrap justify-between gap-2 px-6 py-3 text-sm"
+                  >
+                    <span className="font-medium text-gray-900">
+                      {miss.pickupCity} → {miss.deliveryCity}
+                      <span className="ml-2 font-normal text-gray-500">
+                        {miss.truckType.replace(/_/g, " ")}
+                        {miss.weight
+                          ? ` • ${miss.weight.toLocaleString()} kg`
+                          : ""}
+                        {miss.pickupDate
+                          ? ` • ${formatDate(miss.pickupDate)}`
+                          : ""}{" "}
+                        • {miss.dhOriginKm} km away
+                      </span>
+                    </span>
+                    <span className="text-amber-700">{miss.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Instructions */}
           {!selectedPosting && !isLoading && (
             <div className="rounded-lg border border-blue-200 bg-blue-50 p-6">
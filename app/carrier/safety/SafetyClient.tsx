@@ -0,0 +1,224 @@
+/**
+ * Carrier Driver Safety Client Component
+ *
+ * Shows the fleet scorecard and one row per driver
+ * (GET /api/carrier/safety), worst score first.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+
+type SafetyEventType =
+  | "SPEEDING"
+  | "HARSH_ACCELERATION"
+  | "HARSH_BRAKING"
+  | "LONG_DRIVING";
+
+interface Scorecard {
+  score: number;
+  distanceKm: number;
+  events: number;
+  severeEvents: number;
+  byType: Record<SafetyEventType, number>;
+}
+
+interface DriverRow extends Scorecard {
+  driverId: string;
+  name: string;
+}
+
+interface CarrierSafety {
+  days: number;
+  scorecard: Scorecard;
+  drivers: DriverRow[];
+}
+
+const EVENT_LABELS: Record<SafetyEventType, string> = {
+  SPEEDING: "Speeding",
+  HARSH_ACCELERATION: "Harsh acceleration",
+  HARSH_BRAKING: "Harsh braking",
+  LONG_DRIVING: "Long driving",
+};
+
+const scoreColor = (score: number) =>
+  score >= 90
+    ? "text-emerald-600"
+    : score >= 75
+      ? "text-amber-600"
+      : "text-rose-600";
+
+export default function SafetyClient() {
+  const [days, setDays] = useState("30");
+  const [data, setData] = useState<CarrierSafety | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchScorecard = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/carrier/safety?days=${days}`, {
+        credentials: "include",
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to load scorecard");
+      setData(json);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchScorecard();
+  }, [fetchScorecard]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-end">
+        <select
+          value={days}
+          onChange={(e) => setDays(e.target.value)}
+          className="rounded-lg border border-slate-300 px-3 py-2 text-sm"
+        >
+          <option value="7">Last 7 days</option>
+          <option value="30">Last 30 days</option>
+          <option value="90">Last 90 days</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded-lg border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+
+      {loading && !data ? (
+        <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500">
+          Loading scorecard...
+        </div>
+      ) : (
+        data && (
+          <>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div className="rounded-xl border border-slate-200 bg-white p-4">
+                <p className="text-sm text-slate-500">Fleet score</p>
+                <p
+                  className={`text-3xl font-bold ${scoreColor(data.scorecard.score)}`}
+                >
+                  {data.scorecard.score}
+                </p>
+              </div>
+              <div className="rounded-xl border border-slate-200 bg-white p-4">
+                <p className="text-sm text-slate-500">Events</p>
+                <p className="text-3xl font-bold text-slate-800">
+                  {data.scorecard.events}
+                </p>
+              </div>
+              <div className="rounded-xl border border-slate-200 bg-white p-4">
+                <p className="text-sm text-slate-500">Severe events</p>
+                <p className="text-3xl font-bold text-rose-600">
+                  {data.scorecard.severeEvents}
+                </p>
+              </div>
+              <div className="rounded-xl border border-slate-200 bg-white p-4">
+                <p className="text-sm text-slate-500">Distance driven</p>
+                <p className="text-3xl font-bold text-slate-800">
+                  {data.scorecard.distanceKm.toLocaleString()}
+                  <span className="ml-1 text-base font-normal text-slate-500">
+                    km
+                  </span>
+                </p>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-4">
+              <h2 className="mb-3 text-sm font-semibold text-slate-700">
+                Events by type
+              </h2>
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                {(Object.keys(EVENT_LABELS) as SafetyEventType[]).map(
+                  (type) => (
+                    <div key={type}>
+                      <p className="text-xs text-slate-500">
+                        {EVENT_LABELS[type]}
+                      </p>
+                      <p className="text-xl font-semibold text-slate-800">
+                        {data.scorecard.byType[type]}
+                      </p>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+
+            <div className="overflow-hidden rounded-xl border border-slate-200 bg-white">
+              <table className="min-w-full divide-y divide-slate-200 text-sm">
+                <thead className="bg-slate-50 text-left text-xs font-medium text-slate-500 uppercase">
+                  <tr>
+                    <th className="px-4 py-3">Driver</th>
+                    <th className="px-4 py-3">Score</th>
+                    <th className="px-4 py-3">Events</th>
+                    <th className="px-4 py-3">Severe</th>
+                    <th className="px-4 py-3">Speeding</th>
+                    <th className="px-4 py-3">Harsh</th>
+                    <th className="px-4 py-3">Long driving</th>
+                    <th className="px-4 py-3">Distance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {data.drivers.length === 0 ? (
+                    <tr>
+                      <td
+                        colSpan={8}
+                        className="px-4 py-6 text-center text-slate-500"
+                      >
+                        No drivers yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    data.drivers.map((driver) => (
+                      <tr key={driver.driverId}>
+                        <td className="px-4 py-3">
+                          <Link
+                            href={`/carrier/drivers/${driver.driverId}`}
+                            className="font-medium text-teal-600 hover:underline"
+                          >
+                            {driver.name || "Unnamed driver"}
+                          </Link>
+                        </td>
+                        <td
+                          className={`px-4 py-3 font-semibold ${scoreColor(driver.score)}`}
+                        >
+                          {driver.score}
+                        </td>
+                        <td className="px-4 py-3">{driver.events}</td>
+                        <td className="px-4 py-3 text-rose-600">
+                          {driver.severeEvents}
+                        </td>
+                        <td className="px-4 py-3">{driver.byType.SPEEDING}</td>
+                        <td className="px-4 py-3">
+                          {driver.byType.HARSH_ACCELERATION +
+                            driver.byType.HARSH_BRAKING}
+                        </td>
+                        <td className="px-4 py-3">
+                          {driver.byType.LONG_DRIVING}
+                        </td>
+                        <td className="px-4 py-3">
+                          {driver.distanceKm.toLocaleString()} km
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
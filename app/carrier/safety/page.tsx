@@ -0,0 +1,36 @@
+/**
+ * Carrier Driver Safety Page
+ *
+ * Safety scorecard of the fleet and of each driver, from speeding, harsh
+ * driving and long driving detected in trip GPS data.
+ */
+
+import { requireAuth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import SafetyClient from "./SafetyClient";
+
+export default async function CarrierSafetyPage() {
+  const session = await requireAuth();
+
+  if (
+    session.role !== "CARRIER" &&
+    session.role !== "ADMIN" &&
+    session.role !== "SUPER_ADMIN"
+  ) {
+    redirect("/unauthorized");
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-800">Driver Safety</h1>
+        <p className="text-sm text-slate-500">
+          Speeding, harsh acceleration and braking, and long stretches without
+          rest, scored against the distance driven.
+        </p>
+      </div>
+
+      <SafetyClient />
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ interface Organization {
   licenseNumber: string | null;
   taxId: string | null;
   allowNameDisplay: boolean;
+  requireSignedBol: boolean;
   createdAt: string;
 }
 
@@ -45,6 +46,7 @@ export default function CompanySettingsClient({ organization }: Props) {
     licenseNumber: organization.licenseNumber || "",
     taxId: organization.taxId || "",
     allowNameDisplay: organization.allowNameDisplay,
+    requireSignedBol: organization.requireSignedBol,
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -61,6 +63,7 @@ export default function CompanySettingsClient({ organization }: Props) {
       licenseNumber: organization.licenseNumber || "",
       taxId: organization.taxId || "",
       allowNameDisplay: organization.allowNameDisplay,
+      requireSignedBol: organization.requireSignedBol,
     }) !== JSON.stringify(formData);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -106,6 +109,7 @@ export default function CompanySettingsClient({ organization }: Props) {
       licenseNumber: organization.licenseNumber || "",
       taxId: organization.taxId || "",
       allowNameDisplay: organization.allowNameDisplay,
+      requireSignedBol: organization.requireSignedBol,
     });
     setError(null);
   };
@@ -363,6 +367,39 @@ export default function CompanySettingsClient({ organization }: Props) {
           </div>
         </div>
 
+        {organization.type === "SHIPPER" && (
+          <div className="rounded-xl border border-[#064d51]/10 bg-white p-6 shadow-sm">
+            <h2 className="mb-4 text-lg font-semibold text-[#064d51]">
+              Pickup Settings
+            </h2>
+            <div className="flex items-center justify-between rounded-lg bg-[#f0fdfa] p-4">
+              <div>
+                <h3 className="text-sm font-medium text-[#064d51]">
+                  Require Signed Bill of Lading
+                </h3>
+                <p className="text-sm text-[#064d51]/70">
+                  Trips cannot start transit until you and the driver sign the
+                  electronic BOL at pickup
+                </p>
+              </div>
+              <label className="relative inline-flex cursor-pointer items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.requireSignedBol}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      requireSignedBol: e.target.checked,
+                    })
+                  }
+                  className="peer sr-only"
+                />
+                <div className="peer h-6 w-11 rounded-full bg-[#064d51]/20 peer-checked:bg-[#1e9c99] peer-focus:ring-4 peer-focus:ring-[#1e9c99]/30 peer-focus:outline-none after:absolute after:top-[2px] after:left-[2px] after:h-5 after:w-5 after:rounded-full after:border after:border-[#064d51]/20 after:bg-white after:transition-all after:content-[''] peer-checked:after:translate-x-full peer-checked:after:border-white"></div>
+              </label>
+            </div>
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center justify-between rounded-xl border border-[#064d51]/10 bg-[#f0fdfa] p-4">
           <div className="text-sm text-[#064d51]/70">
@@ -0,0 +1,308 @@
+/**
+ * Carrier Tour Planner Client Component
+ *
+ * Plans tours for a truck (GET /api/trucks/[id]/tours) and requests every
+ * load of the chosen tour in one action (POST /api/load-requests/chain).
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { csrfFetch } from "@/lib/csrfFetch";
+
+interface Truck {
+  id: string;
+  licensePlate: string;
+  truckType: string;
+}
+
+interface TourLeg {
+  loadId: string;
+  pickupCity: string | null;
+  deliveryCity: string | null;
+  deadheadKm: number;
+  loadedKm: number;
+  driveMinutes: number;
+  pickupAt: string;
+  deliverAt: string;
+}
+
+interface Tour {
+  legs: TourLeg[];
+  loadedKm: number;
+  deadheadKm: number;
+  loadedShare: number;
+  driveMinutes: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+interface TourPlan {
+  candidateCount: number;
+  start: { source: "gps" | "database" | "posting" };
+  tours: Tour[];
+}
+
+interface FailedRequest {
+  loadId: string;
+  error: string;
+}
+
+const formatDuration = (minutes: number) =>
+  `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const START_LABELS: Record<TourPlan["start"]["source"], string> = {
+  gps: "live GPS position",
+  database: "last known location",
+  posting: "posting origin city",
+};
+
+export default function ToursClient({ trucks }: { trucks: Truck[] }) {
+  const [truckId, setTruckId] = useState(trucks[0]?.id ?? "");
+  const [horizonDays, setHorizonDays] = useState("3");
+  const [maxLoads, setMaxLoads] = useState("3");
+  const [maxDeadheadKm, setMaxDeadheadKm] = useState("200");
+  const [plan, setPlan] = useState<TourPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [requesting, setRequesting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [failed, setFailed] = useState<FailedRequest[]>([]);
+
+  const planTours = async () => {
+    if (!truckId) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    setFailed([]);
+    try {
+      const params = new URLSearchParams({
+        horizonDays,
+        maxLoads,
+        maxDeadheadKm,
+      });
+      const res = await fetch(`/api/trucks/${truckId}/tours?${params}`, {
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to plan tours");
+      setPlan(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const requestTour = async (index: number, tour: Tour) => {
+    setRequesting(index);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await csrfFetch("/api/load-requests/chain", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          truckId,
+          loadIds: tour.legs.map((leg) => leg.loadId),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to request loads");
+
+      setMessage(data.message);
+      setFailed(data.failed ?? []);
+      // Requested loads are no longer open; drop tours that used them
+      const requested = new Set(
+        tour.legs
+          .map((leg) => leg.loadId)
+          .filter(
+            (id) =>
+              !(data.failed ?? []).some((f: FailedRequest) => f.loadId === id)
+          )
+      );
+      if (plan) {
+        setPlan({
+          ...plan,
+          tours: plan.tours.filter(
+            (t) => !t.legs.some((leg) => requested.has(leg.loadId))
+          ),
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setRequesting(null);
+    }
+  };
+
+  if (trucks.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-500">
+        You need an approved truck to plan tours.{" "}
+        <Link href="/carrier/trucks" className="text-teal-600 underline">
+          Manage trucks
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 rounded-xl border border-slate-200 bg-white p-4 md:grid-cols-5">
+        <label className="text-sm text-slate-600">
+          Truck
+          <select
+            value={truckId}
+            onChange={(e) => setTruckId(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          >
+            {trucks.map((truck) => (
+              <option key={truck.id} value={truck.id}>
+                {truck.licensePlate} ({truck.truckType.replace(/_/g, " ")})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Horizon (days)
+          <input
+            type="number"
+            min={1}
+            max={7}
+            value={horizonDays}
+            onChange={(e) => setHorizonDays(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          Loads per tour
+          <select
+            value={maxLoads}
+            onChange={(e) => setMaxLoads(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          >
+            <option value="2">Up to 2</option>
+            <option value="3">Up to 3</option>
+            <option value="4">Up to 4</option>
+          </select>
+        </label>
+        <label className="text-sm text-slate-600">
+          Max empty leg (km)
+          <input
+            type="number"
+            min={1}
+            max={1000}
+            value={maxDeadheadKm}
+            onChange={(e) => setMaxDeadheadKm(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={planTours}
+            disabled={loading || !truckId}
+            className="w-full rounded-lg bg-teal-600 px-4 py-2 font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+          >
+            {loading ? "Planning..." : "Plan Tours"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+          {message}{" "}
+          <Link href="/carrier/requests" className="underline">
+            View requests
+          </Link>
+          {failed.length > 0 && (
+            <ul className="mt-2 list-disc pl-5 text-rose-700">
+              {failed.map((f) => (
+                <li key={f.loadId}>
+                  Load {f.loadId.slice(-8)}: {f.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {plan && (
+        <>
+          <p className="text-sm text-slate-500">
+            {plan.tours.length} tour{plan.tours.length === 1 ? "" : "s"} from{" "}
+            {plan.candidateCount} open loads, starting at the truck&apos;s{" "}
+            {START_LABELS[plan.start.source]}.
+          </p>
+
+          {plan.tours.map((tour, index) => (
+            <div
+              key={tour.legs.map((leg) => leg.loadId).join("-")}
+              className="rounded-xl border border-slate-200 bg-white"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 p-4">
+                <div className="text-sm text-slate-600">
+                  <span className="font-medium text-slate-800">
+                    {tour.legs.length} loads
+                  </span>{" "}
+                  · {tour.loadedKm} km loaded · {tour.deadheadKm} km empty (
+                  {tour.loadedShare}% loaded) ·{" "}
+                  {formatDuration(tour.driveMinutes)} driving · done{" "}
+                  {formatTime(tour.endsAt)}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => requestTour(index, tour)}
+                  disabled={requesting !== null}
+                  className="rounded-lg bg-teal-600 px-4 py-2 text-sm font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+                >
+                  {requesting === index
+                    ? "Requesting..."
+                    : `Request All ${tour.legs.length} Loads`}
+                </button>
+              </div>
+              <ol className="divide-y divide-slate-100 text-sm">
+                {tour.legs.map((leg, legIndex) => (
+                  <li
+                    key={leg.loadId}
+                    className="flex flex-wrap justify-between gap-2 px-4 py-2"
+                  >
+                    <span>
+                      {legIndex + 1}. {leg.pickupCity} → {leg.deliveryCity}
+                    </span>
+                    <span className="text-slate-500">
+                      {leg.deadheadKm} km empty · {leg.loadedKm} km loaded ·
+                      pickup {formatTime(leg.pickupAt)} · deliver{" "}
+                      {formatTime(leg.deliverAt)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+
+          {plan.tours.length === 0 && (
+            <p className="rounded-xl border border-slate-200 bg-white p-4 text-sm text-slate-500">
+              No chains of loads fit this truck&apos;s schedule. Try a longer
+              horizon or a larger empty leg.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
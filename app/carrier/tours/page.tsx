@@ -0,0 +1,48 @@
+/**
+ * Carrier Tour Planner Page
+ *
+ * Plans chains of 2-4 loads for one truck over the next few days and lets
+ * the carrier request every load of a chain at once.
+ */
+
+import { requireAuth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { redirect } from "next/navigation";
+import ToursClient from "./ToursClient";
+
+export default async function CarrierToursPage() {
+  const session = await requireAuth();
+
+  if (
+    session.role !== "CARRIER" &&
+    session.role !== "ADMIN" &&
+    session.role !== "SUPER_ADMIN"
+  ) {
+    redirect("/unauthorized");
+  }
+
+  const trucks = session.organizationId
+    ? await db.truck.findMany({
+        where: {
+          carrierId: session.organizationId,
+          approvalStatus: "APPROVED",
+        },
+        select: { id: true, licensePlate: true, truckType: true },
+        orderBy: { licensePlate: "asc" },
+      })
+    : [];
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-800">Tour Planner</h1>
+        <p className="text-sm text-slate-500">
+          Back-to-back loads from where your truck is now, fitted to pickup and
+          delivery windows. Each shipper still approves their load.
+        </p>
+      </div>
+
+      <ToursClient trucks={trucks} />
+    </div>
+  );
+}
@@ -46,7 +46,7 @@ async function getTripDetails(id: string, userId: string) {
           documents: {
             where: {
               type: {
-                in: ["POD", "BOL", "RECEIPT"],
+                in: ["POD", "BOL", "RECEIPT", "RATE_CONFIRMATION"],
               },
             },
             orderBy: { uploadedAt: "desc" },
@@ -116,7 +116,7 @@ async function getTripDetails(id: string, userId: string) {
             documents: {
               where: {
                 type: {
-                  in: ["POD", "BOL", "RECEIPT"],
+                  in: ["POD", "BOL", "RECEIPT", "RATE_CONFIRMATION"],
                 },
               },
               orderBy: { uploadedAt: "desc" },
@@ -228,7 +228,11 @@ async function getTripDetails(id: string, userId: string) {
                   pickupLocation: true,
                   deliveryLocation: true,
                   documents: {
-                    where: { type: { in: ["POD", "BOL", "RECEIPT"] } },
+                    where: {
+                      type: {
+                        in: ["POD", "BOL", "RECEIPT", "RATE_CONFIRMATION"],
+                      },
+                    },
                     orderBy: { uploadedAt: "desc" },
                   },
                   events: {
@@ -147,6 +147,8 @@ export default function EscalationsClient() {
       DOCUMENTATION: "Documentation Issue",
       PAYMENT_DISPUTE: "Payment Dispute",
       BYPASS_DETECTED: "Bypass Detected",
+      UNSAFE_DRIVING: "Unsafe Driving",
+      DEVICE_ALARM: "Device Alarm",
       OTHER: "Other",
     };
     return labels[type] || type;
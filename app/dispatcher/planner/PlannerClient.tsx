@@ -0,0 +1,319 @@
+/**
+ * Dispatcher Assignment Planner Client Component
+ *
+ * Builds an assignment plan (GET /api/dispatcher/assignment-plan), lets the
+ * dispatcher untick pairs they disagree with and sends the rest as match
+ * proposals in one request.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { getCSRFToken } from "@/lib/csrfFetch";
+
+interface PlannedAssignment {
+  loadId: string;
+  truckId: string;
+  carrierName: string | null;
+  licensePlate: string | null;
+  pickupCity: string | null;
+  deliveryCity: string | null;
+  pickupDate: string;
+  matchScore: number;
+  deadheadKm: number;
+  matchReasons: string[];
+}
+
+interface PlanSummary {
+  assignedLoads: number;
+  averageMatchScore: number;
+  totalDeadheadKm: number;
+}
+
+interface AssignmentPlan {
+  loadCount: number;
+  truckCount: number;
+  assignments: PlannedAssignment[];
+  unassignedLoadIds: string[];
+  summary: PlanSummary;
+  greedySummary: PlanSummary;
+}
+
+interface FailedProposal {
+  loadId: string;
+  truckId: string;
+  error: string;
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+export default function PlannerClient() {
+  const [region, setRegion] = useState("");
+  const [from, setFrom] = useState(toDateInput(new Date()));
+  const [to, setTo] = useState(
+    toDateInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000))
+  );
+  const [minScore, setMinScore] = useState("50");
+  const [plan, setPlan] = useState<AssignmentPlan | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [failed, setFailed] = useState<FailedProposal[]>([]);
+
+  const buildPlan = async () => {
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    setFailed([]);
+    try {
+      const params = new URLSearchParams({
+        from: new Date(`${from}T00:00:00`).toISOString(),
+        to: new Date(`${to}T23:59:59`).toISOString(),
+        minScore,
+      });
+      if (region.trim()) params.set("region", region.trim());
+
+      const res = await fetch(`/api/dispatcher/assignment-plan?${params}`, {
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to build plan");
+
+      setPlan(data.plan);
+      setSelected(
+        new Set(data.plan.assignments.map((a: PlannedAssignment) => a.loadId))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (loadId: string) => {
+    const next = new Set(selected);
+    if (next.has(loadId)) next.delete(loadId);
+    else next.add(loadId);
+    setSelected(next);
+  };
+
+  const sendProposals = async () => {
+    if (!plan) return;
+    const assignments = plan.assignments
+      .filter((a) => selected.has(a.loadId))
+      .map(({ loadId, truckId }) => ({ loadId, truckId }));
+    if (assignments.length === 0) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      const csrfToken = await getCSRFToken();
+      const res = await fetch("/api/dispatcher/assignment-plan", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(csrfToken && { "X-CSRF-Token": csrfToken }),
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          assignments,
+          notes: notes || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to send proposals");
+
+      setMessage(data.message);
+      setFailed(data.failed ?? []);
+      // Sent pairs leave the plan; failed ones stay for another look
+      const failedLoads = new Set(
+        (data.failed ?? []).map((f: FailedProposal) => f.loadId)
+      );
+      setPlan({
+        ...plan,
+        assignments: plan.assignments.filter(
+          (a) => !selected.has(a.loadId) || failedLoads.has(a.loadId)
+        ),
+      });
+      setSelected(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 rounded-xl border border-slate-200 bg-white p-4 md:grid-cols-5">
+        <label className="text-sm text-slate-600">
+          Region
+          <input
+            value={region}
+            onChange={(e) => setRegion(e.target.value)}
+            placeholder="All regions"
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          Pickup from
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          Pickup to
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          />
+        </label>
+        <label className="text-sm text-slate-600">
+          Min score
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={minScore}
+            onChange={(e) => setMinScore(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-300 px-3 py-2"
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="button"
+            onClick={buildPlan}
+            disabled={loading}
+            className="w-full rounded-lg bg-teal-600 px-4 py-2 font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+          >
+            {loading ? "Planning..." : "Build Plan"}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 p-4 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="rounded-xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-700">
+          {message}{" "}
+          <Link href="/dispatcher/proposals" className="underline">
+            View proposals
+          </Link>
+          {failed.length > 0 && (
+            <ul className="mt-2 list-disc pl-5 text-rose-700">
+              {failed.map((f) => (
+                <li key={f.loadId}>
+                  Load {f.loadId.slice(-8)}: {f.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="rounded-xl border border-teal-200 bg-teal-50 p-4 text-sm text-teal-800">
+              <div className="font-medium">Optimized plan</div>
+              {plan.summary.assignedLoads} of {plan.loadCount} loads paired with{" "}
+              {plan.truckCount} trucks · avg score{" "}
+              {plan.summary.averageMatchScore} · {plan.summary.totalDeadheadKm}{" "}
+              km deadhead
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+              <div className="font-medium">One load at a time</div>
+              {plan.greedySummary.assignedLoads} loads paired · avg score{" "}
+              {plan.greedySummary.averageMatchScore} ·{" "}
+              {plan.greedySummary.totalDeadheadKm} km deadhead
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border border-slate-200 bg-white">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2"></th>
+                  <th className="px-4 py-2">Route</th>
+                  <th className="px-4 py-2">Pickup</th>
+                  <th className="px-4 py-2">Truck</th>
+                  <th className="px-4 py-2">Carrier</th>
+                  <th className="px-4 py-2">Score</th>
+                  <th className="px-4 py-2">Deadhead</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {plan.assignments.map((a) => (
+                  <tr key={a.loadId} title={a.matchReasons.join(" · ")}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(a.loadId)}
+                        onChange={() => toggle(a.loadId)}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      {a.pickupCity} → {a.deliveryCity}
+                    </td>
+                    <td className="px-4 py-2">
+                      {new Date(a.pickupDate).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-2">{a.licensePlate}</td>
+                    <td className="px-4 py-2">{a.carrierName}</td>
+                    <td className="px-4 py-2">{a.matchScore}</td>
+                    <td className="px-4 py-2">{a.deadheadKm} km</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {plan.assignments.length === 0 && (
+              <p className="p-4 text-sm text-slate-500">
+                No pairings meet the minimum score.
+              </p>
+            )}
+          </div>
+
+          {plan.unassignedLoadIds.length > 0 && (
+            <p className="text-sm text-slate-500">
+              {plan.unassignedLoadIds.length} load
+              {plan.unassignedLoadIds.length === 1 ? "" : "s"} without a
+              suitable truck.
+            </p>
+          )}
+
+          <div className="flex items-center gap-3">
+            <input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              placeholder="Note to carriers (optional)"
+              className="flex-1 rounded-lg border border-slate-300 px-3 py-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={sendProposals}
+              disabled={sending || selected.size === 0}
+              className="rounded-lg bg-teal-600 px-4 py-2 font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+            >
+              {sending
+                ? "Sending..."
+                : `Send ${selected.size} Proposal${selected.size === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * Dispatcher Assignment Planner Page
+ *
+ * Pairs all open loads with available trucks at once and lets the
+ * dispatcher send the pairs they keep as match proposals.
+ * Foundation Rule: DISPATCHER_COORDINATION_ONLY
+ * - Dispatchers propose matches
+ * - Carriers approve/reject
+ */
+
+import { requireAuth } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import PlannerClient from "./PlannerClient";
+
+export default async function DispatcherPlannerPage() {
+  const session = await requireAuth();
+
+  if (
+    session.role !== "DISPATCHER" &&
+    session.role !== "ADMIN" &&
+    session.role !== "SUPER_ADMIN"
+  ) {
+    redirect("/dispatcher");
+  }
+
+  return (
+    <div className="p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-slate-800">
+          Assignment Planner
+        </h1>
+        <p className="text-sm text-slate-500">
+          Best overall load-truck pairing for a region and pickup window.
+          Nothing is assigned until carriers accept the proposals you send.
+        </p>
+      </div>
+
+      <PlannerClient />
+    </div>
+  );
+}
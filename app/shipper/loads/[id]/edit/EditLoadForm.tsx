@@ -74,6 +74,8 @@ interface Load {
   isFragile?: boolean;
   requiresRefrigeration?: boolean;
   bookMode?: string;
+  bidDeadline?: string | null;
+  reserveRate?: number | string | null;
   isAnonymous?: boolean;
   shipperContactName?: string | null;
   shipperContactPhone?: string | null;
@@ -110,6 +112,16 @@ export default function EditLoadForm({ load }: EditLoadFormProps) {
     isFragile: load.isFragile || false,
     requiresRefrigeration: load.requiresRefrigeration || false,
     bookMode: load.bookMode || "REQUEST",
+    // datetime-local inputs take local time without a zone suffix
+    bidDeadline: load.bidDeadline
+      ? new Date(
+          new Date(load.bidDeadline).getTime() -
+            new Date(load.bidDeadline).getTimezoneOffset() * 60000
+        )
+          .toISOString()
+          .slice(0, 16)
+      : "",
+    reserveRate: load.reserveRate?.toString() || "",
     isAnonymous: load.isAnonymous || false,
     shipperContactName: load.shipperContactName || "",
     shipperContactPhone: load.shipperContactPhone || "",
@@ -151,6 +163,21 @@ export default function EditLoadForm({ load }: EditLoadFormProps) {
       setError("Cargo description must be at least 5 characters");
       return false;
     }
+    if (formData.bookMode === "AUCTION") {
+      if (!formData.bidDeadline) {
+        setError("Bid deadline is required for auction loads");
+        return false;
+      }
+      const deadline = new Date(formData.bidDeadline);
+      if (deadline <= new Date()) {
+        setError("Bid deadline must be in the future");
+        return false;
+      }
+      if (deadline > new Date(formData.pickupDate)) {
+        setError("Bid deadline must be on or before the pickup date");
+        return false;
+      }
+    }
     setError("");
     return true;
   };
@@ -184,6 +211,16 @@ export default function EditLoadForm({ load }: EditLoadFormProps) {
         cargoDescription: formData.cargoDescription || null,
         specialInstructions: formData.specialInstructions || null,
         bookMode: formData.bookMode,
+        bidDeadline:
+          formData.bookMode === "AUCTION" && formData.bidDeadline
+            ? new Date(formData.bidDeadline).toISOString()
+            : null,
+        reserveRate:
+          formData.bookMode === "AUCTION" &&
+          formData.reserveRate &&
+          parseFloat(formData.reserveRate) > 0
+            ? parseFloat(formData.reserveRate)
+            : null,
         shipperContactName: formData.shipperContactName || null,
         shipperContactPhone: formData.shipperContactPhone || null,
         // M1 FIX: Include boolean fields that were loaded but not sent on save
@@ -678,7 +715,7 @@ export default function EditLoadForm({ load }: EditLoadFormProps) {
             >
               Booking Mode
             </label>
-            <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-3 gap-2">
               {[
                 {
                   value: "REQUEST",
@@ -690,6 +727,11 @@ export default function EditLoadForm({ load }: EditLoadFormProps) {
                   label: "Instant",
                   desc: "First come, first served",
                 },
+                {
+                  value: "AUCTION",
+                  label: "Auction",
+                  desc: "Sealed bids until a deadline",
+                },
               ].map((opt) => (
                 <button
                   key={opt.value}
@@ -726,6 +768,42 @@ export default function EditLoadForm({ load }: EditLoadFormProps) {
                 </button>
               ))}
             </div>
+            {formData.bookMode === "AUCTION" && (
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                <div>
+                  <label
+                    className="mb-1 block text-[10px] font-semibold tracking-wide uppercase"
+                    style={{ color: "var(--foreground-muted)" }}
+                  >
+                    Bid Deadline
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={formData.bidDeadline}
+                    onChange={(e) => updateField("bidDeadline", e.target.value)}
+                    className="w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                    style={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label
+                    className="mb-1 block text-[10px] font-semibold tracking-wide uppercase"
+                    style={{ color: "var(--foreground-muted)" }}
+                  >
+                    Reserve Rate (ETB, optional)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.reserveRate}
+                    onChange={(e) => updateField("reserveRate", e.target.value)}
+                    placeholder="Hidden from carriers"
+                    className="w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                    style={inputStyle}
+                  />
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Privacy */}
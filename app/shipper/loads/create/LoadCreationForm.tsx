@@ -95,6 +95,8 @@ export default function LoadCreationForm() {
     isFragile: false,
     requiresRefrigeration: false,
     bookMode: "REQUEST",
+    bidDeadline: "",
+    reserveRate: "",
     isAnonymous: false,
     shipperContactName: "",
     shipperContactPhone: "",
@@ -145,6 +147,22 @@ export default function LoadCreationForm() {
         return false;
       }
     } else if (step === 3) {
+      // Auction: deadline in the future, no later than pickup (matches API)
+      if (formData.bookMode === "AUCTION") {
+        if (!formData.bidDeadline) {
+          setError("Bid deadline is required for auction loads");
+          return false;
+        }
+        const deadline = new Date(formData.bidDeadline);
+        if (deadline <= new Date()) {
+          setError("Bid deadline must be in the future");
+          return false;
+        }
+        if (formData.pickupDate && deadline > new Date(formData.pickupDate)) {
+          setError("Bid deadline must be on or before the pickup date");
+          return false;
+        }
+      }
       // Contact validation (required unless anonymous)
       if (!formData.isAnonymous) {
         if (
@@ -225,6 +243,17 @@ export default function LoadCreationForm() {
             ? parseFloat(formData.insuranceCoverageAmount)
             : undefined,
         // No rate field - price negotiation happens outside platform
+        // (auction loads collect sealed carrier bids instead)
+        bidDeadline:
+          formData.bookMode === "AUCTION" && formData.bidDeadline
+            ? new Date(formData.bidDeadline).toISOString()
+            : undefined,
+        reserveRate:
+          formData.bookMode === "AUCTION" &&
+          formData.reserveRate &&
+          parseFloat(formData.reserveRate) > 0
+            ? parseFloat(formData.reserveRate)
+            : undefined,
         status: isDraft ? "DRAFT" : "POSTED",
         tripKm,
       };
@@ -862,7 +891,7 @@ export default function LoadCreationForm() {
               >
                 Booking Mode
               </label>
-              <div className="grid grid-cols-2 gap-2">
+              <div className="grid grid-cols-3 gap-2">
                 {[
                   {
                     value: "REQUEST",
@@ -874,6 +903,11 @@ export default function LoadCreationForm() {
                     label: "Instant",
                     desc: "First come, first served",
                   },
+                  {
+                    value: "AUCTION",
+                    label: "Auction",
+                    desc: "Sealed bids until a deadline",
+                  },
                 ].map((opt) => (
                   <button
                     key={opt.value}
@@ -910,6 +944,46 @@ export default function LoadCreationForm() {
                   </button>
                 ))}
               </div>
+              {formData.bookMode === "AUCTION" && (
+                <div className="mt-3 grid grid-cols-2 gap-3">
+                  <div>
+                    <label
+                      className="mb-1 block text-[10px] font-semibold tracking-wide uppercase"
+                      style={{ color: "var(--foreground-muted)" }}
+                    >
+                      Bid Deadline
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={formData.bidDeadline}
+                      onChange={(e) =>
+                        updateField("bidDeadline", e.target.value)
+                      }
+                      className="w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                      style={inputStyle}
+                    />
+                  </div>
+                  <div>
+                    <label
+                      className="mb-1 block text-[10px] font-semibold tracking-wide uppercase"
+                      style={{ color: "var(--foreground-muted)" }}
+                    >
+                      Reserve Rate (ETB, optional)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.reserveRate}
+                      onChange={(e) =>
+                        updateField("reserveRate", e.target.value)
+                      }
+                      placeholder="Hidden from carriers"
+                      className="w-full rounded-lg border px-3 py-2 text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                      style={inputStyle}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Privacy */}
@@ -1118,7 +1192,9 @@ export default function LoadCreationForm() {
                 >
                   {formData.bookMode === "INSTANT"
                     ? "Instant Book"
-                    : "Request Mode"}
+                    : formData.bookMode === "AUCTION"
+                      ? "Auction"
+                      : "Request Mode"}
                 </div>
               </div>
             </div>
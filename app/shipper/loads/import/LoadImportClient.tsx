@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * Load Import Client Component
+ *
+ * Uploads a sheet to /api/loads/import, polls queued imports and shows the
+ * per-row report
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import { getCSRFToken } from "@/lib/csrfFetch";
+
+interface RowResult {
+  row: number;
+  status: "VALID" | "CREATED" | "ERROR";
+  loadId?: string;
+  errors?: string[];
+}
+
+interface LoadImport {
+  id: string;
+  status: "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED";
+  fileName: string;
+  dryRun: boolean;
+  totalRows: number;
+  validCount: number;
+  createdCount: number;
+  errorCount: number;
+  error: string | null;
+  report?: RowResult[];
+}
+
+const TEMPLATE_HEADER =
+  "pickupCity,pickupDate,deliveryCity,deliveryDate,truckType,weight,cargoDescription,fullPartial,status,shipperContactName,shipperContactPhone";
+const TEMPLATE_ROW =
+  "Addis Ababa,2026-12-01,Adama,2026-12-02,DRY_VAN,12000,Bagged cement,FULL,DRAFT,,";
+
+const POLL_INTERVAL_MS = 3000;
+
+export default function LoadImportClient() {
+  const [file, setFile] = useState<File | null>(null);
+  const [dryRun, setDryRun] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [result, setResult] = useState<LoadImport | null>(null);
+  const [ignoredColumns, setIgnoredColumns] = useState<string[]>([]);
+
+  const isRunning =
+    result?.status === "PENDING" || result?.status === "PROCESSING";
+
+  // Queued imports: poll until the report is ready
+  useEffect(() => {
+    if (!result || !isRunning) return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/loads/import/${result.id}`, {
+          credentials: "include",
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setResult(data.import);
+        }
+      } catch (error) {
+        console.error("Error checking import status:", error);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [result, isRunning]);
+
+  const downloadTemplate = () => {
+    const blob = new Blob([`${TEMPLATE_HEADER}\n${TEMPLATE_ROW}\n`], {
+      type: "text/csv",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "load-import-template.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleUpload = async () => {
+    if (!file) {
+      toast.error("Please select a file");
+      return;
+    }
+
+    setIsUploading(true);
+    setResult(null);
+    setIgnoredColumns([]);
+
+    try {
+      const csrfToken = await getCSRFToken();
+      if (!csrfToken) {
+        toast.error("Failed to get CSRF token. Please try again.");
+        return;
+      }
+
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("dryRun", dryRun ? "true" : "false");
+
+      const response = await fetch("/api/loads/import", {
+        method: "POST",
+        headers: { "X-CSRF-Token": csrfToken },
+        body: formData,
+        credentials: "include",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || "Import failed");
+        return;
+      }
+
+      setResult(data.import);
+      setIgnoredColumns(data.ignoredColumns ?? []);
+      if (response.status === 202) {
+        toast.success("Large file queued — the report will appear here");
+      }
+    } catch (error) {
+      console.error("Error importing loads:", error);
+      toast.error("Import failed. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const errorRows = result?.report?.filter((r) => r.status === "ERROR") ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Upload */}
+      <div
+        className="space-y-4 rounded-xl border p-6"
+        style={{ borderColor: "var(--border)", background: "var(--card)" }}
+      >
+        <div className="flex items-center justify-between">
+          <p className="text-sm" style={{ color: "var(--foreground-muted)" }}>
+            One load per row. Required columns: pickupCity, pickupDate,
+            deliveryCity, deliveryDate, truckType, weight, cargoDescription.
+            Dates as YYYY-MM-DD; city names may be in English or Amharic. From
+            Excel, save the sheet as CSV UTF-8.
+          </p>
+          <button
+            type="button"
+            onClick={downloadTemplate}
+            className="ml-4 shrink-0 rounded-lg border px-3 py-2 text-sm font-medium text-teal-700 hover:bg-teal-50"
+          >
+            Download template
+          </button>
+        </div>
+
+        <input
+          type="file"
+          accept=".csv"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="block w-full text-sm"
+        />
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => setDryRun(e.target.checked)}
+          />
+          Dry run — check the file without creating loads
+        </label>
+
+        <button
+          type="button"
+          onClick={handleUpload}
+          disabled={!file || isUploading || isRunning}
+          className="rounded-xl bg-gradient-to-r from-teal-600 to-teal-500 px-6 py-3 font-medium text-white shadow-md disabled:opacity-50"
+        >
+          {isUploading ? "Uploading..." : dryRun ? "Validate" : "Import Loads"}
+        </button>
+      </div>
+
+      {/* Result */}
+      {result && (
+        <div
+          className="space-y-4 rounded-xl border p-6"
+          style={{ borderColor: "var(--border)", background: "var(--card)" }}
+        >
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <span className="font-semibold">{result.fileName}</span>
+            <span>{result.totalRows} rows</span>
+            {isRunning ? (
+              <span className="text-amber-600">Processing…</span>
+            ) : result.status === "FAILED" ? (
+              <span className="text-rose-600">{result.error}</span>
+            ) : (
+              <>
+                <span className="text-emerald-600">
+                  {result.dryRun
+                    ? `${result.validCount} valid`
+                    : `${result.createdCount} created`}
+                </span>
+                <span className="text-rose-600">
+                  {result.errorCount} with errors
+                </span>
+              </>
+            )}
+          </div>
+
+          {ignoredColumns.length > 0 && (
+            <p className="text-xs text-amber-700">
+              Ignored columns: {ignoredColumns.join(", ")}
+            </p>
+          )}
+
+          {errorRows.length > 0 && (
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 pr-4">Row</th>
+                  <th className="py-2">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {errorRows.map((row) => (
+                  <tr key={row.row} className="border-b align-top">
+                    <td className="py-2 pr-4 font-mono">{row.row}</td>
+                    <td className="py-2">
+                      <ul className="list-disc pl-4 text-rose-700">
+                        {row.errors?.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {!result.dryRun && result.createdCount > 0 && (
+            <Link
+              href="/shipper/loads"
+              className="inline-block text-sm font-medium text-teal-700 hover:underline"
+            >
+              View imported loads →
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Bulk Load Import Page
+ *
+ * Upload a CSV sheet to create many loads at once
+ */
+
+import { cookies } from "next/headers";
+import { verifyToken } from "@/lib/auth";
+import { redirect } from "next/navigation";
+import LoadImportClient from "./LoadImportClient";
+
+export default async function ImportLoadsPage() {
+  // Verify authentication
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get("session");
+
+  if (!sessionCookie) {
+    redirect("/login?redirect=/shipper/loads/import");
+  }
+
+  const session = await verifyToken(sessionCookie.value);
+
+  if (
+    !session ||
+    (session.role !== "SHIPPER" &&
+      session.role !== "ADMIN" &&
+      session.role !== "SUPER_ADMIN")
+  ) {
+    redirect("/unauthorized");
+  }
+
+  if (!session.organizationId) {
+    redirect("/shipper?error=no-organization");
+  }
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6">
+      {/* Header */}
+      <div>
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: "var(--foreground)" }}
+        >
+          Import Loads
+        </h1>
+        <p
+          className="mt-1 text-sm"
+          style={{ color: "var(--foreground-muted)" }}
+        >
+          Create many loads at once from a CSV sheet
+        </p>
+      </div>
+
+      <LoadImportClient />
+    </div>
+  );
+}
@@ -180,25 +180,33 @@ export default async function LoadsPage({
             </p>
           </div>
         </div>
-        <Link
-          href="/shipper/loads/create"
-          className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-teal-600 to-teal-500 px-6 py-3 font-medium text-white shadow-md shadow-teal-500/25 transition-all hover:shadow-lg hover:shadow-teal-500/30"
-        >
-          <svg
-            className="h-5 w-5"
-            fill="none"
-            viewBox="0 0 24 24"
-            stroke="currentColor"
+        <div className="flex items-center gap-3">
+          <Link
+            href="/shipper/loads/import"
+            className="inline-flex items-center gap-2 rounded-xl border border-teal-600 px-6 py-3 font-medium text-teal-700 transition-all hover:bg-teal-50"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 4v16m8-8H4"
-            />
-          </svg>
-          Post New Load
-        </Link>
+            Import
+          </Link>
+          <Link
+            href="/shipper/loads/create"
+            className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-r from-teal-600 to-teal-500 px-6 py-3 font-medium text-white shadow-md shadow-teal-500/25 transition-all hover:shadow-lg hover:shadow-teal-500/30"
+          >
+            <svg
+              className="h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 4v16m8-8H4"
+              />
+            </svg>
+            Post New Load
+          </Link>
+        </div>
       </div>
 
       {/* Load Management Client Component */}
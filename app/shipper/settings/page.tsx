@@ -29,6 +29,7 @@ async function getOrganizationData(organizationId: string) {
       licenseNumber: true,
       taxId: true,
       allowNameDisplay: true,
+      requireSignedBol: true,
       createdAt: true,
     },
   });
@@ -67,7 +67,7 @@ async function getTripDetails(id: string, userId: string) {
           documents: {
             where: {
               type: {
-                in: ["POD", "BOL", "RECEIPT"],
+                in: ["POD", "BOL", "RECEIPT", "RATE_CONFIRMATION"],
               },
             },
             orderBy: { uploadedAt: "desc" },
@@ -137,7 +137,7 @@ async function getTripDetails(id: string, userId: string) {
             documents: {
               where: {
                 type: {
-                  in: ["POD", "BOL", "RECEIPT"],
+                  in: ["POD", "BOL", "RECEIPT", "RATE_CONFIRMATION"],
                 },
               },
               orderBy: { uploadedAt: "desc" },
@@ -211,7 +211,7 @@ async function getTripDetails(id: string, userId: string) {
         documents: {
           where: {
             type: {
-              in: ["POD", "BOL", "RECEIPT"],
+              in: ["POD", "BOL", "RECEIPT", "RATE_CONFIRMATION"],
             },
           },
           orderBy: { uploadedAt: "desc" },
@@ -7,6 +7,7 @@
  *
  * Public page accessible via unique tracking URL
  * Shows live map, load details, ETA, and status
+ * Multi-stop loads also show the stop sequence with arrival/departure times
  */
 
 import React, { useEffect, useState } from "react";
@@ -24,6 +25,19 @@ const GpsMap = dynamic(() => import("@/components/GpsMap"), {
   ),
 });
 
+interface LoadStopData {
+  id: string;
+  sequence: number;
+  stopType: "PICKUP" | "DROPOFF";
+  city: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  appointmentStart?: string | null;
+  appointmentEnd?: string | null;
+  arrivedAt?: string | null;
+  departedAt?: string | null;
+}
+
 interface LoadData {
   id: string;
   status: string;
@@ -37,6 +51,7 @@ interface LoadData {
   originLon?: number;
   destinationLat?: number;
   destinationLon?: number;
+  stops?: LoadStopData[];
   shipper?: {
     name: string;
   };
@@ -253,6 +268,17 @@ export default function TrackingPage({
                         }
                       : undefined
                   }
+                  stops={load.stops
+                    ?.filter(
+                      (stop) => stop.latitude != null && stop.longitude != null
+                    )
+                    .map((stop) => ({
+                      lat: Number(stop.latitude),
+                      lng: Number(stop.longitude),
+                      name: stop.city,
+                      sequence: stop.sequence,
+                      stopType: stop.stopType,
+                    }))}
                   autoUpdate={true}
                   updateInterval={15000}
                 />
@@ -306,6 +332,56 @@ export default function TrackingPage({
               </div>
             </div>
 
+            {/* Stops (multi-stop loads) */}
+            {load.stops && load.stops.length > 0 && (
+              <div className="rounded-lg bg-white p-6 shadow-lg">
+                <h2 className="mb-4 text-lg font-bold text-gray-900">
+                  Stops ({load.stops.length})
+                </h2>
+
+                <ol className="space-y-3">
+                  {load.stops.map((stop) => (
+                    <li key={stop.id} className="flex items-start gap-3">
+                      <span
+                        className={`mt-0.5 flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-bold text-white ${
+                          stop.departedAt || stop.arrivedAt
+                            ? "bg-green-500"
+                            : "bg-gray-300"
+                        }`}
+                      >
+                        {stop.sequence}
+                      </span>
+                      <div>
+                        <p className="font-semibold">
+                          {stop.city}{" "}
+                          <span className="text-xs font-normal text-gray-500">
+                            {stop.stopType === "PICKUP" ? "Pickup" : "Drop-off"}
+                          </span>
+                        </p>
+                        {stop.appointmentStart && (
+                          <p className="text-xs text-gray-500">
+                            Appointment:{" "}
+                            {new Date(stop.appointmentStart).toLocaleString()}
+                          </p>
+                        )}
+                        {stop.arrivedAt && (
+                          <p className="text-xs text-gray-600">
+                            Arrived {new Date(stop.arrivedAt).toLocaleString()}
+                          </p>
+                        )}
+                        {stop.departedAt && (
+                          <p className="text-xs text-gray-600">
+                            Departed{" "}
+                            {new Date(stop.departedAt).toLocaleString()}
+                          </p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             {/* GPS Status */}
             <div className="rounded-lg bg-white p-6 shadow-lg">
               <h2 className="mb-4 text-lg font-bold text-gray-900">
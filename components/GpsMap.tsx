@@ -86,6 +86,14 @@ export interface GpsMapProps {
   loadId: string;
   pickupLocation?: { lat: number; lng: number; name: string };
   deliveryLocation?: { lat: number; lng: number; name: string };
+  // Multi-stop loads: every stop in route order (first/last duplicate pickup/delivery)
+  stops?: {
+    lat: number;
+    lng: number;
+    name: string;
+    sequence: number;
+    stopType: "PICKUP" | "DROPOFF";
+  }[];
   autoUpdate?: boolean; // Auto-refresh position every 10-30 seconds
   updateInterval?: number; // Update interval in milliseconds (default: 15000 = 15 seconds)
 }
@@ -117,6 +125,7 @@ export default function GpsMap({
   loadId,
   pickupLocation,
   deliveryLocation,
+  stops,
   autoUpdate = true,
   updateInterval = 15000, // 15 seconds default
 }: GpsMapProps) {
@@ -207,6 +216,11 @@ export default function GpsMap({
   const getRoutePoints = (): [number, number][] => {
     const points: [number, number][] = [];
 
+    // Multi-stop: draw the planned route through every stop
+    if (stops && stops.length > 0) {
+      return stops.map((stop) => [stop.lat, stop.lng]);
+    }
+
     if (pickupLocation) {
       points.push([pickupLocation.lat, pickupLocation.lng]);
     }
@@ -298,6 +312,25 @@ export default function GpsMap({
           </Marker>
         )}
 
+        {/* Intermediate stop markers (multi-stop loads) */}
+        {stops?.slice(1, -1).map((stop) => (
+          <Marker
+            key={stop.sequence}
+            position={[stop.lat, stop.lng]}
+            icon={stop.stopType === "PICKUP" ? pickupIcon : deliveryIcon}
+          >
+            <Popup>
+              <div className="text-sm">
+                <strong>
+                  📍 Stop {stop.sequence} (
+                  {stop.stopType === "PICKUP" ? "Pickup" : "Drop-off"})
+                </strong>
+                <p>{stop.name}</p>
+              </div>
+            </Popup>
+          </Marker>
+        ))}
+
         {/* Truck marker */}
         {truckPosition && (
           <Marker
@@ -607,6 +607,12 @@ const navigationSections: Record<string, NavSection[]> = {
           icon: "📋",
           roles: ["CARRIER", "ADMIN", "SUPER_ADMIN"],
         },
+        {
+          label: "Tour Planner",
+          href: "/carrier/tours",
+          icon: "🔗",
+          roles: ["CARRIER", "ADMIN", "SUPER_ADMIN"],
+        },
       ],
     },
     {
@@ -630,6 +636,12 @@ const navigationSections: Record<string, NavSection[]> = {
           icon: "👤",
           roles: ["CARRIER", "ADMIN", "SUPER_ADMIN"],
         },
+        {
+          label: "Driver Safety",
+          href: "/carrier/safety",
+          icon: "🛡️",
+          roles: ["CARRIER", "ADMIN", "SUPER_ADMIN"],
+        },
         {
           label: "GPS Tracking",
           href: "/carrier/gps",
@@ -926,6 +938,12 @@ const navigationSections: Record<string, NavSection[]> = {
           icon: "🎯",
           roles: ["DISPATCHER", "ADMIN", "SUPER_ADMIN"],
         },
+        {
+          label: "Planner",
+          href: "/dispatcher/planner",
+          icon: "🧩",
+          roles: ["DISPATCHER", "ADMIN", "SUPER_ADMIN"],
+        },
       ],
     },
     {
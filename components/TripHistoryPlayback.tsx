@@ -9,6 +9,7 @@
  * - Playback controls (play, pause, speed)
  * - Timeline scrubber
  * - Timestamp display at each position
+ * - Planned route and stretches driven off it (route deviations)
  */
 
 "use client";
@@ -24,6 +25,12 @@ interface GpsPosition {
   heading?: number;
 }
 
+interface RouteDeviationSegment {
+  startedAt: string;
+  endedAt: string | null; // null while the truck is still off route
+  maxDistanceKm: number;
+}
+
 interface TripData {
   id: string;
   loadId?: string;
@@ -35,6 +42,8 @@ interface TripData {
   startedAt: string;
   completedAt: string;
   positions: GpsPosition[];
+  plannedRoute: { lat: number; lng: number }[];
+  deviations: RouteDeviationSegment[];
   totalDistanceKm: number;
   totalDurationMinutes: number;
 }
@@ -57,6 +66,8 @@ export default function TripHistoryPlayback({
   const truckMarkerRef = useRef<google.maps.Marker | null>(null);
   const routePolylineRef = useRef<google.maps.Polyline | null>(null);
   const progressPolylineRef = useRef<google.maps.Polyline | null>(null);
+  const plannedPolylineRef = useRef<google.maps.Polyline | null>(null);
+  const deviationPolylinesRef = useRef<google.maps.Polyline[]>([]);
   const pickupMarkerRef = useRef<google.maps.Marker | null>(null);
   const deliveryMarkerRef = useRef<google.maps.Marker | null>(null);
   const animationRef = useRef<number | null>(null);
@@ -147,6 +158,13 @@ export default function TripHistoryPlayback({
             data.timing?.completedAt ||
             mappedPositions[mappedPositions.length - 1].timestamp,
           positions: mappedPositions,
+          plannedRoute: (data.plannedRoute || []).map(
+            (p: { latitude: number; longitude: number }) => ({
+              lat: p.latitude,
+              lng: p.longitude,
+            })
+          ),
+          deviations: data.deviations || [],
           totalDistanceKm: data.distance?.actualKm || 0,
           totalDurationMinutes: data.timing?.durationMinutes || 0,
         });
@@ -229,6 +247,54 @@ export default function TripHistoryPlayback({
       strokeWeight: 4,
     });
 
+    // Planned route (dashed green) the trip was checked against
+    if (plannedPolylineRef.current) {
+      plannedPolylineRef.current.setMap(null);
+    }
+    plannedPolylineRef.current =
+      tripData.plannedRoute.length > 1
+        ? new google.maps.Polyline({
+            path: tripData.plannedRoute,
+            map,
+            strokeOpacity: 0,
+            icons: [
+              {
+                icon: {
+                  path: "M 0,-1 0,1",
+                  strokeColor: "#10B981",
+                  strokeOpacity: 0.8,
+                  scale: 3,
+                },
+                offset: "0",
+                repeat: "16px",
+              },
+            ],
+          })
+        : null;
+
+    // Stretches driven outside the route corridor (red, drawn on top)
+    deviationPolylinesRef.current.forEach((line) => line.setMap(null));
+    deviationPolylinesRef.current = tripData.deviations.map((deviation) => {
+      const start = new Date(deviation.startedAt).getTime();
+      const end = deviation.endedAt
+        ? new Date(deviation.endedAt).getTime()
+        : Infinity;
+      const path = positions
+        .filter((p) => {
+          const time = new Date(p.timestamp).getTime();
+          return time >= start && time <= end;
+        })
+        .map((p) => ({ lat: p.lat, lng: p.lng }));
+      return new google.maps.Polyline({
+        path,
+        map,
+        strokeColor: "#DC2626",
+        strokeOpacity: 0.9,
+        strokeWeight: 6,
+        zIndex: 10,
+      });
+    });
+
     // Create progress polyline (traveled route in blue)
     if (progressPolylineRef.current) {
       progressPolylineRef.current.setMap(null);
@@ -474,6 +540,17 @@ export default function TripHistoryPlayback({
               {tripData.carrierName} •{" "}
               {formatDuration(tripData.totalDurationMinutes)} •{" "}
               {tripData.totalDistanceKm.toFixed(1)} km
+              {tripData.deviations.length > 0 && (
+                <span className="text-red-600 dark:text-red-400">
+                  {" "}
+                  • {tripData.deviations.length} route deviation
+                  {tripData.deviations.length === 1 ? "" : "s"} (up to{" "}
+                  {Math.max(
+                    ...tripData.deviations.map((d) => d.maxDistanceKm)
+                  ).toFixed(1)}{" "}
+                  km off)
+                </span>
+              )}
             </p>
           </div>
           {onClose && (
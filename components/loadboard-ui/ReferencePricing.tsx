@@ -16,6 +16,9 @@ export default function ReferencePricing({
   brokerSpotRate,
   loading = false,
   className = "",
+  source,
+  sampleSize,
+  trendPct,
 }: ReferencePricingProps) {
   // Support both naming conventions
   const effectiveTrihaulRate = trihaulRate ?? triHaulRate;
@@ -64,6 +67,19 @@ export default function ReferencePricing({
           </span>
         </span>
       )}
+      {source === "LANE_INDEX" && sampleSize !== undefined && (
+        <span className="ml-4 text-xs font-normal text-gray-500">
+          Based on {sampleSize} booked loads
+          {trendPct !== null &&
+            trendPct !== undefined &&
+            ` (${trendPct > 0 ? "+" : ""}${trendPct}% vs prior period)`}
+        </span>
+      )}
+      {source === "HEURISTIC" && (
+        <span className="ml-4 text-xs font-normal text-gray-500">
+          Estimated from distance
+        </span>
+      )}
     </div>
   );
 }
@@ -1,5 +1,6 @@
 /**
- * Driver Trip Detail — status transitions, receiver info, POD upload
+ * Driver Trip Detail — status transitions, receiver info, POD upload,
+ * bill of lading signatures at pickup
  *
  * DRIVER transitions: PICKUP_PENDING, IN_TRANSIT, DELIVERED, COMPLETED,
  * EXCEPTION. NO CANCELLED.
@@ -31,6 +32,7 @@ import {
   Button,
   StatusBadge,
   LoadingSpinner,
+  SignaturePad,
 } from "../../../src/components";
 import { colors, spacing, typography } from "../../../src/theme";
 import {
@@ -38,10 +40,19 @@ import {
   useUpdateTripStatus,
   useUploadPod,
   useTripPods,
+  useBillOfLading,
+  useIssueBillOfLading,
+  useSignBillOfLading,
 } from "../../../src/hooks/useTrips";
 import { useLocationTracking } from "../../../src/hooks/useTracking";
-import { formatDate, formatDistance } from "../../../src/utils/format";
+import {
+  formatDate,
+  formatDateTime,
+  formatDistance,
+} from "../../../src/utils/format";
 import { getQueueSize } from "../../../src/services/status-queue";
+import { getCurrentPosition } from "../../../src/services/location-tracking";
+import type { SignatureStrokes } from "../../../src/types";
 import { AuthenticatedImage } from "../../../src/components/AuthenticatedImage";
 
 function DetailRow({ label, value }: { label: string; value: string }) {
@@ -99,6 +110,9 @@ export default function DriverTripDetailScreen() {
   const updateStatus = useUpdateTripStatus();
   const uploadPod = useUploadPod();
   const { data: pods } = useTripPods(id);
+  const { data: bolData } = useBillOfLading(id);
+  const issueBol = useIssueBillOfLading();
+  const signBol = useSignBillOfLading();
 
   // Task 25: GPS tracking — auto-starts on PICKUP_PENDING / IN_TRANSIT
   const { isTracking, queueSize } = useLocationTracking(trip?.id, trip?.status);
@@ -113,6 +127,13 @@ export default function DriverTripDetailScreen() {
   const [showExceptionModal, setShowExceptionModal] = useState(false);
   const [exceptionReason, setExceptionReason] = useState("");
 
+  // BOL signature modal
+  const [signingParty, setSigningParty] = useState<"SHIPPER" | "DRIVER" | null>(
+    null
+  );
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<SignatureStrokes>([]);
+
   // Offline status queue indicator
   const [pendingCount, setPendingCount] = useState(0);
 
@@ -124,11 +145,23 @@ export default function DriverTripDetailScreen() {
     return <LoadingSpinner fullScreen message="Loading trip..." />;
   }
 
+  const bol = bolData?.billOfLading ?? null;
+  const bolRequired = !!bolData?.requireSignedBol && bol?.status !== "SIGNED";
+  const showBolSection =
+    ["ASSIGNED", "PICKUP_PENDING"].includes(trip.status) || !!bol;
+
   const handleStatusChange = (newStatus: string) => {
     if (newStatus === "DELIVERED") {
       setShowDeliveryModal(true);
       return;
     }
+    if (newStatus === "IN_TRANSIT" && bolRequired) {
+      Alert.alert(
+        "Signed BOL required",
+        "The shipper requires the bill of lading to be signed by the shipper and you before pickup."
+      );
+      return;
+    }
     Alert.alert(
       "Update Status",
       `Change trip status to ${newStatus.replace(/_/g, " ")}?`,
@@ -173,6 +206,49 @@ export default function DriverTripDetailScreen() {
     setExceptionReason("");
   };
 
+  const closeSignModal = () => {
+    setSigningParty(null);
+    setSignerName("");
+    setSignature([]);
+  };
+
+  const handleSignBol = async () => {
+    if (!signingParty) return;
+    if (!signerName.trim()) {
+      Alert.alert("Error", "Please enter the signer's name.");
+      return;
+    }
+    if (signature.length === 0) {
+      Alert.alert("Error", "Please sign in the box.");
+      return;
+    }
+    const position = await getCurrentPosition();
+    if (!position) {
+      Alert.alert(
+        "Location needed",
+        "Location permission is required to record where the BOL was signed."
+      );
+      return;
+    }
+    try {
+      await signBol.mutateAsync({
+        tripId: trip.id,
+        signature: {
+          party: signingParty,
+          signerName: signerName.trim(),
+          strokes: signature,
+          ...position,
+        },
+      });
+      closeSignModal();
+    } catch (err) {
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Signing failed"
+      );
+    }
+  };
+
   const handlePickImage = async (source: "camera" | "gallery") => {
     if (!ImagePicker) return;
 
@@ -309,6 +385,91 @@ export default function DriverTripDetailScreen() {
         </Card>
       )}
 
+      {/* Bill of lading */}
+      {showBolSection && Platform.OS !== "web" && (
+        <Card style={styles.card}>
+          <Text style={styles.sectionTitle}>Bill of Lading</Text>
+          {!bol ? (
+            <Button
+              title="Generate BOL"
+              onPress={() =>
+                issueBol
+                  .mutateAsync(trip.id)
+                  .catch((err) =>
+                    Alert.alert(
+                      "Error",
+                      err instanceof Error ? err.message : "Failed"
+                    )
+                  )
+              }
+              loading={issueBol.isPending}
+              variant="outline"
+              fullWidth
+              icon={
+                <Ionicons
+                  name="document-text-outline"
+                  size={16}
+                  color={colors.primary600}
+                />
+              }
+            />
+          ) : (
+            <>
+              <DetailRow label="BOL" value={bol.bolNumber} />
+              <DetailRow label="Cargo" value={bol.cargoDescription} />
+              <DetailRow
+                label="Weight"
+                value={`${Number(bol.weight).toLocaleString()} kg`}
+              />
+              {bol.casesCount != null && (
+                <DetailRow label="Cases" value={String(bol.casesCount)} />
+              )}
+              <DetailRow
+                label="Shipper signature"
+                value={
+                  bol.shipperSignedAt
+                    ? `${bol.shipperSignerName} · ${formatDateTime(bol.shipperSignedAt)}`
+                    : "Pending"
+                }
+              />
+              <DetailRow
+                label="Driver signature"
+                value={
+                  bol.driverSignedAt
+                    ? `${bol.driverSignerName} · ${formatDateTime(bol.driverSignedAt)}`
+                    : "Pending"
+                }
+              />
+              {bol.status !== "SIGNED" && (
+                <View style={styles.podActions}>
+                  {!bol.shipperSignedAt && (
+                    <Button
+                      title="Shipper Signs"
+                      onPress={() => setSigningParty("SHIPPER")}
+                      variant="primary"
+                      size="sm"
+                    />
+                  )}
+                  {!bol.driverSignedAt && (
+                    <Button
+                      title="Driver Signs"
+                      onPress={() => setSigningParty("DRIVER")}
+                      variant="outline"
+                      size="sm"
+                    />
+                  )}
+                </View>
+              )}
+            </>
+          )}
+          {bolRequired && (
+            <Text style={styles.bolHint}>
+              The shipper requires a signed BOL before you can confirm pickup.
+            </Text>
+          )}
+        </Card>
+      )}
+
       {/* Status action buttons */}
       {nextStatuses.length > 0 && (
         <Card style={styles.card}>
@@ -463,6 +624,44 @@ export default function DriverTripDetailScreen() {
         </View>
       </Modal>
 
+      {/* BOL signature modal */}
+      <Modal visible={!!signingParty} transparent animationType="slide">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionTitle}>
+              {signingParty === "SHIPPER" ? "Shipper" : "Driver"} Signature
+            </Text>
+            <Text style={styles.modalHint}>
+              Time and GPS position are recorded with the signature.
+            </Text>
+            <TextInput
+              style={styles.modalInput}
+              placeholder="Full name"
+              value={signerName}
+              onChangeText={setSignerName}
+              placeholderTextColor={colors.slate400}
+            />
+            <SignaturePad onChange={setSignature} />
+            <View style={styles.modalActions}>
+              <Button
+                title="Cancel"
+                onPress={closeSignModal}
+                variant="ghost"
+                size="md"
+              />
+              <Button
+                title="Sign"
+                onPress={handleSignBol}
+                loading={signBol.isPending}
+                variant="primary"
+                size="md"
+                style={{ flex: 1 }}
+              />
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Exception modal */}
       <Modal visible={showExceptionModal} transparent animationType="slide">
         <View style={styles.modalOverlay}>
@@ -580,6 +779,11 @@ const styles = StyleSheet.create({
     fontWeight: "600",
   },
   podHint: { ...typography.bodySmall, color: colors.textTertiary },
+  bolHint: {
+    ...typography.bodySmall,
+    color: colors.warning,
+    marginTop: spacing.md,
+  },
   modalOverlay: {
     flex: 1,
     justifyContent: "center",
@@ -0,0 +1,133 @@
+/**
+ * Signature pad - captures finger strokes for BOL signing
+ *
+ * Strokes are reported normalized to 0..1 of the pad size so the server
+ * can redraw them at any scale. Line segments are drawn as rotated Views,
+ * which avoids a native SVG dependency.
+ */
+import React, { useRef, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  LayoutChangeEvent,
+  GestureResponderEvent,
+} from "react-native";
+import { colors } from "../theme/colors";
+import { typography } from "../theme/typography";
+import { spacing } from "../theme/spacing";
+import type { SignatureStrokes } from "../types";
+
+interface SignaturePadProps {
+  onChange: (strokes: SignatureStrokes) => void;
+  height?: number;
+}
+
+const STROKE_WIDTH = 2;
+
+export function SignaturePad({ onChange, height = 160 }: SignaturePadProps) {
+  const [strokes, setStrokes] = useState<SignatureStrokes>([]);
+  const [size, setSize] = useState({ width: 1, height: 1 });
+  // Latest strokes for the touch handlers — several move events can arrive
+  // before the next render. Only read inside event callbacks
+  const strokesRef = useRef<SignatureStrokes>([]);
+
+  const update = (next: SignatureStrokes) => {
+    strokesRef.current = next;
+    setStrokes(next);
+    onChange(next);
+  };
+
+  const toPoint = (x: number, y: number): [number, number] => [
+    Math.min(1, Math.max(0, x / size.width)),
+    Math.min(1, Math.max(0, y / size.height)),
+  ];
+
+  const handleGrant = (e: GestureResponderEvent) => {
+    const { locationX, locationY } = e.nativeEvent;
+    update([...strokesRef.current, [toPoint(locationX, locationY)]]);
+  };
+
+  const handleMove = (e: GestureResponderEvent) => {
+    const { locationX, locationY } = e.nativeEvent;
+    const prev = strokesRef.current;
+    if (prev.length === 0) return;
+    update([
+      ...prev.slice(0, -1),
+      [...prev[prev.length - 1], toPoint(locationX, locationY)],
+    ]);
+  };
+
+  const handleLayout = (e: LayoutChangeEvent) => {
+    const { width, height: layoutHeight } = e.nativeEvent.layout;
+    setSize({ width, height: layoutHeight });
+  };
+
+  const { width, height: padHeight } = size;
+
+  return (
+    <View>
+      <View
+        style={[styles.pad, { height }]}
+        onLayout={handleLayout}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={handleGrant}
+        onResponderMove={handleMove}
+      >
+        {strokes.length === 0 && (
+          <Text style={styles.placeholder}>Sign here</Text>
+        )}
+        {strokes.flatMap((stroke, s) =>
+          stroke.map((point, i) => {
+            const [x1, y1] = stroke[Math.max(0, i - 1)];
+            const [x2, y2] = point;
+            const dx = (x2 - x1) * width;
+            const dy = (y2 - y1) * padHeight;
+            const length = Math.sqrt(dx * dx + dy * dy) || STROKE_WIDTH;
+            return (
+              <View
+                key={`${s}-${i}`}
+                pointerEvents="none"
+                style={[
+                  styles.segment,
+                  {
+                    width: length,
+                    left: ((x1 + x2) / 2) * width - length / 2,
+                    top: ((y1 + y2) / 2) * padHeight - STROKE_WIDTH / 2,
+                    transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }],
+                  },
+                ]}
+              />
+            );
+          })
+        )}
+      </View>
+      <TouchableOpacity onPress={() => update([])} style={styles.clear}>
+        <Text style={styles.clearText}>Clear</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    backgroundColor: colors.slate50,
+    overflow: "hidden",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  placeholder: { ...typography.bodyMedium, color: colors.slate300 },
+  segment: {
+    position: "absolute",
+    height: STROKE_WIDTH,
+    borderRadius: STROKE_WIDTH / 2,
+    backgroundColor: colors.textPrimary,
+  },
+  clear: { alignSelf: "flex-end", paddingVertical: spacing.sm },
+  clearText: { ...typography.labelMedium, color: colors.primary600 },
+});
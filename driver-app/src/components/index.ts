@@ -5,3 +5,4 @@ export { Badge, getStatusVariant } from "./Badge";
 export { StatusBadge } from "./StatusBadge";
 export { LoadingSpinner } from "./LoadingSpinner";
 export { EmptyState } from "./EmptyState";
+export { SignaturePad } from "./SignaturePad";
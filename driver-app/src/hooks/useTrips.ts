@@ -4,6 +4,7 @@
  */
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { tripService } from "../services/trip";
+import type { SignatureStrokes } from "../types";
 
 const TRIPS_KEY = ["trips"] as const;
 
@@ -74,3 +75,47 @@ export function useTripPods(tripId: string | undefined) {
     enabled: !!tripId,
   });
 }
+
+export function useBillOfLading(tripId: string | undefined) {
+  return useQuery({
+    queryKey: [...TRIPS_KEY, tripId, "bol"],
+    queryFn: () => tripService.getBillOfLading(tripId!),
+    enabled: !!tripId,
+  });
+}
+
+export function useIssueBillOfLading() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (tripId: string) => tripService.issueBillOfLading(tripId),
+    onSuccess: (_, tripId) => {
+      queryClient.invalidateQueries({
+        queryKey: [...TRIPS_KEY, tripId, "bol"],
+      });
+    },
+  });
+}
+
+export function useSignBillOfLading() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      tripId,
+      signature,
+    }: {
+      tripId: string;
+      signature: {
+        party: "SHIPPER" | "DRIVER";
+        signerName: string;
+        strokes: SignatureStrokes;
+        latitude: number;
+        longitude: number;
+      };
+    }) => tripService.signBillOfLading(tripId, signature),
+    onSuccess: (_, { tripId }) => {
+      queryClient.invalidateQueries({
+        queryKey: [...TRIPS_KEY, tripId, "bol"],
+      });
+    },
+  });
+}
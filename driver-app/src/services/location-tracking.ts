@@ -166,3 +166,26 @@ export function isTracking(): boolean {
 export function getActiveTripId(): string | null {
   return activeTripId;
 }
+
+/** One-off foreground position fix (e.g. to stamp a BOL signature) */
+export async function getCurrentPosition(): Promise<{
+  latitude: number;
+  longitude: number;
+} | null> {
+  if (!Location) return null;
+
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== "granted") return null;
+
+  try {
+    const position = await Location.getCurrentPositionAsync({
+      accuracy: Location.Accuracy.High,
+    });
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -3,7 +3,13 @@
  * Ported from Flutter's trip_service.dart (308 LOC)
  */
 import apiClient, { getErrorMessage } from "../api/client";
-import type { Trip, TripsResponse, TripPod } from "../types";
+import type {
+  Trip,
+  TripsResponse,
+  TripPod,
+  BillOfLading,
+  SignatureStrokes,
+} from "../types";
 import { queueStatusChange } from "./status-queue";
 
 class TripService {
@@ -114,6 +120,50 @@ class TripService {
     }
   }
 
+  /** Get the trip's bill of lading (null until generated) */
+  async getBillOfLading(
+    tripId: string
+  ): Promise<{ billOfLading: BillOfLading | null; requireSignedBol: boolean }> {
+    try {
+      const response = await apiClient.get(`/api/trips/${tripId}/bol`);
+      return response.data;
+    } catch (error) {
+      throw new Error(getErrorMessage(error));
+    }
+  }
+
+  /** Generate the bill of lading from load data */
+  async issueBillOfLading(tripId: string): Promise<BillOfLading> {
+    try {
+      const response = await apiClient.post(`/api/trips/${tripId}/bol`);
+      return response.data.billOfLading;
+    } catch (error) {
+      throw new Error(getErrorMessage(error));
+    }
+  }
+
+  /** Sign the bill of lading at pickup (shipper or driver) */
+  async signBillOfLading(
+    tripId: string,
+    signature: {
+      party: "SHIPPER" | "DRIVER";
+      signerName: string;
+      strokes: SignatureStrokes;
+      latitude: number;
+      longitude: number;
+    }
+  ): Promise<BillOfLading> {
+    try {
+      const response = await apiClient.post(
+        `/api/trips/${tripId}/bol/sign`,
+        signature
+      );
+      return response.data.billOfLading;
+    } catch (error) {
+      throw new Error(getErrorMessage(error));
+    }
+  }
+
   /** Confirm delivery (shipper) */
   async confirmDelivery(tripId: string, notes?: string): Promise<Trip> {
     try {
@@ -4,6 +4,8 @@ export type {
   TripStatus,
   Trip,
   TripPod,
+  BillOfLading,
+  SignatureStrokes,
   Notification,
   PaginationInfo,
   TripsResponse,
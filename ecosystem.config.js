@@ -40,5 +40,38 @@ module.exports = {
         PORT: 3000,
       },
     },
+    {
+      // Hardware GPS tracker TCP listener (gps-server.ts)
+      name: "freight-gps",
+      script: "npm",
+      args: "run gps:server",
+      cwd: "/var/www/freight",
+      instances: 1,
+      exec_mode: "fork",
+      autorestart: true,
+      watch: false,
+      max_memory_restart: "300M",
+
+      log_date_format: "YYYY-MM-DD HH:mm:ss Z",
+      error_file: "/var/log/freight-gps-error.log",
+      out_file: "/var/log/freight-gps-out.log",
+      merge_logs: true,
+      log_type: "json",
+
+      kill_timeout: 10000,
+
+      env: {
+        NODE_ENV: "development",
+        GPS_SERVER_PORT: 5001,
+        GPS_GT06_PORT: 5023,
+        GPS_QUECLINK_PORT: 5004,
+      },
+      env_production: {
+        NODE_ENV: "production",
+        GPS_SERVER_PORT: 5001,
+        GPS_GT06_PORT: 5023,
+        GPS_QUECLINK_PORT: 5004,
+      },
+    },
   ],
 };
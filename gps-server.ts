@@ -0,0 +1,65 @@
+/**
+ * GPS Tracker TCP Server
+ *
+ * Standalone listeners for hardware GPS trackers, run next to server.js:
+ *
+ *   npm run gps:server
+ *
+ * One port per protocol on GPS_SERVER_HOST (default 0.0.0.0):
+ * - Teltonika Codec 8 / 8E: GPS_SERVER_PORT (default 5001)
+ * - Concox GT06: GPS_GT06_PORT (default 5023)
+ * - Queclink @Track: GPS_QUECLINK_PORT (default 5004)
+ *
+ * See lib/gpsTcpServer.ts.
+ */
+
+import "dotenv/config";
+import net from "net";
+import { config } from "./lib/config";
+import { db } from "./lib/db";
+import { gt06Decoder } from "./lib/gpsProtocols/gt06";
+import { queclinkDecoder } from "./lib/gpsProtocols/queclink";
+import { teltonikaDecoder } from "./lib/gpsProtocols/teltonika";
+import { createGpsTcpServer } from "./lib/gpsTcpServer";
+
+const { serverHost } = config.gps;
+const listeners: Array<{ name: string; port: number; server: net.Server }> = [
+  {
+    name: "Teltonika",
+    port: config.gps.serverPort,
+    server: createGpsTcpServer(teltonikaDecoder),
+  },
+  {
+    name: "GT06",
+    port: config.gps.gt06Port,
+    server: createGpsTcpServer(gt06Decoder),
+  },
+  {
+    name: "Queclink",
+    port: config.gps.queclinkPort,
+    server: createGpsTcpServer(queclinkDecoder),
+  },
+];
+
+for (const { name, port, server } of listeners) {
+  server
+    .once("error", (err) => {
+      console.error(err);
+      process.exit(1);
+    })
+    .listen(port, serverHost, () => {
+      console.log(
+        `> GPS tracker server ready on tcp://${serverHost}:${port} (${name})`
+      );
+    });
+}
+
+// Trackers keep their connections open, so don't wait for them to close:
+// frames not yet ACKed are resent after reconnecting
+function shutdown() {
+  for (const { server } of listeners) server.close();
+  db.$disconnect().finally(() => process.exit(0));
+}
+
+process.on("SIGTERM", shutdown);
+process.on("SIGINT", shutdown);
@@ -39,6 +39,18 @@ jest.mock("@/lib/db", () => {
     gpsPositions: new Map(),
     gpsDevices: new Map(),
     tripPods: new Map(),
+    loadStops: new Map(),
+    loadBids: new Map(),
+    loadSchedules: new Map(),
+    loadImports: new Map(),
+    billsOfLading: new Map(),
+    laneRateIndexes: new Map(),
+    dwellSessions: new Map(),
+    detentionCharges: new Map(),
+    facilities: new Map(),
+    dockAppointments: new Map(),
+    matchWeightProfiles: new Map(),
+    matchIndexEntries: new Map(),
     disputes: new Map(),
     withdrawalRequests: new Map(),
     systemSettings: new Map(),
@@ -51,6 +63,15 @@ jest.mock("@/lib/db", () => {
     driverProfiles: new Map(),
     walletDeposits: new Map(),
     savedSearches: new Map(),
+    savedSearchMatches: new Map(),
+    routingGuides: new Map(),
+    routingGuideCarriers: new Map(),
+    carrierNetworkMembers: new Map(),
+    routeDeviations: new Map(),
+    safetyEvents: new Map(),
+    speedLimitZones: new Map(),
+    gpsRejectedPositions: new Map(),
+    automationRules: new Map(),
     ratings: new Map(),
     messages: new Map(),
   };
@@ -76,6 +97,18 @@ jest.mock("@/lib/db", () => {
   let gpsPositionIdCounter = 1;
   let gpsDeviceIdCounter = 1;
   let tripPodIdCounter = 1;
+  let loadStopIdCounter = 1;
+  let loadBidIdCounter = 1;
+  let loadScheduleIdCounter = 1;
+  let loadImportIdCounter = 1;
+  let billOfLadingIdCounter = 1;
+  let laneRateIndexIdCounter = 1;
+  let dwellSessionIdCounter = 1;
+  let detentionChargeIdCounter = 1;
+  let facilityIdCounter = 1;
+  let dockAppointmentIdCounter = 1;
+  let matchWeightProfileIdCounter = 1;
+  let matchIndexEntryIdCounter = 1;
   let disputeIdCounter = 1;
   let withdrawalRequestIdCounter = 1;
   let systemSettingsIdCounter = 1;
@@ -87,6 +120,15 @@ jest.mock("@/lib/db", () => {
   let invitationIdCounter = 1;
   let walletDepositIdCounter = 1;
   let savedSearchIdCounter = 1;
+  let savedSearchMatchIdCounter = 1;
+  let routingGuideIdCounter = 1;
+  let routingGuideCarrierIdCounter = 1;
+  let carrierNetworkMemberIdCounter = 1;
+  let routeDeviationIdCounter = 1;
+  let safetyEventIdCounter = 1;
+  let speedLimitZoneIdCounter = 1;
+  let gpsRejectedPositionIdCounter = 1;
+  let automationRuleIdCounter = 1;
   let ratingIdCounter = 1;
   let messageIdCounter = 1;
   let driverProfileIdCounter = 1;
@@ -129,6 +171,44 @@ jest.mock("@/lib/db", () => {
       shipperRatePerKmUsed: null,
       carrierRatePerKmUsed: null,
       totalKmUsed: null,
+      assignedTruckId: null,
+      // Recurring schedule link (null for one-off loads)
+      scheduleId: null,
+      scheduledFor: null,
+      // Routing guide tender in progress (lib/routingGuides.ts)
+      tenderRank: null,
+      // Private load boards (lib/carrierNetworks.ts)
+      visibility: "PUBLIC",
+      networkExclusiveHours: null,
+      publicAt: null,
+    },
+    routeDeviation: {
+      loadId: null,
+      endedAt: null,
+      escalationId: null,
+    },
+    safetyEvent: {
+      loadId: null,
+      driverId: null,
+      roadClass: null,
+    },
+    speedLimitZone: {
+      limitKmh: null,
+      isActive: true,
+    },
+    gpsRejectedPosition: {
+      speed: null,
+      accuracy: null,
+      deviceId: null,
+      loadId: null,
+      tripId: null,
+      source: null,
+      driverId: null,
+    },
+    automationRule: {
+      isEnabled: true,
+      isSystem: false,
+      priority: 0,
     },
     loadEscalation: {
       status: "OPEN",
@@ -163,6 +243,18 @@ jest.mock("@/lib/db", () => {
     },
     trip: {
       status: "ASSIGNED",
+      // LTL consolidation run (null for loads that travel alone)
+      consolidationId: null,
+      // Driving safety state (lib/drivingSafety.ts)
+      safetySampleAt: null,
+      safetySampleSpeed: null,
+      drivingSinceAt: null,
+      stoppedSinceAt: null,
+      // Trip distance state (lib/gpsFilter.ts)
+      actualDistanceKm: null,
+      distanceSampleAt: null,
+      distanceSampleLat: null,
+      distanceSampleLng: null,
     },
     loadRequest: {
       status: "PENDING",
@@ -171,6 +263,7 @@ jest.mock("@/lib/db", () => {
     },
     truckRequest: {
       status: "PENDING",
+      tenderRank: null,
     },
     matchProposal: {
       status: "PENDING",
@@ -185,6 +278,73 @@ jest.mock("@/lib/db", () => {
       status: "ACTIVE",
     },
     tripPod: {},
+    loadStop: {
+      arrivedAt: null,
+      departedAt: null,
+    },
+    loadBid: {
+      status: "ACTIVE",
+      revisionCount: 0,
+      notes: null,
+      awardedAt: null,
+      loadRequestId: null,
+    },
+    loadSchedule: {
+      status: "ACTIVE",
+      skippedDates: [],
+      generatedThrough: null,
+      endDate: null,
+    },
+    billOfLading: {
+      status: "ISSUED",
+      issuedAt: new Date(),
+      casesCount: null,
+      specialInstructions: null,
+      shipperSignerName: null,
+      shipperSignedAt: null,
+      driverSignerName: null,
+      driverSignedAt: null,
+      documentId: null,
+      fileUrl: null,
+      signedAt: null,
+    },
+    dwellSession: {
+      exitedAt: null,
+      stopId: null,
+    },
+    detentionCharge: {
+      status: "PENDING",
+      currency: "ETB",
+      journalEntryId: null,
+      postedAt: null,
+    },
+    facility: {
+      dockCount: 1,
+      slotMinutes: 60,
+      operatingDays: [1, 2, 3, 4, 5, 6],
+      utcOffsetMinutes: 180,
+      isActive: true,
+    },
+    dockAppointment: {
+      status: "BOOKED",
+      truckId: null,
+      rescheduleCount: 0,
+      cancelledAt: null,
+    },
+    matchWeightProfile: {
+      organizationId: null,
+      reliabilityWeight: 0,
+      isActive: true,
+    },
+    loadImport: {
+      status: "PENDING",
+      report: null,
+      validCount: 0,
+      createdCount: 0,
+      errorCount: 0,
+      error: null,
+      completedAt: null,
+    },
     dispute: {
       status: "OPEN",
     },
@@ -231,6 +391,18 @@ jest.mock("@/lib/db", () => {
     },
     savedSearch: {
       criteria: {},
+      alertChannel: "PUSH",
+      alertFrequency: "INSTANT",
+      quietHoursStart: null,
+      quietHoursEnd: null,
+      lastAlertedAt: null,
+    },
+    savedSearchMatch: {
+      loadId: null,
+      truckPostingId: null,
+      sentAt: null,
+      requestToken: null,
+      requestedAt: null,
     },
     message: {
       readAt: null,
@@ -273,11 +445,21 @@ jest.mock("@/lib/db", () => {
     documents:    { type: 'hasMany', default: [] },
     routeHistory: { type: 'hasMany', store: 'gpsPositions', matchFk: 'tripId',
                     sort: (a, b) => (b.timestamp || 0) - (a.timestamp || 0) },
+    gpsPositions: { type: 'hasMany', store: 'gpsPositions', matchFk: 'truckId',
+                    sort: (a, b) => (b.timestamp || 0) - (a.timestamp || 0) },
     postings:     { type: 'hasMany', store: 'truckPostings', matchFk: 'truckId' },
     // confirm/route.ts: trip.podDocuments (TripPod[] via Trip.podDocuments relation)
     podDocuments: { type: 'hasMany', store: 'tripPods', matchFk: 'tripId' },
+    // Multi-stop loads: Load.stops (route order) and LoadStop.pods
+    stops:        { type: 'hasMany', store: 'loadStops', matchFk: 'loadId',
+                    sort: (a, b) => a.sequence - b.sequence },
+    pods:         { type: 'hasMany', store: 'tripPods', matchFk: 'stopId' },
+    // Load auctions: Load.bids, LoadBid.loadRequest and LoadRequest.bid
+    bids:         { type: 'hasMany', store: 'loadBids', matchFk: 'loadId' },
+    loadRequest:  { fk: 'loadRequestId', store: 'loadRequests' },
+    bid:          { type: 'hasMany', store: 'loadBids', matchFk: 'loadRequestId', single: true },
     // Round A7: Loads assigned to a truck (reverse of Load.assignedTruckId)
-    assignedLoad: { type: 'hasMany', store: 'loads', matchFk: 'assignedTruckId' },
+    assignedLoads: { type: 'hasMany', store: 'loads', matchFk: 'assignedTruckId' },
     // Round A7: Trips belonging to a truck (hasMany via Trip.truckId)
     trips:        { type: 'hasMany', store: 'trips', matchFk: 'truckId' },
     // Round S8: WalletDeposit reverse relations
@@ -294,6 +476,18 @@ jest.mock("@/lib/db", () => {
     messages:         { type: 'hasMany', store: 'messages', matchFk: 'tripId',
                         sort: (a, b) => (a.createdAt || 0) - (b.createdAt || 0) },
     messagesSent:     { type: 'hasMany', store: 'messages', matchFk: 'senderId' },
+    // Dock appointments: Load.pickupFacility / deliveryFacility, DockAppointment.facility
+    pickupFacility:   { fk: 'pickupFacilityId',   store: 'facilities' },
+    deliveryFacility: { fk: 'deliveryFacilityId', store: 'facilities' },
+    facility:         { fk: 'facilityId',         store: 'facilities' },
+    // Match index: MatchIndexEntry.truckPosting
+    truckPosting:     { fk: 'truckPostingId',     store: 'truckPostings' },
+    // Saved search alerts: SavedSearch.user, SavedSearchMatch.savedSearch
+    user:             { fk: 'userId',             store: 'users' },
+    savedSearch:      { fk: 'savedSearchId',      store: 'savedSearches' },
+    // Routing guides: RoutingGuide.carriers in tender order
+    carriers:         { type: 'hasMany', store: 'routingGuideCarriers', matchFk: 'routingGuideId',
+                        sort: (a, b) => a.rank - b.rank },
   };
 
   function resolveCount(record, countSpec) {
@@ -303,7 +497,10 @@ jest.mock("@/lib/db", () => {
       result[field] = 0;
       if (field === 'loads' && stores.loads) {
         result[field] = Array.from(stores.loads.values()).filter(
-          (l) => l.corridorId === record.id || l.shipperId === record.id
+          (l) =>
+            l.corridorId === record.id ||
+            l.shipperId === record.id ||
+            l.scheduleId === record.id
         ).length;
       } else if (field === 'users' && stores.users) {
         result[field] = Array.from(stores.users.values()).filter(
@@ -346,6 +543,30 @@ jest.mock("@/lib/db", () => {
         } else {
           result[key] = null;
         }
+      } else if (map && map.type === 'hasMany' && map.store && stores[map.store]) {
+        // HasMany relation within select, with a simple where (equality / in)
+        let related = Array.from(stores[map.store].values()).filter((r) =>
+          map.matchFks
+            ? map.matchFks.some((fk) => r[fk] === record.id)
+            : r[map.matchFk] === record.id
+        );
+        const where = spec && typeof spec === 'object' ? spec.where : null;
+        if (where) {
+          related = related.filter((r) =>
+            Object.entries(where).every(([k, v]) =>
+              v && typeof v === 'object' && Array.isArray(v.in)
+                ? v.in.includes(r[k])
+                : v && typeof v === 'object'
+                  ? true
+                  : r[k] === v
+            )
+          );
+        }
+        if (map.sort) related.sort(map.sort);
+        if (spec && typeof spec === 'object' && spec.select) {
+          related = related.map((r) => resolveSelect(r, spec.select));
+        }
+        result[key] = map.single ? (related[0] || null) : related;
       } else {
         // Regular field
         result[key] = record[key];
@@ -387,7 +608,11 @@ jest.mock("@/lib/db", () => {
           // Apply where filter if present (basic status filter support)
           if (spec && typeof spec === 'object' && spec.where) {
             related = related.filter((r) =>
-              Object.entries(spec.where).every(([k, v]) => r[k] === v)
+              Object.entries(spec.where).every(([k, v]) =>
+                v && typeof v === 'object' && Array.isArray(v.in)
+                  ? v.in.includes(r[k])
+                  : r[k] === v
+              )
             );
           }
           // HasOne pattern: return single object instead of array
@@ -576,6 +801,10 @@ jest.mock("@/lib/db", () => {
             if (value && typeof value === "object" && value.contains !== undefined) {
               return String(r[key] || "").toLowerCase().includes(String(value.contains).toLowerCase());
             }
+            // Dates match by time
+            if (value instanceof Date) {
+              return r[key] instanceof Date && r[key].getTime() === value.getTime();
+            }
             // Handle nested relation filters (e.g., { assignedTruck: { carrierId: ... } })
             if (
               value &&
@@ -625,13 +854,39 @@ jest.mock("@/lib/db", () => {
                     if (v && typeof v === "object" && v.notIn !== undefined)
                       return !v.notIn.includes(r[k]);
                     if (v && typeof v === "object" && v.gte !== undefined)
-                      return (r[k] || 0) >= v.gte;
+                      return (
+                        (r[k] || 0) >= v.gte &&
+                        (v.lt === undefined || (r[k] || 0) < v.lt)
+                      );
                     if (v && typeof v === "object" && v.lte !== undefined)
                       return (r[k] || 0) <= v.lte;
+                    if (v === null) return r[k] == null;
                     return r[k] === v;
                   })
                 );
               }
+              // Handle AND of OR groups (e.g. geohash radius filters)
+              if (key === "AND" && Array.isArray(value)) {
+                return value.every(
+                  (condition) =>
+                    !Array.isArray(condition.OR) ||
+                    condition.OR.some((alt) =>
+                      Object.entries(alt).every(([k, v]) => {
+                        if (v === null) return r[k] == null;
+                        if (v && typeof v === "object" && v.in !== undefined)
+                          return v.in.includes(r[k]);
+                        if (v && typeof v === "object" && v.gte !== undefined)
+                          return (
+                            (r[k] || 0) >= v.gte &&
+                            (v.lt === undefined || (r[k] || 0) < v.lt)
+                          );
+                        if (v && typeof v === "object" && v.lte !== undefined)
+                          return r[k] != null && r[k] <= v.lte;
+                        return r[k] === v;
+                      })
+                    )
+                );
+              }
               // Handle { in: [...] } operator
               if (value && typeof value === "object" && value.in) {
                 return value.in.includes(r[key]);
@@ -794,6 +1049,25 @@ jest.mock("@/lib/db", () => {
           store.delete(where.id);
           count = 1;
         }
+      } else if (where && Object.keys(where).length > 0) {
+        // Field filters (e.g. { loadId: "..." } or { loadId: { in: [...] } })
+        store.forEach((record, id) => {
+          const matches = Object.entries(where).every(([key, value]) => {
+            if (value === undefined) return true;
+            if (value && typeof value === "object" && !(value instanceof Date)) {
+              if (value.in) return value.in.includes(record[key]);
+              if (value.notIn) return !value.notIn.includes(record[key]);
+              if (value.gte !== undefined) return record[key] >= value.gte;
+              if (value.lt !== undefined) return record[key] < value.lt;
+              return true; // Skip complex relation filters in mock
+            }
+            return record[key] === value;
+          });
+          if (matches) {
+            store.delete(id);
+            count++;
+          }
+        });
       } else {
         count = store.size;
         store.clear();
@@ -925,6 +1199,18 @@ jest.mock("@/lib/db", () => {
     gpsPosition: { value: gpsPositionIdCounter },
     gpsDevice: { value: gpsDeviceIdCounter },
     tripPod: { value: tripPodIdCounter },
+    loadStop: { value: loadStopIdCounter },
+    loadBid: { value: loadBidIdCounter },
+    loadSchedule: { value: loadScheduleIdCounter },
+    loadImport: { value: loadImportIdCounter },
+    billOfLading: { value: billOfLadingIdCounter },
+    laneRateIndex: { value: laneRateIndexIdCounter },
+    dwellSession: { value: dwellSessionIdCounter },
+    detentionCharge: { value: detentionChargeIdCounter },
+    facility: { value: facilityIdCounter },
+    dockAppointment: { value: dockAppointmentIdCounter },
+    matchWeightProfile: { value: matchWeightProfileIdCounter },
+    matchIndexEntry: { value: matchIndexEntryIdCounter },
     dispute: { value: disputeIdCounter },
     withdrawalRequest: { value: withdrawalRequestIdCounter },
     systemSettings: { value: systemSettingsIdCounter },
@@ -936,6 +1222,15 @@ jest.mock("@/lib/db", () => {
     invitation: { value: invitationIdCounter },
     walletDeposit: { value: walletDepositIdCounter },
     savedSearch: { value: savedSearchIdCounter },
+    savedSearchMatch: { value: savedSearchMatchIdCounter },
+    routingGuide: { value: routingGuideIdCounter },
+    routingGuideCarrier: { value: routingGuideCarrierIdCounter },
+    carrierNetworkMember: { value: carrierNetworkMemberIdCounter },
+    routeDeviation: { value: routeDeviationIdCounter },
+    safetyEvent: { value: safetyEventIdCounter },
+    speedLimitZone: { value: speedLimitZoneIdCounter },
+    gpsRejectedPosition: { value: gpsRejectedPositionIdCounter },
+    automationRule: { value: automationRuleIdCounter },
     rating: { value: ratingIdCounter },
     message: { value: messageIdCounter },
     driverProfile: { value: driverProfileIdCounter },
@@ -1298,6 +1593,66 @@ jest.mock("@/lib/db", () => {
         counters.gpsDevice
       ),
       tripPod: createModelMethods(stores.tripPods, "tripPod", counters.tripPod),
+      loadStop: createModelMethods(
+        stores.loadStops,
+        "loadStop",
+        counters.loadStop
+      ),
+      loadBid: createModelMethods(
+        stores.loadBids,
+        "loadBid",
+        counters.loadBid
+      ),
+      loadSchedule: createModelMethods(
+        stores.loadSchedules,
+        "loadSchedule",
+        counters.loadSchedule
+      ),
+      loadImport: createModelMethods(
+        stores.loadImports,
+        "loadImport",
+        counters.loadImport
+      ),
+      billOfLading: createModelMethods(
+        stores.billsOfLading,
+        "billOfLading",
+        counters.billOfLading
+      ),
+      laneRateIndex: createModelMethods(
+        stores.laneRateIndexes,
+        "laneRateIndex",
+        counters.laneRateIndex
+      ),
+      dwellSession: createModelMethods(
+        stores.dwellSessions,
+        "dwellSession",
+        counters.dwellSession
+      ),
+      detentionCharge: createModelMethods(
+        stores.detentionCharges,
+        "detentionCharge",
+        counters.detentionCharge
+      ),
+      facility: createModelMethods(
+        stores.facilities,
+        "facility",
+        counters.facility
+      ),
+      dockAppointment: createModelMethods(
+        stores.dockAppointments,
+        "dockAppointment",
+        counters.dockAppointment
+      ),
+      matchWeightProfile: createModelMethods(
+        stores.matchWeightProfiles,
+        "matchWeightProfile",
+        counters.matchWeightProfile
+      ),
+      matchIndexEntry: createModelMethods(
+        stores.matchIndexEntries,
+        "matchIndexEntry",
+        counters.matchIndexEntry
+      ),
       dispute: createModelMethods(stores.disputes, "dispute", counters.dispute),
       withdrawalRequest: createModelMethods(
         stores.withdrawalRequests,
@@ -1339,6 +1694,51 @@ jest.mock("@/lib/db", () => {
         "savedSearch",
         counters.savedSearch
       ),
+      savedSearchMatch: createModelMethods(
+        stores.savedSearchMatches,
+        "savedSearchMatch",
+        counters.savedSearchMatch
+      ),
+      routingGuide: createModelMethods(
+        stores.routingGuides,
+        "routingGuide",
+        counters.routingGuide
+      ),
+      routingGuideCarrier: createModelMethods(
+        stores.routingGuideCarriers,
+        "routingGuideCarrier",
+        counters.routingGuideCarrier
+      ),
+      carrierNetworkMember: createModelMethods(
+        stores.carrierNetworkMembers,
+        "carrierNetworkMember",
+        counters.carrierNetworkMember
+      ),
+      routeDeviation: createModelMethods(
+        stores.routeDeviations,
+        "routeDeviation",
+        counters.routeDeviation
+      ),
+      safetyEvent: createModelMethods(
+        stores.safetyEvents,
+        "safetyEvent",
+        counters.safetyEvent
+      ),
+      speedLimitZone: createModelMethods(
+        stores.speedLimitZones,
+        "speedLimitZone",
+        counters.speedLimitZone
+      ),
+      gpsRejectedPosition: createModelMethods(
+        stores.gpsRejectedPositions,
+        "gpsRejectedPosition",
+        counters.gpsRejectedPosition
+      ),
+      automationRule: createModelMethods(
+        stores.automationRules,
+        "automationRule",
+        counters.automationRule
+      ),
       rating: createModelMethods(
         stores.ratings,
         "rating",
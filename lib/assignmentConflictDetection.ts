@@ -6,6 +6,10 @@
  */
 
 import { db } from "@/lib/db";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+} from "@/lib/loadConsolidation";
 
 export interface ConflictCheck {
   hasConflict: boolean;
@@ -16,6 +20,7 @@ export interface ConflictCheck {
 export interface AssignmentConflict {
   type:
     | "TRUCK_ALREADY_ASSIGNED"
+    | "TRUCK_CAPACITY_EXCEEDED"
     | "LOAD_ALREADY_ASSIGNED"
     | "SCHEDULE_CONFLICT"
     | "DRIVER_ALREADY_ASSIGNED";
@@ -72,7 +77,22 @@ export async function checkAssignmentConflicts(
     },
   });
 
-  if (truckAssignments.length > 0) {
+  // LTL: a PARTIAL load that fits the truck's remaining capacity joins its
+  // current run, so sharing the truck and its schedule is not a conflict
+  const loadSize = await db.load.findUnique({
+    where: { id: loadId },
+    select: { weight: true, volume: true, fullPartial: true },
+  });
+  const { fit } = await checkTruckCanTakeLoad(truckId, loadSize ?? {});
+  const joinsRun = fit.ok && truckAssignments.length > 0;
+
+  if (!fit.ok && fit.reason === "TRUCK_CAPACITY_EXCEEDED") {
+    conflicts.push({
+      type: "TRUCK_CAPACITY_EXCEEDED",
+      message: consolidationErrorMessage(fit.reason),
+      details: { activeLoads: truckAssignments.length },
+    });
+  } else if (truckAssignments.length > 0 && !joinsRun) {
     const activeLoad = truckAssignments[0];
     conflicts.push({
       type: "TRUCK_ALREADY_ASSIGNED",
@@ -159,7 +179,7 @@ export async function checkAssignmentConflicts(
     },
   });
 
-  if (scheduleConflicts.length > 0) {
+  if (scheduleConflicts.length > 0 && !joinsRun) {
     scheduleConflicts.forEach((conflictLoad) => {
       conflicts.push({
         type: "SCHEDULE_CONFLICT",
@@ -0,0 +1,436 @@
+/**
+ * Batch Assignment Optimizer
+ *
+ * Pairs open loads with active truck postings for a region and pickup
+ * window in one pass, instead of one load at a time. Every load-truck pair
+ * is rated by the matching engine (findMatchingTrucks: hard filters,
+ * shipper match weights, carrier reliability) and by deadhead to pickup
+ * (calculateDHOFromLocations: the truck's GPS position, else its posting
+ * origin). The plan maximises
+ *
+ *   sum of match scores - DEADHEAD_COST_PER_KM x total deadhead km
+ *
+ * over all pairings (each load and truck used at most once), solved exactly
+ * with the Hungarian algorithm. The greedy result - each load, in pickup
+ * order, taking its best remaining truck - is returned alongside for
+ * comparison.
+ *
+ * Foundation Rule: DISPATCHER_COORDINATION_ONLY - a plan assigns nothing.
+ * The dispatcher reviews it and sends the pairs they keep as match proposals
+ * (lib/matchProposals.ts), which carriers still approve.
+ */
+
+import { z } from "zod";
+import { LoadStatus } from "@prisma/client";
+import { db } from "@/lib/db";
+import { findMatchingTrucks } from "@/lib/matchingEngine";
+import { getMatchWeightsFor } from "@/lib/matchWeights";
+import {
+  getTruckReliability,
+  needsCargoCoverage,
+} from "@/lib/matchReliability";
+import { calculateDHOFromLocations } from "@/lib/deadheadOptimization";
+import { COMMITTED_TRIP_STATUSES } from "@/lib/loadConsolidation";
+
+/** Load statuses the optimizer plans for */
+export const PLAN_LOAD_STATUSES: LoadStatus[] = ["POSTED", "SEARCHING"];
+
+/** Upper bounds on the loads and truck postings in one plan */
+export const MAX_PLAN_LOADS = 200;
+export const MAX_PLAN_POSTINGS = 200;
+
+export const DEFAULT_PLAN_WINDOW_DAYS = 7;
+const MAX_PLAN_WINDOW_DAYS = 31;
+
+/** Match score points that one km of deadhead costs in the plan objective */
+export const DEADHEAD_COST_PER_KM = 0.1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const assignmentPlanQuerySchema = z
+  .object({
+    region: z.string().trim().min(1).max(100).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    minScore: z.coerce.number().int().min(0).max(100).default(50),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, {
+    message: "from must be before to",
+    path: ["to"],
+  });
+
+export type AssignmentPlanQuery = z.infer<typeof assignmentPlanQuerySchema>;
+
+export interface PlannedAssignment {
+  loadId: string;
+  truckId: string;
+  truckPostingId: string;
+  carrierId: string;
+  carrierName: string | null;
+  licensePlate: string | null;
+  pickupCity: string | null;
+  deliveryCity: string | null;
+  pickupDate: Date;
+  matchScore: number;
+  deadheadKm: number;
+  matchReasons: string[];
+}
+
+export interface PlanSummary {
+  assignedLoads: number;
+  averageMatchScore: number;
+  totalDeadheadKm: number;
+}
+
+export interface AssignmentPlan {
+  from: Date;
+  to: Date;
+  region: string | null;
+  loadCount: number;
+  truckCount: number;
+  assignments: PlannedAssignment[];
+  unassignedLoadIds: string[];
+  summary: PlanSummary;
+  greedySummary: PlanSummary; // Same loads paired one at a time
+}
+
+/** A feasible load-truck pair and what it is worth in the plan objective */
+export interface PairValue {
+  value: number;
+  matchScore: number;
+}
+
+/**
+ * Pick at most one column per row and one row per column maximising the
+ * total value (Hungarian algorithm, O(rows^2 x cols)). Null entries are
+ * pairs that may not be chosen; rows may stay unassigned.
+ *
+ * @returns Chosen column per row, or -1
+ */
+export function solveAssignment(values: Array<Array<number | null>>): number[] {
+  const n = values.length;
+  if (n === 0) return [];
+  const realCols = values[0].length;
+  // One "unassigned" column per row keeps the problem feasible for n > cols
+  const m = realCols + n;
+  const cost = (i: number, j: number) => {
+    if (j > realCols) return 0;
+    const value = values[i - 1][j - 1];
+    return value === null ? 0 : -value;
+  };
+
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(m + 1).fill(0);
+  const p = new Array<number>(m + 1).fill(0); // row matched to each column
+  const way = new Array<number>(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array<number>(m + 1).fill(Infinity);
+    const used = new Array<boolean>(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost(i0, j) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const result = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= realCols; j++) {
+    const row = p[j] - 1;
+    if (row >= 0 && values[row][j - 1] !== null) result[row] = j - 1;
+  }
+  return result;
+}
+
+/**
+ * The one-at-a-time baseline: each row in order takes the remaining
+ * column with the best match score.
+ *
+ * @returns Chosen column per row, or -1
+ */
+export function greedyAssignment(pairs: Array<Array<PairValue | null>>) {
+  const taken = new Set<number>();
+  return pairs.map((row) => {
+    let best = -1;
+    row.forEach((pair, j) => {
+      if (!pair || taken.has(j)) return;
+      if (best === -1 || pair.matchScore > row[best]!.matchScore) best = j;
+    });
+    if (best !== -1) taken.add(best);
+    return best;
+  });
+}
+
+function summarize(
+  chosen: number[],
+  pairs: Array<Array<(PairValue & { deadheadKm: number }) | null>>
+): PlanSummary {
+  const picked = chosen.flatMap((j, i) => (j === -1 ? [] : [pairs[i][j]!]));
+  const totalScore = picked.reduce((sum, pair) => sum + pair.matchScore, 0);
+  return {
+    assignedLoads: picked.length,
+    averageMatchScore:
+      picked.length > 0
+        ? Math.round((totalScore / picked.length) * 10) / 10
+        : 0,
+    totalDeadheadKm: Math.round(
+      picked.reduce((sum, pair) => sum + pair.deadheadKm, 0)
+    ),
+  };
+}
+
+/**
+ * Build an assignment plan for open loads picking up in the window.
+ */
+export async function buildAssignmentPlan(
+  query: AssignmentPlanQuery
+): Promise<AssignmentPlan> {
+  const from = query.from ?? new Date();
+  const to =
+    query.to ?? new Date(from.getTime() + DEFAULT_PLAN_WINDOW_DAYS * DAY_MS);
+  const windowEnd = new Date(
+    Math.min(to.getTime(), from.getTime() + MAX_PLAN_WINDOW_DAYS * DAY_MS)
+  );
+  const region = query.region ?? null;
+
+  const loads = await db.load.findMany({
+    where: {
+      status: { in: PLAN_LOAD_STATUSES },
+      assignedTruckId: null,
+      pickupDate: { gte: from, lte: windowEnd },
+      ...(region && { pickupLocation: { region } }),
+    },
+    select: {
+      id: true,
+      shipperId: true,
+      pickupCity: true,
+      deliveryCity: true,
+      pickupDate: true,
+      truckType: true,
+      weight: true,
+      lengthM: true,
+      fullPartial: true,
+      isInsured: true,
+      insuranceCoverageAmount: true,
+      originLat: true,
+      originLon: true,
+      pickupLocation: { select: { latitude: true, longitude: true } },
+      deliveryLocation: { select: { latitude: true, longitude: true } },
+    },
+    orderBy: { pickupDate: "asc" },
+    take: MAX_PLAN_LOADS,
+  });
+
+  const allPostings = await db.truckPosting.findMany({
+    where: {
+      status: "ACTIVE",
+      availableFrom: { lte: windowEnd },
+      OR: [{ availableTo: null }, { availableTo: { gte: from } }],
+      truck: {
+        approvalStatus: "APPROVED",
+        isAvailable: true,
+        trips: { none: { status: { in: COMMITTED_TRIP_STATUSES } } },
+      },
+      ...(region && { originCity: { region } }),
+    },
+    include: {
+      carrier: { select: { id: true, name: true } },
+      originCity: { select: { name: true, latitude: true, longitude: true } },
+      destinationCity: {
+        select: { name: true, latitude: true, longitude: true },
+      },
+      truck: {
+        select: {
+          id: true,
+          truckType: true,
+          licensePlate: true,
+          insuranceStatus: true,
+          gpsStatus: true,
+          gpsLastSeenAt: true,
+          currentLocationLat: true,
+          currentLocationLon: true,
+        },
+      },
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_PLAN_POSTINGS,
+  });
+
+  // A truck is planned once, from its latest posting
+  const seenTrucks = new Set<string>();
+  const postings = allPostings.filter((posting) => {
+    if (!posting.truck || seenTrucks.has(posting.truckId)) return false;
+    seenTrucks.add(posting.truckId);
+    return true;
+  });
+
+  const reliabilityTrucks = postings.map((posting) => ({
+    truckId: posting.truckId,
+    carrierId: posting.carrierId,
+    insuranceStatus: posting.truck.insuranceStatus,
+    gpsStatus: posting.truck.gpsStatus,
+    gpsLastSeenAt: posting.truck.gpsLastSeenAt,
+  }));
+  // Cargo cover is rated once for all insured or high-value loads; the
+  // policy amount is checked when the carrier reviews the proposal
+  const [weightsFor, reliability, cargoReliability] = await Promise.all([
+    getMatchWeightsFor(loads.map((load) => load.shipperId)),
+    getTruckReliability(reliabilityTrucks),
+    loads.some(needsCargoCoverage)
+      ? getTruckReliability(reliabilityTrucks, {
+          isInsured: true,
+          insuranceCoverageAmount: null,
+        })
+      : null,
+  ]);
+
+  const postingIndex = new Map(postings.map((p, index) => [p.id, index]));
+  const trucksCriteria = (useCargo: boolean) =>
+    postings.map((posting) => ({
+      id: posting.id,
+      currentCity: posting.originCity?.name || "",
+      currentCityLat: posting.originCity
+        ? Number(posting.originCity.latitude)
+        : null,
+      currentCityLon: posting.originCity
+        ? Number(posting.originCity.longitude)
+        : null,
+      destinationCity: posting.destinationCity?.name || null,
+      destinationCityLat: posting.destinationCity
+        ? Number(posting.destinationCity.latitude)
+        : null,
+      destinationCityLon: posting.destinationCity
+        ? Number(posting.destinationCity.longitude)
+        : null,
+      availableDate: posting.availableFrom,
+      truckType: posting.truck.truckType,
+      maxWeight: posting.availableWeight
+        ? Number(posting.availableWeight)
+        : null,
+      lengthM: posting.availableLength ? Number(posting.availableLength) : null,
+      fullPartial: posting.fullPartial,
+      reliability:
+        ((useCargo && cargoReliability) || reliability).get(posting.truckId) ??
+        null,
+    }));
+  const baseCriteria = trucksCriteria(false);
+  const cargoCriteria = cargoReliability ? trucksCriteria(true) : baseCriteria;
+
+  const pairs = loads.map((load) => {
+    const row = new Array<(PairValue & { deadheadKm: number }) | null>(
+      postings.length
+    ).fill(null);
+    const matches = findMatchingTrucks(
+      {
+        pickupCity: load.pickupCity || "",
+        pickupCityLat: load.pickupLocation
+          ? Number(load.pickupLocation.latitude)
+          : null,
+        pickupCityLon: load.pickupLocation
+          ? Number(load.pickupLocation.longitude)
+          : null,
+        deliveryCity: load.deliveryCity || "",
+        deliveryCityLat: load.deliveryLocation
+          ? Number(load.deliveryLocation.latitude)
+          : null,
+        deliveryCityLon: load.deliveryLocation
+          ? Number(load.deliveryLocation.longitude)
+          : null,
+        pickupDate: load.pickupDate,
+        truckType: load.truckType,
+        weight: load.weight ? Number(load.weight) : null,
+        lengthM: load.lengthM ? Number(load.lengthM) : null,
+        fullPartial: load.fullPartial,
+        shipperId: load.shipperId,
+      },
+      needsCargoCoverage(load) ? cargoCriteria : baseCriteria,
+      query.minScore,
+      weightsFor
+    );
+
+    for (const match of matches) {
+      const j = postingIndex.get(match.id)!;
+      const deadheadKm = Math.round(
+        calculateDHOFromLocations(postings[j].truck, load) ?? match.dhOriginKm
+      );
+      row[j] = {
+        matchScore: match.matchScore,
+        deadheadKm,
+        value: match.matchScore - deadheadKm * DEADHEAD_COST_PER_KM,
+      };
+    }
+    return { row, reasons: new Map(matches.map((m) => [m.id, m])) };
+  });
+
+  const values = pairs.map(({ row }) => row.map((pair) => pair?.value ?? null));
+  const chosen = solveAssignment(values);
+  const greedy = greedyAssignment(pairs.map(({ row }) => row));
+
+  const assignments: PlannedAssignment[] = [];
+  const unassignedLoadIds: string[] = [];
+  chosen.forEach((j, i) => {
+    const load = loads[i];
+    if (j === -1) {
+      unassignedLoadIds.push(load.id);
+      return;
+    }
+    const posting = postings[j];
+    const pair = pairs[i].row[j]!;
+    assignments.push({
+      loadId: load.id,
+      truckId: posting.truckId,
+      truckPostingId: posting.id,
+      carrierId: posting.carrierId,
+      carrierName: posting.carrier?.name ?? null,
+      licensePlate: posting.truck.licensePlate,
+      pickupCity: load.pickupCity,
+      deliveryCity: load.deliveryCity,
+      pickupDate: load.pickupDate,
+      matchScore: pair.matchScore,
+      deadheadKm: pair.deadheadKm,
+      matchReasons: pairs[i].reasons.get(posting.id)?.matchReasons ?? [],
+    });
+  });
+
+  const pairRows = pairs.map(({ row }) => row);
+  return {
+    from,
+    to: windowEnd,
+    region,
+    loadCount: loads.length,
+    truckCount: postings.length,
+    assignments,
+    unassignedLoadIds,
+    summary: summarize(chosen, pairRows),
+    greedySummary: summarize(greedy, pairRows),
+  };
+}
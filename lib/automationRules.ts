@@ -6,7 +6,11 @@
  */
 
 import { db } from "@/lib/db";
-import { LoadStatus } from "@prisma/client";
+import {
+  LoadStatus,
+  SafetyEventSeverity,
+  SafetyEventType,
+} from "@prisma/client";
 import { calculateDistanceKm } from "@/lib/geo";
 
 // ============================================================================
@@ -43,6 +47,12 @@ export interface RuleCondition {
   stalledThresholdKm?: number; // Km threshold for stalled detection
   stalledCheckHours?: number; // Hours to check for stalled movement
 
+  // Driving safety conditions (lib/drivingSafety.ts)
+  safetyEventTypes?: SafetyEventType[]; // Only count these types (default: all)
+  safetySeverities?: SafetyEventSeverity[]; // Default: SEVERE only
+  safetyWindowHours?: number; // Count events this recent
+  minSafetyEvents?: number; // Events needed to trigger
+
   // Threshold conditions
   minValue?: number;
   maxValue?: number;
@@ -221,6 +231,12 @@ export async function evaluateRule(
         conditions
       ));
       break;
+    case "SAFETY_BASED":
+      ({ matched, reason, metadata } = await evaluateSafetyBased(
+        context,
+        conditions
+      ));
+      break;
     case "CUSTOM":
       ({ matched, reason, metadata } = await evaluateCustom(
         context,
@@ -480,6 +496,56 @@ async function evaluateThresholdBased(
   };
 }
 
+/**
+ * Evaluate driving safety rules (severe speeding, harsh driving)
+ */
+async function evaluateSafetyBased(
+  context: RuleEvaluationContext,
+  conditions: RuleCondition
+): Promise<{
+  matched: boolean;
+  reason: string;
+  metadata: Record<string, unknown>;
+}> {
+  const { loadId, currentTime } = context;
+  const windowHours = conditions.safetyWindowHours || 24;
+  const minEvents = conditions.minSafetyEvents || 1;
+  const severities = conditions.safetySeverities || ["SEVERE"];
+
+  const events = await db.safetyEvent.findMany({
+    where: {
+      loadId,
+      severity: { in: severities },
+      ...(conditions.safetyEventTypes && {
+        type: { in: conditions.safetyEventTypes },
+      }),
+      endedAt: {
+        gte: new Date(currentTime.getTime() - windowHours * 60 * 60 * 1000),
+      },
+    },
+    select: { id: true, type: true },
+  });
+
+  if (events.length >= minEvents) {
+    const types = [...new Set(events.map((e) => e.type))];
+    return {
+      matched: true,
+      reason: `${events.length} ${severities.join("/")} safety event(s) in ${windowHours}h: ${types.join(", ")}`,
+      metadata: {
+        safetyEventIds: events.map((e) => e.id),
+        safetyEventTypes: types,
+        windowHours,
+      },
+    };
+  }
+
+  return {
+    matched: false,
+    reason: "No safety condition met",
+    metadata: {},
+  };
+}
+
 /**
  * Evaluate custom JavaScript-based rules
  */
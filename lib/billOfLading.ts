@@ -0,0 +1,292 @@
+/**
+ * Electronic Bill of Lading (eBOL)
+ *
+ * A BOL is generated for a trip from its load data (cargo, weight, cases,
+ * insurance, special instructions). At pickup the driver app captures the
+ * shipper's and the driver's signatures, each with a timestamp and GPS
+ * position. Once both have signed, the BOL is rendered to PDF, stored as a
+ * BOL Document on the load and linked from the trip's BillOfLading record.
+ *
+ * Shippers can require a signed BOL before their trips move to IN_TRANSIT
+ * (Organization.requireSignedBol).
+ */
+
+import { BillOfLading } from "@prisma/client";
+import { db } from "./db";
+import { uploadDocument } from "./storage";
+import { formatDate } from "./formatters";
+import { renderTextPdf, PdfLine, SignatureStrokes } from "./pdf";
+
+export type BolSignatureParty = "SHIPPER" | "DRIVER";
+
+export interface BolSignatureInput {
+  party: BolSignatureParty;
+  signerName: string;
+  strokes: SignatureStrokes;
+  latitude: number;
+  longitude: number;
+  signedById: string;
+}
+
+function bolNumberForTrip(tripId: string): string {
+  return `BOL-${tripId.slice(-8).toUpperCase()}`;
+}
+
+/**
+ * Generate the BOL for a trip from its load data.
+ * Returns the existing BOL if the trip already has one.
+ */
+export async function issueBillOfLading(tripId: string, issuedById: string) {
+  const existing = await db.billOfLading.findUnique({ where: { tripId } });
+  if (existing) return existing;
+
+  const trip = await db.trip.findUnique({
+    where: { id: tripId },
+    include: { load: true },
+  });
+  if (!trip?.load) return null;
+
+  const load = trip.load;
+  return db.billOfLading.create({
+    data: {
+      bolNumber: bolNumberForTrip(trip.id),
+      tripId: trip.id,
+      loadId: load.id,
+      cargoDescription: load.cargoDescription,
+      weight: load.weight,
+      casesCount: load.casesCount,
+      isInsured: load.isInsured,
+      insuranceProvider: load.insuranceProvider,
+      insurancePolicyNumber: load.insurancePolicyNumber,
+      insuranceCoverageAmount: load.insuranceCoverageAmount,
+      specialInstructions: load.specialInstructions,
+      issuedById,
+    },
+  });
+}
+
+/**
+ * Record one party's signature. When both the shipper and the driver have
+ * signed, the signed PDF is generated and the BOL becomes SIGNED.
+ */
+export async function signBillOfLading(
+  bol: BillOfLading,
+  input: BolSignatureInput
+) {
+  const signedAt = new Date();
+  const signature =
+    input.party === "SHIPPER"
+      ? {
+          shipperSignerName: input.signerName,
+          shipperSignature: input.strokes,
+          shipperSignedAt: signedAt,
+          shipperSignedLat: input.latitude,
+          shipperSignedLng: input.longitude,
+        }
+      : {
+          driverSignerName: input.signerName,
+          driverSignature: input.strokes,
+          driverSignedAt: signedAt,
+          driverSignedLat: input.latitude,
+          driverSignedLng: input.longitude,
+          driverSignedById: input.signedById,
+        };
+
+  const updated = await db.billOfLading.update({
+    where: { id: bol.id },
+    data: signature,
+  });
+
+  if (!updated.shipperSignedAt || !updated.driverSignedAt) return updated;
+
+  return storeSignedBillOfLading(updated);
+}
+
+function formatSignedAt(at: Date | null, lat: unknown, lng: unknown): string {
+  if (!at) return "Not signed";
+  return `Signed ${formatDate(at)} at ${new Date(at).toISOString().slice(11, 16)} UTC, GPS ${Number(lat).toFixed(5)}, ${Number(lng).toFixed(5)}`;
+}
+
+/**
+ * Lay out the BOL as PDF lines
+ */
+export async function buildBillOfLadingLines(
+  bol: BillOfLading
+): Promise<PdfLine[]> {
+  const trip = await db.trip.findUnique({
+    where: { id: bol.tripId },
+    include: {
+      load: true,
+      shipper: { select: { name: true, contactPhone: true } },
+      carrier: { select: { name: true, contactPhone: true } },
+      truck: { select: { licensePlate: true, truckType: true } },
+      driver: { select: { firstName: true, lastName: true, phone: true } },
+    },
+  });
+
+  const load = trip?.load;
+  const driverName = trip?.driver
+    ? [trip.driver.firstName, trip.driver.lastName].filter(Boolean).join(" ")
+    : null;
+
+  const lines: PdfLine[] = [
+    { text: "BILL OF LADING", size: 18, bold: true },
+    { text: `BOL number: ${bol.bolNumber}`, gapBefore: 6 },
+    { text: `Load reference: ${bol.loadId}` },
+    { text: `Issued: ${formatDate(bol.issuedAt)}` },
+    { text: "SHIPPER", bold: true, gapBefore: 8 },
+    {
+      text: trip?.shipper
+        ? `${trip.shipper.name}, ${trip.shipper.contactPhone}`
+        : "Unknown",
+    },
+    { text: "CARRIER", bold: true, gapBefore: 8 },
+    {
+      text: trip?.carrier
+        ? `${trip.carrier.name}, ${trip.carrier.contactPhone}`
+        : "Unknown",
+    },
+    {
+      text: trip?.truck
+        ? `Truck: ${trip.truck.licensePlate} (${trip.truck.truckType})`
+        : "Truck: Unknown",
+    },
+    ...(driverName
+      ? [
+          {
+            text: `Driver: ${driverName}${trip?.driver?.phone ? `, ${trip.driver.phone}` : ""}`,
+          },
+        ]
+      : []),
+    { text: "ROUTE", bold: true, gapBefore: 8 },
+    {
+      text: `From: ${[load?.pickupCity, load?.pickupAddress].filter(Boolean).join(" - ")}`,
+    },
+    {
+      text: `To: ${[load?.deliveryCity, load?.deliveryAddress].filter(Boolean).join(" - ")}`,
+    },
+    { text: "CARGO", bold: true, gapBefore: 8 },
+    { text: bol.cargoDescription },
+    { text: `Weight: ${Number(bol.weight).toLocaleString("en-US")} kg` },
+    {
+      text: `Cases / pallets: ${bol.casesCount ?? "Not specified"}`,
+    },
+    {
+      text: bol.isInsured
+        ? `Insurance: ${[
+            bol.insuranceProvider,
+            bol.insurancePolicyNumber && `policy ${bol.insurancePolicyNumber}`,
+            bol.insuranceCoverageAmount &&
+              `coverage ETB ${Number(bol.insuranceCoverageAmount).toLocaleString("en-US")}`,
+          ]
+            .filter(Boolean)
+            .join(", ")}`
+        : "Insurance: Not insured",
+    },
+  ];
+
+  if (bol.specialInstructions) {
+    lines.push(
+      { text: "SPECIAL INSTRUCTIONS", bold: true, gapBefore: 8 },
+      { text: bol.specialInstructions }
+    );
+  }
+
+  lines.push(
+    { text: "SIGNATURES AT PICKUP", bold: true, gapBefore: 12 },
+    {
+      text: `Shipper: ${bol.shipperSignerName ?? ""}`,
+      gapBefore: 4,
+      signature: (bol.shipperSignature as SignatureStrokes | null) ?? [],
+    },
+    {
+      text: formatSignedAt(
+        bol.shipperSignedAt,
+        bol.shipperSignedLat,
+        bol.shipperSignedLng
+      ),
+      size: 8,
+    },
+    {
+      text: `Driver: ${bol.driverSignerName ?? ""}`,
+      gapBefore: 8,
+      signature: (bol.driverSignature as SignatureStrokes | null) ?? [],
+    },
+    {
+      text: formatSignedAt(
+        bol.driverSignedAt,
+        bol.driverSignedLat,
+        bol.driverSignedLng
+      ),
+      size: 8,
+    },
+    {
+      text: "The carrier acknowledges receipt of the cargo described above in apparent good order unless noted.",
+      size: 8,
+      gapBefore: 16,
+    }
+  );
+
+  return lines;
+}
+
+/**
+ * Render the signed BOL, store it as a BOL Document on the load and mark
+ * the BOL SIGNED
+ */
+async function storeSignedBillOfLading(bol: BillOfLading) {
+  const pdf = renderTextPdf(await buildBillOfLadingLines(bol));
+  const fileName = `${bol.bolNumber.toLowerCase()}.pdf`;
+
+  const upload = await uploadDocument(
+    { buffer: pdf, name: fileName, type: "application/pdf" },
+    "bol",
+    bol.loadId
+  );
+  if (!upload.success || !upload.url) {
+    throw new Error(upload.error || "Bill of lading upload failed");
+  }
+
+  const document = await db.document.create({
+    data: {
+      loadId: bol.loadId,
+      type: "BOL",
+      fileName,
+      fileUrl: upload.url,
+      fileSize: pdf.length,
+      mimeType: "application/pdf",
+      description: `Signed bill of lading ${bol.bolNumber}`,
+    },
+  });
+
+  return db.billOfLading.update({
+    where: { id: bol.id },
+    data: {
+      status: "SIGNED",
+      documentId: document.id,
+      fileUrl: upload.url,
+      signedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * True when the trip's shipper requires a signed BOL before pickup and the
+ * trip does not have one yet
+ */
+export async function isSignedBolRequired(trip: {
+  id: string;
+  shipperId: string;
+}): Promise<boolean> {
+  const shipper = await db.organization.findUnique({
+    where: { id: trip.shipperId },
+    select: { requireSignedBol: true },
+  });
+  if (!shipper?.requireSignedBol) return false;
+
+  const bol = await db.billOfLading.findUnique({
+    where: { tripId: trip.id },
+    select: { status: true },
+  });
+  return bol?.status !== "SIGNED";
+}
@@ -0,0 +1,477 @@
+/**
+ * Carrier Networks (private load boards)
+ *
+ * A shipper's carrier network is the carriers it has vetted. Every load has
+ * a visibility:
+ * - PUBLIC: every verified carrier, as before
+ * - NETWORK_ONLY: ACTIVE members of the shipper's network only
+ * - NETWORK_FIRST: network members from posting, everyone from
+ *   Load.publicAt (posting time + networkExclusiveHours)
+ *
+ * Conventions:
+ * - A membership is INVITED by the shipper or REQUESTED by the carrier and
+ *   turns ACTIVE when the other side accepts; either side may remove it
+ * - Visibility applies wherever carriers find loads: the /api/loads board
+ *   (web and mobile), load detail, load requests and bids, the match index
+ *   and live matching, the tour planner, return-load suggestions and
+ *   saved-search alerts. Shippers, dispatchers and admins are unaffected
+ * - The release-network-loads cron turns NETWORK_FIRST loads PUBLIC once
+ *   publicAt has passed and re-indexes their matches (releaseNetworkLoads);
+ *   the board and load detail already open them at publicAt
+ */
+
+import { z } from "zod";
+import { CarrierNetworkMember, LoadVisibility, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { CacheInvalidation } from "@/lib/cache";
+import {
+  MATCHABLE_LOAD_STATUSES,
+  refreshLoadMatches,
+  refreshPostingMatches,
+} from "@/lib/matchIndex";
+import { notifyOrganization, NotificationType } from "@/lib/notifications";
+import { CARRIER_ORG_TYPES } from "@/lib/routingGuides";
+
+/** Longest NETWORK_FIRST window (7 days) */
+export const MAX_NETWORK_EXCLUSIVE_HOURS = 168;
+
+/** Load create/update fields for the private load board */
+export const loadVisibilityFields = {
+  visibility: z.enum(["PUBLIC", "NETWORK_ONLY", "NETWORK_FIRST"]),
+  networkExclusiveHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_NETWORK_EXCLUSIVE_HOURS),
+};
+
+/**
+ * Check visibility settings on a load create/update payload.
+ *
+ * NETWORK_FIRST loads need the hours they stay with the network.
+ *
+ * @returns Error message, or null when the settings are consistent
+ */
+export function validateVisibilitySettings(data: {
+  visibility?: string | null;
+  networkExclusiveHours?: number | null;
+}): string | null {
+  if (data.visibility === "NETWORK_FIRST" && !data.networkExclusiveHours) {
+    return "Network-first loads require the hours before they go public";
+  }
+  return null;
+}
+
+/**
+ * Visibility columns to store for a load. publicAt is only set for a posted
+ * NETWORK_FIRST load; the window runs from its posting time.
+ */
+export function loadVisibilityData(
+  settings: {
+    visibility?: LoadVisibility | null;
+    networkExclusiveHours?: number | null;
+  },
+  postedAt: Date | null
+): {
+  visibility: LoadVisibility;
+  networkExclusiveHours: number | null;
+  publicAt: Date | null;
+} {
+  const visibility = settings.visibility ?? "PUBLIC";
+  if (visibility !== "NETWORK_FIRST") {
+    return { visibility, networkExclusiveHours: null, publicAt: null };
+  }
+  const hours = settings.networkExclusiveHours ?? null;
+  return {
+    visibility,
+    networkExclusiveHours: hours,
+    publicAt:
+      postedAt && hours
+        ? new Date(postedAt.getTime() + hours * 60 * 60 * 1000)
+        : null,
+  };
+}
+
+// ─── Visibility ─────────────────────────────────────────────────────────────
+
+type VisibilityLoad = {
+  shipperId: string;
+  visibility: LoadVisibility;
+  publicAt: Date | null;
+};
+
+/** Whether every carrier may see the load */
+export function isLoadPublic(load: VisibilityLoad, now: Date = new Date()) {
+  return (
+    load.visibility === "PUBLIC" ||
+    (load.visibility === "NETWORK_FIRST" &&
+      load.publicAt != null &&
+      load.publicAt <= now)
+  );
+}
+
+/**
+ * Whether a carrier in the given shippers' networks may see the load
+ */
+export function isLoadVisible(
+  load: VisibilityLoad,
+  networkShipperIds: string[],
+  now: Date = new Date()
+): boolean {
+  return isLoadPublic(load, now) || networkShipperIds.includes(load.shipperId);
+}
+
+/**
+ * Load filter for a carrier in the given shippers' networks. Combine with
+ * other OR filters (such as geohash radius filters) through AND.
+ */
+export function visibleLoadsWhere(
+  networkShipperIds: string[],
+  now: Date = new Date()
+): Prisma.LoadWhereInput {
+  return {
+    OR: [
+      { visibility: "PUBLIC" },
+      { visibility: "NETWORK_FIRST", publicAt: { lte: now } },
+      ...(networkShipperIds.length > 0
+        ? [{ shipperId: { in: networkShipperIds } }]
+        : []),
+    ],
+  };
+}
+
+/** Shippers whose network the carrier is an ACTIVE member of */
+export async function getNetworkShipperIds(
+  carrierId: string | null | undefined
+): Promise<string[]> {
+  if (!carrierId) return [];
+  const memberships = await db.carrierNetworkMember.findMany({
+    where: { carrierId, status: "ACTIVE" },
+    select: { shipperId: true },
+  });
+  return memberships.map((m) => m.shipperId);
+}
+
+/** ACTIVE member carriers of a shipper's network */
+export async function getNetworkCarrierIds(
+  shipperId: string
+): Promise<string[]> {
+  const memberships = await db.carrierNetworkMember.findMany({
+    where: { shipperId, status: "ACTIVE" },
+    select: { carrierId: true },
+  });
+  return memberships.map((m) => m.carrierId);
+}
+
+/**
+ * Network shippers for each of several carriers, for checks over many
+ * carriers' postings at once
+ */
+export async function getNetworkShipperIdsByCarrier(
+  carrierIds: string[]
+): Promise<Map<string, string[]>> {
+  const byCarrier = new Map<string, string[]>(carrierIds.map((id) => [id, []]));
+  if (carrierIds.length === 0) return byCarrier;
+
+  const memberships = await db.carrierNetworkMember.findMany({
+    where: { carrierId: { in: carrierIds }, status: "ACTIVE" },
+    select: { carrierId: true, shipperId: true },
+  });
+  for (const m of memberships) {
+    byCarrier.get(m.carrierId)?.push(m.shipperId);
+  }
+  return byCarrier;
+}
+
+/**
+ * Whether a carrier organization may see the load. Public loads need no
+ * network lookup.
+ */
+export async function isLoadVisibleToCarrier(
+  load: VisibilityLoad,
+  carrierId: string | null | undefined,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (isLoadPublic(load, now)) return true;
+  return isLoadVisible(load, await getNetworkShipperIds(carrierId), now);
+}
+
+// ─── Memberships ────────────────────────────────────────────────────────────
+
+/** The organization acting on a membership */
+export interface NetworkParty {
+  userId: string;
+  organizationId: string;
+  role: "SHIPPER" | "CARRIER";
+}
+
+/**
+ * The caller as a network party, or null for roles without networks
+ */
+export function toNetworkParty(session: {
+  userId: string;
+  role: string;
+  organizationId?: string | null;
+}): NetworkParty | null {
+  if (
+    (session.role !== "SHIPPER" && session.role !== "CARRIER") ||
+    !session.organizationId
+  ) {
+    return null;
+  }
+  return {
+    userId: session.userId,
+    organizationId: session.organizationId,
+    role: session.role,
+  };
+}
+
+export type NetworkMembershipResult =
+  | { membership: CarrierNetworkMember }
+  | { error: string; status: number };
+
+/** POST /api/carrier-networks body: the organization on the other side */
+export const addNetworkMemberSchema = z.object({
+  organizationId: z.string().min(1),
+});
+
+/** The status a membership waits in while `party` has to accept it */
+function awaitingStatus(party: NetworkParty) {
+  return party.role === "SHIPPER" ? "REQUESTED" : "INVITED";
+}
+
+/**
+ * Network changes alter which loads the carrier sees: clear cached board
+ * pages and re-match the carrier's postings. Never throws.
+ */
+async function refreshCarrierVisibility(carrierId: string): Promise<void> {
+  try {
+    await CacheInvalidation.allListings();
+    const postings = await db.truckPosting.findMany({
+      where: { carrierId, status: "ACTIVE" },
+      select: { id: true },
+    });
+    for (const posting of postings) {
+      await refreshPostingMatches(posting.id);
+    }
+  } catch (error) {
+    logger.error("Carrier network refresh failed", error, { carrierId });
+  }
+}
+
+function notifyNetworkUpdate(
+  organizationId: string,
+  title: string,
+  message: string,
+  membershipId: string
+) {
+  notifyOrganization({
+    organizationId,
+    type: NotificationType.CARRIER_NETWORK_UPDATED,
+    title,
+    message,
+    metadata: { membershipId },
+  }).catch((err) => logger.error("Carrier network notification failed", err));
+}
+
+async function activate(
+  membership: CarrierNetworkMember,
+  party: NetworkParty
+): Promise<NetworkMembershipResult> {
+  const updated = await db.carrierNetworkMember.update({
+    where: { id: membership.id },
+    data: { status: "ACTIVE", joinedAt: new Date() },
+  });
+  await refreshCarrierVisibility(updated.carrierId);
+
+  const actor = await db.organization.findUnique({
+    where: { id: party.organizationId },
+    select: { name: true },
+  });
+  notifyNetworkUpdate(
+    party.role === "SHIPPER" ? updated.carrierId : updated.shipperId,
+    "Carrier Network Joined",
+    party.role === "SHIPPER"
+      ? `${actor?.name ?? "The shipper"} approved your request to join its carrier network.`
+      : `${actor?.name ?? "The carrier"} accepted your carrier network invitation.`,
+    updated.id
+  );
+  return { membership: updated };
+}
+
+/**
+ * Invite a carrier (shipper) or ask to join a shipper's network (carrier).
+ * When the other side already asked, the membership turns ACTIVE at once.
+ */
+export async function addNetworkMember(
+  party: NetworkParty,
+  counterpartId: string
+): Promise<NetworkMembershipResult> {
+  const isShipper = party.role === "SHIPPER";
+  const counterpart = await db.organization.findFirst({
+    where: {
+      id: counterpartId,
+      type: isShipper ? { in: CARRIER_ORG_TYPES } : "SHIPPER",
+    },
+    select: { id: true, name: true },
+  });
+  if (!counterpart) {
+    return {
+      error: isShipper ? "Carrier not found" : "Shipper not found",
+      status: 404,
+    };
+  }
+
+  const shipperId = isShipper ? party.organizationId : counterpart.id;
+  const carrierId = isShipper ? counterpart.id : party.organizationId;
+  const existing = await db.carrierNetworkMember.findFirst({
+    where: { shipperId, carrierId },
+  });
+
+  if (existing?.status === "ACTIVE") {
+    return { error: "Carrier is already in the network", status: 409 };
+  }
+  if (existing?.status === awaitingStatus(party)) {
+    return activate(existing, party);
+  }
+  if (existing) {
+    return {
+      error: isShipper
+        ? "Carrier was already invited"
+        : "Request to join was already sent",
+      status: 409,
+    };
+  }
+
+  const membership = await db.carrierNetworkMember.create({
+    data: {
+      shipperId,
+      carrierId,
+      status: isShipper ? "INVITED" : "REQUESTED",
+      createdById: party.userId,
+    },
+  });
+
+  const requester = await db.organization.findUnique({
+    where: { id: party.organizationId },
+    select: { name: true },
+  });
+  notifyNetworkUpdate(
+    counterpart.id,
+    isShipper ? "Carrier Network Invitation" : "Carrier Network Request",
+    isShipper
+      ? `${requester?.name ?? "A shipper"} invited you to its carrier network.`
+      : `${requester?.name ?? "A carrier"} asked to join your carrier network.`,
+    membership.id
+  );
+  return { membership };
+}
+
+/** A membership the party is one side of, or null */
+async function findPartyMembership(id: string, party: NetworkParty) {
+  const membership = await db.carrierNetworkMember.findUnique({
+    where: { id },
+  });
+  if (!membership) return null;
+  const ownerId =
+    party.role === "SHIPPER" ? membership.shipperId : membership.carrierId;
+  return ownerId === party.organizationId ? membership : null;
+}
+
+/**
+ * Accept an invitation (carrier) or approve a join request (shipper)
+ */
+export async function acceptNetworkMember(
+  id: string,
+  party: NetworkParty
+): Promise<NetworkMembershipResult> {
+  const membership = await findPartyMembership(id, party);
+  if (!membership) {
+    return { error: "Network membership not found", status: 404 };
+  }
+  if (membership.status !== awaitingStatus(party)) {
+    return {
+      error:
+        membership.status === "ACTIVE"
+          ? "Carrier is already in the network"
+          : "Waiting for the other side to accept",
+      status: 409,
+    };
+  }
+  return activate(membership, party);
+}
+
+/**
+ * Remove a carrier, decline an invitation or request, or leave a network
+ */
+export async function removeNetworkMember(
+  id: string,
+  party: NetworkParty
+): Promise<NetworkMembershipResult> {
+  const membership = await findPartyMembership(id, party);
+  if (!membership) {
+    return { error: "Network membership not found", status: 404 };
+  }
+
+  await db.carrierNetworkMember.delete({ where: { id } });
+  if (membership.status === "ACTIVE") {
+    await refreshCarrierVisibility(membership.carrierId);
+  }
+  return { membership };
+}
+
+// ─── NETWORK_FIRST release ──────────────────────────────────────────────────
+
+/**
+ * Open NETWORK_FIRST loads whose network window has passed to every
+ * carrier, re-indexing their matches
+ *
+ * Loads are made PUBLIC one at a time with a guarded update, so concurrent
+ * runs release each load once.
+ */
+export async function releaseNetworkLoads(
+  now: Date = new Date()
+): Promise<{ checked: number; released: number }> {
+  const due = await db.load.findMany({
+    where: { visibility: "NETWORK_FIRST", publicAt: { lte: now } },
+    select: {
+      id: true,
+      status: true,
+      shipperId: true,
+      networkExclusiveHours: true,
+    },
+  });
+
+  let released = 0;
+  for (const load of due) {
+    try {
+      const { count } = await db.load.updateMany({
+        where: { id: load.id, visibility: "NETWORK_FIRST" },
+        data: { visibility: "PUBLIC" },
+      });
+      // Loads no longer on the board only need the flag cleared
+      if (
+        count === 0 ||
+        !(MATCHABLE_LOAD_STATUSES as readonly string[]).includes(load.status)
+      ) {
+        continue;
+      }
+
+      await db.loadEvent.create({
+        data: {
+          loadId: load.id,
+          eventType: "NETWORK_RELEASED",
+          description: `Network window of ${load.networkExclusiveHours} h ended; load opened to all carriers`,
+        },
+      });
+      await CacheInvalidation.load(load.id, load.shipperId);
+      await refreshLoadMatches(load.id);
+      released++;
+    } catch (error) {
+      logger.error("Network load release failed", error, { loadId: load.id });
+    }
+  }
+
+  return { checked: due.length, released };
+}
@@ -121,8 +121,11 @@ export interface FeatureFlagsConfig {
 }
 
 export interface GpsConfig {
+  /** Teltonika tracker port */
   serverPort: number;
   serverHost: string;
+  gt06Port: number;
+  queclinkPort: number;
 }
 
 export interface PaymentConfig {
@@ -336,6 +339,8 @@ function buildConfig(): Config {
     gps: {
       serverPort: getEnvInt("GPS_SERVER_PORT", 5001),
       serverHost: getEnv("GPS_SERVER_HOST", "0.0.0.0"),
+      gt06Port: getEnvInt("GPS_GT06_PORT", 5023),
+      queclinkPort: getEnvInt("GPS_QUECLINK_PORT", 5004),
     },
 
     payment: {
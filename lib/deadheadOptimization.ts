@@ -6,12 +6,59 @@
  */
 
 import { db } from "@/lib/db";
+import { getNetworkShipperIds, visibleLoadsWhere } from "@/lib/carrierNetworks";
 import { calculateDistanceKm } from "@/lib/geo";
+import { withinRadius } from "@/lib/geoIndex";
 import { LoadStatus, Prisma, TruckType } from "@prisma/client";
 
 // Re-export for backwards compatibility
 export { calculateDistanceKm as calculateDistance } from "@/lib/geo";
 
+type Coordinate = Prisma.Decimal | number | null;
+
+/**
+ * DH-O from already-loaded coordinates (see calculateDHO). Lets callers
+ * pairing many trucks and loads fetch them in one query each.
+ *
+ * @returns Distance in km, or null when either location is unknown
+ */
+export function calculateDHOFromLocations(
+  truck: { currentLocationLat: Coordinate; currentLocationLon: Coordinate },
+  load: {
+    originLat: Coordinate;
+    originLon: Coordinate;
+    pickupLocation: { latitude: Coordinate; longitude: Coordinate } | null;
+  }
+): number | null {
+  if (!truck.currentLocationLat || !truck.currentLocationLon) {
+    return null; // No location data
+  }
+
+  // Use explicit coordinates if available, otherwise use location
+  const pickupLat = load.originLat
+    ? Number(load.originLat)
+    : load.pickupLocation
+      ? Number(load.pickupLocation.latitude)
+      : null;
+
+  const pickupLon = load.originLon
+    ? Number(load.originLon)
+    : load.pickupLocation
+      ? Number(load.pickupLocation.longitude)
+      : null;
+
+  if (!pickupLat || !pickupLon) {
+    return null;
+  }
+
+  return calculateDistanceKm(
+    Number(truck.currentLocationLat),
+    Number(truck.currentLocationLon),
+    pickupLat,
+    pickupLon
+  );
+}
+
 /**
  * Calculate DH-O (Deadhead to Origin)
  * Distance from truck's current location to load's pickup location
@@ -53,29 +100,7 @@ export async function calculateDHO(
     return null;
   }
 
-  // Use explicit coordinates if available, otherwise use location
-  const pickupLat = load.originLat
-    ? Number(load.originLat)
-    : load.pickupLocation
-      ? Number(load.pickupLocation.latitude)
-      : null;
-
-  const pickupLon = load.originLon
-    ? Number(load.originLon)
-    : load.pickupLocation
-      ? Number(load.pickupLocation.longitude)
-      : null;
-
-  if (!pickupLat || !pickupLon) {
-    return null;
-  }
-
-  return calculateDistanceKm(
-    Number(truck.currentLocationLat),
-    Number(truck.currentLocationLon),
-    pickupLat,
-    pickupLon
-  );
+  return calculateDHOFromLocations(truck, load);
 }
 
 /**
@@ -264,11 +289,26 @@ export async function findLoadsWithMinimalDHO(
     return [];
   }
 
-  // Build where clause
+  const truck = await db.truck.findUnique({
+    where: { id: truckId },
+    select: { carrierId: true },
+  });
+
+  // Build where clause: the geohash index narrows to loads near the truck.
+  // Only loads the truck's carrier may see on the marketplace: network
+  // loads of other shippers and loads tendered to a carrier are left out.
   const where: Prisma.LoadWhereInput = {
     status: {
       in: [LoadStatus.POSTED, LoadStatus.SEARCHING, LoadStatus.OFFERED],
     },
+    tenderRank: null,
+    AND: [visibleLoadsWhere(await getNetworkShipperIds(truck?.carrierId))],
+    ...withinRadius(
+      "originGeohash",
+      location.latitude,
+      location.longitude,
+      maxDHO
+    ),
   };
 
   if (filters?.truckType) {
@@ -378,6 +418,7 @@ export async function findNextLoadsWithMinimalDHD(
         },
       },
       truckType: true,
+      assignedTruck: { select: { carrierId: true } },
     },
   });
 
@@ -401,15 +442,23 @@ export async function findNextLoadsWithMinimalDHD(
     return [];
   }
 
-  // Build where clause for next loads
+  // Build where clause for next loads, limited to the marketplace loads the
+  // carrier hauling the current load may see
+  const networkShipperIds = await getNetworkShipperIds(
+    currentLoad.assignedTruck?.carrierId
+  );
   const where: Prisma.LoadWhereInput = {
     status: {
       in: [LoadStatus.POSTED, LoadStatus.SEARCHING, LoadStatus.OFFERED],
     },
+    tenderRank: null,
+    AND: [visibleLoadsWhere(networkShipperIds)],
     id: { not: currentLoadId }, // Exclude current load
     pickupDate: {
       gte: currentLoad.deliveryDate ?? undefined, // Pickup after current delivery
     },
+    // Geohash index: pickups near the current delivery
+    ...withinRadius("originGeohash", deliveryLat, deliveryLon, maxDHD),
   };
 
   // Match truck type if specified in filters, otherwise use current load's truck type
@@ -0,0 +1,506 @@
+/**
+ * Detention and Layover Tracking
+ *
+ * Records how long a truck waits at each stop from its GPS geofence:
+ * a dwell session opens when the truck enters the pickup/delivery (or
+ * multi-stop) geofence and closes when it leaves. Time beyond the free
+ * allowance is charged to the shipper at the detention rate.
+ *
+ * Terms: shipper override → corridor → platform default free time, no rate.
+ * A load without a detention rate records dwell time but is never charged.
+ *
+ * Flow:
+ * 1. GPS monitor cron → updateDwellSessions() per tracked load
+ * 2. Truck leaves the geofence → session closed, charge created (PENDING)
+ * 3. Either party may dispute a charge (DISPUTED) via POST /api/disputes
+ * 4. Trip completes → deductServiceFee() → postDetentionCharges() posts
+ *    PENDING charges as a DETENTION_CHARGE journal entry (shipper → carrier)
+ * 5. Charges the shipper could not cover are retried by the auto-settle cron
+ */
+
+import { Decimal } from "decimal.js";
+import { StopType } from "@prisma/client";
+import { db } from "./db";
+import { getLoadLivePosition, isWithinGeofence } from "./gpsTracking";
+import {
+  createNotificationForRole,
+  notifyOrganization,
+  NotificationType,
+} from "./notifications";
+import {
+  getOrderedStops,
+  getStopCoordinates,
+  STOP_ARRIVAL_RADIUS_M,
+  STOP_DEPARTURE_RADIUS_M,
+} from "./loadStops";
+
+/** Free time per stop when neither the shipper nor the corridor sets one */
+export const DEFAULT_DETENTION_FREE_MINUTES = 120;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface DetentionTerms {
+  freeMinutes: number;
+  ratePerHour: number;
+}
+
+type TermsSource = {
+  detentionFreeMinutes: number | null;
+  detentionRatePerHour: unknown;
+} | null;
+
+/**
+ * Detention terms for a load: shipper override, then corridor, then default
+ */
+export function getDetentionTerms(
+  shipper: TermsSource,
+  corridor: TermsSource
+): DetentionTerms {
+  const freeMinutes =
+    shipper?.detentionFreeMinutes ??
+    corridor?.detentionFreeMinutes ??
+    DEFAULT_DETENTION_FREE_MINUTES;
+  const rate = shipper?.detentionRatePerHour ?? corridor?.detentionRatePerHour;
+
+  return { freeMinutes, ratePerHour: rate != null ? Number(rate) : 0 };
+}
+
+/**
+ * Dwell minutes, billable minutes beyond free time, and the charge amount
+ */
+export function calculateDetention(
+  enteredAt: Date,
+  exitedAt: Date,
+  freeMinutes: number,
+  ratePerHour: number
+): { dwellMinutes: number; billableMinutes: number; amount: number } {
+  const dwellMinutes = Math.max(
+    0,
+    Math.floor((exitedAt.getTime() - enteredAt.getTime()) / MINUTE_MS)
+  );
+  const billableMinutes = Math.max(0, dwellMinutes - freeMinutes);
+  const amount = new Decimal(billableMinutes)
+    .div(60)
+    .times(ratePerHour)
+    .toDecimalPlaces(2)
+    .toNumber();
+
+  return { dwellMinutes, billableMinutes, amount };
+}
+
+const detentionLoadSelect = {
+  id: true,
+  status: true,
+  shipperId: true,
+  originLat: true,
+  originLon: true,
+  destinationLat: true,
+  destinationLon: true,
+  shipper: {
+    select: { detentionFreeMinutes: true, detentionRatePerHour: true },
+  },
+  corridor: {
+    select: { detentionFreeMinutes: true, detentionRatePerHour: true },
+  },
+  assignedTruck: { select: { carrierId: true } },
+  trip: { select: { id: true, deliveredAt: true } },
+} as const;
+
+type DetentionLoad = NonNullable<Awaited<ReturnType<typeof findDetentionLoad>>>;
+
+function findDetentionLoad(loadId: string) {
+  return db.load.findUnique({
+    where: { id: loadId },
+    select: detentionLoadSelect,
+  });
+}
+
+interface DwellSite {
+  stopType: StopType;
+  stopId: string | null;
+  lat: number;
+  lon: number;
+  /** Whether a new session may open (the truck is due at this site) */
+  open: boolean;
+}
+
+/**
+ * Geofenced sites of a load: its stops in route order, or pickup and
+ * delivery for single-stop loads
+ */
+async function getDwellSites(load: DetentionLoad): Promise<DwellSite[]> {
+  const stops = await getOrderedStops(load.id);
+  const enRoute =
+    load.status === "PICKUP_PENDING" || load.status === "IN_TRANSIT";
+
+  if (stops.length > 0) {
+    return stops.flatMap((stop) => {
+      const coords = getStopCoordinates(stop);
+      return coords
+        ? [
+            {
+              stopType: stop.stopType,
+              stopId: stop.id,
+              ...coords,
+              open: enRoute,
+            },
+          ]
+        : [];
+    });
+  }
+
+  const sites: DwellSite[] = [];
+  if (load.originLat != null && load.originLon != null) {
+    sites.push({
+      stopType: "PICKUP",
+      stopId: null,
+      lat: Number(load.originLat),
+      lon: Number(load.originLon),
+      open: load.status === "ASSIGNED" || load.status === "PICKUP_PENDING",
+    });
+  }
+  if (load.destinationLat != null && load.destinationLon != null) {
+    sites.push({
+      stopType: "DROPOFF",
+      stopId: null,
+      lat: Number(load.destinationLat),
+      lon: Number(load.destinationLon),
+      open: load.status === "IN_TRANSIT",
+    });
+  }
+  return sites;
+}
+
+/**
+ * Close a dwell session and create its detention charge when billable
+ *
+ * Atomic: only the run that closes the still-open session creates the
+ * charge, so overlapping cron runs or trip completion cannot bill twice.
+ *
+ * @returns Whether this call closed the session
+ */
+async function closeDwellSession(
+  session: { id: string; enteredAt: Date; freeMinutes: number },
+  exitedAt: Date,
+  load: DetentionLoad
+): Promise<boolean> {
+  const { ratePerHour } = getDetentionTerms(load.shipper, load.corridor);
+  const carrierId = load.assignedTruck?.carrierId;
+  const detention = calculateDetention(
+    session.enteredAt,
+    exitedAt,
+    session.freeMinutes,
+    ratePerHour
+  );
+
+  return db.$transaction(async (tx) => {
+    const closed = await tx.dwellSession.updateMany({
+      where: { id: session.id, exitedAt: null },
+      data: { exitedAt },
+    });
+    if (closed.count !== 1) return false;
+
+    if (detention.amount > 0 && carrierId) {
+      await tx.detentionCharge.create({
+        data: {
+          dwellSessionId: session.id,
+          loadId: load.id,
+          shipperId: load.shipperId,
+          carrierId,
+          dwellMinutes: detention.dwellMinutes,
+          billableMinutes: detention.billableMinutes,
+          ratePerHour,
+          amount: detention.amount,
+        },
+      });
+    }
+    return true;
+  });
+}
+
+/**
+ * Open or close dwell sessions from the load's latest GPS position
+ *
+ * One session per stop and trip: a truck re-entering a geofence it has
+ * already left does not start a second session.
+ *
+ * @returns Number of sessions opened or closed
+ */
+export async function updateDwellSessions(loadId: string): Promise<number> {
+  const load = await findDetentionLoad(loadId);
+  if (!load?.trip) return 0;
+
+  const position = await getLoadLivePosition(loadId);
+  if (!position) return 0;
+
+  const [sites, sessions] = await Promise.all([
+    getDwellSites(load),
+    db.dwellSession.findMany({ where: { loadId, tripId: load.trip.id } }),
+  ]);
+
+  let changes = 0;
+  for (const site of sites) {
+    const session = sessions.find(
+      (s) => s.stopType === site.stopType && s.stopId === site.stopId
+    );
+
+    if (!session) {
+      if (
+        site.open &&
+        isWithinGeofence(position, site.lat, site.lon, STOP_ARRIVAL_RADIUS_M)
+      ) {
+        await db.dwellSession.create({
+          data: {
+            loadId,
+            tripId: load.trip.id,
+            stopType: site.stopType,
+            stopId: site.stopId,
+            enteredAt: position.timestamp,
+            freeMinutes: getDetentionTerms(load.shipper, load.corridor)
+              .freeMinutes,
+          },
+        });
+        changes++;
+      }
+    } else if (
+      !session.exitedAt &&
+      !isWithinGeofence(position, site.lat, site.lon, STOP_DEPARTURE_RADIUS_M)
+    ) {
+      if (await closeDwellSession(session, position.timestamp, load)) {
+        changes++;
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Post a load's PENDING detention charges to the ledger
+ *
+ * Called on trip completion. Sessions still open (the truck is usually
+ * still at the delivery geofence when the trip is delivered) are closed at
+ * the delivery time first. Disputed charges are held until resolved.
+ * Idempotent: posted charges are skipped. Charges the shipper's wallet
+ * cannot cover stay PENDING for retryPendingDetentionCharges(); the shipper
+ * and admins are notified.
+ */
+export async function postDetentionCharges(loadId: string): Promise<{
+  postedCount: number;
+  totalAmount: number;
+}> {
+  const load = await findDetentionLoad(loadId);
+  if (!load) return { postedCount: 0, totalAmount: 0 };
+
+  const openSessions = await db.dwellSession.findMany({
+    where: { loadId, exitedAt: null },
+  });
+  for (const session of openSessions) {
+    await closeDwellSession(
+      session,
+      load.trip?.deliveredAt ?? new Date(),
+      load
+    );
+  }
+
+  const pendingCount = await db.detentionCharge.count({
+    where: { loadId, status: "PENDING" },
+  });
+  if (pendingCount === 0) return { postedCount: 0, totalAmount: 0 };
+
+  let result: { postedCount: number; total: Decimal; held: boolean };
+  try {
+    result = await db.$transaction(async (tx) => {
+      // Charges and balance are read inside the transaction so a concurrent
+      // completion, dispute resolution or wallet debit cannot double-post
+      // or overdraw
+      const charges = await tx.detentionCharge.findMany({
+        where: { loadId, status: "PENDING" },
+      });
+      const total = charges.reduce(
+        (sum, charge) => sum.plus(charge.amount.toString()),
+        new Decimal(0)
+      );
+      if (charges.length === 0) {
+        return { postedCount: 0, total, held: false };
+      }
+      const carrierId = charges[0].carrierId;
+
+      const [shipperWallet, carrierWallet] = await Promise.all([
+        tx.financialAccount.findFirst({
+          where: {
+            organizationId: load.shipperId,
+            accountType: "SHIPPER_WALLET",
+            isActive: true,
+          },
+          select: { id: true, balance: true },
+        }),
+        tx.financialAccount.findFirst({
+          where: {
+            organizationId: carrierId,
+            accountType: "CARRIER_WALLET",
+            isActive: true,
+          },
+          select: { id: true },
+        }),
+      ]);
+      if (
+        !shipperWallet ||
+        !carrierWallet ||
+        new Decimal(shipperWallet.balance.toString()).lessThan(total)
+      ) {
+        return { postedCount: 0, total, held: true };
+      }
+
+      const chargeIds = charges.map((charge) => charge.id);
+      const claimed = await tx.detentionCharge.updateMany({
+        where: { id: { in: chargeIds }, status: "PENDING" },
+        data: { status: "POSTED", postedAt: new Date() },
+      });
+      if (claimed.count !== charges.length) {
+        throw new Error("DETENTION_ALREADY_POSTED");
+      }
+
+      const journalEntry = await tx.journalEntry.create({
+        data: {
+          transactionType: "DETENTION_CHARGE",
+          description: `Detention for load ${loadId}: ${charges.length} stop(s), ${total.toFixed(2)} ETB`,
+          reference: loadId,
+          loadId,
+          metadata: {
+            chargeIds,
+            billableMinutes: charges.reduce(
+              (sum, charge) => sum + charge.billableMinutes,
+              0
+            ),
+          },
+          lines: {
+            create: [
+              { amount: total, isDebit: true, accountId: shipperWallet.id },
+              { amount: total, isDebit: false, accountId: carrierWallet.id },
+            ],
+          },
+        },
+        select: { id: true },
+      });
+      await tx.detentionCharge.updateMany({
+        where: { id: { in: chargeIds } },
+        data: { journalEntryId: journalEntry.id },
+      });
+
+      await tx.financialAccount.update({
+        where: { id: shipperWallet.id },
+        data: { balance: { decrement: total.toNumber() } },
+      });
+      await tx.financialAccount.update({
+        where: { id: carrierWallet.id },
+        data: { balance: { increment: total.toNumber() } },
+      });
+
+      return { postedCount: charges.length, total, held: false };
+    });
+  } catch (error: unknown) {
+    if (
+      error instanceof Error &&
+      error.message === "DETENTION_ALREADY_POSTED"
+    ) {
+      return { postedCount: 0, totalAmount: 0 };
+    }
+    throw error;
+  }
+
+  if (result.held) {
+    console.warn(
+      `[detention] Charges PENDING for load ${loadId}: shipper wallet missing or below ${result.total.toFixed(2)}`
+    );
+    await Promise.all([
+      notifyOrganization({
+        organizationId: load.shipperId,
+        type: NotificationType.DETENTION_CHARGE_PENDING,
+        title: "Detention Charge Pending",
+        message: `${result.total.toFixed(2)} ETB detention for load ${loadId} is due. Please top up your wallet.`,
+        metadata: { loadId, amount: result.total.toNumber() },
+      }),
+      createNotificationForRole({
+        role: "ADMIN",
+        type: NotificationType.DETENTION_CHARGE_PENDING,
+        title: "Detention Charge Pending",
+        message: `Detention of ${result.total.toFixed(2)} ETB for load ${loadId} could not be charged from the shipper wallet. It is retried at each settlement run.`,
+        metadata: { loadId, amount: result.total.toNumber() },
+      }),
+    ]).catch((error) =>
+      console.error("[detention] Pending charge notify failed:", error)
+    );
+    return { postedCount: 0, totalAmount: 0 };
+  }
+
+  return {
+    postedCount: result.postedCount,
+    totalAmount: result.total.toNumber(),
+  };
+}
+
+/**
+ * Retry posting PENDING charges of completed loads
+ *
+ * Called from the auto-settle cron: charges held back for a low shipper
+ * balance on completion are posted once the wallet is topped up.
+ *
+ * @returns Number of charges posted
+ */
+export async function retryPendingDetentionCharges(): Promise<number> {
+  const pending = await db.detentionCharge.findMany({
+    where: { status: "PENDING" },
+    select: { loadId: true },
+  });
+  const loads = await db.load.findMany({
+    where: {
+      id: { in: [...new Set(pending.map((charge) => charge.loadId))] },
+      status: "COMPLETED",
+    },
+    select: { id: true },
+  });
+
+  let postedCount = 0;
+  for (const load of loads) {
+    try {
+      postedCount += (await postDetentionCharges(load.id)).postedCount;
+    } catch (error) {
+      console.error(`[detention] Retry failed for load ${load.id}:`, error);
+    }
+  }
+  return postedCount;
+}
+
+/**
+ * Apply a resolved detention dispute: keep the charge (optionally at an
+ * adjusted amount) or waive it at zero. A charge kept after the trip has
+ * completed is posted immediately.
+ */
+export async function resolveDetentionDispute(
+  chargeId: string,
+  amount?: number
+): Promise<void> {
+  const charge = await db.detentionCharge.findUnique({
+    where: { id: chargeId },
+    select: { id: true, loadId: true, status: true, amount: true },
+  });
+  if (!charge || charge.status !== "DISPUTED") return;
+
+  const finalAmount = amount ?? Number(charge.amount);
+  await db.detentionCharge.update({
+    where: { id: chargeId },
+    data: {
+      amount: finalAmount,
+      status: finalAmount > 0 ? "PENDING" : "WAIVED",
+    },
+  });
+
+  const load = await db.load.findUnique({
+    where: { id: charge.loadId },
+    select: { status: true },
+  });
+  if (finalAmount > 0 && load?.status === "COMPLETED") {
+    await postDetentionCharges(charge.loadId);
+  }
+}
@@ -0,0 +1,513 @@
+/**
+ * Dock Appointment Scheduling
+ *
+ * Shippers define facilities (warehouses, factories, ports) with a number of
+ * docks and opening hours. The hours are split into fixed-length slots and
+ * each slot takes up to `dockCount` appointments. A load links its pickup
+ * and delivery to facilities (Load.pickupFacilityId / deliveryFacilityId);
+ * once the load is assigned, the carrier books, reschedules or cancels a
+ * slot for each stop.
+ *
+ * Conventions:
+ * - Opening hours are facility local time ("08:00"); slot start/end are
+ *   stored in UTC using the facility's `utcOffsetMinutes`
+ * - Days are requested as local calendar dates ("2026-05-04")
+ * - One BOOKED appointment per load and stop type; rescheduling moves it
+ *
+ * Conflict checks (bookDockAppointment / rescheduleDockAppointment):
+ * - The start must be a future slot of an active facility
+ * - The slot must still have a free dock
+ * - A delivery appointment must start after the pickup appointment ends
+ * - The truck must not be booked elsewhere at an overlapping time
+ */
+
+import { z } from "zod";
+import {
+  DockAppointment,
+  Facility,
+  LoadStatus,
+  Prisma,
+  StopType,
+} from "@prisma/client";
+import { db } from "@/lib/db";
+import { notifyOrganization, NotificationType } from "@/lib/notifications";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Load statuses in which a stop's appointment may be booked or moved */
+export const APPOINTMENT_BOOKABLE_STATUSES: Record<StopType, LoadStatus[]> = {
+  PICKUP: ["ASSIGNED", "PICKUP_PENDING"],
+  DROPOFF: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"],
+};
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM format");
+
+export const facilitySchema = z.object({
+  name: z.string().min(2).max(200),
+  address: z.string().max(500).optional(),
+  city: z.string().max(200).optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  dockCount: z.number().int().min(1).max(100).default(1),
+  openTime: timeOfDaySchema,
+  closeTime: timeOfDaySchema,
+  slotMinutes: z.number().int().min(15).max(720).default(60),
+  operatingDays: z
+    .array(z.number().int().min(0).max(6))
+    .min(1)
+    .default([1, 2, 3, 4, 5, 6]),
+  utcOffsetMinutes: z.number().int().min(-720).max(840).default(180),
+});
+
+export const updateFacilitySchema = facilitySchema
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+export type FacilityInput = z.infer<typeof facilitySchema>;
+
+type FacilityHours = Pick<
+  Facility,
+  | "openTime"
+  | "closeTime"
+  | "slotMinutes"
+  | "operatingDays"
+  | "utcOffsetMinutes"
+>;
+
+export interface DockSlot {
+  startTime: Date;
+  endTime: Date;
+}
+
+export type AppointmentResult =
+  | { appointment: DockAppointment }
+  | { error: string; status: number };
+
+/** Minutes after midnight for an "HH:MM" time of day */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate facility opening hours
+ *
+ * @returns Error message, or null when at least one slot fits
+ */
+export function validateFacilityHours(
+  hours: Pick<FacilityHours, "openTime" | "closeTime" | "slotMinutes">
+): string | null {
+  const open = parseTimeOfDay(hours.openTime);
+  const close = parseTimeOfDay(hours.closeTime);
+  if (close <= open) {
+    return "Closing time must be after opening time";
+  }
+  if (close - open < hours.slotMinutes) {
+    return "Opening hours must fit at least one slot";
+  }
+  return null;
+}
+
+/** Facility local calendar date ("YYYY-MM-DD") of an instant */
+export function toFacilityDay(date: Date, utcOffsetMinutes: number): string {
+  return new Date(date.getTime() + utcOffsetMinutes * MINUTE_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Slots of a facility on a local calendar date, in start order.
+ * Closed days (not in operatingDays) have no slots.
+ */
+export function getFacilitySlots(
+  facility: FacilityHours,
+  day: string
+): DockSlot[] {
+  const localMidnight = new Date(`${day}T00:00:00.000Z`);
+  if (isNaN(localMidnight.getTime())) return [];
+  if (!facility.operatingDays.includes(localMidnight.getUTCDay())) return [];
+
+  const dayStart =
+    localMidnight.getTime() - facility.utcOffsetMinutes * MINUTE_MS;
+  const open = parseTimeOfDay(facility.openTime);
+  const close = parseTimeOfDay(facility.closeTime);
+
+  const slots: DockSlot[] = [];
+  for (
+    let minute = open;
+    minute + facility.slotMinutes <= close;
+    minute += facility.slotMinutes
+  ) {
+    slots.push({
+      startTime: new Date(dayStart + minute * MINUTE_MS),
+      endTime: new Date(dayStart + (minute + facility.slotMinutes) * MINUTE_MS),
+    });
+  }
+  return slots;
+}
+
+/** The facility slot starting exactly at `startTime`, if any */
+export function findFacilitySlot(
+  facility: FacilityHours,
+  startTime: Date
+): DockSlot | null {
+  const day = toFacilityDay(startTime, facility.utcOffsetMinutes);
+  return (
+    getFacilitySlots(facility, day).find(
+      (slot) => slot.startTime.getTime() === startTime.getTime()
+    ) ?? null
+  );
+}
+
+function overlaps(
+  a: { startTime: Date; endTime: Date },
+  b: { startTime: Date; endTime: Date }
+): boolean {
+  return (
+    new Date(a.startTime).getTime() < new Date(b.endTime).getTime() &&
+    new Date(a.endTime).getTime() > new Date(b.startTime).getTime()
+  );
+}
+
+/**
+ * BOOKED appointments starting within a day of the slot. Overlap is checked
+ * in code so slots stay correct after a facility changes its slot length.
+ */
+function findNearbyAppointments(
+  tx: Prisma.TransactionClient,
+  where: Prisma.DockAppointmentWhereInput,
+  slot: DockSlot
+) {
+  return tx.dockAppointment.findMany({
+    where: {
+      ...where,
+      status: "BOOKED",
+      startTime: {
+        gte: new Date(slot.startTime.getTime() - DAY_MS),
+        lte: slot.endTime,
+      },
+    },
+  });
+}
+
+/**
+ * Slots of a facility on a local date with booked and free dock counts
+ */
+export async function getFacilityAvailability(
+  facility: Facility,
+  day: string
+): Promise<Array<DockSlot & { booked: number; available: number }>> {
+  const slots = getFacilitySlots(facility, day);
+  if (slots.length === 0) return [];
+
+  const appointments = await db.dockAppointment.findMany({
+    where: {
+      facilityId: facility.id,
+      status: "BOOKED",
+      startTime: {
+        gte: new Date(slots[0].startTime.getTime() - DAY_MS),
+        lte: slots[slots.length - 1].endTime,
+      },
+    },
+    select: { startTime: true, endTime: true },
+  });
+
+  return slots.map((slot) => {
+    const booked = appointments.filter((appt) => overlaps(appt, slot)).length;
+    return {
+      ...slot,
+      booked,
+      available: Math.max(0, facility.dockCount - booked),
+    };
+  });
+}
+
+interface SlotRequest {
+  facility: Facility;
+  loadId: string;
+  stopType: StopType;
+  truckId: string | null;
+  startTime: Date;
+  /** Appointment being rescheduled (excluded from conflict checks) */
+  excludeId?: string;
+}
+
+/**
+ * Validate a requested slot against hours, capacity, the load's other stop
+ * and the truck's other appointments
+ *
+ * @returns The slot, or an error with its HTTP status
+ */
+async function checkSlot(
+  tx: Prisma.TransactionClient,
+  request: SlotRequest
+): Promise<{ slot: DockSlot } | { error: string; status: number }> {
+  const { facility, startTime, excludeId } = request;
+
+  if (!facility.isActive) {
+    return { error: "Facility is not accepting appointments", status: 409 };
+  }
+  const slot = findFacilitySlot(facility, startTime);
+  if (!slot) {
+    return {
+      error: "Requested time is not a bookable slot at this facility",
+      status: 400,
+    };
+  }
+  if (slot.startTime.getTime() <= Date.now()) {
+    return { error: "Cannot book a slot in the past", status: 400 };
+  }
+
+  const notSelf = (appt: DockAppointment) => appt.id !== excludeId;
+
+  const atFacility = (
+    await findNearbyAppointments(tx, { facilityId: facility.id }, slot)
+  ).filter((appt) => notSelf(appt) && overlaps(appt, slot));
+  if (atFacility.length >= facility.dockCount) {
+    return { error: "Slot is fully booked", status: 409 };
+  }
+
+  const otherStop = await tx.dockAppointment.findFirst({
+    where: {
+      loadId: request.loadId,
+      stopType: request.stopType === "PICKUP" ? "DROPOFF" : "PICKUP",
+      status: "BOOKED",
+    },
+  });
+  if (otherStop) {
+    const inOrder =
+      request.stopType === "PICKUP"
+        ? slot.endTime.getTime() <= new Date(otherStop.startTime).getTime()
+        : slot.startTime.getTime() >= new Date(otherStop.endTime).getTime();
+    if (!inOrder) {
+      return {
+        error: "Delivery appointment must start after the pickup appointment",
+        status: 409,
+      };
+    }
+  }
+
+  if (request.truckId) {
+    const truckBusy = (
+      await findNearbyAppointments(tx, { truckId: request.truckId }, slot)
+    ).some((appt) => notSelf(appt) && overlaps(appt, slot));
+    if (truckBusy) {
+      return {
+        error: "Truck already has an appointment at this time",
+        status: 409,
+      };
+    }
+  }
+
+  return { slot };
+}
+
+/**
+ * Book a dock appointment for a load's pickup or delivery
+ */
+export async function bookDockAppointment(input: {
+  facility: Facility;
+  loadId: string;
+  stopType: StopType;
+  startTime: Date;
+  carrierId: string;
+  truckId: string | null;
+  userId: string;
+}): Promise<AppointmentResult> {
+  return db.$transaction(
+    async (tx) => {
+      const existing = await tx.dockAppointment.findFirst({
+        where: {
+          loadId: input.loadId,
+          stopType: input.stopType,
+          status: "BOOKED",
+        },
+      });
+      if (existing) {
+        return {
+          error: `${input.stopType === "PICKUP" ? "Pickup" : "Delivery"} appointment already booked. Reschedule it instead.`,
+          status: 409,
+        };
+      }
+
+      const checked = await checkSlot(tx, input);
+      if ("error" in checked) return checked;
+
+      const appointment = await tx.dockAppointment.create({
+        data: {
+          facilityId: input.facility.id,
+          loadId: input.loadId,
+          stopType: input.stopType,
+          startTime: checked.slot.startTime,
+          endTime: checked.slot.endTime,
+          carrierId: input.carrierId,
+          truckId: input.truckId,
+          bookedById: input.userId,
+        },
+      });
+
+      await tx.loadEvent.create({
+        data: {
+          loadId: input.loadId,
+          eventType: "APPOINTMENT_BOOKED",
+          description: `${input.stopType === "PICKUP" ? "Pickup" : "Delivery"} appointment booked at ${input.facility.name}`,
+          userId: input.userId,
+          metadata: {
+            appointmentId: appointment.id,
+            startTime: appointment.startTime.toISOString(),
+          },
+        },
+      });
+
+      return { appointment };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Move a BOOKED appointment to another slot at the same facility
+ */
+export async function rescheduleDockAppointment(
+  appointment: DockAppointment & { facility: Facility },
+  startTime: Date,
+  userId: string
+): Promise<AppointmentResult> {
+  if (appointment.status !== "BOOKED") {
+    return { error: "Appointment has been cancelled", status: 409 };
+  }
+
+  return db.$transaction(
+    async (tx) => {
+      const checked = await checkSlot(tx, {
+        facility: appointment.facility,
+        loadId: appointment.loadId,
+        stopType: appointment.stopType,
+        truckId: appointment.truckId,
+        startTime,
+        excludeId: appointment.id,
+      });
+      if ("error" in checked) return checked;
+
+      const updated = await tx.dockAppointment.update({
+        where: { id: appointment.id },
+        data: {
+          startTime: checked.slot.startTime,
+          endTime: checked.slot.endTime,
+          rescheduleCount: appointment.rescheduleCount + 1,
+        },
+      });
+
+      await tx.loadEvent.create({
+        data: {
+          loadId: appointment.loadId,
+          eventType: "APPOINTMENT_RESCHEDULED",
+          description: `${appointment.stopType === "PICKUP" ? "Pickup" : "Delivery"} appointment moved at ${appointment.facility.name}`,
+          userId,
+          metadata: {
+            appointmentId: appointment.id,
+            from: new Date(appointment.startTime).toISOString(),
+            to: updated.startTime.toISOString(),
+          },
+        },
+      });
+
+      return { appointment: updated };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+  );
+}
+
+/**
+ * Cancel a BOOKED appointment, freeing its dock
+ */
+export async function cancelDockAppointment(
+  appointment: DockAppointment,
+  userId: string
+): Promise<AppointmentResult> {
+  if (appointment.status !== "BOOKED") {
+    return { error: "Appointment is already cancelled", status: 409 };
+  }
+
+  const [updated] = await db.$transaction([
+    db.dockAppointment.update({
+      where: { id: appointment.id },
+      data: { status: "CANCELLED", cancelledAt: new Date() },
+    }),
+    db.loadEvent.create({
+      data: {
+        loadId: appointment.loadId,
+        eventType: "APPOINTMENT_CANCELLED",
+        description: `${appointment.stopType === "PICKUP" ? "Pickup" : "Delivery"} appointment cancelled`,
+        userId,
+        metadata: { appointmentId: appointment.id },
+      },
+    }),
+  ]);
+
+  return { appointment: updated };
+}
+
+/**
+ * Check that the facilities linked to a load belong to its shipper
+ *
+ * @returns Error message, or null when every given facility is usable
+ */
+export async function validateLoadFacilities(
+  shipperId: string,
+  facilityIds: Array<string | null | undefined>
+): Promise<string | null> {
+  for (const facilityId of facilityIds) {
+    if (!facilityId) continue;
+    const facility = await db.facility.findUnique({
+      where: { id: facilityId },
+      select: { organizationId: true, isActive: true },
+    });
+    if (!facility || facility.organizationId !== shipperId) {
+      return "Facility not found";
+    }
+    if (!facility.isActive) {
+      return "Facility is inactive";
+    }
+  }
+  return null;
+}
+
+/** The load's BOOKED appointment for a stop, if any */
+export function getBookedAppointment(loadId: string, stopType: StopType) {
+  return db.dockAppointment.findFirst({
+    where: { loadId, stopType, status: "BOOKED" },
+    select: { id: true, startTime: true, endTime: true, facilityId: true },
+  });
+}
+
+/**
+ * Tell the shipper a carrier booked, moved or cancelled a dock appointment.
+ * Fire-and-forget: failures are logged, never thrown.
+ */
+export function notifyAppointmentChange(
+  load: { id: string; shipperId: string },
+  appointment: DockAppointment,
+  action: "booked" | "rescheduled" | "cancelled"
+): void {
+  const stop = appointment.stopType === "PICKUP" ? "Pickup" : "Delivery";
+  notifyOrganization({
+    organizationId: load.shipperId,
+    type: NotificationType.DOCK_APPOINTMENT_UPDATED,
+    title: `${stop} appointment ${action}`,
+    message:
+      action === "cancelled"
+        ? `The carrier cancelled the ${stop.toLowerCase()} dock appointment.`
+        : `${stop} dock appointment ${action} for ${new Date(appointment.startTime).toISOString()}.`,
+    metadata: {
+      loadId: load.id,
+      appointmentId: appointment.id,
+      startTime: appointment.startTime,
+    },
+  }).catch((err) =>
+    console.warn("Dock appointment notification failed:", err?.message)
+  );
+}
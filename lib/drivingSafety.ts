@@ -0,0 +1,549 @@
+/**
+ * Driving Safety Detection and Scorecards
+ *
+ * Each GPS sample of a running trip (PICKUP_PENDING or IN_TRANSIT) is
+ * checked for:
+ * - Speeding: speed over the limit of the road class at that position.
+ *   SpeedLimitZone rows mark URBAN and EXPRESSWAY areas; everything else is
+ *   RURAL. Limits per road class are admin settings (SystemSettings), and a
+ *   zone may override its class limit.
+ * - Harsh acceleration and braking: speed change between consecutive
+ *   samples, only when they are close enough in time to mean anything.
+ * - Long driving: moving for too long without a rest stop.
+ *
+ * Consecutive speeding samples form one event, as does a long driving
+ * stretch; the trip keeps the last sample and the stretch start. Events are
+ * stored as SafetyEvent rows and rolled up into driver and carrier
+ * scorecards. A SEVERE event runs the ON_SAFETY_EVENT automation rules for
+ * the load.
+ */
+
+import {
+  RoadClass,
+  SafetyEvent,
+  SafetyEventSeverity,
+  SafetyEventType,
+} from "@prisma/client";
+import { db } from "@/lib/db";
+import { calculateDistanceKm } from "@/lib/geo";
+import { evaluateRulesForTrigger } from "@/lib/automationRules";
+import { executeAndRecordRuleActions } from "@/lib/automationActions";
+import { roundDistance1 } from "@/lib/rounding";
+import { logger } from "@/lib/logger";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Speed limits used when no settings row exists */
+export const DEFAULT_SPEED_LIMITS: Record<RoadClass, number> = {
+  URBAN: 40,
+  RURAL: 70,
+  EXPRESSWAY: 80,
+};
+
+/** Speeding starts this far over the limit (GPS speed is not exact) */
+export const SPEEDING_TOLERANCE_KMH = 5;
+const SPEEDING_MODERATE_KMH = 15;
+const SPEEDING_SEVERE_KMH = 30;
+
+/** Speed change thresholds in m/s² */
+export const HARSH_ACCELERATION_MS2 = 3;
+export const HARSH_BRAKING_MS2 = 3.5;
+const HARSH_SEVERE_MS2 = 5;
+/** Farther apart, a speed change says nothing about how it was driven */
+export const MAX_HARSH_SAMPLE_SECONDS = 15;
+
+/** Slower than this the truck is stopped */
+const MOVING_SPEED_KMH = 5;
+export const MAX_CONTINUOUS_DRIVING_MINUTES = 4 * 60;
+export const MIN_REST_MINUTES = 30;
+const LONG_DRIVING_SEVERE_MINUTES = 6 * 60;
+
+/** Scorecard penalty points per event */
+const SEVERITY_POINTS: Record<SafetyEventSeverity, number> = {
+  MINOR: 1,
+  MODERATE: 3,
+  SEVERE: 10,
+};
+/** Score lost per penalty point per 100 km driven */
+const SCORE_PER_POINT = 2;
+
+const SEVERITY_RANK: Record<SafetyEventSeverity, number> = {
+  MINOR: 0,
+  MODERATE: 1,
+  SEVERE: 2,
+};
+
+export interface DrivingSample {
+  latitude: number;
+  longitude: number;
+  /** km/h; samples without speed are not analysed */
+  speed: number | null | undefined;
+  timestamp: Date;
+  /** Driver who sent the position (mobile), else the trip's driver */
+  driverId?: string | null;
+}
+
+export interface SpeedLimit {
+  roadClass: RoadClass;
+  limitKmh: number;
+}
+
+export interface SafetyScorecard {
+  /** 0-100, 100 = no events */
+  score: number;
+  distanceKm: number;
+  events: number;
+  severeEvents: number;
+  byType: Record<SafetyEventType, number>;
+}
+
+export interface DriverSafetyRow extends SafetyScorecard {
+  driverId: string;
+  name: string;
+}
+
+/**
+ * Speed limit at a position: the smallest active zone containing it, else
+ * the RURAL limit
+ */
+export async function getSpeedLimit(
+  latitude: number,
+  longitude: number
+): Promise<SpeedLimit> {
+  const [settings, zones] = await Promise.all([
+    db.systemSettings.findUnique({
+      where: { id: "system" },
+      select: {
+        speedLimitUrbanKmh: true,
+        speedLimitRuralKmh: true,
+        speedLimitExpresswayKmh: true,
+      },
+    }),
+    db.speedLimitZone.findMany({
+      where: { isActive: true },
+      select: {
+        roadClass: true,
+        limitKmh: true,
+        latitude: true,
+        longitude: true,
+        radiusKm: true,
+      },
+    }),
+  ]);
+  const classLimits: Record<RoadClass, number> = {
+    URBAN: settings?.speedLimitUrbanKmh || DEFAULT_SPEED_LIMITS.URBAN,
+    RURAL: settings?.speedLimitRuralKmh || DEFAULT_SPEED_LIMITS.RURAL,
+    EXPRESSWAY:
+      settings?.speedLimitExpresswayKmh || DEFAULT_SPEED_LIMITS.EXPRESSWAY,
+  };
+
+  const zone = zones
+    .filter(
+      (z) =>
+        calculateDistanceKm(
+          latitude,
+          longitude,
+          Number(z.latitude),
+          Number(z.longitude)
+        ) <= Number(z.radiusKm)
+    )
+    .sort((a, b) => Number(a.radiusKm) - Number(b.radiusKm))[0];
+
+  if (!zone) return { roadClass: "RURAL", limitKmh: classLimits.RURAL };
+  return {
+    roadClass: zone.roadClass,
+    limitKmh: zone.limitKmh ?? classLimits[zone.roadClass],
+  };
+}
+
+function speedingSeverity(overLimitKmh: number): SafetyEventSeverity {
+  if (overLimitKmh >= SPEEDING_SEVERE_KMH) return "SEVERE";
+  if (overLimitKmh >= SPEEDING_MODERATE_KMH) return "MODERATE";
+  return "MINOR";
+}
+
+function maxSeverity(
+  a: SafetyEventSeverity,
+  b: SafetyEventSeverity
+): SafetyEventSeverity {
+  return SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+}
+
+/**
+ * Analyse one GPS sample of a trip
+ *
+ * Returns the safety events created or extended by this sample. Samples
+ * older than the last analysed one are ignored.
+ */
+export async function analyzeDrivingSample(
+  tripId: string,
+  sample: DrivingSample
+): Promise<SafetyEvent[]> {
+  const trip = await db.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      status: true,
+      loadId: true,
+      truckId: true,
+      carrierId: true,
+      driverId: true,
+      safetySampleAt: true,
+      safetySampleSpeed: true,
+      drivingSinceAt: true,
+      stoppedSinceAt: true,
+    },
+  });
+  if (
+    !trip ||
+    (trip.status !== "PICKUP_PENDING" && trip.status !== "IN_TRANSIT")
+  )
+    return [];
+  if (sample.speed === null || sample.speed === undefined) return [];
+
+  const at = sample.timestamp;
+  const speed = sample.speed;
+  const previousAt = trip.safetySampleAt;
+  if (previousAt && at.getTime() <= previousAt.getTime()) return [];
+  const gapMs = previousAt ? at.getTime() - previousAt.getTime() : null;
+
+  const base = {
+    tripId,
+    loadId: trip.loadId,
+    truckId: trip.truckId,
+    carrierId: trip.carrierId,
+    driverId: sample.driverId ?? trip.driverId,
+    latitude: sample.latitude,
+    longitude: sample.longitude,
+  };
+  const events: SafetyEvent[] = [];
+  let becameSevere = false;
+
+  // Speeding: extend the event the previous sample belonged to
+  const { roadClass, limitKmh } = await getSpeedLimit(
+    sample.latitude,
+    sample.longitude
+  );
+  if (speed > limitKmh + SPEEDING_TOLERANCE_KMH) {
+    const severity = speedingSeverity(speed - limitKmh);
+    const ongoing = previousAt
+      ? await db.safetyEvent.findFirst({
+          where: { tripId, type: "SPEEDING", endedAt: previousAt },
+        })
+      : null;
+    if (ongoing) {
+      const peak =
+        speed - limitKmh > Number(ongoing.value) - Number(ongoing.limit);
+      const merged = maxSeverity(ongoing.severity, severity);
+      becameSevere ||= merged === "SEVERE" && ongoing.severity !== "SEVERE";
+      events.push(
+        await db.safetyEvent.update({
+          where: { id: ongoing.id },
+          data: {
+            endedAt: at,
+            severity: merged,
+            ...(peak && {
+              value: speed,
+              limit: limitKmh,
+              roadClass,
+              latitude: sample.latitude,
+              longitude: sample.longitude,
+            }),
+          },
+        })
+      );
+    } else {
+      becameSevere ||= severity === "SEVERE";
+      events.push(
+        await db.safetyEvent.create({
+          data: {
+            ...base,
+            type: "SPEEDING",
+            severity,
+            startedAt: at,
+            endedAt: at,
+            value: speed,
+            limit: limitKmh,
+            roadClass,
+          },
+        })
+      );
+    }
+  }
+
+  // Harsh acceleration / braking between close samples
+  if (
+    previousAt &&
+    trip.safetySampleSpeed !== null &&
+    gapMs! <= MAX_HARSH_SAMPLE_SECONDS * 1000
+  ) {
+    const change =
+      (speed - Number(trip.safetySampleSpeed)) / 3.6 / (gapMs! / 1000);
+    const harsh: { type: SafetyEventType; limit: number } | null =
+      change >= HARSH_ACCELERATION_MS2
+        ? { type: "HARSH_ACCELERATION", limit: HARSH_ACCELERATION_MS2 }
+        : -change >= HARSH_BRAKING_MS2
+          ? { type: "HARSH_BRAKING", limit: HARSH_BRAKING_MS2 }
+          : null;
+    if (harsh) {
+      const severity: SafetyEventSeverity =
+        Math.abs(change) >= HARSH_SEVERE_MS2 ? "SEVERE" : "MODERATE";
+      becameSevere ||= severity === "SEVERE";
+      events.push(
+        await db.safetyEvent.create({
+          data: {
+            ...base,
+            type: harsh.type,
+            severity,
+            startedAt: previousAt,
+            endedAt: at,
+            value: Math.round(Math.abs(change) * 100) / 100,
+            limit: harsh.limit,
+          },
+        })
+      );
+    }
+  }
+
+  // Long driving: a stop (or a gap in the data) of the rest time ends the
+  // stretch
+  const restMs = MIN_REST_MINUTES * MINUTE_MS;
+  const moving = speed >= MOVING_SPEED_KMH;
+  let drivingSinceAt = trip.drivingSinceAt;
+  let stoppedSinceAt = trip.stoppedSinceAt;
+  const rested =
+    (gapMs !== null && gapMs >= restMs) ||
+    (!!stoppedSinceAt && at.getTime() - stoppedSinceAt.getTime() >= restMs);
+
+  if (moving) {
+    if (!drivingSinceAt || rested) drivingSinceAt = at;
+    stoppedSinceAt = null;
+
+    const minutes = Math.floor(
+      (at.getTime() - drivingSinceAt.getTime()) / MINUTE_MS
+    );
+    if (minutes > MAX_CONTINUOUS_DRIVING_MINUTES) {
+      const severity: SafetyEventSeverity =
+        minutes >= LONG_DRIVING_SEVERE_MINUTES ? "SEVERE" : "MODERATE";
+      const ongoing = await db.safetyEvent.findFirst({
+        where: { tripId, type: "LONG_DRIVING", startedAt: drivingSinceAt },
+      });
+      if (ongoing) {
+        becameSevere ||= severity === "SEVERE" && ongoing.severity !== "SEVERE";
+        events.push(
+          await db.safetyEvent.update({
+            where: { id: ongoing.id },
+            data: {
+              endedAt: at,
+              severity,
+              value: minutes,
+              latitude: sample.latitude,
+              longitude: sample.longitude,
+            },
+          })
+        );
+      } else {
+        becameSevere ||= severity === "SEVERE";
+        events.push(
+          await db.safetyEvent.create({
+            data: {
+              ...base,
+              type: "LONG_DRIVING",
+              severity,
+              startedAt: drivingSinceAt,
+              endedAt: at,
+              value: minutes,
+              limit: MAX_CONTINUOUS_DRIVING_MINUTES,
+            },
+          })
+        );
+      }
+    }
+  } else {
+    stoppedSinceAt ??= at;
+    if (rested) drivingSinceAt = null;
+  }
+
+  await db.trip.update({
+    where: { id: tripId },
+    data: {
+      safetySampleAt: at,
+      safetySampleSpeed: speed,
+      drivingSinceAt,
+      stoppedSinceAt,
+    },
+  });
+
+  if (becameSevere && trip.loadId) {
+    await runSafetyRules(trip.loadId);
+  }
+
+  return events;
+}
+
+/**
+ * Analyse samples of one trip in time order (batch uploads)
+ */
+export async function analyzeDrivingSamples(
+  tripId: string,
+  samples: DrivingSample[]
+): Promise<SafetyEvent[]> {
+  const sorted = [...samples].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+  );
+  const events: SafetyEvent[] = [];
+  for (const sample of sorted) {
+    events.push(...(await analyzeDrivingSample(tripId, sample)));
+  }
+  return events;
+}
+
+/**
+ * Run the ON_SAFETY_EVENT automation rules for a load
+ */
+async function runSafetyRules(loadId: string): Promise<void> {
+  try {
+    const results = await evaluateRulesForTrigger(loadId, "ON_SAFETY_EVENT");
+    for (const result of results) {
+      await executeAndRecordRuleActions(loadId, result);
+    }
+  } catch (error) {
+    logger.error("Safety automation rules failed", error, { loadId });
+  }
+}
+
+// ============================================================================
+// SCORECARDS
+// ============================================================================
+
+function emptyByType(): Record<SafetyEventType, number> {
+  return {
+    SPEEDING: 0,
+    HARSH_ACCELERATION: 0,
+    HARSH_BRAKING: 0,
+    LONG_DRIVING: 0,
+  };
+}
+
+/**
+ * Score events against the distance driven: penalty points per 100 km
+ * (counting at least 100 km, so one short trip is not scored harshly)
+ */
+export function scoreSafetyEvents(
+  events: Array<{ type: SafetyEventType; severity: SafetyEventSeverity }>,
+  distanceKm: number
+): SafetyScorecard {
+  const byType = emptyByType();
+  let points = 0;
+  let severeEvents = 0;
+  for (const event of events) {
+    byType[event.type]++;
+    points += SEVERITY_POINTS[event.severity];
+    if (event.severity === "SEVERE") severeEvents++;
+  }
+  const per100Km = (points * 100) / Math.max(distanceKm, 100);
+  return {
+    score: Math.max(0, Math.round(100 - SCORE_PER_POINT * per100Km)),
+    distanceKm: roundDistance1(distanceKm),
+    events: events.length,
+    severeEvents,
+    byType,
+  };
+}
+
+function tripDistanceKm(trip: {
+  actualDistanceKm: unknown;
+  estimatedDistanceKm: unknown;
+}): number {
+  return Number(trip.actualDistanceKm ?? trip.estimatedDistanceKm ?? 0);
+}
+
+/**
+ * Driver scorecard over the last `days` days, with the latest events
+ */
+export async function getDriverScorecard(driverId: string, days = 30) {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const [events, trips] = await Promise.all([
+    db.safetyEvent.findMany({
+      where: { driverId, startedAt: { gte: since } },
+      orderBy: { startedAt: "desc" },
+      select: {
+        id: true,
+        type: true,
+        severity: true,
+        tripId: true,
+        startedAt: true,
+        endedAt: true,
+        value: true,
+        limit: true,
+        roadClass: true,
+      },
+    }),
+    db.trip.findMany({
+      where: { driverId, startedAt: { gte: since } },
+      select: { actualDistanceKm: true, estimatedDistanceKm: true },
+    }),
+  ]);
+  const distanceKm = trips.reduce((sum, t) => sum + tripDistanceKm(t), 0);
+
+  return {
+    days,
+    scorecard: scoreSafetyEvents(events, distanceKm),
+    recentEvents: events.slice(0, 20).map((e) => ({
+      ...e,
+      value: Number(e.value),
+      limit: Number(e.limit),
+    })),
+  };
+}
+
+/**
+ * Carrier scorecard over the last `days` days, with one row per driver
+ * (worst score first). Events without a driver count for the carrier only.
+ */
+export async function getCarrierScorecard(carrierId: string, days = 30) {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const [events, trips, drivers] = await Promise.all([
+    db.safetyEvent.findMany({
+      where: { carrierId, startedAt: { gte: since } },
+      select: { type: true, severity: true, driverId: true },
+    }),
+    db.trip.findMany({
+      where: { carrierId, startedAt: { gte: since } },
+      select: {
+        driverId: true,
+        actualDistanceKm: true,
+        estimatedDistanceKm: true,
+      },
+    }),
+    db.user.findMany({
+      where: { organizationId: carrierId, role: "DRIVER" },
+      select: { id: true, firstName: true, lastName: true },
+    }),
+  ]);
+
+  const driverRows: DriverSafetyRow[] = drivers.map((driver) => {
+    const distanceKm = trips
+      .filter((t) => t.driverId === driver.id)
+      .reduce((sum, t) => sum + tripDistanceKm(t), 0);
+    return {
+      driverId: driver.id,
+      name: [driver.firstName, driver.lastName].filter(Boolean).join(" "),
+      ...scoreSafetyEvents(
+        events.filter((e) => e.driverId === driver.id),
+        distanceKm
+      ),
+    };
+  });
+  driverRows.sort((a, b) => a.score - b.score);
+
+  return {
+    days,
+    scorecard: scoreSafetyEvents(
+      events,
+      trips.reduce((sum, t) => sum + tripDistanceKm(t), 0)
+    ),
+    drivers: driverRows,
+  };
+}
@@ -30,7 +30,7 @@ import { addJob, registerProcessor, isQueueReadySync } from "./queue";
 import { logger } from "./logger";
 
 // M9 FIX: HTML escaping to prevent injection in email templates
-function escapeHtml(str: string | null | undefined): string {
+export function escapeHtml(str: string | null | undefined): string {
   if (!str) return "";
   return str
     .replace(/&/g, "&amp;")
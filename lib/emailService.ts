@@ -46,6 +46,7 @@ export enum EmailTemplate {
   SETTLEMENT_COMPLETE = "SETTLEMENT_COMPLETE",
   BYPASS_WARNING = "BYPASS_WARNING",
   ACCOUNT_FLAGGED = "ACCOUNT_FLAGGED",
+  SAVED_SEARCH_DIGEST = "SAVED_SEARCH_DIGEST",
 }
 
 /**
@@ -59,6 +60,17 @@ export interface EmailMessage {
   from?: string;
 }
 
+/**
+ * One match listed in a saved-search digest
+ */
+export interface DigestMatch {
+  title: string;
+  detail: string;
+  viewUrl: string;
+  /** One-click load request link (load matches only) */
+  requestUrl?: string;
+}
+
 /**
  * Email template data
  */
@@ -316,6 +328,64 @@ function getEmailTemplate(
         text: `⚠️ Account Flagged for Review\n\nHello ${recipientName},\n\nYour account has been flagged for suspicious activity and is under review.\n\nReason: ${reason || "Pattern of suspicious cancellations"}\n\nPlease contact our support team immediately to resolve this issue.\n\nContact Support: ${baseUrl}/support\n\nFreightET Platform`,
       };
 
+    case EmailTemplate.SAVED_SEARCH_DIGEST: {
+      const searchName = escapeHtml(data.searchName as string);
+      const matches = (data.matches as DigestMatch[]) || [];
+      const more = Number(data.moreCount) || 0;
+      const total = matches.length + more;
+      const noun = data.searchType === "TRUCKS" ? "truck" : "load";
+      const count = `${total} new ${noun}${total === 1 ? "" : "s"}`;
+      const rows = matches
+        .map(
+          (m) => `
+            <tr>
+              <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb;">
+                <strong>${escapeHtml(m.title)}</strong><br />
+                <span style="color: #6b7280;">${escapeHtml(m.detail)}</span>
+              </td>
+              <td style="padding: 12px 0; border-bottom: 1px solid #e5e7eb; text-align: right; white-space: nowrap;">
+                ${
+                  m.requestUrl
+                    ? `<a href="${escapeHtml(m.requestUrl)}"
+                   style="background-color: #2563eb; color: white; padding: 8px 16px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                  Request Load
+                </a>`
+                    : ""
+                }
+                <a href="${escapeHtml(m.viewUrl)}" style="margin-left: 12px; color: #2563eb;">View</a>
+              </td>
+            </tr>`
+        )
+        .join("");
+      const textRows = matches
+        .map(
+          (m) =>
+            `- ${m.title} (${m.detail})\n  View: ${m.viewUrl}${m.requestUrl ? `\n  Request: ${m.requestUrl}` : ""}`
+        )
+        .join("\n");
+      return {
+        subject: `${count} match "${data.searchName}"`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #2563eb;">${count} for "${searchName}"</h2>
+            <p>Hello ${recipientName},</p>
+            <p>These ${noun}s match your saved search <strong>${searchName}</strong>.</p>
+            <table style="width: 100%; border-collapse: collapse;">${rows}
+            </table>${
+              more > 0
+                ? `
+            <p style="color: #6b7280;">And ${more} more in the app.</p>`
+                : ""
+            }
+            <p style="color: #6b7280; font-size: 12px; margin-top: 30px;">
+              FreightET Platform - Freight Management System
+            </p>
+          </div>
+        `,
+        text: `${count} for "${data.searchName}"\n\nHello ${recipientName},\n\nThese ${noun}s match your saved search ${data.searchName}:\n\n${textRows}${more > 0 ? `\n\nAnd ${more} more in the app.` : ""}\n\nFreightET Platform`,
+      };
+    }
+
     default:
       return {
         subject: "FreightET Notification",
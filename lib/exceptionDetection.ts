@@ -7,6 +7,7 @@
 
 import { db } from "@/lib/db";
 import { calculateDistanceKm } from "@/lib/geo";
+import { getBookedAppointment } from "@/lib/dockAppointments";
 
 export interface ExceptionRule {
   type: string;
@@ -18,7 +19,9 @@ export interface ExceptionRule {
 
 /**
  * Check for late pickup exception
- * Triggers when: Current time > pickup time + grace period and status is ASSIGNED or PICKUP_PENDING
+ * Triggers when status is ASSIGNED or PICKUP_PENDING and either:
+ * - a pickup dock appointment is booked and its slot has ended, or
+ * - no appointment is booked and current time > pickup date + grace period
  */
 export async function checkLatePickup(
   loadId: string
@@ -42,6 +45,34 @@ export async function checkLatePickup(
   }
 
   const now = new Date();
+
+  // A booked dock appointment is the real pickup time; the truck is late
+  // once its slot is over
+  const appointment = await getBookedAppointment(load.id, "PICKUP");
+  if (appointment) {
+    const appointmentStart = new Date(appointment.startTime);
+    if (now.getTime() <= new Date(appointment.endTime).getTime()) {
+      return null;
+    }
+
+    const minutesLate = Math.floor(
+      (now.getTime() - appointmentStart.getTime()) / (60 * 1000)
+    );
+    const hoursLate = Math.floor(minutesLate / 60);
+    const lateBy =
+      minutesLate < 60
+        ? `${minutesLate} minutes`
+        : `${hoursLate} hour${hoursLate === 1 ? "" : "s"}`;
+
+    return {
+      type: "LATE_PICKUP",
+      shouldTrigger: true,
+      priority: minutesLate > 4 * 60 ? "HIGH" : "MEDIUM",
+      title: `Pickup is ${lateBy} late for dock appointment`,
+      description: `Pickup appointment at ${appointmentStart.toLocaleString()} was missed. Current status: ${load.status}`,
+    };
+  }
+
   const pickupTime = new Date(load.pickupDate);
   const gracePeriodHours = 2; // 2 hours grace period
   const gracePeriodMs = gracePeriodHours * 60 * 60 * 1000;
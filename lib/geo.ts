@@ -129,6 +129,60 @@ export function calculateDistanceMeters(
   return R * c;
 }
 
+/**
+ * Shortest distance from a point to a polyline in kilometers
+ *
+ * Each segment is projected in a local flat frame around the point, which is
+ * accurate for the tens of kilometers a route corridor spans; the distance
+ * to the closest point is then measured with Haversine.
+ *
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param path - Polyline as [lat, lon] pairs
+ * @returns Distance in kilometers (Infinity for an empty path)
+ */
+export function distanceToPathKm(
+  lat: number,
+  lon: number,
+  path: ReadonlyArray<readonly [number, number]>
+): number {
+  if (path.length === 0) return Infinity;
+  if (path.length === 1) {
+    return calculateDistanceKm(lat, lon, path[0][0], path[0][1]);
+  }
+
+  // Degrees of longitude shrink with latitude; scale them to match latitude
+  const lonScale = Math.cos(toRadians(lat));
+  let min = Infinity;
+  for (let i = 1; i < path.length; i++) {
+    const [aLat, aLon] = path[i - 1];
+    const [bLat, bLon] = path[i];
+    const dx = (bLon - aLon) * lonScale;
+    const dy = bLat - aLat;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq === 0
+        ? 0
+        : Math.max(
+            0,
+            Math.min(
+              1,
+              ((lon - aLon) * lonScale * dx + (lat - aLat) * dy) / lengthSq
+            )
+          );
+    min = Math.min(
+      min,
+      calculateDistanceKm(
+        lat,
+        lon,
+        aLat + t * (bLat - aLat),
+        aLon + t * (bLon - aLon)
+      )
+    );
+  }
+  return min;
+}
+
 /**
  * Alias for calculateDistanceKm for backward compatibility
  * Use calculateDistanceKm for new code
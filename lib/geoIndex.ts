@@ -0,0 +1,270 @@
+/**
+ * Geospatial Index
+ *
+ * Geohash columns for "within N km" searches: Load.originGeohash and
+ * destinationGeohash, TruckPosting.originGeohash and
+ * Truck.currentLocationGeohash. Each is a btree-indexed string, so a radius
+ * search becomes a handful of range queries (geohashes sharing a prefix
+ * sort together) instead of loading every row and running
+ * calculateDistanceKm on it.
+ *
+ * The index only narrows candidates: a cell cover is a square around the
+ * circle, so callers still apply the exact distance check from lib/geo.ts
+ * to what it returns. Rows the index has not seen yet (written before
+ * scripts/backfill-geohashes.ts ran, or without coordinates) have a null
+ * geohash and are still returned, to be checked row by row as before.
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+type Coordinate = Prisma.Decimal | number | null | undefined;
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/** Stored precision: 7 characters is a cell of about 150 m */
+export const GEOHASH_PRECISION = 7;
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Encode a coordinate as a geohash
+ */
+export function encodeGeohash(
+  lat: number,
+  lon: number,
+  precision: number = GEOHASH_PRECISION
+): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (lon >= mid) {
+        value = value * 2 + 1;
+        lonMin = mid;
+      } else {
+        value = value * 2;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        value = value * 2 + 1;
+        latMin = mid;
+      } else {
+        value = value * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Geohash of a stored coordinate pair
+ *
+ * @returns null when either coordinate is missing or out of range
+ */
+export function geohashOf(lat: Coordinate, lon: Coordinate): string | null {
+  if (lat == null || lon == null) return null;
+  const latitude = Number(lat);
+  const longitude = Number(lon);
+  if (
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+  return encodeGeohash(latitude, longitude);
+}
+
+/** Size in degrees of a cell at the given precision */
+function cellSize(precision: number): { latDeg: number; lonDeg: number } {
+  const bits = precision * 5;
+  return {
+    latDeg: 180 / 2 ** Math.floor(bits / 2),
+    lonDeg: 360 / 2 ** Math.ceil(bits / 2),
+  };
+}
+
+/** The next string after every geohash starting with `prefix` */
+function prefixEnd(prefix: string): string | null {
+  for (let i = prefix.length - 1; i >= 0; i--) {
+    const next = BASE32.indexOf(prefix[i]) + 1;
+    if (next < BASE32.length) return prefix.slice(0, i) + BASE32[next];
+  }
+  return null; // "zzz…" is the last prefix
+}
+
+export interface GeohashRange {
+  gte: string;
+  lt?: string;
+}
+
+/** Most cells a radius search is split into (each becomes a range query) */
+const MAX_COVER_CELLS = 32;
+
+/**
+ * Geohash ranges covering every point within `radiusKm` of a coordinate
+ *
+ * Covers the circle's bounding box with cells at the finest precision that
+ * needs no more than MAX_COVER_CELLS of them, then turns each cell into a
+ * [prefix, next prefix) range, merging adjacent ones.
+ *
+ * @returns null when the radius is too large for a cell cover, in which
+ *          case the search cannot use the index
+ */
+export function geohashRanges(
+  lat: number,
+  lon: number,
+  radiusKm: number
+): GeohashRange[] | null {
+  // Cells narrow towards the poles: size the box at the circle's poleward edge
+  const edgeLat = Math.min(89, Math.abs(lat) + radiusKm / KM_PER_DEGREE);
+  const latSpan = radiusKm / KM_PER_DEGREE;
+  const lonSpan =
+    radiusKm / (KM_PER_DEGREE * Math.cos((edgeLat * Math.PI) / 180));
+  if (lonSpan >= 180) return null;
+
+  for (let precision = GEOHASH_PRECISION; precision > 0; precision--) {
+    const { latDeg, lonDeg } = cellSize(precision);
+    const rowCount = Math.round(180 / latDeg);
+    const colCount = Math.round(360 / lonDeg);
+
+    const rowMin = Math.max(0, Math.floor((lat - latSpan + 90) / latDeg));
+    const rowMax = Math.min(
+      rowCount - 1,
+      Math.floor((lat + latSpan + 90) / latDeg)
+    );
+    const colMin = Math.floor((lon - lonSpan + 180) / lonDeg);
+    const colMax = Math.min(
+      colMin + colCount - 1,
+      Math.floor((lon + lonSpan + 180) / lonDeg)
+    );
+    if ((rowMax - rowMin + 1) * (colMax - colMin + 1) > MAX_COVER_CELLS) {
+      continue;
+    }
+
+    const cells: string[] = [];
+    for (let row = rowMin; row <= rowMax; row++) {
+      for (let col = colMin; col <= colMax; col++) {
+        // Wrap across the antimeridian
+        const wrapped = ((col % colCount) + colCount) % colCount;
+        cells.push(
+          encodeGeohash(
+            -90 + (row + 0.5) * latDeg,
+            -180 + (wrapped + 0.5) * lonDeg,
+            precision
+          )
+        );
+      }
+    }
+
+    const ranges: GeohashRange[] = [];
+    for (const cell of cells.sort()) {
+      const end = prefixEnd(cell) ?? undefined;
+      const last = ranges[ranges.length - 1];
+      if (last && last.lt === cell) {
+        last.lt = end;
+      } else {
+        ranges.push({ gte: cell, lt: end });
+      }
+    }
+    return ranges;
+  }
+  return null;
+}
+
+/**
+ * Prisma filter for rows whose `field` geohash lies within `radiusKm` of a
+ * coordinate. Rows with a null geohash are kept (see the header).
+ *
+ * @returns An empty filter when the radius is too large for the index
+ */
+export function withinRadius<F extends string>(
+  field: F,
+  lat: number,
+  lon: number,
+  radiusKm: number
+): { OR?: Array<{ [K in F]: GeohashRange | null }> } {
+  const ranges = geohashRanges(lat, lon, radiusKm);
+  if (!ranges) return {};
+  return {
+    OR: [
+      ...ranges.map(
+        (range) => ({ [field]: range }) as { [K in F]: GeohashRange }
+      ),
+      { [field]: null } as { [K in F]: null },
+    ],
+  };
+}
+
+/**
+ * Geohash of an Ethiopian location, for truck postings (origin city)
+ */
+export async function cityGeohash(
+  cityId: string | null | undefined
+): Promise<string | null> {
+  if (!cityId) return null;
+  const city = await db.ethiopianLocation.findUnique({
+    where: { id: cityId },
+    select: { latitude: true, longitude: true },
+  });
+  return city ? geohashOf(city.latitude, city.longitude) : null;
+}
+
+/** Coordinates of an Ethiopian location by exact name */
+async function cityCoordinates(name: string | null | undefined) {
+  if (!name) return null;
+  return db.ethiopianLocation.findFirst({
+    where: { name },
+    select: { latitude: true, longitude: true },
+  });
+}
+
+/**
+ * Geohash columns for a load: its origin/destination coordinates, else
+ * its pickup/delivery city (the same precedence as calculateDHO)
+ */
+export async function resolveLoadGeohashes(load: {
+  originLat?: Coordinate;
+  originLon?: Coordinate;
+  pickupCity?: string | null;
+  destinationLat?: Coordinate;
+  destinationLon?: Coordinate;
+  deliveryCity?: string | null;
+}): Promise<{
+  originGeohash: string | null;
+  destinationGeohash: string | null;
+}> {
+  let originGeohash = geohashOf(load.originLat, load.originLon);
+  if (!originGeohash) {
+    const city = await cityCoordinates(load.pickupCity);
+    originGeohash = city ? geohashOf(city.latitude, city.longitude) : null;
+  }
+
+  let destinationGeohash = geohashOf(load.destinationLat, load.destinationLon);
+  if (!destinationGeohash) {
+    const city = await cityCoordinates(load.deliveryCity);
+    destinationGeohash = city ? geohashOf(city.latitude, city.longitude) : null;
+  }
+
+  return { originGeohash, destinationGeohash };
+}
@@ -4,13 +4,16 @@
  * Sprint 16 - Story 16.10: User Notifications for GPS & Settlement Events
  * Task: Implement GPS event notifications (geofence arrivals)
  *
- * Handles notifications for geofence events (truck arrivals at pickup/delivery)
+ * Handles notifications for geofence events (truck arrivals at pickup/delivery,
+ * and at intermediate stops of multi-stop loads). The same pass records
+ * dwell time at each stop for detention (lib/detention.ts).
  */
 
 import { db } from "./db";
 import { createNotification } from "./notifications";
 import { checkGeofenceEvents, GeofenceAlert } from "./gpsTracking";
 import { sendEmailToUser, EmailTemplate } from "./emailService";
+import { updateDwellSessions } from "./detention";
 
 // In-memory cache to track recent geofence events (prevent duplicates)
 const recentGeofenceEvents = new Map<string, Date>();
@@ -43,7 +46,9 @@ export async function checkAllGeofenceEvents(): Promise<number> {
   // Check geofence events for each load
   for (const load of activeLoads) {
     try {
-      const alerts = await checkGeofenceEvents(load.id);
+      const alerts = await checkGeofenceEvents(load.id, {
+        record: true,
+      });
 
       for (const alert of alerts) {
         const sent = await handleGeofenceAlert(load.id, alert);
@@ -51,6 +56,8 @@ export async function checkAllGeofenceEvents(): Promise<number> {
           notificationCount++;
         }
       }
+
+      await updateDwellSessions(load.id);
     } catch (error) {
       console.error(`Geofence check failed for load ${load.id}:`, error);
     }
@@ -74,7 +81,10 @@ async function handleGeofenceAlert(
   alert: GeofenceAlert
 ): Promise<boolean> {
   // Check if we already sent a notification for this event recently
-  const eventKey = `${loadId}:${alert.event}`;
+  // Stop alerts are keyed per stop so consecutive drops all notify
+  const eventKey = alert.stopId
+    ? `${loadId}:${alert.event}:${alert.stopId}`
+    : `${loadId}:${alert.event}`;
   const lastEventTime = recentGeofenceEvents.get(eventKey);
 
   if (lastEventTime) {
@@ -93,6 +103,9 @@ async function handleGeofenceAlert(
     case "ARRIVED_AT_DESTINATION":
       await sendDeliveryArrivalNotification(loadId, alert);
       break;
+    case "ARRIVED_AT_STOP":
+      await sendStopArrivalNotification(loadId, alert);
+      break;
     case "SIGNAL_LOST":
       // Signal loss is already handled by gpsAlerts.ts
       return false;
@@ -352,6 +365,98 @@ async function sendDeliveryArrivalNotification(
   }
 }
 
+/**
+ * Send notification when truck arrives at an intermediate stop
+ * of a multi-stop load
+ *
+ * @param loadId - Load ID
+ * @param alert - Geofence alert (carries stopId/stopSequence)
+ */
+async function sendStopArrivalNotification(
+  loadId: string,
+  alert: GeofenceAlert
+): Promise<void> {
+  const load = await db.load.findUnique({
+    where: { id: loadId },
+    select: {
+      id: true,
+      shipper: {
+        select: {
+          users: {
+            where: {
+              role: {
+                in: ["SHIPPER", "ADMIN"],
+              },
+            },
+            select: {
+              id: true,
+            },
+          },
+        },
+      },
+      assignedTruck: {
+        select: {
+          licensePlate: true,
+          carrier: {
+            select: {
+              users: {
+                where: {
+                  role: {
+                    in: ["CARRIER", "DISPATCHER", "ADMIN"],
+                  },
+                },
+                select: {
+                  id: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!load || !load.assignedTruck) {
+    return;
+  }
+
+  const trip = await db.trip.findFirst({
+    where: {
+      loadId: loadId,
+      status: { in: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"] },
+    },
+    select: { driverId: true },
+  });
+
+  const plate = load.assignedTruck.licensePlate;
+  const metadata = {
+    loadId: load.id,
+    event: "ARRIVED_AT_STOP",
+    stopId: alert.stopId,
+    stopSequence: alert.stopSequence,
+    location: alert.location,
+    timestamp: alert.timestamp,
+  };
+
+  const recipients = [
+    ...load.shipper.users.map((user) => user.id),
+    ...load.assignedTruck.carrier.users.map((user) => user.id),
+    ...(trip?.driverId ? [trip.driverId] : []),
+  ];
+
+  await Promise.all(
+    recipients.map((userId) =>
+      createNotification({
+        userId,
+        type: "TRUCK_AT_STOP",
+        title: `Stop ${alert.stopSequence} Reached: Load #${load.id.slice(-8)}`,
+        message: `Truck ${plate} has arrived at stop ${alert.stopSequence} of Load #${load.id.slice(-8)}.`,
+        metadata,
+      })
+    )
+  );
+}
+
 /**
  * Clean up old geofence events from cache
  *
@@ -385,7 +490,7 @@ function cleanupGeofenceEventCache(): void {
 export async function checkLoadGeofence(
   loadId: string
 ): Promise<GeofenceAlert[]> {
-  const alerts = await checkGeofenceEvents(loadId);
+  const alerts = await checkGeofenceEvents(loadId, { record: true });
   const triggeredAlerts: GeofenceAlert[] = [];
 
   for (const alert of alerts) {
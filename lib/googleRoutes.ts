@@ -30,6 +30,11 @@ export interface Coordinates {
   lng: number;
 }
 
+export interface PlannedRoute {
+  points: Array<[number, number]>; // [lat, lng] polyline
+  source: "google" | "straight_line";
+}
+
 /**
  * Calculate road distance between two points using Google Routes API
  *
@@ -91,6 +96,83 @@ export async function calculateRoadDistance(
   return calculateHaversineRoute(origin, destination);
 }
 
+/**
+ * Get the driving route polyline between two points
+ *
+ * Falls back to the straight line between them if the API is unavailable.
+ * Not cached: callers store the route they are given.
+ */
+export async function getPlannedRoute(
+  origin: Coordinates,
+  destination: Coordinates
+): Promise<PlannedRoute> {
+  const apiKey =
+    process.env.GOOGLE_ROUTES_API_KEY ||
+    process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+
+  if (
+    apiKey &&
+    apiKey !== "YOUR_GOOGLE_MAPS_API_KEY_HERE" &&
+    apiKey.length > 10
+  ) {
+    try {
+      const data = await fetchDirections(origin, destination, apiKey);
+      const encoded = data.routes[0].overview_polyline?.points;
+      if (encoded) {
+        const points = decodePolyline(encoded);
+        if (points.length >= 2) {
+          return { points, source: "google" };
+        }
+      }
+    } catch (error) {
+      console.error(
+        "Google Routes API error, falling back to straight line:",
+        error
+      );
+    }
+  }
+
+  return {
+    points: [
+      [origin.lat, origin.lng],
+      [destination.lat, destination.lng],
+    ],
+    source: "straight_line",
+  };
+}
+
+/**
+ * Decode a Google encoded polyline into [lat, lng] pairs
+ *
+ * @see https://developers.google.com/maps/documentation/utilities/polylinealgorithm
+ */
+export function decodePolyline(encoded: string): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / 1e5, lng / 1e5]);
+  }
+
+  return points;
+}
+
 /**
  * Calculate ETA based on current position, destination, and speed
  */
@@ -168,6 +250,30 @@ async function callGoogleRoutesApi(
   destination: Coordinates,
   apiKey: string
 ): Promise<RouteResult> {
+  const data = await fetchDirections(origin, destination, apiKey);
+
+  const leg = data.routes[0].legs[0];
+  const distanceMeters = leg.distance.value;
+  const durationSeconds = leg.duration.value;
+
+  return {
+    distanceMeters,
+    distanceKm: distanceMeters / 1000,
+    durationSeconds,
+    durationMinutes: Math.ceil(durationSeconds / 60),
+    estimatedArrival: new Date(Date.now() + durationSeconds * 1000),
+    source: "google",
+  };
+}
+
+/**
+ * Call the Google Directions API, throwing unless a route was found
+ */
+async function fetchDirections(
+  origin: Coordinates,
+  destination: Coordinates,
+  apiKey: string
+) {
   // Using Google Directions API (simpler than Routes API)
   const url = new URL("https://maps.googleapis.com/maps/api/directions/json");
   url.searchParams.set("origin", `${origin.lat},${origin.lng}`);
@@ -187,18 +293,7 @@ async function callGoogleRoutesApi(
     throw new Error(`Google API returned status: ${data.status}`);
   }
 
-  const leg = data.routes[0].legs[0];
-  const distanceMeters = leg.distance.value;
-  const durationSeconds = leg.duration.value;
-
-  return {
-    distanceMeters,
-    distanceKm: distanceMeters / 1000,
-    durationSeconds,
-    durationMinutes: Math.ceil(durationSeconds / 60),
-    estimatedArrival: new Date(Date.now() + durationSeconds * 1000),
-    source: "google",
-  };
+  return data;
 }
 
 /**
@@ -315,6 +410,7 @@ const googleRoutesService = {
   calculateDeadheadOrigin,
   calculateDeadheadDestination,
   batchCalculateDistances,
+  getPlannedRoute,
 };
 
 export default googleRoutesService;
@@ -66,7 +66,10 @@ export async function sendGpsOfflineAlert(truckId: string): Promise<void> {
           },
         },
       },
-      assignedLoad: {
+      // Consolidated trucks carry several loads; every shipper is alerted
+      assignedLoads: {
+        where: { status: { in: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"] } },
+        orderBy: { assignedAt: "asc" },
         select: {
           id: true,
           status: true,
@@ -85,7 +88,8 @@ export async function sendGpsOfflineAlert(truckId: string): Promise<void> {
     },
   });
 
-  if (!truck || !truck.assignedLoad) {
+  const assignedLoad = truck?.assignedLoads[0];
+  if (!truck || !assignedLoad) {
     return; // No active load, skip alert
   }
 
@@ -113,43 +117,45 @@ export async function sendGpsOfflineAlert(truckId: string): Promise<void> {
         userId: user.id,
         type: "GPS_OFFLINE",
         title: `GPS Signal Lost: ${truck.licensePlate}`,
-        message: `Truck ${truck.licensePlate} on Load #${truck.assignedLoad!.id.slice(-8)} has lost GPS signal (offline for ${minutesOffline} minutes).`,
+        message: `Truck ${truck.licensePlate} on Load #${assignedLoad.id.slice(-8)} has lost GPS signal (offline for ${minutesOffline} minutes).`,
         metadata: {
           truckId: truck.id,
-          loadId: truck.assignedLoad!.id,
+          loadId: assignedLoad.id,
           minutesOffline,
           gpsStatus: truck.gpsStatus,
         },
       }),
       sendEmailToUser(user.id, EmailTemplate.GPS_OFFLINE, {
         truckPlate: truck.licensePlate,
-        loadId: truck.assignedLoad!.id,
+        loadId: assignedLoad.id,
         lastLocation: "Unknown",
       }),
     ]),
     // Shipper notifications
-    ...truck.assignedLoad.shipper.users.map((user) =>
-      createNotification({
-        userId: user.id,
-        type: "GPS_OFFLINE",
-        title: `Tracking Alert: Load #${truck.assignedLoad!.id.slice(-8)}`,
-        message: `GPS tracking for Load #${truck.assignedLoad!.id.slice(-8)} is currently unavailable. The carrier has been notified.`,
-        metadata: {
-          truckId: truck.id,
-          loadId: truck.assignedLoad!.id,
-          minutesOffline,
-        },
-      })
+    ...truck.assignedLoads.flatMap((load) =>
+      load.shipper.users.map((user) =>
+        createNotification({
+          userId: user.id,
+          type: "GPS_OFFLINE",
+          title: `Tracking Alert: Load #${load.id.slice(-8)}`,
+          message: `GPS tracking for Load #${load.id.slice(-8)} is currently unavailable. The carrier has been notified.`,
+          metadata: {
+            truckId: truck.id,
+            loadId: load.id,
+            minutesOffline,
+          },
+        })
+      )
     ),
     // §11 V2 FIX: Notify Admin + Dispatcher (they're not in carrier/shipper orgs)
     createNotificationForRole({
       role: "ADMIN",
       type: "GPS_OFFLINE",
       title: `GPS Signal Lost: ${truck.licensePlate}`,
-      message: `Truck ${truck.licensePlate} (${truck.carrier.name}) lost GPS signal on Load #${truck.assignedLoad!.id.slice(-8)} — offline ${minutesOffline}+ minutes.`,
+      message: `Truck ${truck.licensePlate} (${truck.carrier.name}) lost GPS signal on Load #${assignedLoad.id.slice(-8)} — offline ${minutesOffline}+ minutes.`,
       metadata: {
         truckId: truck.id,
-        loadId: truck.assignedLoad!.id,
+        loadId: assignedLoad.id,
         carrierId: truck.carrier.id,
         minutesOffline,
       },
@@ -158,10 +164,10 @@ export async function sendGpsOfflineAlert(truckId: string): Promise<void> {
       role: "DISPATCHER",
       type: "GPS_OFFLINE",
       title: `GPS Signal Lost: ${truck.licensePlate}`,
-      message: `Truck ${truck.licensePlate} (${truck.carrier.name}) lost GPS signal on Load #${truck.assignedLoad!.id.slice(-8)} — offline ${minutesOffline}+ minutes.`,
+      message: `Truck ${truck.licensePlate} (${truck.carrier.name}) lost GPS signal on Load #${assignedLoad.id.slice(-8)} — offline ${minutesOffline}+ minutes.`,
       metadata: {
         truckId: truck.id,
-        loadId: truck.assignedLoad!.id,
+        loadId: assignedLoad.id,
         carrierId: truck.carrier.id,
         minutesOffline,
       },
@@ -177,7 +183,7 @@ export async function sendGpsOfflineAlert(truckId: string): Promise<void> {
       message: `The GPS signal on your assigned truck ${truck.licensePlate} has been lost. This may affect tracking. Contact your carrier if the issue persists.`,
       metadata: {
         truckId: truck.id,
-        loadId: truck.assignedLoad!.id,
+        loadId: assignedLoad.id,
         minutesOffline,
       },
     });
@@ -212,7 +218,9 @@ export async function sendGpsBackOnlineAlert(truckId: string): Promise<void> {
           },
         },
       },
-      assignedLoad: {
+      assignedLoads: {
+        where: { status: { in: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"] } },
+        orderBy: { assignedAt: "asc" },
         select: {
           id: true,
           shipper: {
@@ -234,7 +242,8 @@ export async function sendGpsBackOnlineAlert(truckId: string): Promise<void> {
     },
   });
 
-  if (!truck || !truck.assignedLoad) {
+  const assignedLoad = truck?.assignedLoads[0];
+  if (!truck || !assignedLoad) {
     return;
   }
 
@@ -258,26 +267,28 @@ export async function sendGpsBackOnlineAlert(truckId: string): Promise<void> {
         message: `GPS signal has been restored for truck ${truck.licensePlate}.`,
         metadata: {
           truckId: truck.id,
-          loadId: truck.assignedLoad!.id,
+          loadId: assignedLoad.id,
         },
       }),
       sendEmailToUser(user.id, EmailTemplate.GPS_BACK_ONLINE, {
         truckPlate: truck.licensePlate,
-        loadId: truck.assignedLoad!.id,
+        loadId: assignedLoad.id,
       }),
     ]),
     // Shipper notifications
-    ...truck.assignedLoad.shipper.users.map((user) =>
-      createNotification({
-        userId: user.id,
-        type: "GPS_BACK_ONLINE",
-        title: `Tracking Restored: Load #${truck.assignedLoad!.id.slice(-8)}`,
-        message: `GPS tracking has been restored for Load #${truck.assignedLoad!.id.slice(-8)}.`,
-        metadata: {
-          truckId: truck.id,
-          loadId: truck.assignedLoad!.id,
-        },
-      })
+    ...truck.assignedLoads.flatMap((load) =>
+      load.shipper.users.map((user) =>
+        createNotification({
+          userId: user.id,
+          type: "GPS_BACK_ONLINE",
+          title: `Tracking Restored: Load #${load.id.slice(-8)}`,
+          message: `GPS tracking has been restored for Load #${load.id.slice(-8)}.`,
+          metadata: {
+            truckId: truck.id,
+            loadId: load.id,
+          },
+        })
+      )
     ),
   ]);
 
@@ -290,7 +301,7 @@ export async function sendGpsBackOnlineAlert(truckId: string): Promise<void> {
       message: `GPS tracking has been restored for your truck ${truck.licensePlate}.`,
       metadata: {
         truckId: truck.id,
-        loadId: truck.assignedLoad!.id,
+        loadId: assignedLoad.id,
       },
     });
   }
@@ -352,8 +363,8 @@ export async function getGpsAlertStats(
   const offlineTrucks = await db.truck.count({
     where: {
       gpsStatus: "SIGNAL_LOST",
-      assignedLoad: {
-        isNot: null,
+      assignedLoads: {
+        some: {},
       },
     },
   });
@@ -0,0 +1,172 @@
+/**
+ * GPS Tracker Alarms
+ *
+ * Hardware trackers report alarms through lib/gpsTcpServer.ts: the panic
+ * button (SOS), the tracker losing main power (often a sign of tampering)
+ * and the tracker's own overspeed alarm.
+ *
+ * An alarm from a truck on an active load raises a LoadEscalation on each
+ * load it carries, reusing the load's open escalation for the same alarm,
+ * and notifies dispatchers and the carrier. Alarms from trucks without an active load are only
+ * logged.
+ */
+
+import { EscalationPriority, EscalationType } from "@prisma/client";
+import { db } from "@/lib/db";
+import { getActiveTruckLoadIds, GpsPositionData } from "@/lib/gpsIngestion";
+import type { GpsDeviceAlarm } from "@/lib/gpsProtocols/types";
+import {
+  createNotificationForRole,
+  notifyOrganization,
+  NotificationType,
+} from "@/lib/notifications";
+import { logger } from "@/lib/logger";
+
+/** Escalation statuses that still cover repeated alarms on the same load */
+const OPEN_ESCALATION_STATUSES = ["OPEN", "ASSIGNED", "IN_PROGRESS"] as const;
+
+const ALARM_ESCALATIONS: Record<
+  GpsDeviceAlarm,
+  {
+    escalationType: EscalationType;
+    priority: EscalationPriority;
+    title: string;
+    notificationType: string;
+  }
+> = {
+  SOS: {
+    escalationType: "DEVICE_ALARM",
+    priority: "CRITICAL",
+    title: "SOS alarm from truck tracker",
+    notificationType: NotificationType.DEVICE_ALARM,
+  },
+  POWER_CUT: {
+    escalationType: "DEVICE_ALARM",
+    priority: "HIGH",
+    title: "Truck tracker lost main power",
+    notificationType: NotificationType.DEVICE_ALARM,
+  },
+  OVERSPEED: {
+    escalationType: "UNSAFE_DRIVING",
+    priority: "MEDIUM",
+    title: "Overspeed alarm from truck tracker",
+    notificationType: NotificationType.UNSAFE_DRIVING,
+  },
+};
+
+/**
+ * Raise the escalation for a tracker alarm on every load the truck carries
+ * (several when partial loads are consolidated on it)
+ *
+ * Returns the escalation IDs, empty when the truck has no active load.
+ */
+export async function raiseDeviceAlarm(
+  truckId: string,
+  alarm: GpsDeviceAlarm,
+  position: GpsPositionData | null
+): Promise<string[]> {
+  const loadIds = await getActiveTruckLoadIds(truckId);
+  if (loadIds.length === 0) {
+    logger.warn("GPS tracker alarm from truck without an active load", {
+      truckId,
+      alarm,
+    });
+    return [];
+  }
+
+  const truck = await db.truck.findUnique({
+    where: { id: truckId },
+    select: { licensePlate: true, carrierId: true },
+  });
+  const plate = truck?.licensePlate ?? "The truck";
+  const location = position
+    ? ` at ${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)}`
+    : "";
+  const speed =
+    position?.speed !== undefined ? ` (${position.speed} km/h)` : "";
+  const description = `${plate} reported a ${alarm} alarm${location}${speed}.`;
+
+  const escalationIds: string[] = [];
+  for (const loadId of loadIds) {
+    escalationIds.push(
+      await raiseLoadAlarm(
+        loadId,
+        truckId,
+        truck?.carrierId,
+        alarm,
+        description
+      )
+    );
+  }
+  return escalationIds;
+}
+
+/**
+ * Raise the escalation for a tracker alarm on one load, reusing the load's
+ * open escalation for the same alarm
+ *
+ * Returns the escalation ID.
+ */
+async function raiseLoadAlarm(
+  loadId: string,
+  truckId: string,
+  carrierId: string | undefined,
+  alarm: GpsDeviceAlarm,
+  description: string
+): Promise<string> {
+  const { escalationType, priority, title, notificationType } =
+    ALARM_ESCALATIONS[alarm];
+
+  const existing = await db.loadEscalation.findFirst({
+    where: {
+      loadId,
+      escalationType,
+      title,
+      status: { in: [...OPEN_ESCALATION_STATUSES] },
+    },
+    select: { id: true },
+  });
+  if (existing) return existing.id;
+
+  const escalation = await db.loadEscalation.create({
+    data: {
+      loadId,
+      escalationType,
+      priority,
+      title,
+      description,
+      createdBy: "SYSTEM",
+      status: "OPEN",
+    },
+  });
+  await db.loadEvent.create({
+    data: {
+      loadId,
+      eventType: "ESCALATION_AUTO_CREATED",
+      description: `Auto-created escalation: ${title}`,
+      metadata: {
+        escalationId: escalation.id,
+        escalationType,
+        priority,
+        autoDetected: true,
+        deviceAlarm: alarm,
+      },
+    },
+  });
+
+  const notification = {
+    type: notificationType,
+    title,
+    message: description,
+    metadata: { loadId, truckId, escalationId: escalation.id, alarm },
+  };
+  Promise.all([
+    createNotificationForRole({ role: "DISPATCHER", ...notification }),
+    carrierId &&
+      notifyOrganization({ organizationId: carrierId, ...notification }),
+  ]).catch((err) =>
+    logger.error("GPS tracker alarm notification failed", err, { truckId })
+  );
+
+  return escalation.id;
+}
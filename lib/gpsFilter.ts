@@ -0,0 +1,314 @@
+/**
+ * GPS Position Filtering
+ *
+ * Positions are checked before they are stored, against the truck's stored
+ * positions around them. A position is rejected when:
+ * - LOW_ACCURACY: the device reports an accuracy worse than MAX_ACCURACY_M
+ *   (phones indoors or falling back to cell towers).
+ * - IMPOSSIBLE_SPEED: the reported speed is more than a truck can do.
+ * - TELEPORT: getting there from the previous position would take more
+ *   than MAX_SPEED_KMH. Only positions up to REFERENCE_WINDOW_MINUTES
+ *   before are compared, so one bad fix cannot block the truck for long.
+ * - DUPLICATE: a position with the same timestamp is already stored or
+ *   earlier in the batch (re-sent offline queues).
+ *
+ * A slow position within STATIONARY_RADIUS_M of the previous one is jitter
+ * of a parked truck and is stored at the previous position.
+ *
+ * Rejected positions are kept as GpsRejectedPosition rows for diagnostics
+ * and never move the truck, add trip distance or reach geofence and route
+ * checks. Trip.actualDistanceKm is summed from accepted positions only.
+ */
+
+import { GpsRejectReason, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { calculateDistanceKm } from "@/lib/geo";
+
+const MINUTE_MS = 60 * 1000;
+
+/** Worse accuracy than this (meters) is not worth storing */
+export const MAX_ACCURACY_M = 100;
+/** Faster than this (km/h), reported or implied, is not a truck */
+export const MAX_SPEED_KMH = 150;
+/** Closer than this (meters) to the previous position is GPS jitter */
+export const STATIONARY_RADIUS_M = 30;
+/** Slower than this (km/h) the truck is parked */
+const MOVING_SPEED_KMH = 5;
+/** How far back the previous position for the speed check is looked up */
+export const REFERENCE_WINDOW_MINUTES = 10;
+
+export interface TrackPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+}
+
+export interface FilterablePosition extends TrackPoint {
+  /** km/h */
+  speed?: number | null;
+  /** meters */
+  accuracy?: number | null;
+}
+
+export interface GpsFilterResult<T extends FilterablePosition> {
+  /** Oldest first; jitter is moved onto the previous position */
+  accepted: T[];
+  rejected: Array<{ position: T; reason: GpsRejectReason }>;
+}
+
+/** Where rejected positions came from */
+export interface RejectedPositionContext {
+  truckId: string;
+  deviceId?: string | null;
+  loadId?: string | null;
+  tripId?: string | null;
+  source?: string | null;
+  driverId?: string | null;
+}
+
+const byTime = (a: TrackPoint, b: TrackPoint) =>
+  a.timestamp.getTime() - b.timestamp.getTime();
+
+/**
+ * Length of a track in kilometers
+ */
+function trackLengthKm(points: TrackPoint[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += calculateDistanceKm(
+      points[i - 1].latitude,
+      points[i - 1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+  }
+  return total;
+}
+
+/**
+ * @param previous - Latest track point before the position
+ * @param next - First track point at or after the position
+ */
+function rejectReason(
+  position: FilterablePosition,
+  previous: TrackPoint | undefined,
+  next: TrackPoint | undefined
+): GpsRejectReason | null {
+  if (next && next.timestamp.getTime() === position.timestamp.getTime()) {
+    return "DUPLICATE";
+  }
+  if (position.accuracy != null && position.accuracy > MAX_ACCURACY_M) {
+    return "LOW_ACCURACY";
+  }
+  if (position.speed != null && position.speed > MAX_SPEED_KMH) {
+    return "IMPOSSIBLE_SPEED";
+  }
+
+  if (!previous) return null;
+  const elapsedMs = position.timestamp.getTime() - previous.timestamp.getTime();
+  if (elapsedMs > REFERENCE_WINDOW_MINUTES * MINUTE_MS) return null;
+  const distanceKm = calculateDistanceKm(
+    previous.latitude,
+    previous.longitude,
+    position.latitude,
+    position.longitude
+  );
+  if (
+    distanceKm * 1000 > STATIONARY_RADIUS_M &&
+    distanceKm / (elapsedMs / (60 * MINUTE_MS)) > MAX_SPEED_KMH
+  ) {
+    return "TELEPORT";
+  }
+  return null;
+}
+
+/**
+ * Split positions into accepted and rejected
+ *
+ * @param positions - New positions, in any order
+ * @param stored - The truck's stored positions from REFERENCE_WINDOW_MINUTES
+ *   before the oldest new position up to the newest one
+ */
+export function filterPositions<T extends FilterablePosition>(
+  positions: T[],
+  stored: TrackPoint[]
+): GpsFilterResult<T> {
+  const track = [...stored].sort(byTime);
+  const result: GpsFilterResult<T> = { accepted: [], rejected: [] };
+
+  for (const position of [...positions].sort(byTime)) {
+    const time = position.timestamp.getTime();
+    let index = track.findIndex((point) => point.timestamp.getTime() >= time);
+    if (index === -1) index = track.length;
+    const previous = track[index - 1];
+
+    const reason = rejectReason(position, previous, track[index]);
+    if (reason) {
+      result.rejected.push({ position, reason });
+      continue;
+    }
+
+    const parked =
+      previous &&
+      (position.speed ?? 0) < MOVING_SPEED_KMH &&
+      calculateDistanceKm(
+        previous.latitude,
+        previous.longitude,
+        position.latitude,
+        position.longitude
+      ) *
+        1000 <=
+        STATIONARY_RADIUS_M;
+    const accepted = parked
+      ? {
+          ...position,
+          latitude: previous.latitude,
+          longitude: previous.longitude,
+        }
+      : position;
+    result.accepted.push(accepted);
+    track.splice(index, 0, accepted);
+  }
+  return result;
+}
+
+/**
+ * Filter new positions of a truck against its stored positions
+ */
+export async function filterTruckPositions<T extends FilterablePosition>(
+  truckId: string,
+  positions: T[]
+): Promise<GpsFilterResult<T>> {
+  if (positions.length === 0) return { accepted: [], rejected: [] };
+
+  const times = positions.map((position) => position.timestamp.getTime());
+  const stored = await db.gpsPosition.findMany({
+    where: {
+      truckId,
+      timestamp: {
+        gte: new Date(
+          Math.min(...times) - REFERENCE_WINDOW_MINUTES * MINUTE_MS
+        ),
+        lte: new Date(Math.max(...times)),
+      },
+    },
+    select: { latitude: true, longitude: true, timestamp: true },
+    orderBy: { timestamp: "asc" },
+  });
+
+  return filterPositions(
+    positions,
+    stored.map((position) => ({
+      latitude: Number(position.latitude),
+      longitude: Number(position.longitude),
+      timestamp: position.timestamp,
+    }))
+  );
+}
+
+/**
+ * Keep rejected positions for diagnostics
+ */
+export async function storeRejectedPositions<T extends FilterablePosition>(
+  rejected: GpsFilterResult<T>["rejected"],
+  context: RejectedPositionContext
+): Promise<void> {
+  if (rejected.length === 0) return;
+  await db.gpsRejectedPosition.createMany({
+    data: rejected.map(({ position, reason }) => ({
+      reason,
+      latitude: new Prisma.Decimal(position.latitude),
+      longitude: new Prisma.Decimal(position.longitude),
+      speed: position.speed != null ? new Prisma.Decimal(position.speed) : null,
+      accuracy:
+        position.accuracy != null
+          ? new Prisma.Decimal(position.accuracy)
+          : null,
+      timestamp: position.timestamp,
+      truckId: context.truckId,
+      deviceId: context.deviceId ?? null,
+      loadId: context.loadId ?? null,
+      tripId: context.tripId ?? null,
+      source: context.source ?? null,
+      driverId: context.driverId ?? null,
+    })),
+  });
+}
+
+/**
+ * Add newly stored accepted positions to Trip.actualDistanceKm
+ *
+ * Positions newer than the last one summed extend the distance. Older ones
+ * (late offline uploads) change the path in the middle, so the distance is
+ * recomputed from all of the trip's positions.
+ *
+ * @param tripId - Trip ID
+ * @param positions - Accepted positions already stored for the trip, oldest
+ *   first
+ */
+export async function updateTripDistance(
+  tripId: string,
+  positions: TrackPoint[]
+): Promise<void> {
+  if (positions.length === 0) return;
+  const trip = await db.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      distanceSampleAt: true,
+      distanceSampleLat: true,
+      distanceSampleLng: true,
+    },
+  });
+  if (!trip) return;
+
+  const sampleAt = trip.distanceSampleAt;
+  if (sampleAt && positions[0].timestamp.getTime() <= sampleAt.getTime()) {
+    const track = await db.gpsPosition.findMany({
+      where: { tripId },
+      select: { latitude: true, longitude: true, timestamp: true },
+      orderBy: { timestamp: "asc" },
+    });
+    const points = track.map((position) => ({
+      latitude: Number(position.latitude),
+      longitude: Number(position.longitude),
+      timestamp: position.timestamp,
+    }));
+    const last = points[points.length - 1];
+    await db.trip.update({
+      where: { id: tripId },
+      data: {
+        actualDistanceKm: trackLengthKm(points),
+        distanceSampleAt: last.timestamp,
+        distanceSampleLat: last.latitude,
+        distanceSampleLng: last.longitude,
+      },
+    });
+    return;
+  }
+
+  const last = positions[positions.length - 1];
+  const sample = {
+    distanceSampleAt: last.timestamp,
+    distanceSampleLat: last.latitude,
+    distanceSampleLng: last.longitude,
+  };
+  if (!sampleAt) {
+    await db.trip.update({
+      where: { id: tripId },
+      data: { actualDistanceKm: trackLengthKm(positions), ...sample },
+    });
+    return;
+  }
+  const previous = {
+    latitude: Number(trip.distanceSampleLat),
+    longitude: Number(trip.distanceSampleLng),
+    timestamp: sampleAt,
+  };
+  await db.trip.update({
+    where: { id: tripId },
+    data: {
+      actualDistanceKm: { increment: trackLengthKm([previous, ...positions]) },
+      ...sample,
+    },
+  });
+}
@@ -3,12 +3,21 @@
  *
  * Sprint 16 - Story 16.8: GPS Data Storage & Background Monitoring
  *
- * Handles ingestion and storage of GPS position data
+ * Handles ingestion and storage of GPS position data. Positions go through
+ * the lib/gpsFilter.ts outlier filter before they are stored.
  */
 
 import { db } from "./db";
 import { Decimal } from "decimal.js";
-import { GpsDeviceStatus } from "@prisma/client";
+import { GpsDeviceStatus, TripStatus } from "@prisma/client";
+import { checkRouteDeviation } from "./routeDeviation";
+import { analyzeDrivingSample } from "./drivingSafety";
+import {
+  filterTruckPositions,
+  storeRejectedPositions,
+  updateTripDistance,
+} from "./gpsFilter";
+import { logger } from "./logger";
 
 export interface GpsPositionData {
   latitude: number;
@@ -18,6 +27,8 @@ export interface GpsPositionData {
   altitude?: number;
   accuracy?: number;
   timestamp?: Date;
+  /** GpsPosition.source, e.g. "ELD_HARDWARE" for hardware trackers */
+  source?: string;
 }
 
 /**
@@ -51,40 +62,139 @@ export async function ingestGpsData(
     throw new Error(`GPS device ${imei} is not assigned to a truck`);
   }
 
-  // Check if truck is on an active load
-  const activeTruck = await db.truck.findUnique({
-    where: { id: device.truck.id },
-    select: {
-      assignedLoad: {
-        select: {
-          id: true,
-          trackingEnabled: true,
-        },
-      },
-    },
-  });
+  // A consolidated truck carries several loads, each with its own trip:
+  // the position belongs to every one of them
+  const tracked = await getTrackedTruckLoads(device.truck.id);
+  const targets =
+    tracked.length > 0 ? tracked : [{ loadId: null, tripId: null }];
+  const timestamp = position.timestamp || new Date();
 
-  const loadId =
-    activeTruck?.assignedLoad?.trackingEnabled === true
-      ? activeTruck.assignedLoad.id
-      : null;
+  // Drop impossible points and park jitter before anything sees them
+  const { accepted, rejected } = await filterTruckPositions(device.truck.id, [
+    { ...position, timestamp },
+  ]);
+  for (const { loadId, tripId } of targets) {
+    await storeRejectedPositions(rejected, {
+      truckId: device.truck.id,
+      deviceId: device.id,
+      loadId,
+      tripId,
+      source: position.source,
+    });
+  }
+  if (accepted.length === 0) {
+    // The device is still reporting
+    await updateTruckLastSeen(device.truck.id);
+    return;
+  }
+  const { latitude, longitude } = accepted[0];
 
   // Store position data
-  await storePositionData(
-    device.truck.id,
-    device.id,
-    loadId,
-    position.latitude,
-    position.longitude,
-    position.speed,
-    position.heading,
-    position.altitude,
-    position.accuracy,
-    position.timestamp || new Date()
-  );
+  for (const { loadId, tripId } of targets) {
+    await storePositionData(
+      device.truck.id,
+      device.id,
+      loadId,
+      latitude,
+      longitude,
+      position.speed,
+      position.heading,
+      position.altitude,
+      position.accuracy,
+      timestamp,
+      tripId,
+      position.source
+    );
+  }
 
   // Update truck last seen
   await updateTruckLastSeen(device.truck.id);
+
+  // Add the trip distance, check the planned route corridor and driving
+  // safety of each trip; a failed check must not lose the position
+  for (const { tripId } of tracked) {
+    if (!tripId) continue;
+    try {
+      await updateTripDistance(tripId, accepted);
+    } catch (error) {
+      logger.error("Trip distance update failed", error, { tripId });
+    }
+    try {
+      await checkRouteDeviation(tripId, latitude, longitude, timestamp);
+    } catch (error) {
+      logger.error("Route deviation check failed", error, { tripId });
+    }
+    try {
+      await analyzeDrivingSample(tripId, {
+        latitude,
+        longitude,
+        speed: position.speed,
+        timestamp,
+      });
+    } catch (error) {
+      logger.error("Driving safety analysis failed", error, { tripId });
+    }
+  }
+}
+
+/**
+ * Loads on a truck with tracking enabled, and their trips
+ *
+ * A consolidated truck carries several loads at once; each gets its own
+ * copy of the truck's positions so its route history, distance, deviation
+ * and safety checks are complete.
+ *
+ * @param truckId - Truck ID
+ * @returns Loads, most recently assigned first
+ */
+export async function getTrackedTruckLoads(
+  truckId: string
+): Promise<Array<{ loadId: string; tripId: string | null }>> {
+  const loads = await db.load.findMany({
+    where: {
+      assignedTruckId: truckId,
+      trackingEnabled: true,
+      status: { in: ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT", "DELIVERED"] },
+    },
+    select: { id: true },
+    orderBy: { assignedAt: "desc" },
+  });
+  if (loads.length === 0) return [];
+
+  const trips = await db.trip.findMany({
+    where: { loadId: { in: loads.map((load) => load.id) } },
+    select: { id: true, loadId: true },
+  });
+  return loads.map((load) => ({
+    loadId: load.id,
+    tripId: trips.find((trip) => trip.loadId === load.id)?.id ?? null,
+  }));
+}
+
+/** Trip statuses whose truck positions are recorded on the trip */
+const GPS_TRIP_STATUSES: TripStatus[] = [
+  "PICKUP_PENDING",
+  "IN_TRANSIT",
+  "DELIVERED",
+];
+
+/**
+ * Active trips of a truck
+ *
+ * A consolidated truck carries several loads at once, each with its own
+ * trip; the GPS routes record every position on each of them.
+ *
+ * @param truckId - Truck ID
+ * @returns Trips with their load, most recent first
+ */
+export async function getActiveTruckTrips(
+  truckId: string
+): Promise<Array<{ id: string; loadId: string | null }>> {
+  return db.trip.findMany({
+    where: { truckId, status: { in: GPS_TRIP_STATUSES } },
+    select: { id: true, loadId: true },
+    orderBy: { createdAt: "desc" },
+  });
 }
 
 /**
@@ -100,6 +210,8 @@ export async function ingestGpsData(
  * @param altitude - Altitude in meters (optional)
  * @param accuracy - GPS accuracy in meters (optional)
  * @param timestamp - Position timestamp (defaults to now)
+ * @param tripId - Trip ID for route history (if the load has a trip)
+ * @param source - Position source (optional)
  */
 export async function storePositionData(
   truckId: string,
@@ -111,13 +223,17 @@ export async function storePositionData(
   heading?: number,
   altitude?: number,
   accuracy?: number,
-  timestamp?: Date
+  timestamp?: Date,
+  tripId?: string | null,
+  source?: string
 ): Promise<void> {
   await db.gpsPosition.create({
     data: {
       truckId,
       deviceId,
       loadId,
+      tripId: tripId ?? null,
+      source: source ?? null,
       latitude: new Decimal(latitude),
       longitude: new Decimal(longitude),
       speed: speed !== undefined ? new Decimal(speed) : null,
@@ -219,37 +335,32 @@ export async function updateAllTruckGpsStatuses(): Promise<void> {
 }
 
 /**
- * Get active load ID for a truck
+ * Get active load IDs for a truck
  *
- * Returns the ID of the load currently being transported by the truck
+ * Returns the loads currently being transported by the truck; more than one
+ * when partial loads are consolidated on it
  *
  * @param truckId - Truck ID
- * @returns Load ID or null
+ * @returns Load IDs, most recently assigned first
  */
-export async function getActiveTruckLoadId(
+export async function getActiveTruckLoadIds(
   truckId: string
-): Promise<string | null> {
+): Promise<string[]> {
   const truck = await db.truck.findUnique({
     where: { id: truckId },
     select: {
-      assignedLoad: {
+      assignedLoads: {
+        where: {
+          trackingEnabled: true,
+          status: { in: ["IN_TRANSIT", "ASSIGNED"] },
+        },
         select: {
           id: true,
-          status: true,
-          trackingEnabled: true,
         },
+        orderBy: { assignedAt: "desc" },
       },
     },
   });
 
-  if (
-    truck?.assignedLoad &&
-    truck.assignedLoad.trackingEnabled &&
-    (truck.assignedLoad.status === "IN_TRANSIT" ||
-      truck.assignedLoad.status === "ASSIGNED")
-  ) {
-    return truck.assignedLoad.id;
-  }
-
-  return null;
+  return truck?.assignedLoads.map((load) => load.id) ?? [];
 }
@@ -159,10 +159,10 @@ export async function fetchGpsProviderApi(
   // Production implementation would switch based on provider
   switch (provider) {
     case "TELTONIKA":
-      break;
     case "CONCOX":
-      break;
     case "QUECLINK":
+      // Hardware trackers push to the TCP server (lib/gpsTcpServer.ts) and
+      // have no API to poll
       break;
     default:
       // Generic GPS provider API call
@@ -0,0 +1,229 @@
+/**
+ * Concox GT06 Decoder
+ *
+ * GT06-family trackers (GT06N, GT800, JM-VL01 and most cheap clones) send
+ * binary packets:
+ *
+ *   0x78 0x78 | length (1) | protocol (1) | content | serial (2) | CRC (2) | 0x0D 0x0A
+ *
+ * Long packets start with 0x79 0x79 and a 2-byte length. The length counts
+ * protocol through CRC; the CRC-ITU covers length through serial.
+ *
+ * - 0x01 login (IMEI as 8 BCD bytes), 0x13 heartbeat and 0x16 / 0x26 alarm
+ *   packets are answered with the protocol number and serial.
+ * - 0x12 / 0x22 location packets are not answered.
+ *
+ * Times are UTC. Latitude and longitude are minutes × 30000, with the
+ * hemispheres in the course/status word.
+ */
+
+import type { GpsPositionData } from "../gpsIngestion";
+import {
+  GpsDecoder,
+  GpsDeviceAlarm,
+  GpsMessage,
+  GpsProtocolError,
+} from "./types";
+
+export const GT06_LOGIN = 0x01;
+export const GT06_LOCATION = 0x12;
+export const GT06_HEARTBEAT = 0x13;
+export const GT06_ALARM = 0x16;
+export const GT06_LOCATION_4G = 0x22;
+export const GT06_ALARM_4G = 0x26;
+
+/** Packets the device waits for an answer to before sending more */
+const ANSWERED_PROTOCOLS = [
+  GT06_LOGIN,
+  GT06_HEARTBEAT,
+  GT06_ALARM,
+  GT06_ALARM_4G,
+];
+
+/** Alarm byte of alarm packets (other values: shock, geofence, ...) */
+const ALARMS: Record<number, GpsDeviceAlarm> = {
+  0x01: "SOS",
+  0x02: "POWER_CUT",
+  0x06: "OVERSPEED",
+};
+
+const COORDINATE_DIVISOR = 30000 * 60;
+
+// Course/status word bits
+const STATUS_POSITIONED = 0x1000;
+const STATUS_WEST = 0x0800;
+const STATUS_NORTH = 0x0400;
+const COURSE_MASK = 0x03ff;
+
+/** Length of the date/time + GPS block at the start of location content */
+const GPS_BLOCK_LENGTH = 18;
+
+export type Gt06Message = GpsMessage & { protocol: number; serial: number };
+
+/**
+ * CRC-ITU (CRC-16/X-25: polynomial 0x1021 reflected, initial and final
+ * value 0xFFFF)
+ */
+export function crcItu(data: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+    }
+  }
+  return ~crc & 0xffff;
+}
+
+/**
+ * Build a short (0x78 0x78) packet
+ */
+export function encodeGt06Packet(
+  protocol: number,
+  serial: number,
+  content: Buffer = Buffer.alloc(0)
+): Buffer {
+  const body = Buffer.alloc(1 + 1 + content.length + 2);
+  body.writeUInt8(body.length + 2 - 1, 0);
+  body.writeUInt8(protocol, 1);
+  content.copy(body, 2);
+  body.writeUInt16BE(serial, 2 + content.length);
+
+  const crc = Buffer.alloc(2);
+  crc.writeUInt16BE(crcItu(body));
+  return Buffer.concat([
+    Buffer.from([0x78, 0x78]),
+    body,
+    crc,
+    Buffer.from([0x0d, 0x0a]),
+  ]);
+}
+
+/**
+ * Date/time and GPS block of location and alarm packets, or null when the
+ * device has no fix
+ */
+function readGpsBlock(content: Buffer): GpsPositionData | null {
+  if (content.length < GPS_BLOCK_LENGTH) {
+    throw new GpsProtocolError("GT06 location data too short");
+  }
+  const status = content.readUInt16BE(16);
+  if (!(status & STATUS_POSITIONED)) return null;
+
+  const latitude = content.readUInt32BE(7) / COORDINATE_DIVISOR;
+  const longitude = content.readUInt32BE(11) / COORDINATE_DIVISOR;
+  return {
+    latitude: status & STATUS_NORTH ? latitude : -latitude,
+    longitude: status & STATUS_WEST ? -longitude : longitude,
+    speed: content.readUInt8(15),
+    heading: status & COURSE_MASK,
+    timestamp: new Date(
+      Date.UTC(
+        2000 + content[0],
+        content[1] - 1,
+        content[2],
+        content[3],
+        content[4],
+        content[5]
+      )
+    ),
+  };
+}
+
+/**
+ * GT06 decoder for lib/gpsTcpServer.ts
+ */
+export const gt06Decoder: GpsDecoder<Gt06Message> = {
+  provider: "Concox",
+
+  frame(buffer) {
+    if (buffer.length < 2) return null;
+    const extended = buffer[0] === 0x79 && buffer[1] === 0x79;
+    if (!extended && !(buffer[0] === 0x78 && buffer[1] === 0x78)) {
+      throw new GpsProtocolError("Missing GT06 start bytes");
+    }
+
+    const header = extended ? 4 : 3;
+    if (buffer.length < header) return null;
+    const length = extended ? buffer.readUInt16BE(2) : buffer[2];
+    if (length < 5) {
+      throw new GpsProtocolError(`Invalid GT06 packet length ${length}`);
+    }
+
+    const byteLength = header + length + 2;
+    if (buffer.length < byteLength) return null;
+    if (buffer[byteLength - 2] !== 0x0d || buffer[byteLength - 1] !== 0x0a) {
+      throw new GpsProtocolError("Missing GT06 stop bytes");
+    }
+    return byteLength;
+  },
+
+  decode(frame) {
+    const header = frame[0] === 0x79 ? 4 : 3;
+    const protocol = frame[header];
+    const serial = frame.readUInt16BE(frame.length - 6);
+    if (
+      crcItu(frame.subarray(2, frame.length - 4)) !==
+      frame.readUInt16BE(frame.length - 4)
+    ) {
+      return { type: "invalid", reason: "CRC mismatch", protocol, serial };
+    }
+
+    const content = frame.subarray(header + 1, frame.length - 6);
+    switch (protocol) {
+      case GT06_LOGIN: {
+        if (content.length < 8) {
+          throw new GpsProtocolError("GT06 login too short");
+        }
+        // 15-digit IMEI as 16 BCD digits with a leading zero
+        const imei = content.subarray(0, 8).toString("hex").slice(1);
+        return { type: "login", imei, protocol, serial };
+      }
+
+      case GT06_HEARTBEAT:
+        return { type: "heartbeat", protocol, serial };
+
+      case GT06_LOCATION:
+      case GT06_LOCATION_4G: {
+        const position = readGpsBlock(content);
+        return {
+          type: "position",
+          positions: position ? [position] : [],
+          protocol,
+          serial,
+        };
+      }
+
+      case GT06_ALARM:
+      case GT06_ALARM_4G: {
+        const position = readGpsBlock(content);
+        // Terminal info, voltage and GSM signal precede the alarm and
+        // language bytes at the end of the content
+        const alarm = ALARMS[content[content.length - 2]];
+        if (!alarm) {
+          return {
+            type: "position",
+            positions: position ? [position] : [],
+            protocol,
+            serial,
+          };
+        }
+        return { type: "alarm", alarm, position, protocol, serial };
+      }
+
+      default:
+        return { type: "other", protocol, serial };
+    }
+  },
+
+  ack(message, accepted) {
+    if (
+      !accepted ||
+      message.type === "invalid" ||
+      !ANSWERED_PROTOCOLS.includes(message.protocol)
+    ) {
+      return null;
+    }
+    return encodeGt06Packet(message.protocol, message.serial);
+  },
+};
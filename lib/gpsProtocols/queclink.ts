@@ -0,0 +1,149 @@
+/**
+ * Queclink @Track Decoder
+ *
+ * Queclink trackers (GV300, GV55, GL300, ...) send comma-separated ASCII
+ * reports ending in "$":
+ *
+ *   +RESP:GTFRI,<version>,<IMEI>,<device name>,...,<send time>,<count>$
+ *
+ * - +RESP: live reports, +BUFF: reports buffered while offline. Both are
+ *   answered with "+SACK:<count>$" so the device can drop them.
+ * - +ACK:GTHBD: heartbeat, answered with "+SACK:GTHBD,<version>,<count>$".
+ *
+ * The field layout before the GPS block differs per report and firmware,
+ * so points are found by their shape: accuracy, speed, azimuth, altitude,
+ * longitude, latitude and a YYYYMMDDHHMMSS UTC time. Accuracy 0 means no
+ * fix. GTFRI reports may carry several points.
+ */
+
+import type { GpsPositionData } from "../gpsIngestion";
+import {
+  GpsDecoder,
+  GpsDeviceAlarm,
+  GpsMessage,
+  GpsProtocolError,
+} from "./types";
+
+/** Longest report accepted; multi-point GTFRI reports stay well below */
+export const MAX_REPORT_LENGTH = 4096;
+
+/** Alarm reports (GTSPD: speed alarm, GTMPF: main power disconnected) */
+const ALARMS: Record<string, GpsDeviceAlarm> = {
+  GTSOS: "SOS",
+  GTMPF: "POWER_CUT",
+  GTSPD: "OVERSPEED",
+};
+
+const UTC_TIME = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/;
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+export type QueclinkMessage = GpsMessage & {
+  /** "+RESP", "+BUFF", "+ACK", ... */
+  prefix: string;
+  version: string;
+  count: string;
+};
+
+/**
+ * GPS points in a report's fields, oldest first
+ */
+export function readReportPositions(fields: string[]): GpsPositionData[] {
+  const positions: GpsPositionData[] = [];
+  // The last two fields are the send time and count number
+  for (let i = 6; i < fields.length - 2; i++) {
+    const time = UTC_TIME.exec(fields[i]);
+    const [accuracy, speed, azimuth, altitude, longitude, latitude] =
+      fields.slice(i - 6, i);
+    if (!time || !DECIMAL.test(longitude) || !DECIMAL.test(latitude)) {
+      continue;
+    }
+    if (accuracy === "0" || accuracy === "") continue;
+
+    const [, year, month, day, hour, minute, second] = time.map(Number);
+    positions.push({
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      ...(DECIMAL.test(speed) && { speed: Number(speed) }),
+      ...(DECIMAL.test(azimuth) && { heading: Number(azimuth) }),
+      ...(DECIMAL.test(altitude) && { altitude: Number(altitude) }),
+      timestamp: new Date(Date.UTC(year, month - 1, day, hour, minute, second)),
+    });
+  }
+  return positions.sort(
+    (a, b) => a.timestamp!.getTime() - b.timestamp!.getTime()
+  );
+}
+
+/**
+ * Queclink @Track decoder for lib/gpsTcpServer.ts
+ */
+export const queclinkDecoder: GpsDecoder<QueclinkMessage> = {
+  provider: "Queclink",
+
+  frame(buffer) {
+    // Some firmware ends reports with CR/LF as well
+    let start = 0;
+    while (buffer[start] === 0x0d || buffer[start] === 0x0a) start++;
+    if (start === buffer.length) return null;
+    if (buffer[start] !== 0x2b) {
+      throw new GpsProtocolError("Queclink report does not start with +");
+    }
+
+    const end = buffer.indexOf(0x24, start); // "$"
+    if (end === -1) {
+      if (buffer.length > MAX_REPORT_LENGTH) {
+        throw new GpsProtocolError("Queclink report too long");
+      }
+      return null;
+    }
+    return end + 1;
+  },
+
+  decode(frame) {
+    const text = frame.toString("ascii").trim().replace(/\$$/, "");
+    const fields = text.split(",");
+    const [prefix, report] = fields[0].split(":");
+    if (!report || fields.length < 4) {
+      throw new GpsProtocolError("Malformed Queclink report");
+    }
+
+    const version = fields[1];
+    const imei = fields[2];
+    const count = fields[fields.length - 1];
+    const base = { prefix, version, count };
+    if (!/^\d{15}$/.test(imei)) {
+      return { type: "invalid", reason: "Missing IMEI", ...base };
+    }
+
+    if (prefix === "+ACK" && report === "GTHBD") {
+      return { type: "heartbeat", imei, ...base };
+    }
+    if (prefix !== "+RESP" && prefix !== "+BUFF") {
+      return { type: "other", imei, ...base };
+    }
+
+    const positions = readReportPositions(fields);
+    const alarm = ALARMS[report];
+    if (alarm) {
+      return {
+        type: "alarm",
+        imei,
+        alarm,
+        position: positions[positions.length - 1] ?? null,
+        ...base,
+      };
+    }
+    return { type: "position", imei, positions, ...base };
+  },
+
+  ack(message, accepted) {
+    if (!accepted || message.type === "invalid") return null;
+    if (message.type === "heartbeat") {
+      return Buffer.from(`+SACK:GTHBD,${message.version},${message.count}$`);
+    }
+    if (message.prefix === "+RESP" || message.prefix === "+BUFF") {
+      return Buffer.from(`+SACK:${message.count}$`);
+    }
+    return null;
+  },
+};
@@ -0,0 +1,318 @@
+/**
+ * Teltonika Codec 8 / Codec 8 Extended Decoder
+ *
+ * Teltonika trackers (FMB/FMC/FMM series) push positions over TCP:
+ *
+ * 1. Handshake: 2-byte length + IMEI in ASCII. The server answers 0x01 to
+ *    accept the device or 0x00 to reject it.
+ * 2. AVL packets: 4 zero bytes, 4-byte data length, the data field (codec
+ *    ID, record count, records, record count again) and a CRC-16/IBM of the
+ *    data field in the last 4 bytes. The server answers with the number of
+ *    records it accepted as a 4-byte integer; the device resends the packet
+ *    when that does not match.
+ *
+ * Codec 8 (0x08) uses 1-byte IO element IDs and counts; Codec 8 Extended
+ * (0x8E) uses 2-byte IDs and counts and adds variable-length IO elements.
+ *
+ * All multi-byte values are big-endian.
+ * Protocol reference: https://wiki.teltonika-gps.com/view/Codec
+ */
+
+import type { GpsPositionData } from "../gpsIngestion";
+import { GpsDecoder, GpsMessage, GpsProtocolError } from "./types";
+
+export const CODEC_8 = 0x08;
+export const CODEC_8_EXTENDED = 0x8e;
+
+/** Largest data field accepted; devices send at most a few KB per packet */
+export const MAX_AVL_DATA_LENGTH = 64 * 1024;
+
+/** Coordinates are sent as degrees × 10^7 */
+const COORDINATE_PRECISION = 10_000_000;
+
+export interface AvlGpsElement {
+  longitude: number;
+  latitude: number;
+  /** Meters above sea level */
+  altitude: number;
+  /** Heading in degrees from north */
+  angle: number;
+  satellites: number;
+  /** km/h */
+  speed: number;
+}
+
+export interface AvlRecord {
+  timestamp: Date;
+  priority: number;
+  gps: AvlGpsElement;
+  /** IO element that triggered the record (0 for periodic records) */
+  eventIoId: number;
+  /** Fixed-size IO values by element ID (8-byte values as bigint) */
+  io: Record<number, number | bigint>;
+  /** Codec 8 Extended variable-length IO values by element ID */
+  ioBytes: Record<number, Buffer>;
+}
+
+export interface AvlPacket {
+  codecId: number;
+  records: AvlRecord[];
+}
+
+export type AvlFrameResult =
+  | { status: "incomplete" }
+  | { status: "crc_mismatch"; byteLength: number }
+  | { status: "ok"; byteLength: number; packet: AvlPacket };
+
+/**
+ * CRC-16/IBM (polynomial 0xA001 reflected, initial value 0)
+ */
+export function crc16Ibm(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Read the IMEI handshake at the start of a connection
+ *
+ * Returns null until the whole message has arrived.
+ */
+export function readImeiHandshake(
+  buffer: Buffer
+): { imei: string; byteLength: number } | null {
+  if (buffer.length < 2) return null;
+  const length = buffer.readUInt16BE(0);
+  if (length === 0 || length > 32) {
+    throw new GpsProtocolError(`Invalid IMEI length ${length}`);
+  }
+  if (buffer.length < 2 + length) return null;
+
+  const imei = buffer.toString("ascii", 2, 2 + length);
+  if (!/^\d+$/.test(imei)) {
+    throw new GpsProtocolError("IMEI is not numeric");
+  }
+  return { imei, byteLength: 2 + length };
+}
+
+/**
+ * Length of the AVL packet at the start of the buffer, or null until all of
+ * it has arrived
+ */
+export function avlFrameLength(buffer: Buffer): number | null {
+  if (buffer.length < 8) return null;
+  if (buffer.readUInt32BE(0) !== 0) {
+    throw new GpsProtocolError("Missing AVL packet preamble");
+  }
+  const dataLength = buffer.readUInt32BE(4);
+  if (dataLength < 3 || dataLength > MAX_AVL_DATA_LENGTH) {
+    throw new GpsProtocolError(`Invalid AVL data length ${dataLength}`);
+  }
+
+  const byteLength = 8 + dataLength + 4;
+  return buffer.length < byteLength ? null : byteLength;
+}
+
+/**
+ * Read one AVL packet from the start of the buffer
+ *
+ * A packet whose CRC does not match is reported with its length so the
+ * caller can skip it and ask the device to resend.
+ */
+export function readAvlFrame(buffer: Buffer): AvlFrameResult {
+  const byteLength = avlFrameLength(buffer);
+  if (byteLength === null) return { status: "incomplete" };
+
+  const data = buffer.subarray(8, byteLength - 4);
+  if (crc16Ibm(data) !== buffer.readUInt32BE(byteLength - 4)) {
+    return { status: "crc_mismatch", byteLength };
+  }
+  return { status: "ok", byteLength, packet: parseAvlData(data) };
+}
+
+/**
+ * Parse the data field of an AVL packet (codec ID through the second
+ * record count)
+ */
+export function parseAvlData(data: Buffer): AvlPacket {
+  const reader = new ByteReader(data);
+  const codecId = reader.uint8();
+  if (codecId !== CODEC_8 && codecId !== CODEC_8_EXTENDED) {
+    throw new GpsProtocolError(`Unsupported codec 0x${codecId.toString(16)}`);
+  }
+  const extended = codecId === CODEC_8_EXTENDED;
+
+  const count = reader.uint8();
+  const records: AvlRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    records.push(readRecord(reader, extended));
+  }
+
+  if (reader.uint8() !== count) {
+    throw new GpsProtocolError("AVL record counts do not match");
+  }
+  if (!reader.done()) {
+    throw new GpsProtocolError("Unexpected bytes after AVL records");
+  }
+  return { codecId, records };
+}
+
+function readRecord(reader: ByteReader, extended: boolean): AvlRecord {
+  const timestamp = new Date(Number(reader.uint64()));
+  const priority = reader.uint8();
+  const gps: AvlGpsElement = {
+    longitude: reader.int32() / COORDINATE_PRECISION,
+    latitude: reader.int32() / COORDINATE_PRECISION,
+    altitude: reader.int16(),
+    angle: reader.uint16(),
+    satellites: reader.uint8(),
+    speed: reader.uint16(),
+  };
+
+  const readId = () => (extended ? reader.uint16() : reader.uint8());
+  const eventIoId = readId();
+  readId(); // total IO count, implied by the per-size counts below
+
+  const io: Record<number, number | bigint> = {};
+  for (let i = readId(); i > 0; i--) io[readId()] = reader.uint8();
+  for (let i = readId(); i > 0; i--) io[readId()] = reader.uint16();
+  for (let i = readId(); i > 0; i--) io[readId()] = reader.uint32();
+  for (let i = readId(); i > 0; i--) io[readId()] = reader.uint64();
+
+  const ioBytes: Record<number, Buffer> = {};
+  if (extended) {
+    for (let i = reader.uint16(); i > 0; i--) {
+      const id = reader.uint16();
+      ioBytes[id] = reader.bytes(reader.uint16());
+    }
+  }
+
+  return { timestamp, priority, gps, eventIoId, io, ioBytes };
+}
+
+/**
+ * Position for ingestion, or null when the record has no GPS fix
+ *
+ * Devices without a fix repeat zeros (or the last known coordinates with
+ * no satellites); neither is a position worth storing.
+ */
+export function toGpsPosition(record: AvlRecord): GpsPositionData | null {
+  const { gps } = record;
+  if (gps.satellites === 0 || (gps.latitude === 0 && gps.longitude === 0)) {
+    return null;
+  }
+  return {
+    latitude: gps.latitude,
+    longitude: gps.longitude,
+    speed: gps.speed,
+    heading: gps.angle,
+    altitude: gps.altitude,
+    timestamp: record.timestamp,
+  };
+}
+
+/** 0x01 accepts the device, 0x00 rejects it */
+export function encodeHandshakeAck(accepted: boolean): Buffer {
+  return Buffer.from([accepted ? 0x01 : 0x00]);
+}
+
+/** Number of records accepted, as the device expects after each packet */
+export function encodeRecordAck(count: number): Buffer {
+  const ack = Buffer.alloc(4);
+  ack.writeUInt32BE(count);
+  return ack;
+}
+
+/** Record count to ACK for AVL packets (0 for the handshake) */
+export type TeltonikaMessage = GpsMessage & { records: number };
+
+/**
+ * Codec 8 / 8E decoder for lib/gpsTcpServer.ts
+ */
+export const teltonikaDecoder: GpsDecoder<TeltonikaMessage> = {
+  provider: "Teltonika",
+
+  frame(buffer) {
+    if (buffer.length < 2) return null;
+    // The handshake starts with the (non-zero) IMEI length, AVL packets
+    // with 4 zero bytes
+    if (buffer.readUInt16BE(0) !== 0) {
+      return readImeiHandshake(buffer)?.byteLength ?? null;
+    }
+    return avlFrameLength(buffer);
+  },
+
+  decode(frame) {
+    if (frame.readUInt16BE(0) !== 0) {
+      const handshake = readImeiHandshake(frame);
+      if (!handshake) throw new GpsProtocolError("Truncated IMEI handshake");
+      return { type: "login", imei: handshake.imei, records: 0 };
+    }
+
+    const result = readAvlFrame(frame);
+    if (result.status === "incomplete") {
+      throw new GpsProtocolError("Truncated AVL packet");
+    }
+    if (result.status === "crc_mismatch") {
+      return { type: "invalid", reason: "CRC mismatch", records: 0 };
+    }
+    const { records } = result.packet;
+    const positions = records
+      .map(toGpsPosition)
+      .filter((position): position is GpsPositionData => position !== null);
+    return { type: "position", positions, records: records.length };
+  },
+
+  ack(message, accepted) {
+    switch (message.type) {
+      case "login":
+        return encodeHandshakeAck(accepted);
+      case "position":
+        return encodeRecordAck(accepted ? message.records : 0);
+      case "invalid":
+        return encodeRecordAck(0);
+      default:
+        return null;
+    }
+  },
+};
+
+/**
+ * Sequential big-endian reader that fails with a protocol error instead of
+ * a RangeError on truncated data
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  private take(size: number): number {
+    if (this.offset + size > this.data.length) {
+      throw new GpsProtocolError("AVL data ended mid-record");
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+
+  uint8 = () => this.data.readUInt8(this.take(1));
+  uint16 = () => this.data.readUInt16BE(this.take(2));
+  int16 = () => this.data.readInt16BE(this.take(2));
+  uint32 = () => this.data.readUInt32BE(this.take(4));
+  int32 = () => this.data.readInt32BE(this.take(4));
+  uint64 = () => this.data.readBigUInt64BE(this.take(8));
+
+  bytes(size: number): Buffer {
+    const start = this.take(size);
+    return this.data.subarray(start, start + size);
+  }
+
+  done(): boolean {
+    return this.offset === this.data.length;
+  }
+}
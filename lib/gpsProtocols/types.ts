@@ -0,0 +1,56 @@
+/**
+ * GPS Tracker Protocol Decoders
+ *
+ * Each tracker protocol served by lib/gpsTcpServer.ts is a GpsDecoder:
+ *
+ * - frame: length of the next complete frame at the start of the
+ *   connection buffer, or null until more bytes arrive
+ * - decode: the frame as a GpsMessage
+ * - ack: bytes to answer the message with, or null when the protocol
+ *   expects no answer. `accepted` is false when the device was rejected or
+ *   the message could not be processed; protocols that retry then get no
+ *   (or a negative) answer and resend.
+ *
+ * Decoders are stateless; the server keeps the per-connection state.
+ */
+
+import type { GpsPositionData } from "../gpsIngestion";
+
+export type GpsDeviceAlarm = "SOS" | "POWER_CUT" | "OVERSPEED";
+
+export type GpsMessage =
+  /** Device identifies itself; required before anything else is accepted */
+  | { type: "login"; imei: string }
+  | { type: "heartbeat"; imei?: string }
+  /** Positions with a GPS fix, oldest first (may be empty) */
+  | { type: "position"; imei?: string; positions: GpsPositionData[] }
+  | {
+      type: "alarm";
+      imei?: string;
+      alarm: GpsDeviceAlarm;
+      position: GpsPositionData | null;
+    }
+  /** Well-formed frame with nothing to process (command replies etc.) */
+  | { type: "other"; imei?: string }
+  /** Corrupted frame (bad checksum), skipped */
+  | { type: "invalid"; reason: string };
+
+export interface GpsDecoder<M extends GpsMessage = GpsMessage> {
+  /** Truck.gpsProvider name of the vendor speaking this protocol */
+  provider: string;
+  /** @throws GpsProtocolError when the buffer is not this protocol */
+  frame(buffer: Buffer): number | null;
+  /** @throws GpsProtocolError when the frame is malformed */
+  decode(frame: Buffer): M;
+  ack(message: M, accepted: boolean): Buffer | null;
+}
+
+/**
+ * Data that is not the expected protocol; the connection is dropped
+ */
+export class GpsProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GpsProtocolError";
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * GPS Tracker TCP Server
+ *
+ * Hardware trackers push positions over raw TCP instead of calling the HTTP
+ * API. Each protocol listens on its own port with a GpsDecoder
+ * (lib/gpsProtocols): Teltonika Codec 8 / 8E, Concox GT06 and Queclink
+ * @Track.
+ *
+ * - A device is accepted only for a registered GpsDevice installed in a
+ *   truck, identified by its login (or, for Queclink, by every report).
+ * - Positions with a GPS fix go through ingestGpsData (source
+ *   ELD_HARDWARE). Logins and heartbeats keep the truck's GPS status fresh
+ *   through updateTruckLastSeen.
+ * - Alarms (SOS, power cut, overspeed) raise escalations on the truck's
+ *   active load (lib/gpsDeviceAlarms.ts).
+ * - A corrupted frame, or one that fails to process, is not acknowledged
+ *   so the device resends it.
+ *
+ * Frames on one connection are handled strictly in order. The listeners run
+ * as their own process next to server.js (gps-server.ts).
+ */
+
+import net from "net";
+import { db } from "./db";
+import { raiseDeviceAlarm } from "./gpsDeviceAlarms";
+import { ingestGpsData, updateTruckLastSeen } from "./gpsIngestion";
+import { GpsDecoder, GpsMessage, GpsProtocolError } from "./gpsProtocols/types";
+import { logger } from "./logger";
+
+/** Devices hold the link open between frames; drop it after this long idle */
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+interface ConnectedDevice {
+  id: string;
+  imei: string;
+  truckId: string;
+}
+
+/**
+ * Create a TCP server for one tracker protocol (not yet listening)
+ */
+export function createGpsTcpServer<M extends GpsMessage>(
+  decoder: GpsDecoder<M>
+): net.Server {
+  return net.createServer((socket) => handleGpsConnection(socket, decoder));
+}
+
+/**
+ * Handle one tracker connection until it closes
+ */
+export function handleGpsConnection<M extends GpsMessage>(
+  socket: net.Socket,
+  decoder: GpsDecoder<M>
+): void {
+  const remote = `${socket.remoteAddress}:${socket.remotePort}`;
+  const protocol = decoder.provider;
+  let buffer = Buffer.alloc(0);
+  let device: ConnectedDevice | null = null;
+  let processing = Promise.resolve();
+
+  socket.setTimeout(IDLE_TIMEOUT_MS, () => socket.destroy());
+  socket.on("error", (error) =>
+    logger.warn("GPS tracker connection error", {
+      protocol,
+      remote,
+      imei: device?.imei,
+      error: error.message,
+    })
+  );
+  socket.on("data", (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    processing = processing.then(drain).catch((error) => {
+      if (error instanceof GpsProtocolError) {
+        logger.warn("GPS tracker protocol error", {
+          protocol,
+          remote,
+          imei: device?.imei,
+          error: error.message,
+        });
+      } else {
+        logger.error("GPS tracker connection failed", error, {
+          protocol,
+          remote,
+          imei: device?.imei,
+        });
+      }
+      socket.destroy();
+    });
+  });
+
+  const reply = (message: M, accepted: boolean) => {
+    const ack = decoder.ack(message, accepted);
+    if (ack) socket.write(ack);
+  };
+
+  async function drain(): Promise<void> {
+    while (!socket.destroyed) {
+      const length = decoder.frame(buffer);
+      if (length === null) return;
+      const message = decoder.decode(buffer.subarray(0, length));
+      buffer = buffer.subarray(length);
+
+      const imei = "imei" in message ? message.imei : undefined;
+      if (imei && imei !== device?.imei) {
+        device = await findInstalledDevice(imei, decoder.provider);
+        if (!device) {
+          logger.warn("Rejected unknown GPS tracker", {
+            protocol,
+            remote,
+            imei,
+          });
+          reply(message, false);
+          socket.end();
+          return;
+        }
+      }
+      if (!device) {
+        throw new GpsProtocolError(`${message.type} frame before login`);
+      }
+
+      reply(message, await processMessage(device, message));
+    }
+  }
+}
+
+/**
+ * The device with this IMEI if it is installed in a truck
+ *
+ * Records the vendor on the truck when it was not known, since the protocol
+ * the device speaks is more reliable than guessing from the IMEI.
+ */
+async function findInstalledDevice(
+  imei: string,
+  provider: string
+): Promise<ConnectedDevice | null> {
+  const device = await db.gpsDevice.findUnique({
+    where: { imei },
+    select: {
+      id: true,
+      truck: { select: { id: true, gpsProvider: true } },
+    },
+  });
+  if (!device?.truck) return null;
+
+  if (!device.truck.gpsProvider) {
+    await db.truck.update({
+      where: { id: device.truck.id },
+      data: { gpsProvider: provider },
+    });
+  }
+  return { id: device.id, imei, truckId: device.truck.id };
+}
+
+/**
+ * Process a decoded message; false when it should not be acknowledged
+ */
+async function processMessage(
+  device: ConnectedDevice,
+  message: GpsMessage
+): Promise<boolean> {
+  if (message.type === "invalid") {
+    logger.warn("GPS tracker frame rejected", {
+      imei: device.imei,
+      reason: message.reason,
+    });
+    return false;
+  }
+
+  try {
+    const positions =
+      message.type === "position"
+        ? message.positions
+        : message.type === "alarm" && message.position
+          ? [message.position]
+          : [];
+    for (const position of positions) {
+      await ingestGpsData(device.imei, { ...position, source: "ELD_HARDWARE" });
+    }
+    if (positions.length === 0) {
+      await updateTruckLastSeen(device.truckId);
+    }
+
+    if (message.type === "alarm") {
+      await raiseDeviceAlarm(device.truckId, message.alarm, message.position);
+    }
+
+    await db.gpsDevice.update({
+      where: { id: device.id },
+      data: { lastSeenAt: new Date() },
+    });
+    return true;
+  } catch (error) {
+    logger.error("GPS tracker message processing failed", error, {
+      imei: device.imei,
+      type: message.type,
+    });
+    return false;
+  }
+}
@@ -17,6 +17,15 @@ import { db } from "@/lib/db";
 import { GpsPosition } from "./gpsVerification";
 import crypto from "crypto";
 import { calculateDistanceMeters } from "@/lib/geo";
+import {
+  getNextPendingStop,
+  getOrderedStops,
+  getStopCoordinates,
+  recordStopArrival,
+  recordStopDeparture,
+  STOP_ARRIVAL_RADIUS_M,
+  STOP_DEPARTURE_RADIUS_M,
+} from "@/lib/loadStops";
 
 // Re-export for backwards compatibility
 export { calculateDistanceMeters as calculateDistance } from "@/lib/geo";
@@ -39,6 +48,8 @@ export interface TrackingStatus {
 export type GeofenceEvent =
   | "ARRIVED_AT_PICKUP"
   | "ARRIVED_AT_DESTINATION"
+  | "ARRIVED_AT_STOP"
+  | "DEPARTED_STOP"
   | "SIGNAL_LOST";
 
 /**
@@ -52,6 +63,9 @@ export interface GeofenceAlert {
     longitude: number;
   };
   message: string;
+  /** Multi-stop loads: the stop this alert refers to */
+  stopId?: string;
+  stopSequence?: number;
 }
 
 /**
@@ -285,11 +299,17 @@ export function isWithinGeofence(
 /**
  * Check for geofence events (arrivals, signal loss)
  *
+ * Stop arrivals and departures of multi-stop loads are only persisted when
+ * `record` is set, by the GPS monitoring cron (lib/geofenceNotifications.ts).
+ * Read paths such as GET /api/loads/[id]/tracking only report them.
+ *
  * @param loadId - Load ID
+ * @param options.record - Persist stop arrivals and departures
  * @returns Array of geofence alerts
  */
 export async function checkGeofenceEvents(
-  loadId: string
+  loadId: string,
+  options: { record?: boolean } = {}
 ): Promise<GeofenceAlert[]> {
   const alerts: GeofenceAlert[] = [];
 
@@ -340,6 +360,17 @@ export async function checkGeofenceEvents(
     }
   }
 
+  // Multi-stop loads: follow the stop sequence instead of pickup/destination
+  const stops = await getOrderedStops(loadId);
+  if (stops.length > 0) {
+    if (load.status === "PICKUP_PENDING" || load.status === "IN_TRANSIT") {
+      alerts.push(
+        ...(await checkStopGeofence(stops, position, !!options.record))
+      );
+    }
+    return alerts;
+  }
+
   // Check arrival at pickup (if IN_TRANSIT status and origin coords available)
   if (load.status === "IN_TRANSIT" && load.originLat && load.originLon) {
     const atPickup = isWithinGeofence(
@@ -385,6 +416,96 @@ export async function checkGeofenceEvents(
   return alerts;
 }
 
+/**
+ * Check the next pending stop of a multi-stop load.
+ *
+ * Only one stop is evaluated per call so stops are completed in order even
+ * when two stops share a location. When recording, arrival and departure
+ * are persisted on the stop and an alert is only returned when this call
+ * recorded the change.
+ *
+ * @param stops - Load stops in sequence order
+ * @param position - Current truck position
+ * @param record - Persist the arrival or departure
+ * @returns Geofence alerts for the stop
+ */
+async function checkStopGeofence(
+  stops: Awaited<ReturnType<typeof getOrderedStops>>,
+  position: GpsPosition,
+  record: boolean
+): Promise<GeofenceAlert[]> {
+  const stop = getNextPendingStop(stops);
+  const coords = stop ? getStopCoordinates(stop) : null;
+  if (!stop || !coords) {
+    return [];
+  }
+
+  const location = {
+    latitude: position.latitude,
+    longitude: position.longitude,
+  };
+  const isFirstStop = stop.sequence === stops[0].sequence;
+  const isFinalStop = stop.sequence === stops[stops.length - 1].sequence;
+  const label = `stop ${stop.sequence} (${stop.city})`;
+
+  if (!stop.arrivedAt) {
+    const arrived =
+      isWithinGeofence(
+        position,
+        coords.lat,
+        coords.lon,
+        STOP_ARRIVAL_RADIUS_M
+      ) &&
+      (!record || (await recordStopArrival(stop.id)));
+
+    if (!arrived) return [];
+
+    return [
+      {
+        event: isFirstStop
+          ? "ARRIVED_AT_PICKUP"
+          : isFinalStop
+            ? "ARRIVED_AT_DESTINATION"
+            : "ARRIVED_AT_STOP",
+        timestamp: new Date(),
+        location,
+        message: isFirstStop
+          ? "Truck arrived at pickup location"
+          : isFinalStop
+            ? "Truck arrived at delivery location"
+            : `Truck arrived at ${label}`,
+        stopId: stop.id,
+        stopSequence: stop.sequence,
+      },
+    ];
+  }
+
+  // The final stop is closed by delivery, not by leaving the geofence
+  if (isFinalStop) return [];
+
+  const departed =
+    !isWithinGeofence(
+      position,
+      coords.lat,
+      coords.lon,
+      STOP_DEPARTURE_RADIUS_M
+    ) &&
+    (!record || (await recordStopDeparture(stop.id)));
+
+  if (!departed) return [];
+
+  return [
+    {
+      event: "DEPARTED_STOP",
+      timestamp: new Date(),
+      location,
+      message: `Truck departed ${label}`,
+      stopId: stop.id,
+      stopSequence: stop.sequence,
+    },
+  ];
+}
+
 /**
  * Get load by tracking URL
  *
@@ -0,0 +1,367 @@
+/**
+ * Lane Rate Index
+ *
+ * Market reference rates built from what was actually booked on the
+ * platform: confirmed LoadRequest.proposedRate, approved
+ * TruckRequest.offeredRate and accepted MatchProposal.proposedRate.
+ * Booked trip rates are aggregated per lane (corridor, or origin/destination
+ * region pair when the load has no corridor), truck type and month.
+ *
+ * The lane-rate-index cron rebuilds the last LANE_RATE_WINDOW_MONTHS months.
+ * Lookups pool the most recent LOOKBACK_MONTHS months and compare them with
+ * the LOOKBACK_MONTHS before for the trend. Callers fall back to the
+ * distance heuristic when a lane has fewer than MIN_LANE_SAMPLE_SIZE bookings.
+ */
+
+import { TruckType } from "@prisma/client";
+import { db } from "./db";
+
+export const LANE_RATE_WINDOW_MONTHS = 12;
+export const MIN_LANE_SAMPLE_SIZE = 5;
+const LOOKBACK_MONTHS = 3;
+/** Changes within ±3% are reported as FLAT */
+const FLAT_TREND_PCT = 3;
+
+export interface Lane {
+  laneKey: string;
+  corridorId: string | null;
+  originRegion: string;
+  destinationRegion: string;
+}
+
+interface LaneLoad {
+  corridorId: string | null;
+  corridor?: { originRegion: string; destinationRegion: string } | null;
+  pickupLocation?: { region: string } | null;
+  deliveryLocation?: { region: string } | null;
+  pickupCity: string | null;
+  deliveryCity: string | null;
+}
+
+/** Load fields needed to place a load on a lane */
+export const laneLoadSelect = {
+  corridorId: true,
+  corridor: { select: { originRegion: true, destinationRegion: true } },
+  pickupLocation: { select: { region: true } },
+  deliveryLocation: { select: { region: true } },
+  pickupCity: true,
+  deliveryCity: true,
+  truckType: true,
+  estimatedTripKm: true,
+  tripKm: true,
+} as const;
+
+/**
+ * Lane for a load: its corridor when assigned, otherwise the region pair
+ * (city names when the load has no location records, as in
+ * assignCorridorToLoad)
+ */
+export function getLane(load: LaneLoad): Lane | null {
+  if (load.corridorId && load.corridor) {
+    return {
+      laneKey: `corridor:${load.corridorId}`,
+      corridorId: load.corridorId,
+      originRegion: load.corridor.originRegion,
+      destinationRegion: load.corridor.destinationRegion,
+    };
+  }
+
+  const originRegion = load.pickupLocation?.region || load.pickupCity;
+  const destinationRegion = load.deliveryLocation?.region || load.deliveryCity;
+  if (!originRegion || !destinationRegion) return null;
+
+  return {
+    laneKey: `region:${originRegion}>${destinationRegion}`,
+    corridorId: null,
+    originRegion,
+    destinationRegion,
+  };
+}
+
+/** First day of the month (UTC), optionally shifted by whole months */
+export function startOfMonth(date: Date, addMonths = 0): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + addMonths, 1)
+  );
+}
+
+/**
+ * Percentile of an ascending list with linear interpolation between ranks
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+interface BookedRate {
+  lane: Lane;
+  truckType: TruckType;
+  bookedAt: Date;
+  rate: number;
+  distanceKm: number | null;
+}
+
+type BookedLoad = Parameters<typeof getLane>[0] & {
+  truckType: TruckType;
+  estimatedTripKm: unknown;
+  tripKm: unknown;
+};
+
+function toBookedRate(
+  load: BookedLoad | null,
+  rate: unknown,
+  bookedAt: Date
+): BookedRate | null {
+  const amount = Number(rate);
+  if (!load || !amount || amount <= 0) return null;
+
+  const lane = getLane(load);
+  if (!lane) return null;
+
+  const distanceKm = Number(load.estimatedTripKm ?? load.tripKm) || null;
+  return {
+    lane,
+    truckType: load.truckType,
+    bookedAt,
+    rate: amount,
+    distanceKm,
+  };
+}
+
+/**
+ * Booked rates since a date from all three booking paths
+ */
+async function collectBookedRates(since: Date): Promise<BookedRate[]> {
+  const [loadRequests, truckRequests, proposals] = await Promise.all([
+    db.loadRequest.findMany({
+      where: {
+        status: "APPROVED",
+        proposedRate: { not: null },
+        updatedAt: { gte: since },
+      },
+      select: {
+        proposedRate: true,
+        confirmedAt: true,
+        respondedAt: true,
+        updatedAt: true,
+        load: { select: laneLoadSelect },
+      },
+    }),
+    db.truckRequest.findMany({
+      where: {
+        status: "APPROVED",
+        offeredRate: { not: null },
+        updatedAt: { gte: since },
+      },
+      select: {
+        offeredRate: true,
+        respondedAt: true,
+        updatedAt: true,
+        load: { select: laneLoadSelect },
+      },
+    }),
+    db.matchProposal.findMany({
+      where: {
+        status: "ACCEPTED",
+        proposedRate: { not: null },
+        updatedAt: { gte: since },
+      },
+      select: {
+        proposedRate: true,
+        respondedAt: true,
+        updatedAt: true,
+        load: { select: laneLoadSelect },
+      },
+    }),
+  ]);
+
+  const rates = [
+    ...loadRequests.map((r) =>
+      toBookedRate(
+        r.load,
+        r.proposedRate,
+        r.confirmedAt ?? r.respondedAt ?? r.updatedAt
+      )
+    ),
+    ...truckRequests.map((r) =>
+      toBookedRate(r.load, r.offeredRate, r.respondedAt ?? r.updatedAt)
+    ),
+    ...proposals.map((r) =>
+      toBookedRate(r.load, r.proposedRate, r.respondedAt ?? r.updatedAt)
+    ),
+  ];
+
+  return rates.filter(
+    (rate): rate is BookedRate => rate !== null && rate.bookedAt >= since
+  );
+}
+
+/**
+ * Rebuild the index for the last LANE_RATE_WINDOW_MONTHS months (including
+ * the current one). Called by the lane-rate-index cron.
+ */
+export async function rebuildLaneRateIndex(now: Date = new Date()): Promise<{
+  rowCount: number;
+  sampleCount: number;
+}> {
+  const since = startOfMonth(now, -(LANE_RATE_WINDOW_MONTHS - 1));
+  const rates = await collectBookedRates(since);
+
+  const groups = new Map<string, BookedRate[]>();
+  for (const rate of rates) {
+    const key = `${rate.lane.laneKey}|${rate.truckType}|${startOfMonth(rate.bookedAt).toISOString()}`;
+    const group = groups.get(key);
+    if (group) group.push(rate);
+    else groups.set(key, [rate]);
+  }
+
+  const computedAt = new Date();
+  const rows = Array.from(groups.values()).map((group) => {
+    const { lane, truckType, bookedAt } = group[0];
+    const sorted = group.map((r) => r.rate).sort((a, b) => a - b);
+    const perKm = group
+      .filter((r) => r.distanceKm)
+      .map((r) => r.rate / r.distanceKm!)
+      .sort((a, b) => a - b);
+
+    return {
+      laneKey: lane.laneKey,
+      corridorId: lane.corridorId,
+      originRegion: lane.originRegion,
+      destinationRegion: lane.destinationRegion,
+      truckType,
+      month: startOfMonth(bookedAt),
+      sampleSize: sorted.length,
+      p10: round2(percentile(sorted, 10)),
+      p25: round2(percentile(sorted, 25)),
+      p50: round2(percentile(sorted, 50)),
+      p75: round2(percentile(sorted, 75)),
+      p90: round2(percentile(sorted, 90)),
+      mean: round2(sorted.reduce((sum, r) => sum + r, 0) / sorted.length),
+      medianRatePerKm: perKm.length > 0 ? round2(percentile(perKm, 50)) : null,
+      computedAt,
+    };
+  });
+
+  await db.$transaction([
+    db.laneRateIndex.deleteMany({ where: { month: { gte: since } } }),
+    db.laneRateIndex.createMany({ data: rows }),
+  ]);
+
+  return { rowCount: rows.length, sampleCount: rates.length };
+}
+
+export interface LaneRateSummary {
+  laneKey: string;
+  truckType: TruckType;
+  /** Bookings pooled over the lookback period */
+  sampleSize: number;
+  lookbackMonths: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  medianRatePerKm: number | null;
+  trend: {
+    direction: "UP" | "DOWN" | "FLAT";
+    /** Median change vs the previous lookback period, in percent */
+    changePct: number;
+  } | null;
+  history: Array<{ month: string; p50: number; sampleSize: number }>;
+}
+
+type IndexRow = {
+  sampleSize: number;
+  p10: unknown;
+  p25: unknown;
+  p50: unknown;
+  p75: unknown;
+  p90: unknown;
+  medianRatePerKm: unknown;
+};
+
+/**
+ * Pool monthly rows by weighting each month's percentile by its sample
+ * size. This approximates the pooled percentile without keeping raw rates.
+ */
+function pooled(
+  rows: IndexRow[],
+  field: keyof Omit<IndexRow, "sampleSize">
+): number | null {
+  const weighted = rows.filter((row) => row[field] !== null);
+  const total = weighted.reduce((sum, row) => sum + row.sampleSize, 0);
+  if (total === 0) return null;
+  return round2(
+    weighted.reduce(
+      (sum, row) => sum + Number(row[field]) * row.sampleSize,
+      0
+    ) / total
+  );
+}
+
+/**
+ * Market rates for a lane and truck type, or null when the lane has too
+ * few recent bookings
+ */
+export async function getLaneRateSummary(
+  lane: Lane,
+  truckType: TruckType,
+  now: Date = new Date()
+): Promise<LaneRateSummary | null> {
+  const recentSince = startOfMonth(now, -(LOOKBACK_MONTHS - 1));
+  const rows = await db.laneRateIndex.findMany({
+    where: {
+      laneKey: lane.laneKey,
+      truckType,
+      month: { gte: startOfMonth(now, -(2 * LOOKBACK_MONTHS - 1)) },
+    },
+    orderBy: { month: "asc" },
+  });
+
+  const recent = rows.filter((row) => row.month >= recentSince);
+  const previous = rows.filter((row) => row.month < recentSince);
+  const sampleSize = recent.reduce((sum, row) => sum + row.sampleSize, 0);
+  if (sampleSize < MIN_LANE_SAMPLE_SIZE) return null;
+
+  const p50 = pooled(recent, "p50")!;
+  const previousP50 = pooled(previous, "p50");
+  const changePct = previousP50
+    ? Math.round(((p50 - previousP50) / previousP50) * 1000) / 10
+    : null;
+
+  return {
+    laneKey: lane.laneKey,
+    truckType,
+    sampleSize,
+    lookbackMonths: LOOKBACK_MONTHS,
+    p10: pooled(recent, "p10")!,
+    p25: pooled(recent, "p25")!,
+    p50,
+    p75: pooled(recent, "p75")!,
+    p90: pooled(recent, "p90")!,
+    medianRatePerKm: pooled(recent, "medianRatePerKm"),
+    trend:
+      changePct !== null
+        ? {
+            direction:
+              changePct > FLAT_TREND_PCT
+                ? "UP"
+                : changePct < -FLAT_TREND_PCT
+                  ? "DOWN"
+                  : "FLAT",
+            changePct,
+          }
+        : null,
+    history: rows.map((row) => ({
+      month: row.month.toISOString().slice(0, 7),
+      p50: Number(row.p50),
+      sampleSize: row.sampleSize,
+    })),
+  };
+}
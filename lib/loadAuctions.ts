@@ -0,0 +1,218 @@
+/**
+ * Load Auction Utilities
+ *
+ * AUCTION book mode: the shipper sets a bid deadline (and optionally a
+ * reserve rate) and carriers submit sealed bids until the deadline.
+ *
+ * Conventions:
+ * - One bid per carrier per load (LoadBid @@unique([loadId, carrierId]));
+ *   resubmitting revises the existing bid
+ * - Bids stay sealed until Load.bidDeadline: carriers only see their own bid,
+ *   the shipper only sees the bid count
+ * - After the deadline the shipper gets a ranked bid sheet and awards one
+ *   bid. The award creates a SHIPPER_APPROVED LoadRequest so the winning
+ *   carrier books through the normal /api/load-requests/[id]/confirm path
+ */
+
+import { LoadStatus, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { calculateTrustScore, getTrustBadgeLevel } from "@/lib/trustMetrics";
+import { createNotification, NotificationType } from "@/lib/notifications";
+import { logger } from "@/lib/logger";
+
+/** Load statuses in which an auction load can still take bids or be awarded */
+export const AUCTION_BOOKABLE_STATUSES: LoadStatus[] = [
+  "POSTED",
+  "SEARCHING",
+  "OFFERED",
+];
+
+/** Hours the winning carrier has to confirm an awarded bid */
+export const AWARD_CONFIRMATION_HOURS = 24;
+
+/**
+ * Check auction settings on a load create/update payload.
+ *
+ * AUCTION loads need a bid deadline in the future that falls no later than
+ * the pickup date. Other book modes ignore the deadline.
+ *
+ * @returns Error message, or null when the settings are consistent
+ */
+export function validateAuctionSettings(data: {
+  bookMode?: string | null;
+  bidDeadline?: string | Date | null;
+  pickupDate?: string | Date | null;
+}): string | null {
+  if (data.bookMode !== "AUCTION") return null;
+  if (!data.bidDeadline) return "Auction loads require a bid deadline";
+
+  const deadline = new Date(data.bidDeadline);
+  if (isNaN(deadline.getTime())) return "Invalid bid deadline";
+  if (deadline <= new Date()) return "Bid deadline must be in the future";
+  if (data.pickupDate && deadline > new Date(data.pickupDate)) {
+    return "Bid deadline must be on or before the pickup date";
+  }
+
+  return null;
+}
+
+/**
+ * Whether an auction load is still taking bids
+ */
+export function isAuctionOpen(
+  load: { bookMode: string | null; bidDeadline: Date | null },
+  now: Date = new Date()
+): boolean {
+  return (
+    load.bookMode === "AUCTION" &&
+    load.bidDeadline != null &&
+    now < load.bidDeadline
+  );
+}
+
+/**
+ * Minimal bid shape needed to rank a bid sheet
+ */
+export interface RankableBid {
+  amount: Prisma.Decimal | number;
+  trustScore: number;
+  updatedAt: Date;
+}
+
+/**
+ * Rank bids for the shipper's bid sheet.
+ *
+ * Lowest amount wins; ties go to the carrier with the higher trust score,
+ * then to the bid that was submitted (or last revised) first.
+ * `withinReserve` is false for bids above the reserve rate.
+ */
+export function rankBids<T extends RankableBid>(
+  bids: T[],
+  reserveRate: Prisma.Decimal | number | null
+): (T & { rank: number; withinReserve: boolean })[] {
+  const reserve = reserveRate != null ? Number(reserveRate) : null;
+
+  return [...bids]
+    .sort(
+      (a, b) =>
+        Number(a.amount) - Number(b.amount) ||
+        b.trustScore - a.trustScore ||
+        a.updatedAt.getTime() - b.updatedAt.getTime()
+    )
+    .map((bid, index) => ({
+      ...bid,
+      rank: index + 1,
+      withinReserve: reserve == null || Number(bid.amount) <= reserve,
+    }));
+}
+
+/**
+ * Build the ranked bid sheet for a load (withdrawn bids excluded).
+ *
+ * Each entry carries the carrier's trust metrics so the shipper can weigh
+ * price against reliability.
+ */
+export async function getBidSheet(
+  loadId: string,
+  reserveRate: Prisma.Decimal | number | null
+) {
+  const bids = await db.loadBid.findMany({
+    where: { loadId, status: { not: "WITHDRAWN" } },
+    include: {
+      truck: {
+        select: { id: true, licensePlate: true, truckType: true },
+      },
+      carrier: {
+        select: {
+          id: true,
+          name: true,
+          isVerified: true,
+          completionRate: true,
+          cancellationRate: true,
+          disputeRate: true,
+          totalLoadsCompleted: true,
+          averageRating: true,
+          totalRatings: true,
+        },
+      },
+    },
+  });
+
+  const withTrust = await Promise.all(
+    bids.map(async (bid) => {
+      const trustScore = await calculateTrustScore(bid.carrierId);
+      return {
+        ...bid,
+        trustScore,
+        trustBadge: getTrustBadgeLevel(trustScore),
+      };
+    })
+  );
+
+  return rankBids(withTrust, reserveRate);
+}
+
+/**
+ * Close auctions whose bid deadline has passed.
+ *
+ * Stamps Load.auctionClosedAt and tells the shipper the bid sheet is ready.
+ * Called by the close-auctions cron; bids are sealed by the deadline itself,
+ * so a late cron run only delays the notification.
+ */
+export async function closeDueAuctions(): Promise<{ closedCount: number }> {
+  const now = new Date();
+
+  const dueLoads = await db.load.findMany({
+    where: {
+      bookMode: "AUCTION",
+      auctionClosedAt: null,
+      bidDeadline: { lte: now },
+      status: { in: AUCTION_BOOKABLE_STATUSES },
+    },
+    select: {
+      id: true,
+      shipperId: true,
+      pickupCity: true,
+      deliveryCity: true,
+      _count: { select: { bids: { where: { status: "ACTIVE" } } } },
+    },
+  });
+
+  let closedCount = 0;
+  for (const load of dueLoads) {
+    // Guard against a concurrent run closing the same auction
+    const { count } = await db.load.updateMany({
+      where: { id: load.id, auctionClosedAt: null },
+      data: { auctionClosedAt: now },
+    });
+    if (count === 0) continue;
+    closedCount++;
+
+    const bidCount = load._count.bids;
+    const shipperUsers = await db.user.findMany({
+      where: { organizationId: load.shipperId, status: "ACTIVE" },
+      select: { id: true },
+    });
+
+    await Promise.all(
+      shipperUsers.map((user) =>
+        createNotification({
+          userId: user.id,
+          type: NotificationType.AUCTION_CLOSED,
+          title: "Bidding Closed",
+          message:
+            bidCount > 0
+              ? `Bidding closed on your load from ${load.pickupCity} to ${load.deliveryCity} with ${bidCount} bid(s). Review the bid sheet to award the load.`
+              : `Bidding closed on your load from ${load.pickupCity} to ${load.deliveryCity} with no bids.`,
+          metadata: { loadId: load.id, bidCount },
+        })
+      )
+    );
+  }
+
+  if (closedCount > 0) {
+    logger.info("Closed load auctions", { closedCount });
+  }
+
+  return { closedCount };
+}
@@ -9,6 +9,7 @@
 import { db } from "@/lib/db";
 import { createNotification, NotificationType } from "@/lib/notifications";
 import { deductServiceFee } from "@/lib/serviceFeeManagement"; // Service Fee Implementation
+import { retryPendingDetentionCharges } from "@/lib/detention";
 
 /**
  * Expire old loads that haven't been assigned
@@ -177,10 +178,14 @@ export async function autoSettleCompletedLoads() {
     }
     await Promise.all(notificationPromises);
 
+    // Detention held back on completion for a low shipper balance
+    const detentionPostedCount = await retryPendingDetentionCharges();
+
     return {
       success: true,
       settledCount,
       totalFound: loadsToSettle.length,
+      detentionPostedCount,
     };
   } catch (error) {
     console.error("Error in auto-settlement:", error);
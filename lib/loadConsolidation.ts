@@ -0,0 +1,382 @@
+/**
+ * LTL Load Consolidation
+ *
+ * A truck run may carry several PARTIAL loads at once. Each load keeps its
+ * own Trip (status, POD, tracking link); trips sharing a run are grouped by
+ * Trip.consolidationId, which is the id of the first trip on the run.
+ *
+ * Rules:
+ * - An idle truck can take any load (FULL or PARTIAL)
+ * - A truck with ongoing trips can only take another PARTIAL load, and only
+ *   when every load already on it is PARTIAL and the combined weight/volume
+ *   stays within Truck.capacity / Truck.volume
+ * - A truck with an EXCEPTION trip, or whose loads are all delivered and
+ *   awaiting POD, takes nothing new
+ * - The truck posting stays ACTIVE while at least
+ *   MIN_CONSOLIDATION_CAPACITY_KG remains, so matching keeps offering the
+ *   remaining capacity after each booking
+ * - Each load on a run pays service fees on its own distance
+ *   (lib/serviceFeeManagement.ts). Weight shares of the run are stored on
+ *   the trips as they join, so they always add up to 1, and are reported
+ *   on the fee journal entry (see linkConsolidatedTrip)
+ */
+
+import { Prisma, TripStatus } from "@prisma/client";
+import { db } from "@/lib/db";
+
+/**
+ * Trip statuses that keep a truck committed. Unlike tripStateMachine's
+ * ACTIVE_TRIP_STATUSES this includes DELIVERED (truck awaiting POD).
+ */
+export const COMMITTED_TRIP_STATUSES: TripStatus[] = [
+  "ASSIGNED",
+  "PICKUP_PENDING",
+  "IN_TRANSIT",
+  "DELIVERED",
+  "EXCEPTION",
+];
+
+/** Statuses in which a load is still on the truck */
+const ON_BOARD_STATUSES = ["ASSIGNED", "PICKUP_PENDING", "IN_TRANSIT"];
+
+/** Below this remaining capacity the truck is treated as full */
+export const MIN_CONSOLIDATION_CAPACITY_KG = 500;
+
+type DbClient = Prisma.TransactionClient | typeof db;
+type Numeric = Prisma.Decimal | number | string | null | undefined;
+
+/** A load currently committed to a truck */
+export interface TruckAssignment {
+  status?: string | null;
+  tripId?: string | null;
+  consolidationId?: string | null;
+  weight?: Numeric;
+  volume?: Numeric;
+  fullPartial?: string | null;
+}
+
+export interface TruckCapacity {
+  capacity?: Numeric;
+  volume?: Numeric;
+}
+
+export interface LoadSize {
+  weight?: Numeric;
+  volume?: Numeric;
+  fullPartial?: string | null;
+}
+
+export interface RemainingCapacity {
+  weightKg: number;
+  volumeM3: number | null;
+}
+
+export type ConsolidationFit =
+  | { ok: true; remaining: RemainingCapacity }
+  | { ok: false; reason: "TRUCK_BUSY" | "TRUCK_CAPACITY_EXCEEDED" };
+
+/**
+ * Trip include/select for a truck's active trips with their load sizes.
+ * Use as `trips: activeTripLoadsArgs` and map with toTruckAssignments().
+ */
+export const activeTripLoadsArgs = {
+  where: { status: { in: COMMITTED_TRIP_STATUSES } },
+  select: {
+    id: true,
+    status: true,
+    consolidationId: true,
+    load: {
+      select: { id: true, weight: true, volume: true, fullPartial: true },
+    },
+  },
+} satisfies Prisma.TripFindManyArgs;
+
+function toNumber(value: Numeric): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Map active trips (selected with activeTripLoadsArgs) to assignments
+ */
+export function toTruckAssignments(
+  trips: Array<{
+    id: string;
+    status?: string | null;
+    consolidationId?: string | null;
+    load?: LoadSize | null;
+  }>
+): TruckAssignment[] {
+  return trips.map((trip) => ({
+    status: trip.status,
+    tripId: trip.id,
+    consolidationId: trip.consolidationId ?? null,
+    weight: trip.load?.weight,
+    volume: trip.load?.volume,
+    fullPartial: trip.load?.fullPartial ?? null,
+  }));
+}
+
+/**
+ * Everything currently committed to a truck: its active trips plus any
+ * assigned load that has no active trip yet
+ */
+export async function getTruckAssignments(
+  truckId: string,
+  client: DbClient = db
+): Promise<TruckAssignment[]> {
+  const [trips, loads] = await Promise.all([
+    client.trip.findMany({
+      where: { truckId, ...activeTripLoadsArgs.where },
+      select: activeTripLoadsArgs.select,
+    }),
+    client.load.findMany({
+      where: {
+        assignedTruckId: truckId,
+        status: { in: COMMITTED_TRIP_STATUSES },
+      },
+      select: {
+        id: true,
+        status: true,
+        weight: true,
+        volume: true,
+        fullPartial: true,
+      },
+    }),
+  ]);
+
+  const tripLoadIds = new Set(trips.map((trip) => trip.load?.id));
+  return [
+    ...toTruckAssignments(trips),
+    ...loads
+      .filter((load) => !tripLoadIds.has(load.id))
+      .map((load) => ({
+        status: load.status,
+        tripId: null,
+        consolidationId: null,
+        weight: load.weight,
+        volume: load.volume,
+        fullPartial: load.fullPartial,
+      })),
+  ];
+}
+
+/**
+ * Capacity a truck still has for consolidation.
+ *
+ * Returns the full truck capacity when it is idle, the capacity left after
+ * its on-board PARTIAL loads, or null when it cannot take another load.
+ */
+export function getRemainingCapacity(
+  truck: TruckCapacity,
+  assignments: TruckAssignment[]
+): RemainingCapacity | null {
+  const capacityKg = toNumber(truck.capacity) ?? 0;
+  const volumeM3 = toNumber(truck.volume);
+
+  if (assignments.length === 0) {
+    return { weightKg: capacityKg, volumeM3 };
+  }
+
+  let usedKg = 0;
+  let usedM3 = 0;
+  let onBoard = 0;
+  for (const assignment of assignments) {
+    // Delivered loads are off the truck and only awaiting POD
+    if (assignment.status === "DELIVERED") continue;
+    if (
+      !assignment.status ||
+      !ON_BOARD_STATUSES.includes(assignment.status) ||
+      assignment.fullPartial !== "PARTIAL"
+    ) {
+      return null;
+    }
+    usedKg += toNumber(assignment.weight) ?? capacityKg;
+    usedM3 += toNumber(assignment.volume) ?? 0;
+    onBoard++;
+  }
+
+  // Whole run delivered: the truck is waiting on POD before its next job
+  if (onBoard === 0) return null;
+
+  return {
+    weightKg: Math.max(capacityKg - usedKg, 0),
+    volumeM3: volumeM3 === null ? null : Math.max(volumeM3 - usedM3, 0),
+  };
+}
+
+/**
+ * Whether a load can be added to a truck, and the capacity left afterwards
+ */
+export function checkConsolidationFit(
+  truck: TruckCapacity,
+  assignments: TruckAssignment[],
+  load: LoadSize
+): ConsolidationFit {
+  const remaining = getRemainingCapacity(truck, assignments);
+  if (!remaining) return { ok: false, reason: "TRUCK_BUSY" };
+
+  const isPartial = load.fullPartial === "PARTIAL";
+  const weightKg = toNumber(load.weight) ?? 0;
+  const volumeM3 = toNumber(load.volume) ?? 0;
+
+  if (assignments.length === 0) {
+    // Idle truck: a FULL load takes the whole truck
+    return {
+      ok: true,
+      remaining: isPartial
+        ? {
+            weightKg: Math.max(remaining.weightKg - weightKg, 0),
+            volumeM3:
+              remaining.volumeM3 === null
+                ? null
+                : Math.max(remaining.volumeM3 - volumeM3, 0),
+          }
+        : { weightKg: 0, volumeM3: remaining.volumeM3 === null ? null : 0 },
+    };
+  }
+
+  if (!isPartial) return { ok: false, reason: "TRUCK_BUSY" };
+
+  if (
+    weightKg > remaining.weightKg ||
+    (remaining.volumeM3 !== null && volumeM3 > remaining.volumeM3)
+  ) {
+    return { ok: false, reason: "TRUCK_CAPACITY_EXCEEDED" };
+  }
+
+  return {
+    ok: true,
+    remaining: {
+      weightKg: remaining.weightKg - weightKg,
+      volumeM3:
+        remaining.volumeM3 === null ? null : remaining.volumeM3 - volumeM3,
+    },
+  };
+}
+
+/**
+ * Whether enough capacity is left to keep the truck on the load board
+ */
+export function hasConsolidationCapacity(fit: ConsolidationFit): boolean {
+  return fit.ok && fit.remaining.weightKg >= MIN_CONSOLIDATION_CAPACITY_KG;
+}
+
+/**
+ * Load a truck's assignments and check whether it can take the load
+ */
+export async function checkTruckCanTakeLoad(
+  truckId: string,
+  load: LoadSize,
+  client: DbClient = db
+): Promise<{ fit: ConsolidationFit; assignments: TruckAssignment[] }> {
+  const [truck, assignments] = await Promise.all([
+    client.truck.findUnique({
+      where: { id: truckId },
+      select: { capacity: true, volume: true },
+    }),
+    getTruckAssignments(truckId, client),
+  ]);
+
+  return {
+    fit: checkConsolidationFit(truck ?? {}, assignments, load),
+    assignments,
+  };
+}
+
+/**
+ * Add a newly created trip to the run of the trips already on its truck.
+ * No-op when the truck had no other active trip.
+ *
+ * Shares of the run's fee are then re-split: trips already delivered keep
+ * the share they had, and the loads on board split the rest by weight.
+ */
+export async function linkConsolidatedTrip(
+  client: DbClient,
+  assignments: TruckAssignment[],
+  tripId: string
+): Promise<void> {
+  const runTripIds = assignments
+    .filter((assignment) => assignment.status !== "DELIVERED")
+    .map((assignment) => assignment.tripId)
+    .filter((id): id is string => !!id);
+  if (runTripIds.length === 0) return;
+
+  const consolidationId =
+    assignments.find((assignment) => assignment.consolidationId)
+      ?.consolidationId ?? runTripIds[0];
+
+  await client.trip.updateMany({
+    where: { id: { in: [...runTripIds, tripId] } },
+    data: { consolidationId },
+  });
+
+  const runTrips = await client.trip.findMany({
+    where: {
+      consolidationId,
+      status: { in: [...COMMITTED_TRIP_STATUSES, "COMPLETED"] },
+    },
+    select: {
+      id: true,
+      status: true,
+      consolidationShare: true,
+      load: { select: { weight: true } },
+    },
+  });
+  const onBoard = runTrips.filter((trip) =>
+    ON_BOARD_STATUSES.includes(trip.status)
+  );
+  const settledShare = runTrips
+    .filter((trip) => !ON_BOARD_STATUSES.includes(trip.status))
+    .reduce((sum, trip) => sum + (toNumber(trip.consolidationShare) ?? 0), 0);
+  const openShare = Math.max(1 - settledShare, 0);
+  const onBoardKg = onBoard.reduce(
+    (sum, trip) => sum + (toNumber(trip.load?.weight) ?? 0),
+    0
+  );
+
+  for (const trip of onBoard) {
+    const weight = toNumber(trip.load?.weight) ?? 0;
+    const share =
+      onBoardKg > 0
+        ? (openShare * weight) / onBoardKg
+        : openShare / onBoard.length;
+    await client.trip.update({
+      where: { id: trip.id },
+      data: { consolidationShare: share },
+    });
+  }
+}
+
+/**
+ * Human-readable error for a failed consolidation check
+ */
+export function consolidationErrorMessage(
+  reason: "TRUCK_BUSY" | "TRUCK_CAPACITY_EXCEEDED"
+): string {
+  return reason === "TRUCK_CAPACITY_EXCEEDED"
+    ? "Truck does not have enough remaining capacity for this load"
+    : "Truck is currently on an active trip and cannot take this load";
+}
+
+/**
+ * Weight share of a consolidated run carried by one load, as stored on its
+ * trip by linkConsolidatedTrip; 1 for loads that travelled alone (no
+ * consolidationId on their trip).
+ */
+export async function getConsolidationShare(
+  loadId: string,
+  consolidationId: string | null | undefined,
+  client: DbClient = db
+): Promise<number> {
+  if (!consolidationId) return 1;
+
+  const trip = await client.trip.findFirst({
+    where: { loadId, consolidationId },
+    select: { consolidationShare: true },
+  });
+  const share = toNumber(trip?.consolidationShare);
+  if (share === null || share <= 0) return 1;
+  return Math.min(share, 1);
+}
@@ -0,0 +1,437 @@
+/**
+ * Load Creation
+ *
+ * Shared by POST /api/loads and the bulk spreadsheet import
+ * (lib/loadImport.ts) so both validate, store and announce loads the same
+ * way. Callers handle auth and cache invalidation.
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { sanitizeText } from "@/lib/validation";
+import { calculateDistanceKm } from "@/lib/geo";
+import { resolveLoadGeohashes } from "@/lib/geoIndex";
+import { TRUCK_TYPE_VALUES } from "@/lib/constants/truckTypes";
+import {
+  loadStopsSchema,
+  validateStopWeights,
+  resolveStopLocations,
+  buildStopRows,
+  calculateStopRouteKm,
+} from "@/lib/loadStops";
+import { validateAuctionSettings } from "@/lib/loadAuctions";
+import { refreshLoadMatches } from "@/lib/matchIndex";
+import { startTenderWaterfall } from "@/lib/routingGuides";
+import { createNotificationForRole } from "@/lib/notifications";
+import {
+  loadVisibilityData,
+  loadVisibilityFields,
+  validateVisibilitySettings,
+} from "@/lib/carrierNetworks";
+
+/**
+ * Load fields accepted on create, before cross-field checks. Schedule
+ * templates (lib/loadSchedules.ts) are derived from it.
+ */
+export const loadFieldsSchema = z.object({
+  // Location & Schedule
+  pickupCity: z.string().min(2).max(200),
+  pickupAddress: z.string().max(500).optional(),
+  pickupDockHours: z.string().max(100).optional(), // Changed to single field (string)
+  pickupDate: z.string(),
+  appointmentRequired: z.boolean().default(false),
+  deliveryCity: z.string().min(2).max(200),
+  deliveryAddress: z.string().max(500).optional(),
+  deliveryDockHours: z.string().max(100).optional(), // Changed to single field (string)
+  deliveryDate: z.string(),
+
+  // Estimated route distance (display only).
+  // Calculated server-side from city coordinates.
+  // Actual GPS distance is used for fee calculation
+  // at trip completion — not this field.
+  tripKm: z.number().positive().optional(),
+  dhToOriginKm: z.number().positive().optional(),
+  dhAfterDeliveryKm: z.number().positive().optional(),
+  originLat: z.number().min(-90).max(90).optional(),
+  originLon: z.number().min(-180).max(180).optional(),
+  destinationLat: z.number().min(-90).max(90).optional(),
+  destinationLon: z.number().min(-180).max(180).optional(),
+
+  // Load Details
+  truckType: z.enum(TRUCK_TYPE_VALUES),
+  weight: z.number().positive().max(50000),
+  volume: z.number().positive().optional(),
+  cargoDescription: z.string().min(5).max(2000),
+  isFullLoad: z.boolean().default(true), // Keep for backward compatibility
+  fullPartial: z.enum(["FULL", "PARTIAL"]).default("FULL"), // [NEW]
+  isFragile: z.boolean().default(false),
+  requiresRefrigeration: z.boolean().default(false),
+
+  // Insurance
+  isInsured: z.boolean().default(false),
+  insuranceProvider: z.string().max(200).optional(),
+  insurancePolicyNumber: z.string().max(100).optional(),
+  insuranceCoverageAmount: z.number().positive().optional(),
+
+  lengthM: z.number().positive().optional(),
+  casesCount: z.number().int().positive().optional(),
+
+  // Pricing is negotiated off-platform
+  bookMode: z.enum(["REQUEST", "INSTANT", "AUCTION"]).default("REQUEST"), // [NEW]
+  // AUCTION: sealed carrier bids until bidDeadline; reserveRate is shipper-only
+  bidDeadline: z.string().optional(),
+  reserveRate: z.number().positive().max(10000000).optional(),
+
+  // Private load board: who may see the load (lib/carrierNetworks.ts)
+  visibility: loadVisibilityFields.visibility.default("PUBLIC"),
+  networkExclusiveHours: loadVisibilityFields.networkExclusiveHours.optional(),
+
+  dtpReference: z.string().max(100).optional(),
+  factorRating: z.string().max(100).optional(),
+
+  // Privacy & Safety
+  isAnonymous: z.boolean().default(false),
+  shipperContactName: z
+    .string()
+    .min(2, "Contact name required (min 2 chars)")
+    .max(100)
+    .optional(),
+  shipperContactPhone: z
+    .string()
+    .min(10, "Phone must be at least 10 digits")
+    .max(20)
+    .regex(/^(\+251|0)\d{9,}$/, "Enter valid Ethiopian phone: +251... or 09...")
+    .optional(),
+  safetyNotes: z.string().max(1000).optional(),
+  specialInstructions: z.string().max(2000).optional(),
+
+  // Status
+  status: z.enum(["DRAFT", "POSTED"]).default("DRAFT"),
+
+  // Multi-stop: ordered pickup/drop sequence (optional)
+  stops: loadStopsSchema.optional(),
+
+  // Dock appointments: shipper facilities at pickup/delivery (optional)
+  pickupFacilityId: z.string().max(50).optional(),
+  deliveryFacilityId: z.string().max(50).optional(),
+});
+
+type LoadFields = z.infer<typeof loadFieldsSchema>;
+
+/**
+ * Cross-field checks that involve neither dates nor status: network
+ * visibility and stop weights. Shared with schedule templates.
+ */
+export function refineLoadFields(
+  data: Pick<
+    LoadFields,
+    "visibility" | "networkExclusiveHours" | "stops" | "weight"
+  >,
+  ctx: z.RefinementCtx
+): void {
+  const visibilityError = validateVisibilitySettings(data);
+  if (visibilityError) {
+    ctx.addIssue({
+      code: "custom",
+      message: visibilityError,
+      path: ["networkExclusiveHours"],
+    });
+  }
+  if (!data.stops) return;
+  const weightError = validateStopWeights(data.stops, data.weight);
+  if (weightError) {
+    ctx.addIssue({ code: "custom", message: weightError, path: ["stops"] });
+  }
+}
+
+export const createLoadSchema = loadFieldsSchema
+  .superRefine((data, ctx) => {
+    const auctionError = validateAuctionSettings(data);
+    if (auctionError) {
+      ctx.addIssue({
+        code: "custom",
+        message: auctionError,
+        path: ["bidDeadline"],
+      });
+    }
+    refineLoadFields(data, ctx);
+  })
+  .refine(
+    (data) => {
+      const pickup = new Date(data.pickupDate);
+      const delivery = new Date(data.deliveryDate);
+      return pickup <= delivery;
+    },
+    {
+      message: "Pickup date must be on or before delivery date",
+      path: ["deliveryDate"],
+    }
+  )
+  .refine(
+    (data) => {
+      // G-M13-3: Pickup date cannot be in the past
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      return new Date(data.pickupDate) >= today;
+    },
+    {
+      message: "Pickup date cannot be in the past",
+      path: ["pickupDate"],
+    }
+  )
+  .refine(
+    (data) => {
+      // Contact info required when POSTING to marketplace (not DRAFT) and not anonymous
+      // DRAFT loads are incomplete by design — contact added before posting
+      if (data.status === "POSTED" && !data.isAnonymous) {
+        return !!data.shipperContactName && !!data.shipperContactPhone;
+      }
+      return true;
+    },
+    {
+      message:
+        "Contact name and phone are required when posting to marketplace (unless anonymous)",
+      path: ["shipperContactName"],
+    }
+  );
+
+export type CreateLoadInput = z.infer<typeof createLoadSchema>;
+
+/** Fields prepareLoadFields() sanitizes or derives */
+type PreparableLoadFields = Pick<
+  LoadFields,
+  | "cargoDescription"
+  | "pickupAddress"
+  | "deliveryAddress"
+  | "safetyNotes"
+  | "specialInstructions"
+  | "stops"
+  | "tripKm"
+  | "originLat"
+  | "originLon"
+  | "destinationLat"
+  | "destinationLon"
+>;
+
+/**
+ * Sanitize text fields, resolve stop coordinates (mirrored onto the
+ * origin/destination when not sent) and compute tripKm when missing
+ *
+ * @returns The prepared fields and the resolved stops (null without stops)
+ */
+export async function prepareLoadFields<T extends PreparableLoadFields>(
+  input: T
+): Promise<{
+  fields: Omit<T, "stops">;
+  stops: Awaited<ReturnType<typeof resolveStopLocations>> | null;
+}> {
+  const { stops: stopInputs, ...validatedData } = input;
+
+  // Sanitize user-provided text fields
+  const sanitized = {
+    ...validatedData,
+    cargoDescription: sanitizeText(validatedData.cargoDescription, 2000),
+    pickupAddress: validatedData.pickupAddress
+      ? sanitizeText(validatedData.pickupAddress, 500)
+      : undefined,
+    deliveryAddress: validatedData.deliveryAddress
+      ? sanitizeText(validatedData.deliveryAddress, 500)
+      : undefined,
+    safetyNotes: validatedData.safetyNotes
+      ? sanitizeText(validatedData.safetyNotes, 1000)
+      : undefined,
+    specialInstructions: validatedData.specialInstructions
+      ? sanitizeText(validatedData.specialInstructions, 2000)
+      : undefined,
+  };
+
+  // Multi-stop: resolve stop coordinates and mirror the first/last stop
+  // onto the load's origin/destination when the caller did not send them
+  const stops = stopInputs
+    ? await resolveStopLocations(
+        stopInputs.map((stop) => ({
+          ...stop,
+          address: stop.address ? sanitizeText(stop.address, 500) : undefined,
+          notes: stop.notes ? sanitizeText(stop.notes, 1000) : undefined,
+        }))
+      )
+    : null;
+  if (stops) {
+    const first = stops[0];
+    const last = stops[stops.length - 1];
+    sanitized.originLat ??= first.latitude;
+    sanitized.originLon ??= first.longitude;
+    sanitized.destinationLat ??= last.latitude;
+    sanitized.destinationLon ??= last.longitude;
+  }
+
+  // G-M13-1: Server-side tripKm calculation when coordinates provided but tripKm missing
+  if (sanitized.tripKm == null && stops) {
+    // Multi-stop route length follows the stop order, not origin → destination
+    const routeKm = calculateStopRouteKm(
+      stops.map((stop, index) => ({
+        sequence: index + 1,
+        latitude: stop.latitude ?? null,
+        longitude: stop.longitude ?? null,
+      }))
+    );
+    if (routeKm > 0) sanitized.tripKm = Math.round(routeKm);
+  }
+  if (
+    sanitized.tripKm == null &&
+    sanitized.originLat != null &&
+    sanitized.originLon != null &&
+    sanitized.destinationLat != null &&
+    sanitized.destinationLon != null
+  ) {
+    sanitized.tripKm = Math.round(
+      calculateDistanceKm(
+        sanitized.originLat,
+        sanitized.originLon,
+        sanitized.destinationLat,
+        sanitized.destinationLon
+      )
+    );
+  }
+
+  return { fields: sanitized, stops };
+}
+
+/**
+ * Where a load came from when it was not created by hand
+ */
+export interface LoadOrigin {
+  /** Recurring schedule occurrence (lib/loadSchedules.ts) */
+  scheduleId?: string;
+  scheduledFor?: Date;
+  /** Load event description and metadata instead of the defaults */
+  event?: { description: string; metadata?: Prisma.InputJsonValue };
+}
+
+/**
+ * Create a load from validated input: prepares the fields, fills the
+ * corridor distance estimate and records the CREATED / POSTED event
+ */
+export async function createLoadFromInput(
+  input: CreateLoadInput,
+  owner: { shipperId: string; userId: string },
+  origin: LoadOrigin = {}
+) {
+  const { fields: sanitized, stops } = await prepareLoadFields(input);
+
+  const geohashes = await resolveLoadGeohashes(sanitized);
+  const postedAt = sanitized.status === "POSTED" ? new Date() : null;
+
+  // P3: Populate estimatedTripKm from corridor when no trip distance is known.
+  // This ensures Trip creation picks up corridor distance via the existing
+  // `estimatedDistanceKm: freshLoad.tripKm || freshLoad.estimatedTripKm` pattern.
+  let estimatedTripKm: number | null = null;
+  if (!sanitized.tripKm && sanitized.pickupCity && sanitized.deliveryCity) {
+    const { findMatchingCorridor } =
+      await import("@/lib/serviceFeeCalculation");
+    const match = await findMatchingCorridor(
+      sanitized.pickupCity,
+      sanitized.deliveryCity
+    );
+    if (match && match.corridor.distanceKm > 0) {
+      estimatedTripKm = match.corridor.distanceKm;
+    }
+  }
+
+  // Load, stops and event are written together so a failure leaves no
+  // half-created load behind
+  const load = await db.$transaction(async (tx) => {
+    // Pricing is negotiated off-platform - platform only charges service fees
+    const load = await tx.load.create({
+      data: {
+        ...sanitized,
+        ...geohashes,
+        estimatedTripKm,
+        pickupDate: new Date(sanitized.pickupDate),
+        deliveryDate: new Date(sanitized.deliveryDate),
+        bidDeadline:
+          sanitized.bookMode === "AUCTION" && sanitized.bidDeadline
+            ? new Date(sanitized.bidDeadline)
+            : null,
+        reserveRate:
+          sanitized.bookMode === "AUCTION" ? sanitized.reserveRate : null,
+        postedAt,
+        ...loadVisibilityData(sanitized, postedAt),
+        shipperId: owner.shipperId,
+        createdById: owner.userId,
+        scheduleId: origin.scheduleId,
+        scheduledFor: origin.scheduledFor,
+      },
+      include: {
+        shipper: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            isVerified: true,
+          },
+        },
+      },
+    });
+
+    if (stops) {
+      await tx.loadStop.createMany({ data: buildStopRows(load.id, stops) });
+    }
+
+    // Create load event
+    await tx.loadEvent.create({
+      data: {
+        loadId: load.id,
+        eventType: sanitized.status === "POSTED" ? "POSTED" : "CREATED",
+        description:
+          origin.event?.description ??
+          (sanitized.status === "POSTED"
+            ? "Load posted to marketplace"
+            : "Load created as draft"),
+        metadata: origin.event?.metadata,
+        userId: owner.userId,
+      },
+    });
+
+    return load;
+  });
+
+  return load;
+}
+
+/**
+ * Announce a newly created load: refresh its matches and, when POSTED,
+ * start the routing guide tender or notify carriers of a public load
+ *
+ * @returns Whether the load went to the routing guide's carriers first
+ */
+export async function announceCreatedLoad(
+  load: { id: string; visibility: string },
+  input: CreateLoadInput
+): Promise<boolean> {
+  await refreshLoadMatches(load.id);
+  if (input.status !== "POSTED") return false;
+
+  // Routing guide: preferred carriers see the load before the public board
+  const tendered = await startTenderWaterfall(load.id);
+
+  // Network loads reach their carriers through matches and alerts instead
+  if (!tendered && load.visibility === "PUBLIC") {
+    createNotificationForRole({
+      role: "CARRIER",
+      type: "NEW_LOAD_POSTED",
+      title: "New Load Available",
+      message: `New ${input.truckType} load: ${input.pickupCity} → ${input.deliveryCity}`,
+      metadata: {
+        loadId: load.id,
+        pickupCity: input.pickupCity,
+        deliveryCity: input.deliveryCity,
+        truckType: input.truckType,
+        weight: input.weight,
+      },
+    }).catch((err) => console.error("Failed to notify carriers:", err));
+  }
+
+  return tendered;
+}
@@ -0,0 +1,424 @@
+/**
+ * Bulk Load Import
+ *
+ * Shippers upload a CSV sheet with one load per row. Each row is
+ * validated with createLoadSchema (the same rules as POST /api/loads) and
+ * the outcome is reported per spreadsheet line.
+ *
+ * Flow:
+ * 1. POST /api/loads/import parses the sheet into LoadImport.rows
+ * 2. Small files are processed inline; larger ones run on the `bulk` queue
+ *    (job "load-import", see lib/queue/processors.ts)
+ * 3. runLoadImport() resolves city names against EthiopianLocation (name,
+ *    nameEthiopic or aliases), validates every row and, unless dryRun,
+ *    creates and announces the valid ones (matches, routing guide tender,
+ *    carrier notification) like POST /api/loads
+ * 4. The per-row report is stored on LoadImport.report
+ *
+ * Rows with errors never block the valid rows; fix and re-upload only the
+ * failed lines.
+ */
+
+import { LoadImport, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { CacheInvalidation } from "@/lib/cache";
+import { logger } from "@/lib/logger";
+import {
+  createLoadSchema,
+  createLoadFromInput,
+  announceCreatedLoad,
+  CreateLoadInput,
+} from "@/lib/loadCreation";
+
+/** Largest accepted upload */
+export const LOAD_IMPORT_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/** Most data rows accepted in one file */
+export const LOAD_IMPORT_MAX_ROWS = 1000;
+
+/** Files with more rows than this are processed on the bulk queue */
+export const LOAD_IMPORT_SYNC_ROW_LIMIT = 50;
+
+type ColumnType = "string" | "enum" | "number" | "boolean" | "date";
+
+/**
+ * Importable columns. Headers match the field name or one of its aliases,
+ * ignoring case, spaces and punctuation ("Pickup City" → pickupCity).
+ */
+const IMPORT_COLUMNS: Array<{
+  field: keyof CreateLoadInput;
+  type: ColumnType;
+  aliases?: string[];
+}> = [
+  { field: "pickupCity", type: "string", aliases: ["origin", "from"] },
+  { field: "pickupAddress", type: "string" },
+  { field: "pickupDockHours", type: "string" },
+  { field: "pickupDate", type: "date" },
+  { field: "appointmentRequired", type: "boolean" },
+  {
+    field: "deliveryCity",
+    type: "string",
+    aliases: ["destination", "to"],
+  },
+  { field: "deliveryAddress", type: "string" },
+  { field: "deliveryDockHours", type: "string" },
+  { field: "deliveryDate", type: "date" },
+  { field: "truckType", type: "enum", aliases: ["equipment"] },
+  { field: "weight", type: "number", aliases: ["weightKg"] },
+  { field: "volume", type: "number", aliases: ["volumeM3"] },
+  {
+    field: "cargoDescription",
+    type: "string",
+    aliases: ["cargo", "commodity", "description"],
+  },
+  { field: "fullPartial", type: "enum", aliases: ["loadType"] },
+  { field: "isFragile", type: "boolean", aliases: ["fragile"] },
+  {
+    field: "requiresRefrigeration",
+    type: "boolean",
+    aliases: ["refrigerated"],
+  },
+  { field: "isInsured", type: "boolean", aliases: ["insured"] },
+  { field: "insuranceProvider", type: "string" },
+  { field: "insurancePolicyNumber", type: "string" },
+  { field: "insuranceCoverageAmount", type: "number" },
+  { field: "lengthM", type: "number", aliases: ["length"] },
+  { field: "casesCount", type: "number", aliases: ["cases"] },
+  { field: "bookMode", type: "enum" },
+  { field: "bidDeadline", type: "date" },
+  { field: "reserveRate", type: "number" },
+  { field: "dtpReference", type: "string", aliases: ["reference"] },
+  { field: "isAnonymous", type: "boolean", aliases: ["anonymous"] },
+  { field: "shipperContactName", type: "string", aliases: ["contactName"] },
+  {
+    field: "shipperContactPhone",
+    type: "string",
+    aliases: ["contactPhone"],
+  },
+  { field: "safetyNotes", type: "string" },
+  { field: "specialInstructions", type: "string", aliases: ["instructions"] },
+  { field: "status", type: "enum" },
+];
+
+/** Columns every file must have */
+export const REQUIRED_IMPORT_COLUMNS = [
+  "pickupCity",
+  "pickupDate",
+  "deliveryCity",
+  "deliveryDate",
+  "truckType",
+  "weight",
+  "cargoDescription",
+] as const;
+
+/** One data row keyed by load field, with its spreadsheet line number */
+export interface LoadImportRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+export interface LoadImportRowResult {
+  row: number;
+  status: "VALID" | "CREATED" | "ERROR";
+  loadId?: string;
+  errors?: string[];
+}
+
+interface CityMatch {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export type CityIndex = Map<string, CityMatch>;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeCity(city: string): string {
+  return city.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+const COLUMN_BY_HEADER = new Map(
+  IMPORT_COLUMNS.flatMap((column) =>
+    [column.field, ...(column.aliases ?? [])].map(
+      (header) => [normalizeHeader(header), column] as const
+    )
+  )
+);
+
+/**
+ * Map spreadsheet rows (header first) to import rows.
+ * Blank lines are skipped; unknown columns are reported, not rejected.
+ */
+export function parseLoadImportSheet(sheet: string[][]): {
+  rows: LoadImportRow[];
+  missingColumns: string[];
+  ignoredColumns: string[];
+} {
+  const [header = [], ...dataRows] = sheet;
+
+  const fieldByIndex = new Map<number, string>();
+  const ignoredColumns: string[] = [];
+  header.forEach((title, index) => {
+    const column = COLUMN_BY_HEADER.get(normalizeHeader(title));
+    if (column) {
+      fieldByIndex.set(index, column.field);
+    } else if (title) {
+      ignoredColumns.push(title);
+    }
+  });
+
+  const mapped = new Set(fieldByIndex.values());
+  const missingColumns = REQUIRED_IMPORT_COLUMNS.filter(
+    (field) => !mapped.has(field)
+  );
+
+  const rows: LoadImportRow[] = [];
+  dataRows.forEach((cells, index) => {
+    if (!cells.some((cell) => cell !== "")) return;
+    const values: Record<string, string> = {};
+    for (const [cellIndex, field] of fieldByIndex) {
+      const value = cells[cellIndex];
+      if (value) values[field] = value;
+    }
+    // +2: header is line 1 and lines are 1-based
+    rows.push({ line: index + 2, values });
+  });
+
+  return { rows, missingColumns, ignoredColumns };
+}
+
+/**
+ * Active Ethiopian locations keyed by name, Amharic name and aliases
+ */
+export async function buildCityIndex(): Promise<CityIndex> {
+  const locations = await db.ethiopianLocation.findMany({
+    where: { isActive: true },
+    select: {
+      name: true,
+      nameEthiopic: true,
+      aliases: true,
+      latitude: true,
+      longitude: true,
+    },
+  });
+
+  const index: CityIndex = new Map();
+  const add = (key: string | null | undefined, match: CityMatch) => {
+    if (key && !index.has(normalizeCity(key))) {
+      index.set(normalizeCity(key), match);
+    }
+  };
+
+  // Official names win over an alias that happens to match another city
+  for (const location of locations) {
+    add(location.name, {
+      name: location.name,
+      latitude: Number(location.latitude),
+      longitude: Number(location.longitude),
+    });
+  }
+  for (const location of locations) {
+    const match = index.get(normalizeCity(location.name))!;
+    add(location.nameEthiopic, match);
+    for (const alias of location.aliases ?? []) add(alias, match);
+  }
+
+  return index;
+}
+
+function coerceValue(
+  type: ColumnType,
+  field: string,
+  value: string
+): { value?: unknown; error?: string } {
+  switch (type) {
+    case "string":
+      return { value };
+    case "enum":
+      return { value: value.toUpperCase().replace(/[\s-]+/g, "_") };
+    case "number": {
+      const number = Number(value.replace(/,/g, ""));
+      return Number.isFinite(number)
+        ? { value: number }
+        : { error: `${field}: "${value}" is not a number` };
+    }
+    case "boolean": {
+      const normalized = value.toLowerCase();
+      if (["true", "yes", "y", "1"].includes(normalized)) {
+        return { value: true };
+      }
+      if (["false", "no", "n", "0"].includes(normalized)) {
+        return { value: false };
+      }
+      return { error: `${field}: "${value}" is not yes/no` };
+    }
+    case "date": {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return { error: `${field}: "${value}" is not a date (use YYYY-MM-DD)` };
+      }
+      // Pickup / delivery are calendar days; bid deadlines keep their time
+      return {
+        value:
+          field === "bidDeadline"
+            ? date.toISOString()
+            : date.toISOString().slice(0, 10),
+      };
+    }
+  }
+}
+
+/**
+ * Validate one import row with the load creation schema.
+ * City names are replaced by the matching location's official name.
+ */
+export function validateLoadImportRow(
+  row: LoadImportRow,
+  cities: CityIndex
+): { data?: CreateLoadInput; errors: string[] } {
+  const errors: string[] = [];
+  const input: Record<string, unknown> = {};
+
+  for (const column of IMPORT_COLUMNS) {
+    const raw = row.values[column.field];
+    if (raw === undefined || raw === "") continue;
+    const { value, error } = coerceValue(column.type, column.field, raw);
+    if (error) errors.push(error);
+    else input[column.field] = value;
+  }
+
+  for (const [field, latKey, lonKey] of [
+    ["pickupCity", "originLat", "originLon"],
+    ["deliveryCity", "destinationLat", "destinationLon"],
+  ] as const) {
+    const city = input[field];
+    if (typeof city !== "string") continue;
+    const match = cities.get(normalizeCity(city));
+    if (!match) {
+      errors.push(`${field}: Unknown city "${city}"`);
+      continue;
+    }
+    input[field] = match.name;
+    if (Number.isFinite(match.latitude) && Number.isFinite(match.longitude)) {
+      input[latKey] = match.latitude;
+      input[lonKey] = match.longitude;
+    }
+  }
+
+  const parsed = createLoadSchema.safeParse(input);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      const path = issue.path.join(".");
+      // Coercion already explained why the field is missing
+      if (errors.some((error) => error.startsWith(`${path}:`))) continue;
+      errors.push(path ? `${path}: ${issue.message}` : issue.message);
+    }
+  }
+
+  return errors.length > 0 || !parsed.success
+    ? { errors }
+    : { data: parsed.data, errors };
+}
+
+/**
+ * Validate (and unless dryRun, create) every row of an import and store
+ * the report. Safe to call again: only the caller that moves the import
+ * out of PENDING processes it.
+ */
+export async function runLoadImport(
+  importId: string,
+  onProgress?: (progress: number) => Promise<void>
+): Promise<void> {
+  const loadImport = await db.loadImport.findUnique({
+    where: { id: importId },
+  });
+  if (!loadImport || loadImport.status !== "PENDING") return;
+
+  // Claim the import so a retried job and the inline run cannot both create
+  // its loads
+  const claimed = await db.loadImport.updateMany({
+    where: { id: importId, status: "PENDING" },
+    data: { status: "PROCESSING" },
+  });
+  if (claimed.count === 0) return;
+
+  try {
+    const rows = loadImport.rows as unknown as LoadImportRow[];
+    const cities = await buildCityIndex();
+    const report: LoadImportRowResult[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const { data, errors } = validateLoadImportRow(row, cities);
+
+      if (!data) {
+        report.push({ row: row.line, status: "ERROR", errors });
+      } else if (loadImport.dryRun) {
+        report.push({ row: row.line, status: "VALID" });
+      } else {
+        try {
+          const load = await createLoadFromInput(data, {
+            shipperId: loadImport.shipperId,
+            userId: loadImport.createdById,
+          });
+          report.push({ row: row.line, status: "CREATED", loadId: load.id });
+          await announceCreatedLoad(load, data);
+        } catch (error) {
+          logger.error("Load import row failed", error, {
+            importId,
+            line: row.line,
+          });
+          report.push({
+            row: row.line,
+            status: "ERROR",
+            errors: ["Load could not be created"],
+          });
+        }
+      }
+
+      if (onProgress && (index + 1) % 25 === 0) {
+        await onProgress(Math.round(((index + 1) / rows.length) * 100));
+      }
+    }
+
+    const createdCount = report.filter((r) => r.status === "CREATED").length;
+    await db.loadImport.update({
+      where: { id: importId },
+      data: {
+        status: "COMPLETED",
+        report: report as unknown as Prisma.InputJsonValue,
+        validCount: report.filter((r) => r.status !== "ERROR").length,
+        createdCount,
+        errorCount: report.filter((r) => r.status === "ERROR").length,
+        completedAt: new Date(),
+      },
+    });
+
+    if (createdCount > 0) {
+      await CacheInvalidation.allListings();
+    }
+  } catch (error) {
+    logger.error("Load import failed", error, { importId });
+    await db.loadImport.update({
+      where: { id: importId },
+      data: {
+        status: "FAILED",
+        error: "Import failed. Please try again.",
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+/**
+ * Import summary for API responses (parsed rows are never returned)
+ */
+export function toLoadImportResponse(
+  loadImport: LoadImport,
+  { includeReport }: { includeReport: boolean }
+) {
+  const { rows: _rows, report, ...summary } = loadImport;
+  return includeReport ? { ...summary, report: report ?? [] } : summary;
+}
@@ -0,0 +1,332 @@
+/**
+ * Load Requests
+ *
+ * Sprint 18 - Carrier requests load from shipper
+ *
+ * Creates carrier load requests. The shipper must approve before the load
+ * is assigned. Shared by POST /api/load-requests and the tour chain
+ * endpoint (POST /api/load-requests/chain), so every request passes the
+ * same load, truck, insurance, capacity and posting checks.
+ *
+ * Callers check the requester's role and wallet gate first.
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { createNotification, NotificationType } from "@/lib/notifications";
+import { CacheInvalidation } from "@/lib/cache";
+import { isLoadVisibleToCarrier } from "@/lib/carrierNetworks";
+import {
+  activeTripLoadsArgs,
+  checkConsolidationFit,
+  consolidationErrorMessage,
+  toTruckAssignments,
+} from "@/lib/loadConsolidation";
+
+/** Load statuses a carrier may request */
+export const REQUESTABLE_LOAD_STATUSES = ["POSTED", "SEARCHING", "OFFERED"];
+
+export interface LoadRequestInput {
+  loadId: string;
+  truckId: string;
+  notes?: string;
+  expiresInHours: number;
+}
+
+export interface LoadRequester {
+  userId: string;
+  organizationId?: string | null;
+  /** Admins act on behalf of the truck's carrier */
+  isAdmin: boolean;
+}
+
+export type LoadRequestResult =
+  | { loadRequest: Awaited<ReturnType<typeof insertLoadRequest>> }
+  | { error: string; status: number };
+
+/**
+ * Validate a load-truck pair and create a PENDING load request, notifying
+ * the shipper's users.
+ */
+export async function createLoadRequest(
+  data: LoadRequestInput,
+  requester: LoadRequester
+): Promise<LoadRequestResult> {
+  // Get the load
+  const load = await db.load.findUnique({
+    where: { id: data.loadId },
+    include: {
+      shipper: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+
+  if (!load) {
+    return { error: "Load not found", status: 404 };
+  }
+
+  // Auction loads are booked through sealed bids (POST /api/loads/[id]/bids)
+  if (load.bookMode === "AUCTION") {
+    return {
+      error: "This load is up for auction — submit a bid instead",
+      status: 400,
+    };
+  }
+
+  // Check load status - must be available
+  if (!REQUESTABLE_LOAD_STATUSES.includes(load.status)) {
+    return {
+      error: `Load is not available (status: ${load.status})`,
+      status: 400,
+    };
+  }
+
+  // Check if load is already assigned
+  if (load.assignedTruckId) {
+    return { error: "Load is already assigned to a truck", status: 400 };
+  }
+
+  // Routing guide: the shipper's preferred carriers get the load first
+  if (load.tenderRank != null) {
+    return {
+      error: "Load is being offered to the shipper's preferred carriers",
+      status: 409,
+    };
+  }
+
+  // Get the truck
+  const truck = await db.truck.findUnique({
+    where: { id: data.truckId },
+    include: {
+      carrier: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      // G-A7-6: Fetch active trips to block requests for busy trucks.
+      // G-A7-3: PICKUP_PENDING included — truck heading to pickup is already committed.
+      // Uses trips (hasMany) rather than assignedLoads so trip status drives the check.
+      // LTL: trip load sizes decide whether a PARTIAL load still fits.
+      trips: activeTripLoadsArgs,
+    },
+  });
+
+  if (!truck) {
+    return { error: "Truck not found", status: 404 };
+  }
+
+  // BUG-2 FIX: Admins act on behalf of the truck's carrier org.
+  // For carriers, enforce that they own the truck.
+  const effectiveCarrierId = requester.isAdmin
+    ? truck.carrierId
+    : requester.organizationId!;
+
+  if (!requester.isAdmin && truck.carrierId !== requester.organizationId) {
+    return { error: "Truck not found", status: 404 };
+  }
+
+  // Private load board: network loads only for the shipper's network
+  if (!(await isLoadVisibleToCarrier(load, effectiveCarrierId))) {
+    return { error: "Load not found", status: 404 };
+  }
+
+  // Verify truck is approved
+  if (truck.approvalStatus !== "APPROVED") {
+    return {
+      error: "Truck must be approved before requesting loads",
+      status: 400,
+    };
+  }
+
+  // Truck insurance must be valid (blueprint §4)
+  if (
+    truck.insuranceStatus !== "VALID" &&
+    truck.insuranceStatus !== "EXPIRING"
+  ) {
+    return {
+      error:
+        "Truck insurance has expired or is missing. Renew insurance before requesting loads.",
+      status: 400,
+    };
+  }
+
+  // G-A7-6: Reject requests for trucks already on an active trip,
+  // unless the load is PARTIAL and fits the truck's remaining capacity.
+  const fit = checkConsolidationFit(
+    truck,
+    toTruckAssignments(truck.trips),
+    load
+  );
+  if (!fit.ok) {
+    return { error: consolidationErrorMessage(fit.reason), status: 409 };
+  }
+
+  // Check if truck has an active posting
+  const activePosting = await db.truckPosting.findFirst({
+    where: {
+      truckId: data.truckId,
+      status: "ACTIVE",
+    },
+  });
+
+  if (!activePosting) {
+    return {
+      error: "Truck must have an active posting to request loads",
+      status: 400,
+    };
+  }
+
+  // Check for existing pending request for same load-truck pair
+  const existingRequest = await db.loadRequest.findFirst({
+    where: {
+      loadId: data.loadId,
+      truckId: data.truckId,
+      status: "PENDING",
+    },
+  });
+
+  if (existingRequest) {
+    return {
+      error: "A pending request already exists for this load-truck combination",
+      status: 409,
+    };
+  }
+
+  // Calculate expiration time
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + data.expiresInHours);
+
+  // Create the load request
+  // G-M14-3: Partial unique index enforces one PENDING per (loadId, truckId)
+  let loadRequest;
+  try {
+    loadRequest = await insertLoadRequest(
+      data,
+      effectiveCarrierId,
+      requester.userId,
+      load.shipperId!,
+      expiresAt
+    );
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return {
+        error: "A pending request already exists for this load and truck",
+        status: 409,
+      };
+    }
+    throw error;
+  }
+
+  // Create load event
+  await db.loadEvent.create({
+    data: {
+      loadId: data.loadId,
+      eventType: "LOAD_REQUESTED",
+      description: `Carrier ${truck.carrier.name} requested this load with truck ${truck.licensePlate}`,
+      userId: requester.userId,
+      metadata: {
+        loadRequestId: loadRequest.id,
+        truckId: data.truckId,
+        carrierId: effectiveCarrierId,
+      },
+    },
+  });
+
+  // G-A9-3: Transition load POSTED → SEARCHING ("active carrier search in progress")
+  if (load.status === "POSTED") {
+    await db.load.update({
+      where: { id: data.loadId },
+      data: { status: "SEARCHING" },
+    });
+  }
+
+  // Notify shipper users
+  const shipperUsers = await db.user.findMany({
+    where: {
+      organizationId: load.shipperId!,
+      status: "ACTIVE",
+    },
+    select: { id: true },
+  });
+
+  // Fire-and-forget: notification failure must not fail a committed request
+  Promise.all(
+    shipperUsers.map((user) =>
+      createNotification({
+        userId: user.id,
+        type: NotificationType.LOAD_REQUEST_RECEIVED,
+        title: "New Load Request",
+        message: `${truck.carrier.name} wants to haul your load from ${load.pickupCity} to ${load.deliveryCity}`,
+        metadata: {
+          loadRequestId: loadRequest.id,
+          loadId: data.loadId,
+          truckId: data.truckId,
+          carrierName: truck.carrier.name,
+        },
+      })
+    )
+  ).catch((err) => console.error("Load request notification failed:", err));
+
+  // Invalidate load cache after request creation
+  await CacheInvalidation.load(data.loadId);
+
+  return { loadRequest };
+}
+
+function insertLoadRequest(
+  data: LoadRequestInput,
+  carrierId: string,
+  requestedById: string,
+  shipperId: string,
+  expiresAt: Date
+) {
+  return db.loadRequest.create({
+    data: {
+      loadId: data.loadId,
+      truckId: data.truckId,
+      carrierId,
+      requestedById,
+      shipperId,
+      notes: data.notes,
+      // No proposedRate - price negotiation happens outside platform
+      expiresAt,
+    },
+    include: {
+      load: {
+        select: {
+          id: true,
+          pickupCity: true,
+          deliveryCity: true,
+          truckType: true,
+        },
+      },
+      truck: {
+        select: {
+          id: true,
+          licensePlate: true,
+          truckType: true,
+        },
+      },
+      carrier: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      shipper: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,537 @@
+/**
+ * Recurring Load Schedule Utilities
+ *
+ * A LoadSchedule pairs a load template with a recurrence rule so shippers
+ * running the same lane every week (e.g. Adama → Djibouti on Monday and
+ * Thursday) stop re-creating the load by hand.
+ *
+ * Conventions:
+ * - Occurrences are UTC calendar days; an occurrence date is the generated
+ *   load's pickup date and delivery is `deliveryOffsetDays` later
+ * - The generate-scheduled-loads cron creates each occurrence `leadDays`
+ *   before pickup as a DRAFT or POSTED load linked by Load.scheduleId /
+ *   Load.scheduledFor (@@unique, so reruns never duplicate an occurrence),
+ *   through the same create-and-announce path as POST /api/loads
+ * - `generatedThrough` records the last occurrence date already processed:
+ *   rule edits only affect occurrences after it, template edits are also
+ *   pushed to generated loads that have not been posted yet
+ * - Templates carry no dates; stop appointment windows are not supported on
+ *   templates (use dockHours instead)
+ */
+
+import { z } from "zod";
+import { LoadSchedule, LoadStatus, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { CacheInvalidation } from "@/lib/cache";
+import { logger } from "@/lib/logger";
+import { resolveLoadGeohashes } from "@/lib/geoIndex";
+import {
+  announceCreatedLoad,
+  createLoadFromInput,
+  CreateLoadInput,
+  loadFieldsSchema,
+  prepareLoadFields,
+  refineLoadFields,
+} from "@/lib/loadCreation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Load statuses a generated load may still be edited or skipped in */
+export const SCHEDULE_EDITABLE_STATUSES: LoadStatus[] = ["DRAFT", "UNPOSTED"];
+
+/** Load statuses in which skipping an occurrence cancels its load */
+export const SCHEDULE_SKIPPABLE_STATUSES: LoadStatus[] = [
+  "DRAFT",
+  "UNPOSTED",
+  "POSTED",
+];
+
+/**
+ * Load fields copied onto every generated load.
+ *
+ * The POST /api/loads fields minus dates, status, auction settings (a
+ * recurring load cannot share one bid deadline), facilities and per-load
+ * references.
+ */
+export const loadTemplateSchema = loadFieldsSchema
+  .omit({
+    pickupDate: true,
+    deliveryDate: true,
+    status: true,
+    bidDeadline: true,
+    reserveRate: true,
+    pickupFacilityId: true,
+    deliveryFacilityId: true,
+    dtpReference: true,
+    factorRating: true,
+  })
+  .extend({
+    bookMode: z.enum(["REQUEST", "INSTANT"]).default("REQUEST"),
+  })
+  .superRefine((data, ctx) => {
+    refineLoadFields(data, ctx);
+    if (data.stops?.some((s) => s.appointmentStart || s.appointmentEnd)) {
+      ctx.addIssue({
+        code: "custom",
+        message:
+          "Stop appointment windows are not supported on schedule templates; use dock hours instead",
+        path: ["stops"],
+      });
+    }
+  });
+
+export type LoadTemplate = z.infer<typeof loadTemplateSchema>;
+
+const scheduleDate = z
+  .string()
+  .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date");
+
+/**
+ * POST /api/load-schedules body.
+ *
+ * The template comes either inline or from an existing load (`loadId`),
+ * whose fields and stops are copied.
+ */
+export const createLoadScheduleSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    template: loadTemplateSchema.optional(),
+    loadId: z.string().optional(),
+
+    frequency: z.enum(["DAILY", "WEEKLY"]).default("WEEKLY"),
+    interval: z.number().int().min(1).max(52).default(1),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).default([]),
+    startDate: scheduleDate,
+    endDate: scheduleDate.nullable().optional(),
+    deliveryOffsetDays: z.number().int().min(0).max(30).default(1),
+    leadDays: z.number().int().min(0).max(60).default(7),
+    postAs: z.enum(["DRAFT", "POSTED"]).default("DRAFT"),
+  })
+  .refine((data) => !!data.template !== !!data.loadId, {
+    message: "Provide either a template or a source loadId",
+    path: ["template"],
+  });
+
+/**
+ * PATCH /api/load-schedules/[id] body. Every field is optional.
+ */
+export const updateLoadScheduleSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  status: z.enum(["ACTIVE", "PAUSED"]).optional(),
+  template: loadTemplateSchema.optional(),
+
+  frequency: z.enum(["DAILY", "WEEKLY"]).optional(),
+  interval: z.number().int().min(1).max(52).optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  endDate: scheduleDate.nullable().optional(),
+  deliveryOffsetDays: z.number().int().min(0).max(30).optional(),
+  leadDays: z.number().int().min(0).max(60).optional(),
+  postAs: z.enum(["DRAFT", "POSTED"]).optional(),
+});
+
+/**
+ * Recurrence rule fields used to compute occurrence dates
+ */
+export interface ScheduleRule {
+  frequency: "DAILY" | "WEEKLY";
+  interval: number;
+  daysOfWeek: number[];
+  startDate: Date;
+  endDate: Date | null;
+  skippedDates?: Date[];
+}
+
+/**
+ * Truncate a date to its UTC calendar day
+ */
+export function toUtcDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+}
+
+/**
+ * Add whole days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Check a recurrence rule for consistency.
+ *
+ * @returns Error message, or null when the rule is usable
+ */
+export function validateScheduleRule(rule: ScheduleRule): string | null {
+  if (isNaN(rule.startDate.getTime())) return "Invalid start date";
+  if (rule.endDate && toUtcDay(rule.endDate) < toUtcDay(rule.startDate)) {
+    return "End date must be on or after the start date";
+  }
+  if (rule.frequency === "WEEKLY" && rule.daysOfWeek.length === 0) {
+    return "Weekly schedules need at least one day of the week";
+  }
+  return null;
+}
+
+/**
+ * Occurrence dates of a rule within [from, to] (inclusive, UTC days).
+ *
+ * DAILY repeats every `interval` days from the start date. WEEKLY repeats
+ * on `daysOfWeek` in every `interval`-th week, counting Sunday-based weeks
+ * from the start date's week. Skipped dates are left out.
+ */
+export function getOccurrenceDates(
+  rule: ScheduleRule,
+  from: Date,
+  to: Date
+): Date[] {
+  const start = toUtcDay(rule.startDate);
+  const first = toUtcDay(from) > start ? toUtcDay(from) : start;
+  const last =
+    rule.endDate && toUtcDay(rule.endDate) < toUtcDay(to)
+      ? toUtcDay(rule.endDate)
+      : toUtcDay(to);
+
+  const skipped = new Set(
+    (rule.skippedDates ?? []).map((d) => toUtcDay(d).getTime())
+  );
+  const firstWeekStart = addDays(start, -start.getUTCDay());
+  const interval = Math.max(1, rule.interval);
+
+  const dates: Date[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    if (skipped.has(day.getTime())) continue;
+
+    if (rule.frequency === "DAILY") {
+      const daysSinceStart = Math.round(
+        (day.getTime() - start.getTime()) / DAY_MS
+      );
+      if (daysSinceStart % interval === 0) dates.push(day);
+      continue;
+    }
+
+    if (!rule.daysOfWeek.includes(day.getUTCDay())) continue;
+    const weekIndex = Math.floor(
+      Math.round((day.getTime() - firstWeekStart.getTime()) / DAY_MS) / 7
+    );
+    if (weekIndex % interval === 0) dates.push(day);
+  }
+
+  return dates;
+}
+
+/**
+ * Whether a date is an occurrence of the rule (ignoring skips)
+ */
+export function isOccurrenceDate(rule: ScheduleRule, date: Date): boolean {
+  return (
+    getOccurrenceDates({ ...rule, skippedDates: [] }, date, date).length > 0
+  );
+}
+
+/**
+ * Sanitize a template and fill in derived fields once, at save time, with
+ * the same preparation as POST /api/loads (prepareLoadFields), so template
+ * edits pushed onto generated loads carry stop coordinates and tripKm.
+ */
+export async function prepareTemplate(
+  template: LoadTemplate
+): Promise<LoadTemplate> {
+  const { fields, stops } = await prepareLoadFields(template);
+  return {
+    ...fields,
+    stops: stops?.map(({ cityId: _cityId, ...stop }) => stop),
+  };
+}
+
+/**
+ * Build a template from an existing load and its stops.
+ *
+ * AUCTION loads become REQUEST loads; stop appointment windows are dropped.
+ * The result still has to pass loadTemplateSchema.
+ */
+export function templateFromLoad(
+  load: Prisma.LoadGetPayload<{ include: { stops: true } }>
+): Record<string, unknown> {
+  const num = (value: Prisma.Decimal | number | null) =>
+    value != null ? Number(value) : undefined;
+  const str = (value: string | null) => value ?? undefined;
+
+  return {
+    pickupCity: str(load.pickupCity),
+    pickupAddress: str(load.pickupAddress),
+    pickupDockHours: str(load.pickupDockHours),
+    appointmentRequired: load.appointmentRequired,
+    deliveryCity: str(load.deliveryCity),
+    deliveryAddress: str(load.deliveryAddress),
+    deliveryDockHours: str(load.deliveryDockHours),
+    tripKm: num(load.tripKm),
+    dhToOriginKm: num(load.dhToOriginKm),
+    dhAfterDeliveryKm: num(load.dhAfterDeliveryKm),
+    originLat: num(load.originLat),
+    originLon: num(load.originLon),
+    destinationLat: num(load.destinationLat),
+    destinationLon: num(load.destinationLon),
+    truckType: load.truckType,
+    weight: Number(load.weight),
+    volume: num(load.volume),
+    cargoDescription: load.cargoDescription,
+    isFullLoad: load.isFullLoad,
+    fullPartial: load.fullPartial ?? undefined,
+    isFragile: load.isFragile,
+    requiresRefrigeration: load.requiresRefrigeration,
+    isInsured: load.isInsured,
+    insuranceProvider: str(load.insuranceProvider),
+    insurancePolicyNumber: str(load.insurancePolicyNumber),
+    insuranceCoverageAmount: num(load.insuranceCoverageAmount),
+    lengthM: num(load.lengthM),
+    casesCount: load.casesCount ?? undefined,
+    bookMode: load.bookMode === "INSTANT" ? "INSTANT" : "REQUEST",
+    visibility: load.visibility,
+    networkExclusiveHours: load.networkExclusiveHours ?? undefined,
+    isAnonymous: load.isAnonymous,
+    shipperContactName: str(load.shipperContactName),
+    shipperContactPhone: str(load.shipperContactPhone),
+    safetyNotes: str(load.safetyNotes),
+    specialInstructions: str(load.specialInstructions),
+    stops:
+      load.stops.length > 0
+        ? [...load.stops]
+            .sort((a, b) => a.sequence - b.sequence)
+            .map((stop) => ({
+              stopType: stop.stopType,
+              city: stop.city,
+              address: str(stop.address),
+              latitude: num(stop.latitude),
+              longitude: num(stop.longitude),
+              dockHours: str(stop.dockHours),
+              weight: num(stop.weight),
+              contactName: str(stop.contactName),
+              contactPhone: str(stop.contactPhone),
+              notes: str(stop.notes),
+            }))
+        : undefined,
+  };
+}
+
+/**
+ * Load columns a template controls (everything except stops), prepared like
+ * POST /api/loads: prepareLoadFields plus the geohash columns.
+ *
+ * Pushed onto generated loads that have not been posted yet when the
+ * template is edited.
+ */
+export async function templateLoadData(template: LoadTemplate) {
+  const { fields } = await prepareLoadFields(template);
+  return { ...fields, ...(await resolveLoadGeohashes(fields)) };
+}
+
+/**
+ * Same rule as POST /api/loads: posting needs contact details unless
+ * anonymous
+ *
+ * @returns Error message, or null when the template may be posted
+ */
+export function validateTemplateContact(
+  template: Pick<
+    LoadTemplate,
+    "isAnonymous" | "shipperContactName" | "shipperContactPhone"
+  >,
+  postAs: LoadStatus
+): string | null {
+  if (
+    postAs === "POSTED" &&
+    !template.isAnonymous &&
+    (!template.shipperContactName || !template.shipperContactPhone)
+  ) {
+    return "Contact name and phone are required when posting to marketplace (unless anonymous)";
+  }
+  return null;
+}
+
+/**
+ * Build the create input for one occurrence of a schedule
+ */
+export function buildLoadFromTemplate(
+  template: LoadTemplate,
+  occurrence: Date,
+  deliveryOffsetDays: number,
+  status: "DRAFT" | "POSTED"
+): CreateLoadInput {
+  const pickupDate = toUtcDay(occurrence);
+  return {
+    ...template,
+    status,
+    pickupDate: pickupDate.toISOString(),
+    deliveryDate: addDays(pickupDate, deliveryOffsetDays).toISOString(),
+  };
+}
+
+/**
+ * Convert a stored schedule row to its recurrence rule
+ */
+export function getScheduleRule(
+  schedule: Pick<
+    LoadSchedule,
+    | "frequency"
+    | "interval"
+    | "daysOfWeek"
+    | "startDate"
+    | "endDate"
+    | "skippedDates"
+  >
+): ScheduleRule {
+  return {
+    frequency: schedule.frequency,
+    interval: schedule.interval,
+    daysOfWeek: schedule.daysOfWeek,
+    startDate: schedule.startDate,
+    endDate: schedule.endDate,
+    skippedDates: schedule.skippedDates,
+  };
+}
+
+/**
+ * Create and announce one load for an occurrence, like POST /api/loads
+ *
+ * @returns false when the occurrence already has a load
+ */
+async function createScheduledLoad(
+  schedule: LoadSchedule,
+  template: LoadTemplate,
+  occurrence: Date,
+  status: "DRAFT" | "POSTED"
+): Promise<boolean> {
+  const input = buildLoadFromTemplate(
+    template,
+    occurrence,
+    schedule.deliveryOffsetDays,
+    status
+  );
+  try {
+    const load = await createLoadFromInput(
+      input,
+      { shipperId: schedule.shipperId, userId: schedule.createdById },
+      {
+        scheduleId: schedule.id,
+        scheduledFor: toUtcDay(occurrence),
+        event: {
+          description: `Load generated from schedule "${schedule.name}"${
+            status === "POSTED" ? " and posted to marketplace" : " as draft"
+          }`,
+          metadata: {
+            scheduleId: schedule.id,
+            scheduledFor: occurrence.toISOString(),
+          },
+        },
+      }
+    );
+    await announceCreatedLoad(load, input);
+    return true;
+  } catch (error) {
+    // @@unique([scheduleId, scheduledFor]): a concurrent run got there first
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generate loads for every active schedule up to its lead-time horizon.
+ *
+ * Each schedule picks up after `generatedThrough` (or at its start date),
+ * never generates past occurrences, and is marked ENDED once its end date
+ * falls inside the horizon. POSTED schedules fall back to DRAFT while the
+ * shipper's wallet is below its minimum balance (blueprint §8).
+ */
+export async function generateScheduledLoads(
+  now: Date = new Date()
+): Promise<{ schedulesProcessed: number; loadsCreated: number }> {
+  const today = toUtcDay(now);
+  const schedules = await db.loadSchedule.findMany({
+    where: { status: "ACTIVE" },
+  });
+
+  let schedulesProcessed = 0;
+  let loadsCreated = 0;
+
+  for (const schedule of schedules) {
+    const parsed = loadTemplateSchema.safeParse(schedule.template);
+    if (!parsed.success) {
+      logger.warn("Skipping load schedule with invalid template", {
+        scheduleId: schedule.id,
+      });
+      continue;
+    }
+
+    const horizon = addDays(today, schedule.leadDays);
+    const resumeFrom = schedule.generatedThrough
+      ? addDays(toUtcDay(schedule.generatedThrough), 1)
+      : toUtcDay(schedule.startDate);
+    const from = resumeFrom > today ? resumeFrom : today;
+    const to =
+      schedule.endDate && toUtcDay(schedule.endDate) < horizon
+        ? toUtcDay(schedule.endDate)
+        : horizon;
+    const ended = schedule.endDate != null && to >= toUtcDay(schedule.endDate);
+    if (from > to) {
+      if (ended) {
+        await db.loadSchedule.update({
+          where: { id: schedule.id },
+          data: { status: "ENDED" },
+        });
+      }
+      continue;
+    }
+
+    let status: "DRAFT" | "POSTED" =
+      schedule.postAs === "POSTED" ? "POSTED" : "DRAFT";
+    if (status === "POSTED") {
+      const wallet = await db.financialAccount.findFirst({
+        where: { organizationId: schedule.shipperId, isActive: true },
+        select: { balance: true, minimumBalance: true },
+      });
+      if (wallet && wallet.balance < wallet.minimumBalance) {
+        logger.warn(
+          "Scheduled loads generated as drafts: wallet below minimum",
+          {
+            scheduleId: schedule.id,
+          }
+        );
+        status = "DRAFT";
+      }
+    }
+
+    const occurrences = getOccurrenceDates(getScheduleRule(schedule), from, to);
+    for (const occurrence of occurrences) {
+      if (
+        await createScheduledLoad(schedule, parsed.data, occurrence, status)
+      ) {
+        loadsCreated++;
+      }
+    }
+
+    await db.loadSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        generatedThrough: to,
+        ...(ended && { status: "ENDED" }),
+      },
+    });
+    schedulesProcessed++;
+  }
+
+  if (loadsCreated > 0) {
+    await CacheInvalidation.allListings();
+    logger.info("Generated scheduled loads", {
+      schedulesProcessed,
+      loadsCreated,
+    });
+  }
+
+  return { schedulesProcessed, loadsCreated };
+}
@@ -0,0 +1,339 @@
+/**
+ * Multi-Stop Load Utilities
+ *
+ * A load may carry an ordered stop sequence (PICKUP / DROPOFF) instead of a
+ * single pickup and delivery. Distribution runs out of Addis Ababa post one
+ * load with several drops rather than several separate loads.
+ *
+ * Conventions:
+ * - Stops are stored in LoadStop with a 1-based `sequence`
+ * - The first stop is always a PICKUP, the last always a DROPOFF
+ * - Load.pickup* / Load.delivery* keep mirroring the first and last stop so
+ *   single-stop consumers (matching, fees, load board) keep working
+ * - Arrival/departure timestamps live on the stop and are reset whenever a
+ *   new trip is created for the load
+ */
+
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { calculateDistanceKm } from "@/lib/geo";
+
+/** Geofence radius for stop arrival (matches isWithinGeofence default) */
+export const STOP_ARRIVAL_RADIUS_M = 500;
+
+/**
+ * Distance the truck must leave a stop by before departure is recorded.
+ * Larger than the arrival radius so GPS jitter at the dock does not
+ * flip a stop between arrived and departed.
+ */
+export const STOP_DEPARTURE_RADIUS_M = 1000;
+
+/** Maximum number of stops on a single load */
+export const MAX_LOAD_STOPS = 20;
+
+export const loadStopInputSchema = z
+  .object({
+    stopType: z.enum(["PICKUP", "DROPOFF"]),
+    city: z.string().min(2).max(200),
+    address: z.string().max(500).optional(),
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional(),
+    dockHours: z.string().max(100).optional(),
+    appointmentStart: z.string().optional(),
+    appointmentEnd: z.string().optional(),
+    weight: z.number().positive().max(50000).optional(),
+    contactName: z.string().max(100).optional(),
+    contactPhone: z.string().max(20).optional(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine(
+    (stop) =>
+      !stop.appointmentStart ||
+      !stop.appointmentEnd ||
+      new Date(stop.appointmentStart) <= new Date(stop.appointmentEnd),
+    {
+      message: "Appointment window must end after it starts",
+      path: ["appointmentEnd"],
+    }
+  );
+
+export type LoadStopInput = z.infer<typeof loadStopInputSchema>;
+
+/**
+ * Stop sequence schema used by POST /api/loads.
+ *
+ * Array order is the route order; `sequence` is assigned server-side.
+ */
+export const loadStopsSchema = z
+  .array(loadStopInputSchema)
+  .min(2, "A multi-stop load needs at least 2 stops")
+  .max(MAX_LOAD_STOPS)
+  .refine((stops) => stops[0]?.stopType === "PICKUP", {
+    message: "The first stop must be a PICKUP",
+  })
+  .refine((stops) => stops[stops.length - 1]?.stopType === "DROPOFF", {
+    message: "The last stop must be a DROPOFF",
+  });
+
+/**
+ * Minimal stop shape used by progress/geofence helpers.
+ * Works with both Prisma rows (Decimal coords) and plain objects.
+ */
+export interface StopPoint {
+  id: string;
+  sequence: number;
+  stopType: string;
+  latitude: Prisma.Decimal | number | null;
+  longitude: Prisma.Decimal | number | null;
+  arrivedAt: Date | null;
+  departedAt: Date | null;
+}
+
+/**
+ * Check per-stop weights against the load weight.
+ *
+ * Weights are optional per stop. When given, the total picked up may not
+ * exceed the load weight, and at no point may the truck drop more than it
+ * has picked up so far.
+ *
+ * @returns Error message, or null when the weights are consistent
+ */
+export function validateStopWeights(
+  stops: Pick<LoadStopInput, "stopType" | "weight">[],
+  loadWeightKg: number
+): string | null {
+  let onBoard = 0;
+  let pickedUp = 0;
+
+  for (const [index, stop] of stops.entries()) {
+    if (stop.weight == null) continue;
+    if (stop.stopType === "PICKUP") {
+      pickedUp += stop.weight;
+      onBoard += stop.weight;
+    } else {
+      onBoard -= stop.weight;
+      if (onBoard < 0) {
+        return `Stop ${index + 1} drops more weight than is on board`;
+      }
+    }
+  }
+
+  if (pickedUp > loadWeightKg) {
+    return "Total pickup weight exceeds the load weight";
+  }
+
+  return null;
+}
+
+/**
+ * Fill in missing stop coordinates from EthiopianLocation by city name.
+ *
+ * Stops that already carry coordinates are left untouched.
+ */
+export async function resolveStopLocations(
+  stops: LoadStopInput[]
+): Promise<(LoadStopInput & { cityId: string | null })[]> {
+  const names = Array.from(
+    new Set(
+      stops
+        .filter((s) => s.latitude == null || s.longitude == null)
+        .map((s) => s.city)
+    )
+  );
+
+  const locations =
+    names.length > 0
+      ? await db.ethiopianLocation.findMany({
+          where: {
+            isActive: true,
+            OR: names.map((name) => ({
+              name: { equals: name, mode: "insensitive" as const },
+            })),
+          },
+          select: { id: true, name: true, latitude: true, longitude: true },
+        })
+      : [];
+
+  const byName = new Map(locations.map((loc) => [loc.name.toLowerCase(), loc]));
+
+  return stops.map((stop) => {
+    const loc = byName.get(stop.city.toLowerCase());
+    return {
+      ...stop,
+      cityId: loc?.id ?? null,
+      latitude: stop.latitude ?? (loc ? Number(loc.latitude) : undefined),
+      longitude: stop.longitude ?? (loc ? Number(loc.longitude) : undefined),
+    };
+  });
+}
+
+/**
+ * Build LoadStop rows for createMany.
+ */
+export function buildStopRows(
+  loadId: string,
+  stops: (LoadStopInput & { cityId?: string | null })[]
+): Prisma.LoadStopCreateManyInput[] {
+  return stops.map((stop, index) => ({
+    loadId,
+    sequence: index + 1,
+    stopType: stop.stopType,
+    city: stop.city,
+    cityId: stop.cityId ?? null,
+    address: stop.address ?? null,
+    latitude: stop.latitude ?? null,
+    longitude: stop.longitude ?? null,
+    dockHours: stop.dockHours ?? null,
+    appointmentStart: stop.appointmentStart
+      ? new Date(stop.appointmentStart)
+      : null,
+    appointmentEnd: stop.appointmentEnd ? new Date(stop.appointmentEnd) : null,
+    weight: stop.weight ?? null,
+    contactName: stop.contactName ?? null,
+    contactPhone: stop.contactPhone ?? null,
+    notes: stop.notes ?? null,
+  }));
+}
+
+/**
+ * Get a load's stops in route order (empty array for single-stop loads)
+ */
+export async function getOrderedStops(loadId: string) {
+  return db.loadStop.findMany({
+    where: { loadId },
+    orderBy: { sequence: "asc" },
+  });
+}
+
+/**
+ * First stop the truck has not yet departed from, in route order.
+ *
+ * Returns null once every stop is complete.
+ */
+export function getNextPendingStop<T extends StopPoint>(stops: T[]): T | null {
+  const ordered = [...stops].sort((a, b) => a.sequence - b.sequence);
+  return ordered.find((stop) => !stop.departedAt) ?? null;
+}
+
+/**
+ * Convert a stop's coordinates to numbers (null when missing)
+ */
+export function getStopCoordinates(
+  stop: Pick<StopPoint, "latitude" | "longitude">
+): { lat: number; lon: number } | null {
+  if (stop.latitude == null || stop.longitude == null) return null;
+  return { lat: Number(stop.latitude), lon: Number(stop.longitude) };
+}
+
+/**
+ * Straight-line length of each leg between consecutive stops (km).
+ *
+ * Legs with a stop missing coordinates count as 0.
+ */
+export function calculateStopLegsKm(
+  stops: Pick<StopPoint, "sequence" | "latitude" | "longitude">[]
+): number[] {
+  const ordered = [...stops].sort((a, b) => a.sequence - b.sequence);
+  const legs: number[] = [];
+
+  for (let i = 1; i < ordered.length; i++) {
+    const from = getStopCoordinates(ordered[i - 1]);
+    const to = getStopCoordinates(ordered[i]);
+    legs.push(
+      from && to ? calculateDistanceKm(from.lat, from.lon, to.lat, to.lon) : 0
+    );
+  }
+
+  return legs;
+}
+
+/**
+ * Total straight-line route length through every stop (km)
+ */
+export function calculateStopRouteKm(
+  stops: Pick<StopPoint, "sequence" | "latitude" | "longitude">[]
+): number {
+  return calculateStopLegsKm(stops).reduce((sum, leg) => sum + leg, 0);
+}
+
+/**
+ * Clear arrival/departure timestamps for a load's stops.
+ *
+ * Called when a new trip is created so a re-booked load does not inherit
+ * progress from a cancelled trip.
+ *
+ * @param tx - Transaction the trip is created in, if any
+ */
+export async function resetStopExecution(
+  loadId: string,
+  tx: Prisma.TransactionClient | typeof db = db
+): Promise<void> {
+  await tx.loadStop.updateMany({
+    where: { loadId },
+    data: { arrivedAt: null, departedAt: null },
+  });
+}
+
+/**
+ * Record arrival at a stop. Idempotent: an existing arrival is kept.
+ *
+ * @returns true if this call recorded the arrival
+ */
+export async function recordStopArrival(
+  stopId: string,
+  at: Date = new Date()
+): Promise<boolean> {
+  const result = await db.loadStop.updateMany({
+    where: { id: stopId, arrivedAt: null },
+    data: { arrivedAt: at },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Record departure from a stop. Requires a prior arrival; an existing
+ * departure is kept.
+ *
+ * @returns true if this call recorded the departure
+ */
+export async function recordStopDeparture(
+  stopId: string,
+  at: Date = new Date()
+): Promise<boolean> {
+  const result = await db.loadStop.updateMany({
+    where: { id: stopId, arrivedAt: { not: null }, departedAt: null },
+    data: { departedAt: at },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Close the final stop when the trip is delivered: departure (and arrival,
+ * if the geofence never recorded it) is set to the delivery time. Departure
+ * from the final stop is not recorded otherwise.
+ *
+ * No-op for single-stop loads.
+ *
+ * @param tx - Transaction the delivery is recorded in, if any
+ */
+export async function completeFinalStop(
+  loadId: string,
+  at: Date = new Date(),
+  tx: Prisma.TransactionClient | typeof db = db
+): Promise<void> {
+  const stops = await tx.loadStop.findMany({
+    where: { loadId },
+    select: { id: true, sequence: true, arrivedAt: true, departedAt: true },
+  });
+  const final = stops.reduce<(typeof stops)[number] | null>(
+    (last, stop) => (!last || stop.sequence > last.sequence ? stop : last),
+    null
+  );
+  if (!final || final.departedAt) return;
+
+  await tx.loadStop.update({
+    where: { id: final.id },
+    data: { arrivedAt: final.arrivedAt ?? at, departedAt: at },
+  });
+}
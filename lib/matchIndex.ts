@@ -0,0 +1,400 @@
+/**
+ * Match Index
+ *
+ * Persisted load ↔ truck posting matches (MatchIndexEntry), so load board
+ * match counts and match lists read stored scores instead of running the
+ * matching engine over every candidate on each render.
+ *
+ * The index is kept up to date incrementally: callers refresh a load's
+ * entries when it is created, edited, expired or assigned
+ * (refreshLoadMatches), and a truck's posting entries when a posting or
+ * the truck changes (refreshPostingMatches, refreshTruckMatches). New match
+ * weights re-score a shipper's loads (refreshShipperMatches) or the whole
+ * index (rebuildMatchIndex). A load or posting that is no longer open simply
+ * loses its entries, and only pairs scoring MATCH_INDEX_MIN_SCORE or more
+ * are stored. The expire-loads and expire-postings crons sweep anything
+ * left behind (removeStaleMatches), and readers still filter on the
+ * current load and posting status.
+ *
+ * Pairs are only stored for loads the posting's carrier may see (private
+ * load boards, lib/carrierNetworks.ts): network loads are matched with
+ * network members' postings until they open to every carrier.
+ *
+ * Scores are symmetric (findMatchingLoads and findMatchingTrucks score a
+ * pair the same way with the shipper's weights), so one entry serves both
+ * the carrier and the shipper side.
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { withinRadius } from "@/lib/geoIndex";
+import {
+  findMatchingLoads,
+  findMatchingTrucks,
+  MATCH_SEARCH_RADIUS_KM,
+} from "@/lib/matchingEngine";
+import { getMatchWeightsFor } from "@/lib/matchWeights";
+import {
+  getNetworkCarrierIds,
+  getNetworkShipperIds,
+  isLoadPublic,
+  isLoadVisible,
+} from "@/lib/carrierNetworks";
+
+/** Pairs scoring below this are not stored (the load board threshold) */
+export const MATCH_INDEX_MIN_SCORE = 50;
+
+/** Load statuses carriers can still be matched with */
+export const MATCHABLE_LOAD_STATUSES = [
+  "POSTED",
+  "SEARCHING",
+  "OFFERED",
+] as const;
+
+/** Candidates scored per refresh, as the load board routes did */
+const MAX_CANDIDATES = 500;
+
+const indexLoadSelect = {
+  id: true,
+  status: true,
+  pickupCity: true,
+  deliveryCity: true,
+  pickupDate: true,
+  truckType: true,
+  weight: true,
+  lengthM: true,
+  fullPartial: true,
+  shipperId: true,
+  tenderRank: true,
+  visibility: true,
+  publicAt: true,
+  pickupLocation: { select: { latitude: true, longitude: true } },
+  deliveryLocation: { select: { latitude: true, longitude: true } },
+} satisfies Prisma.LoadSelect;
+
+const indexPostingInclude = {
+  originCity: { select: { name: true, latitude: true, longitude: true } },
+  destinationCity: { select: { name: true, latitude: true, longitude: true } },
+  truck: { select: { truckType: true } },
+} satisfies Prisma.TruckPostingInclude;
+
+type IndexLoad = Prisma.LoadGetPayload<{ select: typeof indexLoadSelect }>;
+type IndexPosting = Prisma.TruckPostingGetPayload<{
+  include: typeof indexPostingInclude;
+}>;
+
+/**
+ * Loads without cities or a truck type cannot be matched, nor loads still
+ * out to routing guide carriers (lib/routingGuides.ts)
+ */
+function isMatchable(load: IndexLoad): boolean {
+  return (
+    (MATCHABLE_LOAD_STATUSES as readonly string[]).includes(load.status) &&
+    load.tenderRank == null &&
+    !!load.pickupCity &&
+    !!load.deliveryCity &&
+    !!load.truckType
+  );
+}
+
+function toLoadCriteria(load: IndexLoad) {
+  return {
+    id: load.id,
+    pickupCity: load.pickupCity!,
+    pickupCityLat: load.pickupLocation
+      ? Number(load.pickupLocation.latitude)
+      : null,
+    pickupCityLon: load.pickupLocation
+      ? Number(load.pickupLocation.longitude)
+      : null,
+    deliveryCity: load.deliveryCity!,
+    deliveryCityLat: load.deliveryLocation
+      ? Number(load.deliveryLocation.latitude)
+      : null,
+    deliveryCityLon: load.deliveryLocation
+      ? Number(load.deliveryLocation.longitude)
+      : null,
+    pickupDate: load.pickupDate,
+    truckType: load.truckType,
+    weight: load.weight ? Number(load.weight) : null,
+    lengthM: load.lengthM ? Number(load.lengthM) : null,
+    fullPartial: load.fullPartial,
+    shipperId: load.shipperId,
+  };
+}
+
+function toTruckCriteria(posting: IndexPosting) {
+  return {
+    id: posting.id,
+    currentCity: posting.originCity?.name || "",
+    currentCityLat: posting.originCity
+      ? Number(posting.originCity.latitude)
+      : null,
+    currentCityLon: posting.originCity
+      ? Number(posting.originCity.longitude)
+      : null,
+    destinationCity: posting.destinationCity?.name || null,
+    destinationCityLat: posting.destinationCity
+      ? Number(posting.destinationCity.latitude)
+      : null,
+    destinationCityLon: posting.destinationCity
+      ? Number(posting.destinationCity.longitude)
+      : null,
+    truckType: posting.truck?.truckType || "",
+    maxWeight: posting.availableWeight ? Number(posting.availableWeight) : null,
+    lengthM: posting.availableLength ? Number(posting.availableLength) : null,
+    fullPartial: posting.fullPartial,
+    availableDate: posting.availableFrom,
+  };
+}
+
+interface ScoredPair {
+  loadId: string;
+  truckPostingId: string;
+  matchScore: number;
+  isExactMatch: boolean;
+  dhOriginKm: number;
+  matchReasons: string[];
+  weightProfileId: string | null;
+  weightVersion: number;
+}
+
+function toEntry(pair: ScoredPair): Prisma.MatchIndexEntryCreateManyInput {
+  return {
+    loadId: pair.loadId,
+    truckPostingId: pair.truckPostingId,
+    score: pair.matchScore,
+    isExactMatch: pair.isExactMatch,
+    dhOriginKm: pair.dhOriginKm,
+    matchReasons: pair.matchReasons,
+    weightProfileId: pair.weightProfileId,
+    weightVersion: pair.weightVersion,
+  };
+}
+
+/**
+ * Recompute a load's matches with every active truck posting
+ *
+ * A load that is missing or no longer open loses its entries. Never throws:
+ * the index is refreshed after the load change has been saved, so a failure
+ * is logged and the stale entries are left for the crons.
+ *
+ * @returns Number of entries stored, or null when the refresh failed
+ */
+export async function refreshLoadMatches(
+  loadId: string
+): Promise<number | null> {
+  try {
+    const load = await db.load.findUnique({
+      where: { id: loadId },
+      select: indexLoadSelect,
+    });
+    if (!load || !isMatchable(load)) {
+      await db.matchIndexEntry.deleteMany({ where: { loadId } });
+      return 0;
+    }
+
+    // Private load board: network loads match network members only
+    const carrierIds = isLoadPublic(load)
+      ? undefined
+      : await getNetworkCarrierIds(load.shipperId);
+
+    const [postings, weightsFor] = await Promise.all([
+      db.truckPosting.findMany({
+        where: {
+          status: "ACTIVE",
+          ...(carrierIds && { carrierId: { in: carrierIds } }),
+          ...(load.pickupLocation &&
+            withinRadius(
+              "originGeohash",
+              Number(load.pickupLocation.latitude),
+              Number(load.pickupLocation.longitude),
+              MATCH_SEARCH_RADIUS_KM
+            )),
+        },
+        include: indexPostingInclude,
+        take: MAX_CANDIDATES,
+      }),
+      getMatchWeightsFor([load.shipperId]),
+    ]);
+
+    const matches = findMatchingTrucks(
+      toLoadCriteria(load),
+      postings.map(toTruckCriteria),
+      MATCH_INDEX_MIN_SCORE,
+      weightsFor
+    );
+    const entries = matches.map((match) =>
+      toEntry({ ...match, loadId, truckPostingId: match.id })
+    );
+
+    await db.$transaction([
+      db.matchIndexEntry.deleteMany({ where: { loadId } }),
+      db.matchIndexEntry.createMany({ data: entries }),
+    ]);
+    return entries.length;
+  } catch (error) {
+    logger.error("Match index refresh failed", error, { loadId });
+    return null;
+  }
+}
+
+/**
+ * Recompute a truck posting's matches with every open load
+ *
+ * A posting that is missing or no longer ACTIVE loses its entries. Never
+ * throws, like refreshLoadMatches.
+ *
+ * @returns Number of entries stored, or null when the refresh failed
+ */
+export async function refreshPostingMatches(
+  truckPostingId: string
+): Promise<number | null> {
+  try {
+    const posting = await db.truckPosting.findUnique({
+      where: { id: truckPostingId },
+      include: indexPostingInclude,
+    });
+    if (!posting || posting.status !== "ACTIVE") {
+      await db.matchIndexEntry.deleteMany({ where: { truckPostingId } });
+      return 0;
+    }
+
+    // Private load board: only loads the posting's carrier may see
+    const networkShipperIds = await getNetworkShipperIds(posting.carrierId);
+    const loads = (
+      await db.load.findMany({
+        where: {
+          status: { in: [...MATCHABLE_LOAD_STATUSES] },
+          ...(posting.originCity &&
+            withinRadius(
+              "originGeohash",
+              Number(posting.originCity.latitude),
+              Number(posting.originCity.longitude),
+              MATCH_SEARCH_RADIUS_KM
+            )),
+        },
+        select: indexLoadSelect,
+        take: MAX_CANDIDATES,
+      })
+    ).filter((l) => isMatchable(l) && isLoadVisible(l, networkShipperIds));
+    const weightsFor = await getMatchWeightsFor(loads.map((l) => l.shipperId));
+
+    const matches = findMatchingLoads(
+      toTruckCriteria(posting),
+      loads.map(toLoadCriteria),
+      MATCH_INDEX_MIN_SCORE,
+      weightsFor
+    );
+    const entries = matches.map((match) =>
+      toEntry({ ...match, loadId: match.id, truckPostingId })
+    );
+
+    await db.$transaction([
+      db.matchIndexEntry.deleteMany({ where: { truckPostingId } }),
+      db.matchIndexEntry.createMany({ data: entries }),
+    ]);
+    return entries.length;
+  } catch (error) {
+    logger.error("Match index refresh failed", error, { truckPostingId });
+    return null;
+  }
+}
+
+/**
+ * Recompute the matches of a truck's postings
+ *
+ * For changes made through the truck rather than a single posting: the
+ * truck being assigned or freed (postings turn MATCHED or back to ACTIVE)
+ * and edits to its type or capacity. Never throws, like refreshLoadMatches.
+ */
+export async function refreshTruckMatches(truckId: string): Promise<void> {
+  try {
+    const postings = await db.truckPosting.findMany({
+      where: {
+        truckId,
+        OR: [{ status: "ACTIVE" }, { matchIndexEntries: { some: {} } }],
+      },
+      select: { id: true },
+    });
+    for (const posting of postings) {
+      await refreshPostingMatches(posting.id);
+    }
+  } catch (error) {
+    logger.error("Match index refresh failed", error, { truckId });
+  }
+}
+
+/**
+ * Recompute the matches of a shipper's open loads
+ *
+ * For a shipper saving or removing a match weight override. Never throws,
+ * like refreshLoadMatches.
+ */
+export async function refreshShipperMatches(shipperId: string): Promise<void> {
+  try {
+    const loads = await db.load.findMany({
+      where: { shipperId, status: { in: [...MATCHABLE_LOAD_STATUSES] } },
+      select: { id: true },
+    });
+    for (const load of loads) {
+      await refreshLoadMatches(load.id);
+    }
+  } catch (error) {
+    logger.error("Match index refresh failed", error, { shipperId });
+  }
+}
+
+/**
+ * Recompute the whole index, posting by posting
+ *
+ * For changes that move every score, such as new platform match weights.
+ */
+export async function rebuildMatchIndex(): Promise<{ entryCount: number }> {
+  const postings = await db.truckPosting.findMany({
+    where: { status: "ACTIVE" },
+    select: { id: true },
+  });
+
+  let entryCount = 0;
+  for (const posting of postings) {
+    entryCount += (await refreshPostingMatches(posting.id)) ?? 0;
+  }
+  return { entryCount };
+}
+
+/**
+ * Remove entries whose load is no longer open or whose posting is no
+ * longer ACTIVE. Run by the expire-loads and expire-postings crons.
+ */
+export async function removeStaleMatches(): Promise<{ removedCount: number }> {
+  const [staleLoads, stalePostings] = await Promise.all([
+    db.load.findMany({
+      where: {
+        status: { notIn: [...MATCHABLE_LOAD_STATUSES] },
+        matchIndexEntries: { some: {} },
+      },
+      select: { id: true },
+    }),
+    db.truckPosting.findMany({
+      where: { status: { not: "ACTIVE" }, matchIndexEntries: { some: {} } },
+      select: { id: true },
+    }),
+  ]);
+
+  let removedCount = 0;
+  if (staleLoads.length > 0) {
+    const { count } = await db.matchIndexEntry.deleteMany({
+      where: { loadId: { in: staleLoads.map((l) => l.id) } },
+    });
+    removedCount += count;
+  }
+  if (stalePostings.length > 0) {
+    const { count } = await db.matchIndexEntry.deleteMany({
+      where: { truckPostingId: { in: stalePostings.map((p) => p.id) } },
+    });
+    removedCount += count;
+  }
+  return { removedCount };
+}
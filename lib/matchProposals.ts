@@ -0,0 +1,271 @@
+/**
+ * Match Proposals
+ *
+ * Phase 2 - Foundation Rule: DISPATCHER_COORDINATION_ONLY
+ *
+ * Creates dispatcher match proposals. The carrier must approve before the
+ * load is assigned. Shared by POST /api/match-proposals and the bulk
+ * assignment plan endpoint (lib/assignmentOptimizer.ts), so every proposal
+ * passes the same load, truck, wallet, insurance and capacity checks.
+ *
+ * Callers check canProposeMatch() first.
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { createNotification } from "@/lib/notifications";
+import { CacheInvalidation } from "@/lib/cache";
+import {
+  checkTruckCanTakeLoad,
+  consolidationErrorMessage,
+} from "@/lib/loadConsolidation";
+
+/** Load statuses a dispatcher may propose a truck for */
+export const PROPOSABLE_LOAD_STATUSES = ["POSTED", "SEARCHING", "OFFERED"];
+
+export interface MatchProposalInput {
+  loadId: string;
+  truckId: string;
+  notes?: string;
+  proposedRate?: number;
+  expiresInHours: number;
+}
+
+export type MatchProposalResult =
+  | { proposal: Awaited<ReturnType<typeof insertProposal>> }
+  | { error: string; status: number; hint?: string };
+
+/**
+ * Validate a load-truck pair and create a PENDING proposal, notifying the
+ * carrier's and shipper's users.
+ */
+export async function createMatchProposal(
+  data: MatchProposalInput,
+  proposedById: string
+): Promise<MatchProposalResult> {
+  // Validate load exists and is in a proposable state
+  const load = await db.load.findUnique({
+    where: { id: data.loadId },
+    select: {
+      id: true,
+      status: true,
+      shipperId: true,
+      assignedTruckId: true,
+      weight: true,
+      volume: true,
+      fullPartial: true,
+    },
+  });
+
+  if (!load) {
+    return { error: "Load not found", status: 404 };
+  }
+
+  // Only allow proposals for loads that are not yet assigned
+  if (!PROPOSABLE_LOAD_STATUSES.includes(load.status)) {
+    return {
+      error: `Cannot propose match for load with status ${load.status}`,
+      status: 400,
+      hint: "Load must be in POSTED, SEARCHING, or OFFERED status",
+    };
+  }
+
+  if (load.assignedTruckId) {
+    return { error: "Load is already assigned to a truck", status: 400 };
+  }
+
+  // Validate truck exists and is available
+  const truck = await db.truck.findUnique({
+    where: { id: data.truckId },
+    select: {
+      id: true,
+      carrierId: true,
+      isAvailable: true,
+      licensePlate: true,
+      approvalStatus: true,
+      insuranceStatus: true,
+    },
+  });
+
+  if (!truck) {
+    return { error: "Truck not found", status: 404 };
+  }
+
+  // Only approved trucks can be proposed for matches
+  if (truck.approvalStatus !== "APPROVED") {
+    return {
+      error: "Only approved trucks can be proposed for matches",
+      status: 400,
+    };
+  }
+
+  // Truck must be available
+  if (!truck.isAvailable) {
+    return { error: "Truck is not currently available", status: 400 };
+  }
+
+  // §8 Wallet gate — carrier being proposed to must meet minimum balance ("cannot be requested" if below)
+  const carrierWallet = await db.financialAccount.findFirst({
+    where: { organizationId: truck.carrierId, isActive: true },
+    select: { balance: true, minimumBalance: true },
+  });
+  if (carrierWallet && carrierWallet.balance < carrierWallet.minimumBalance) {
+    return {
+      error:
+        "Carrier's wallet balance is below minimum for marketplace activity",
+      status: 402,
+    };
+  }
+
+  // Insurance gate — truck must have valid insurance to be proposed
+  if (!["VALID", "EXPIRING"].includes(truck.insuranceStatus ?? "MISSING")) {
+    return {
+      error: "Truck insurance has expired or is missing. Cannot propose match.",
+      status: 400,
+    };
+  }
+
+  // G-M17-4: Reject proposals for trucks already on an active trip,
+  // unless the load is PARTIAL and fits the truck's remaining capacity
+  const { fit } = await checkTruckCanTakeLoad(data.truckId, load);
+  if (!fit.ok) {
+    return { error: consolidationErrorMessage(fit.reason), status: 409 };
+  }
+
+  // Check if there's already a pending proposal for this load-truck pair
+  const existingProposal = await db.matchProposal.findFirst({
+    where: {
+      loadId: data.loadId,
+      truckId: data.truckId,
+      status: "PENDING",
+    },
+  });
+
+  if (existingProposal) {
+    // H10 FIX: Don't leak proposal ID in error response
+    return {
+      error: "A pending proposal already exists for this load-truck pair",
+      status: 409,
+    };
+  }
+
+  // Calculate expiration time
+  const expiresAt = new Date();
+  expiresAt.setHours(expiresAt.getHours() + data.expiresInHours);
+
+  // Create the proposal
+  // G-M14-3: Partial unique index enforces one PENDING per (loadId, truckId)
+  let proposal;
+  try {
+    proposal = await insertProposal(
+      data,
+      truck.carrierId,
+      proposedById,
+      expiresAt
+    );
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return {
+        error: "A pending request already exists for this load and truck",
+        status: 409,
+      };
+    }
+    throw error;
+  }
+
+  // Notify carrier users about the proposal
+  const carrierUsers = await db.user.findMany({
+    where: { organizationId: truck.carrierId, status: "ACTIVE" },
+    select: { id: true },
+  });
+
+  await Promise.all(
+    carrierUsers.map((user) =>
+      createNotification({
+        userId: user.id,
+        type: "MATCH_PROPOSAL",
+        title: "New Load Match Proposal",
+        message: `A dispatcher has proposed truck ${proposal.truck.licensePlate} for a load from ${proposal.load.pickupCity} to ${proposal.load.deliveryCity}`,
+        metadata: {
+          proposalId: proposal.id,
+          loadId: proposal.loadId,
+          truckId: proposal.truckId,
+        },
+      })
+    )
+  );
+
+  // Notify shipper org too — dispatcher proposed a match for their load
+  if (load.shipperId) {
+    const shipperUsers = await db.user.findMany({
+      where: { organizationId: load.shipperId, status: "ACTIVE" },
+      select: { id: true },
+    });
+    await Promise.all(
+      shipperUsers.map((u) =>
+        createNotification({
+          userId: u.id,
+          type: "MATCH_PROPOSAL",
+          title: "Truck Matched to Your Load",
+          message: `A dispatcher has matched truck ${proposal.truck.licensePlate} to your load from ${proposal.load.pickupCity} to ${proposal.load.deliveryCity}`,
+          metadata: {
+            proposalId: proposal.id,
+            loadId: proposal.loadId,
+            truckId: proposal.truckId,
+          },
+        })
+      )
+    );
+  }
+
+  // Fix 8b: Cache invalidation after match proposal creation
+  await CacheInvalidation.load(data.loadId);
+
+  return { proposal };
+}
+
+function insertProposal(
+  data: MatchProposalInput,
+  carrierId: string,
+  proposedById: string,
+  expiresAt: Date
+) {
+  return db.matchProposal.create({
+    data: {
+      loadId: data.loadId,
+      truckId: data.truckId,
+      carrierId,
+      proposedById,
+      notes: data.notes,
+      proposedRate: data.proposedRate,
+      expiresAt,
+      status: "PENDING",
+    },
+    include: {
+      load: {
+        select: {
+          pickupCity: true,
+          deliveryCity: true,
+          pickupDate: true,
+          weight: true,
+          truckType: true,
+        },
+      },
+      truck: {
+        select: {
+          licensePlate: true,
+          truckType: true,
+          capacity: true,
+        },
+      },
+      carrier: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  });
+}
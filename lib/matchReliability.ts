@@ -0,0 +1,249 @@
+/**
+ * Carrier Reliability for Match Scoring
+ *
+ * Rates how safe it is to hand a load to a truck, as the reliability factor
+ * of the match score (lib/matchWeights.ts). It combines:
+ * - Carrier trust score (lib/trustMetrics.ts): completion, cancellation,
+ *   dispute rates, ratings and verification - 50%
+ * - Truck insurance validity (Truck.insuranceStatus, kept current by
+ *   lib/insuranceValidation.ts) - 30%
+ * - GPS health (device status and last signal) - 20%
+ *
+ * Flagged carriers rate 0. Carriers with no completed or cancelled loads get
+ * a neutral trust score so new carriers are not ranked as unreliable.
+ *
+ * Loads marked isInsured, or whose declared value is at least
+ * HIGH_VALUE_CARGO_ETB, need cargo cover: trucks without an approved CARGO or
+ * COMPREHENSIVE policy (on the truck or the carrier) big enough for the load
+ * keep at most INSURANCE_WITHOUT_CARGO_COVER of the insurance rating.
+ */
+
+import { GpsDeviceStatus, InsuranceCoverageType, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { getGpsStatusIndicator } from "@/lib/gpsUtils";
+import { InsuranceValidationResult } from "@/lib/insuranceValidation";
+import { computeTrustScore, TRUST_SCORE_SELECT } from "@/lib/trustMetrics";
+
+/** Declared cargo value (ETB) from which a load needs cargo cover */
+export const HIGH_VALUE_CARGO_ETB = 1_000_000;
+
+/** Policy types that cover the goods being hauled */
+export const CARGO_COVERAGE_TYPES: InsuranceCoverageType[] = [
+  "CARGO",
+  "COMPREHENSIVE",
+];
+
+/** Trust score used for carriers with no load history */
+const NEUTRAL_TRUST_SCORE = 50;
+
+/** Insurance rating cap when a load needs cargo cover the truck lacks */
+const INSURANCE_WITHOUT_CARGO_COVER = 40;
+
+export interface ReliabilityTruck {
+  truckId: string;
+  carrierId: string;
+  insuranceStatus: string;
+  gpsStatus: GpsDeviceStatus | null;
+  gpsLastSeenAt: Date | null;
+}
+
+export interface ReliabilityLoad {
+  isInsured: boolean;
+  insuranceCoverageAmount: Prisma.Decimal | number | null;
+}
+
+export interface TruckReliability {
+  score: number; // 0-100
+  trustScore: number; // 0-100, neutral for carriers with no history
+  flagged: boolean;
+  insured: boolean; // VALID or EXPIRING insurance
+  gpsActive: boolean;
+  cargoCoverage: boolean | null; // null when the load needs no cargo cover
+}
+
+/**
+ * Whether a load should go to a carrier with cargo insurance
+ */
+export function needsCargoCoverage(load: ReliabilityLoad): boolean {
+  return (
+    load.isInsured ||
+    Number(load.insuranceCoverageAmount ?? 0) >= HIGH_VALUE_CARGO_ETB
+  );
+}
+
+/**
+ * Whether a truck's insurance status allows it to haul (EXPIRING is still
+ * valid, see lib/insuranceValidation.ts)
+ */
+export function isInsuranceValid(insuranceStatus: string): boolean {
+  const valid: Array<InsuranceValidationResult["status"]> = [
+    "VALID",
+    "EXPIRING",
+  ];
+  return valid.includes(insuranceStatus as InsuranceValidationResult["status"]);
+}
+
+/**
+ * Whether a truck's GPS device is active and reported in the last 30 minutes
+ */
+export function isGpsActive(
+  gpsStatus: GpsDeviceStatus | null,
+  gpsLastSeenAt: Date | null
+): boolean {
+  if (gpsStatus !== "ACTIVE") return false;
+  const { color } = getGpsStatusIndicator(gpsLastSeenAt);
+  return color === "GREEN" || color === "YELLOW";
+}
+
+function rateInsurance(
+  insuranceStatus: string,
+  cargoCoverage: boolean | null
+): number {
+  const rating =
+    insuranceStatus === "VALID" ? 100 : insuranceStatus === "EXPIRING" ? 70 : 0;
+  return cargoCoverage === false
+    ? Math.min(rating, INSURANCE_WITHOUT_CARGO_COVER)
+    : rating;
+}
+
+function rateGps(
+  gpsStatus: GpsDeviceStatus | null,
+  gpsLastSeenAt: Date | null
+): number {
+  if (gpsStatus !== "ACTIVE") return 0;
+  switch (getGpsStatusIndicator(gpsLastSeenAt).color) {
+    case "GREEN":
+      return 100;
+    case "YELLOW":
+      return 70;
+    case "RED":
+      return 30;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Rate trucks' reliability for a load in a few batched queries.
+ *
+ * @param trucks - Trucks being ranked, with their carrier
+ * @param load - The load; decides whether cargo cover is required
+ * @returns Reliability per truckId (trucks whose carrier is missing are
+ *          left out)
+ */
+export async function getTruckReliability(
+  trucks: ReliabilityTruck[],
+  load?: ReliabilityLoad | null
+): Promise<Map<string, TruckReliability>> {
+  const result = new Map<string, TruckReliability>();
+  if (trucks.length === 0) return result;
+
+  const carrierIds = [...new Set(trucks.map((t) => t.carrierId))];
+  const carriers = await db.organization.findMany({
+    where: { id: { in: carrierIds } },
+    select: { id: true, isFlagged: true, ...TRUST_SCORE_SELECT },
+  });
+  const carrierById = new Map(carriers.map((c) => [c.id, c]));
+
+  const coveredTrucks =
+    load && needsCargoCoverage(load)
+      ? await findCargoCoveredTrucks(
+          trucks,
+          Number(load.insuranceCoverageAmount ?? 0)
+        )
+      : null;
+
+  for (const truck of trucks) {
+    const carrier = carrierById.get(truck.carrierId);
+    if (!carrier) continue;
+
+    const hasHistory =
+      carrier.totalLoadsCompleted + carrier.totalLoadsCancelled > 0;
+    const trustScore = hasHistory
+      ? computeTrustScore(carrier)
+      : NEUTRAL_TRUST_SCORE;
+    const cargoCoverage = coveredTrucks
+      ? coveredTrucks.has(truck.truckId)
+      : null;
+
+    const score = carrier.isFlagged
+      ? 0
+      : Math.round(
+          trustScore * 0.5 +
+            rateInsurance(truck.insuranceStatus, cargoCoverage) * 0.3 +
+            rateGps(truck.gpsStatus, truck.gpsLastSeenAt) * 0.2
+        );
+
+    result.set(truck.truckId, {
+      score,
+      trustScore,
+      flagged: carrier.isFlagged,
+      insured: isInsuranceValid(truck.insuranceStatus),
+      gpsActive: isGpsActive(truck.gpsStatus, truck.gpsLastSeenAt),
+      cargoCoverage,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Trucks with an approved, unexpired cargo policy of their own or from
+ * their carrier, covering at least the load's declared value when both
+ * amounts are known.
+ */
+async function findCargoCoveredTrucks(
+  trucks: ReliabilityTruck[],
+  cargoValue: number
+): Promise<Set<string>> {
+  const approvedCargoPolicy = {
+    coverageType: { in: CARGO_COVERAGE_TYPES },
+    verificationStatus: "APPROVED" as const,
+    deletedAt: null,
+  };
+
+  const [truckPolicies, carrierPolicies] = await Promise.all([
+    db.truckDocument.findMany({
+      where: {
+        ...approvedCargoPolicy,
+        type: "INSURANCE",
+        truckId: { in: trucks.map((t) => t.truckId) },
+      },
+      select: { truckId: true, coverageAmount: true, expiresAt: true },
+    }),
+    db.companyDocument.findMany({
+      where: {
+        ...approvedCargoPolicy,
+        type: "INSURANCE_CERTIFICATE",
+        organizationId: { in: [...new Set(trucks.map((t) => t.carrierId))] },
+      },
+      select: { organizationId: true, coverageAmount: true, expiresAt: true },
+    }),
+  ]);
+
+  const now = new Date();
+  const covers = (policy: {
+    coverageAmount: Prisma.Decimal | null;
+    expiresAt: Date | null;
+  }) =>
+    (!policy.expiresAt || policy.expiresAt > now) &&
+    (!policy.coverageAmount ||
+      !cargoValue ||
+      Number(policy.coverageAmount) >= cargoValue);
+
+  const coveredTruckIds = new Set(
+    truckPolicies.filter(covers).map((p) => p.truckId)
+  );
+  const coveredCarrierIds = new Set(
+    carrierPolicies.filter(covers).map((p) => p.organizationId)
+  );
+
+  return new Set(
+    trucks
+      .filter(
+        (t) =>
+          coveredTruckIds.has(t.truckId) || coveredCarrierIds.has(t.carrierId)
+      )
+      .map((t) => t.truckId)
+  );
+}
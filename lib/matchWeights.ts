@@ -0,0 +1,218 @@
+/**
+ * Match Score Weights
+ *
+ * Weight sets for truck/load match scoring (lib/matchingEngine.ts). Every
+ * scoring factor is rated 0-1; its weight, in percentage points, is the share
+ * of the 0-100 match score it can earn. The weights always sum to 100.
+ *
+ * Reliability (lib/matchReliability.ts) is only rated when trucks are ranked
+ * for a load; where it is not rated the other weights are rescaled to 100.
+ *
+ * Resolution for a load: its shipper's override, then the platform default
+ * set by admins, then DEFAULT_MATCH_WEIGHTS. Saved weights are versioned -
+ * saving adds a new MatchWeightProfile row and deactivates the previous one -
+ * and every match result carries weightProfileId/weightVersion so a score can
+ * be traced back to the weights that produced it.
+ */
+
+import { z } from "zod";
+import { MatchWeightProfile } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export interface MatchWeights {
+  route: number;
+  time: number;
+  capacity: number;
+  deadhead: number;
+  reliability: number;
+}
+
+export type MatchWeightScope = "DEFAULT" | "PLATFORM" | "SHIPPER";
+
+export interface ResolvedMatchWeights extends MatchWeights {
+  profileId: string | null; // null for the built-in default
+  version: number; // 0 for the built-in default
+  scope: MatchWeightScope;
+}
+
+/** Weights to score a load with, looked up by the load's shipper */
+export type MatchWeightsFor = (
+  shipperId?: string | null
+) => ResolvedMatchWeights;
+
+/**
+ * Built-in weights, used until an admin saves a platform default.
+ * Route 25, deadhead 25, capacity 20, time 20, reliability 10.
+ */
+export const DEFAULT_MATCH_WEIGHTS: ResolvedMatchWeights = {
+  route: 25,
+  time: 20,
+  capacity: 20,
+  deadhead: 25,
+  reliability: 10,
+  profileId: null,
+  version: 0,
+  scope: "DEFAULT",
+};
+
+const weight = z.number().int().min(0).max(100);
+
+export const matchWeightsSchema = z
+  .object({
+    route: weight,
+    time: weight,
+    capacity: weight,
+    deadhead: weight,
+    reliability: weight.default(0),
+  })
+  .refine(
+    (w) => w.route + w.time + w.capacity + w.deadhead + w.reliability === 100,
+    "Weights must add up to 100"
+  );
+
+type WeightColumns = Pick<
+  MatchWeightProfile,
+  | "id"
+  | "organizationId"
+  | "version"
+  | "routeWeight"
+  | "timeWeight"
+  | "capacityWeight"
+  | "deadheadWeight"
+  | "reliabilityWeight"
+>;
+
+function toResolved(profile: WeightColumns): ResolvedMatchWeights {
+  return {
+    route: profile.routeWeight,
+    time: profile.timeWeight,
+    capacity: profile.capacityWeight,
+    deadhead: profile.deadheadWeight,
+    reliability: profile.reliabilityWeight,
+    profileId: profile.id,
+    version: profile.version,
+    scope: profile.organizationId ? "SHIPPER" : "PLATFORM",
+  };
+}
+
+/**
+ * Load the active weights for a batch of loads in one query.
+ *
+ * @param shipperIds - Shippers of the loads about to be scored
+ * @returns Lookup from a load's shipperId to the weights that apply to it
+ */
+export async function getMatchWeightsFor(
+  shipperIds: Array<string | null | undefined>
+): Promise<MatchWeightsFor> {
+  const ids = [...new Set(shipperIds.filter((id): id is string => !!id))];
+
+  const profiles = await db.matchWeightProfile.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { organizationId: null },
+        ...(ids.length > 0 ? [{ organizationId: { in: ids } }] : []),
+      ],
+    },
+  });
+
+  const platformProfile = profiles.find((p) => p.organizationId === null);
+  const platform = platformProfile
+    ? toResolved(platformProfile)
+    : DEFAULT_MATCH_WEIGHTS;
+  const byShipper = new Map(
+    profiles
+      .filter((p) => p.organizationId !== null)
+      .map((p) => [p.organizationId, toResolved(p)])
+  );
+
+  return (shipperId) => (shipperId && byShipper.get(shipperId)) || platform;
+}
+
+/**
+ * Active weights for a single shipper (or the platform default).
+ */
+export async function getMatchWeights(
+  shipperId?: string | null
+): Promise<ResolvedMatchWeights> {
+  const weightsFor = await getMatchWeightsFor([shipperId]);
+  return weightsFor(shipperId);
+}
+
+/**
+ * Save a new weight version for the platform (organizationId null) or a
+ * shipper, deactivating the version it replaces.
+ */
+export async function saveMatchWeights(
+  organizationId: string | null,
+  weights: MatchWeights,
+  userId: string
+): Promise<ResolvedMatchWeights> {
+  const profile = await db.$transaction(
+    async (tx) => {
+      const previous = await tx.matchWeightProfile.findMany({
+        where: { organizationId },
+        select: { version: true },
+      });
+      const version = Math.max(0, ...previous.map((p) => p.version)) + 1;
+
+      await tx.matchWeightProfile.updateMany({
+        where: { organizationId, isActive: true },
+        data: { isActive: false },
+      });
+
+      return tx.matchWeightProfile.create({
+        data: {
+          organizationId,
+          version,
+          routeWeight: weights.route,
+          timeWeight: weights.time,
+          capacityWeight: weights.capacity,
+          deadheadWeight: weights.deadhead,
+          reliabilityWeight: weights.reliability,
+          createdById: userId,
+        },
+      });
+    },
+    { isolationLevel: "Serializable" }
+  );
+
+  return toResolved(profile);
+}
+
+/**
+ * Drop a shipper's override so its loads use the platform weights again.
+ * Past versions are kept for traceability.
+ *
+ * @returns Whether an active override existed
+ */
+export async function clearShipperMatchWeights(
+  organizationId: string
+): Promise<boolean> {
+  const { count } = await db.matchWeightProfile.updateMany({
+    where: { organizationId, isActive: true },
+    data: { isActive: false },
+  });
+  return count > 0;
+}
+
+/**
+ * Saved versions for the platform (organizationId null) or a shipper,
+ * newest first.
+ */
+export async function getMatchWeightHistory(
+  organizationId: string | null,
+  limit = 20
+) {
+  const profiles = await db.matchWeightProfile.findMany({
+    where: { organizationId },
+    orderBy: { version: "desc" },
+    take: limit,
+  });
+  return profiles.map((profile) => ({
+    ...toResolved(profile),
+    isActive: profile.isActive,
+    createdById: profile.createdById,
+    createdAt: profile.createdAt,
+  }));
+}
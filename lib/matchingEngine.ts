@@ -3,19 +3,38 @@
  *
  * Automatically matches available trucks with posted loads.
  *
+ * Both paths rate route, time, capacity and deadhead, then combine the
+ * ratings with the weights that apply to the load's shipper
+ * (lib/matchWeights.ts: shipper override, platform default, built-in
+ * 25/20/20/25/10). Results record weightProfileId and weightVersion.
+ *
+ * When trucks are ranked for a load they are also rated on carrier
+ * reliability (lib/matchReliability.ts: trust score, insurance, GPS health)
+ * and can be hard-filtered to insured or GPS-active trucks (MatchFilters).
+ * Where reliability is not rated its weight is shared out over the other
+ * factors, so scores stay on the same 0-100 scale.
+ *
  * DB-BACKED MATCHING (findMatchingLoadsForTruck, findMatchingTrucksForLoad):
- * Score breakdown (max 100 points):
- * - Route compatibility: 40 points (origin/destination match)
- * - Time window overlap: 30 points (availability alignment)
- * - Capacity match: 20 points (weight/type/utilization)
- * - Deadhead distance: 10 points (proximity to pickup)
+ * Factor ratings (scaled to the factor's weight):
+ * - Route compatibility: 0-40 (origin/destination match)
+ * - Time window overlap: 0-30 (availability alignment)
+ * - Capacity match: 0-20 (weight/type/utilization)
+ * - Deadhead distance: 0-10 (proximity to pickup)
+ * - Reliability: 0-100 (trucks for a load only)
  *
  * IN-MEMORY MATCHING (findMatchingLoads, findMatchingTrucks):
- * Score breakdown (max 100 points):
- * - Route match: 30% (origin/destination alignment)
- * - DH-O distance: 30% (deadhead to origin)
- * - Capacity: 20% (weight/type fit)
- * - Time: 20% (availability)
+ * Factor ratings 0-100 (scaled to the factor's weight), plus 5 points for
+ * an exact truck type:
+ * - Route match (origin/destination alignment)
+ * - DH-O distance (deadhead to origin)
+ * - Capacity (weight/type fit)
+ * - Time (availability)
+ * - Reliability (when the truck criteria carry it)
+ *
+ * Every score carries an explanation per factor (MatchFactorExplanation):
+ * points earned out of the factor's maximum, the values compared and a
+ * sentence for the UI. findNearMissLoads lists loads a truck missed on a
+ * single hard filter (truck type, capacity, deadhead), with the reason.
  *
  * Sprint 8 - Story 8.4: Truck/Load Matching Algorithm
  */
@@ -24,14 +43,56 @@ import { db } from "@/lib/db";
 import { Load, TruckPosting, Truck, EthiopianLocation } from "@prisma/client";
 import { calculateDistanceKm } from "@/lib/geo";
 import { areTruckTypesCompatible } from "@/lib/constants/truckTypes";
+import {
+  DEFAULT_MATCH_WEIGHTS,
+  getMatchWeightsFor,
+  MatchWeights,
+  MatchWeightsFor,
+  ResolvedMatchWeights,
+} from "@/lib/matchWeights";
+import { getTruckReliability, TruckReliability } from "@/lib/matchReliability";
+
+export type MatchFactor =
+  | "route"
+  | "time"
+  | "capacity"
+  | "deadhead"
+  | "reliability"
+  | "truckType";
+
+/**
+ * How one factor contributed to a match score
+ */
+export interface MatchFactorExplanation {
+  factor: MatchFactor;
+  points: number; // Earned toward the 0-100 score
+  maxPoints: number; // Earned by a perfect rating
+  inputs: Record<string, string | number | boolean | null>; // Values compared
+  summary: string;
+}
+
+/** Hard filters that drop a load-truck pair before scoring */
+export type HardConstraint =
+  | "truckType"
+  | "location"
+  | "deadhead"
+  | "capacity"
+  | "reliability";
+
+interface HardFilterFailure {
+  constraint: HardConstraint;
+  reason: string;
+}
 
 interface MatchScore {
   score: number; // 0-100
+  // Weighted points per factor; each is at most that factor's weight
   breakdown: {
-    routeScore: number; // 0-40
-    timeScore: number; // 0-30
-    capacityScore: number; // 0-20
-    deadheadScore: number; // 0-10
+    routeScore: number;
+    timeScore: number;
+    capacityScore: number;
+    deadheadScore: number;
+    reliabilityScore: number | null; // null when reliability is not rated
   };
   details: {
     routeMatch: "exact" | "destination_flexible" | "nearby";
@@ -39,7 +100,11 @@ interface MatchScore {
     capacityFit: boolean;
     deadheadKm?: number;
     totalKm?: number;
+    reliability?: TruckReliability;
   };
+  explanation: MatchFactorExplanation[];
+  weightProfileId: string | null;
+  weightVersion: number;
 }
 
 interface TruckMatch {
@@ -64,6 +129,93 @@ interface LoadMatch {
   matchScore: MatchScore;
 }
 
+/**
+ * Hard filters on a truck's reliability signals, applied when ranking
+ * trucks for a load. Trucks without reliability data do not pass them.
+ */
+export interface MatchFilters {
+  insuredOnly?: boolean; // Truck insurance VALID or EXPIRING
+  gpsActiveOnly?: boolean; // GPS device active and recently seen
+}
+
+/**
+ * Why a truck fails the hard filters, or null when it passes
+ */
+function reliabilityFilterFailure(
+  reliability: TruckReliability | null | undefined,
+  filters: MatchFilters
+): string | null {
+  if (filters.insuredOnly && !reliability?.insured) {
+    return "Not insured: insured trucks only";
+  }
+  if (filters.gpsActiveOnly && !reliability?.gpsActive) {
+    return "GPS not active: GPS-active trucks only";
+  }
+  return null;
+}
+
+/**
+ * Explain a factor rated 0-1 that is worth at most `maxPoints`
+ */
+function explainFactor(
+  factor: MatchFactor,
+  rating: number,
+  maxPoints: number,
+  inputs: MatchFactorExplanation["inputs"],
+  summary: string
+): MatchFactorExplanation {
+  return {
+    factor,
+    points: Math.round(rating * maxPoints * 10) / 10,
+    maxPoints: Math.round(maxPoints * 10) / 10,
+    inputs,
+    summary,
+  };
+}
+
+function explainReliability(
+  reliability: TruckReliability,
+  maxPoints: number
+): MatchFactorExplanation {
+  const signals = [
+    `trust score ${reliability.trustScore}`,
+    reliability.insured ? "insured" : "not insured",
+    reliability.gpsActive ? "GPS active" : "GPS inactive",
+  ];
+  if (reliability.cargoCoverage !== null) {
+    signals.push(
+      reliability.cargoCoverage
+        ? "cargo insurance covers the load"
+        : "no cargo insurance for the load"
+    );
+  }
+  return explainFactor(
+    "reliability",
+    reliability.score / 100,
+    maxPoints,
+    {
+      reliabilityScore: reliability.score,
+      trustScore: reliability.trustScore,
+      flagged: reliability.flagged,
+      insured: reliability.insured,
+      gpsActive: reliability.gpsActive,
+      cargoCoverage: reliability.cargoCoverage,
+    },
+    reliability.flagged
+      ? "Carrier is flagged, so it earns no reliability points"
+      : `Carrier reliability ${reliability.score}/100: ${signals.join(", ")}`
+  );
+}
+
+/**
+ * Total weight of the factors being rated: 100, or less the reliability
+ * weight when reliability is not rated. Factor points are divided by it so
+ * scores stay on a 0-100 scale.
+ */
+function ratedWeightTotal(weights: MatchWeights, reliabilityRated: boolean) {
+  return Math.max(1, reliabilityRated ? 100 : 100 - weights.reliability);
+}
+
 /**
  * Calculate route compatibility score (0-40 points)
  *
@@ -78,7 +230,11 @@ function calculateRouteScore(
   truckDest: EthiopianLocation | null,
   loadPickup: EthiopianLocation,
   loadDelivery: EthiopianLocation
-): { score: number; match: "exact" | "destination_flexible" | "nearby" } {
+): {
+  score: number;
+  match: "exact" | "destination_flexible" | "nearby";
+  summary: string;
+} {
   // Check origin match (truck's current location should be near load's pickup)
   const originDistance = calculateDistanceKm(
     Number(truckOrigin.latitude),
@@ -86,22 +242,29 @@ function calculateRouteScore(
     Number(loadPickup.latitude),
     Number(loadPickup.longitude)
   );
+  const fromPickup = `${Math.round(originDistance)} km from pickup in ${loadPickup.name}`;
 
   // If truck is too far from pickup, score 0
   if (originDistance > 200) {
-    return { score: 0, match: "nearby" };
+    return {
+      score: 0,
+      match: "nearby",
+      summary: `Truck in ${truckOrigin.name} is ${fromPickup}, over 200 km`,
+    };
   }
 
   // If truck has no destination preference (flexible routing)
   if (!truckDest) {
+    const summary = `Truck in ${truckOrigin.name} has no set destination and is ${fromPickup}`;
     // Origin nearby (within 50km): 35 points
     if (originDistance <= 50) {
-      return { score: 35, match: "destination_flexible" };
+      return { score: 35, match: "destination_flexible", summary };
     }
     // Origin somewhat far (50-200km): scaled score
     return {
       score: Math.max(0, 35 - (originDistance - 50) / 5),
       match: "destination_flexible",
+      summary,
     };
   }
 
@@ -112,28 +275,50 @@ function calculateRouteScore(
     Number(loadDelivery.latitude),
     Number(loadDelivery.longitude)
   );
+  const truckRoute = `${truckOrigin.name} → ${truckDest.name}`;
+  const loadRoute = `${loadPickup.name} → ${loadDelivery.name}`;
 
   // Exact match (same origin and destination cities)
   if (truckOrigin.id === loadPickup.id && truckDest.id === loadDelivery.id) {
-    return { score: 40, match: "exact" };
+    return {
+      score: 40,
+      match: "exact",
+      summary: `Truck's posted route ${truckRoute} is the load's route`,
+    };
   }
 
   // Near match (both origin and dest within 50km)
   if (originDistance <= 50 && destDistance <= 50) {
-    return { score: 38, match: "nearby" };
+    return {
+      score: 38,
+      match: "nearby",
+      summary: `Truck route ${truckRoute} is within 50 km of ${loadRoute} at both ends`,
+    };
   }
 
   // Good match (origin close, dest reasonable)
   if (originDistance <= 100 && destDistance <= 100) {
-    return { score: 25, match: "nearby" };
+    return {
+      score: 25,
+      match: "nearby",
+      summary: `Truck route ${truckRoute} is within 100 km of ${loadRoute} at both ends`,
+    };
   }
 
   // Acceptable match (both within 200km)
   if (originDistance <= 200 && destDistance <= 200) {
-    return { score: 15, match: "nearby" };
+    return {
+      score: 15,
+      match: "nearby",
+      summary: `Truck route ${truckRoute} is within 200 km of ${loadRoute} at both ends`,
+    };
   }
 
-  return { score: 0, match: "nearby" };
+  return {
+    score: 0,
+    match: "nearby",
+    summary: `Truck is heading to ${truckDest.name}, ${Math.round(destDistance)} km from delivery in ${loadDelivery.name}`,
+  };
 }
 
 /**
@@ -148,7 +333,7 @@ function calculateTimeScore(
   truckAvailableTo: Date | null,
   loadPickupDate: Date,
   loadDeliveryDate: Date
-): { score: number; overlap: boolean } {
+): { score: number; overlap: boolean; summary: string } {
   const truckStart = truckAvailableFrom.getTime();
   const truckEnd = truckAvailableTo ? truckAvailableTo.getTime() : Infinity;
   const loadStart = loadPickupDate.getTime();
@@ -158,7 +343,11 @@ function calculateTimeScore(
   const hasOverlap = truckStart <= loadEnd && loadStart <= truckEnd;
 
   if (!hasOverlap) {
-    return { score: 0, overlap: false };
+    return {
+      score: 0,
+      overlap: false,
+      summary: "Truck is not available between pickup and delivery",
+    };
   }
 
   // Calculate overlap amount
@@ -172,14 +361,22 @@ function calculateTimeScore(
     truckStart <= loadStart &&
     (truckEnd === Infinity || truckEnd >= loadEnd)
   ) {
-    return { score: 30, overlap: true };
+    return {
+      score: 30,
+      overlap: true,
+      summary: "Truck is available from pickup through delivery",
+    };
   }
 
   // Partial overlap: score based on percentage
   const overlapPercentage = overlapDuration / loadDuration;
   const score = Math.min(30, Math.round(overlapPercentage * 30));
 
-  return { score, overlap: true };
+  return {
+    score,
+    overlap: true,
+    summary: `Truck is available for ${Math.round(overlapPercentage * 100)}% of the pickup-to-delivery window`,
+  };
 }
 
 /**
@@ -193,13 +390,18 @@ function calculateCapacityScore(
   truck: Truck,
   truckPosting: TruckPosting,
   load: Load
-): { score: number; fit: boolean } {
+): { score: number; fit: boolean; summary: string } {
   const truckWeight = Number(truck.capacity);
   const loadWeight = Number(load.weight);
+  const uses = `Load uses ${Math.round((loadWeight / truckWeight) * 100)}% of the truck's ${truckWeight.toLocaleString()} kg`;
 
   // Check weight
   if (loadWeight > truckWeight) {
-    return { score: 0, fit: false };
+    return {
+      score: 0,
+      fit: false,
+      summary: `Load weighs ${loadWeight.toLocaleString()} kg, over the truck's ${truckWeight.toLocaleString()} kg capacity`,
+    };
   }
 
   // Check length if both specified
@@ -208,26 +410,41 @@ function calculateCapacityScore(
     const loadLength = Number(load.lengthM);
 
     if (loadLength > truckLength) {
-      return { score: 0, fit: false };
+      return {
+        score: 0,
+        fit: false,
+        summary: `Load is ${loadLength} m long, over the truck's ${truckLength} m`,
+      };
     }
   }
 
   // Check truck type compatibility using shared groups
   const typeCompat = areTruckTypesCompatible(load.truckType, truck.truckType);
   if (typeCompat === "incompatible") {
-    return { score: 0, fit: false }; // Incompatible type = hard exclude
+    // Incompatible type = hard exclude
+    return {
+      score: 0,
+      fit: false,
+      summary: `${truck.truckType} cannot carry ${load.truckType} loads`,
+    };
   }
   if (typeCompat === "compatible") {
     // Same group but different type — slight penalty vs exact match
     const utilizationRate = Number(load.weight) / truckWeight;
-    if (utilizationRate >= 0.8) return { score: 18, fit: true };
-    if (utilizationRate >= 0.5) return { score: 13, fit: true };
-    return { score: 8, fit: true };
+    const summary = `${uses}; ${truck.truckType} is compatible with ${load.truckType}`;
+    if (utilizationRate >= 0.8) return { score: 18, fit: true, summary };
+    if (utilizationRate >= 0.5) return { score: 13, fit: true, summary };
+    return { score: 8, fit: true, summary };
   }
 
   // Check full/partial load type match
   if (truckPosting.fullPartial !== load.fullPartial) {
-    return { score: 10, fit: true }; // Type mismatch but capacity OK
+    // Type mismatch but capacity OK
+    return {
+      score: 10,
+      fit: true,
+      summary: `${uses}; truck is posted ${truckPosting.fullPartial} for a ${load.fullPartial} load`,
+    };
   }
 
   // Perfect match: type, capacity, and load type all match
@@ -235,16 +452,16 @@ function calculateCapacityScore(
 
   // Perfect utilization (80-100%): 20 points
   if (utilizationRate >= 0.8) {
-    return { score: 20, fit: true };
+    return { score: 20, fit: true, summary: uses };
   }
 
   // Good utilization (50-80%): 15 points
   if (utilizationRate >= 0.5) {
-    return { score: 15, fit: true };
+    return { score: 15, fit: true, summary: uses };
   }
 
   // Low utilization (below 50%): 10 points
-  return { score: 10, fit: true };
+  return { score: 10, fit: true, summary: uses };
 }
 
 /**
@@ -261,7 +478,7 @@ function calculateDeadheadScore(
   truckDest: EthiopianLocation | null,
   preferredDhToOrigin?: number | null,
   preferredDhAfterDelivery?: number | null
-): { score: number; deadheadKm: number } {
+): { score: number; deadheadKm: number; summary: string } {
   // Calculate deadhead to pickup
   const dhToPickup = calculateDistanceKm(
     Number(truckOrigin.latitude),
@@ -282,30 +499,45 @@ function calculateDeadheadScore(
   }
 
   const totalDeadhead = dhToPickup + dhAfterDelivery;
+  const emptyKm = truckDest
+    ? `${Math.round(dhToPickup)} km empty to pickup and ${Math.round(dhAfterDelivery)} km back to ${truckDest.name}`
+    : `${Math.round(dhToPickup)} km empty to pickup`;
 
   // Check against truck's deadhead preferences
   if (preferredDhToOrigin && dhToPickup > preferredDhToOrigin) {
-    return { score: 0, deadheadKm: totalDeadhead };
+    return {
+      score: 0,
+      deadheadKm: totalDeadhead,
+      summary: `${emptyKm}, over the truck's ${preferredDhToOrigin} km limit to pickup`,
+    };
   }
 
   if (preferredDhAfterDelivery && dhAfterDelivery > preferredDhAfterDelivery) {
-    return { score: 0, deadheadKm: totalDeadhead };
+    return {
+      score: 0,
+      deadheadKm: totalDeadhead,
+      summary: `${emptyKm}, over the truck's ${preferredDhAfterDelivery} km limit after delivery`,
+    };
   }
 
+  const summary = `${emptyKm} (full points under 50 km)`;
+
   // Score based on total deadhead
   if (totalDeadhead < 50) {
-    return { score: 10, deadheadKm: totalDeadhead };
+    return { score: 10, deadheadKm: totalDeadhead, summary };
   }
 
   if (totalDeadhead < 100) {
-    return { score: 5, deadheadKm: totalDeadhead };
+    return { score: 5, deadheadKm: totalDeadhead, summary };
   }
 
-  return { score: 0, deadheadKm: totalDeadhead };
+  return { score: 0, deadheadKm: totalDeadhead, summary };
 }
 
 /**
  * Calculate overall match score for a truck-load pair
+ *
+ * Each factor's native points are scaled to its weight.
  */
 function calculateMatchScore(
   truckPosting: TruckPosting & {
@@ -316,7 +548,9 @@ function calculateMatchScore(
   load: Load & {
     pickupLocation: EthiopianLocation;
     deliveryLocation: EthiopianLocation;
-  }
+  },
+  weights: ResolvedMatchWeights,
+  reliability?: TruckReliability | null
 ): MatchScore {
   const routeResult = calculateRouteScore(
     truckPosting.originCity,
@@ -351,26 +585,97 @@ function calculateMatchScore(
       : null
   );
 
+  const scale = 100 / ratedWeightTotal(weights, !!reliability);
+  const breakdown = {
+    routeScore: (routeResult.score / 40) * weights.route * scale,
+    timeScore: (timeResult.score / 30) * weights.time * scale,
+    capacityScore: (capacityResult.score / 20) * weights.capacity * scale,
+    deadheadScore: (deadheadResult.score / 10) * weights.deadhead * scale,
+    reliabilityScore: reliability
+      ? (reliability.score / 100) * weights.reliability
+      : null,
+  };
+
   const totalScore =
-    routeResult.score +
-    timeResult.score +
-    capacityResult.score +
-    deadheadResult.score;
+    breakdown.routeScore +
+    breakdown.timeScore +
+    breakdown.capacityScore +
+    breakdown.deadheadScore +
+    (breakdown.reliabilityScore ?? 0);
+
+  const explanation = [
+    explainFactor(
+      "route",
+      routeResult.score / 40,
+      weights.route * scale,
+      {
+        truckOrigin: truckPosting.originCity.name,
+        truckDestination: truckPosting.destinationCity?.name ?? null,
+        pickup: load.pickupLocation.name,
+        delivery: load.deliveryLocation.name,
+        routeMatch: routeResult.match,
+      },
+      routeResult.summary
+    ),
+    explainFactor(
+      "time",
+      timeResult.score / 30,
+      weights.time * scale,
+      {
+        availableFrom: truckPosting.availableFrom.toISOString(),
+        availableTo: truckPosting.availableTo?.toISOString() ?? null,
+        pickupDate: load.pickupDate.toISOString(),
+        deliveryDate: load.deliveryDate?.toISOString() ?? null,
+        overlap: timeResult.overlap,
+      },
+      timeResult.summary
+    ),
+    explainFactor(
+      "capacity",
+      capacityResult.score / 20,
+      weights.capacity * scale,
+      {
+        loadWeightKg: Number(load.weight),
+        truckCapacityKg: Number(truckPosting.truck.capacity),
+        loadTruckType: load.truckType,
+        truckType: truckPosting.truck.truckType,
+        fit: capacityResult.fit,
+      },
+      capacityResult.summary
+    ),
+    explainFactor(
+      "deadhead",
+      deadheadResult.score / 10,
+      weights.deadhead * scale,
+      {
+        deadheadKm: Math.round(deadheadResult.deadheadKm),
+        preferredDhToOriginKm: truckPosting.preferredDhToOriginKm
+          ? Number(truckPosting.preferredDhToOriginKm)
+          : null,
+        preferredDhAfterDeliveryKm: truckPosting.preferredDhAfterDeliveryKm
+          ? Number(truckPosting.preferredDhAfterDeliveryKm)
+          : null,
+      },
+      deadheadResult.summary
+    ),
+  ];
+  if (reliability) {
+    explanation.push(explainReliability(reliability, weights.reliability));
+  }
 
   return {
     score: Math.round(totalScore),
-    breakdown: {
-      routeScore: routeResult.score,
-      timeScore: timeResult.score,
-      capacityScore: capacityResult.score,
-      deadheadScore: deadheadResult.score,
-    },
+    breakdown,
     details: {
       routeMatch: routeResult.match,
       timeOverlap: timeResult.overlap,
       capacityFit: capacityResult.fit,
       deadheadKm: deadheadResult.deadheadKm,
+      ...(reliability && { reliability }),
     },
+    explanation,
+    weightProfileId: weights.profileId,
+    weightVersion: weights.version,
   };
 }
 
@@ -422,6 +727,10 @@ export async function findMatchingLoadsForTruck(
     },
   });
 
+  const weightsFor = await getMatchWeightsFor(
+    loads.map((load) => load.shipperId)
+  );
+
   // Calculate match scores for all loads
   const matches: LoadMatch[] = loads
     .filter((load) => load.pickupLocation && load.deliveryLocation)
@@ -430,7 +739,8 @@ export async function findMatchingLoadsForTruck(
       load: load as any,
       matchScore: calculateMatchScore(
         truckPosting,
-        load as Parameters<typeof calculateMatchScore>[1]
+        load as Parameters<typeof calculateMatchScore>[1],
+        weightsFor(load.shipperId)
       ),
     }))
     .filter((match) => match.matchScore.score >= minScore)
@@ -446,12 +756,14 @@ export async function findMatchingLoadsForTruck(
  * @param loadId - Load ID
  * @param minScore - Minimum match score (default: 40)
  * @param limit - Max results (default: 20)
+ * @param filters - Reliability hard filters (default: none)
  * @returns Array of matching trucks with scores
  */
 export async function findMatchingTrucksForLoad(
   loadId: string,
   minScore: number = 40,
-  limit: number = 20
+  limit: number = 20,
+  filters: MatchFilters = {}
 ): Promise<TruckMatch[]> {
   // Fetch load with location details
   const load = await db.load.findUnique({
@@ -468,7 +780,7 @@ export async function findMatchingTrucksForLoad(
 
   // G-A7-4: Exclude trucks on active trips at query level.
   // G-A7-3: PICKUP_PENDING included — truck heading to pickup is already committed.
-  // Uses trips (hasMany, supports 'none') rather than assignedLoad (one-to-one).
+  // Uses trips (supports 'none') rather than assignedLoads so trip status drives the check.
   const truckPostings = await db.truckPosting.findMany({
     where: {
       status: "ACTIVE",
@@ -495,15 +807,37 @@ export async function findMatchingTrucksForLoad(
     },
   });
 
+  const weightsFor = await getMatchWeightsFor([load.shipperId]);
+  const weights = weightsFor(load.shipperId);
+  const reliabilityByTruck = await getTruckReliability(
+    truckPostings.map((posting) => ({
+      truckId: posting.truckId,
+      carrierId: posting.carrierId,
+      insuranceStatus: posting.truck.insuranceStatus,
+      gpsStatus: posting.truck.gpsStatus,
+      gpsLastSeenAt: posting.truck.gpsLastSeenAt,
+    })),
+    load
+  );
+
   // Calculate match scores for all trucks
   const matches: TruckMatch[] = truckPostings
+    .filter(
+      (posting) =>
+        !reliabilityFilterFailure(
+          reliabilityByTruck.get(posting.truckId),
+          filters
+        )
+    )
     .map((posting) => ({
       // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Prisma includes differ from strict TruckMatch type when where.truck is also set
       posting: posting as any,
       matchScore: calculateMatchScore(
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         posting as any,
-        load as Parameters<typeof calculateMatchScore>[1]
+        load as Parameters<typeof calculateMatchScore>[1],
+        weights,
+        reliabilityByTruck.get(posting.truckId)
       ),
     }))
     .filter((match) => match.matchScore.score >= minScore)
@@ -603,6 +937,7 @@ interface LoadMatchCriteria {
   weight?: number | null;
   lengthM?: number | null;
   fullPartial?: string | null;
+  shipperId?: string | null; // Selects the shipper's match weights
   [key: string]: unknown; // Allow additional fields to pass through
 }
 
@@ -622,6 +957,7 @@ interface TruckMatchCriteria {
   maxWeight?: number | null;
   lengthM?: number | null;
   fullPartial?: string | null;
+  reliability?: TruckReliability | null; // From getTruckReliability
   [key: string]: unknown; // Allow additional fields to pass through
 }
 
@@ -635,6 +971,7 @@ interface MatchResult {
   dhOriginKm: number; // Deadhead to origin in km
   excluded: boolean; // True if filtered out
   excludeReason?: string;
+  explanation: MatchFactorExplanation[]; // Empty when excluded
 }
 
 /**
@@ -756,49 +1093,47 @@ function calcTimeMatchScore(
   return 0; // Too late
 }
 
+/** Loads this far from the truck are too far away to list as near misses */
+const NEAR_MISS_MAX_DH_KM = 300;
+
 /**
- * Calculate match score for a load-truck pair (in-memory version)
- *
- * HARD FILTERS (result in exclusion):
- * 1. Incompatible truck type
- * 2. DH-O > 200km
- * 3. Truck can't carry the weight
+ * Pickups further than this from a truck posting's origin can neither
+ * match (DH-O hard filter) nor be near misses, so candidate queries may
+ * leave them out (withinRadius in lib/geoIndex.ts)
+ */
+export const MATCH_SEARCH_RADIUS_KM = NEAR_MISS_MAX_DH_KM;
+
+/**
+ * Apply the in-memory hard filters to a load-truck pair
  *
- * SCORING (for trucks that pass filters):
- * - Route match: 30%
- * - DH-O distance: 30%
- * - Capacity: 20%
- * - Time: 20%
+ * Every filter is checked so near misses can be told apart from loads that
+ * fail several; `failures` keeps the order the filters are applied in.
  */
-function calcLoadTruckMatchScore(
+function hardFilterFailures(
   load: LoadMatchCriteria,
-  truck: TruckMatchCriteria
-): MatchResult {
-  const reasons: string[] = [];
+  truck: TruckMatchCriteria,
+  filters: MatchFilters = {}
+): {
+  dhKm: number | null; // null when coordinates are missing
+  typeCompat: ReturnType<typeof areTruckTypesCompatible>;
+  failures: HardFilterFailure[];
+} {
+  const failures: HardFilterFailure[] = [];
 
-  // ============================================
   // HARD FILTER 1: Truck Type Compatibility
-  // ============================================
   const typeCompat = areTruckTypesCompatible(load.truckType, truck.truckType);
-
   if (typeCompat === "incompatible") {
-    return {
-      score: 0,
-      matchReasons: [],
-      isExactMatch: false,
-      dhOriginKm: 9999,
-      excluded: true,
-      excludeReason: `Incompatible truck type: ${truck.truckType} cannot carry ${load.truckType} loads`,
-    };
+    failures.push({
+      constraint: "truckType",
+      reason: `Incompatible truck type: ${truck.truckType} cannot carry ${load.truckType} loads`,
+    });
   }
 
-  // ============================================
   // HARD FILTER 2: DH-O Distance
-  // ============================================
   // Calculate DH-O using coordinates (Haversine) — no hardcoded distance tables
-  let actualDhKm: number;
+  let dhKm: number | null = null;
   if (isSameCity(truck.currentCity, load.pickupCity)) {
-    actualDhKm = 0;
+    dhKm = 0;
   } else {
     const coordDistance = getDistanceFromCoordinates(
       truck.currentCityLat,
@@ -807,49 +1142,88 @@ function calcLoadTruckMatchScore(
       load.pickupCityLon
     );
     if (coordDistance !== null) {
-      actualDhKm = Math.round(coordDistance);
+      dhKm = Math.round(coordDistance);
     } else {
       // No coordinates available — cannot determine distance, exclude
-      return {
-        score: 0,
-        matchReasons: [],
-        isExactMatch: false,
-        dhOriginKm: 9999,
-        excluded: true,
-        excludeReason: `No coordinates: ${truck.currentCity} to ${load.pickupCity}`,
-      };
+      failures.push({
+        constraint: "location",
+        reason: `No coordinates: ${truck.currentCity} to ${load.pickupCity}`,
+      });
     }
   }
-
-  if (actualDhKm > 200) {
-    return {
-      score: 0,
-      matchReasons: [],
-      isExactMatch: false,
-      dhOriginKm: actualDhKm,
-      excluded: true,
-      excludeReason: `DH-O too far: ${actualDhKm}km (max 200km)`,
-    };
+  if (dhKm !== null && dhKm > 200) {
+    failures.push({
+      constraint: "deadhead",
+      reason: `DH-O too far: ${dhKm}km (max 200km)`,
+    });
   }
 
-  // ============================================
   // HARD FILTER 3: Weight Capacity
-  // ============================================
   if (load.weight && truck.maxWeight && truck.maxWeight < load.weight) {
+    failures.push({
+      constraint: "capacity",
+      reason: `Insufficient capacity: ${truck.maxWeight}kg < ${load.weight}kg needed`,
+    });
+  }
+
+  // HARD FILTER 4: Reliability (insured / GPS-active only)
+  const filterFailure = reliabilityFilterFailure(truck.reliability, filters);
+  if (filterFailure) {
+    failures.push({ constraint: "reliability", reason: filterFailure });
+  }
+
+  return { dhKm, typeCompat, failures };
+}
+
+function toIsoString(date: Date | string | null | undefined): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+/**
+ * Calculate match score for a load-truck pair (in-memory version)
+ *
+ * HARD FILTERS (result in exclusion):
+ * 1. Incompatible truck type
+ * 2. DH-O > 200km
+ * 3. Truck can't carry the weight
+ * 4. Reliability filters (MatchFilters), when requested
+ *
+ * SCORING (for trucks that pass filters):
+ * Route, DH-O distance, capacity, time and (when the truck carries it)
+ * reliability, each rated 0-100 and scaled to its weight, plus an exact
+ * type bonus
+ */
+function calcLoadTruckMatchScore(
+  load: LoadMatchCriteria,
+  truck: TruckMatchCriteria,
+  weights: MatchWeights,
+  filters: MatchFilters = {}
+): MatchResult {
+  const reasons: string[] = [];
+
+  const { dhKm, typeCompat, failures } = hardFilterFailures(
+    load,
+    truck,
+    filters
+  );
+  if (failures.length > 0) {
+    const incompatible = failures[0].constraint === "truckType";
     return {
       score: 0,
       matchReasons: [],
       isExactMatch: false,
-      dhOriginKm: actualDhKm,
+      dhOriginKm: dhKm === null || incompatible ? 9999 : dhKm,
       excluded: true,
-      excludeReason: `Insufficient capacity: ${truck.maxWeight}kg < ${load.weight}kg needed`,
+      excludeReason: failures[0].reason,
+      explanation: [],
     };
   }
+  const actualDhKm = dhKm as number;
 
   // ============================================
   // ============================================
 
-  // Route score (30%)
+  // Route score
   const routeScore = calcRouteMatchScore(
     load.pickupCity,
     load.deliveryCity,
@@ -859,7 +1233,7 @@ function calcLoadTruckMatchScore(
   if (routeScore === 100) reasons.push("Perfect route match");
   else if (routeScore >= 60) reasons.push("Good route alignment");
 
-  // DH-O score (30%)
+  // DH-O score
   const dhScore = calculateDhOriginScore(actualDhKm);
   if (actualDhKm === 0) reasons.push(`Same city pickup`);
   else if (actualDhKm <= 50) reasons.push(`Nearby: ${actualDhKm}km to pickup`);
@@ -867,16 +1241,28 @@ function calcLoadTruckMatchScore(
     reasons.push(`Acceptable: ${actualDhKm}km to pickup`);
   else reasons.push(`Far: ${actualDhKm}km to pickup`);
 
-  // Capacity score (20%)
+  // Capacity score
   const capacityScore = calcCapacityMatchScore(load.weight, truck.maxWeight);
   if (capacityScore === 100) reasons.push("Optimal capacity utilization");
   else if (capacityScore === 0) reasons.push("Insufficient capacity");
 
-  // Time score (20%)
+  // Time score
   const timeScore = calcTimeMatchScore(load.pickupDate, truck.availableDate);
   if (timeScore === 100) reasons.push("Available on time");
   else if (timeScore >= 50) reasons.push("Available soon");
 
+  // Reliability score
+  const reliability = truck.reliability ?? null;
+  if (reliability) {
+    if (reliability.score >= 80) reasons.push("Highly reliable carrier");
+    else if (reliability.score < 40) reasons.push("Low carrier reliability");
+    if (reliability.cargoCoverage === true) {
+      reasons.push("Cargo insurance covers load");
+    } else if (reliability.cargoCoverage === false) {
+      reasons.push("No cargo insurance for this load");
+    }
+  }
+
   // Truck type bonus/info
   if (typeCompat === "exact") {
     reasons.push(`Exact ${truck.truckType} match`);
@@ -884,15 +1270,18 @@ function calcLoadTruckMatchScore(
     reasons.push(`Compatible: ${truck.truckType} for ${load.truckType}`);
   }
 
-  // Calculate final score: Route 30%, DH-O 30%, Capacity 20%, Time 20% + exact type bonus
+  // Calculate final score: weighted factors + exact type bonus
   const typeBonus = typeCompat === "exact" ? 5 : 0;
+  const ratedTotal = ratedWeightTotal(weights, !!reliability);
   const finalScore = Math.min(
     100,
     Math.round(
-      routeScore * 0.3 +
-        dhScore * 0.3 +
-        capacityScore * 0.2 +
-        timeScore * 0.2 +
+      (routeScore * weights.route +
+        dhScore * weights.deadhead +
+        capacityScore * weights.capacity +
+        timeScore * weights.time +
+        (reliability ? reliability.score * weights.reliability : 0)) /
+        ratedTotal +
         typeBonus
     )
   );
@@ -905,15 +1294,101 @@ function calcLoadTruckMatchScore(
     reasons.unshift("⭐ Excellent Match");
   }
 
+  const maxPoints = (weight: number) => (weight * 100) / ratedTotal;
+  const destination = truck.destinationCity
+    ? `to ${truck.destinationCity}`
+    : "with no set destination";
+  const explanation = [
+    explainFactor(
+      "route",
+      routeScore / 100,
+      maxPoints(weights.route),
+      {
+        truckCity: truck.currentCity,
+        truckDestination: truck.destinationCity ?? null,
+        pickupCity: load.pickupCity,
+        deliveryCity: load.deliveryCity,
+      },
+      `Truck in ${truck.currentCity} ${destination}; load runs ${load.pickupCity} → ${load.deliveryCity}`
+    ),
+    explainFactor(
+      "deadhead",
+      dhScore / 100,
+      maxPoints(weights.deadhead),
+      { dhOriginKm: actualDhKm, maxDhOriginKm: 200 },
+      `${actualDhKm} km empty to pickup (full points up to 50 km)`
+    ),
+    explainFactor(
+      "capacity",
+      capacityScore / 100,
+      maxPoints(weights.capacity),
+      {
+        loadWeightKg: load.weight ?? null,
+        truckMaxWeightKg: truck.maxWeight ?? null,
+      },
+      load.weight && truck.maxWeight
+        ? `Load uses ${Math.round((load.weight / truck.maxWeight) * 100)}% of the truck's ${truck.maxWeight.toLocaleString()} kg capacity`
+        : "Load weight or truck capacity not given"
+    ),
+    explainFactor(
+      "time",
+      timeScore / 100,
+      maxPoints(weights.time),
+      {
+        pickupDate: toIsoString(load.pickupDate),
+        truckAvailableDate: toIsoString(truck.availableDate),
+      },
+      !load.pickupDate || !truck.availableDate
+        ? "Pickup date or truck availability not given"
+        : new Date(truck.availableDate) <= new Date(load.pickupDate)
+          ? "Truck is available by the pickup date"
+          : `Truck is available ${Math.ceil(
+              (new Date(truck.availableDate).getTime() -
+                new Date(load.pickupDate).getTime()) /
+                (1000 * 60 * 60 * 24)
+            )} day(s) after the pickup date`
+    ),
+  ];
+  if (reliability) {
+    explanation.push(
+      explainReliability(reliability, maxPoints(weights.reliability))
+    );
+  }
+  explanation.push(
+    explainFactor(
+      "truckType",
+      typeBonus / 5,
+      5,
+      { loadTruckType: load.truckType, truckType: truck.truckType },
+      typeCompat === "exact"
+        ? `Exact ${truck.truckType} match earns the type bonus`
+        : `${truck.truckType} is compatible with ${load.truckType}, no type bonus`
+    )
+  );
+
   return {
     score: finalScore,
     matchReasons: reasons,
     isExactMatch,
     dhOriginKm: actualDhKm,
     excluded: false,
+    explanation,
   };
 }
 
+/**
+ * Fields added to each in-memory match result
+ */
+type InMemoryMatchFields = {
+  matchScore: number;
+  matchReasons: string[];
+  isExactMatch: boolean;
+  dhOriginKm: number;
+  matchExplanation: MatchFactorExplanation[];
+  weightProfileId: string | null;
+  weightVersion: number;
+};
+
 /**
  * Find matching loads for a truck (in-memory version)
  * Applies hard filters: truck type compatibility, DH-O distance
@@ -921,29 +1396,29 @@ function calcLoadTruckMatchScore(
  * @param truck - Truck criteria
  * @param loads - Array of load criteria
  * @param minScore - Minimum match score (default: 50)
+ * @param weightsFor - Weights per load shipper (from getMatchWeightsFor;
+ *                     default: built-in weights)
  * @returns Array of loads with match scores (filtered and sorted)
  */
 export function findMatchingLoads<T extends LoadMatchCriteria>(
   truck: TruckMatchCriteria,
   loads: T[],
-  minScore: number = 50
-): Array<
-  T & {
-    matchScore: number;
-    matchReasons: string[];
-    isExactMatch: boolean;
-    dhOriginKm: number;
-  }
-> {
+  minScore: number = 50,
+  weightsFor: MatchWeightsFor = () => DEFAULT_MATCH_WEIGHTS
+): Array<T & InMemoryMatchFields> {
   return loads
     .map((load) => {
-      const match = calcLoadTruckMatchScore(load, truck);
+      const weights = weightsFor(load.shipperId);
+      const match = calcLoadTruckMatchScore(load, truck, weights);
       return {
         ...load,
         matchScore: match.score,
         matchReasons: match.matchReasons,
         isExactMatch: match.isExactMatch,
         dhOriginKm: match.dhOriginKm,
+        matchExplanation: match.explanation,
+        weightProfileId: weights.profileId,
+        weightVersion: weights.version,
         _excluded: match.excluded,
         _excludeReason: match.excludeReason,
       };
@@ -952,45 +1427,43 @@ export function findMatchingLoads<T extends LoadMatchCriteria>(
     .sort((a, b) => b.matchScore - a.matchScore)
     .map(
       ({ _excluded, _excludeReason, ...rest }) =>
-        rest as T & {
-          matchScore: number;
-          matchReasons: string[];
-          isExactMatch: boolean;
-          dhOriginKm: number;
-        }
+        rest as T & InMemoryMatchFields
     );
 }
 
 /**
  * Find matching trucks for a load (in-memory version)
- * Applies hard filters: truck type compatibility, DH-O distance
+ * Applies hard filters: truck type compatibility, DH-O distance and the
+ * requested reliability filters
  *
  * @param load - Load criteria
  * @param trucks - Array of truck criteria
  * @param minScore - Minimum match score (default: 50)
+ * @param weightsFor - Weights for the load's shipper (from
+ *                     getMatchWeightsFor; default: built-in weights)
+ * @param filters - Reliability hard filters (default: none)
  * @returns Array of trucks with match scores (filtered and sorted)
  */
 export function findMatchingTrucks<T extends TruckMatchCriteria>(
   load: LoadMatchCriteria,
   trucks: T[],
-  minScore: number = 50
-): Array<
-  T & {
-    matchScore: number;
-    matchReasons: string[];
-    isExactMatch: boolean;
-    dhOriginKm: number;
-  }
-> {
+  minScore: number = 50,
+  weightsFor: MatchWeightsFor = () => DEFAULT_MATCH_WEIGHTS,
+  filters: MatchFilters = {}
+): Array<T & InMemoryMatchFields> {
+  const weights = weightsFor(load.shipperId);
   return trucks
     .map((truck) => {
-      const match = calcLoadTruckMatchScore(load, truck);
+      const match = calcLoadTruckMatchScore(load, truck, weights, filters);
       return {
         ...truck,
         matchScore: match.score,
         matchReasons: match.matchReasons,
         isExactMatch: match.isExactMatch,
         dhOriginKm: match.dhOriginKm,
+        matchExplanation: match.explanation,
+        weightProfileId: weights.profileId,
+        weightVersion: weights.version,
         _excluded: match.excluded,
         _excludeReason: match.excludeReason,
       };
@@ -999,11 +1472,46 @@ export function findMatchingTrucks<T extends TruckMatchCriteria>(
     .sort((a, b) => b.matchScore - a.matchScore)
     .map(
       ({ _excluded, _excludeReason, ...rest }) =>
-        rest as T & {
-          matchScore: number;
-          matchReasons: string[];
-          isExactMatch: boolean;
-          dhOriginKm: number;
-        }
+        rest as T & InMemoryMatchFields
     );
 }
+
+/**
+ * Loads a truck just misses (in-memory version)
+ *
+ * Loads that fail exactly one hard filter — an incompatible truck type, a
+ * pickup over 200 km away or a weight over capacity — within 300 km of the
+ * truck, with the reason they were left out. Loads without coordinates
+ * are never listed.
+ *
+ * @param truck - Truck criteria
+ * @param loads - Array of load criteria
+ * @param limit - Max results (default: 20)
+ * @returns Near-miss loads, closest first
+ */
+export function findNearMissLoads<T extends LoadMatchCriteria>(
+  truck: TruckMatchCriteria,
+  loads: T[],
+  limit: number = 20
+): Array<
+  T & {
+    dhOriginKm: number;
+    nearMissConstraint: HardConstraint;
+    nearMissReason: string;
+  }
+> {
+  return loads
+    .map((load) => ({ load, ...hardFilterFailures(load, truck) }))
+    .filter(
+      ({ dhKm, failures }) =>
+        dhKm !== null && dhKm <= NEAR_MISS_MAX_DH_KM && failures.length === 1
+    )
+    .sort((a, b) => (a.dhKm as number) - (b.dhKm as number))
+    .slice(0, limit)
+    .map(({ load, dhKm, failures }) => ({
+      ...load,
+      dhOriginKm: dhKm as number,
+      nearMissConstraint: failures[0].constraint,
+      nearMissReason: failures[0].reason,
+    }));
+}
@@ -84,6 +84,9 @@ export function getNotificationRoute(
 
     // ── Exceptions & escalations ────────────────────────────────────────────
     case "EXCEPTION_CREATED":
+    case "ROUTE_DEVIATION":
+    case "UNSAFE_DRIVING":
+    case "DEVICE_ALARM":
       if (isDispatcher)
         return m.escalationId
           ? `/dispatcher/escalations/${m.escalationId}`
@@ -119,6 +122,10 @@ export function getNotificationRoute(
     case "SERVICE_FEE_FAILED":
       return isAdmin ? `/admin/settlement/review` : null;
 
+    case "DETENTION_CHARGE_PENDING":
+      if (isAdmin) return `/admin/settlement/review`;
+      return isShipper ? `/shipper/wallet` : null;
+
     case "WALLET_TOPUP_CONFIRMED":
       if (isCarrier) return `/carrier/wallet`;
       if (isShipper) return `/shipper/wallet`;
@@ -158,6 +165,24 @@ export function getNotificationRoute(
         ? `/carrier/requests?highlight=${m.requestId}`
         : `/carrier/requests`;
 
+    // ── Load auctions ───────────────────────────────────────────────────────
+    case "AUCTION_CLOSED":
+      return m.loadId ? `/shipper/loads/${m.loadId}` : null;
+    case "BID_AWARDED":
+      return `/carrier/requests?tab=my-requests`;
+    case "BID_NOT_SELECTED":
+      return `/carrier/loadboard`;
+
+    // ── Dock appointments ───────────────────────────────────────────────────
+    case "DOCK_APPOINTMENT_UPDATED":
+      return isShipper && m.loadId ? `/shipper/loads/${m.loadId}` : null;
+
+    // ── Carrier networks ────────────────────────────────────────────────────
+    case "CARRIER_NETWORK_UPDATED":
+      if (isCarrier) return `/carrier/loadboard`;
+      if (isShipper) return `/shipper/settings`;
+      return null;
+
     // ── Shipper request flow ────────────────────────────────────────────────
     case "LOAD_REQUEST_RECEIVED":
       return m.loadRequestId
@@ -256,6 +281,7 @@ export function getNotificationRoute(
     case "GPS_OFFLINE":
     case "TRUCK_AT_PICKUP":
     case "TRUCK_AT_DELIVERY":
+    case "TRUCK_AT_STOP":
       return m.loadId ? `/carrier/trips/${m.loadId}` : null;
 
     case "GPS_NO_DATA":
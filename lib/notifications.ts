@@ -17,6 +17,7 @@ export const NotificationType = {
   GPS_OFFLINE: "GPS_OFFLINE",
   TRUCK_AT_PICKUP: "TRUCK_AT_PICKUP",
   TRUCK_AT_DELIVERY: "TRUCK_AT_DELIVERY",
+  TRUCK_AT_STOP: "TRUCK_AT_STOP",
 
   // Settlement Events
   POD_SUBMITTED: "POD_SUBMITTED",
@@ -28,6 +29,9 @@ export const NotificationType = {
 
   // Exceptions
   EXCEPTION_CREATED: "EXCEPTION_CREATED",
+  ROUTE_DEVIATION: "ROUTE_DEVIATION",
+  UNSAFE_DRIVING: "UNSAFE_DRIVING",
+  DEVICE_ALARM: "DEVICE_ALARM",
   ESCALATION_ASSIGNED: "ESCALATION_ASSIGNED",
   ESCALATION_RESOLVED: "ESCALATION_RESOLVED",
 
@@ -50,6 +54,17 @@ export const NotificationType = {
   TRUCK_REQUEST_REJECTED: "TRUCK_REQUEST_REJECTED",
   REQUEST_REJECTED: "REQUEST_REJECTED",
 
+  // Load Auctions (AUCTION book mode)
+  AUCTION_CLOSED: "AUCTION_CLOSED",
+  BID_AWARDED: "BID_AWARDED",
+  BID_NOT_SELECTED: "BID_NOT_SELECTED",
+
+  // Dock Appointments (carrier booked, moved or cancelled a slot)
+  DOCK_APPOINTMENT_UPDATED: "DOCK_APPOINTMENT_UPDATED",
+
+  // Carrier Networks (invitation, join request or membership accepted)
+  CARRIER_NETWORK_UPDATED: "CARRIER_NETWORK_UPDATED",
+
   // Return Load Notifications (Service Fee Implementation)
   RETURN_LOAD_AVAILABLE: "RETURN_LOAD_AVAILABLE",
   RETURN_LOAD_MATCHED: "RETURN_LOAD_MATCHED",
@@ -70,6 +85,7 @@ export const NotificationType = {
 
   // Financial Integrity Alerts
   PARTIAL_FEE_COLLECTION: "PARTIAL_FEE_COLLECTION",
+  DETENTION_CHARGE_PENDING: "DETENTION_CHARGE_PENDING",
 
   // Registration & Approval
   TRUCK_APPROVED: "TRUCK_APPROVED",
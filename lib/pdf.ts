@@ -0,0 +1,174 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Renders plain text documents (rate confirmations and similar forms)
+ * without a PDF dependency: A4 pages, built-in Helvetica / Helvetica-Bold,
+ * word wrapping and automatic page breaks. Captured signatures are drawn
+ * as vector strokes inside a box below their line.
+ *
+ * Text is encoded as WinAnsi; characters outside Latin-1 (e.g. Ge'ez
+ * script) are replaced with "?".
+ */
+
+export interface PdfLine {
+  text: string;
+  /** Font size in points (default 10) */
+  size?: number;
+  bold?: boolean;
+  /** Extra space above the line in points */
+  gapBefore?: number;
+  /** Signature drawn in a box below the text */
+  signature?: SignatureStrokes;
+}
+
+/**
+ * Signature strokes as captured on a touch pad: each stroke is a list of
+ * [x, y] points normalized to 0..1, with y growing downwards.
+ */
+export type SignatureStrokes = Array<Array<[number, number]>>;
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+const SIGNATURE_WIDTH = 200;
+const SIGNATURE_HEIGHT = 60;
+
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Split a line so it fits the page width. Helvetica averages about half
+ * an em per character, which is close enough for form text.
+ */
+function wrapText(text: string, size: number): string[] {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * 0.5));
+  if (text.length <= maxChars) return [text];
+
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(" ")) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${word}` : word;
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+/**
+ * Drawing operators for a signature box whose bottom-left corner is at
+ * (MARGIN, bottom)
+ */
+function signatureOps(strokes: SignatureStrokes, bottom: number): string[] {
+  const point = ([x, y]: [number, number]) =>
+    `${(MARGIN + x * SIGNATURE_WIDTH).toFixed(2)} ${(bottom + (1 - y) * SIGNATURE_HEIGHT).toFixed(2)}`;
+
+  const ops = [
+    `0.5 w ${MARGIN} ${bottom.toFixed(2)} ${SIGNATURE_WIDTH} ${SIGNATURE_HEIGHT} re S`,
+    "1 w 1 J 1 j",
+  ];
+  for (const stroke of strokes) {
+    if (stroke.length === 0) continue;
+    // A single tap still leaves a dot
+    const [first, ...rest] =
+      stroke.length === 1 ? [stroke[0], stroke[0]] : stroke;
+    ops.push(
+      [`${point(first)} m`, ...rest.map((p) => `${point(p)} l`), "S"].join(" ")
+    );
+  }
+  return ops;
+}
+
+/**
+ * Render lines of text into a PDF document
+ */
+export function renderTextPdf(lines: PdfLine[]): Buffer {
+  // Lay out lines into page content streams
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    const font = line.bold ? "F2" : "F1";
+    const wrapped = line.text ? wrapText(line.text, size) : [""];
+
+    wrapped.forEach((text, index) => {
+      const leading = size * 1.4 + (index === 0 ? (line.gapBefore ?? 0) : 0);
+      if (y - leading < MARGIN && ops.length > 0) {
+        pages.push(ops.join("\n"));
+        ops = [];
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      if (text) {
+        ops.push(
+          `BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET`
+        );
+      }
+    });
+
+    if (line.signature) {
+      const height = SIGNATURE_HEIGHT + 6;
+      if (y - height < MARGIN) {
+        pages.push(ops.join("\n"));
+        ops = [];
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= height;
+      ops.push(...signatureOps(line.signature, y));
+    }
+  }
+  pages.push(ops.join("\n"));
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page + content pair
+  // per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  );
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+  );
+  objects.push(
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+  );
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, "latin1"));
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    body += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
@@ -15,6 +15,7 @@
 
 import { registerProcessor, JobData } from "../queue";
 import { logger } from "../logger";
+import type { RateConfirmationJobData } from "../rateConfirmation";
 
 // =============================================================================
 // EMAIL PROCESSORS
@@ -358,6 +359,29 @@ async function processPdfGenerate(
   }
 }
 
+/**
+ * Process rate confirmation generation (lib/rateConfirmation.ts)
+ */
+async function processRateConfirmation(
+  job: { id: string; name: string; data: JobData },
+  updateProgress: (progress: number) => Promise<void>
+): Promise<void> {
+  const data = job.data as RateConfirmationJobData;
+
+  await updateProgress(10);
+
+  const { generateRateConfirmation } = await import("../rateConfirmation");
+  const document = await generateRateConfirmation(data);
+
+  await updateProgress(100);
+
+  logger.info("Rate confirmation generated via queue", {
+    jobId: job.id,
+    loadId: data.loadId,
+    documentId: document?.id,
+  });
+}
+
 // =============================================================================
 // CLEANUP PROCESSORS
 // =============================================================================
@@ -554,6 +578,22 @@ async function processBulkStatusUpdate(
   });
 }
 
+/**
+ * Process bulk load import (lib/loadImport.ts)
+ */
+async function processLoadImport(
+  job: { id: string; name: string; data: JobData },
+  updateProgress: (progress: number) => Promise<void>
+): Promise<void> {
+  const { importId } = job.data as { importId: string };
+
+  const { runLoadImport } = await import("../loadImport");
+  await runLoadImport(importId, updateProgress);
+  await updateProgress(100);
+
+  logger.info("Load import job completed", { jobId: job.id, importId });
+}
+
 // =============================================================================
 // SCHEDULED JOB PROCESSORS
 // =============================================================================
@@ -629,6 +669,7 @@ export function registerAllProcessors(): void {
 
   // PDF processors
   registerProcessor("pdf", "generate", processPdfGenerate);
+  registerProcessor("pdf", "rate-confirmation", processRateConfirmation);
 
   // Cleanup processors
   registerProcessor("cleanup", "expire-loads", processCleanupExpiredLoads);
@@ -641,6 +682,7 @@ export function registerAllProcessors(): void {
 
   // Bulk operation processors
   registerProcessor("bulk", "status-update", processBulkStatusUpdate);
+  registerProcessor("bulk", "load-import", processLoadImport);
 
   // Scheduled job processors
   registerProcessor("scheduled", "auto-settle", processAutoSettle);
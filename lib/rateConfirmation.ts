@@ -0,0 +1,390 @@
+/**
+ * Rate Confirmation
+ *
+ * When a booking is confirmed (LoadRequest confirmed by the carrier, or
+ * TruckRequest approved by the carrier) a rate confirmation PDF is
+ * generated on the `pdf` queue and stored as a RATE_CONFIRMATION load
+ * Document, so both parties can download it from /api/loads/[id]/documents.
+ *
+ * The document records the parties, truck and driver, route, cargo, the
+ * agreed rate and the platform service fees at booking time.
+ */
+
+import { db } from "./db";
+import { logger } from "./logger";
+import { addJob, isQueueReadySync } from "./queue";
+import { uploadDocument } from "./storage";
+import { calculateServiceFee } from "./serviceFeeCalculation";
+import { formatDate } from "./formatters";
+import { renderTextPdf, PdfLine } from "./pdf";
+
+export type RateConfirmationRequestType = "LOAD_REQUEST" | "TRUCK_REQUEST";
+
+export type RateConfirmationJobData = {
+  loadId: string;
+  requestType: RateConfirmationRequestType;
+  requestId: string;
+};
+
+interface PartyDetails {
+  name: string;
+  taxId: string | null;
+  licenseNumber: string | null;
+  contactPhone: string;
+  contactEmail: string;
+}
+
+export interface RateConfirmationData {
+  loadId: string;
+  requestType: RateConfirmationRequestType;
+  requestId: string;
+  confirmedAt: Date;
+  shipper: PartyDetails;
+  carrier: PartyDetails;
+  truck: { licensePlate: string; truckType: string };
+  driver: { name: string; phone: string | null } | null;
+  stops: Array<{
+    type: "PICKUP" | "DROPOFF";
+    city: string;
+    address: string | null;
+    date: Date | null;
+  }>;
+  cargo: {
+    description: string;
+    truckType: string;
+    weightKg: number;
+    volumeM3: number | null;
+    fullPartial: string;
+  };
+  /** Agreed rate; null when pricing was negotiated off-platform */
+  rate: number | null;
+  currency: string;
+  fees: {
+    shipperFee: number;
+    carrierFee: number;
+    distanceKm: number;
+    corridorName: string;
+  } | null;
+  specialInstructions: string | null;
+}
+
+/** Description stored on the Document; identifies the booking it covers */
+function documentDescription(requestType: string, requestId: string): string {
+  return `Rate confirmation (${requestType} ${requestId})`;
+}
+
+const partySelect = {
+  name: true,
+  taxId: true,
+  licenseNumber: true,
+  contactPhone: true,
+  contactEmail: true,
+} as const;
+
+/**
+ * Gather everything the rate confirmation shows
+ */
+export async function getRateConfirmationData(
+  job: RateConfirmationJobData
+): Promise<RateConfirmationData | null> {
+  const request =
+    job.requestType === "LOAD_REQUEST"
+      ? await db.loadRequest.findUnique({
+          where: { id: job.requestId },
+          select: {
+            status: true,
+            truckId: true,
+            proposedRate: true,
+            confirmedAt: true,
+            respondedAt: true,
+          },
+        })
+      : await db.truckRequest.findUnique({
+          where: { id: job.requestId },
+          select: {
+            status: true,
+            truckId: true,
+            offeredRate: true,
+            respondedAt: true,
+          },
+        });
+
+  if (!request || request.status !== "APPROVED") return null;
+
+  const load = await db.load.findUnique({
+    where: { id: job.loadId },
+    include: {
+      shipper: { select: partySelect },
+      stops: { orderBy: { sequence: "asc" } },
+    },
+  });
+  const trip = await db.trip.findUnique({
+    where: { loadId: job.loadId },
+    select: {
+      driver: { select: { firstName: true, lastName: true, phone: true } },
+    },
+  });
+  const truck = await db.truck.findUnique({
+    where: { id: request.truckId },
+    select: {
+      licensePlate: true,
+      truckType: true,
+      carrier: { select: partySelect },
+    },
+  });
+
+  if (!load || !truck) return null;
+
+  const rate =
+    "proposedRate" in request ? request.proposedRate : request.offeredRate;
+  const confirmedAt =
+    ("confirmedAt" in request ? request.confirmedAt : null) ??
+    request.respondedAt ??
+    new Date();
+
+  const fee = await calculateServiceFee(load.id).catch((error) => {
+    logger.warn("Rate confirmation: service fee unavailable", {
+      loadId: load.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  });
+
+  const driver = trip?.driver;
+
+  return {
+    loadId: load.id,
+    requestType: job.requestType,
+    requestId: job.requestId,
+    confirmedAt,
+    shipper: load.shipper,
+    carrier: truck.carrier,
+    truck: { licensePlate: truck.licensePlate, truckType: truck.truckType },
+    driver: driver
+      ? {
+          name:
+            [driver.firstName, driver.lastName].filter(Boolean).join(" ") ||
+            "Unnamed driver",
+          phone: driver.phone,
+        }
+      : null,
+    stops:
+      load.stops.length > 0
+        ? load.stops.map((stop) => ({
+            type: stop.stopType,
+            city: stop.city,
+            address: stop.address,
+            date: stop.appointmentStart,
+          }))
+        : [
+            {
+              type: "PICKUP",
+              city: load.pickupCity ?? "",
+              address: load.pickupAddress,
+              date: load.pickupDate,
+            },
+            {
+              type: "DROPOFF",
+              city: load.deliveryCity ?? "",
+              address: load.deliveryAddress,
+              date: load.deliveryDate,
+            },
+          ],
+    cargo: {
+      description: load.cargoDescription,
+      truckType: load.truckType,
+      weightKg: Number(load.weight),
+      volumeM3: load.volume !== null ? Number(load.volume) : null,
+      fullPartial: load.fullPartial ?? "FULL",
+    },
+    rate: rate !== null && rate !== undefined ? Number(rate) : null,
+    currency: load.currency,
+    fees: fee
+      ? {
+          shipperFee: fee.shipper.finalFee,
+          carrierFee: fee.carrier.finalFee,
+          distanceKm: fee.distanceKm,
+          corridorName: fee.corridorName,
+        }
+      : null,
+    specialInstructions: load.specialInstructions,
+  };
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function partyLines(label: string, party: PartyDetails): PdfLine[] {
+  return [
+    { text: label, bold: true, gapBefore: 8 },
+    { text: party.name },
+    { text: `TIN: ${party.taxId ?? "Not provided"}` },
+    ...(party.licenseNumber
+      ? [{ text: `License: ${party.licenseNumber}` }]
+      : []),
+    { text: `Contact: ${party.contactPhone} / ${party.contactEmail}` },
+  ];
+}
+
+/**
+ * Lay out the rate confirmation as PDF lines
+ */
+export function buildRateConfirmationLines(
+  data: RateConfirmationData
+): PdfLine[] {
+  const lines: PdfLine[] = [
+    { text: "RATE CONFIRMATION", size: 18, bold: true },
+    { text: `Load reference: ${data.loadId}`, gapBefore: 6 },
+    { text: `Booking reference: ${data.requestId}` },
+    { text: `Confirmed: ${formatDate(data.confirmedAt)}` },
+    ...partyLines("SHIPPER", data.shipper),
+    ...partyLines("CARRIER", data.carrier),
+    { text: "EQUIPMENT", bold: true, gapBefore: 8 },
+    {
+      text: `Truck: ${data.truck.licensePlate} (${data.truck.truckType})`,
+    },
+    {
+      text: data.driver
+        ? `Driver: ${data.driver.name}${data.driver.phone ? `, ${data.driver.phone}` : ""}`
+        : "Driver: To be assigned by carrier",
+    },
+    { text: "ROUTE", bold: true, gapBefore: 8 },
+  ];
+
+  data.stops.forEach((stop, index) => {
+    const parts = [
+      `${index + 1}. ${stop.type === "PICKUP" ? "Pickup" : "Drop"}: ${stop.city}`,
+      stop.address,
+      stop.date ? formatDate(stop.date) : null,
+    ];
+    lines.push({ text: parts.filter(Boolean).join(" - ") });
+  });
+
+  lines.push(
+    { text: "CARGO", bold: true, gapBefore: 8 },
+    { text: data.cargo.description },
+    {
+      text: [
+        `${data.cargo.weightKg.toLocaleString("en-US")} kg`,
+        data.cargo.volumeM3 !== null ? `${data.cargo.volumeM3} m3` : null,
+        data.cargo.truckType,
+        data.cargo.fullPartial,
+      ]
+        .filter(Boolean)
+        .join(" / "),
+    },
+    { text: "RATE", bold: true, gapBefore: 8 },
+    {
+      text:
+        data.rate !== null
+          ? `Agreed rate: ${formatAmount(data.rate, data.currency)}`
+          : "Agreed rate: Not specified (negotiated directly between the parties)",
+    }
+  );
+
+  if (data.fees) {
+    lines.push(
+      {
+        text: `Platform service fee (shipper): ${formatAmount(data.fees.shipperFee, "ETB")}`,
+      },
+      {
+        text: `Platform service fee (carrier): ${formatAmount(data.fees.carrierFee, "ETB")}`,
+      },
+      {
+        text: `Corridor: ${data.fees.corridorName}, ${data.fees.distanceKm} km. Fees are deducted from each party's wallet on delivery.`,
+      }
+    );
+  } else {
+    lines.push({ text: "Platform service fee: No corridor pricing applies" });
+  }
+
+  if (data.specialInstructions) {
+    lines.push(
+      { text: "SPECIAL INSTRUCTIONS", bold: true, gapBefore: 8 },
+      { text: data.specialInstructions }
+    );
+  }
+
+  lines.push({
+    text: "This confirmation was generated automatically when the booking was confirmed on the platform.",
+    size: 8,
+    gapBefore: 16,
+  });
+
+  return lines;
+}
+
+/**
+ * Generate the PDF and store it as a load Document.
+ * Returns the existing document if this booking already has one.
+ */
+export async function generateRateConfirmation(job: RateConfirmationJobData) {
+  const description = documentDescription(job.requestType, job.requestId);
+
+  const existing = await db.document.findFirst({
+    where: { loadId: job.loadId, type: "RATE_CONFIRMATION", description },
+  });
+  if (existing) return existing;
+
+  const data = await getRateConfirmationData(job);
+  if (!data) {
+    logger.warn("Rate confirmation skipped: booking not found or not active", {
+      loadId: job.loadId,
+      requestId: job.requestId,
+    });
+    return null;
+  }
+
+  const pdf = renderTextPdf(buildRateConfirmationLines(data));
+  const fileName = `rate-confirmation-${job.loadId.slice(-8)}.pdf`;
+
+  const upload = await uploadDocument(
+    { buffer: pdf, name: fileName, type: "application/pdf" },
+    "rate-confirmation",
+    job.loadId
+  );
+  if (!upload.success || !upload.url) {
+    throw new Error(upload.error || "Rate confirmation upload failed");
+  }
+
+  return db.document.create({
+    data: {
+      loadId: job.loadId,
+      type: "RATE_CONFIRMATION",
+      fileName,
+      fileUrl: upload.url,
+      fileSize: pdf.length,
+      mimeType: "application/pdf",
+      description,
+    },
+  });
+}
+
+/**
+ * Queue rate confirmation generation for a confirmed booking.
+ * Falls back to generating inline if the queue is unavailable.
+ */
+export async function queueRateConfirmation(
+  job: RateConfirmationJobData
+): Promise<void> {
+  if (isQueueReadySync()) {
+    try {
+      await addJob("pdf", "rate-confirmation", job, {
+        attempts: 3,
+        backoff: { type: "exponential", delay: 5000 },
+      });
+      return;
+    } catch (error) {
+      logger.warn("Rate confirmation queue failed, generating inline", {
+        loadId: job.loadId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  await generateRateConfirmation(job);
+}
@@ -15,6 +15,7 @@
 
 import { db } from "@/lib/db";
 import { createNotification, NotificationType } from "./notifications";
+import { getNetworkShipperIds, visibleLoadsWhere } from "@/lib/carrierNetworks";
 
 export interface ReturnLoadMatch {
   loadId: string;
@@ -62,6 +63,8 @@ export async function findReturnLoads(
         { pickupCity: destinationRegion },
         { pickupLocation: { region: destinationRegion } },
       ],
+      // Private load board: network loads only for the shipper's network
+      AND: [visibleLoadsWhere(await getNetworkShipperIds(carrierId))],
       ...(truckType ? { truckType: truckType as never } : {}),
     },
     include: {
@@ -0,0 +1,281 @@
+/**
+ * Route Deviation Detection
+ *
+ * When a trip starts, its planned route from pickup to delivery is stored on
+ * the trip (Trip.plannedRoute): the Google Directions polyline, or the
+ * straight line between the two points when the API is unavailable.
+ *
+ * Each GPS position ingested for an IN_TRANSIT trip is measured against that
+ * route. A position farther than the corridor width opens a RouteDeviation;
+ * the next position back inside closes it. A deviation that lasts the
+ * configured time raises a ROUTE_DEVIATION escalation (one per load while it
+ * is open) and notifies dispatchers, the shipper and the carrier.
+ *
+ * Corridor width and duration are admin settings (SystemSettings).
+ */
+
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { distanceToPathKm } from "@/lib/geo";
+import { getPlannedRoute } from "@/lib/googleRoutes";
+import {
+  createNotificationForRole,
+  notifyOrganization,
+  NotificationType,
+} from "@/lib/notifications";
+import { logger } from "@/lib/logger";
+
+const MINUTE_MS = 60 * 1000;
+
+/** Corridor half-width and duration used when no settings row exists */
+export const DEFAULT_CORRIDOR_KM = 5;
+export const DEFAULT_DEVIATION_MINUTES = 15;
+
+/** Escalation statuses that still cover new deviations on the same load */
+const OPEN_ESCALATION_STATUSES = ["OPEN", "ASSIGNED", "IN_PROGRESS"] as const;
+
+export interface RouteDeviationCheck {
+  distanceKm: number;
+  offRoute: boolean;
+  /** Set when this position made the deviation sustained */
+  escalationId?: string;
+}
+
+/** Trip.plannedRoute as [lat, lng] pairs, or null if missing or malformed */
+export function parsePlannedRoute(
+  value: Prisma.JsonValue | null | undefined
+): Array<[number, number]> | null {
+  if (!Array.isArray(value) || value.length < 2) return null;
+  const points: Array<[number, number]> = [];
+  for (const point of value) {
+    if (
+      !Array.isArray(point) ||
+      typeof point[0] !== "number" ||
+      typeof point[1] !== "number"
+    ) {
+      return null;
+    }
+    points.push([point[0], point[1]]);
+  }
+  return points;
+}
+
+/**
+ * Store the planned route for a trip that is starting
+ *
+ * Returns false when the trip has no pickup or delivery coordinates.
+ */
+export async function storePlannedRoute(tripId: string): Promise<boolean> {
+  const trip = await db.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      pickupLat: true,
+      pickupLng: true,
+      deliveryLat: true,
+      deliveryLng: true,
+    },
+  });
+  if (
+    !trip?.pickupLat ||
+    !trip.pickupLng ||
+    !trip.deliveryLat ||
+    !trip.deliveryLng
+  ) {
+    return false;
+  }
+
+  const route = await getPlannedRoute(
+    { lat: Number(trip.pickupLat), lng: Number(trip.pickupLng) },
+    { lat: Number(trip.deliveryLat), lng: Number(trip.deliveryLng) }
+  );
+  await db.trip.update({
+    where: { id: tripId },
+    data: { plannedRoute: route.points, plannedRouteSource: route.source },
+  });
+  return true;
+}
+
+async function getDeviationSettings() {
+  const settings = await db.systemSettings.findUnique({
+    where: { id: "system" },
+    select: { routeDeviationCorridorKm: true, routeDeviationMinMinutes: true },
+  });
+  return {
+    corridorKm: settings?.routeDeviationCorridorKm || DEFAULT_CORRIDOR_KM,
+    minMinutes: settings?.routeDeviationMinMinutes || DEFAULT_DEVIATION_MINUTES,
+  };
+}
+
+/**
+ * Check a trip's GPS position against its planned route corridor
+ *
+ * Returns null when the trip is not in transit or has no planned route.
+ */
+export async function checkRouteDeviation(
+  tripId: string,
+  latitude: number,
+  longitude: number,
+  timestamp: Date = new Date()
+): Promise<RouteDeviationCheck | null> {
+  const trip = await db.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      status: true,
+      loadId: true,
+      carrierId: true,
+      shipperId: true,
+      plannedRoute: true,
+      pickupCity: true,
+      deliveryCity: true,
+      truck: { select: { licensePlate: true } },
+    },
+  });
+  // Before pickup the truck is driving to the route, not along it
+  if (!trip || trip.status !== "IN_TRANSIT") return null;
+  const route = parsePlannedRoute(trip.plannedRoute);
+  if (!route) return null;
+
+  const { corridorKm, minMinutes } = await getDeviationSettings();
+  const distanceKm = distanceToPathKm(latitude, longitude, route);
+  const offRoute = distanceKm > corridorKm;
+
+  const open = await db.routeDeviation.findFirst({
+    where: { tripId, endedAt: null },
+  });
+
+  if (!offRoute) {
+    if (open) {
+      await db.routeDeviation.update({
+        where: { id: open.id },
+        data: { endedAt: timestamp },
+      });
+    }
+    return { distanceKm, offRoute };
+  }
+
+  const deviation = open
+    ? await db.routeDeviation.update({
+        where: { id: open.id },
+        data: {
+          maxDistanceKm: Math.max(Number(open.maxDistanceKm), distanceKm),
+        },
+      })
+    : await db.routeDeviation.create({
+        data: {
+          tripId,
+          loadId: trip.loadId,
+          startedAt: timestamp,
+          maxDistanceKm: distanceKm,
+        },
+      });
+
+  const sustained =
+    timestamp.getTime() - deviation.startedAt.getTime() >=
+    minMinutes * MINUTE_MS;
+  if (!sustained || deviation.escalationId || !trip.loadId) {
+    return { distanceKm, offRoute };
+  }
+
+  const escalationId = await escalateDeviation(
+    { ...trip, loadId: trip.loadId },
+    deviation.id,
+    Number(deviation.maxDistanceKm),
+    minMinutes
+  );
+  return { distanceKm, offRoute, escalationId };
+}
+
+/**
+ * Raise the ROUTE_DEVIATION escalation for a sustained deviation, reusing
+ * the load's open one if there is one
+ */
+async function escalateDeviation(
+  trip: {
+    id: string;
+    loadId: string;
+    carrierId: string;
+    shipperId: string;
+    pickupCity: string | null;
+    deliveryCity: string | null;
+    truck: { licensePlate: string } | null;
+  },
+  deviationId: string,
+  distanceKm: number,
+  minMinutes: number
+): Promise<string> {
+  const existing = await db.loadEscalation.findFirst({
+    where: {
+      loadId: trip.loadId,
+      escalationType: "ROUTE_DEVIATION",
+      status: { in: [...OPEN_ESCALATION_STATUSES] },
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    await db.routeDeviation.update({
+      where: { id: deviationId },
+      data: { escalationId: existing.id },
+    });
+    return existing.id;
+  }
+
+  const plate = trip.truck?.licensePlate ?? "The truck";
+  const lane = `${trip.pickupCity ?? "pickup"} → ${trip.deliveryCity ?? "delivery"}`;
+  const distance = distanceKm.toFixed(1);
+  const title = `Truck off planned route for ${minMinutes}+ minutes`;
+  const description = `${plate} is ${distance} km from the planned route (${lane}).`;
+
+  const escalation = await db.loadEscalation.create({
+    data: {
+      loadId: trip.loadId,
+      escalationType: "ROUTE_DEVIATION",
+      priority: "HIGH",
+      title,
+      description,
+      createdBy: "SYSTEM",
+      status: "OPEN",
+    },
+  });
+  await db.routeDeviation.update({
+    where: { id: deviationId },
+    data: { escalationId: escalation.id },
+  });
+  await db.loadEvent.create({
+    data: {
+      loadId: trip.loadId,
+      eventType: "ESCALATION_AUTO_CREATED",
+      description: `Auto-created escalation: ${title}`,
+      metadata: {
+        escalationId: escalation.id,
+        escalationType: "ROUTE_DEVIATION",
+        priority: "HIGH",
+        autoDetected: true,
+        deviationId,
+      },
+    },
+  });
+
+  const notification = {
+    type: NotificationType.ROUTE_DEVIATION,
+    title: "Route Deviation",
+    message: description,
+    metadata: {
+      tripId: trip.id,
+      loadId: trip.loadId,
+      escalationId: escalation.id,
+      distanceKm: Number(distance),
+    },
+  };
+  Promise.all([
+    createNotificationForRole({ role: "DISPATCHER", ...notification }),
+    notifyOrganization({ organizationId: trip.shipperId, ...notification }),
+    notifyOrganization({ organizationId: trip.carrierId, ...notification }),
+  ]).catch((err) =>
+    logger.error("Route deviation notification failed", err, {
+      tripId: trip.id,
+    })
+  );
+
+  return escalation.id;
+}
@@ -0,0 +1,419 @@
+/**
+ * Routing Guides
+ *
+ * A RoutingGuide is a shipper's ordered list of preferred carriers for a
+ * lane (pickup and delivery city). A load posted on the lane is tendered to
+ * those carriers one at a time as a TruckRequest, each with the carrier's
+ * own response timeout, before it reaches the public board.
+ *
+ * Conventions:
+ * - Load.tenderRank is the rank currently tendered. While it is set the load
+ *   is OFFERED and kept off the load board, the match index and carrier
+ *   load requests
+ * - Tender requests carry TruckRequest.tenderRank
+ * - A rejection moves on at once (truck-requests respond route); expired and
+ *   cancelled tenders are moved on by the advance-tenders cron
+ *   (advanceDueTenders)
+ * - Carriers without an approved, insured, available truck of the load's
+ *   type are skipped
+ * - After the last carrier the load falls through to POSTED
+ * - Every step is recorded on the load's LoadEvent timeline (TENDER_OFFERED,
+ *   TENDER_SKIPPED, TENDER_EXPIRED, TENDER_EXHAUSTED; rejections keep the
+ *   respond route's REQUEST_REJECTED)
+ */
+
+import { z } from "zod";
+import { OrganizationType, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { CacheInvalidation } from "@/lib/cache";
+import { refreshLoadMatches } from "@/lib/matchIndex";
+import { notifyOrganization, NotificationType } from "@/lib/notifications";
+
+/** Carrier organization types (tendered loads, carrier network members) */
+export const CARRIER_ORG_TYPES: OrganizationType[] = [
+  "CARRIER_COMPANY",
+  "CARRIER_INDIVIDUAL",
+  "CARRIER_ASSOCIATION",
+  "FLEET_OWNER",
+];
+
+/** Most carriers a guide may list */
+export const MAX_GUIDE_CARRIERS = 20;
+
+/**
+ * POST /api/routing-guides body. Carriers are tendered in list order.
+ */
+export const routingGuideSchema = z.object({
+  pickupCity: z.string().min(2).max(200),
+  deliveryCity: z.string().min(2).max(200),
+  isActive: z.boolean().default(true),
+  carriers: z
+    .array(
+      z.object({
+        carrierId: z.string().min(1),
+        // 5 minutes to 7 days
+        responseTimeoutMinutes: z.number().int().min(5).max(10080).default(120),
+      })
+    )
+    .min(1)
+    .max(MAX_GUIDE_CARRIERS)
+    .refine(
+      (carriers) =>
+        new Set(carriers.map((c) => c.carrierId)).size === carriers.length,
+      "A carrier can only appear once in a routing guide"
+    ),
+});
+
+/** PATCH /api/routing-guides/[id] body; `carriers` replaces the whole list */
+export const updateRoutingGuideSchema = z.object({
+  isActive: z.boolean().optional(),
+  carriers: routingGuideSchema.shape.carriers.optional(),
+});
+
+export type RoutingGuideCarrierInput = z.infer<
+  typeof routingGuideSchema
+>["carriers"][number];
+
+/**
+ * Check that every listed carrier is a carrier organization
+ *
+ * @returns Error message, or null when all carriers exist
+ */
+export async function validateGuideCarriers(
+  carriers: RoutingGuideCarrierInput[]
+): Promise<string | null> {
+  const ids = carriers.map((c) => c.carrierId);
+  const found = await db.organization.findMany({
+    where: { id: { in: ids }, type: { in: CARRIER_ORG_TYPES } },
+    select: { id: true },
+  });
+  const foundIds = new Set(found.map((o) => o.id));
+  const missing = ids.filter((id) => !foundIds.has(id));
+  return missing.length > 0
+    ? `Unknown carrier organization: ${missing.join(", ")}`
+    : null;
+}
+
+/** RoutingGuideCarrier rows for a carrier list, ranked from 1 */
+export function guideCarrierRows(
+  routingGuideId: string,
+  carriers: RoutingGuideCarrierInput[]
+) {
+  return carriers.map((c, i) => ({
+    routingGuideId,
+    carrierId: c.carrierId,
+    rank: i + 1,
+    responseTimeoutMinutes: c.responseTimeoutMinutes,
+  }));
+}
+
+/** A guide with its carriers in tender order, as the API returns it */
+export const routingGuideInclude = {
+  carriers: {
+    include: { carrier: { select: { id: true, name: true } } },
+    orderBy: { rank: "asc" },
+  },
+} satisfies Prisma.RoutingGuideInclude;
+
+// ─── Tender waterfall ───────────────────────────────────────────────────────
+
+const tenderLoadSelect = {
+  id: true,
+  status: true,
+  bookMode: true,
+  assignedTruckId: true,
+  tenderRank: true,
+  shipperId: true,
+  createdById: true,
+  pickupCity: true,
+  deliveryCity: true,
+  truckType: true,
+  shipper: { select: { name: true } },
+} satisfies Prisma.LoadSelect;
+
+type TenderLoad = Prisma.LoadGetPayload<{ select: typeof tenderLoadSelect }>;
+
+async function recordTenderEvent(
+  loadId: string,
+  eventType: string,
+  description: string,
+  metadata: Prisma.InputJsonObject
+): Promise<void> {
+  await db.loadEvent.create({
+    data: { loadId, eventType, description, metadata },
+  });
+}
+
+/**
+ * A truck the carrier can take the load with: approved, insured, available
+ * and of the load's type, preferring one with an active posting
+ */
+async function pickTenderTruck(carrierId: string, load: TenderLoad) {
+  const trucks = await db.truck.findMany({
+    where: {
+      carrierId,
+      truckType: load.truckType,
+      approvalStatus: "APPROVED",
+      insuranceStatus: { in: ["VALID", "EXPIRING"] },
+      isAvailable: true,
+    },
+    select: {
+      id: true,
+      licensePlate: true,
+      postings: { where: { status: "ACTIVE" }, select: { id: true }, take: 1 },
+    },
+  });
+  return trucks.find((t) => t.postings.length > 0) ?? trucks[0] ?? null;
+}
+
+/** The shipper's active routing guide for the load's lane */
+async function findLaneGuide(load: TenderLoad) {
+  if (!load.pickupCity || !load.deliveryCity) return null;
+  return db.routingGuide.findFirst({
+    where: {
+      shipperId: load.shipperId,
+      pickupCity: load.pickupCity,
+      deliveryCity: load.deliveryCity,
+      isActive: true,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Tender the load to the first carrier ranked after `afterRank` that has a
+ * suitable truck, or post it to the public board when none is left
+ *
+ * @returns Whether a carrier was tendered
+ */
+async function tenderNext(
+  load: TenderLoad,
+  guideId: string | null,
+  afterRank: number,
+  now: Date
+): Promise<boolean> {
+  const entries = guideId
+    ? await db.routingGuideCarrier.findMany({
+        where: { routingGuideId: guideId },
+        include: { carrier: { select: { name: true } } },
+        orderBy: { rank: "asc" },
+      })
+    : [];
+
+  for (const entry of entries.filter((e) => e.rank > afterRank)) {
+    const truck = await pickTenderTruck(entry.carrierId, load);
+    if (!truck) {
+      await recordTenderEvent(
+        load.id,
+        "TENDER_SKIPPED",
+        `Routing guide #${entry.rank} ${entry.carrier.name} skipped: no available ${load.truckType} truck`,
+        {
+          routingGuideId: guideId,
+          rank: entry.rank,
+          carrierId: entry.carrierId,
+        }
+      );
+      continue;
+    }
+
+    const expiresAt = new Date(
+      now.getTime() + entry.responseTimeoutMinutes * 60 * 1000
+    );
+    const truckRequest = await db.truckRequest.create({
+      data: {
+        loadId: load.id,
+        truckId: truck.id,
+        shipperId: load.shipperId,
+        requestedById: load.createdById,
+        carrierId: entry.carrierId,
+        notes: `Routing guide tender (#${entry.rank})`,
+        expiresAt,
+        tenderRank: entry.rank,
+        status: "PENDING",
+      },
+    });
+    await db.load.update({
+      where: { id: load.id },
+      data: { status: "OFFERED", tenderRank: entry.rank },
+    });
+    await recordTenderEvent(
+      load.id,
+      "TENDER_OFFERED",
+      `Tendered to routing guide #${entry.rank} ${entry.carrier.name} (truck ${truck.licensePlate}), expires in ${entry.responseTimeoutMinutes} min`,
+      {
+        routingGuideId: guideId,
+        rank: entry.rank,
+        carrierId: entry.carrierId,
+        requestId: truckRequest.id,
+        truckId: truck.id,
+        expiresAt: expiresAt.toISOString(),
+      }
+    );
+    await CacheInvalidation.load(load.id, load.shipperId);
+    await refreshLoadMatches(load.id);
+
+    notifyOrganization({
+      organizationId: entry.carrierId,
+      type: NotificationType.TRUCK_REQUEST_RECEIVED,
+      title: "Load Tendered to You",
+      message: `${load.shipper.name} tendered a load from ${load.pickupCity} to ${load.deliveryCity} to truck ${truck.licensePlate}. Please respond within ${entry.responseTimeoutMinutes} minutes.`,
+      metadata: {
+        requestId: truckRequest.id,
+        loadId: load.id,
+        truckPlate: truck.licensePlate,
+      },
+    }).catch((err) => logger.error("Tender notification failed", err));
+    return true;
+  }
+
+  // No preferred carrier left: fall through to the public board
+  await db.load.update({
+    where: { id: load.id },
+    data: { status: "POSTED", tenderRank: null },
+  });
+  await recordTenderEvent(
+    load.id,
+    "TENDER_EXHAUSTED",
+    "No preferred carrier accepted; load posted to the public board",
+    { routingGuideId: guideId, lastRank: afterRank }
+  );
+  await CacheInvalidation.load(load.id, load.shipperId);
+  await refreshLoadMatches(load.id);
+  return false;
+}
+
+/**
+ * Start the tender waterfall for a newly posted load, when its shipper has
+ * an active routing guide for the lane. Auction loads are never tendered.
+ *
+ * Never throws: on failure the load simply stays on the public board.
+ *
+ * @returns Whether the load was tendered to a preferred carrier
+ */
+export async function startTenderWaterfall(
+  loadId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  try {
+    const load = await db.load.findUnique({
+      where: { id: loadId },
+      select: tenderLoadSelect,
+    });
+    if (
+      !load ||
+      load.status !== "POSTED" ||
+      load.bookMode === "AUCTION" ||
+      load.assignedTruckId
+    ) {
+      return false;
+    }
+
+    const guide = await findLaneGuide(load);
+    if (!guide) return false;
+
+    // A re-posted load starts over; tenders left from an earlier posting
+    // can no longer be accepted
+    await db.truckRequest.updateMany({
+      where: { loadId, tenderRank: { not: null }, status: "PENDING" },
+      data: { status: "CANCELLED" },
+    });
+
+    return await tenderNext(load, guide.id, 0, now);
+  } catch (error) {
+    logger.error("Failed to start tender waterfall", error, { loadId });
+    return false;
+  }
+}
+
+/**
+ * Move a tendering load on when its current tender is no longer pending:
+ * rejected, cancelled, or past its timeout (which is expired here).
+ * A load that left OFFERED some other way (assigned by hand, unposted,
+ * cancelled) just stops tendering.
+ *
+ * @returns Whether the waterfall moved on
+ */
+export async function advanceTender(
+  loadId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const load = await db.load.findUnique({
+    where: { id: loadId },
+    select: tenderLoadSelect,
+  });
+  if (!load || load.tenderRank == null) return false;
+
+  if (load.status !== "OFFERED" || load.assignedTruckId) {
+    await db.load.update({
+      where: { id: loadId },
+      data: { tenderRank: null },
+    });
+    return false;
+  }
+
+  const current = await db.truckRequest.findFirst({
+    where: { loadId, tenderRank: load.tenderRank },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      status: true,
+      expiresAt: true,
+      carrierId: true,
+    },
+  });
+  if (current?.status === "APPROVED") return false;
+  if (current?.status === "PENDING") {
+    if (current.expiresAt > now) return false;
+
+    // Guard against a concurrent response to the same tender
+    const { count } = await db.truckRequest.updateMany({
+      where: { id: current.id, status: "PENDING" },
+      data: { status: "EXPIRED" },
+    });
+    if (count === 0) return false;
+  }
+  if (current?.status === "PENDING" || current?.status === "EXPIRED") {
+    await recordTenderEvent(
+      loadId,
+      "TENDER_EXPIRED",
+      `Routing guide #${load.tenderRank} did not respond in time`,
+      {
+        rank: load.tenderRank,
+        carrierId: current.carrierId,
+        requestId: current.id,
+      }
+    );
+  }
+
+  const guide = await findLaneGuide(load);
+  await tenderNext(load, guide?.id ?? null, load.tenderRank, now);
+  return true;
+}
+
+/**
+ * Move on every tendering load whose tender expired or was withdrawn.
+ * Called by the advance-tenders cron.
+ */
+export async function advanceDueTenders(
+  now: Date = new Date()
+): Promise<{ checked: number; advanced: number }> {
+  const loads = await db.load.findMany({
+    where: { tenderRank: { not: null } },
+    select: { id: true },
+  });
+
+  let advanced = 0;
+  for (const load of loads) {
+    try {
+      if (await advanceTender(load.id, now)) advanced++;
+    } catch (error) {
+      logger.error("Failed to advance tender", error, { loadId: load.id });
+    }
+  }
+
+  if (advanced > 0) {
+    logger.info("Advanced routing guide tenders", { advanced });
+  }
+  return { checked: loads.length, advanced };
+}
@@ -0,0 +1,599 @@
+/**
+ * Saved Search Alerts
+ *
+ * Matches new POSTED loads and new ACTIVE truck postings against saved
+ * searches with alerts enabled, and delivers them on each search's channel
+ * (push, SMS through lib/sms or email through lib/emailService) at its
+ * frequency: every monitor run, or an hourly or daily digest. Nothing is
+ * sent during a search's quiet hours; matches wait for the next delivery.
+ *
+ * Network loads (lib/carrierNetworks.ts) only match searches of the
+ * shipper's network carriers; NETWORK_FIRST loads are matched for everyone
+ * else when they go public.
+ *
+ * Every match is stored as a SavedSearchMatch before anything is sent. The
+ * row is what keeps a load from being alerted twice, and unsent rows are
+ * the queue for the next digest. Load matches carry a one-click request
+ * link (/api/saved-search-alerts/[token]/request-load) that expires after
+ * ALERT_REQUEST_LINK_DAYS.
+ *
+ * Run by the saved-search-monitor cron (runSavedSearchMonitor).
+ */
+
+import { randomBytes } from "crypto";
+import { Prisma, SavedSearch, SavedSearchAlertFrequency } from "@prisma/client";
+import { db } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { createNotification, NotificationType } from "@/lib/notifications";
+import { sendSms } from "@/lib/sms";
+import {
+  DigestMatch,
+  EmailTemplate,
+  sendEmailToUser,
+} from "@/lib/emailService";
+import {
+  createLoadRequest,
+  LoadRequestResult,
+  REQUESTABLE_LOAD_STATUSES,
+} from "@/lib/loadRequests";
+import {
+  getNetworkShipperIdsByCarrier,
+  isLoadVisible,
+} from "@/lib/carrierNetworks";
+
+/**
+ * New listings are looked up over a window longer than the cron interval,
+ * so a late or skipped run loses nothing; stored matches stop repeats.
+ */
+const LOOKBACK_MINUTES = 60;
+
+/** Matches listed in one alert; the rest are summarised as "N more" */
+export const DIGEST_MAX_MATCHES = 20;
+
+/** Matches listed in an SMS, which has no room for a full digest */
+const SMS_MAX_MATCHES = 3;
+
+/** Quiet hours are set in East Africa Time (UTC+3, no daylight saving) */
+const QUIET_HOURS_UTC_OFFSET = 3;
+
+/** How long after the last alert each frequency may send again */
+const FREQUENCY_INTERVAL_MS: Record<SavedSearchAlertFrequency, number> = {
+  INSTANT: 0,
+  HOURLY: 60 * 60 * 1000,
+  DAILY: 24 * 60 * 60 * 1000,
+};
+
+/** Hours an alert-link load request stays open, as for the load board */
+const ALERT_REQUEST_EXPIRY_HOURS = 24;
+
+/** Days a one-click request link in an alert can be used */
+const ALERT_REQUEST_LINK_DAYS = 7;
+
+type AlertSearch = Pick<
+  SavedSearch,
+  "alertFrequency" | "lastAlertedAt" | "quietHoursStart" | "quietHoursEnd"
+>;
+
+/**
+ * Whether `now` falls inside the search's quiet hours. The window may wrap
+ * midnight (22 → 6); equal start and end hours mean no quiet hours.
+ */
+export function isInQuietHours(search: AlertSearch, now: Date): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = search;
+  if (start == null || end == null || start === end) return false;
+
+  const hour = (now.getUTCHours() + QUIET_HOURS_UTC_OFFSET) % 24;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * Whether the search may be sent an alert now: outside quiet hours, and
+ * its frequency's interval has passed since the last alert
+ */
+export function isAlertDue(search: AlertSearch, now: Date): boolean {
+  if (isInQuietHours(search, now)) return false;
+  if (!search.lastAlertedAt) return true;
+  return (
+    now.getTime() - search.lastAlertedAt.getTime() >=
+    FREQUENCY_INTERVAL_MS[search.alertFrequency]
+  );
+}
+
+// ─── Matching ───────────────────────────────────────────────────────────────
+
+const newLoadSelect = {
+  id: true,
+  pickupCity: true,
+  deliveryCity: true,
+  truckType: true,
+  weight: true,
+  shipperId: true,
+  visibility: true,
+  publicAt: true,
+} satisfies Prisma.LoadSelect;
+
+const newPostingSelect = {
+  id: true,
+  truck: { select: { id: true, truckType: true, capacity: true } },
+  originCity: { select: { name: true } },
+  destinationCity: { select: { name: true } },
+} satisfies Prisma.TruckPostingSelect;
+
+type NewLoad = Prisma.LoadGetPayload<{ select: typeof newLoadSelect }>;
+type NewPosting = Prisma.TruckPostingGetPayload<{
+  select: typeof newPostingSelect;
+}>;
+
+function loadMatchesCriteria(
+  load: NewLoad,
+  criteria: Record<string, unknown>
+): boolean {
+  const pickupCity = criteria.pickupCity as string | undefined;
+  const deliveryCity = criteria.deliveryCity as string | undefined;
+  const truckType = criteria.truckType as string | undefined;
+  const maxWeight = criteria.maxWeight as number | undefined;
+
+  if (pickupCity && load.pickupCity !== pickupCity) return false;
+  if (deliveryCity && load.deliveryCity !== deliveryCity) return false;
+  if (truckType && load.truckType !== truckType) return false;
+  if (maxWeight && load.weight && Number(load.weight) > maxWeight) return false;
+  return true;
+}
+
+function postingMatchesCriteria(
+  posting: NewPosting,
+  criteria: Record<string, unknown>
+): boolean {
+  const originCity = criteria.originCity as string | undefined;
+  const destinationCity = criteria.destinationCity as string | undefined;
+  const truckType = criteria.truckType as string | undefined;
+  const minCapacity = criteria.minCapacity as number | undefined;
+
+  if (originCity && posting.originCity?.name !== originCity) return false;
+  if (destinationCity && posting.destinationCity?.name !== destinationCity)
+    return false;
+  if (truckType && posting.truck.truckType !== truckType) return false;
+  if (
+    minCapacity &&
+    posting.truck.capacity &&
+    Number(posting.truck.capacity) < minCapacity
+  )
+    return false;
+  return true;
+}
+
+/**
+ * Store a search's matches that are not stored yet
+ *
+ * @returns Number of new matches
+ */
+async function recordMatches(
+  search: SavedSearch,
+  ids: string[]
+): Promise<number> {
+  if (ids.length === 0) return 0;
+  const field = search.type === "LOADS" ? "loadId" : "truckPostingId";
+
+  const existing = await db.savedSearchMatch.findMany({
+    where: { savedSearchId: search.id, [field]: { in: ids } },
+    select: { loadId: true, truckPostingId: true },
+  });
+  const seen = new Set(existing.map((m) => m.loadId ?? m.truckPostingId));
+  const fresh = ids.filter((id) => !seen.has(id));
+  if (fresh.length === 0) return 0;
+
+  const requestTokenExpiresAt = new Date(
+    Date.now() + ALERT_REQUEST_LINK_DAYS * 24 * 60 * 60 * 1000
+  );
+  await db.savedSearchMatch.createMany({
+    data: fresh.map((id) =>
+      search.type === "LOADS"
+        ? {
+            savedSearchId: search.id,
+            loadId: id,
+            requestToken: randomBytes(24).toString("hex"),
+            requestTokenExpiresAt,
+          }
+        : { savedSearchId: search.id, truckPostingId: id }
+    ),
+  });
+  return fresh.length;
+}
+
+// ─── Delivery ───────────────────────────────────────────────────────────────
+
+function appUrl(path: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}${path}`;
+}
+
+/** Link to confirm a load request in one click, without logging in */
+export function alertRequestUrl(requestToken: string): string {
+  return appUrl(`/api/saved-search-alerts/${requestToken}/request-load`);
+}
+
+const pendingMatchInclude = {
+  load: {
+    select: {
+      id: true,
+      status: true,
+      pickupCity: true,
+      deliveryCity: true,
+      truckType: true,
+      weight: true,
+      pickupDate: true,
+    },
+  },
+  truckPosting: {
+    select: {
+      id: true,
+      status: true,
+      availableFrom: true,
+      truck: { select: { truckType: true, capacity: true } },
+      originCity: { select: { name: true } },
+      destinationCity: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.SavedSearchMatchInclude;
+
+type PendingMatch = Prisma.SavedSearchMatchGetPayload<{
+  include: typeof pendingMatchInclude;
+}>;
+
+function isStillOpen(match: PendingMatch): boolean {
+  if (match.load) return REQUESTABLE_LOAD_STATUSES.includes(match.load.status);
+  return match.truckPosting?.status === "ACTIVE";
+}
+
+function toDigestMatch(search: SavedSearch, match: PendingMatch): DigestMatch {
+  if (match.load) {
+    const load = match.load;
+    return {
+      title: `${load.pickupCity} → ${load.deliveryCity}`,
+      detail: [
+        load.truckType,
+        load.weight ? `${Number(load.weight).toLocaleString()} kg` : null,
+        `pickup ${load.pickupDate.toISOString().slice(0, 10)}`,
+      ]
+        .filter(Boolean)
+        .join(" · "),
+      viewUrl: appUrl(`/carrier/loads/${load.id}`),
+      requestUrl: match.requestToken
+        ? alertRequestUrl(match.requestToken)
+        : undefined,
+    };
+  }
+
+  const posting = match.truckPosting!;
+  return {
+    title: `${posting.originCity?.name || "any"} → ${posting.destinationCity?.name || "any"}`,
+    detail: [
+      posting.truck.truckType,
+      posting.truck.capacity
+        ? `${Number(posting.truck.capacity).toLocaleString()} kg`
+        : null,
+      `available ${posting.availableFrom.toISOString().slice(0, 10)}`,
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    viewUrl: appUrl(`/shipper/loadboard?searchId=${search.id}`),
+  };
+}
+
+function alertTitle(search: SavedSearch, count: number): string {
+  const noun = search.type === "LOADS" ? "load" : "truck";
+  return `${count} new ${noun}${count > 1 ? "s" : ""} match "${search.name}"`;
+}
+
+async function sendPush(
+  search: SavedSearch,
+  matches: PendingMatch[],
+  digest: DigestMatch[]
+): Promise<void> {
+  const first = matches[0];
+  await createNotification({
+    userId: search.userId,
+    type: NotificationType.SAVED_SEARCH_MATCH,
+    title: alertTitle(search, matches.length),
+    message: `${digest[0].title} (${digest[0].detail})${matches.length > 1 ? ` and ${matches.length - 1} more` : ""}`,
+    metadata: {
+      savedSearchId: search.id,
+      searchType: search.type,
+      matchCount: matches.length,
+      ...(first.loadId
+        ? { firstLoadId: first.loadId }
+        : { firstPostingId: first.truckPostingId }),
+    },
+  });
+}
+
+/**
+ * Deliver on the search's channel. SMS and email fall back to push when the
+ * user has no phone number or email address.
+ */
+async function deliver(
+  search: SavedSearch & { user: { phone: string | null; email: string } },
+  matches: PendingMatch[]
+): Promise<void> {
+  const digest = matches
+    .slice(0, DIGEST_MAX_MATCHES)
+    .map((m) => toDigestMatch(search, m));
+  const more = matches.length - digest.length;
+
+  if (search.alertChannel === "SMS" && search.user.phone) {
+    const lines = digest
+      .slice(0, SMS_MAX_MATCHES)
+      .map((m) => `${m.title}: ${m.requestUrl ?? m.viewUrl}`);
+    const rest = matches.length - lines.length;
+    const result = await sendSms(
+      search.user.phone,
+      [
+        `FreightET: ${alertTitle(search, matches.length)}`,
+        ...lines,
+        ...(rest > 0 ? [`+${rest} more in the app`] : []),
+      ].join("\n")
+    );
+    if (!result.success) throw new Error(result.error || "SMS failed");
+    return;
+  }
+
+  if (search.alertChannel === "EMAIL" && search.user.email) {
+    await sendEmailToUser(search.userId, EmailTemplate.SAVED_SEARCH_DIGEST, {
+      searchName: search.name,
+      searchType: search.type,
+      matches: digest,
+      moreCount: more,
+    });
+    return;
+  }
+
+  await sendPush(search, matches, digest);
+}
+
+/**
+ * Send a search's queued matches if an alert is due
+ *
+ * Matches whose load or posting has closed since are dropped from the
+ * queue. Never throws: a failed delivery is logged and the matches stay
+ * queued for the next run.
+ *
+ * @returns Number of matches sent
+ */
+export async function sendPendingAlerts(
+  searchId: string,
+  now: Date = new Date()
+): Promise<number> {
+  try {
+    const search = await db.savedSearch.findUnique({
+      where: { id: searchId },
+      include: { user: { select: { phone: true, email: true } } },
+    });
+    if (!search?.alertsEnabled || !isAlertDue(search, now)) return 0;
+
+    const pending = await db.savedSearchMatch.findMany({
+      where: { savedSearchId: searchId, sentAt: null },
+      include: pendingMatchInclude,
+      orderBy: { createdAt: "desc" },
+    });
+    const closed = pending.filter((m) => !isStillOpen(m));
+    if (closed.length > 0) {
+      await db.savedSearchMatch.deleteMany({
+        where: { id: { in: closed.map((m) => m.id) } },
+      });
+    }
+
+    const open = pending.filter(isStillOpen);
+    if (open.length === 0) return 0;
+
+    await deliver(search, open);
+
+    await db.savedSearchMatch.updateMany({
+      where: { id: { in: open.map((m) => m.id) } },
+      data: { sentAt: now },
+    });
+    await db.savedSearch.update({
+      where: { id: searchId },
+      data: { lastAlertedAt: now },
+    });
+    return open.length;
+  } catch (error) {
+    logger.error("Saved search alert failed", error, { searchId });
+    return 0;
+  }
+}
+
+/**
+ * Match new listings against every alerting saved search, then send the
+ * alerts that are due
+ */
+export async function runSavedSearchMonitor(now: Date = new Date()): Promise<{
+  newLoads: number;
+  loadSearchesChecked: number;
+  loadAlertsSent: number;
+  newTruckPostings: number;
+  truckSearchesChecked: number;
+  truckAlertsSent: number;
+  matchesRecorded: number;
+}> {
+  const cutoff = new Date(now.getTime() - LOOKBACK_MINUTES * 60 * 1000);
+
+  const [newLoads, newTruckPostings, searches] = await Promise.all([
+    // Newly posted loads, and network-first loads that just went public
+    db.load.findMany({
+      where: {
+        status: "POSTED",
+        OR: [
+          { postedAt: { gte: cutoff } },
+          { publicAt: { gte: cutoff, lte: now } },
+        ],
+      },
+      select: newLoadSelect,
+      take: 100,
+    }),
+    db.truckPosting.findMany({
+      where: { status: "ACTIVE", createdAt: { gte: cutoff } },
+      select: newPostingSelect,
+      take: 100,
+    }),
+    db.savedSearch.findMany({
+      where: { alertsEnabled: true },
+      include: { user: { select: { organizationId: true } } },
+    }),
+  ]);
+
+  // Private load board: network loads only for the shipper's network
+  const networkByCarrier = await getNetworkShipperIdsByCarrier([
+    ...new Set(
+      searches
+        .filter((s) => s.type === "LOADS" && s.user.organizationId)
+        .map((s) => s.user.organizationId!)
+    ),
+  ]);
+
+  let matchesRecorded = 0;
+  let loadAlertsSent = 0;
+  let truckAlertsSent = 0;
+  for (const search of searches) {
+    const criteria = (search.criteria ?? {}) as Record<string, unknown>;
+    const ids =
+      search.type === "LOADS"
+        ? newLoads
+            .filter(
+              (l) =>
+                loadMatchesCriteria(l, criteria) &&
+                isLoadVisible(
+                  l,
+                  networkByCarrier.get(search.user.organizationId ?? "") ?? [],
+                  now
+                )
+            )
+            .map((l) => l.id)
+        : newTruckPostings
+            .filter((p) => postingMatchesCriteria(p, criteria))
+            .map((p) => p.id);
+    matchesRecorded += await recordMatches(search, ids);
+
+    if ((await sendPendingAlerts(search.id, now)) > 0) {
+      if (search.type === "LOADS") loadAlertsSent++;
+      else truckAlertsSent++;
+    }
+  }
+
+  return {
+    newLoads: newLoads.length,
+    loadSearchesChecked: searches.filter((s) => s.type === "LOADS").length,
+    loadAlertsSent,
+    newTruckPostings: newTruckPostings.length,
+    truckSearchesChecked: searches.filter((s) => s.type === "TRUCKS").length,
+    truckAlertsSent,
+    matchesRecorded,
+  };
+}
+
+// ─── One-click load requests ────────────────────────────────────────────────
+
+/**
+ * The alerted load and search owner behind a request link
+ *
+ * @returns null when the link is unknown
+ */
+export async function findAlertRequest(requestToken: string) {
+  return db.savedSearchMatch.findUnique({
+    where: { requestToken },
+    include: {
+      load: {
+        select: {
+          id: true,
+          truckType: true,
+          pickupCity: true,
+          deliveryCity: true,
+          pickupDate: true,
+        },
+      },
+      savedSearch: {
+        select: {
+          criteria: true,
+          user: {
+            select: {
+              id: true,
+              role: true,
+              status: true,
+              organizationId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+type AlertRequest = NonNullable<Awaited<ReturnType<typeof findAlertRequest>>>;
+
+/** Whether a request link is past its expiry */
+export function isAlertRequestExpired(
+  match: Pick<AlertRequest, "requestTokenExpiresAt">,
+  now: Date = new Date()
+): boolean {
+  return (
+    !!match.requestTokenExpiresAt &&
+    match.requestTokenExpiresAt.getTime() <= now.getTime()
+  );
+}
+
+/**
+ * Request the alerted load with one of the carrier's posted trucks: the
+ * saved search's truckId if set, else a posted truck of the load's type
+ *
+ * Callers check the user's status, role and wallet gate first.
+ *
+ * @returns The load request, or an error; status 409 means the link was
+ *          already used, 410 that it expired, and 422 that no posted truck
+ *          fits (the carrier picks one on the load page instead)
+ */
+export async function requestAlertLoad(
+  match: AlertRequest
+): Promise<LoadRequestResult> {
+  if (!match.load) return { error: "Load not found", status: 404 };
+  if (match.requestedAt) {
+    return { error: "This load was already requested", status: 409 };
+  }
+  if (isAlertRequestExpired(match)) {
+    return { error: "This link has expired", status: 410 };
+  }
+
+  const user = match.savedSearch.user;
+  const criteria = (match.savedSearch.criteria ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const postings = await db.truckPosting.findMany({
+    where: { carrierId: user.organizationId ?? "", status: "ACTIVE" },
+    select: { truck: { select: { id: true, truckType: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+  const truck =
+    postings.find((p) => p.truck.id === criteria.truckId)?.truck ??
+    postings.find((p) => p.truck.truckType === match.load!.truckType)?.truck;
+  if (!truck) {
+    return { error: "No posted truck fits this load", status: 422 };
+  }
+
+  const result = await createLoadRequest(
+    {
+      loadId: match.load.id,
+      truckId: truck.id,
+      notes: "Requested from a saved search alert",
+      expiresInHours: ALERT_REQUEST_EXPIRY_HOURS,
+    },
+    { userId: user.id, organizationId: user.organizationId, isAdmin: false }
+  );
+  if ("loadRequest" in result) {
+    await db.savedSearchMatch.update({
+      where: { id: match.id },
+      data: { requestedAt: new Date() },
+    });
+  }
+  return result;
+}
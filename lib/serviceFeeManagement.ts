@@ -15,6 +15,17 @@
  * 6. Credit total to platform revenue
  * 7. Store fees on Load record
  *
+ * Consolidated (LTL) runs: each PARTIAL load on a shared truck run is billed
+ * its own distance (its trip's GPS, else its corridor), without a weight
+ * share. Loads leave the run at different points, so the run's distance is
+ * not known yet when an early load completes; positions are recorded on
+ * every trip of the run, so each load's own distance is measured. The
+ * load's weight share of the run (lib/loadConsolidation.ts) is recorded
+ * on the journal entry for reporting only.
+ *
+ * Detention charges (lib/detention.ts) are posted at the same trigger, as
+ * their own journal entry.
+ *
  * LEGACY FIELD POLICY (2026-02-07):
  * ----------------------------------
  * AUTHORITATIVE (use these for new code):
@@ -47,6 +58,8 @@ import {
   NotificationType,
 } from "./notifications";
 import { calculateTripDistance, type GpsPosition } from "./gpsQuery";
+import { getConsolidationShare } from "./loadConsolidation";
+import { postDetentionCharges } from "./detention";
 
 // Result interfaces
 export interface ServiceFeeDeductResult {
@@ -144,6 +157,9 @@ export async function deductServiceFee(
       },
       pickupCity: true,
       deliveryCity: true,
+      trip: {
+        select: { consolidationId: true },
+      },
     },
   });
 
@@ -159,6 +175,14 @@ export async function deductServiceFee(
     };
   }
 
+  // Detention is billed shipper → carrier independently of the platform fee;
+  // a posting failure leaves the charges PENDING and must not block completion
+  try {
+    await postDetentionCharges(loadId);
+  } catch (error) {
+    console.error(`[detention] Posting failed for load ${loadId}:`, error);
+  }
+
   // Check if fees already deducted
   if (
     load.shipperFeeStatus === "DEDUCTED" &&
@@ -327,6 +351,13 @@ export async function deductServiceFee(
     };
   }
 
+  // Loads sharing a truck run are billed their own distance; the weight
+  // share is recorded for reporting only
+  const consolidationShare = await getConsolidationShare(
+    loadId,
+    load.trip?.consolidationId
+  );
+
   // Shipper fee calculation — org override → corridor.shipperPricePerKm → corridor.pricePerKm
   const shipperPricePerKm = load.shipper.shipperRatePerKm
     ? Number(load.shipper.shipperRatePerKm)
@@ -618,6 +649,7 @@ export async function deductServiceFee(
               corridorId,
               distanceKm,
               distanceSource,
+              consolidationShare,
               corridorDistanceKm: Number(corridor.distanceKm),
               shipperPricePerKm,
               carrierPricePerKm,
@@ -7,6 +7,7 @@
  * - On-time delivery rate
  * - Cancellation rate
  * - Exception MTTR (Mean Time To Resolution)
+ * - Detention (dwell beyond free time at stops, lib/detention.ts)
  *
  * ROUNDING: Delegated to lib/rounding.ts (2026-02-07)
  * Uses roundPercentage() for all percentage and time metrics (1 decimal place)
@@ -58,6 +59,16 @@ export interface SLAMetrics {
     mttrByType: Record<string, number>;
     mttrByPriority: Record<string, number>;
   };
+
+  // Detention (dwell sessions closed in the period)
+  detention: {
+    stops: number;
+    detained: number; // stops with dwell beyond free time
+    rate: number; // percentage
+    avgDwellMinutes: number | null;
+    totalDetentionHours: number;
+    totalCharged: number; // ETB
+  };
 }
 
 export interface DailySLARecord {
@@ -95,7 +106,10 @@ function getDateRange(period: "day" | "week" | "month"): {
   return { start, end };
 }
 
-function parseDockHours(
+/**
+ * Parse dock hours like "8:00 AM - 5:00 PM" into minutes after midnight
+ */
+export function parseDockHours(
   dockHours: string | null
 ): { start: number; end: number } | null {
   if (!dockHours) return null;
@@ -443,6 +457,76 @@ async function calculateExceptionMTTR(
   };
 }
 
+/**
+ * Calculate detention metrics from dwell sessions closed in the period
+ */
+async function calculateDetentionSLA(
+  start: Date,
+  end: Date,
+  filters?: { shipperId?: string; carrierId?: string }
+): Promise<SLAMetrics["detention"]> {
+  const sessions = await db.dwellSession.findMany({
+    where: {
+      exitedAt: {
+        gte: start,
+        lte: end,
+      },
+    },
+    include: {
+      load: {
+        select: {
+          shipperId: true,
+          assignedTruck: { select: { carrierId: true } },
+        },
+      },
+      detentionCharge: {
+        select: { amount: true, status: true },
+      },
+    },
+  });
+
+  const filtered = sessions.filter(
+    (s) =>
+      (!filters?.shipperId || s.load?.shipperId === filters.shipperId) &&
+      (!filters?.carrierId ||
+        s.load?.assignedTruck?.carrierId === filters.carrierId)
+  );
+
+  let totalDwellMinutes = 0;
+  let detainedMinutes = 0;
+  let detained = 0;
+  let totalCharged = 0;
+
+  for (const session of filtered) {
+    const dwellMinutes =
+      (session.exitedAt!.getTime() - session.enteredAt.getTime()) / (1000 * 60);
+    totalDwellMinutes += dwellMinutes;
+
+    if (dwellMinutes > session.freeMinutes) {
+      detained++;
+      detainedMinutes += dwellMinutes - session.freeMinutes;
+    }
+    if (
+      session.detentionCharge &&
+      session.detentionCharge.status !== "WAIVED"
+    ) {
+      totalCharged += Number(session.detentionCharge.amount);
+    }
+  }
+
+  const stops = filtered.length;
+
+  return {
+    stops,
+    detained,
+    rate: roundPercentage(stops > 0 ? (detained / stops) * 100 : 0),
+    avgDwellMinutes:
+      stops > 0 ? roundPercentage(totalDwellMinutes / stops) : null,
+    totalDetentionHours: roundPercentage(detainedMinutes / 60),
+    totalCharged: Math.round(totalCharged * 100) / 100,
+  };
+}
+
 // =============================================================================
 // MAIN AGGREGATION FUNCTIONS
 // =============================================================================
@@ -456,12 +540,14 @@ export async function calculateSLAMetrics(
 ): Promise<SLAMetrics> {
   const { start, end } = getDateRange(period);
 
-  const [pickup, delivery, cancellation, exceptions] = await Promise.all([
-    calculatePickupSLA(start, end, filters),
-    calculateDeliverySLA(start, end, filters),
-    calculateCancellationRate(start, end, filters),
-    calculateExceptionMTTR(start, end, filters),
-  ]);
+  const [pickup, delivery, cancellation, exceptions, detention] =
+    await Promise.all([
+      calculatePickupSLA(start, end, filters),
+      calculateDeliverySLA(start, end, filters),
+      calculateCancellationRate(start, end, filters),
+      calculateExceptionMTTR(start, end, filters),
+      calculateDetentionSLA(start, end, filters),
+    ]);
 
   return {
     period,
@@ -471,6 +557,7 @@ export async function calculateSLAMetrics(
     delivery,
     cancellation,
     exceptions,
+    detention,
   };
 }
 
@@ -492,12 +579,14 @@ export async function runDailySLAAggregation(): Promise<{
     const endOfYesterday = new Date(yesterday);
     endOfYesterday.setHours(23, 59, 59, 999);
 
-    const [pickup, delivery, cancellation, exceptions] = await Promise.all([
-      calculatePickupSLA(yesterday, endOfYesterday),
-      calculateDeliverySLA(yesterday, endOfYesterday),
-      calculateCancellationRate(yesterday, endOfYesterday),
-      calculateExceptionMTTR(yesterday, endOfYesterday),
-    ]);
+    const [pickup, delivery, cancellation, exceptions, detention] =
+      await Promise.all([
+        calculatePickupSLA(yesterday, endOfYesterday),
+        calculateDeliverySLA(yesterday, endOfYesterday),
+        calculateCancellationRate(yesterday, endOfYesterday),
+        calculateExceptionMTTR(yesterday, endOfYesterday),
+        calculateDetentionSLA(yesterday, endOfYesterday),
+      ]);
 
     const metrics: SLAMetrics = {
       period: "day",
@@ -507,6 +596,7 @@ export async function runDailySLAAggregation(): Promise<{
       delivery,
       cancellation,
       exceptions,
+      detention,
     };
 
     return { success: true, metrics };
@@ -533,6 +623,8 @@ export async function getSLASummary(
   avgMTTR: number | null;
   totalDeliveries: number;
   totalExceptions: number;
+  detentionRate: number;
+  totalDetentionHours: number;
 }> {
   const metrics = await calculateSLAMetrics(period, filters);
 
@@ -543,6 +635,8 @@ export async function getSLASummary(
     avgMTTR: metrics.exceptions.avgMTTR,
     totalDeliveries: metrics.delivery.total,
     totalExceptions: metrics.exceptions.total,
+    detentionRate: metrics.detention.rate,
+    totalDetentionHours: metrics.detention.totalDetentionHours,
   };
 }
 
@@ -0,0 +1,74 @@
+/**
+ * Spreadsheet Reading
+ *
+ * CSV reader for bulk imports. Returns rows of trimmed cell strings; the
+ * first row is the header. Blank rows are kept so row index + 1 is the
+ * line shown in the spreadsheet app.
+ *
+ * Excel workbooks are not read directly: shippers save the sheet as CSV
+ * ("CSV UTF-8") before uploading.
+ */
+
+/**
+ * Whether an upload is a CSV file, judged by its name
+ */
+export function isCsvFileName(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return name.endsWith(".csv") || name.endsWith(".txt");
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF or LF).
+ * Semicolon-separated files are detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter =
+    firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -85,6 +85,36 @@ export function getPublicUrl(key: string): string {
   }
 }
 
+/**
+ * Check that a URL points at one of the configured storage hosts
+ * (CDN domain, S3 bucket or Cloudinary cloud)
+ */
+export function isStorageUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== "https:") return false;
+
+  const cdnDomain = getCDNDomain();
+  if (cdnDomain && parsed.host === cdnDomain) return true;
+
+  const bucket = process.env.AWS_S3_BUCKET;
+  const region = process.env.AWS_REGION || "us-east-1";
+  if (bucket && parsed.host === `${bucket}.s3.${region}.amazonaws.com`) {
+    return true;
+  }
+
+  const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+  return (
+    !!cloudName &&
+    parsed.host === "res.cloudinary.com" &&
+    parsed.pathname.startsWith(`/${cloudName}/`)
+  );
+}
+
 /**
  * Upload result
  */
@@ -0,0 +1,447 @@
+/**
+ * Multi-Load Tour Planner (backhaul chaining)
+ *
+ * Proposes sequences of 2-4 loads a truck can haul back to back within a
+ * planning horizon, starting from its current location (lib/deadheadOptimization
+ * getTruckCurrentLocation, else its active posting's origin city).
+ *
+ * Each step drives empty to the next pickup and loaded to its delivery,
+ * with driving times from lib/googleRoutes.ts (Google Routes, cached, or
+ * the Haversine fallback). A load fits the chain when the truck reaches
+ * the pickup before the pickup dock closes on the pickup date and can
+ * unload before the delivery dock closes on the delivery date. Pickups
+ * wait for the pickup date; early deliveries only wait for the dock to
+ * open that day. Every stop takes HANDLING_HOURS and every
+ * MAX_DRIVING_HOURS_PER_DAY of one leg adds a DAILY_REST_HOURS break.
+ *
+ * The search is a depth-first walk over the NEXT_LOAD_BRANCHING nearest
+ * pickups at each step, capped at MAX_TOUR_EXPANSIONS legs. Tours are
+ * ranked by loaded km minus deadhead km, then by total driving time.
+ *
+ * A tour books nothing: the carrier requests its loads
+ * (POST /api/load-requests/chain) and each shipper still approves.
+ */
+
+import { z } from "zod";
+import { LoadStatus, Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { calculateDistanceKm } from "@/lib/geo";
+import {
+  calculateRoadDistance,
+  Coordinates,
+  RouteResult,
+} from "@/lib/googleRoutes";
+import { getTruckCurrentLocation } from "@/lib/deadheadOptimization";
+import { parseDockHours } from "@/lib/slaAggregation";
+import { REQUESTABLE_LOAD_STATUSES } from "@/lib/loadRequests";
+import { getNetworkShipperIds, visibleLoadsWhere } from "@/lib/carrierNetworks";
+
+export const MIN_TOUR_LOADS = 2;
+export const MAX_TOUR_LOADS = 4;
+
+/** Upper bound on the open loads considered for one truck */
+export const MAX_TOUR_CANDIDATES = 100;
+
+/** Nearest next pickups explored after each delivery */
+const NEXT_LOAD_BRANCHING = 6;
+
+/** Upper bound on legs scheduled per search */
+const MAX_TOUR_EXPANSIONS = 2000;
+
+/** Loading or unloading time at each stop */
+export const HANDLING_HOURS = 2;
+
+export const MAX_DRIVING_HOURS_PER_DAY = 10;
+export const DAILY_REST_HOURS = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const tourQuerySchema = z.object({
+  horizonDays: z.coerce.number().int().min(1).max(7).default(3),
+  maxLoads: z.coerce
+    .number()
+    .int()
+    .min(MIN_TOUR_LOADS)
+    .max(MAX_TOUR_LOADS)
+    .default(3),
+  maxDeadheadKm: z.coerce.number().min(1).max(1000).default(200),
+  limit: z.coerce.number().int().min(1).max(20).default(10),
+});
+
+export type TourQuery = z.infer<typeof tourQuerySchema>;
+
+/** An open load as the search sees it */
+export interface TourCandidate {
+  id: string;
+  pickupCity: string | null;
+  deliveryCity: string | null;
+  origin: Coordinates;
+  destination: Coordinates;
+  tripKm: number | null;
+  weight: number;
+  pickupDate: Date;
+  pickupDockHours: string | null;
+  deliveryDate: Date;
+  deliveryDockHours: string | null;
+}
+
+export interface TourLeg {
+  loadId: string;
+  pickupCity: string | null;
+  deliveryCity: string | null;
+  deadheadKm: number;
+  loadedKm: number;
+  driveMinutes: number; // Deadhead plus loaded driving
+  pickupAt: Date;
+  deliverAt: Date;
+}
+
+export interface Tour {
+  legs: TourLeg[];
+  loadedKm: number;
+  deadheadKm: number;
+  loadedShare: number; // Loaded km as % of all km driven
+  driveMinutes: number;
+  startsAt: Date; // Leaves the start location
+  endsAt: Date; // Last delivery unloaded
+}
+
+export interface TourStart {
+  position: Coordinates;
+  availableAt: Date;
+  source: "gps" | "database" | "posting";
+}
+
+export interface TourPlan {
+  truckId: string;
+  start: TourStart;
+  horizonEnd: Date;
+  candidateCount: number;
+  tours: Tour[];
+}
+
+export type TourPlanResult =
+  | { plan: TourPlan }
+  | { error: string; status: number };
+
+/**
+ * Opening and closing time of a dock on a load's pickup or delivery date.
+ * Without (parseable) dock hours the dock is open all day.
+ */
+export function dockWindow(
+  date: Date,
+  dockHours: string | null
+): { opensAt: Date; closesAt: Date } {
+  const hours = parseDockHours(dockHours) ?? { start: 0, end: 24 * 60 };
+  const opensAt = new Date(date);
+  opensAt.setHours(0, hours.start, 0, 0);
+  const closesAt = new Date(date);
+  closesAt.setHours(0, hours.end, 0, 0);
+  return { opensAt, closesAt };
+}
+
+/** Earliest time from `at` the dock is open, on that day or the next */
+function nextDockOpening(at: number, dockHours: string | null): number {
+  const today = dockWindow(new Date(at), dockHours);
+  if (at < today.opensAt.getTime()) return today.opensAt.getTime();
+  if (at <= today.closesAt.getTime()) return at;
+  return dockWindow(new Date(at + DAY_MS), dockHours).opensAt.getTime();
+}
+
+/** Elapsed time for one leg of driving, including daily rest breaks */
+function legElapsedMs(driveMinutes: number): number {
+  const driveHours = driveMinutes / 60;
+  const rests = Math.floor(driveHours / MAX_DRIVING_HOURS_PER_DAY);
+  return (driveHours + rests * DAILY_REST_HOURS) * HOUR_MS;
+}
+
+/**
+ * Fit a load after the truck is free at `readyAt`.
+ *
+ * @returns Pickup start, delivery start and when the truck is free again,
+ *   or null when either dock would already be closed
+ */
+export function scheduleLoad(
+  readyAt: Date,
+  deadheadMinutes: number,
+  loadedMinutes: number,
+  load: Pick<
+    TourCandidate,
+    "pickupDate" | "pickupDockHours" | "deliveryDate" | "deliveryDockHours"
+  >
+): { pickupAt: Date; deliverAt: Date; freeAt: Date } | null {
+  const pickup = dockWindow(load.pickupDate, load.pickupDockHours);
+  const atPickup = readyAt.getTime() + legElapsedMs(deadheadMinutes);
+  const pickupAt = Math.max(atPickup, pickup.opensAt.getTime());
+  if (pickupAt > pickup.closesAt.getTime()) return null;
+
+  const delivery = dockWindow(load.deliveryDate, load.deliveryDockHours);
+  const atDelivery =
+    pickupAt + HANDLING_HOURS * HOUR_MS + legElapsedMs(loadedMinutes);
+  const deliverAt = nextDockOpening(atDelivery, load.deliveryDockHours);
+  if (deliverAt > delivery.closesAt.getTime()) return null;
+
+  return {
+    pickupAt: new Date(pickupAt),
+    deliverAt: new Date(deliverAt),
+    freeAt: new Date(deliverAt + HANDLING_HOURS * HOUR_MS),
+  };
+}
+
+function summarizeTour(legs: TourLeg[], startsAt: Date, freeAt: Date): Tour {
+  const loadedKm = legs.reduce((sum, l) => sum + l.loadedKm, 0);
+  const deadheadKm = legs.reduce((sum, l) => sum + l.deadheadKm, 0);
+  const totalKm = loadedKm + deadheadKm;
+  return {
+    legs,
+    loadedKm: Math.round(loadedKm),
+    deadheadKm: Math.round(deadheadKm),
+    loadedShare: totalKm > 0 ? Math.round((loadedKm / totalKm) * 100) : 0,
+    driveMinutes: legs.reduce((sum, l) => sum + l.driveMinutes, 0),
+    startsAt,
+    endsAt: freeAt,
+  };
+}
+
+function straightKm(a: Coordinates, b: Coordinates): number {
+  return calculateDistanceKm(a.lat, a.lng, b.lat, b.lng);
+}
+
+/**
+ * Find the best chains of MIN_TOUR_LOADS..maxLoads candidates from `start`.
+ * Road routes are looked up once per pair of points.
+ */
+export async function searchTours(
+  start: Pick<TourStart, "position" | "availableAt">,
+  candidates: TourCandidate[],
+  options: Pick<TourQuery, "maxLoads" | "maxDeadheadKm" | "limit">
+): Promise<Tour[]> {
+  const routes = new Map<string, Promise<RouteResult>>();
+  const route = (from: Coordinates, to: Coordinates) => {
+    const key = `${from.lat},${from.lng}:${to.lat},${to.lng}`;
+    let result = routes.get(key);
+    if (!result) {
+      result = calculateRoadDistance(from, to);
+      routes.set(key, result);
+    }
+    return result;
+  };
+
+  const tours: Tour[] = [];
+  let expansions = 0;
+
+  const extend = async (
+    position: Coordinates,
+    readyAt: Date,
+    legs: TourLeg[]
+  ): Promise<void> => {
+    if (legs.length >= MIN_TOUR_LOADS) {
+      tours.push(summarizeTour(legs, start.availableAt, readyAt));
+    }
+    if (legs.length >= options.maxLoads) return;
+
+    const used = new Set(legs.map((l) => l.loadId));
+    const nearest = candidates
+      .filter((c) => !used.has(c.id))
+      .map((c) => ({ candidate: c, km: straightKm(position, c.origin) }))
+      .filter((n) => n.km <= options.maxDeadheadKm)
+      .sort((a, b) => a.km - b.km)
+      .slice(0, NEXT_LOAD_BRANCHING);
+
+    for (const { candidate } of nearest) {
+      if (++expansions > MAX_TOUR_EXPANSIONS) return;
+
+      const deadhead = await route(position, candidate.origin);
+      if (deadhead.distanceKm > options.maxDeadheadKm) continue;
+      const loaded = await route(candidate.origin, candidate.destination);
+
+      const schedule = scheduleLoad(
+        readyAt,
+        deadhead.durationMinutes,
+        loaded.durationMinutes,
+        candidate
+      );
+      if (!schedule) continue;
+
+      await extend(candidate.destination, schedule.freeAt, [
+        ...legs,
+        {
+          loadId: candidate.id,
+          pickupCity: candidate.pickupCity,
+          deliveryCity: candidate.deliveryCity,
+          deadheadKm: Math.round(deadhead.distanceKm),
+          loadedKm: Math.round(candidate.tripKm ?? loaded.distanceKm),
+          driveMinutes: deadhead.durationMinutes + loaded.durationMinutes,
+          pickupAt: schedule.pickupAt,
+          deliverAt: schedule.deliverAt,
+        },
+      ]);
+    }
+  };
+
+  await extend(start.position, start.availableAt, []);
+
+  return tours
+    .sort(
+      (a, b) =>
+        b.loadedKm - b.deadheadKm - (a.loadedKm - a.deadheadKm) ||
+        a.driveMinutes - b.driveMinutes
+    )
+    .slice(0, options.limit);
+}
+
+type Coordinate = Prisma.Decimal | number | null;
+
+function toCoordinates(
+  lat: Coordinate,
+  lon: Coordinate,
+  location: { latitude: Coordinate; longitude: Coordinate } | null
+): Coordinates | null {
+  const latitude = lat ?? location?.latitude ?? null;
+  const longitude = lon ?? location?.longitude ?? null;
+  if (latitude === null || longitude === null) return null;
+  return { lat: Number(latitude), lng: Number(longitude) };
+}
+
+/**
+ * Plan tours for a truck over the next `horizonDays`. Callers check the
+ * truck belongs to the requester first.
+ */
+export async function planTours(
+  truckId: string,
+  query: TourQuery
+): Promise<TourPlanResult> {
+  const truck = await db.truck.findUnique({
+    where: { id: truckId },
+    select: { id: true, carrierId: true, truckType: true, capacity: true },
+  });
+  if (!truck) {
+    return { error: "Truck not found", status: 404 };
+  }
+
+  const posting = await db.truckPosting.findFirst({
+    where: { truckId, status: "ACTIVE" },
+    select: {
+      availableFrom: true,
+      originCity: { select: { latitude: true, longitude: true } },
+    },
+  });
+
+  const now = new Date();
+  const availableAt =
+    posting?.availableFrom && posting.availableFrom > now
+      ? new Date(posting.availableFrom)
+      : now;
+
+  let start: TourStart | null = null;
+  const location = await getTruckCurrentLocation(truckId);
+  if (location) {
+    start = {
+      position: { lat: location.latitude, lng: location.longitude },
+      availableAt,
+      source: location.source === "gps" ? "gps" : "database",
+    };
+  } else if (posting?.originCity) {
+    start = {
+      position: {
+        lat: Number(posting.originCity.latitude),
+        lng: Number(posting.originCity.longitude),
+      },
+      availableAt,
+      source: "posting",
+    };
+  }
+  if (!start) {
+    return {
+      error:
+        "Truck location is unknown. Enable GPS or post the truck with an origin city.",
+      status: 400,
+    };
+  }
+
+  // Whole pickup days count: a load due today may still be picked up later today
+  const horizonStart = new Date(availableAt);
+  horizonStart.setHours(0, 0, 0, 0);
+  const horizonEnd = new Date(
+    availableAt.getTime() + query.horizonDays * DAY_MS
+  );
+
+  const loads = await db.load.findMany({
+    where: {
+      status: { in: REQUESTABLE_LOAD_STATUSES as LoadStatus[] },
+      assignedTruckId: null,
+      tenderRank: null,
+      ...visibleLoadsWhere(await getNetworkShipperIds(truck.carrierId)),
+      truckType: truck.truckType,
+      pickupDate: { gte: horizonStart, lte: horizonEnd },
+    },
+    select: {
+      id: true,
+      bookMode: true,
+      pickupCity: true,
+      deliveryCity: true,
+      pickupDate: true,
+      pickupDockHours: true,
+      deliveryDate: true,
+      deliveryDockHours: true,
+      weight: true,
+      tripKm: true,
+      estimatedTripKm: true,
+      originLat: true,
+      originLon: true,
+      destinationLat: true,
+      destinationLon: true,
+      pickupLocation: { select: { latitude: true, longitude: true } },
+      deliveryLocation: { select: { latitude: true, longitude: true } },
+    },
+    orderBy: { pickupDate: "asc" },
+    take: MAX_TOUR_CANDIDATES,
+  });
+
+  const candidates: TourCandidate[] = [];
+  for (const load of loads) {
+    // Auction loads are booked through bids, not requests
+    if (load.bookMode === "AUCTION") continue;
+    if (Number(load.weight) > Number(truck.capacity)) continue;
+
+    const origin = toCoordinates(
+      load.originLat,
+      load.originLon,
+      load.pickupLocation
+    );
+    const destination = toCoordinates(
+      load.destinationLat,
+      load.destinationLon,
+      load.deliveryLocation
+    );
+    if (!origin || !destination) continue;
+
+    const tripKm = load.estimatedTripKm ?? load.tripKm;
+    candidates.push({
+      id: load.id,
+      pickupCity: load.pickupCity,
+      deliveryCity: load.deliveryCity,
+      origin,
+      destination,
+      tripKm: tripKm !== null ? Number(tripKm) : null,
+      weight: Number(load.weight),
+      pickupDate: load.pickupDate,
+      pickupDockHours: load.pickupDockHours,
+      deliveryDate: load.deliveryDate,
+      deliveryDockHours: load.deliveryDockHours,
+    });
+  }
+
+  const tours = await searchTours(start, candidates, query);
+
+  return {
+    plan: {
+      truckId,
+      start,
+      horizonEnd,
+      candidateCount: candidates.length,
+      tours,
+    },
+  };
+}
@@ -10,6 +10,13 @@
 import { db } from "./db";
 import { Trip, TripStatus } from "@prisma/client";
 import crypto from "crypto";
+import {
+  getOrderedStops,
+  getStopCoordinates,
+  calculateStopRouteKm,
+  resetStopExecution,
+} from "./loadStops";
+import { storePlannedRoute } from "./routeDeviation";
 
 /**
  * Create a trip when a load is assigned to a truck
@@ -59,6 +66,19 @@ export async function createTripForLoad(
       throw new Error(`Truck not found: ${truckId}`);
     }
 
+    // Multi-stop: trip endpoints are the first and last stop, and a fresh
+    // trip starts with no stop arrivals (a re-booked load may carry
+    // timestamps from a cancelled trip)
+    const stops = await getOrderedStops(loadId);
+    const firstStop = stops[0];
+    const lastStop = stops[stops.length - 1];
+    const firstStopCoords = firstStop ? getStopCoordinates(firstStop) : null;
+    const lastStopCoords = lastStop ? getStopCoordinates(lastStop) : null;
+    const stopRouteKm = stops.length > 0 ? calculateStopRouteKm(stops) : 0;
+    if (stops.length > 0) {
+      await resetStopExecution(loadId);
+    }
+
     // Generate a unique tracking URL
     const trackingUrl = generateTrackingUrl(loadId);
 
@@ -71,22 +91,35 @@ export async function createTripForLoad(
         shipperId: load.shipperId,
         status: "ASSIGNED",
 
-        // Pickup location from load
-        pickupLat: load.originLat || load.pickupLocation?.latitude || null,
-        pickupLng: load.originLon || load.pickupLocation?.longitude || null,
-        pickupAddress: load.pickupAddress,
-        pickupCity: load.pickupCity || load.pickupLocation?.name || null,
-
-        // Delivery location from load
+        // Pickup location from first stop, else load
+        pickupLat:
+          firstStopCoords?.lat ??
+          (load.originLat || load.pickupLocation?.latitude || null),
+        pickupLng:
+          firstStopCoords?.lon ??
+          (load.originLon || load.pickupLocation?.longitude || null),
+        pickupAddress: firstStop?.address ?? load.pickupAddress,
+        pickupCity:
+          firstStop?.city ??
+          (load.pickupCity || load.pickupLocation?.name || null),
+
+        // Delivery location from last stop, else load
         deliveryLat:
-          load.destinationLat || load.deliveryLocation?.latitude || null,
+          lastStopCoords?.lat ??
+          (load.destinationLat || load.deliveryLocation?.latitude || null),
         deliveryLng:
-          load.destinationLon || load.deliveryLocation?.longitude || null,
-        deliveryAddress: load.deliveryAddress,
-        deliveryCity: load.deliveryCity || load.deliveryLocation?.name || null,
-
-        // Distance from load
-        estimatedDistanceKm: load.estimatedTripKm || load.tripKm || null,
+          lastStopCoords?.lon ??
+          (load.destinationLon || load.deliveryLocation?.longitude || null),
+        deliveryAddress: lastStop?.address ?? load.deliveryAddress,
+        deliveryCity:
+          lastStop?.city ??
+          (load.deliveryCity || load.deliveryLocation?.name || null),
+
+        // Distance from load (multi-stop falls back to the stop route)
+        estimatedDistanceKm:
+          load.estimatedTripKm ||
+          load.tripKm ||
+          (stopRouteKm > 0 ? Math.round(stopRouteKm * 100) / 100 : null),
 
         // Tracking
         trackingUrl,
@@ -207,6 +240,13 @@ export async function updateTripStatus(
       return updated;
     });
 
+    // Planned route for deviation detection, fetched off the request path
+    if (newStatus === "PICKUP_PENDING") {
+      storePlannedRoute(tripId).catch((err) =>
+        console.error("Failed to store planned route:", err)
+      );
+    }
+
     return updatedTrip;
   } catch (error) {
     console.error("Failed to update trip status:", error);
@@ -5,6 +5,9 @@
  *
  * Calculates and updates trip progress based on GPS positions.
  * Triggers return-load notifications at 80% progress or destination geofence entry.
+ *
+ * Multi-stop loads measure progress along the stop sequence: completed legs
+ * plus the distance covered on the current leg.
  */
 
 import { db } from "@/lib/db";
@@ -13,6 +16,14 @@ import {
   getLoadLivePosition,
   isWithinGeofence,
 } from "./gpsTracking";
+import {
+  calculateStopLegsKm,
+  getNextPendingStop,
+  getOrderedStops,
+  getStopCoordinates,
+  StopPoint,
+} from "./loadStops";
+import { GpsPosition } from "./gpsVerification";
 import { Decimal } from "decimal.js";
 
 export interface TripProgressInfo {
@@ -23,6 +34,10 @@ export interface TripProgressInfo {
   estimatedArrival: Date | null;
   isNearDestination: boolean;
   enteredDestGeofence: boolean;
+  /** Multi-stop loads: sequence of the stop the truck is heading to */
+  nextStopSequence?: number | null;
+  /** Multi-stop loads: number of stops already departed */
+  completedStops?: number;
 }
 
 export interface TripProgressUpdate {
@@ -124,6 +139,21 @@ export async function calculateTripProgress(
     };
   }
 
+  // Multi-stop loads follow the stop order instead of origin → destination
+  const stops = await getOrderedStops(loadId);
+  if (stops.length >= 2 && stops.every((stop) => getStopCoordinates(stop))) {
+    const progress = calculateMultiStopProgress(
+      stops,
+      currentPosition,
+      totalDistanceKm
+    );
+    return {
+      ...progress,
+      enteredDestGeofence:
+        load.enteredDestGeofence || progress.enteredDestGeofence,
+    };
+  }
+
   // Check if we have origin and destination coordinates
   if (
     !load.originLat ||
@@ -206,6 +236,85 @@ export async function calculateTripProgress(
   };
 }
 
+/**
+ * Progress along a multi-stop route.
+ *
+ * The covered share of the straight-line stop route is applied to the
+ * planned distance so remaining/travelled km stay on the same scale as
+ * single-stop loads.
+ *
+ * @param stops - Load stops in sequence order (all with coordinates)
+ * @param position - Current truck position
+ * @param plannedKm - Planned route distance
+ */
+export function calculateMultiStopProgress(
+  stops: StopPoint[],
+  position: GpsPosition,
+  plannedKm: number
+): TripProgressInfo {
+  const ordered = [...stops].sort((a, b) => a.sequence - b.sequence);
+  const legs = calculateStopLegsKm(ordered);
+  const routeKm = legs.reduce((sum, leg) => sum + leg, 0);
+  const next = getNextPendingStop(ordered);
+  const nextIndex = next ? ordered.indexOf(next) : ordered.length;
+  const final = getStopCoordinates(ordered[ordered.length - 1])!;
+
+  // Distance to the next stop on the current leg
+  let distanceToNextKm = 0;
+  if (next) {
+    const target = getStopCoordinates(next)!;
+    distanceToNextKm =
+      calculateDistance(
+        position.latitude,
+        position.longitude,
+        target.lat,
+        target.lon
+      ) / 1000;
+  }
+
+  // Legs before the current one are complete; the current leg is credited
+  // with whatever part of it the truck has already covered
+  let coveredKm: number;
+  if (!next) {
+    coveredKm = routeKm;
+  } else if (nextIndex === 0) {
+    coveredKm = 0;
+  } else {
+    const doneKm = legs.slice(0, nextIndex - 1).reduce((sum, l) => sum + l, 0);
+    const currentLegKm = legs[nextIndex - 1];
+    coveredKm = doneKm + Math.max(0, currentLegKm - distanceToNextKm);
+  }
+
+  const ratio = routeKm > 0 ? Math.min(1, coveredKm / routeKm) : 0;
+  const totalDistanceKm = plannedKm > 0 ? plannedKm : routeKm;
+  const remainingKm = totalDistanceKm * (1 - ratio);
+
+  const isNearDestination = isWithinGeofence(
+    position,
+    final.lat,
+    final.lon,
+    500 // 500 meters
+  );
+
+  let estimatedArrival: Date | null = null;
+  if (position.speed && position.speed > 0 && remainingKm > 0) {
+    const hoursRemaining = remainingKm / position.speed;
+    estimatedArrival = new Date(Date.now() + hoursRemaining * 60 * 60 * 1000);
+  }
+
+  return {
+    progressPercent: Math.round(ratio * 100),
+    remainingKm: Math.round(remainingKm * 100) / 100,
+    totalDistanceKm,
+    travelledKm: Math.round(totalDistanceKm * ratio * 100) / 100,
+    estimatedArrival,
+    isNearDestination,
+    enteredDestGeofence: isNearDestination,
+    nextStopSequence: next?.sequence ?? null,
+    completedStops: ordered.filter((stop) => stop.departedAt).length,
+  };
+}
+
 /**
  * Update trip progress for a load
  *
@@ -13,6 +13,7 @@
  * Uses roundPercentage2() for all percentage metrics (2 decimal places)
  */
 
+import { Prisma } from "@prisma/client";
 import { db } from "./db";
 import { Decimal } from "decimal.js";
 import { roundPercentage2 } from "./rounding";
@@ -145,6 +146,31 @@ export async function updateOrganizationMetrics(orgId: string): Promise<void> {
   });
 }
 
+/**
+ * Trust metric fields read by computeTrustScore
+ */
+export const TRUST_SCORE_SELECT = {
+  completionRate: true,
+  cancellationRate: true,
+  disputeRate: true,
+  isVerified: true,
+  totalLoadsCompleted: true,
+  totalLoadsCancelled: true,
+  averageRating: true,
+  totalRatings: true,
+} as const;
+
+export interface TrustScoreInput {
+  completionRate: Prisma.Decimal | number | null;
+  cancellationRate: Prisma.Decimal | number | null;
+  disputeRate: Prisma.Decimal | number | null;
+  isVerified: boolean;
+  totalLoadsCompleted: number;
+  totalLoadsCancelled: number;
+  averageRating: Prisma.Decimal | number | null;
+  totalRatings: number | null;
+}
+
 /**
  * Calculate trust score for an organization
  *
@@ -160,22 +186,23 @@ export async function updateOrganizationMetrics(orgId: string): Promise<void> {
 export async function calculateTrustScore(orgId: string): Promise<number> {
   const organization = await db.organization.findUnique({
     where: { id: orgId },
-    select: {
-      completionRate: true,
-      cancellationRate: true,
-      disputeRate: true,
-      isVerified: true,
-      totalLoadsCompleted: true,
-      totalLoadsCancelled: true,
-      averageRating: true,
-      totalRatings: true,
-    },
+    select: TRUST_SCORE_SELECT,
   });
 
   if (!organization) {
     throw new Error("Organization not found");
   }
 
+  return computeTrustScore(organization);
+}
+
+/**
+ * Trust score from already-loaded metrics (see calculateTrustScore).
+ * Lets callers scoring many organizations fetch them in one query.
+ *
+ * @returns Trust score (0-100); 0 when the organization has no activity
+ */
+export function computeTrustScore(organization: TrustScoreInput): number {
   const totalLoads =
     organization.totalLoadsCompleted + organization.totalLoadsCancelled;
 
@@ -8,11 +8,14 @@
  *
  * When those endpoints are implemented, re-enable the editing UI by restoring
  * the useState calls for isEditing/showPasswordChange and the handler functions.
+ *
+ * Drivers also see their 30-day safety scorecard.
  */
 import React from "react";
 import { View, Text, ScrollView, StyleSheet } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useAuthStore } from "../../src/stores/auth";
+import { useDriverSafety } from "../../src/hooks/useDrivers";
 import { Card } from "../../src/components/Card";
 import { Button } from "../../src/components/Button";
 import { Badge } from "../../src/components/Badge";
@@ -63,6 +66,8 @@ export default function ProfileScreen() {
         />
       </Card>
 
+      {user.role === "DRIVER" && <SafetyScoreCard driverId={user.id} />}
+
       {/* Edit Profile - disabled until API endpoint exists */}
       <Card style={styles.card}>
         <View style={styles.disabledHeader}>
@@ -108,6 +113,66 @@ export default function ProfileScreen() {
   );
 }
 
+function SafetyScoreCard({ driverId }: { driverId: string }) {
+  const { data, isLoading } = useDriverSafety(driverId);
+
+  const score = data?.scorecard.score;
+  const scoreColor =
+    score === undefined
+      ? colors.textSecondary
+      : score >= 90
+        ? colors.success
+        : score >= 75
+          ? colors.warning
+          : colors.error;
+
+  return (
+    <Card style={styles.card}>
+      <View style={styles.disabledHeader}>
+        <View style={styles.disabledHeaderLeft}>
+          <Ionicons
+            name="speedometer-outline"
+            size={20}
+            color={colors.primary700}
+          />
+          <Text style={styles.safetyTitle}>Safety Score</Text>
+        </View>
+        <Text style={[styles.safetyScore, { color: scoreColor }]}>
+          {isLoading ? "…" : (score ?? "—")}
+        </Text>
+      </View>
+      <Text style={styles.comingSoonText}>Last 30 days</Text>
+      {data && (
+        <>
+          <DetailRow
+            icon="flash-outline"
+            label="Speeding"
+            value={String(data.scorecard.byType.SPEEDING)}
+          />
+          <DetailRow
+            icon="swap-vertical-outline"
+            label="Harsh acceleration / braking"
+            value={String(
+              data.scorecard.byType.HARSH_ACCELERATION +
+                data.scorecard.byType.HARSH_BRAKING
+            )}
+          />
+          <DetailRow
+            icon="time-outline"
+            label="Long driving without rest"
+            value={String(data.scorecard.byType.LONG_DRIVING)}
+          />
+          <DetailRow
+            icon="navigate-outline"
+            label="Distance driven"
+            value={`${data.scorecard.distanceKm.toLocaleString()} km`}
+          />
+        </>
+      )}
+    </Card>
+  );
+}
+
 function DetailRow({
   icon,
   label,
@@ -180,6 +245,11 @@ const styles = StyleSheet.create({
     ...typography.titleMedium,
     color: colors.slate400,
   },
+  safetyTitle: {
+    ...typography.titleMedium,
+    color: colors.textPrimary,
+  },
+  safetyScore: { ...typography.headlineMedium },
   comingSoonText: {
     ...typography.bodySmall,
     color: colors.textTertiary,
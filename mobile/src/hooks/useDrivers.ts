@@ -55,6 +55,45 @@ export function useDriver(id: string | undefined) {
   });
 }
 
+/** Fetch a driver's safety scorecard (the driver themselves or their carrier) */
+export function useDriverSafety(id: string | undefined, days = 30) {
+  return useQuery({
+    queryKey: [...DRIVERS_KEY, id, "safety", days],
+    queryFn: async () => {
+      const response = await apiClient.get(`/api/drivers/${id}/safety`, {
+        params: { days },
+      });
+      return response.data as {
+        days: number;
+        scorecard: {
+          score: number;
+          distanceKm: number;
+          events: number;
+          severeEvents: number;
+          byType: {
+            SPEEDING: number;
+            HARSH_ACCELERATION: number;
+            HARSH_BRAKING: number;
+            LONG_DRIVING: number;
+          };
+        };
+        recentEvents: Array<{
+          id: string;
+          type: string;
+          severity: string;
+          tripId: string;
+          startedAt: string;
+          endedAt: string;
+          value: number;
+          limit: number;
+          roadClass: string | null;
+        }>;
+      };
+    },
+    enabled: !!id,
+  });
+}
+
 /** Invite a new driver */
 export function useInviteDriver() {
   const queryClient = useQueryClient();
@@ -55,6 +55,8 @@ class LoadService {
     cargoDescription: string;
     fullPartial?: string;
     bookMode?: string;
+    visibility?: "PUBLIC" | "NETWORK_ONLY" | "NETWORK_FIRST";
+    networkExclusiveHours?: number;
     isFragile?: boolean;
     requiresRefrigeration?: boolean;
     isAnonymous?: boolean;
@@ -10,6 +10,7 @@ export type {
   TruckType,
   LoadType,
   BookMode,
+  LoadVisibility,
   PostingStatus,
   RequestStatus,
   ServiceFeeStatus,
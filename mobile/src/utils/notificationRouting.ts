@@ -237,6 +237,10 @@ export function getNotificationRoute(
     case "SERVICE_FEE_FAILED":
       return isAdmin ? "/(admin)/financials" : null;
 
+    case "DETENTION_CHARGE_PENDING":
+      if (isAdmin) return "/(admin)/financials";
+      return isShipper ? "/(shipper)/wallet" : null;
+
     // ── Admin / bypass ───────────────────────────────────────────────────────
     case "BYPASS_WARNING":
       return isAdmin ? "/(admin)/users" : null;
@@ -124,9 +124,7 @@ const ENABLE_ENCRYPTION = process.env.JWT_ENABLE_ENCRYPTION !== "false";
  * Extract and verify session from JWT token.
  * Handles encrypted JWTs (decrypt → verify) matching lib/auth.ts createSessionToken().
  */
-async function extractSession(
-  token: string
-): Promise<{
+async function extractSession(token: string): Promise<{
   userId: string;
   email: string;
   role: string;
@@ -195,6 +193,7 @@ const CSRF_EXEMPT_ROUTES = [
   "/api/cron/",
   "/api/webhooks/",
   "/api/tracking/ingest", // GPS data ingestion (machine-to-machine)
+  "/api/saved-search-alerts/", // One-click links; the path token is the secret
 ];
 
 // State-changing HTTP methods that require CSRF protection
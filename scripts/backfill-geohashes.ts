@@ -0,0 +1,133 @@
+/**
+ * Backfill the geohash index columns (lib/geoIndex.ts) for rows written
+ * before they existed: Load.originGeohash / destinationGeohash,
+ * TruckPosting.originGeohash and Truck.currentLocationGeohash.
+ *
+ * Rows with a null geohash are still found by radius searches, just
+ * without the index, so this can run at any time and is safe to re-run.
+ *
+ * Usage: npx tsx scripts/backfill-geohashes.ts
+ */
+
+import "dotenv/config";
+import { db } from "../lib/db";
+import { geohashOf, resolveLoadGeohashes } from "../lib/geoIndex";
+
+const BATCH_SIZE = 500;
+
+async function backfillLoads(): Promise<number> {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const loads = await db.load.findMany({
+      where: {
+        OR: [{ originGeohash: null }, { destinationGeohash: null }],
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      select: {
+        id: true,
+        originLat: true,
+        originLon: true,
+        pickupCity: true,
+        destinationLat: true,
+        destinationLon: true,
+        deliveryCity: true,
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (loads.length === 0) break;
+
+    for (const load of loads) {
+      const geohashes = await resolveLoadGeohashes(load);
+      if (geohashes.originGeohash || geohashes.destinationGeohash) {
+        await db.load.update({ where: { id: load.id }, data: geohashes });
+        updated++;
+      }
+    }
+    cursor = loads[loads.length - 1].id;
+  }
+  return updated;
+}
+
+async function backfillPostings(): Promise<number> {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const postings = await db.truckPosting.findMany({
+      where: { originGeohash: null, ...(cursor && { id: { gt: cursor } }) },
+      select: {
+        id: true,
+        originCity: { select: { latitude: true, longitude: true } },
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (postings.length === 0) break;
+
+    for (const posting of postings) {
+      const originGeohash = posting.originCity
+        ? geohashOf(posting.originCity.latitude, posting.originCity.longitude)
+        : null;
+      if (originGeohash) {
+        await db.truckPosting.update({
+          where: { id: posting.id },
+          data: { originGeohash },
+        });
+        updated++;
+      }
+    }
+    cursor = postings[postings.length - 1].id;
+  }
+  return updated;
+}
+
+async function backfillTrucks(): Promise<number> {
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const trucks = await db.truck.findMany({
+      where: {
+        currentLocationGeohash: null,
+        currentLocationLat: { not: null },
+        ...(cursor && { id: { gt: cursor } }),
+      },
+      select: { id: true, currentLocationLat: true, currentLocationLon: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (trucks.length === 0) break;
+
+    for (const truck of trucks) {
+      const currentLocationGeohash = geohashOf(
+        truck.currentLocationLat,
+        truck.currentLocationLon
+      );
+      if (currentLocationGeohash) {
+        await db.truck.update({
+          where: { id: truck.id },
+          data: { currentLocationGeohash },
+        });
+        updated++;
+      }
+    }
+    cursor = trucks[trucks.length - 1].id;
+  }
+  return updated;
+}
+
+async function main() {
+  console.log(`Loads updated: ${await backfillLoads()}`);
+  console.log(`Truck postings updated: ${await backfillPostings()}`);
+  console.log(`Trucks updated: ${await backfillTrucks()}`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  })
+  .finally(() => db.$disconnect());
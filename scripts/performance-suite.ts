@@ -8,6 +8,7 @@
  * 2. Stress test job creation (50 → 200 RPS)
  * 3. Mobile upload latency simulation
  * 4. WebSocket concurrency (100 → 500 connections)
+ * 5. Geospatial radius search at 100k loads (in-process, no server needed)
  *
  * Usage:
  *   npx tsx scripts/performance-suite.ts
@@ -15,9 +16,12 @@
  *   npx tsx scripts/performance-suite.ts --test=stress
  *   npx tsx scripts/performance-suite.ts --test=upload
  *   npx tsx scripts/performance-suite.ts --test=websocket
+ *   npx tsx scripts/performance-suite.ts --test=geo
  */
 
 import { WebSocket } from "ws";
+import { calculateDistanceKm } from "../lib/geo";
+import { encodeGeohash, geohashRanges } from "../lib/geoIndex";
 
 // =============================================================================
 // CONFIGURATION
@@ -596,6 +600,132 @@ async function testWebSocketConcurrency(): Promise<void> {
   }
 }
 
+// =============================================================================
+// TEST 5: GEOSPATIAL RADIUS SEARCH (100K LOADS)
+// =============================================================================
+
+async function testGeoSearch(): Promise<void> {
+  console.log("\n" + "=".repeat(70));
+  console.log("TEST 5: GEOSPATIAL RADIUS SEARCH (100K LOADS)");
+  console.log("=".repeat(70));
+
+  // Synthetic load origins spread over Ethiopia's bounding box
+  const loadCount = 100_000;
+  const loads = Array.from({ length: loadCount }, (_, i) => {
+    const lat = 3.4 + Math.random() * 11.5;
+    const lon = 33.0 + Math.random() * 15.0;
+    return { id: `load-${i}`, lat, lon, geohash: encodeGeohash(lat, lon) };
+  });
+
+  // The originGeohash btree index: rows sorted by geohash
+  const byGeohash = [...loads].sort((a, b) =>
+    a.geohash < b.geohash ? -1 : a.geohash > b.geohash ? 1 : 0
+  );
+  const lowerBound = (key: string): number => {
+    let lo = 0;
+    let hi = byGeohash.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (byGeohash[mid].geohash < key) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const radii = [25, 50, 100, 200, 300];
+  const iterations = 200;
+  const results: {
+    radiusKm: number;
+    scanP50: number;
+    scanP99: number;
+    indexP50: number;
+    indexP90: number;
+    indexP99: number;
+    candidates: number;
+  }[] = [];
+
+  for (const radiusKm of radii) {
+    console.log(`\n📍 Searching within ${radiusKm} km...`);
+
+    const scanLatencies: number[] = [];
+    const indexLatencies: number[] = [];
+    let candidateTotal = 0;
+
+    for (let i = 0; i < iterations; i++) {
+      const lat = 6 + Math.random() * 7;
+      const lon = 36 + Math.random() * 7;
+
+      // Before: haversine over every load
+      let start = performance.now();
+      const scanned = loads.filter(
+        (l) => calculateDistanceKm(lat, lon, l.lat, l.lon) <= radiusKm
+      );
+      scanLatencies.push(performance.now() - start);
+
+      // After: geohash range lookups, exact check on the candidates only
+      start = performance.now();
+      const ranges = geohashRanges(lat, lon, radiusKm) ?? [];
+      const found: typeof loads = [];
+      for (const range of ranges) {
+        for (
+          let j = lowerBound(range.gte);
+          j < byGeohash.length &&
+          (range.lt === undefined || byGeohash[j].geohash < range.lt);
+          j++
+        ) {
+          candidateTotal++;
+          const l = byGeohash[j];
+          if (calculateDistanceKm(lat, lon, l.lat, l.lon) <= radiusKm) {
+            found.push(l);
+          }
+        }
+      }
+      indexLatencies.push(performance.now() - start);
+
+      if (found.length !== scanned.length) {
+        console.error(
+          `   ❌ Index returned ${found.length} loads, full scan ${scanned.length}`
+        );
+      }
+    }
+
+    const result = {
+      radiusKm,
+      scanP50: calculatePercentile(scanLatencies, 50),
+      scanP99: calculatePercentile(scanLatencies, 99),
+      indexP50: calculatePercentile(indexLatencies, 50),
+      indexP90: calculatePercentile(indexLatencies, 90),
+      indexP99: calculatePercentile(indexLatencies, 99),
+      candidates: Math.round(candidateTotal / iterations),
+    };
+    results.push(result);
+
+    console.log(
+      `   Full scan: p50 ${result.scanP50.toFixed(2)}ms, p99 ${result.scanP99.toFixed(2)}ms`
+    );
+    console.log(
+      `   Geohash:   p50 ${result.indexP50.toFixed(2)}ms, p90 ${result.indexP90.toFixed(2)}ms, p99 ${result.indexP99.toFixed(2)}ms (${result.candidates} candidates)`
+    );
+  }
+
+  // Summary
+  console.log("\n" + "-".repeat(70));
+  console.log(`GEOSPATIAL SEARCH SUMMARY - ${loadCount} loads`);
+  console.log("-".repeat(70));
+  console.log(
+    "| Radius | Scan p50 | Index p50 | Index p90 | Index p99 | Candidates |"
+  );
+  console.log(
+    "|--------|----------|-----------|-----------|-----------|------------|"
+  );
+  for (const r of results) {
+    console.log(
+      `| ${`${r.radiusKm}km`.padStart(6)} | ${r.scanP50.toFixed(2).padStart(8)} | ${r.indexP50.toFixed(2).padStart(9)} | ${r.indexP90.toFixed(2).padStart(9)} | ${r.indexP99.toFixed(2).padStart(9)} | ${String(r.candidates).padStart(10)} |`
+    );
+  }
+  console.log("-".repeat(70));
+}
+
 // =============================================================================
 // MAIN
 // =============================================================================
@@ -611,19 +741,21 @@ async function main(): Promise<void> {
   console.log(`WebSocket URL: ${WS_URL}`);
   console.log(`Time: ${new Date().toISOString()}`);
 
-  // Verify API is reachable
-  console.log("\n📡 Verifying API connectivity...");
-  try {
-    const response = await fetch(`${BASE_URL}/api/health`);
-    console.log(`   ✅ API reachable (status: ${response.status})`);
-  } catch (error) {
-    console.error(
-      "   ❌ API unreachable. Please ensure the server is running."
-    );
-    console.error(
-      `   Error: ${error instanceof Error ? error.message : "Unknown"}`
-    );
-    process.exit(1);
+  // Verify API is reachable (the geo benchmark runs in-process)
+  if (testArg !== "geo") {
+    console.log("\n📡 Verifying API connectivity...");
+    try {
+      const response = await fetch(`${BASE_URL}/api/health`);
+      console.log(`   ✅ API reachable (status: ${response.status})`);
+    } catch (error) {
+      console.error(
+        "   ❌ API unreachable. Please ensure the server is running."
+      );
+      console.error(
+        `   Error: ${error instanceof Error ? error.message : "Unknown"}`
+      );
+      process.exit(1);
+    }
   }
 
   const startTime = Date.now();
@@ -644,6 +776,10 @@ async function main(): Promise<void> {
     await testWebSocketConcurrency();
   }
 
+  if (!testArg || testArg === "geo") {
+    await testGeoSearch();
+  }
+
   const totalDuration = ((Date.now() - startTime) / 1000).toFixed(1);
 
   console.log("\n" + "█".repeat(70));
@@ -213,12 +213,57 @@ async function seedAutomationRules() {
 
   console.log("✓ Created Load Assignment Notification rule");
 
+  // Rule 6: Unsafe Driving (severe events from lib/drivingSafety.ts)
+  const unsafeDrivingRule = await db.automationRule.upsert({
+    where: {
+      id: "system-unsafe-driving",
+    },
+    create: {
+      id: "system-unsafe-driving",
+      name: "Unsafe Driving Detection",
+      description:
+        "Escalate when a severe speeding, harsh driving or long driving event is recorded",
+      ruleType: "SAFETY_BASED",
+      trigger: "ON_SAFETY_EVENT",
+      isSystem: true,
+      priority: 85,
+      schedulePattern: null,
+      conditions: {
+        safetySeverities: ["SEVERE"],
+        safetyWindowHours: 24,
+        minSafetyEvents: 1,
+      },
+      actions: [
+        {
+          type: "CREATE_ESCALATION",
+          escalationType: "UNSAFE_DRIVING",
+          priority: "HIGH",
+          title: "Unsafe driving detected",
+          description:
+            "Severe speeding or harsh driving recorded during the trip",
+        },
+        {
+          type: "SEND_NOTIFICATION",
+          notificationType: "UNSAFE_DRIVING",
+          notificationTitle: "Unsafe Driving Alert",
+          notificationMessage:
+            "Severe speeding or harsh driving recorded on your load",
+        },
+      ],
+      createdBy,
+    },
+    update: {},
+  });
+
+  console.log("✓ Created Unsafe Driving Detection rule");
+
   console.log("\n✅ Automation rules seeded successfully!");
   console.log(`   - ${latePickupRule.id}`);
   console.log(`   - ${lateDeliveryRule.id}`);
   console.log(`   - ${gpsOfflineRule.id}`);
   console.log(`   - ${stalledLoadRule.id}`);
   console.log(`   - ${assignmentNotificationRule.id}`);
+  console.log(`   - ${unsafeDrivingRule.id}`);
 }
 
 seedAutomationRules()
@@ -68,6 +68,8 @@ export type LoadType = "FULL" | "PARTIAL";
 
 export type BookMode = "REQUEST" | "INSTANT";
 
+export type LoadVisibility = "PUBLIC" | "NETWORK_ONLY" | "NETWORK_FIRST";
+
 export type PostingStatus = "ACTIVE" | "EXPIRED" | "CANCELLED" | "MATCHED";
 
 export type RequestStatus =
@@ -110,6 +112,7 @@ export type DisputeType =
   | "DAMAGE"
   | "LATE_DELIVERY"
   | "QUALITY_ISSUE"
+  | "DETENTION"
   | "OTHER";
 
 export type DisputeStatus = "OPEN" | "UNDER_REVIEW" | "RESOLVED" | "CLOSED";
@@ -241,6 +244,11 @@ export interface Load {
   currency: string;
   bookMode: BookMode;
 
+  // Visibility (private load boards)
+  visibility?: LoadVisibility;
+  networkExclusiveHours?: number | null;
+  publicAt?: Date | null;
+
   // Service Fees
   serviceFeeEtb?: number | null;
   shipperServiceFee?: number | null;
@@ -595,6 +603,37 @@ export interface TripPod {
   uploadedBy: string;
 }
 
+export type BillOfLadingStatus = "ISSUED" | "SIGNED";
+
+/** Signature strokes: [[x, y], ...] per stroke, normalized to 0..1 */
+export type SignatureStrokes = Array<Array<[number, number]>>;
+
+/**
+ * BillOfLading - Electronic BOL signed by shipper and driver at pickup
+ */
+export interface BillOfLading {
+  id: string;
+  bolNumber: string;
+  status: BillOfLadingStatus;
+  tripId: string;
+  loadId: string;
+  cargoDescription: string;
+  weight: number;
+  casesCount?: number | null;
+  isInsured: boolean;
+  insuranceProvider?: string | null;
+  insurancePolicyNumber?: string | null;
+  insuranceCoverageAmount?: number | null;
+  specialInstructions?: string | null;
+  shipperSignerName?: string | null;
+  shipperSignedAt?: Date | null;
+  driverSignerName?: string | null;
+  driverSignedAt?: Date | null;
+  fileUrl?: string | null;
+  issuedAt: Date;
+  signedAt?: Date | null;
+}
+
 /**
  * Dispute - Load dispute between shipper and carrier
  */
@@ -261,6 +261,12 @@ export interface ReferencePricingProps {
   loading?: boolean;
   className?: string;
   currency?: string;
+  /** "LANE_INDEX" when rates come from booked rates on the lane */
+  source?: "LANE_INDEX" | "HEURISTIC";
+  /** Bookings behind the lane index rates */
+  sampleSize?: number;
+  /** Median change vs the previous period, in percent */
+  trendPct?: number | null;
 }
 
 // ============================================================================